@@ -1,7 +1,4 @@
-import Anthropic from '@anthropic-ai/sdk';
-import dotenv from 'dotenv';
-
-dotenv.config();
+import { completeWithUsage } from './base';
 
 // Type definitions
 export type ConversationMode =
@@ -79,15 +76,8 @@ export interface ConversationResponse {
 }
 
 export class ConversationalIdeaAgent {
-  private client: Anthropic;
   private conversationMode: ConversationMode = 'exploration';
 
-  constructor() {
-    this.client = new Anthropic({
-      apiKey: process.env.ANTHROPIC_API_KEY,
-    });
-  }
-
   /**
    * Fast response method - returns AI response immediately without idea extraction
    * Idea extraction should be handled by PersistenceManager in background
@@ -115,9 +105,10 @@ export class ConversationalIdeaAgent {
 
     try {
       console.log('[getQuickResponse] Calling Claude API...');
-      const response = await this.client.messages.create({
+      const response = await completeWithUsage({
         model: 'claude-sonnet-4-20250514',
-        max_tokens: 2000,
+        maxTokens: 2000,
+        agentName: 'ConversationalIdeaAgent',
         system: systemPrompt,
         messages: [
           ...this.formatConversationHistory(conversationHistory),
@@ -131,13 +122,13 @@ export class ConversationalIdeaAgent {
       const elapsedTime = Date.now() - startTime;
       console.log(`[getQuickResponse] Claude API responded in ${elapsedTime}ms`);
 
-      const content = response.content[0];
-      if (content.type === 'text') {
+      const content = response.text;
+      if (content) {
         // Detect if mode should shift
-        const modeShift = this.detectModeShift(content.text);
+        const modeShift = this.detectModeShift(content);
 
         return {
-          response: content.text,
+          response: content,
           detectedIntent,
           modeShift,
         };
@@ -172,9 +163,10 @@ export class ConversationalIdeaAgent {
     const userPrompt = this.buildUserPrompt(userMessage, context, detectedIntent);
 
     try {
-      const response = await this.client.messages.create({
+      const response = await completeWithUsage({
         model: 'claude-sonnet-4-20250514',
-        max_tokens: 2000,
+        maxTokens: 2000,
+        agentName: 'ConversationalIdeaAgent',
         system: systemPrompt,
         messages: [
           ...this.formatConversationHistory(conversationHistory),
@@ -185,27 +177,27 @@ export class ConversationalIdeaAgent {
         ],
       });
 
-      const content = response.content[0];
-      if (content.type === 'text') {
+      const content = response.text;
+      if (content) {
         // Extract ideas mentioned in the conversation
         const extractedIdeas = await this.extractIdeasFromResponse(
           userMessage,
-          content.text,
+          content,
           conversationHistory
         );
 
         // Generate suggested next actions
         const suggestedActions = this.generateSuggestedActions(
-          content.text,
+          content,
           this.conversationMode,
           extractedIdeas
         );
 
         // Detect if mode should shift
-        const modeShift = this.detectModeShift(content.text);
+        const modeShift = this.detectModeShift(content);
 
         return {
-          response: content.text,
+          response: content,
           extractedIdeas,
           suggestedActions,
           modeShift,
@@ -763,18 +755,19 @@ IMPORTANT:
 If no NEW user ideas found, return: []`;
 
     try {
-      const response = await this.client.messages.create({
+      const response = await completeWithUsage({
         model: 'claude-sonnet-4-20250514',
-        max_tokens: 3000,
+        maxTokens: 3000,
+        agentName: 'ConversationalIdeaAgent',
         messages: [{ role: 'user', content: prompt }],
       });
 
-      const content = response.content[0];
-      if (content.type === 'text') {
-        console.log('🤖 Review response:', content.text.substring(0, 200) + '...');
+      const content = response.text;
+      if (content) {
+        console.log('🤖 Review response:', content.substring(0, 200) + '...');
 
         // Extract JSON array from response
-        const jsonMatch = content.text.match(/\[[\s\S]*\]/);
+        const jsonMatch = content.match(/\[[\s\S]*\]/);
         if (jsonMatch) {
           const extractedIdeasData = JSON.parse(jsonMatch[0]);
 
@@ -829,15 +822,16 @@ Based on the project context, generate 3-4 clarifying questions that would help
 Format as JSON array: ["question 1", "question 2", ...]`;
 
     try {
-      const response = await this.client.messages.create({
+      const response = await completeWithUsage({
         model: 'claude-sonnet-4-20250514',
-        max_tokens: 500,
+        maxTokens: 500,
+        agentName: 'ConversationalIdeaAgent',
         messages: [{ role: 'user', content: prompt }],
       });
 
-      const content = response.content[0];
-      if (content.type === 'text') {
-        const match = content.text.match(/\[[\s\S]*\]/);
+      const content = response.text;
+      if (content) {
+        const match = content.match(/\[[\s\S]*\]/);
         if (match) {
           return JSON.parse(match[0]);
         }
@@ -1,18 +1,8 @@
-import Anthropic from '@anthropic-ai/sdk';
-import dotenv from 'dotenv';
-
-dotenv.config();
+import { completeWithUsage } from './base';
 
 export class IdeaGeneratorAgent {
-  private client: Anthropic;
   private conversationHistory: Array<{ role: 'user' | 'assistant'; content: string }> = [];
 
-  constructor() {
-    this.client = new Anthropic({
-      apiKey: process.env.ANTHROPIC_API_KEY,
-    });
-  }
-
   /**
    * Generate creative ideas based on user's project and constraints
    */
@@ -34,9 +24,10 @@ export class IdeaGeneratorAgent {
     );
 
     try {
-      const response = await this.client.messages.create({
+      const response = await completeWithUsage({
         model: 'claude-sonnet-4-20250514',
-        max_tokens: 2000,
+        maxTokens: 2000,
+        agentName: 'IdeaGeneratorAgent',
         messages: [
           ...this.conversationHistory,
           {
@@ -46,19 +37,19 @@ export class IdeaGeneratorAgent {
         ],
       });
 
-      const content = response.content[0];
-      if (content.type === 'text') {
-        const ideas = this.parseIdeas(content.text);
+      const content = response.text;
+      if (content) {
+        const ideas = this.parseIdeas(content);
 
         // Add to conversation history
         this.conversationHistory.push(
           { role: 'user', content: prompt },
-          { role: 'assistant', content: content.text }
+          { role: 'assistant', content: content }
         );
 
         return {
           ideas,
-          rawResponse: content.text,
+          rawResponse: content,
         };
       }
     } catch (error) {
@@ -216,18 +207,19 @@ Respond in JSON format:
 }`;
 
     try {
-      const response = await this.client.messages.create({
+      const response = await completeWithUsage({
         model: 'claude-sonnet-4-20250514',
-        max_tokens: 1500,
+        maxTokens: 1500,
+        agentName: 'IdeaGeneratorAgent',
         messages: [
           ...this.conversationHistory,
           { role: 'user', content: prompt },
         ],
       });
 
-      const content = response.content[0];
-      if (content.type === 'text') {
-        const jsonMatch = content.text.match(/\{[\s\S]*\}/);
+      const content = response.text;
+      if (content) {
+        const jsonMatch = content.match(/\{[\s\S]*\}/);
         if (jsonMatch) {
           return JSON.parse(jsonMatch[0]);
         }
@@ -261,15 +253,16 @@ Format as JSON:
 ]`;
 
     try {
-      const response = await this.client.messages.create({
+      const response = await completeWithUsage({
         model: 'claude-sonnet-4-20250514',
-        max_tokens: 1500,
+        maxTokens: 1500,
+        agentName: 'IdeaGeneratorAgent',
         messages: [{ role: 'user', content: prompt }],
       });
 
-      const content = response.content[0];
-      if (content.type === 'text') {
-        const jsonMatch = content.text.match(/\[[\s\S]*\]/);
+      const content = response.text;
+      if (content) {
+        const jsonMatch = content.match(/\[[\s\S]*\]/);
         if (jsonMatch) {
           return JSON.parse(jsonMatch[0]);
         }
@@ -1,31 +1,25 @@
-import Anthropic from '@anthropic-ai/sdk';
 import dotenv from 'dotenv';
-import { AI_MODELS, getModelForAgent } from '../config/aiModels';
+import { AI_MODELS, getModelForAgent, getModelForBudget } from '../config/aiModels';
+import {
+  LLMProvider,
+  LLMRequest,
+  LLMResponse,
+  LLMStreamOptions,
+  getLLMProvider,
+  isAbortError,
+  streamCompletion,
+} from '../services/llmProvider';
+import { tokenMetrics } from '../services/tokenMetrics';
+import { getUsageContext } from '../services/usageContext';
 
 dotenv.config();
 
-// Singleton Anthropic client instance (optimization: shared across all agents)
-let sharedClient: Anthropic | null = null;
-
-function getSharedAnthropicClient(): Anthropic {
-  if (!sharedClient) {
-    sharedClient = new Anthropic({
-      apiKey: process.env.ANTHROPIC_API_KEY,
-    });
-    console.log('[BaseAgent] Initialized shared Anthropic client');
-  }
-  return sharedClient;
-}
-
 export class BaseAgent {
-  protected client: Anthropic;
   protected name: string;
   protected systemPrompt: string;
   protected defaultModel: string;
 
   constructor(name: string, systemPrompt: string, model?: string) {
-    // Use shared singleton client instead of creating new instance per agent
-    this.client = getSharedAnthropicClient();
     this.name = name;
     this.systemPrompt = systemPrompt;
     // Auto-select model based on agent name, or use provided model, or fallback to Sonnet
@@ -33,6 +27,13 @@ export class BaseAgent {
     this.log(`Initialized with model: ${this.defaultModel}`);
   }
 
+  /**
+   * Shared LLM provider selected by config (resolved per call so tests can swap it)
+   */
+  protected get provider(): LLMProvider {
+    return getLLMProvider();
+  }
+
   /**
    * Sanitize text content to remove invalid Unicode characters that break JSON encoding
    */
@@ -65,67 +66,104 @@ export class BaseAgent {
     messages: Array<{ role: string; content: string | any[] }>,
     maxTokens: number = 1000,
     model?: string
+  ): Promise<string> {
+    return this.callClaudeWith(messages, maxTokens, model);
+  }
+
+  /**
+   * Like callClaude, but forwards text deltas to stream.onText as they arrive
+   * For replies shown to the user while they wait; aborting stream.signal
+   * cancels the upstream request and rejects.
+   */
+  protected async callClaudeStream(
+    messages: Array<{ role: string; content: string | any[] }>,
+    maxTokens: number,
+    stream: LLMStreamOptions,
+    model?: string
+  ): Promise<string> {
+    return this.callClaudeWith(messages, maxTokens, model, stream);
+  }
+
+  private async callClaudeWith(
+    messages: Array<{ role: string; content: string | any[] }>,
+    maxTokens: number,
+    model?: string,
+    stream?: LLMStreamOptions
   ): Promise<string> {
     try {
       const selectedModel = model || this.defaultModel;
-      this.log(`Calling Claude API (${selectedModel}) with ${messages.length} messages...`);
+      this.log(`${stream ? 'Streaming' : 'Calling'} ${this.provider.name} (${selectedModel}) with ${messages.length} messages...`);
       const startTime = Date.now();
 
-      const response = await this.client.messages.create({
+      const response = await this.complete({
         model: selectedModel,
-        max_tokens: maxTokens,
-        system: this.systemPrompt,
+        maxTokens,
+        system: this.getSystemPrompt(),
         messages: messages.map(msg => ({
           role: msg.role as 'user' | 'assistant',
           content: typeof msg.content === 'string' ? this.sanitizeText(msg.content) : msg.content,
         })),
-      });
+        agentName: this.name,
+      }, stream);
 
       const duration = Date.now() - startTime;
-      this.log(`Claude API (${selectedModel}) responded in ${duration}ms`);
-
-      const text = response.content[0].type === 'text' ? response.content[0].text : '';
-      this.log(`Received ${text.length} characters`);
+      this.log(`${this.provider.name} (${response.model}) responded in ${duration}ms`);
+      this.log(`Received ${response.text.length} characters`);
 
-      return text;
+      return response.text;
     } catch (error: any) {
+      if (isAbortError(error)) {
+        this.log('Request cancelled');
+        throw error;
+      }
       console.error(`${this.name} Claude API error:`, error.message || error);
       console.error(`Error details:`, JSON.stringify(error, null, 2));
       throw error;
     }
   }
 
+  /**
+   * The agent's system prompt plus the project memory of the current context
+   */
+  private getSystemPrompt(): string {
+    const memory = getUsageContext().projectMemory;
+    return memory ? `${this.systemPrompt}\n\n${memory}` : this.systemPrompt;
+  }
+
   /**
    * Call Claude with vision support for image analysis
+   * Pass several images (e.g. video keyframes) as an array; they share one media type.
    */
   protected async callClaudeVision(
     textPrompt: string,
-    imageBase64: string,
+    imageBase64: string | string[],
     mediaType: 'image/jpeg' | 'image/png' | 'image/gif' | 'image/webp',
     maxTokens: number = 2000,
     model?: string
   ): Promise<string> {
     try {
       const selectedModel = model || this.defaultModel;
-      this.log(`Calling Claude Vision API (${selectedModel}) with image...`);
+      const images = Array.isArray(imageBase64) ? imageBase64 : [imageBase64];
+      this.log(`Calling ${this.provider.name} vision (${selectedModel}) with ${images.length} image(s)...`);
       const startTime = Date.now();
 
-      const response = await this.client.messages.create({
+      const response = await this.complete({
         model: selectedModel,
-        max_tokens: maxTokens,
+        maxTokens,
         system: this.systemPrompt,
+        agentName: this.name,
         messages: [
           {
             role: 'user',
             content: [
-              {
+              ...images.map(data => ({
                 type: 'image',
                 source: {
                   type: 'base64',
                   media_type: mediaType,
-                  data: imageBase64,
+                  data,
                 },
-              },
+              })),
               {
                 type: 'text',
                 text: textPrompt,
@@ -136,12 +174,10 @@ export class BaseAgent {
       });
 
       const duration = Date.now() - startTime;
-      this.log(`Claude Vision API (${selectedModel}) responded in ${duration}ms`);
+      this.log(`${this.provider.name} vision (${response.model}) responded in ${duration}ms`);
+      this.log(`Received ${response.text.length} characters`);
 
-      const text = response.content[0].type === 'text' ? response.content[0].text : '';
-      this.log(`Received ${text.length} characters`);
-
-      return text;
+      return response.text;
     } catch (error: any) {
       console.error(`${this.name} Claude Vision API error:`, error.message || error);
       console.error(`Error details:`, JSON.stringify(error, null, 2));
@@ -149,7 +185,59 @@ export class BaseAgent {
     }
   }
 
+  /**
+   * Send a request through the configured provider and record its actual usage
+   * (see completeWithUsage)
+   */
+  protected async complete(request: LLMRequest, stream?: LLMStreamOptions): Promise<LLMResponse> {
+    return completeWithUsage({ ...request, agentName: request.agentName || this.name }, stream);
+  }
+
   protected log(message: string): void {
     console.log(`[${this.name}] ${message}`);
   }
 }
+
+/**
+ * Send a request through the configured provider and record its actual usage,
+ * attributed to the current usage context (project, user, operation).
+ * Applies budget model downgrades from the context.
+ * With stream options the response is streamed to stream.onText.
+ *
+ * Services that call the model without being an agent use this directly,
+ * naming themselves in request.agentName.
+ */
+export async function completeWithUsage(request: LLMRequest, stream?: LLMStreamOptions): Promise<LLMResponse> {
+  const provider = getLLMProvider();
+  const context = getUsageContext();
+  const agentName = request.agentName || 'unknown';
+  const log = (message: string) => console.log(`[${agentName}] ${message}`);
+
+  // Over-budget projects/users are moved to cheaper models
+  const budgetModel = getModelForBudget(request.model, context.budgetLevel);
+  if (budgetModel !== request.model) {
+    log(`Budget ${context.budgetLevel} limit reached - downgrading ${request.model} to ${budgetModel}`);
+    request = { ...request, model: budgetModel };
+  }
+
+  const response = stream
+    ? await streamCompletion(provider, request, stream)
+    : await provider.complete(request);
+
+  const record = tokenMetrics.recordUsage({
+    agentName,
+    operation: context.operation,
+    model: response.model,
+    provider: provider.name,
+    projectId: context.projectId,
+    userId: context.userId,
+    inputTokens: response.usage.inputTokens,
+    outputTokens: response.usage.outputTokens,
+    cacheCreationInputTokens: response.usage.cacheCreationInputTokens,
+    cacheReadInputTokens: response.usage.cacheReadInputTokens,
+  });
+  log(`Usage: ${record.inputTokens} in / ${record.outputTokens} out / ${record.cacheReadInputTokens} cache read ($${record.costUSD.toFixed(4)})`);
+  context.traceStep?.addUsage(record);
+
+  return response;
+}
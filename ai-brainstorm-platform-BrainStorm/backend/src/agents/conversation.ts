@@ -1,6 +1,8 @@
 import { BaseAgent } from './base';
 import { ConversationAgentResponse, ConversationMetadata } from '../types';
 import { AI_MODELS } from '../config/aiModels';
+import { RetrievedSource, formatSourcesForPrompt, extractCitations } from '../services/chatRetrieval';
+import type { LLMStreamOptions } from '../services/llmProvider';
 
 /**
  * Input analysis interface for adaptive responses
@@ -246,7 +248,7 @@ Be adaptive, generative, and help users discover possibilities they hadn't consi
     userMessage: string,
     analysis: InputAnalysis,
     conversationHistory: any[],
-    projectReferences: any[],
+    sources: RetrievedSource[],
     projectState: any,
     isCorrection: boolean
   ): string {
@@ -283,9 +285,14 @@ Be adaptive, generative, and help users discover possibilities they hadn't consi
       prompt += `\n`;
     }
 
-    // ⚡ SPEED OPTIMIZATION: Skip references/project state for conversation speed
+    // Only the passages retrieved for this message, not whole references
+    if (sources.length > 0) {
+      prompt += `Project sources that may be relevant:\n${formatSourcesForPrompt(sources)}\n\n`;
+      prompt += `[When a statement relies on one of these sources, cite it inline by number, e.g. "the vendor caps seats at 50 [2]". Only cite what the source actually says, use [1][3] for several sources, and ignore sources that don't help.]\n\n`;
+    }
+
+    // ⚡ SPEED OPTIMIZATION: Skip project state for conversation speed
     // The PersistenceManager will use full context when recording to canvas
-    // Conversation should be FAST - only use immediate chat context
 
     prompt += `Respond naturally based on the detail level above.`;
 
@@ -294,8 +301,17 @@ Be adaptive, generative, and help users discover possibilities they hadn't consi
 
   /**
    * Main conversation method - reflects understanding and asks clarifying questions
+   * Sources are the passages retrieved for this message; the reply cites them as [n].
+   * With stream options the reply's text is forwarded as it is generated; the
+   * returned message is final (a correction retry replaces the streamed text).
    */
-  async respond(userMessage: string, conversationHistory: any[], projectState: any, projectReferences: any[] = []): Promise<ConversationAgentResponse> {
+  async respond(
+    userMessage: string,
+    conversationHistory: any[],
+    projectState: any,
+    sources: RetrievedSource[] = [],
+    stream?: LLMStreamOptions
+  ): Promise<ConversationAgentResponse> {
     this.log('Processing conversation');
 
     // Detect simple approvals early and return brief acknowledgment
@@ -331,7 +347,7 @@ Be adaptive, generative, and help users discover possibilities they hadn't consi
       userMessage,
       inputAnalysis,
       conversationHistory || [],
-      projectReferences || [],
+      sources || [],
       projectState,
       isCorrection
     );
@@ -343,7 +359,9 @@ Be adaptive, generative, and help users discover possibilities they hadn't consi
       },
     ];
 
-    const response = await this.callClaude(messages, 600);
+    const response = stream
+      ? await this.callClaudeStream(messages, 600, stream)
+      : await this.callClaude(messages, 600);
 
     // Count question marks
     const questionCount = (response.match(/\?/g) || []).length;
@@ -395,9 +413,11 @@ DO NOT ASK ANY QUESTIONS during corrections. Just acknowledge and restate correc
       };
     }
 
+    const { message, citations } = extractCitations(response.trim(), sources || []);
+
     return {
       agent: 'ConversationAgent',
-      message: response.trim(),
+      message,
       showToUser: true,
       metadata: {
         isCorrection,
@@ -409,7 +429,8 @@ DO NOT ASK ANY QUESTIONS during corrections. Just acknowledge and restate correc
           wordCount: inputAnalysis.wordCount,
           specificsDetected: Object.values(inputAnalysis.specifics).filter(Boolean).length,
           mentionedTech: inputAnalysis.mentionedItems.length > 0 ? inputAnalysis.mentionedItems : undefined
-        }
+        },
+        citations: citations.length > 0 ? citations : undefined,
       },
     };
   }
@@ -500,8 +521,13 @@ Return ONLY valid JSON:
   /**
    * Legacy compatibility - maps old "reflect" method to new "respond"
    */
-  async reflect(userMessage: string, conversationHistory: any[], projectReferences: any[] = []): Promise<ConversationAgentResponse> {
-    return this.respond(userMessage, conversationHistory, {}, projectReferences);
+  async reflect(
+    userMessage: string,
+    conversationHistory: any[],
+    sources: RetrievedSource[] = [],
+    stream?: LLMStreamOptions
+  ): Promise<ConversationAgentResponse> {
+    return this.respond(userMessage, conversationHistory, {}, sources, stream);
   }
 
   /**
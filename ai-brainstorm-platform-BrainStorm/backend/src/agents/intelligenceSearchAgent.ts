@@ -1,6 +1,6 @@
 import { BaseAgent } from './base';
-import Anthropic from '@anthropic-ai/sdk';
 import { SupabaseClient } from '@supabase/supabase-js';
+import { hybridSearchService, HybridSearchResult } from '../services/hybridSearch';
 
 interface SearchFilters {
   docTypes?: string[];
@@ -62,16 +62,12 @@ Be concise, accurate, and focus on the most relevant information.`;
       // Gather data from all sources
       const [
         decisions,
-        generatedDocs,
-        userDocs,
-        activity,
-        references
+        { generatedDocs, userDocs, references },
+        activity
       ] = await Promise.all([
         this.searchDecisions(project, query, filters),
-        this.searchGeneratedDocuments(projectId, query, filters),
-        this.searchUserDocuments(projectId, query),
-        this.searchActivity(projectId, query, filters),
-        this.searchReferences(projectId, query)
+        this.searchKnowledge(projectId, query, filters),
+        this.searchActivity(projectId, query, filters)
       ]);
 
       this.log(`Found: ${decisions.length} decisions, ${generatedDocs.length} generated docs, ${userDocs.length} user docs, ${activity.length} activities, ${references.length} references`);
@@ -136,53 +132,45 @@ Be concise, accurate, and focus on the most relevant information.`;
   }
 
   /**
-   * Search generated documents
+   * Search generated documents, uploaded documents and references
+   * Hybrid keyword + vector ranking, best match first; each row carries its
+   * searchScore and the passage that matched.
    */
-  private async searchGeneratedDocuments(
+  private async searchKnowledge(
     projectId: string,
     query: string,
     filters?: SearchFilters
-  ): Promise<any[]> {
-    let dbQuery = this.supabase
-      .from('generated_documents')
-      .select('*')
-      .eq('project_id', projectId)
-      .ilike('content', `%${query}%`);
-
-    // Filter by document types if specified
-    if (filters?.docTypes && filters.docTypes.length > 0) {
-      dbQuery = dbQuery.in('document_type', filters.docTypes);
+  ): Promise<{ generatedDocs: any[]; userDocs: any[]; references: any[] }> {
+    let ranked: HybridSearchResult[];
+    try {
+      ranked = await hybridSearchService.search([projectId], query, {
+        types: ['generated_document', 'document', 'reference'],
+        limit: 100,
+      });
+    } catch (error: any) {
+      this.log(`Error searching documents and references: ${error.message || error}`);
+      return { generatedDocs: [], userDocs: [], references: [] };
     }
 
-    const { data, error } = await dbQuery;
-
-    if (error) {
-      this.log(`Error searching generated documents: ${error.message}`);
-      return [];
-    }
+    const rows = (type: HybridSearchResult['type']) => ranked
+      .filter(result => result.type === type)
+      .map(result => ({
+        ...result.record,
+        searchScore: Math.round(result.score * 100),
+        matchedPassage: result.passage,
+      }));
 
-    return data || [];
-  }
-
-  /**
-   * Search user-uploaded documents
-   */
-  private async searchUserDocuments(
-    projectId: string,
-    query: string
-  ): Promise<any[]> {
-    const { data, error } = await this.supabase
-      .from('documents')
-      .select('*')
-      .eq('project_id', projectId)
-      .or(`filename.ilike.%${query}%,metadata->>description.ilike.%${query}%`);
-
-    if (error) {
-      this.log(`Error searching user documents: ${error.message}`);
-      return [];
+    let generatedDocs = rows('generated_document');
+    // Filter by document types if specified
+    if (filters?.docTypes && filters.docTypes.length > 0) {
+      generatedDocs = generatedDocs.filter(doc => filters.docTypes!.includes(doc.document_type));
     }
 
-    return data || [];
+    return {
+      generatedDocs,
+      userDocs: rows('document'),
+      references: rows('reference'),
+    };
   }
 
   /**
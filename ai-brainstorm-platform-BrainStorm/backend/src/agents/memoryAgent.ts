@@ -0,0 +1,129 @@
+import { BaseAgent } from './base';
+
+export const MEMORY_FACT_CATEGORIES = ['constraint', 'preference', 'stakeholder', 'rejected_idea', 'answer'] as const;
+export type MemoryFactCategory = typeof MEMORY_FACT_CATEGORIES[number];
+
+export interface MemoryUpdateInput {
+  /** Summary of everything before these messages ('' for a new project) */
+  summary: string;
+  /** Facts already remembered, so they are not extracted twice */
+  facts: Array<{ id: string; category: MemoryFactCategory; content: string; reason?: string | null }>;
+  /** Messages not yet folded into the summary, oldest first */
+  messages: Array<{ role: string; content: string }>;
+}
+
+export interface ExtractedMemoryFact {
+  category: MemoryFactCategory;
+  content: string;
+  reason?: string;
+  /** Index into MemoryUpdateInput.messages of the message the fact came from */
+  messageIndex?: number;
+}
+
+export interface MemoryUpdate {
+  summary: string;
+  newFacts: ExtractedMemoryFact[];
+  /** Existing facts the new messages contradict or replace */
+  obsoleteFactIds: string[];
+}
+
+/**
+ * ProjectMemoryAgent
+ *
+ * Folds messages that are about to leave the agents' pruned history into a
+ * rolling summary and pulls out durable facts (constraints, preferences,
+ * stakeholders, rejected ideas with their reasons, questions already answered).
+ */
+export class ProjectMemoryAgent extends BaseAgent {
+  constructor() {
+    const systemPrompt = `Project Memory Agent - keeps the long-term memory of a brainstorming project.
+
+YOUR ROLE:
+1. Update a rolling summary of the conversation with new messages
+2. Extract durable facts the team should never have to repeat
+3. Retire remembered facts that new messages contradict or replace
+
+SUMMARY RULES:
+- Rewrite the previous summary to include the new messages; never drop earlier points that still hold
+- Keep it under 300 words, in plain prose, past tense ("The team decided...")
+- Focus on direction, open threads and why things were decided
+
+FACT CATEGORIES:
+- constraint: budgets, deadlines, platforms, regulations, hard limits
+- preference: how the team likes things done (tools, style, priorities)
+- stakeholder: people, teams, customers and what they care about
+- rejected_idea: ideas the team turned down - ALWAYS include the reason
+- answer: questions the team already answered, phrased as the settled answer
+
+FACT RULES:
+- Only facts stated or clearly agreed by the user, not suggestions from assistants
+- One fact per entry, short and self-contained
+- Skip facts already remembered unless they changed
+
+Return ONLY valid JSON.`;
+
+    super('projectMemory', systemPrompt);
+  }
+
+  /**
+   * Produce the next summary and the fact changes for a batch of messages
+   * Throws when the response cannot be parsed, so callers keep the old memory.
+   */
+  async update(input: MemoryUpdateInput): Promise<MemoryUpdate> {
+    this.log(`Folding ${input.messages.length} messages into memory (${input.facts.length} facts remembered)`);
+
+    const remembered = input.facts.length > 0
+      ? input.facts.map(fact => `- [${fact.id}] (${fact.category}) ${fact.content}${fact.reason ? ` - reason: ${fact.reason}` : ''}`).join('\n')
+      : '(none)';
+    const messages = input.messages
+      .map((message, index) => `[${index}] ${message.role}: ${this.truncate(message.content, 1500)}`)
+      .join('\n\n');
+
+    const prompt = `PREVIOUS SUMMARY:
+${input.summary || '(none yet)'}
+
+REMEMBERED FACTS:
+${remembered}
+
+NEW MESSAGES:
+${messages}
+
+Return ONLY valid JSON:
+{
+  "summary": "the updated rolling summary",
+  "newFacts": [
+    { "category": "constraint|preference|stakeholder|rejected_idea|answer", "content": "the fact", "reason": "why (rejected_idea only)", "messageIndex": 0 }
+  ],
+  "obsoleteFactIds": ["ids of remembered facts the new messages contradict or replace"]
+}`;
+
+    const response = await this.callClaude([{ role: 'user', content: prompt }], 1500);
+    const cleanResponse = response.replace(/```json\n?/g, '').replace(/```\n?/g, '').trim();
+    const parsed = JSON.parse(cleanResponse);
+
+    if (typeof parsed.summary !== 'string') {
+      throw new Error('Memory update has no summary');
+    }
+
+    const knownIds = new Set(input.facts.map(fact => fact.id));
+    return {
+      summary: parsed.summary.trim(),
+      newFacts: (Array.isArray(parsed.newFacts) ? parsed.newFacts : [])
+        .filter((fact: any) =>
+          MEMORY_FACT_CATEGORIES.includes(fact?.category) && typeof fact.content === 'string' && fact.content.trim()
+        )
+        .map((fact: any) => ({
+          category: fact.category,
+          content: fact.content.trim(),
+          reason: typeof fact.reason === 'string' && fact.reason.trim() ? fact.reason.trim() : undefined,
+          messageIndex: Number.isInteger(fact.messageIndex) ? fact.messageIndex : undefined,
+        })),
+      obsoleteFactIds: (Array.isArray(parsed.obsoleteFactIds) ? parsed.obsoleteFactIds : [])
+        .filter((id: any) => knownIds.has(id)),
+    };
+  }
+
+  private truncate(text: string, maxLength: number): string {
+    return text.length > maxLength ? `${text.substring(0, maxLength)}...` : text;
+  }
+}
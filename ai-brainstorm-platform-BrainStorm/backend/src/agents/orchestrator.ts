@@ -19,8 +19,18 @@ import { ReferenceAnalysisAgent } from './referenceAnalysis';
 import { ReviewerAgent } from './reviewer';
 import { ResourceManagerAgent } from './resourceManager';
 import { ContextPruner } from '../services/contextPruner';
-import { ResponseCache } from '../services/responseCache';
-import { TokenMetrics } from '../services/tokenMetrics';
+import { ResponseCache, responseCache } from '../services/responseCache';
+import { TokenMetrics, tokenMetrics } from '../services/tokenMetrics';
+import { runWithUsageContext, getUsageContext } from '../services/usageContext';
+import { workflowRegistry, WorkflowCatalog } from '../services/workflowRegistry';
+import { WorkflowTrace } from '../services/workflowTracer';
+import { RetrievedSource } from '../services/chatRetrieval';
+
+interface StepTracing {
+  trace: WorkflowTrace;
+  batch: number;
+  parallel: boolean;
+}
 
 export class IntegrationOrchestrator {
   private agents: Map<string, any>;
@@ -33,8 +43,8 @@ export class IntegrationOrchestrator {
     this.agents = new Map();
     this.workflowHistory = [];
     this.contextPruner = new ContextPruner();
-    this.responseCache = new ResponseCache();
-    this.tokenMetrics = new TokenMetrics();
+    this.responseCache = responseCache;
+    this.tokenMetrics = tokenMetrics;
     this.initializeAgents();
   }
 
@@ -91,104 +101,105 @@ export class IntegrationOrchestrator {
     console.log('    - ResearchSuggestionAgent → Use UnifiedResearchAgent with intent="gap_analysis"');
   }
 
-  async determineWorkflow(intent: IntentClassification, userMessage: string): Promise<Workflow> {
+  /**
+   * Agents available to workflow documents, with the methods each implements
+   */
+  getWorkflowCatalog(): WorkflowCatalog {
+    const agents: Record<string, string[]> = {};
+    for (const [name, agent] of this.agents) {
+      agents[name] = Object.getOwnPropertyNames(Object.getPrototypeOf(agent))
+        .filter(method => method !== 'constructor' && typeof agent[method] === 'function');
+    }
+    return { agents };
+  }
+
+  async determineWorkflow(intent: IntentClassification, userMessage: string, projectId?: string): Promise<Workflow> {
     console.log(`[Orchestrator] Determining workflow for intent: ${intent.type}`);
 
-    const workflows: { [key: string]: WorkflowStep[] } = {
-      brainstorming: [
-        { agentName: 'brainstorming', action: 'reflect', parallel: true },
-        { agentName: 'gapDetection', action: 'analyze', parallel: false }, // End parallel group
-        // FIX #4: Removed condition - always run generateQuestion so questions always appear in bubble
-        // { agentName: 'clarification', action: 'generateQuestion', condition: 'if_gaps_found' },
-      ],
-
-      deciding: [
-        { agentName: 'brainstorming', action: 'reflect' },
-        // These 3 agents can run in parallel - they're all independent validation checks
-        { agentName: 'verification', action: 'verify', parallel: true },
-        { agentName: 'assumptionBlocker', action: 'scan', parallel: true },
-        { agentName: 'consistencyGuardian', action: 'checkConsistency', parallel: false }, // End parallel group
-        { agentName: 'versionControl', action: 'trackChange' },
-      ],
-
-      modifying: [
-        { agentName: 'brainstorming', action: 'reflect' },
-        // Verification and consistency can run in parallel
-        { agentName: 'verification', action: 'verify', parallel: true },
-        { agentName: 'consistencyGuardian', action: 'checkConsistency', parallel: false }, // End parallel group
-        { agentName: 'versionControl', action: 'trackChange', parallel: true },
-        { agentName: 'accuracyAuditor', action: 'audit', parallel: false }, // End parallel group
-      ],
-
-      exploring: [
-        { agentName: 'brainstorming', action: 'reflect', parallel: true },
-        { agentName: 'questioner', action: 'generateQuestion', parallel: false }, // End parallel group
-      ],
-
-      reviewing: [
-        { agentName: 'reviewer', action: 'review' },  // Review conversation for missing items
-        // Audit and prioritization can run in parallel
-        { agentName: 'accuracyAuditor', action: 'audit', parallel: true },
-        { agentName: 'prioritization', action: 'prioritize', parallel: false }, // End parallel group
-      ],
-
-      development: [
-        { agentName: 'translation', action: 'translate' },
-        { agentName: 'development', action: 'research' },
-        { agentName: 'reviewer', action: 'review' },
-      ],
-
-      general: [
-        { agentName: 'brainstorming', action: 'reflect' },
-      ],
-
-      parking: [
-        { agentName: 'brainstorming', action: 'reflect' },
-      ],
-
-      reference_integration: [
-        { agentName: 'referenceAnalysis', action: 'analyzeWithContext' },
-        { agentName: 'consistencyGuardian', action: 'checkReferenceAgainstDecisions' },
-        { agentName: 'clarification', action: 'generateQuestion', condition: 'if_conflicts_found' },
-      ],
-
-      document_research: [
-        { agentName: 'documentResearch', action: 'analyzeAndSuggest' },
-        { agentName: 'qualityAuditor', action: 'validateSuggestions' },
-      ],
-    };
+    const resolved = await workflowRegistry.resolve(intent.type, this.getWorkflowCatalog(), projectId);
+    if (resolved.skipped.length > 0) {
+      console.log(`[Orchestrator] Project workflow skips: ${resolved.skipped.map(s => s.agentName).join(', ')}`);
+    }
 
     const workflow: Workflow = {
       intent: intent.type,
-      sequence: workflows[intent.type] || workflows.general,
+      sequence: resolved.sequence,
       timestamp: new Date().toISOString(),
       confidence: intent.confidence,
+      definition: {
+        intent: resolved.intent,
+        skipped: resolved.skipped,
+        ...resolved.source,
+      },
     };
 
     this.workflowHistory.push(workflow);
     return workflow;
   }
 
+  /**
+   * Dry run: which steps would run for a message, without executing any agent
+   * Classifies the message unless an intent is given.
+   */
+  async planWorkflow(
+    userMessage: string,
+    conversationHistory: any[],
+    projectId?: string,
+    intentType?: string
+  ): Promise<{ workflow: Workflow; intent: IntentClassification; batches: WorkflowStep[][] }> {
+    let intent: IntentClassification;
+    if (intentType) {
+      intent = {
+        type: intentType as IntentClassification['type'],
+        confidence: 100,
+        needsClarification: false,
+        reasoning: 'Intent given for dry run',
+      };
+    } else {
+      const classification = await this.agents.get('contextManager').classifyIntent(userMessage, conversationHistory);
+      intent = classification.metadata;
+    }
+
+    const workflow = await this.determineWorkflow(intent, userMessage, projectId);
+    // Dry runs are not real workflows
+    this.workflowHistory.pop();
+
+    return {
+      workflow,
+      intent,
+      batches: this.groupStepsForParallelExecution(workflow.sequence),
+    };
+  }
+
   async executeWorkflow(
     workflow: Workflow,
     userMessage: string,
     projectState: any,
     conversationHistory: any[],
-    projectReferences: any[] = []
+    projectReferences: any[] = [],
+    trace?: WorkflowTrace,
+    sources: RetrievedSource[] = []
   ): Promise<AgentResponse[]> {
     console.log(`[Orchestrator] Executing workflow: ${workflow.intent}`);
     console.log(`[Orchestrator] References available: ${projectReferences.length}`);
 
     const results: AgentResponse[] = [];
     let shouldContinue = true;
+    let stoppedBy: string | null = null; // Condition that ended the workflow early
     let reviewData: any = null; // Store review data for later use
 
     // Group steps into parallel batches
     const batches = this.groupStepsForParallelExecution(workflow.sequence);
     console.log(`[Orchestrator] Organized ${workflow.sequence.length} steps into ${batches.length} execution batches`);
 
-    for (const batch of batches) {
-      if (!shouldContinue) break;
+    for (const [batchIndex, batch] of batches.entries()) {
+      if (!shouldContinue) {
+        batch.forEach(step => trace?.skip(
+          { ...step, batch: batchIndex, parallel: batch.length > 1 },
+          `Workflow stopped because condition "${stoppedBy}" was not met`
+        ));
+        continue;
+      }
 
       // Execute batch (single step or parallel group)
       if (batch.length === 1) {
@@ -198,7 +209,11 @@ export class IntegrationOrchestrator {
         // Check condition
         if (step.condition) {
           shouldContinue = this.evaluateCondition(step.condition, results);
-          if (!shouldContinue) continue;
+          if (!shouldContinue) {
+            stoppedBy = step.condition;
+            trace?.skip({ ...step, batch: batchIndex, parallel: false }, `Condition "${step.condition}" was not met`);
+            continue;
+          }
         }
 
         const result = await this.executeSingleStep(
@@ -207,9 +222,11 @@ export class IntegrationOrchestrator {
           projectState,
           conversationHistory,
           projectReferences,
+          sources,
           results,
           workflow,
-          reviewData
+          reviewData,
+          trace && { trace, batch: batchIndex, parallel: false }
         );
 
         if (result) {
@@ -231,9 +248,11 @@ export class IntegrationOrchestrator {
             projectState,
             conversationHistory,
             projectReferences,
+            sources,
             results,
             workflow,
-            reviewData
+            reviewData,
+            trace && { trace, batch: batchIndex, parallel: true }
           ).catch(error => {
             console.error(`[Orchestrator] Error in parallel execution of ${step.agentName}:`, error);
             return null;
@@ -283,7 +302,7 @@ export class IntegrationOrchestrator {
   }
 
   /**
-   * Execute a single workflow step
+   * Execute a single workflow step (errors are logged and yield null)
    */
   private async executeSingleStep(
     step: WorkflowStep,
@@ -291,70 +310,147 @@ export class IntegrationOrchestrator {
     projectState: any,
     conversationHistory: any[],
     projectReferences: any[],
+    sources: RetrievedSource[],
     results: AgentResponse[],
     workflow: Workflow,
-    reviewData: any
+    reviewData: any,
+    tracing?: StepTracing
   ): Promise<AgentResponse | null> {
+    const run = () => this.runStep(
+      step,
+      userMessage,
+      projectState,
+      conversationHistory,
+      projectReferences,
+      sources,
+      results,
+      workflow,
+      reviewData
+    );
+
     try {
-      const agent = this.agents.get(step.agentName);
-      if (!agent) {
-        console.error(`[Orchestrator] Agent not found: ${step.agentName}`);
-        return null;
+      if (!tracing) {
+        return await run();
       }
 
-      // Phase 2 Optimization: Smart Context Pruning
-      // Prune conversation history based on agent-specific needs
-      const { prunedHistory, stats } = this.contextPruner.pruneForAgent(
-        step.agentName,
-        conversationHistory,
-        projectState
-      );
-
-      // Log pruning statistics
-      this.contextPruner.logStats(stats);
-
-      // Phase 2 Optimization: Response Caching
-      // Check cache before executing agent
-      const cacheKey = this.responseCache.generateKey(
-        step.agentName,
-        userMessage,
-        projectState,
-        prunedHistory
-      );
+      return await tracing.trace.runStep({
+        agentName: step.agentName,
+        action: step.action,
+        batch: tracing.batch,
+        parallel: tracing.parallel,
+        condition: step.condition,
+        inputs: {
+          message: userMessage.slice(0, 200),
+          historyMessages: conversationHistory.length,
+          references: projectReferences.length,
+          sources: sources.length,
+          items: {
+            decided: projectState?.decided?.length || 0,
+            exploring: projectState?.exploring?.length || 0,
+            parked: projectState?.parked?.length || 0,
+          },
+          previousResults: results.map(r => r.agent),
+        },
+      }, run);
+    } catch (error) {
+      console.error(`[Orchestrator] Error in ${step.agentName}:`, error);
+      return null;
+    }
+  }
 
-      const cachedResponse = this.responseCache.get(cacheKey);
-      if (cachedResponse) {
-        console.log(`[Orchestrator] Using cached response for ${step.agentName}`);
-        return cachedResponse;
-      }
+  /**
+   * Run a step's agent action, using the response cache when possible
+   */
+  private async runStep(
+    step: WorkflowStep,
+    userMessage: string,
+    projectState: any,
+    conversationHistory: any[],
+    projectReferences: any[],
+    sources: RetrievedSource[],
+    results: AgentResponse[],
+    workflow: Workflow,
+    reviewData: any
+  ): Promise<AgentResponse | null> {
+    const agent = this.agents.get(step.agentName);
+    if (!agent) {
+      throw new Error(`Agent not found: ${step.agentName}`);
+    }
 
-      console.log(`[Orchestrator] Executing: ${step.agentName}.${step.action}`);
+    // Phase 2 Optimization: Smart Context Pruning
+    // Prune conversation history based on agent-specific needs
+    const { prunedHistory, stats } = this.contextPruner.pruneForAgent(
+      step.agentName,
+      conversationHistory,
+      projectState
+    );
+
+    // Log pruning statistics
+    this.contextPruner.logStats(stats);
+
+    // Phase 2 Optimization: Response Caching
+    // Check cache before executing agent
+    const cacheKey = this.responseCache.generateKey(
+      step.agentName,
+      userMessage,
+      projectState,
+      prunedHistory
+    );
+
+    const cachedResponse = await this.responseCache.get(cacheKey);
+    if (cachedResponse) {
+      console.log(`[Orchestrator] Using cached response for ${step.agentName}`);
+      this.tokenMetrics.recordCacheHit(step.agentName, { ...getUsageContext(), operation: step.action });
+      getUsageContext().traceStep?.markCacheHit();
+      return cachedResponse;
+    }
 
-      const result = await this.executeAgentAction(
+    // Semantic tier: the same request reworded, against the same project state and recent history
+    const projectId = getUsageContext().projectId;
+    const semantic = await this.responseCache.findSimilar(
+      step.agentName,
+      userMessage,
+      projectState,
+      projectId,
+      prunedHistory
+    );
+    if (semantic.match) {
+      console.log(`[Orchestrator] Using semantically cached response for ${step.agentName} (similarity ${semantic.match.similarity.toFixed(3)})`);
+      this.tokenMetrics.recordCacheHit(step.agentName, { ...getUsageContext(), operation: step.action });
+      getUsageContext().traceStep?.markCacheHit();
+      return semantic.match.response;
+    }
+
+    console.log(`[Orchestrator] Executing: ${step.agentName}.${step.action}`);
+
+    // Attribute token usage of this step to its workflow action
+    const result = await runWithUsageContext({ operation: step.action }, () =>
+      this.executeAgentAction(
         agent,
         step.action,
         userMessage,
         projectState,
         prunedHistory, // Use pruned history instead of full history
         projectReferences,
+        sources,
         results,
         workflow,
         reviewData
-      );
-
-      // Cache the result if it was successful
-      if (result) {
-        this.responseCache.set(cacheKey, step.agentName, result, userMessage);
-        console.log(`[Orchestrator] Agent ${step.agentName} returned: showToUser=${result.showToUser}, agent=${result.agent}`);
-      } else {
-        console.log(`[Orchestrator] Agent ${step.agentName} returned null`);
+      )
+    );
+
+    // Cache the result if it was successful
+    if (result) {
+      await this.responseCache.set(cacheKey, step.agentName, result, userMessage, projectId);
+      if (semantic.candidate) {
+        await this.responseCache.setSimilar(semantic.candidate, result);
       }
-
-      return result;
-    } catch (error) {
-      console.error(`[Orchestrator] Error in ${step.agentName}:`, error);
-      return null;
+      console.log(`[Orchestrator] Agent ${step.agentName} returned: showToUser=${result.showToUser}, agent=${result.agent}`);
+    } else {
+      console.log(`[Orchestrator] Agent ${step.agentName} returned null`);
     }
+
+    return result;
   }
 
   private async executeAgentAction(
@@ -364,13 +460,15 @@ export class IntegrationOrchestrator {
     projectState: any,
     conversationHistory: any[],
     projectReferences: any[],
+    sources: RetrievedSource[],
     previousResults: AgentResponse[],
     workflow: Workflow,
     reviewData: any = null
   ): Promise<AgentResponse | null> {
     switch (action) {
       case 'reflect':
-        return await agent.reflect(userMessage, conversationHistory, projectReferences);
+        // The agent gets the passages retrieved for this message, not the whole library
+        return await agent.reflect(userMessage, conversationHistory, sources);
 
       case 'analyze':
         return await agent.analyze(userMessage, projectState);
@@ -610,8 +708,8 @@ export class IntegrationOrchestrator {
     return null;
   }
 
-  getStats() {
-    const cacheStats = this.responseCache.getStats();
+  async getStats() {
+    const cacheStats = await this.responseCache.getStats();
 
     return {
       totalWorkflows: this.workflowHistory.length,
@@ -625,15 +723,17 @@ export class IntegrationOrchestrator {
         apiCallsSaved: cacheStats.estimatedSavings,
         currentSize: cacheStats.currentSize,
       },
+      // Actual token usage reported by the LLM provider
+      tokens: this.tokenMetrics.getTotalStats(),
     };
   }
 
   /**
    * Log Phase 2 optimization statistics
    */
-  logOptimizationStats() {
+  async logOptimizationStats() {
     console.log('\n=== Phase 2 Optimization Stats ===');
-    this.responseCache.logStats();
+    await this.responseCache.logStats();
     this.tokenMetrics.logMetrics();
     console.log('==================================\n');
   }
@@ -2,6 +2,24 @@ import { BaseAgent } from './base';
 import { AgentResponse, isQualityAuditorResponse } from '../types';
 import { AI_MODELS } from '../config/aiModels';
 
+export type ClaimStatus = 'supported' | 'unsupported' | 'contradicted';
+
+export interface ClaimToJudge {
+  index: number;
+  text: string;
+  evidence: Array<{ label: string; quote: string }>;
+}
+
+export interface ClaimJudgment {
+  index: number;
+  status: ClaimStatus;
+  /** 1-based positions in the claim's evidence list that support or contradict it */
+  evidence: number[];
+  explanation: string;
+}
+
+const CLAIM_STATUSES: ClaimStatus[] = ['supported', 'unsupported', 'contradicted'];
+
 /**
  * QualityAuditor Agent
  *
@@ -411,6 +429,59 @@ Return JSON:
     };
   }
 
+  /**
+   * Judge claims from a generated document against the evidence found for each
+   * A claim is supported only if its evidence states it; generated documents
+   * must not introduce requirements nobody decided on.
+   */
+  async judgeClaims(claims: ClaimToJudge[]): Promise<ClaimJudgment[]> {
+    this.log(`Judging ${claims.length} document claims`);
+
+    const listing = claims.map(claim => {
+      const evidence = claim.evidence.length > 0
+        ? claim.evidence.map((e, i) => `  ${i + 1}. ${e.label}: "${e.quote}"`).join('\n')
+        : '  none';
+      return `Claim ${claim.index}: "${claim.text}"\nEvidence:\n${evidence}`;
+    }).join('\n\n');
+
+    const messages = [
+      {
+        role: 'user',
+        content: `Check each claim from a generated project document against its evidence (decided project items, conversation messages, reference passages).
+
+${listing}
+
+LABELS:
+- supported: the evidence states the claim (or something that directly implies it)
+- contradicted: the evidence states something incompatible with the claim
+- unsupported: the evidence does not establish the claim, even if it is plausible
+
+Judge only from the evidence listed for each claim. Topic overlap is not support.
+
+Return ONLY valid JSON:
+{
+  "claims": [
+    { "index": 0, "status": "supported|unsupported|contradicted", "evidence": [1], "explanation": "one short sentence" }
+  ]
+}
+"evidence" lists the numbers of the evidence entries that support or contradict the claim (empty when unsupported).`,
+      },
+    ];
+
+    const response = await this.callClaude(messages, 300 + claims.length * 80, AI_MODELS.HAIKU);
+    let cleanResponse = response.replace(/```json\n?/g, '').replace(/```\n?/g, '').trim();
+    const result = JSON.parse(cleanResponse);
+
+    return (result.claims || [])
+      .filter((judgment: any) => CLAIM_STATUSES.includes(judgment.status))
+      .map((judgment: any) => ({
+        index: Number(judgment.index),
+        status: judgment.status,
+        evidence: Array.isArray(judgment.evidence) ? judgment.evidence.map(Number) : [],
+        explanation: judgment.explanation || '',
+      }));
+  }
+
   /**
    * Comprehensive quality check - run all checks in sequence
    * Used for critical workflows where maximum quality assurance is needed
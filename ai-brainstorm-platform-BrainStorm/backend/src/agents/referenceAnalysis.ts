@@ -5,6 +5,7 @@ import {
   getTemplateById,
   getAllTemplates,
 } from '../config/analysis-templates';
+import { MediaExtraction, formatTimestamp, formatTranscript } from '../services/mediaAnalysis';
 
 export class ReferenceAnalysisAgent extends BaseAgent {
   constructor() {
@@ -229,6 +230,64 @@ Return a professional markdown analysis following the ANALYSIS OUTPUT FORMAT in
     };
   }
 
+  /**
+   * Analyze a video or audio recording from its transcript and sampled keyframes
+   * Produces a timestamped summary so readers can jump to the moments that matter.
+   */
+  async analyzeMedia(referenceType: string, media: MediaExtraction): Promise<AgentResponse> {
+    this.log(`Analyzing ${media.kind}: ${formatTimestamp(media.durationSeconds)}, ${media.transcript?.segments.length || 0} transcript segments, ${media.keyframes.length} keyframes`);
+
+    const transcriptText = media.transcript ? formatTranscript(media.transcript.segments) : '';
+    const transcriptPreview = transcriptText.length > 12000
+      ? transcriptText.substring(0, 12000) + '\n\n[Transcript truncated...]'
+      : transcriptText;
+
+    const frameList = media.keyframes
+      .map((frame, i) => `- Image ${i + 1}: frame at ${formatTimestamp(frame.timestamp)}`)
+      .join('\n');
+
+    const prompt = `Analyze this ${media.kind} ${referenceType} reference (length ${formatTimestamp(media.durationSeconds)}) and extract relevant information for project planning.
+
+${transcriptPreview
+  ? `TRANSCRIPT (timestamps are [m:ss] from the start):\n${transcriptPreview}`
+  : `No transcript is available (${media.transcriptionError || 'no speech detected'}). Work from the frames.`}
+${frameList ? `\nThe attached images are keyframes sampled from the video:\n${frameList}\n` : ''}
+Return a professional markdown analysis following the ANALYSIS OUTPUT FORMAT in your system prompt, and include a "## Timeline" section: a bulleted list of the key moments, each starting with its timestamp in bold (e.g. **[3:42]**), covering decisions, requirements, pain points, quotes worth keeping and notable visuals.
+
+Extract specific, actionable information including:
+- Requirements, constraints, and preferences with confidence scores
+- Direct quotes that capture user needs or objections (with timestamps)
+- What is shown on screen when it matters (demos, designs, data)
+- Strategic insights and recommendations
+
+Ground every claim in the transcript or frames; do not invent moments.`;
+
+    let response: string;
+    if (media.keyframes.length > 0) {
+      response = await this.callClaudeVision(
+        prompt,
+        media.keyframes.map(frame => frame.data),
+        'image/jpeg',
+        3000
+      );
+    } else {
+      response = await this.callClaude([{ role: 'user', content: prompt }], 3000);
+    }
+
+    return {
+      agent: 'ReferenceAnalysis',
+      message: response,
+      showToUser: true,
+      metadata: {
+        analysisCompleted: true,
+        referenceType,
+        hadExtractedContent: Boolean(transcriptText) || media.keyframes.length > 0,
+        contentType: media.kind,
+        usedVision: media.keyframes.length > 0,
+      },
+    };
+  }
+
   async analyzeWithContext(
     referenceType: string,
     referenceData: any,
@@ -295,17 +354,20 @@ Return JSON:
 
   /**
    * Phase 4.2: Analyze with specialized template
-   * Uses template-specific fields and extraction hints for structured output
+   * Uses template-specific fields and extraction hints for structured output.
+   * Takes a built-in template id, or a template already resolved by the caller
+   * (custom templates are loaded through AnalysisTemplateService).
    */
   async analyzeWithTemplate(
     referenceType: string,
     referenceData: any,
-    templateId: string
+    templateOrId: string | AnalysisTemplate
   ): Promise<AgentResponse> {
+    const templateId = typeof templateOrId === 'string' ? templateOrId : templateOrId.id;
     this.log(`Analyzing ${referenceType} reference with template: ${templateId}`);
 
     // Get the template
-    const template = getTemplateById(templateId);
+    const template = typeof templateOrId === 'string' ? getTemplateById(templateOrId) : templateOrId;
     if (!template) {
       throw new Error(`Template not found: ${templateId}`);
     }
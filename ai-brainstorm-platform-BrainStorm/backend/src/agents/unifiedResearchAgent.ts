@@ -3,6 +3,10 @@ import { ReferenceAnalysisAgent } from './referenceAnalysis';
 import { AdvancedSynthesisAgent } from './advancedSynthesisAgent';
 import { supabase } from '../services/supabase';
 import { EmbeddingService } from '../services/embeddingService';
+import { getSearchProvider } from '../services/searchProvider';
+import { sourceQualityService, SourceTrust, ExcludedSource } from '../services/sourceQualityService';
+import { sourceTrustPolicyService, isBlockedUrl } from '../services/sourceTrustPolicy';
+import { pageArchiveService, ArchivablePage, ArchivedSourceLink } from '../services/pageArchive';
 
 /**
  * Unified Research Agent
@@ -32,8 +36,15 @@ export interface UnifiedResearchResult {
     content?: string;
     analysis?: string;
     source: 'web';
+    /** Quality score and why the source was ranked down, under the project's trust policy */
+    trust?: SourceTrust;
+    /** Copy of the page as fetched during this research */
+    archive?: ArchivedSourceLink;
   }>;
 
+  // Web results dropped by the trust policy
+  excludedSources: ExcludedSource[];
+
   // Document sources (from project)
   documentSources: Array<{
     id: string;
@@ -83,6 +94,8 @@ export interface ResearchOptions {
   maxDocumentSources?: number;
   includeAnalysis?: boolean;
   saveToDB?: boolean;
+  /** Research query the results belong to; cited pages are archived under it */
+  researchQueryId?: string;
 }
 
 export class UnifiedResearchAgent extends BaseAgent {
@@ -148,6 +161,7 @@ SYNTHESIS QUALITY:
       maxDocumentSources = 10,
       includeAnalysis = true,
       saveToDB = true,
+      researchQueryId,
     } = options;
 
     this.log(`Starting unified research for query: "${query}"`);
@@ -165,20 +179,42 @@ SYNTHESIS QUALITY:
       // Step 2: Execute multi-source search
       const webSources: UnifiedResearchResult['webSources'] = [];
       const documentSources: UnifiedResearchResult['documentSources'] = [];
+      const excludedSources: ExcludedSource[] = [];
 
       // Search web if strategy includes it
       if (searchStrategy.searchWeb) {
         this.log('Searching web sources...');
-        const webResults = await this.searchWeb(query, maxWebSources);
-        const crawledWeb = await this.crawlUrls(webResults);
-
-        for (const source of crawledWeb) {
+        const policy = await sourceTrustPolicyService.getEffectivePolicy(projectId);
+
+        // Ask for extra results so blocked domains don't leave the research short
+        const candidates = await this.searchWeb(query, policy.blockDomains.length > 0 ? maxWebSources * 2 : maxWebSources);
+        const webResults = candidates.filter(result => {
+          if (!isBlockedUrl(result.url, policy)) return true;
+          excludedSources.push({ url: result.url, title: result.title, reason: 'Blocked by trust policy' });
+          return false;
+        });
+
+        const crawledWeb = await this.crawlUrls(webResults.slice(0, maxWebSources));
+        const { ranked, excluded } = await sourceQualityService.rankSources(crawledWeb, policy);
+        excludedSources.push(...excluded);
+
+        // Keep a copy of each cited page as it was fetched
+        const archives = researchQueryId
+          ? await pageArchiveService.archivePages(projectId, researchQueryId, ranked.flatMap(source => source.page ? [source.page] : []))
+          : new Map<string, ArchivedSourceLink>();
+
+        for (const { page: _page, ...source } of ranked) {
           webSources.push({
             ...source,
+            archive: archives.get(source.url),
             source: 'web' as const,
           });
         }
 
+        if (excludedSources.length > 0) {
+          this.log(`Trust policy excluded ${excludedSources.length} web sources`);
+        }
+
         this.log(`Found ${webSources.length} web sources`);
         if (callbacks?.onWebSearchComplete) {
           await callbacks.onWebSearchComplete(webSources.length);
@@ -300,6 +336,7 @@ SYNTHESIS QUALITY:
         suggestedDocuments,
         identifiedGaps,
         savedReferences,
+        excludedSources,
         metadata: {
           totalSources: webSources.length + documentSources.length,
           webSourcesCount: webSources.length,
@@ -417,7 +454,8 @@ Respond with ONLY one word: "web", "documents", or "both"`;
   }
 
   /**
-   * Search web sources (from LiveResearchAgent)
+   * Search web sources through the configured SearchProvider
+   * Without one, the model suggests likely sources instead.
    */
   private async searchWeb(
     query: string,
@@ -425,6 +463,16 @@ Respond with ONLY one word: "web", "documents", or "both"`;
   ): Promise<Array<{ url: string; title: string; snippet: string }>> {
     this.log(`Searching web for: "${query}"`);
 
+    const searchProvider = getSearchProvider();
+    if (searchProvider) {
+      try {
+        return await searchProvider.search(query, maxResults);
+      } catch (error: any) {
+        this.log(`Web search error (${searchProvider.name}): ${error.message || error}`);
+        return [];
+      }
+    }
+
     const searchPrompt = `Given this research query: "${query}"
 
 Generate ${maxResults} highly relevant, real URLs that would contain valuable information about this topic.
@@ -466,16 +514,17 @@ Return ONLY a JSON array in this exact format:
    */
   private async crawlUrls(
     urls: Array<{ url: string; title: string; snippet: string }>
-  ): Promise<Array<{ url: string; title: string; snippet: string; content?: string }>> {
+  ): Promise<Array<{ url: string; title: string; snippet: string; content?: string; page?: ArchivablePage }>> {
     this.log(`Crawling ${urls.length} URLs...`);
 
     const results = await Promise.allSettled(
       urls.map(async (urlInfo) => {
         try {
-          const content = await this.extractUrlContent(urlInfo.url);
+          const page = await this.extractUrlContent(urlInfo.url);
           return {
             ...urlInfo,
-            content,
+            content: page.textContent.substring(0, 5000),
+            page: { ...page, title: page.title || urlInfo.title },
           };
         } catch (error) {
           this.log(`Failed to crawl ${urlInfo.url}: ${error}`);
@@ -493,9 +542,17 @@ Return ONLY a JSON array in this exact format:
   }
 
   /**
-   * Extract content from URL
+   * Fetch a page's text (and markup, for archiving)
    */
-  private async extractUrlContent(url: string): Promise<string> {
+  private async extractUrlContent(url: string): Promise<ArchivablePage> {
+    const fetchedAt = new Date().toISOString();
+    const searchProvider = getSearchProvider();
+    if (searchProvider) {
+      const page = await searchProvider.fetchPage(url);
+      this.log(`Extracted ${page.textContent.length} characters from ${url}`);
+      return { url, title: page.title, textContent: page.textContent, html: page.html, fetchedAt };
+    }
+
     try {
       this.log(`Fetching content from: ${url}`);
 
@@ -517,17 +574,16 @@ Return ONLY a JSON array in this exact format:
 
       const html = await response.text();
 
-      let text = html
+      const text = html
         .replace(/<script[^>]*>[\s\S]*?<\/script>/gi, '')
         .replace(/<style[^>]*>[\s\S]*?<\/style>/gi, '')
         .replace(/<[^>]+>/g, ' ')
         .replace(/\s+/g, ' ')
         .trim();
-
-      text = text.substring(0, 5000);
+      const title = html.match(/<title[^>]*>([^<]*)<\/title>/i)?.[1]?.trim() || '';
 
       this.log(`Extracted ${text.length} characters from ${url}`);
-      return text;
+      return { url, title, textContent: text, html, fetchedAt };
     } catch (error: any) {
       this.log(`Error extracting content from ${url}: ${error.message || error}`);
       throw error;
@@ -769,6 +825,8 @@ Return ONLY valid JSON array:
                 sourceQuery: query,
                 researchedAt: new Date().toISOString(),
                 researchType: 'unified',
+                trust: source.trust,
+                archive: source.archive,
               },
               tags: ['researched', 'unified-research', 'web-source'],
             },
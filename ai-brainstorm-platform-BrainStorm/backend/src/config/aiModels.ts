@@ -90,6 +90,7 @@ export const AGENT_MODEL_CONFIG = {
   'ideaGenerator': AI_MODELS.SONNET,           // Idea generation
   'conversationalIdea': AI_MODELS.SONNET,      // Conversational idea refinement
   'synthesis': AI_MODELS.SONNET,               // Cross-source synthesis
+  'projectMemory': AI_MODELS.HAIKU,            // Rolling conversation summary and fact extraction
 
   // Default for any unlisted agent
   'default': AI_MODELS.SONNET
@@ -174,21 +175,505 @@ export const MODEL_CHARACTERISTICS = {
   }
 } as const;
 
+/**
+ * Prompt caching price multipliers (relative to the model's input price)
+ */
+export const PROMPT_CACHE_PRICING = {
+  cacheWriteMultiplier: 1.25,
+  cacheReadMultiplier: 0.1
+} as const;
+
 /**
  * Get estimated cost for a model call
+ * Cache token counts are optional and priced relative to the input rate.
  */
 export function estimateCost(
   model: string,
   inputTokens: number,
-  outputTokens: number
+  outputTokens: number,
+  cacheCreationInputTokens: number = 0,
+  cacheReadInputTokens: number = 0
 ): number {
   const characteristics = MODEL_CHARACTERISTICS[model as keyof typeof MODEL_CHARACTERISTICS];
   if (!characteristics) {
     return 0;
   }
 
-  const inputCost = (inputTokens / 1_000_000) * characteristics.inputCostPer1M;
+  const inputRate = characteristics.inputCostPer1M / 1_000_000;
+  const inputCost = inputTokens * inputRate;
   const outputCost = (outputTokens / 1_000_000) * characteristics.outputCostPer1M;
+  const cacheWriteCost = cacheCreationInputTokens * inputRate * PROMPT_CACHE_PRICING.cacheWriteMultiplier;
+  const cacheReadCost = cacheReadInputTokens * inputRate * PROMPT_CACHE_PRICING.cacheReadMultiplier;
+
+  return inputCost + outputCost + cacheWriteCost + cacheReadCost;
+}
+
+/**
+ * LLM provider backends
+ * Agents call the configured provider through BaseAgent.callClaude/callClaudeVision,
+ * so switching backends does not require touching individual agents.
+ */
+export const LLM_PROVIDERS = {
+  /** Anthropic Messages API (default) */
+  ANTHROPIC: 'anthropic',
+  /** Any OpenAI-compatible chat completions endpoint (OpenAI, vLLM, Ollama, LM Studio, ...) */
+  OPENAI_COMPATIBLE: 'openai-compatible',
+  /** Deterministic local stand-in that replays scripted fixtures - no network, no API key */
+  SCRIPTED: 'scripted'
+} as const;
+
+export type LLMProviderType = typeof LLM_PROVIDERS[keyof typeof LLM_PROVIDERS];
+
+/**
+ * Model mapping for OpenAI-compatible endpoints
+ * Agents keep requesting Claude model ids; the provider translates them here.
+ */
+export const OPENAI_COMPATIBLE_MODEL_CONFIG: Record<string, string> = {
+  [AI_MODELS.HAIKU]: process.env.OPENAI_COMPATIBLE_FAST_MODEL || 'gpt-4o-mini',
+  [AI_MODELS.SONNET]: process.env.OPENAI_COMPATIBLE_MODEL || 'gpt-4o',
+  [AI_MODELS.OPUS]: process.env.OPENAI_COMPATIBLE_MODEL || 'gpt-4o',
+  'default': process.env.OPENAI_COMPATIBLE_MODEL || 'gpt-4o'
+};
+
+export interface LLMProviderConfig {
+  type: LLMProviderType;
+  /** Base URL for OpenAI-compatible endpoints */
+  baseUrl?: string;
+  /** API key for the selected provider */
+  apiKey?: string;
+  /** JSON fixture file replayed by the scripted provider */
+  fixturesPath?: string;
+  /** When set, every live response is appended to this fixture file */
+  recordFixturesPath?: string;
+}
+
+/**
+ * Resolve the LLM provider configuration from the environment
+ *
+ * LLM_PROVIDER=anthropic | openai-compatible | scripted (default: anthropic)
+ */
+export function getLLMProviderConfig(): LLMProviderConfig {
+  const requested = (process.env.LLM_PROVIDER || '').toLowerCase();
+  const known = Object.values(LLM_PROVIDERS) as string[];
+
+  let type: LLMProviderType;
+  if (known.includes(requested)) {
+    type = requested as LLMProviderType;
+  } else {
+    if (requested) {
+      console.warn(`[aiModels] Unknown LLM_PROVIDER "${requested}", falling back to anthropic`);
+    }
+    type = LLM_PROVIDERS.ANTHROPIC;
+  }
+
+  switch (type) {
+    case LLM_PROVIDERS.OPENAI_COMPATIBLE:
+      return {
+        type,
+        baseUrl: process.env.OPENAI_COMPATIBLE_BASE_URL,
+        apiKey: process.env.OPENAI_COMPATIBLE_API_KEY || process.env.OPENAI_API_KEY,
+        recordFixturesPath: process.env.LLM_RECORD_FIXTURES_PATH,
+      };
+    case LLM_PROVIDERS.SCRIPTED:
+      return {
+        type,
+        fixturesPath: process.env.LLM_FIXTURES_PATH,
+      };
+    default:
+      return {
+        type,
+        apiKey: process.env.ANTHROPIC_API_KEY,
+        recordFixturesPath: process.env.LLM_RECORD_FIXTURES_PATH,
+      };
+  }
+}
+
+/**
+ * Speech-to-text backends for audio and video references
+ */
+export const STT_PROVIDERS = {
+  /** OpenAI transcription API, or any server exposing the same endpoint (e.g. a self-hosted Whisper server) */
+  OPENAI: 'openai',
+  /** whisper.cpp run locally - offline, no audio leaves the machine */
+  WHISPER_CPP: 'whisper-cpp',
+  /** No transcription; media is analyzed from keyframes only */
+  NONE: 'none'
+} as const;
+
+export type SpeechToTextProviderType = typeof STT_PROVIDERS[keyof typeof STT_PROVIDERS];
+
+export interface SpeechToTextConfig {
+  type: SpeechToTextProviderType;
+  /** Model name for API providers (default whisper-1) */
+  model?: string;
+  baseUrl?: string;
+  apiKey?: string;
+  /** whisper.cpp CLI binary and ggml model file */
+  binaryPath?: string;
+  modelPath?: string;
+  /** Spoken language hint (ISO 639-1); detected when unset */
+  language?: string;
+}
+
+/**
+ * Resolve the speech-to-text configuration from the environment
+ *
+ * STT_PROVIDER=openai | whisper-cpp | none
+ * (default: openai when OPENAI_API_KEY is set, otherwise none)
+ */
+export function getSpeechToTextConfig(): SpeechToTextConfig {
+  const requested = (process.env.STT_PROVIDER || '').toLowerCase();
+  const known = Object.values(STT_PROVIDERS) as string[];
+
+  let type: SpeechToTextProviderType;
+  if (known.includes(requested)) {
+    type = requested as SpeechToTextProviderType;
+  } else {
+    if (requested) {
+      console.warn(`[aiModels] Unknown STT_PROVIDER "${requested}", falling back to the default`);
+    }
+    type = process.env.OPENAI_API_KEY ? STT_PROVIDERS.OPENAI : STT_PROVIDERS.NONE;
+  }
+
+  const language = process.env.STT_LANGUAGE || undefined;
+
+  switch (type) {
+    case STT_PROVIDERS.OPENAI:
+      return {
+        type,
+        model: process.env.STT_MODEL || 'whisper-1',
+        baseUrl: process.env.STT_BASE_URL,
+        apiKey: process.env.STT_API_KEY || process.env.OPENAI_API_KEY,
+        language,
+      };
+    case STT_PROVIDERS.WHISPER_CPP:
+      return {
+        type,
+        binaryPath: process.env.WHISPER_CPP_PATH || 'whisper-cli',
+        modelPath: process.env.WHISPER_MODEL_PATH,
+        language,
+      };
+    default:
+      return { type };
+  }
+}
+
+/**
+ * Embedding backends for semantic search
+ */
+export const EMBEDDING_PROVIDERS = {
+  /** OpenAI embeddings API (default when OPENAI_API_KEY is set) */
+  OPENAI: 'openai',
+  /** Any OpenAI-compatible /embeddings endpoint (Ollama, vLLM, text-embeddings-inference, ...) */
+  OPENAI_COMPATIBLE: 'openai-compatible',
+  /** In-process ONNX model on the CPU - no project data leaves the server */
+  LOCAL: 'local',
+  /** No embeddings; search falls back to keyword ranking only */
+  NONE: 'none'
+} as const;
 
-  return inputCost + outputCost;
+export type EmbeddingProviderType = typeof EMBEDDING_PROVIDERS[keyof typeof EMBEDDING_PROVIDERS];
+
+/**
+ * Output dimensions of known embedding models
+ * Vectors from different models can't be compared, so each stored vector
+ * records its model and dimensions. Set EMBEDDING_DIMENSIONS for models not listed.
+ */
+export const EMBEDDING_MODEL_DIMENSIONS: Record<string, number> = {
+  'text-embedding-3-small': 1536,
+  'text-embedding-3-large': 3072,
+  'text-embedding-ada-002': 1536,
+  'Xenova/all-MiniLM-L6-v2': 384,
+  'Xenova/bge-small-en-v1.5': 384,
+  'Xenova/bge-base-en-v1.5': 768,
+  'nomic-embed-text': 768,
+};
+
+export interface EmbeddingProviderConfig {
+  type: EmbeddingProviderType;
+  model: string;
+  dimensions?: number;
+  baseUrl?: string;
+  apiKey?: string;
+  /** Where the local provider keeps downloaded model files */
+  cacheDir?: string;
+}
+
+/**
+ * Resolve the embedding provider configuration from the environment
+ *
+ * EMBEDDING_PROVIDER=openai | openai-compatible | local | none
+ * (default: openai when OPENAI_API_KEY is set, otherwise local)
+ */
+export function getEmbeddingConfig(): EmbeddingProviderConfig {
+  const requested = (process.env.EMBEDDING_PROVIDER || '').toLowerCase();
+  const known = Object.values(EMBEDDING_PROVIDERS) as string[];
+
+  let type: EmbeddingProviderType;
+  if (known.includes(requested)) {
+    type = requested as EmbeddingProviderType;
+  } else {
+    if (requested) {
+      console.warn(`[aiModels] Unknown EMBEDDING_PROVIDER "${requested}", falling back to the default`);
+    }
+    type = process.env.OPENAI_API_KEY ? EMBEDDING_PROVIDERS.OPENAI : EMBEDDING_PROVIDERS.LOCAL;
+  }
+
+  const dimensionsFor = (model: string) => {
+    const configured = parseInt(process.env.EMBEDDING_DIMENSIONS || '', 10);
+    return configured > 0 ? configured : EMBEDDING_MODEL_DIMENSIONS[model];
+  };
+
+  switch (type) {
+    case EMBEDDING_PROVIDERS.OPENAI: {
+      const model = process.env.EMBEDDING_MODEL || 'text-embedding-3-small';
+      return {
+        type,
+        model,
+        dimensions: dimensionsFor(model),
+        apiKey: process.env.EMBEDDING_API_KEY || process.env.OPENAI_API_KEY,
+      };
+    }
+    case EMBEDDING_PROVIDERS.OPENAI_COMPATIBLE: {
+      const model = process.env.EMBEDDING_MODEL || 'nomic-embed-text';
+      return {
+        type,
+        model,
+        dimensions: dimensionsFor(model),
+        baseUrl: process.env.EMBEDDING_BASE_URL,
+        apiKey: process.env.EMBEDDING_API_KEY,
+      };
+    }
+    case EMBEDDING_PROVIDERS.LOCAL: {
+      const model = process.env.EMBEDDING_MODEL || 'Xenova/all-MiniLM-L6-v2';
+      return {
+        type,
+        model,
+        dimensions: dimensionsFor(model),
+        cacheDir: process.env.EMBEDDING_CACHE_DIR,
+      };
+    }
+    default:
+      return { type, model: '' };
+  }
+}
+
+/**
+ * Web search backends for research
+ */
+export const SEARCH_PROVIDERS = {
+  /** Google Custom Search JSON API (default when GOOGLE_SEARCH_API_KEY and GOOGLE_SEARCH_ENGINE_ID are set) */
+  GOOGLE: 'google',
+  /** Brave Search API */
+  BRAVE: 'brave',
+  /** Bing Web Search API, or any endpoint with the same response shape */
+  BING: 'bing',
+  /** Self-hosted SearXNG instance (JSON output must be enabled in its settings) */
+  SEARXNG: 'searxng',
+  /** Replays recorded results and page snapshots from a fixture file - no network */
+  FIXTURE: 'fixture',
+  /** No search API; research asks the model for likely sources instead */
+  NONE: 'none'
+} as const;
+
+export type SearchProviderType = typeof SEARCH_PROVIDERS[keyof typeof SEARCH_PROVIDERS];
+
+export interface SearchProviderConfig {
+  type: SearchProviderType;
+  apiKey?: string;
+  /** Google programmable search engine id */
+  searchEngineId?: string;
+  /** SearXNG instance, or a Bing-compatible endpoint */
+  baseUrl?: string;
+  /** JSON fixture file replayed by the fixture provider */
+  fixturesPath?: string;
+  /** When set, every live result and fetched page is appended to this fixture file */
+  recordFixturesPath?: string;
+}
+
+/**
+ * Resolve the web search provider configuration from the environment
+ *
+ * SEARCH_PROVIDER=google | brave | bing | searxng | fixture | none
+ * (default: google when its keys are set, otherwise none)
+ */
+export function getSearchProviderConfig(): SearchProviderConfig {
+  const requested = (process.env.SEARCH_PROVIDER || '').toLowerCase();
+  const known = Object.values(SEARCH_PROVIDERS) as string[];
+
+  let type: SearchProviderType;
+  if (known.includes(requested)) {
+    type = requested as SearchProviderType;
+  } else {
+    if (requested) {
+      console.warn(`[aiModels] Unknown SEARCH_PROVIDER "${requested}", falling back to the default`);
+    }
+    type = process.env.GOOGLE_SEARCH_API_KEY && process.env.GOOGLE_SEARCH_ENGINE_ID
+      ? SEARCH_PROVIDERS.GOOGLE
+      : SEARCH_PROVIDERS.NONE;
+  }
+
+  const recordFixturesPath = process.env.SEARCH_RECORD_FIXTURES_PATH;
+
+  switch (type) {
+    case SEARCH_PROVIDERS.GOOGLE:
+      return {
+        type,
+        apiKey: process.env.GOOGLE_SEARCH_API_KEY,
+        searchEngineId: process.env.GOOGLE_SEARCH_ENGINE_ID,
+        recordFixturesPath,
+      };
+    case SEARCH_PROVIDERS.BRAVE:
+      return { type, apiKey: process.env.BRAVE_SEARCH_API_KEY, recordFixturesPath };
+    case SEARCH_PROVIDERS.BING:
+      return {
+        type,
+        apiKey: process.env.BING_SEARCH_API_KEY,
+        baseUrl: process.env.BING_SEARCH_BASE_URL,
+        recordFixturesPath,
+      };
+    case SEARCH_PROVIDERS.SEARXNG:
+      return { type, baseUrl: process.env.SEARXNG_BASE_URL, recordFixturesPath };
+    case SEARCH_PROVIDERS.FIXTURE:
+      return { type, fixturesPath: process.env.SEARCH_FIXTURES_PATH };
+    default:
+      return { type };
+  }
+}
+
+/**
+ * Organization-wide source trust policy for research
+ *
+ * SOURCE_TRUST_POLICY_PATH points at a JSON file with the same shape as a
+ * project policy ({ allowDomains, blockDomains, domainWeights, requiredSourceTypes }).
+ */
+export function getSourceTrustPolicyPath(): string | undefined {
+  return process.env.SOURCE_TRUST_POLICY_PATH || undefined;
+}
+
+/**
+ * Archival of web pages cited by research
+ *
+ * Each source of a research query is stored as cleaned HTML and text with a
+ * content hash. Screenshots need the Playwright browser and are off unless
+ * PAGE_ARCHIVE_SCREENSHOTS=true.
+ */
+export const PAGE_ARCHIVE_CONFIG = {
+  enabled: process.env.PAGE_ARCHIVE_ENABLED !== 'false',
+  screenshots: process.env.PAGE_ARCHIVE_SCREENSHOTS === 'true',
+  /** Supabase storage bucket for screenshots */
+  bucket: process.env.PAGE_ARCHIVE_BUCKET || 'page-archives',
+};
+
+/**
+ * Project memory configuration
+ * New messages are folded into the rolling summary and fact list once
+ * `batchSize` of them have accumulated; agents see at most `maxFacts` facts.
+ */
+export const PROJECT_MEMORY_CONFIG = {
+  enabled: process.env.PROJECT_MEMORY_ENABLED !== 'false',
+  batchSize: parseInt(process.env.PROJECT_MEMORY_BATCH_SIZE || '6', 10),
+  maxFacts: parseInt(process.env.PROJECT_MEMORY_MAX_FACTS || '50', 10),
+};
+
+/**
+ * Cache store configuration
+ *
+ * Set CACHE_STORE_URL (or REDIS_URL) to a redis:// URL to share cached agent
+ * responses, research results and pending workflow updates between backend
+ * instances and keep them across restarts. Without it each process caches in
+ * memory. The namespace prefixes every key, so several deployments can share
+ * one server.
+ */
+export interface CacheStoreConfig {
+  url?: string;
+  namespace: string;
+  /** Milliseconds to wait for a reply before treating the server as down */
+  timeoutMs: number;
+}
+
+export const CACHE_STORE_CONFIG: CacheStoreConfig = {
+  url: process.env.CACHE_STORE_URL || process.env.REDIS_URL || undefined,
+  namespace: process.env.CACHE_STORE_NAMESPACE || 'brainstorm',
+  timeoutMs: parseInt(process.env.CACHE_STORE_TIMEOUT_MS || '2000', 10),
+};
+
+/**
+ * Semantic response cache configuration
+ *
+ * When an exact ResponseCache lookup misses, idempotent agents can reuse a
+ * response to a differently worded request ("let's use Postgres" / "we'll go
+ * with Postgres") if the request embeddings are at least `threshold` similar
+ * and the project state is unchanged. Needs an embedding provider; off unless
+ * SEMANTIC_CACHE_ENABLED=true.
+ */
+export interface SemanticCacheConfig {
+  enabled: boolean;
+  /** Minimum cosine similarity for a hit */
+  threshold: number;
+  /** Agents whose responses depend only on the request meaning and project state */
+  agents: string[];
+  /** Requests remembered per agent and project state */
+  maxEntries: number;
+}
+
+export const SEMANTIC_CACHE_CONFIG: SemanticCacheConfig = {
+  enabled: process.env.SEMANTIC_CACHE_ENABLED === 'true',
+  threshold: parseFloat(process.env.SEMANTIC_CACHE_THRESHOLD || '0.92'),
+  agents: (process.env.SEMANTIC_CACHE_AGENTS || 'gapDetection,questioner,assumptionBlocker')
+    .split(',')
+    .map(agent => agent.trim())
+    .filter(Boolean),
+  maxEntries: parseInt(process.env.SEMANTIC_CACHE_MAX_ENTRIES || '20', 10),
+};
+
+/**
+ * AI budget configuration
+ *
+ * Spend caps can be set per project and per user (stored in `ai_budgets`);
+ * these environment defaults apply when no explicit budget row exists.
+ * - Soft limit: calls are downgraded to cheaper models (BUDGET_DOWNGRADE_MODELS)
+ * - Hard limit: background agent workflows stop; only the conversation reply and recording run
+ */
+export type BudgetPeriod = 'daily' | 'monthly';
+
+function parseBudgetAmount(value: string | undefined): number | null {
+  if (!value) return null;
+  const amount = parseFloat(value);
+  return isNaN(amount) ? null : amount;
+}
+
+function parseBudgetPeriod(value: string | undefined): BudgetPeriod {
+  return value === 'daily' ? 'daily' : 'monthly';
+}
+
+export const BUDGET_DEFAULTS = {
+  project: {
+    period: parseBudgetPeriod(process.env.AI_BUDGET_PROJECT_PERIOD),
+    softLimitUSD: parseBudgetAmount(process.env.AI_BUDGET_PROJECT_SOFT_USD),
+    hardLimitUSD: parseBudgetAmount(process.env.AI_BUDGET_PROJECT_HARD_USD),
+  },
+  user: {
+    period: parseBudgetPeriod(process.env.AI_BUDGET_USER_PERIOD),
+    softLimitUSD: parseBudgetAmount(process.env.AI_BUDGET_USER_SOFT_USD),
+    hardLimitUSD: parseBudgetAmount(process.env.AI_BUDGET_USER_HARD_USD),
+  },
+};
+
+/**
+ * Cheaper replacement for each model once a soft limit is crossed
+ */
+export const BUDGET_DOWNGRADE_MODELS: Record<string, string> = {
+  [AI_MODELS.OPUS]: AI_MODELS.SONNET,
+  [AI_MODELS.SONNET]: AI_MODELS.HAIKU,
+};
+
+/**
+ * Get the model to use under the given budget level
+ */
+export function getModelForBudget(model: string, budgetLevel?: 'ok' | 'soft' | 'hard'): string {
+  if (!budgetLevel || budgetLevel === 'ok') {
+    return model;
+  }
+  return BUDGET_DOWNGRADE_MODELS[model] || model;
 }
@@ -7,11 +7,17 @@
 
 export type AnalysisTemplateType = 'competitor' | 'technical' | 'user_research' | 'market' | 'custom';
 
+export const TEMPLATE_FIELD_TYPES = ['text', 'list', 'table', 'comparison', 'rating', 'pros_cons'] as const;
+export type TemplateFieldType = typeof TEMPLATE_FIELD_TYPES[number];
+
+export const TEMPLATE_OUTPUT_FORMATS = ['markdown', 'structured_json', 'table'] as const;
+export type TemplateOutputFormat = typeof TEMPLATE_OUTPUT_FORMATS[number];
+
 export interface TemplateField {
   id: string;
   label: string;
   description: string;
-  type: 'text' | 'list' | 'table' | 'comparison' | 'rating' | 'pros_cons';
+  type: TemplateFieldType;
   required: boolean;
   extractionHint?: string; // Hint for AI on how to extract this field
 }
@@ -23,7 +29,7 @@ export interface AnalysisTemplate {
   type: AnalysisTemplateType;
   icon: string;
   fields: TemplateField[];
-  outputFormat: 'markdown' | 'structured_json' | 'table';
+  outputFormat: TemplateOutputFormat;
   systemPrompt: string;
 }
 
@@ -427,6 +433,71 @@ export const getTemplatesByType = (type: AnalysisTemplateType): AnalysisTemplate
   return getAllTemplates().filter(t => t.type === type);
 };
 
+const MAX_TEMPLATE_FIELDS = 30;
+const MAX_FIELD_LABEL_LENGTH = 100;
+// Field ids become keys of the JSON object the model is asked to return
+const FIELD_ID_PATTERN = /^[A-Za-z][A-Za-z0-9_]*$/;
+
+/**
+ * Check user-defined fields
+ * Returns one message per problem; an empty array means the fields are valid.
+ */
+export const validateTemplateFields = (fields: unknown): string[] => {
+  if (!Array.isArray(fields)) {
+    return ['fields must be an array'];
+  }
+  if (fields.length > MAX_TEMPLATE_FIELDS) {
+    return [`A template can have at most ${MAX_TEMPLATE_FIELDS} fields`];
+  }
+
+  const errors: string[] = [];
+  const seenIds = new Set<string>();
+
+  fields.forEach((field: any, index) => {
+    const at = `fields[${index}]`;
+    if (!field || typeof field !== 'object' || !field.id || !field.label || !field.type) {
+      errors.push(`${at}: each field must have id, label, and type`);
+      return;
+    }
+    if (typeof field.id !== 'string' || !FIELD_ID_PATTERN.test(field.id)) {
+      errors.push(`${at}: id must start with a letter and contain only letters, digits and underscores`);
+    } else if (seenIds.has(field.id)) {
+      errors.push(`${at}: duplicate field id "${field.id}"`);
+    } else {
+      seenIds.add(field.id);
+    }
+    if (typeof field.label !== 'string' || field.label.length > MAX_FIELD_LABEL_LENGTH) {
+      errors.push(`${at}: label must be a string of at most ${MAX_FIELD_LABEL_LENGTH} characters`);
+    }
+    if (!TEMPLATE_FIELD_TYPES.includes(field.type)) {
+      errors.push(`${at}: type must be one of: ${TEMPLATE_FIELD_TYPES.join(', ')}`);
+    }
+    if (field.description !== undefined && typeof field.description !== 'string') {
+      errors.push(`${at}: description must be a string`);
+    }
+    if (field.required !== undefined && typeof field.required !== 'boolean') {
+      errors.push(`${at}: required must be a boolean`);
+    }
+    if (field.extractionHint !== undefined && typeof field.extractionHint !== 'string') {
+      errors.push(`${at}: extractionHint must be a string`);
+    }
+  });
+
+  return errors;
+};
+
+/**
+ * Default system prompt for a template built from user-defined fields
+ */
+export const buildCustomSystemPrompt = (fields: TemplateField[]): string => {
+  return `You are analyzing content according to custom extraction criteria.
+
+Extract the following information:
+${fields.map(f => `- ${f.label}: ${f.description}`).join('\n')}
+
+Be thorough and accurate. Only extract information that is present in the source material.`;
+};
+
 /**
  * Create custom template from user-defined fields
  */
@@ -443,11 +514,6 @@ export const createCustomTemplate = (
     icon: 'edit',
     outputFormat: 'structured_json',
     fields,
-    systemPrompt: `You are analyzing content according to custom extraction criteria.
-
-Extract the following information:
-${fields.map(f => `- ${f.label}: ${f.description}`).join('\n')}
-
-Be thorough and accurate. Only extract information that is present in the source material.`,
+    systemPrompt: buildCustomSystemPrompt(fields),
   };
 };
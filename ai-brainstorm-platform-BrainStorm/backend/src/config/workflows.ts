@@ -0,0 +1,158 @@
+/**
+ * Agent Workflows
+ *
+ * Which agent steps run in the background for each classified intent.
+ * Workflows are plain JSON/YAML documents so they can be tuned without a
+ * deploy: WORKFLOWS_FILE replaces the built-in document below, and each
+ * project can override single intents (see services/workflowRegistry.ts).
+ */
+
+import { WorkflowStep } from '../types';
+
+export const WORKFLOW_DOCUMENT_VERSION = 1;
+
+// Intent used when a document has no workflow for the classified intent
+export const FALLBACK_INTENT = 'general';
+
+export interface WorkflowDefinition {
+  description?: string;
+  steps: WorkflowStep[];
+}
+
+export interface WorkflowDocument {
+  version: number;
+  workflows: Record<string, WorkflowDefinition>;
+}
+
+/**
+ * A project's override: replaces whole intents and/or drops agents everywhere
+ */
+export interface WorkflowOverrideDocument {
+  version: number;
+  workflows?: Record<string, WorkflowDefinition>;
+  skipAgents?: string[];
+}
+
+/**
+ * Actions the orchestrator knows how to execute, mapped to the agent method
+ * each one calls (null when the orchestrator handles it without the agent)
+ */
+export const WORKFLOW_ACTIONS: Record<string, string | null> = {
+  reflect: 'reflect',
+  analyze: 'analyze',
+  generateQuestion: 'generateQuestion',
+  verify: 'verify',
+  scan: 'scan',
+  checkConsistency: 'checkConsistency',
+  record: 'record',
+  trackChange: 'trackChange',
+  audit: 'audit',
+  prioritize: 'prioritize',
+  translate: 'translate',
+  research: 'research',
+  review: 'review',
+  analyzeWithContext: 'analyzeWithContext',
+  checkReferenceAgainstDecisions: 'checkReferenceAgainstDecisions',
+  updateConfidenceScores: null,
+  analyzeAndSuggest: 'analyzeProjectAndSuggest',
+  validateSuggestions: 'validateDocumentSuggestions',
+  recordDocumentIntent: 'recordDocumentResearchIntent',
+};
+
+/**
+ * Conditions a step can be gated on (evaluated against earlier step results)
+ */
+export const WORKFLOW_CONDITIONS = [
+  'if_gaps_found',
+  'if_verified',
+  'if_conflicts_found',
+  'if_confirmations_found',
+];
+
+/**
+ * Built-in workflows
+ * Consecutive steps marked parallel: true run together with the next
+ * non-parallel step, which ends the group.
+ */
+export const DEFAULT_WORKFLOW_DOCUMENT: WorkflowDocument = {
+  version: WORKFLOW_DOCUMENT_VERSION,
+  workflows: {
+    brainstorming: {
+      description: 'Reflect on new ideas and look for gaps',
+      steps: [
+        { agentName: 'brainstorming', action: 'reflect', parallel: true },
+        { agentName: 'gapDetection', action: 'analyze', parallel: false },
+      ],
+    },
+
+    deciding: {
+      description: 'Validate a decision before it is tracked',
+      steps: [
+        { agentName: 'brainstorming', action: 'reflect' },
+        // Independent validation checks
+        { agentName: 'verification', action: 'verify', parallel: true },
+        { agentName: 'assumptionBlocker', action: 'scan', parallel: true },
+        { agentName: 'consistencyGuardian', action: 'checkConsistency', parallel: false },
+        { agentName: 'versionControl', action: 'trackChange' },
+      ],
+    },
+
+    modifying: {
+      description: 'Check and track a change to an existing item',
+      steps: [
+        { agentName: 'brainstorming', action: 'reflect' },
+        { agentName: 'verification', action: 'verify', parallel: true },
+        { agentName: 'consistencyGuardian', action: 'checkConsistency', parallel: false },
+        { agentName: 'versionControl', action: 'trackChange', parallel: true },
+        { agentName: 'accuracyAuditor', action: 'audit', parallel: false },
+      ],
+    },
+
+    exploring: {
+      description: 'Reflect and ask an exploratory question',
+      steps: [
+        { agentName: 'brainstorming', action: 'reflect', parallel: true },
+        { agentName: 'questioner', action: 'generateQuestion', parallel: false },
+      ],
+    },
+
+    reviewing: {
+      description: 'Review the conversation for missing items',
+      steps: [
+        { agentName: 'reviewer', action: 'review' },
+        { agentName: 'accuracyAuditor', action: 'audit', parallel: true },
+        { agentName: 'prioritization', action: 'prioritize', parallel: false },
+      ],
+    },
+
+    development: {
+      description: 'Turn decisions into an implementation direction',
+      steps: [
+        { agentName: 'translation', action: 'translate' },
+        { agentName: 'development', action: 'research' },
+        { agentName: 'reviewer', action: 'review' },
+      ],
+    },
+
+    general: {
+      steps: [
+        { agentName: 'brainstorming', action: 'reflect' },
+      ],
+    },
+
+    parking: {
+      steps: [
+        { agentName: 'brainstorming', action: 'reflect' },
+      ],
+    },
+
+    reference_integration: {
+      description: 'Check an uploaded reference against decisions',
+      steps: [
+        { agentName: 'referenceAnalysis', action: 'analyzeWithContext' },
+        { agentName: 'consistencyGuardian', action: 'checkReferenceAgainstDecisions' },
+        { agentName: 'clarification', action: 'generateQuestion', condition: 'if_conflicts_found' },
+      ],
+    },
+  },
+};
@@ -21,7 +21,27 @@ import brainstormSessionsRoutes from './routes/brainstorm-sessions';
 import intelligenceHubRoutes from './routes/intelligenceHub';
 import cacheRoutes from './routes/cache';
 import researchStreamRoutes from './routes/research-stream';
-import { testConnection } from './services/supabase';
+import budgetRoutes from './routes/budgets';
+import projectMemberRoutes from './routes/project-members';
+import invitationRoutes from './routes/invitations';
+import realtimeRoutes from './routes/realtime';
+import workflowRoutes from './routes/workflows';
+import traceRoutes from './routes/traces';
+import itemHistoryRoutes from './routes/item-history';
+import approvalRoutes from './routes/approvals';
+import sourcePolicyRoutes from './routes/source-policy';
+import projectMemoryRoutes from './routes/project-memory';
+import searchRoutes from './routes/search';
+import researchWatchRoutes from './routes/research-watches';
+import pageArchiveRoutes from './routes/page-archives';
+import { supabase, testConnection } from './services/supabase';
+import { tokenMetrics } from './services/tokenMetrics';
+import { budgetService } from './services/budgetService';
+import { workflowRegistry } from './services/workflowRegistry';
+import { workflowTracer } from './services/workflowTracer';
+import { researchWatchService } from './services/researchWatches';
+import { requireAuth, enforceRequestScope } from './middleware/auth';
+import { usageOperation } from './middleware/usage';
 
 const app: Express = express();
 const PORT = process.env.PORT || 3001;
@@ -38,7 +58,7 @@ app.use(cors({
   ],
   credentials: true,
   methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization'],
+  allowedHeaders: ['Content-Type', 'Authorization', 'X-Realtime-Connection'],
   exposedHeaders: ['Content-Range', 'X-Content-Range'],
   maxAge: 600 // Cache preflight requests for 10 minutes
 }));
@@ -52,24 +72,40 @@ app.use((req: Request, res: Response, next: NextFunction) => {
   next();
 });
 
+// Every API route requires a signed-in user; ownership is checked per router
+app.use('/api', requireAuth, enforceRequestScope);
+
 // Routes
 app.use('/api/projects', projectRoutes);
+app.use('/api/projects', projectMemberRoutes); // Members & invitations
+app.use('/api/projects', itemHistoryRoutes); // Item event log, undo and board timeline
+app.use('/api/projects', approvalRoutes); // Approval queue for agent-proposed changes
+app.use('/api/projects', sourcePolicyRoutes); // Trust policies for research sources
+app.use('/api/projects', projectMemoryRoutes); // Rolling conversation summary and remembered facts
+app.use('/api/invitations', invitationRoutes);
 app.use('/api/conversations', conversationRoutes);
-app.use('/api/references', referenceRoutes);
+app.use('/api/references', usageOperation('reference-analysis'), referenceRoutes);
 app.use('/api/agents', agentRoutes);
-app.use('/api/documents', documentRoutes);
-app.use('/api/generated-documents', generatedDocumentsRoutes);
+app.use('/api/documents', usageOperation('documents'), documentRoutes);
+app.use('/api/generated-documents', usageOperation('document-generation'), generatedDocumentsRoutes);
 app.use('/api/sessions', sessionRoutes);
-app.use('/api/sandbox', sandboxRoutes);
+app.use('/api/sandbox', usageOperation('sandbox'), sandboxRoutes);
 app.use('/api/canvas', canvasRoutes);
-app.use('/api/research', researchRoutes);
+app.use('/api/research', usageOperation('research'), researchRoutes);
 app.use('/api/analysis', analysisChatRoutes); // Phase 4.1
 app.use('/api/analysis-templates', analysisTemplatesRoutes); // Phase 4.2
 app.use('/api/session-review', sessionReviewRoutes); // Sandbox session review
 app.use('/api/brainstorm-sessions', brainstormSessionsRoutes); // Brainstorm sessions
 app.use('/api/intelligence-hub', intelligenceHubRoutes); // Intelligence Hub conversational search
 app.use('/api/cache', cacheRoutes); // Cache management endpoints
-app.use('/api/research-stream', researchStreamRoutes); // Streaming research endpoints (SSE)
+app.use('/api/research-stream', usageOperation('research'), researchStreamRoutes); // Streaming research endpoints (SSE)
+app.use('/api/budgets', budgetRoutes); // AI spend caps per project/user
+app.use('/api/realtime', realtimeRoutes); // Live project events and presence (SSE)
+app.use('/api/workflows', workflowRoutes); // Agent workflow definitions and per-project overrides
+app.use('/api/traces', traceRoutes); // Per-message workflow execution traces
+app.use('/api/search', searchRoutes); // Hybrid keyword + vector search across projects
+app.use('/api/research-watches', researchWatchRoutes); // Scheduled research with change alerts
+app.use('/api/page-archives', pageArchiveRoutes); // Archived copies of pages cited by research
 
 // Health check
 app.get('/health', (req: Request, res: Response) => {
@@ -132,6 +168,13 @@ async function startServer() {
     const dbConnected = await testConnection();
     if (!dbConnected) {
       console.error('⚠️  Warning: Database connection failed');
+    } else {
+      // Persist actual token usage for per-project cost reports and budgets
+      tokenMetrics.setSupabaseClient(supabase);
+      budgetService.setSupabaseClient(supabase);
+      workflowRegistry.setSupabaseClient(supabase);
+      workflowTracer.setSupabaseClient(supabase);
+      researchWatchService.start();
     }
 
     app.listen(PORT, () => {
@@ -143,14 +186,29 @@ async function startServer() {
       console.log(`  GET  /health`);
       console.log(`  POST /api/projects`);
       console.log(`  GET  /api/projects/user/:userId`);
+      console.log(`  GET  /api/projects/:projectId/members`);
+      console.log(`  POST /api/projects/:projectId/invitations`);
+      console.log(`  GET  /api/projects/:projectId/items/history`);
+      console.log(`  POST /api/projects/:projectId/items/history/:eventId/undo`);
+      console.log(`  GET  /api/projects/:projectId/approvals`);
+      console.log(`  POST /api/projects/:projectId/approvals/approve`);
+      console.log(`  PUT  /api/projects/:projectId/source-policy`);
+      console.log(`  GET  /api/projects/:projectId/memory`);
+      console.log(`  POST /api/invitations/:token/accept`);
       console.log(`  POST /api/conversations/:projectId/message`);
+      console.log(`  GET  /api/realtime/:projectId/stream`);
       console.log(`  POST /api/references/upload`);
       console.log(`  POST /api/documents/upload`);
       console.log(`  POST /api/documents/folders`);
       console.log(`  GET  /api/agents/list`);
       console.log(`  GET  /api/agents/stats`);
+      console.log(`  GET  /api/agents/stats/projects/:projectId`);
+      console.log(`  POST /api/workflows/projects/:projectId/dry-run`);
+      console.log(`  GET  /api/traces/:projectId/messages/:messageId`);
       console.log(`  POST /api/sessions/start`);
       console.log(`  GET  /api/sessions/summary/:userId/:projectId`);
+      console.log(`  POST /api/research-watches`);
+      console.log(`  GET  /api/page-archives/:archiveId`);
       console.log('\n✨ Ready to brainstorm!\n');
     });
   } catch (error) {
@@ -0,0 +1,321 @@
+/**
+ * Tests for the auth middleware
+ * Tokens are issued locally with signJwt, so no Supabase Auth round-trip is needed
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import request from 'supertest';
+import express, { Express, Router } from 'express';
+import { signJwt } from '../utils/jwt';
+
+const rows: Record<string, Record<string, any>[]> = {
+  projects: [
+    { id: 'project-alice', user_id: 'alice' },
+    { id: 'project-bob', user_id: 'bob' },
+  ],
+  references: [
+    { id: 'ref-alice', project_id: 'project-alice' },
+    { id: 'ref-bob', project_id: 'project-bob' },
+  ],
+  project_members: [
+    { project_id: 'project-alice', user_id: 'carol', role: 'commenter' },
+    { project_id: 'project-alice', user_id: 'dave', role: 'viewer' },
+  ],
+  sandbox_sessions: [{ id: 'sandbox-bob', project_id: 'project-bob' }],
+  sandbox_conversations: [{ id: 'conv-bob', sandbox_id: 'sandbox-bob' }],
+};
+
+vi.mock('../services/supabase', () => ({
+  supabase: {
+    from: (table: string) => {
+      const filters: Record<string, any> = {};
+      const query: any = {
+        select: () => query,
+        eq: (column: string, value: any) => {
+          filters[column] = value;
+          return query;
+        },
+        maybeSingle: async () => ({
+          data: (rows[table] || []).find(row =>
+            Object.entries(filters).every(([column, value]) => row[column] === value)
+          ) || null,
+          error: null,
+        }),
+      };
+      return query;
+    },
+    auth: {
+      getUser: vi.fn(async () => ({ data: { user: null }, error: { message: 'invalid JWT' } })),
+    },
+  },
+}));
+
+import {
+  requireAuth,
+  enforceRequestScope,
+  requireProjectParam,
+  requireResourceParam,
+  requireSelfParam,
+  requireAdmin,
+  getRequiredRole,
+} from './auth';
+import { projectAccessService } from '../services/projectAccess';
+import { getUsageContext } from '../services/usageContext';
+
+const SECRET = 'test-jwt-secret';
+
+function tokenFor(userId: string, expiresInSeconds = 3600): string {
+  return signJwt({ sub: userId, email: `${userId}@example.com` }, SECRET, expiresInSeconds);
+}
+
+describe('Auth middleware', () => {
+  let app: Express;
+  const originalSecret = process.env.SUPABASE_JWT_SECRET;
+  const originalAdmins = process.env.ADMIN_USER_IDS;
+
+  beforeEach(async () => {
+    process.env.SUPABASE_JWT_SECRET = SECRET;
+    process.env.ADMIN_USER_IDS = 'erin, frank';
+    await projectAccessService.clearCache();
+
+    const router = Router();
+    router.param('projectId', requireProjectParam);
+    router.param('userId', requireSelfParam);
+    router.param('referenceId', requireResourceParam('reference'));
+
+    router.get('/me', (req, res) => res.json({ success: true, user: req.user }));
+    router.get('/projects/:projectId', (req, res) => res.json({ success: true, role: req.projectRole }));
+    router.patch('/projects/:projectId', (req, res) => res.json({ success: true }));
+    router.delete('/projects/:projectId', (req, res) => res.json({ success: true }));
+    router.post('/conversations/:projectId/message', (req, res) => res.json({ success: true }));
+    router.get('/users/:userId', (req, res) => res.json({ success: true }));
+    router.get('/references/:referenceId', (req, res) => res.json({ success: true }));
+    router.post('/scoped', (req, res) => res.json({ success: true }));
+    router.delete('/admin-only', requireAdmin, (req, res) => res.json({ success: true }));
+    router.get('/projects/:projectId/usage', (req, res) => res.json({ success: true, context: getUsageContext() }));
+
+    app = express();
+    app.use(express.json());
+    app.use('/api', requireAuth, enforceRequestScope);
+    app.use('/api', router);
+  });
+
+  afterEach(() => {
+    if (originalSecret === undefined) {
+      delete process.env.SUPABASE_JWT_SECRET;
+    } else {
+      process.env.SUPABASE_JWT_SECRET = originalSecret;
+    }
+    if (originalAdmins === undefined) {
+      delete process.env.ADMIN_USER_IDS;
+    } else {
+      process.env.ADMIN_USER_IDS = originalAdmins;
+    }
+  });
+
+  describe('requireAuth', () => {
+    it('should reject requests without a token', async () => {
+      const response = await request(app).get('/api/me');
+
+      expect(response.status).toBe(401);
+      expect(response.body.success).toBe(false);
+    });
+
+    it('should derive req.user from a valid bearer token', async () => {
+      const response = await request(app)
+        .get('/api/me')
+        .set('Authorization', `Bearer ${tokenFor('alice')}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.user.id).toBe('alice');
+      expect(response.body.user.email).toBe('alice@example.com');
+    });
+
+    it('should accept the token as a query parameter for streaming clients', async () => {
+      const response = await request(app).get(`/api/me?access_token=${tokenFor('alice')}`);
+
+      expect(response.status).toBe(200);
+    });
+
+    it('should reject tokens signed with another secret', async () => {
+      const forged = signJwt({ sub: 'alice' }, 'not-the-secret');
+      const response = await request(app).get('/api/me').set('Authorization', `Bearer ${forged}`);
+
+      expect(response.status).toBe(401);
+    });
+
+    it('should reject expired tokens', async () => {
+      const expired = signJwt({ sub: 'alice', exp: Math.floor(Date.now() / 1000) - 60 }, SECRET);
+      const response = await request(app).get('/api/me').set('Authorization', `Bearer ${expired}`);
+
+      expect(response.status).toBe(401);
+    });
+
+    it('should fall back to Supabase Auth when no JWT secret is configured', async () => {
+      delete process.env.SUPABASE_JWT_SECRET;
+
+      const response = await request(app)
+        .get('/api/me')
+        .set('Authorization', `Bearer ${tokenFor('alice')}`);
+
+      expect(response.status).toBe(401);
+    });
+  });
+
+  describe('ownership', () => {
+    it('should allow the owner to access their project', async () => {
+      const response = await request(app)
+        .get('/api/projects/project-alice')
+        .set('Authorization', `Bearer ${tokenFor('alice')}`);
+
+      expect(response.status).toBe(200);
+    });
+
+    it("should forbid access to another user's project", async () => {
+      const response = await request(app)
+        .get('/api/projects/project-bob')
+        .set('Authorization', `Bearer ${tokenFor('alice')}`);
+
+      expect(response.status).toBe(403);
+    });
+
+    it('should check resources against their owning project', async () => {
+      const own = await request(app)
+        .get('/api/references/ref-alice')
+        .set('Authorization', `Bearer ${tokenFor('alice')}`);
+      const other = await request(app)
+        .get('/api/references/ref-bob')
+        .set('Authorization', `Bearer ${tokenFor('alice')}`);
+
+      expect(own.status).toBe(200);
+      expect(other.status).toBe(403);
+    });
+
+    it('should attribute model calls made by the route to the caller and project', async () => {
+      const response = await request(app)
+        .get('/api/projects/project-alice/usage')
+        .set('Authorization', `Bearer ${tokenFor('alice')}`);
+
+      expect(response.body.context).toEqual({ userId: 'alice', projectId: 'project-alice' });
+    });
+
+    it('should only allow users to address themselves by userId', async () => {
+      const self = await request(app)
+        .get('/api/users/alice')
+        .set('Authorization', `Bearer ${tokenFor('alice')}`);
+      const other = await request(app)
+        .get('/api/users/bob')
+        .set('Authorization', `Bearer ${tokenFor('alice')}`);
+
+      expect(self.status).toBe(200);
+      expect(other.status).toBe(403);
+    });
+  });
+
+  describe('roles', () => {
+    it('should map requests to the role they need', () => {
+      expect(getRequiredRole('GET', '/api/projects/p1')).toBe('viewer');
+      expect(getRequiredRole('PATCH', '/api/projects/p1/items')).toBe('editor');
+      expect(getRequiredRole('POST', '/api/conversations/p1/message-stream')).toBe('commenter');
+      expect(getRequiredRole('DELETE', '/api/projects/p1')).toBe('owner');
+      expect(getRequiredRole('PUT', '/api/realtime/p1/presence')).toBe('viewer');
+      expect(getRequiredRole('PATCH', '/api/canvas/p1/positions')).toBe('editor');
+      expect(getRequiredRole('PUT', '/api/workflows/projects/p1')).toBe('owner');
+      expect(getRequiredRole('POST', '/api/workflows/projects/p1/dry-run')).toBe('viewer');
+      expect(getRequiredRole('PUT', '/api/projects/p1/approvals/settings')).toBe('owner');
+      expect(getRequiredRole('POST', '/api/projects/p1/approvals/approve')).toBe('editor');
+    });
+
+    it('should let members read the project with their role attached', async () => {
+      const response = await request(app)
+        .get('/api/projects/project-alice')
+        .set('Authorization', `Bearer ${tokenFor('dave')}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.role).toBe('viewer');
+    });
+
+    it('should let commenters chat but not edit the project', async () => {
+      const chat = await request(app)
+        .post('/api/conversations/project-alice/message')
+        .set('Authorization', `Bearer ${tokenFor('carol')}`)
+        .send({ message: 'What about caching?' });
+      const edit = await request(app)
+        .patch('/api/projects/project-alice')
+        .set('Authorization', `Bearer ${tokenFor('carol')}`)
+        .send({ title: 'Renamed' });
+
+      expect(chat.status).toBe(200);
+      expect(edit.status).toBe(403);
+    });
+
+    it('should keep viewers read-only', async () => {
+      const response = await request(app)
+        .post('/api/conversations/project-alice/message')
+        .set('Authorization', `Bearer ${tokenFor('dave')}`)
+        .send({ message: 'hi' });
+
+      expect(response.status).toBe(403);
+    });
+
+    it('should reserve deleting the project for the owner', async () => {
+      const member = await request(app)
+        .delete('/api/projects/project-alice')
+        .set('Authorization', `Bearer ${tokenFor('carol')}`);
+      const owner = await request(app)
+        .delete('/api/projects/project-alice')
+        .set('Authorization', `Bearer ${tokenFor('alice')}`);
+
+      expect(member.status).toBe(403);
+      expect(owner.status).toBe(200);
+    });
+  });
+
+  describe('enforceRequestScope', () => {
+    it('should forbid a body userId that is not the caller', async () => {
+      const response = await request(app)
+        .post('/api/scoped')
+        .set('Authorization', `Bearer ${tokenFor('alice')}`)
+        .send({ userId: 'bob', projectId: 'project-alice' });
+
+      expect(response.status).toBe(403);
+    });
+
+    it("should forbid a body projectId the caller doesn't own", async () => {
+      const response = await request(app)
+        .post('/api/scoped')
+        .set('Authorization', `Bearer ${tokenFor('alice')}`)
+        .send({ userId: 'alice', projectId: 'project-bob' });
+
+      expect(response.status).toBe(403);
+    });
+
+    it('should resolve sandbox conversations through their sandbox', async () => {
+      const alice = await request(app)
+        .post('/api/scoped')
+        .set('Authorization', `Bearer ${tokenFor('alice')}`)
+        .send({ conversationId: 'conv-bob' });
+      const bob = await request(app)
+        .post('/api/scoped')
+        .set('Authorization', `Bearer ${tokenFor('bob')}`)
+        .send({ conversationId: 'conv-bob' });
+
+      expect(alice.status).toBe(403);
+      expect(bob.status).toBe(200);
+    });
+  });
+
+  describe('requireAdmin', () => {
+    it('should only let users listed in ADMIN_USER_IDS through', async () => {
+      const owner = await request(app)
+        .delete('/api/admin-only')
+        .set('Authorization', `Bearer ${tokenFor('alice')}`);
+      const admin = await request(app)
+        .delete('/api/admin-only')
+        .set('Authorization', `Bearer ${tokenFor('frank')}`);
+
+      expect(owner.status).toBe(403);
+      expect(admin.status).toBe(200);
+    });
+  });
+});
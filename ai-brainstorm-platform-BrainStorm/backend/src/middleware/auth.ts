@@ -0,0 +1,287 @@
+import { Request, Response, NextFunction } from 'express';
+import { supabase } from '../services/supabase';
+import { projectAccessService, hasRole, ResourceType, ProjectRole } from '../services/projectAccess';
+import { runWithUsageContext } from '../services/usageContext';
+import { verifyJwt, JwtError } from '../utils/jwt';
+
+/**
+ * Authentication & authorization middleware
+ *
+ * requireAuth verifies the Supabase access token on every /api request and sets
+ * req.user. Tokens are verified locally when SUPABASE_JWT_SECRET is set, and
+ * through Supabase Auth otherwise.
+ *
+ * Ownership is enforced per router with router.param() handlers, so any route
+ * declaring :projectId, :userId or a resource id is checked before it runs:
+ *
+ *   router.param('projectId', requireProjectParam);
+ *   router.param('referenceId', requireResourceParam('reference'));
+ *
+ * enforceRequestScope covers ids passed in the body or query string.
+ *
+ * The role a request needs is decided by getRequiredRole: reads need viewer,
+ * writes need editor, with the exceptions listed in ROLE_RULES.
+ *
+ * Both run the rest of the request inside the usage context (userId, and the
+ * projectId once checked), so model calls made by the route are attributed.
+ */
+
+type ParamHandler = (req: Request, res: Response, next: NextFunction, value: string) => Promise<void> | void;
+
+interface RoleRule {
+  methods: string[];
+  path: RegExp;
+  role: ProjectRole;
+}
+
+const ROLE_RULES: RoleRule[] = [
+  // Project administration
+  { methods: ['DELETE'], path: /^\/api\/projects\/[^/]+$/, role: 'owner' },
+  { methods: ['PATCH'], path: /^\/api\/projects\/[^/]+\/members\//, role: 'owner' },
+  { methods: ['GET', 'POST', 'DELETE'], path: /^\/api\/projects\/[^/]+\/invitations(\/|$)/, role: 'owner' },
+  { methods: ['PUT', 'DELETE'], path: /^\/api\/budgets\/project\//, role: 'owner' },
+  { methods: ['PUT', 'DELETE'], path: /^\/api\/workflows\/projects\/[^/]+$/, role: 'owner' },
+  { methods: ['PUT'], path: /^\/api\/projects\/[^/]+\/approvals\/settings$/, role: 'owner' },
+  { methods: ['PUT'], path: /^\/api\/projects\/[^/]+\/source-policy$/, role: 'owner' },
+  // Members may always leave; the route checks owner-or-self
+  { methods: ['DELETE'], path: /^\/api\/projects\/[^/]+\/members\//, role: 'viewer' },
+
+  // Commenters take part in the conversation
+  { methods: ['POST'], path: /^\/api\/conversations\/[^/]+\/message(-stream)?$/, role: 'commenter' },
+  { methods: ['POST'], path: /^\/api\/analysis\/chat$/, role: 'commenter' },
+
+  // Reads and per-user bookkeeping that happen to be POSTs
+  { methods: ['POST'], path: /^\/api\/intelligence-hub\/[^/]+\/(search|conversation)$/, role: 'viewer' },
+  { methods: ['POST'], path: /^\/api\/references\/(semantic-search|compare)$/, role: 'viewer' },
+  { methods: ['POST'], path: /^\/api\/sessions\/(start|end|track-activity)$/, role: 'viewer' },
+  { methods: ['POST'], path: /^\/api\/projects\/[^/]+\/suggestions\//, role: 'viewer' },
+  { methods: ['PUT'], path: /^\/api\/realtime\/[^/]+\/presence$/, role: 'viewer' },
+  { methods: ['POST'], path: /^\/api\/workflows\/projects\/[^/]+\/dry-run$/, role: 'viewer' },
+];
+
+/**
+ * Minimum project role needed for a request
+ */
+export function getRequiredRole(method: string, path: string): ProjectRole {
+  const rule = ROLE_RULES.find(r => r.methods.includes(method) && r.path.test(path));
+  if (rule) {
+    return rule.role;
+  }
+  return method === 'GET' || method === 'HEAD' ? 'viewer' : 'editor';
+}
+
+function extractToken(req: Request): string | null {
+  const header = req.headers.authorization;
+  if (header && header.startsWith('Bearer ')) {
+    return header.slice('Bearer '.length).trim() || null;
+  }
+
+  // EventSource can't set headers, so streaming endpoints accept ?access_token=
+  const queryToken = req.query.access_token;
+  return typeof queryToken === 'string' && queryToken ? queryToken : null;
+}
+
+async function verifyAccessToken(token: string): Promise<NonNullable<Request['user']>> {
+  const jwtSecret = process.env.SUPABASE_JWT_SECRET;
+
+  if (jwtSecret) {
+    const payload = verifyJwt(token, jwtSecret);
+    return { id: payload.sub, email: payload.email, access_token: token };
+  }
+
+  const { data, error } = await supabase.auth.getUser(token);
+  if (error || !data?.user) {
+    throw new JwtError(error?.message || 'Invalid token');
+  }
+
+  return { id: data.user.id, email: data.user.email, access_token: token };
+}
+
+function deny(res: Response, status: 401 | 403 | 404, error: string): void {
+  res.status(status).json({ success: false, error });
+}
+
+/**
+ * Reject requests without a valid Supabase access token
+ */
+export async function requireAuth(req: Request, res: Response, next: NextFunction): Promise<void> {
+  if (req.method === 'OPTIONS') {
+    return next();
+  }
+
+  const token = extractToken(req);
+  if (!token) {
+    return deny(res, 401, 'Authentication required');
+  }
+
+  try {
+    req.user = await verifyAccessToken(token);
+  } catch (error: any) {
+    console.warn('[Auth] Rejected token:', error.message);
+    return deny(res, 401, 'Invalid or expired token');
+  }
+
+  runWithUsageContext({ userId: req.user.id }, next);
+}
+
+async function checkProject(req: Request, res: Response, next: NextFunction, projectId: string): Promise<void> {
+  if (!req.user) {
+    return deny(res, 401, 'Authentication required');
+  }
+
+  try {
+    const access = await projectAccessService.getAccess(req.user.id, projectId);
+    if (!access) {
+      return deny(res, 403, 'You do not have access to this project');
+    }
+
+    const requiredRole = getRequiredRole(req.method, req.originalUrl.split('?')[0]);
+    if (!hasRole(access.role, requiredRole)) {
+      return deny(res, 403, `This action needs the ${requiredRole} role (you are ${access.role})`);
+    }
+
+    req.projectRole = access.role;
+  } catch (error) {
+    console.error('[Auth] Project access check failed:', error);
+    res.status(500).json({ success: false, error: 'Failed to verify project access' });
+    return;
+  }
+
+  runWithUsageContext({ projectId, userId: req.user.id }, next);
+}
+
+/**
+ * router.param handler for :projectId
+ */
+export const requireProjectParam: ParamHandler = (req, res, next, projectId) =>
+  checkProject(req, res, next, projectId);
+
+/**
+ * router.param handler for :userId - users may only act as themselves
+ */
+export const requireSelfParam: ParamHandler = (req, res, next, userId) => {
+  if (!req.user) {
+    return deny(res, 401, 'Authentication required');
+  }
+  if (userId !== req.user.id) {
+    return deny(res, 403, 'You can only access your own data');
+  }
+  next();
+};
+
+/**
+ * Whether the user is a deployment admin (listed in ADMIN_USER_IDS)
+ * Admins manage settings that span projects: user budgets, organization
+ * templates and the shared cache.
+ */
+export function isAdmin(userId: string | undefined): boolean {
+  if (!userId) return false;
+  return (process.env.ADMIN_USER_IDS || '')
+    .split(',')
+    .map(id => id.trim())
+    .includes(userId);
+}
+
+/**
+ * Route middleware: only deployment admins may continue
+ */
+export function requireAdmin(req: Request, res: Response, next: NextFunction): void {
+  if (!req.user) {
+    return deny(res, 401, 'Authentication required');
+  }
+  if (!isAdmin(req.user.id)) {
+    return deny(res, 403, 'This action is limited to administrators');
+  }
+  next();
+}
+
+/**
+ * router.param handler factory for resources owned by a project
+ * Unknown ids fall through so the route can return its own 404.
+ */
+export function requireResourceParam(type: ResourceType): ParamHandler {
+  return async (req, res, next, resourceId) => {
+    if (!req.user) {
+      return deny(res, 401, 'Authentication required');
+    }
+
+    let projectId: string | null;
+    try {
+      projectId = await projectAccessService.getResourceProjectId(type, resourceId);
+    } catch (error) {
+      console.error(`[Auth] Failed to resolve ${type}:`, error);
+      res.status(500).json({ success: false, error: 'Failed to verify access' });
+      return;
+    }
+
+    if (!projectId) {
+      return next();
+    }
+
+    return checkProject(req, res, next, projectId);
+  };
+}
+
+/**
+ * Resource ids routes accept in the body / query instead of the path
+ */
+const SCOPED_RESOURCE_KEYS: Record<string, ResourceType> = {
+  sandboxId: 'sandbox',
+  conversationId: 'sandboxConversation',
+  referenceId: 'reference',
+  researchQueryId: 'researchQuery',
+};
+
+function readScopeValue(req: Request, key: string): string | undefined {
+  const fromBody = req.body && typeof req.body === 'object' ? req.body[key] : undefined;
+  const value = fromBody ?? req.query[key];
+  return typeof value === 'string' && value ? value : undefined;
+}
+
+/**
+ * Enforce userId, projectId and resource ids supplied in the body or query string
+ * Runs after requireAuth; path params are handled by the router.param handlers.
+ * Multipart routes run it again after multer has parsed the form fields.
+ */
+export async function enforceRequestScope(req: Request, res: Response, next: NextFunction): Promise<void> {
+  if (!req.user) {
+    return next();
+  }
+
+  const userId = readScopeValue(req, 'userId');
+  if (userId && userId !== req.user.id) {
+    return deny(res, 403, 'You can only act as yourself');
+  }
+
+  const projectIds = new Set<string>();
+  const projectId = readScopeValue(req, 'projectId');
+  if (projectId) {
+    projectIds.add(projectId);
+  }
+
+  try {
+    for (const [key, type] of Object.entries(SCOPED_RESOURCE_KEYS)) {
+      const resourceId = readScopeValue(req, key);
+      if (!resourceId) continue;
+      const ownerId = await projectAccessService.getResourceProjectId(type, resourceId);
+      if (ownerId) {
+        projectIds.add(ownerId);
+      }
+    }
+  } catch (error) {
+    console.error('[Auth] Request scope check failed:', error);
+    res.status(500).json({ success: false, error: 'Failed to verify access' });
+    return;
+  }
+
+  if (projectIds.size > 1) {
+    return deny(res, 403, 'Request mixes resources from different projects');
+  }
+
+  const [scopedProjectId] = projectIds;
+  if (scopedProjectId) {
+    return checkProject(req, res, next, scopedProjectId);
+  }
+
+  next();
+}
@@ -0,0 +1,13 @@
+import { Request, Response, NextFunction } from 'express';
+import { runWithUsageContext } from '../services/usageContext';
+
+/**
+ * Label the model calls made while handling a request with an operation name
+ * (shown in project cost reports). requireAuth and the project checks add the
+ * userId and projectId to the same context.
+ */
+export function usageOperation(operation: string) {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    runWithUsageContext({ operation }, next);
+  };
+}
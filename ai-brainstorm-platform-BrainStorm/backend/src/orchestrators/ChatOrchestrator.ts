@@ -11,6 +11,8 @@
 import { ContextManagerAgent } from '../agents/contextManager';
 import { IntegrationOrchestrator } from '../agents/orchestrator';
 import { supabase } from '../services/supabase';
+import { chatRetrievalService } from '../services/chatRetrieval';
+import { Citation, isConversationAgentResponse } from '../types';
 
 interface ChatContext {
   projectId: string;
@@ -30,6 +32,7 @@ interface ChatResponse {
       conflictsFound: number;
     };
     nextSteps?: string[];
+    citations?: Citation[];
   };
 }
 
@@ -81,24 +84,33 @@ export class ChatOrchestrator {
 
       const workflow = await this.integrationOrchestrator.determineWorkflow(
         intentClassification,
-        message
+        message,
+        context.projectId
       );
 
-      // Step 4: Execute workflow
+      // Step 4: Retrieve passages the reply can cite
+      const sources = await chatRetrievalService.retrieve(context.projectId, message, {
+        excludeMessageIds: context.conversationHistory.map(m => m.id).filter(Boolean),
+      });
+
+      // Step 5: Execute workflow
       const workflowResults = await this.integrationOrchestrator.executeWorkflow(
         workflow,
         message,
         projectState,
         context.conversationHistory,
-        [] // projectReferences
+        [], // projectReferences
+        undefined,
+        sources
       );
 
-      // Step 5: Extract user-facing response from results
-      const userResponse = workflowResults.find(r => r.showToUser)?.message
+      // Step 6: Extract user-facing response from results
+      const shown = workflowResults.find(r => r.showToUser);
+      const userResponse = shown?.message
         || workflowResults[workflowResults.length - 1]?.message
         || 'Processing complete';
 
-      // Step 6: Wrap response with intent metadata
+      // Step 7: Wrap response with intent metadata
       return {
         response: userResponse,
         metadata: {
@@ -109,7 +121,8 @@ export class ChatOrchestrator {
             assumptionsFound: 0,
             conflictsFound: 0
           },
-          nextSteps: this.getNextStepsForIntent(intent)
+          nextSteps: this.getNextStepsForIntent(intent),
+          citations: shown && isConversationAgentResponse(shown) ? shown.metadata.citations : undefined
         }
       };
     } catch (error) {
@@ -7,6 +7,7 @@
 
 import { BaseOrchestrator } from './BaseOrchestrator';
 import { supabase } from '../services/supabase';
+import { itemHistoryService } from '../services/itemHistory';
 import {
   extractAssumptionScanResult,
   extractConsistencyCheckResult,
@@ -35,6 +36,7 @@ interface ExtractionContext {
   projectId: string;
   selectedIdeaIds: string[];
   verify?: boolean;
+  userId?: string; // Member extracting the ideas, for the item history
 }
 
 interface ExtractionResult {
@@ -125,7 +127,7 @@ export class SandboxOrchestrator extends BaseOrchestrator {
       const extractedItems = ideasToExtract.map((idea) => this.convertToProjectItem(idea, sandbox));
 
       // Step 7: Add to main project
-      await this.addItemsToProject(context.projectId, extractedItems);
+      await this.addItemsToProject(context.projectId, extractedItems, context.userId);
 
       const result: ExtractionResult = {
         extractedItems,
@@ -342,7 +344,7 @@ export class SandboxOrchestrator extends BaseOrchestrator {
   /**
    * Add items to main project
    */
-  private async addItemsToProject(projectId: string, newItems: any[]): Promise<void> {
+  private async addItemsToProject(projectId: string, newItems: any[], userId?: string): Promise<void> {
     try {
       // Get current items
       const { data: project, error: fetchError } = await supabase
@@ -371,6 +373,10 @@ export class SandboxOrchestrator extends BaseOrchestrator {
 
       if (updateError) throw updateError;
 
+      await itemHistoryService.recordChanges(projectId, currentItems, updatedItems, {
+        actor: userId ? { type: 'user', id: userId } : { type: 'agent', id: 'SandboxOrchestrator' },
+      });
+
       this.log('Added items to project', newItems.length);
     } catch (error) {
       this.logError('Error adding items to project', error);
@@ -1,8 +1,13 @@
 import { Router, Request, Response } from 'express';
 import { AgentCoordinationService } from '../services/agentCoordination';
 import { supabase } from '../services/supabase';
+import { tokenMetrics } from '../services/tokenMetrics';
+import { requireProjectParam } from '../middleware/auth';
 
 const router = Router();
+
+router.param('projectId', requireProjectParam);
+
 const coordinationService = new AgentCoordinationService();
 
 /**
@@ -10,7 +15,7 @@ const coordinationService = new AgentCoordinationService();
  */
 router.get('/stats', async (req: Request, res: Response) => {
   try {
-    const stats = coordinationService.getStats();
+    const stats = await coordinationService.getStats();
 
     res.json({
       success: true,
@@ -26,6 +31,34 @@ router.get('/stats', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * Get persisted token usage and cost report for a project
+ * Optional query: ?since=ISO date or ?days=N (default: all time)
+ */
+router.get('/stats/projects/:projectId', async (req: Request, res: Response) => {
+  try {
+    const projectId = req.params.projectId as string;
+
+    let since: Date | undefined;
+    if (req.query.since) {
+      since = new Date(req.query.since as string);
+    } else if (req.query.days) {
+      since = new Date(Date.now() - parseInt(req.query.days as string) * 24 * 60 * 60 * 1000);
+    }
+
+    if (since && isNaN(since.getTime())) {
+      return res.status(400).json({ success: false, error: 'Invalid since/days parameter' });
+    }
+
+    const report = await tokenMetrics.getProjectCostReport(projectId, since);
+
+    res.json({ success: true, report });
+  } catch (error) {
+    console.error('Get project cost report error:', error);
+    res.status(500).json({ success: false, error: 'Failed to fetch cost report' });
+  }
+});
+
 /**
  * Get agent activity log for project
  */
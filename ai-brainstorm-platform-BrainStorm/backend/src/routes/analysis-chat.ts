@@ -6,14 +6,10 @@
  */
 
 import { Router } from 'express';
-import Anthropic from '@anthropic-ai/sdk';
+import { completeWithUsage } from '../agents/base';
 
 const router = Router();
 
-const anthropic = new Anthropic({
-  apiKey: process.env.ANTHROPIC_API_KEY!,
-});
-
 interface ChatMessage {
   role: 'user' | 'assistant';
   content: string;
@@ -63,14 +59,15 @@ Keep responses focused and actionable. Use markdown formatting for better readab
     }
 
     // Call Claude API
-    const message = await anthropic.messages.create({
+    const message = await completeWithUsage({
       model: 'claude-sonnet-4-20250514',
-      max_tokens: 2000,
+      maxTokens: 2000,
+      agentName: 'AnalysisChat',
       system: systemPrompt,
       messages: conversationMessages,
     });
 
-    const answer = message.content[0].type === 'text' ? message.content[0].text : 'No response generated.';
+    const answer = message.text || 'No response generated.';
 
     // Generate suggested follow-up questions
     const suggestedQuestions = generateFollowUpQuestions(question, answer);
@@ -80,8 +77,8 @@ Keep responses focused and actionable. Use markdown formatting for better readab
       answer,
       suggestedQuestions,
       usage: {
-        input_tokens: message.usage.input_tokens,
-        output_tokens: message.usage.output_tokens,
+        input_tokens: message.usage.inputTokens,
+        output_tokens: message.usage.outputTokens,
       },
     });
   } catch (error: any) {
@@ -138,13 +135,14 @@ Provide a detailed deep-dive analysis of this section:
 
 Format your response in markdown with clear headings and bullet points.`;
 
-    const message = await anthropic.messages.create({
+    const message = await completeWithUsage({
       model: 'claude-sonnet-4-20250514',
-      max_tokens: 3000,
+      maxTokens: 3000,
+      agentName: 'AnalysisChat',
       messages: [{ role: 'user', content: prompt }],
     });
 
-    const expandedContent = message.content[0].type === 'text' ? message.content[0].text : '';
+    const expandedContent = message.text;
 
     // Generate research suggestions for this section
     const researchSuggestions = generateResearchSuggestions(sectionTitle, expandedContent);
@@ -154,8 +152,8 @@ Format your response in markdown with clear headings and bullet points.`;
       expandedContent,
       researchSuggestions,
       usage: {
-        input_tokens: message.usage.input_tokens,
-        output_tokens: message.usage.output_tokens,
+        input_tokens: message.usage.inputTokens,
+        output_tokens: message.usage.outputTokens,
       },
     });
   } catch (error: any) {
@@ -208,13 +206,14 @@ Focus on:
 
 Return ONLY the JSON array, no other text.`;
 
-    const message = await anthropic.messages.create({
+    const message = await completeWithUsage({
       model: 'claude-sonnet-4-20250514',
-      max_tokens: 2000,
+      maxTokens: 2000,
+      agentName: 'AnalysisChat',
       messages: [{ role: 'user', content: prompt }],
     });
 
-    const responseText = message.content[0].type === 'text' ? message.content[0].text : '[]';
+    const responseText = message.text || '[]';
 
     // Parse JSON response
     let insights: any[] = [];
@@ -280,13 +279,14 @@ Focus on:
 
 Return ONLY the JSON array.`;
 
-    const message = await anthropic.messages.create({
+    const message = await completeWithUsage({
       model: 'claude-sonnet-4-20250514',
-      max_tokens: 2000,
+      maxTokens: 2000,
+      agentName: 'AnalysisChat',
       messages: [{ role: 'user', content: prompt }],
     });
 
-    const responseText = message.content[0].type === 'text' ? message.content[0].text : '[]';
+    const responseText = message.text || '[]';
 
     let suggestions: any[] = [];
     try {
@@ -3,9 +3,35 @@
  * Tests template management endpoints
  */
 
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
 import request from 'supertest';
 import express, { Express } from 'express';
+
+// Custom templates are stored in Supabase; inserts echo the row back with a new id
+vi.mock('../services/supabase', () => {
+  let seq = 0;
+  return {
+    supabase: {
+      from: () => {
+        let inserted: any = null;
+        const builder: any = {
+          select: () => builder,
+          eq: () => builder,
+          insert: (row: any) => {
+            seq++;
+            inserted = { id: `00000000-0000-4000-8000-${String(seq).padStart(12, '0')}`, ...row };
+            return builder;
+          },
+          single: async () => ({ data: inserted, error: null }),
+          then: (resolve: any, reject: any) =>
+            Promise.resolve({ data: inserted ? [inserted] : [], error: null }).then(resolve, reject),
+        };
+        return builder;
+      },
+    },
+  };
+});
+
 import analysisTemplatesRoutes from './analysis-templates';
 
 describe('Analysis Templates Routes', () => {
@@ -14,6 +40,10 @@ describe('Analysis Templates Routes', () => {
   beforeEach(() => {
     app = express();
     app.use(express.json());
+    app.use((req, _res, next) => {
+      req.user = { id: 'user-1' };
+      next();
+    });
     app.use('/api/analysis-templates', analysisTemplatesRoutes);
   });
 
@@ -178,13 +208,26 @@ describe('Analysis Templates Routes', () => {
       expect(response.body.message).toBe('Custom template created successfully');
     });
 
-    it('should generate unique ID for custom template', async () => {
+    it('should store the template for the user and return its stored ID', async () => {
       const response = await request(app)
         .post('/api/analysis-templates/custom')
         .send(validCustomTemplate);
 
       expect(response.status).toBe(200);
-      expect(response.body.template.id).toMatch(/^custom_\d+$/);
+      expect(response.body.template.id).toMatch(/^[0-9a-f-]{36}$/);
+      expect(response.body.template).toMatchObject({ scope: 'user', ownerId: 'user-1', version: 1 });
+    });
+
+    it('should return 400 for an unknown field type', async () => {
+      const response = await request(app)
+        .post('/api/analysis-templates/custom')
+        .send({
+          ...validCustomTemplate,
+          fields: [{ id: 'impact', label: 'Impact', description: 'Impact', type: 'paragraph', required: true }],
+        });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toContain('type must be one of');
     });
 
     it('should return 400 for missing name', async () => {
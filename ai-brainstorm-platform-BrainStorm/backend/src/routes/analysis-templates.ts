@@ -1,79 +1,71 @@
 /**
  * Analysis Templates Routes - Phase 4.2
  *
- * Manage analysis templates and custom field configurations
+ * Built-in analysis templates plus custom templates stored per user,
+ * project or organization, with version history and cloning
  */
 
-import { Router } from 'express';
-import {
-  getAllTemplates,
-  getTemplateById,
-  getTemplatesByType,
-  createCustomTemplate,
-  type TemplateField,
-} from '../config/analysis-templates';
+import { Router, Request, Response } from 'express';
+import { getTemplatesByType } from '../config/analysis-templates';
+import { analysisTemplateService, AnalysisTemplateError } from '../services/analysisTemplates';
 
 const router = Router();
 
+function handleError(res: Response, error: any, fallback: string) {
+  if (error instanceof AnalysisTemplateError) {
+    return res.status(error.status).json({ success: false, error: error.message });
+  }
+  console.error(`[AnalysisTemplates] ${fallback}:`, error);
+  res.status(500).json({ success: false, error: fallback });
+}
+
+function readProjectId(req: Request): string | undefined {
+  return typeof req.query.projectId === 'string' && req.query.projectId ? req.query.projectId : undefined;
+}
+
 /**
- * GET /api/analysis-templates
- * Get all available analysis templates
+ * GET /api/analysis-templates?projectId=
+ * Built-in templates and the custom templates the user can see;
+ * project templates are included when projectId is given
  */
-router.get('/', async (req, res) => {
+router.get('/', async (req: Request, res: Response) => {
   try {
-    const templates = getAllTemplates();
+    const templates = await analysisTemplateService.listTemplates(req.user!.id, readProjectId(req));
 
     res.json({
       success: true,
       templates,
       count: templates.length,
     });
-  } catch (error: any) {
-    console.error('Get templates error:', error);
-    res.status(500).json({
-      success: false,
-      error: error.message || 'Failed to fetch templates',
-    });
+  } catch (error) {
+    handleError(res, error, 'Failed to fetch templates');
   }
 });
 
 /**
  * GET /api/analysis-templates/:templateId
- * Get a specific template by ID
+ * Get a built-in or custom template by ID
  */
-router.get('/:templateId', async (req, res) => {
+router.get('/:templateId', async (req: Request, res: Response) => {
   try {
-    const { templateId } = req.params;
-
-    const template = getTemplateById(templateId);
-
-    if (!template) {
-      return res.status(404).json({
-        success: false,
-        error: 'Template not found',
-      });
-    }
+    const template = await analysisTemplateService.getTemplate(req.params.templateId as string, req.user!.id);
 
     res.json({
       success: true,
       template,
     });
-  } catch (error: any) {
-    console.error('Get template error:', error);
-    res.status(500).json({
-      success: false,
-      error: error.message || 'Failed to fetch template',
-    });
+  } catch (error) {
+    handleError(res, error, 'Failed to fetch template');
   }
 });
 
 /**
- * GET /api/analysis-templates/type/:type
- * Get templates by type
+ * GET /api/analysis-templates/type/:type?projectId=
+ * Get templates by type ('custom' lists the user's custom templates)
  */
-router.get('/type/:type', async (req, res) => {
+router.get('/type/:type', async (req: Request, res: Response) => {
   try {
-    const { type } = req.params;
+    const type = req.params.type as string;
 
     if (!['competitor', 'technical', 'user_research', 'market', 'custom'].includes(type)) {
       return res.status(400).json({
@@ -82,63 +74,123 @@ router.get('/type/:type', async (req, res) => {
       });
     }
 
-    const templates = getTemplatesByType(type as any);
+    const templates = type === 'custom'
+      ? await analysisTemplateService.listCustomTemplates(req.user!.id, readProjectId(req))
+      : getTemplatesByType(type as any);
 
     res.json({
       success: true,
       templates,
       count: templates.length,
     });
-  } catch (error: any) {
-    console.error('Get templates by type error:', error);
-    res.status(500).json({
-      success: false,
-      error: error.message || 'Failed to fetch templates',
-    });
+  } catch (error) {
+    handleError(res, error, 'Failed to fetch templates');
   }
 });
 
 /**
  * POST /api/analysis-templates/custom
- * Create a custom template with user-defined fields
+ * Create and store a custom template
+ * Body: { name, description, fields, icon?, outputFormat?, systemPrompt?, scope?, projectId? }
+ * scope is 'user' (default), 'project' (requires projectId) or 'organization' (admins only)
  */
-router.post('/custom', async (req, res) => {
+router.post('/custom', async (req: Request, res: Response) => {
   try {
-    const { name, description, fields } = req.body;
-
-    if (!name || !description || !fields || !Array.isArray(fields)) {
-      return res.status(400).json({
-        success: false,
-        error: 'Missing required fields: name, description, fields (array)',
-      });
-    }
-
-    // Validate fields
-    for (const field of fields) {
-      if (!field.id || !field.label || !field.type) {
-        return res.status(400).json({
-          success: false,
-          error: 'Each field must have id, label, and type',
-        });
-      }
-    }
-
-    const customTemplate = createCustomTemplate(name, description, fields as TemplateField[]);
-
-    // NOTE: Custom templates are currently stored in-memory only
-    // Future enhancement: Persist custom templates to database for cross-session availability
+    const template = await analysisTemplateService.createTemplate(req.body, req.user!.id);
 
     res.json({
       success: true,
-      template: customTemplate,
+      template,
       message: 'Custom template created successfully',
     });
-  } catch (error: any) {
-    console.error('Create custom template error:', error);
-    res.status(500).json({
-      success: false,
-      error: error.message || 'Failed to create custom template',
-    });
+  } catch (error) {
+    handleError(res, error, 'Failed to create custom template');
+  }
+});
+
+/**
+ * POST /api/analysis-templates/:templateId/clone
+ * Copy a built-in or custom template into a new custom template
+ * Body: { name?, description?, scope?, projectId? }
+ */
+router.post('/:templateId/clone', async (req: Request, res: Response) => {
+  try {
+    const template = await analysisTemplateService.cloneTemplate(
+      req.params.templateId as string,
+      req.body,
+      req.user!.id
+    );
+
+    res.status(201).json({ success: true, template });
+  } catch (error) {
+    handleError(res, error, 'Failed to clone template');
+  }
+});
+
+/**
+ * PUT /api/analysis-templates/:templateId
+ * Update a custom template; content changes are saved as a new version
+ * Body: any of { name, description, fields, icon, outputFormat, systemPrompt, scope, projectId }
+ * Only the owner can change scope or projectId
+ */
+router.put('/:templateId', async (req: Request, res: Response) => {
+  try {
+    const template = await analysisTemplateService.updateTemplate(
+      req.params.templateId as string,
+      req.body,
+      req.user!.id
+    );
+
+    res.json({ success: true, template });
+  } catch (error) {
+    handleError(res, error, 'Failed to update template');
+  }
+});
+
+/**
+ * DELETE /api/analysis-templates/:templateId
+ */
+router.delete('/:templateId', async (req: Request, res: Response) => {
+  try {
+    await analysisTemplateService.deleteTemplate(req.params.templateId as string, req.user!.id);
+    res.json({ success: true, message: 'Template deleted' });
+  } catch (error) {
+    handleError(res, error, 'Failed to delete template');
+  }
+});
+
+/**
+ * GET /api/analysis-templates/:templateId/versions
+ * Version history of a custom template, newest first
+ */
+router.get('/:templateId/versions', async (req: Request, res: Response) => {
+  try {
+    const versions = await analysisTemplateService.listVersions(req.params.templateId as string, req.user!.id);
+    res.json({ success: true, versions });
+  } catch (error) {
+    handleError(res, error, 'Failed to fetch template versions');
+  }
+});
+
+/**
+ * POST /api/analysis-templates/:templateId/versions/:version/restore
+ * Make an earlier version current again (saved as a new version)
+ */
+router.post('/:templateId/versions/:version/restore', async (req: Request, res: Response) => {
+  try {
+    const version = Number(req.params.version);
+    if (!Number.isInteger(version) || version < 1) {
+      return res.status(400).json({ success: false, error: 'version must be a positive integer' });
+    }
+
+    const template = await analysisTemplateService.restoreVersion(
+      req.params.templateId as string,
+      version,
+      req.user!.id
+    );
+    res.json({ success: true, template });
+  } catch (error) {
+    handleError(res, error, 'Failed to restore template version');
   }
 });
 
@@ -0,0 +1,128 @@
+import { Router, Request, Response } from 'express';
+import { approvalQueueService, ApprovalError, ProposalStatus } from '../services/approvalQueue';
+import { realtimeService, REALTIME_CONNECTION_HEADER } from '../services/realtimeService';
+import { requireProjectParam } from '../middleware/auth';
+
+/**
+ * Approval queue routes (mounted under /api/projects)
+ * Agent-proposed item changes waiting for a member, and the per-project switch.
+ */
+const router = Router();
+
+router.param('projectId', requireProjectParam);
+
+const STATUSES: ProposalStatus[] = ['pending', 'approved', 'rejected'];
+
+function handleError(res: Response, error: any, fallback: string) {
+  if (error instanceof ApprovalError) {
+    return res.status(error.status).json({ success: false, error: error.message });
+  }
+  console.error(`[Approvals] ${fallback}:`, error);
+  res.status(500).json({ success: false, error: fallback });
+}
+
+/**
+ * GET /api/projects/:projectId/approvals/settings
+ */
+router.get('/:projectId/approvals/settings', async (req: Request, res: Response) => {
+  try {
+    const settings = await approvalQueueService.getSettings(req.params.projectId as string);
+    res.json({ success: true, settings });
+  } catch (error) {
+    handleError(res, error, 'Failed to fetch approval settings');
+  }
+});
+
+/**
+ * PUT /api/projects/:projectId/approvals/settings (owner)
+ * Body: { requireApproval: boolean }
+ */
+router.put('/:projectId/approvals/settings', async (req: Request, res: Response) => {
+  try {
+    const projectId = req.params.projectId as string;
+    const { requireApproval } = req.body || {};
+
+    if (typeof requireApproval !== 'boolean') {
+      return res.status(400).json({ success: false, error: 'requireApproval must be a boolean' });
+    }
+
+    const settings = await approvalQueueService.updateSettings(projectId, { requireApproval });
+    realtimeService.publish(projectId, 'approvals', { change: 'settings', settings }, {
+      excludeConnectionId: req.get(REALTIME_CONNECTION_HEADER),
+    });
+
+    res.json({ success: true, settings });
+  } catch (error) {
+    handleError(res, error, 'Failed to save approval settings');
+  }
+});
+
+/**
+ * GET /api/projects/:projectId/approvals?status=pending&limit=100
+ * Pending proposals oldest first; decided ones newest first
+ */
+router.get('/:projectId/approvals', async (req: Request, res: Response) => {
+  try {
+    const status = (req.query.status as ProposalStatus) || 'pending';
+    if (!STATUSES.includes(status)) {
+      return res.status(400).json({ success: false, error: `status must be one of: ${STATUSES.join(', ')}` });
+    }
+
+    const proposals = await approvalQueueService.list(
+      req.params.projectId as string,
+      status,
+      Math.min(parseInt(req.query.limit as string, 10) || 100, 500)
+    );
+
+    res.json({ success: true, proposals });
+  } catch (error) {
+    handleError(res, error, 'Failed to fetch proposals');
+  }
+});
+
+/**
+ * POST /api/projects/:projectId/approvals/approve
+ * Body: { ids: string[] } - applied in the order they were proposed
+ */
+router.post('/:projectId/approvals/approve', async (req: Request, res: Response) => {
+  try {
+    const projectId = req.params.projectId as string;
+    const result = await approvalQueueService.approve(projectId, req.body?.ids, req.user!.id);
+    const excludeConnectionId = req.get(REALTIME_CONNECTION_HEADER);
+
+    realtimeService.publishItemChanges(projectId, result.previousItems, result.items, {
+      actorId: req.user!.id,
+      excludeConnectionId,
+    });
+    realtimeService.publish(projectId, 'approvals', {
+      change: 'decided',
+      ids: [...result.approved.map(p => p.id), ...result.failed.map(f => f.id)],
+    }, { excludeConnectionId });
+
+    res.json({ success: true, approved: result.approved, failed: result.failed, items: result.items });
+  } catch (error) {
+    handleError(res, error, 'Failed to approve changes');
+  }
+});
+
+/**
+ * POST /api/projects/:projectId/approvals/reject
+ * Body: { ids: string[], note?: string }
+ */
+router.post('/:projectId/approvals/reject', async (req: Request, res: Response) => {
+  try {
+    const projectId = req.params.projectId as string;
+    const note = typeof req.body?.note === 'string' && req.body.note.trim() ? req.body.note.trim() : undefined;
+    const rejected = await approvalQueueService.reject(projectId, req.body?.ids, req.user!.id, note);
+
+    realtimeService.publish(projectId, 'approvals', { change: 'decided', ids: rejected.map(p => p.id) }, {
+      excludeConnectionId: req.get(REALTIME_CONNECTION_HEADER),
+    });
+
+    res.json({ success: true, rejected });
+  } catch (error) {
+    handleError(res, error, 'Failed to reject changes');
+  }
+});
+
+export default router;
@@ -1,9 +1,14 @@
 import { Router, Request, Response } from 'express';
 import { supabase } from '../services/supabase';
 import { SessionCompletionService } from '../services/sessionCompletionService';
+import { requireProjectParam, requireResourceParam } from '../middleware/auth';
 
 const router = Router();
 
+router.param('projectId', requireProjectParam);
+
+router.param('sessionId', requireResourceParam('brainstormSession'));
+
 /**
  * GET /api/brainstorm-sessions/project/:projectId
  * Get all brainstorm sessions for a project
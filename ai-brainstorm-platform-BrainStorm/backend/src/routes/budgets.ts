@@ -0,0 +1,133 @@
+import { Router, Request, Response } from 'express';
+import { budgetService, BudgetScopeType } from '../services/budgetService';
+import { requireProjectParam, requireSelfParam, requireAdmin, isAdmin } from '../middleware/auth';
+
+const router = Router();
+
+router.param('projectId', requireProjectParam);
+
+// Project budgets need project access (owner to change them, see ROLE_RULES).
+// Users may read their own budget; only admins set or remove user budgets,
+// otherwise users could lift their own cap.
+router.param('scopeId', (req, res, next, scopeId) => {
+  if (req.params.scopeType !== 'user') {
+    return requireProjectParam(req, res, next, scopeId);
+  }
+  if (req.method !== 'GET') {
+    return requireAdmin(req, res, next);
+  }
+  return isAdmin(req.user?.id) ? next() : requireSelfParam(req, res, next, scopeId);
+});
+
+const SCOPE_TYPES: BudgetScopeType[] = ['project', 'user'];
+
+function parseLimit(value: any): number | null | undefined {
+  if (value === undefined) return undefined;
+  if (value === null || value === '') return null;
+  const amount = Number(value);
+  return isNaN(amount) || amount < 0 ? undefined : amount;
+}
+
+/**
+ * GET /api/budgets/status/:projectId?userId=...
+ * Combined budget status (spend, limits, level) for a project and optionally a user
+ */
+router.get('/status/:projectId', async (req: Request, res: Response) => {
+  try {
+    const projectId = req.params.projectId as string;
+    const userId = req.query.userId as string | undefined;
+
+    const status = await budgetService.getStatus(projectId, userId);
+
+    res.json({ success: true, status });
+  } catch (error: any) {
+    console.error('[Budgets] Get status error:', error);
+    res.status(500).json({ success: false, error: 'Failed to fetch budget status' });
+  }
+});
+
+/**
+ * GET /api/budgets/:scopeType/:scopeId
+ * Effective budget for a project or user (configured or default)
+ */
+router.get('/:scopeType/:scopeId', async (req: Request, res: Response) => {
+  try {
+    const scopeType = req.params.scopeType as BudgetScopeType;
+    const scopeId = req.params.scopeId as string;
+
+    if (!SCOPE_TYPES.includes(scopeType)) {
+      return res.status(400).json({ success: false, error: 'scopeType must be "project" or "user"' });
+    }
+
+    const budget = await budgetService.getLimit(scopeType, scopeId);
+
+    res.json({ success: true, budget });
+  } catch (error: any) {
+    console.error('[Budgets] Get budget error:', error);
+    res.status(500).json({ success: false, error: 'Failed to fetch budget' });
+  }
+});
+
+/**
+ * PUT /api/budgets/:scopeType/:scopeId
+ * Body: { period: 'daily' | 'monthly', softLimitUSD: number | null, hardLimitUSD: number | null }
+ */
+router.put('/:scopeType/:scopeId', async (req: Request, res: Response) => {
+  try {
+    const scopeType = req.params.scopeType as BudgetScopeType;
+    const scopeId = req.params.scopeId as string;
+    const { period = 'monthly' } = req.body;
+    const softLimitUSD = parseLimit(req.body.softLimitUSD);
+    const hardLimitUSD = parseLimit(req.body.hardLimitUSD);
+
+    if (!SCOPE_TYPES.includes(scopeType)) {
+      return res.status(400).json({ success: false, error: 'scopeType must be "project" or "user"' });
+    }
+
+    if (period !== 'daily' && period !== 'monthly') {
+      return res.status(400).json({ success: false, error: 'period must be "daily" or "monthly"' });
+    }
+
+    if (softLimitUSD === undefined || hardLimitUSD === undefined) {
+      return res.status(400).json({
+        success: false,
+        error: 'softLimitUSD and hardLimitUSD are required (non-negative number or null)',
+      });
+    }
+
+    if (softLimitUSD !== null && hardLimitUSD !== null && softLimitUSD > hardLimitUSD) {
+      return res.status(400).json({ success: false, error: 'softLimitUSD cannot exceed hardLimitUSD' });
+    }
+
+    const budget = await budgetService.setLimit(scopeType, scopeId, { period, softLimitUSD, hardLimitUSD });
+
+    res.json({ success: true, budget });
+  } catch (error: any) {
+    console.error('[Budgets] Set budget error:', error);
+    res.status(500).json({ success: false, error: error.message || 'Failed to save budget' });
+  }
+});
+
+/**
+ * DELETE /api/budgets/:scopeType/:scopeId
+ * Remove a configured budget (defaults apply again)
+ */
+router.delete('/:scopeType/:scopeId', async (req: Request, res: Response) => {
+  try {
+    const scopeType = req.params.scopeType as BudgetScopeType;
+    const scopeId = req.params.scopeId as string;
+
+    if (!SCOPE_TYPES.includes(scopeType)) {
+      return res.status(400).json({ success: false, error: 'scopeType must be "project" or "user"' });
+    }
+
+    await budgetService.deleteLimit(scopeType, scopeId);
+
+    res.json({ success: true });
+  } catch (error: any) {
+    console.error('[Budgets] Delete budget error:', error);
+    res.status(500).json({ success: false, error: error.message || 'Failed to delete budget' });
+  }
+});
+
+export default router;
@@ -1,20 +1,32 @@
 import express, { Request, Response } from 'express';
 import { cacheService } from '../services/cacheService';
+import { responseCache } from '../services/responseCache';
+import { updatesCache } from '../services/updatesCache';
+import { getCacheStore } from '../services/cacheStore';
+import { requireAdmin } from '../middleware/auth';
 
 const router = express.Router();
 
 /**
  * GET /api/cache/stats
  * Get cache statistics
+ * With a shared store the counts cover every backend instance.
  */
 router.get('/stats', async (req: Request, res: Response) => {
   try {
-    const stats = cacheService.getStats();
+    const [stats, responses, updates] = await Promise.all([
+      cacheService.getStats(),
+      responseCache.getStats(),
+      updatesCache.getStats(),
+    ]);
     const enabled = cacheService.isEnabled();
 
     res.json({
       enabled,
+      store: getCacheStore().info,
       stats,
+      responses,
+      updates,
     });
   } catch (error: any) {
     console.error('[Cache API] Error getting stats:', error);
@@ -28,10 +40,12 @@ router.get('/stats', async (req: Request, res: Response) => {
 /**
  * DELETE /api/cache/clear
  * Clear all cache
+ * Admins only, like the other routes that change the cache: they affect every
+ * project and user of the deployment.
  */
-router.delete('/clear', async (req: Request, res: Response) => {
+router.delete('/clear', requireAdmin, async (req: Request, res: Response) => {
   try {
-    cacheService.clear();
+    await cacheService.clear();
     
     res.json({
       message: 'Cache cleared successfully',
@@ -49,7 +63,7 @@ router.delete('/clear', async (req: Request, res: Response) => {
  * DELETE /api/cache/invalidate/:pattern
  * Invalidate cache entries matching a pattern
  */
-router.delete('/invalidate/:pattern', async (req: Request, res: Response) => {
+router.delete('/invalidate/:pattern', requireAdmin, async (req: Request, res: Response) => {
   try {
     const { pattern } = req.params;
     
@@ -59,7 +73,7 @@ router.delete('/invalidate/:pattern', async (req: Request, res: Response) => {
       });
     }
 
-    const deleted = cacheService.deletePattern(pattern);
+    const deleted = await cacheService.deletePattern(pattern as string);
     
     res.json({
       message: `Invalidated ${deleted} cache entries`,
@@ -79,7 +93,7 @@ router.delete('/invalidate/:pattern', async (req: Request, res: Response) => {
  * DELETE /api/cache/key/:key
  * Delete a specific cache key
  */
-router.delete('/key/:key', async (req: Request, res: Response) => {
+router.delete('/key/:key', requireAdmin, async (req: Request, res: Response) => {
   try {
     const { key } = req.params;
     
@@ -89,7 +103,7 @@ router.delete('/key/:key', async (req: Request, res: Response) => {
       });
     }
 
-    const deleted = cacheService.delete(key);
+    const deleted = await cacheService.delete(key as string);
     
     res.json({
       message: deleted > 0 ? 'Cache key deleted' : 'Cache key not found',
@@ -109,7 +123,7 @@ router.delete('/key/:key', async (req: Request, res: Response) => {
  * POST /api/cache/enable
  * Enable cache
  */
-router.post('/enable', async (req: Request, res: Response) => {
+router.post('/enable', requireAdmin, async (req: Request, res: Response) => {
   try {
     cacheService.setEnabled(true);
     
@@ -130,7 +144,7 @@ router.post('/enable', async (req: Request, res: Response) => {
  * POST /api/cache/disable
  * Disable cache
  */
-router.post('/disable', async (req: Request, res: Response) => {
+router.post('/disable', requireAdmin, async (req: Request, res: Response) => {
   try {
     cacheService.setEnabled(false);
     
@@ -1,16 +1,43 @@
 import { Router, Request, Response } from 'express';
 import { supabase } from '../services/supabase';
 import { CanvasAnalysisService } from '../services/canvasAnalysisService';
+import { attributeItemChanges } from '../utils/projectHelpers';
+import { requireProjectParam } from '../middleware/auth';
+import { realtimeService, REALTIME_CONNECTION_HEADER } from '../services/realtimeService';
+import { itemHistoryService } from '../services/itemHistory';
 
 const router = Router();
+
+router.param('projectId', requireProjectParam);
+
 const canvasService = new CanvasAnalysisService(supabase);
 
+// Log the change and let everyone else with the project open see it (the caller gets the project in the response)
+async function publishItemChanges(req: Request, projectId: string, previousItems: any[], nextItems: any[]) {
+  await itemHistoryService.recordChanges(projectId, previousItems, nextItems, {
+    actor: { type: 'user', id: req.user!.id },
+  });
+  realtimeService.publishItemChanges(projectId, previousItems, nextItems, {
+    actorId: req.user!.id,
+    excludeConnectionId: req.get(REALTIME_CONNECTION_HEADER),
+  });
+}
+
+function broadcastClusters(req: Request, projectId: string, project: any) {
+  realtimeService.publish(
+    projectId,
+    'clusters',
+    { clusters: project?.clusters || [], items: project?.items || [], actorId: req.user!.id },
+    { excludeConnectionId: req.get(REALTIME_CONNECTION_HEADER) }
+  );
+}
+
 /**
  * Auto-generate and apply clustering to a project's canvas
  */
 router.post('/:projectId/auto-cluster', async (req: Request, res: Response) => {
   try {
-    const { projectId } = req.params;
+    const projectId = req.params.projectId as string;
     const { threshold = 5 } = req.body || {};
 
     // Fetch project
@@ -52,7 +79,8 @@ router.post('/:projectId/auto-cluster', async (req: Request, res: Response) => {
     }
 
     // Apply clustering to project
-    const updatedProject = await canvasService.applyClustering(projectId, clusters);
+    const updatedProject = await canvasService.applyClustering(projectId, clusters, req.user!.id);
+    broadcastClusters(req, projectId, updatedProject);
 
     res.json({
       success: true,
@@ -76,7 +104,7 @@ router.post('/:projectId/auto-cluster', async (req: Request, res: Response) => {
  */
 router.post('/:projectId/cluster', async (req: Request, res: Response) => {
   try {
-    const { projectId } = req.params;
+    const projectId = req.params.projectId as string;
     const { clusters } = req.body;
 
     if (!clusters || !Array.isArray(clusters)) {
@@ -86,7 +114,8 @@ router.post('/:projectId/cluster', async (req: Request, res: Response) => {
       });
     }
 
-    const updatedProject = await canvasService.applyClustering(projectId, clusters);
+    const updatedProject = await canvasService.applyClustering(projectId, clusters, req.user!.id);
+    broadcastClusters(req, projectId, updatedProject);
 
     res.json({
       success: true,
@@ -103,12 +132,85 @@ router.post('/:projectId/cluster', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * Move cards
+ * Body: { positions: [{ itemId, x, y }] }
+ * Only the listed cards are touched, so two people arranging the same canvas
+ * don't overwrite each other's moves.
+ */
+router.patch('/:projectId/positions', async (req: Request, res: Response) => {
+  try {
+    const projectId = req.params.projectId as string;
+    const { positions } = req.body;
+
+    const valid = Array.isArray(positions) && positions.every((p: any) =>
+      p && typeof p.itemId === 'string' && Number.isFinite(p.x) && Number.isFinite(p.y)
+    );
+    if (!valid) {
+      return res.status(400).json({
+        success: false,
+        error: 'positions must be an array of { itemId, x, y }'
+      });
+    }
+
+    const { data: project, error: fetchError } = await supabase
+      .from('projects')
+      .select('items')
+      .eq('id', projectId)
+      .single();
+
+    if (fetchError || !project) {
+      throw new Error('Project not found');
+    }
+
+    const items = project.items || [];
+    const moves = new Map<string, { x: number; y: number }>(
+      positions.map((p: any) => [p.itemId, { x: p.x, y: p.y }])
+    );
+
+    const updatedItems = items.map((item: any) =>
+      moves.has(item.id) ? { ...item, position: moves.get(item.id) } : item
+    );
+
+    const { error: updateError } = await supabase
+      .from('projects')
+      .update({
+        items: attributeItemChanges(items, updatedItems, req.user!.id),
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', projectId);
+
+    if (updateError) {
+      throw updateError;
+    }
+
+    const knownIds = new Set(items.map((item: any) => item.id));
+    const applied = positions.filter((p: any) => knownIds.has(p.itemId));
+
+    realtimeService.publish(
+      projectId,
+      'positions',
+      { positions: applied, actorId: req.user!.id },
+      { excludeConnectionId: req.get(REALTIME_CONNECTION_HEADER) }
+    );
+
+    res.json({ success: true, updated: applied.length });
+  } catch (error) {
+    console.error('Update positions error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update card positions',
+      details: error instanceof Error ? error.message : String(error)
+    });
+  }
+});
+
 /**
  * Archive cards by IDs
  */
 router.post('/:projectId/archive', async (req: Request, res: Response) => {
   try {
-    const { projectId } = req.params;
+    const projectId = req.params.projectId as string;
     const { cardIds } = req.body;
 
     if (!cardIds || !Array.isArray(cardIds)) {
@@ -147,7 +249,7 @@ router.post('/:projectId/archive', async (req: Request, res: Response) => {
     const { data: updatedProject, error: updateError } = await supabase
       .from('projects')
       .update({
-        items: updatedItems,
+        items: attributeItemChanges(items, updatedItems, req.user!.id),
         updated_at: new Date().toISOString(),
       })
       .eq('id', projectId)
@@ -158,6 +260,8 @@ router.post('/:projectId/archive', async (req: Request, res: Response) => {
       throw updateError;
     }
 
+    await publishItemChanges(req, projectId, items, updatedProject.items || []);
+
     res.json({
       success: true,
       project: updatedProject,
@@ -178,7 +282,7 @@ router.post('/:projectId/archive', async (req: Request, res: Response) => {
  */
 router.post('/:projectId/restore', async (req: Request, res: Response) => {
   try {
-    const { projectId } = req.params;
+    const projectId = req.params.projectId as string;
     const { cardIds } = req.body;
 
     if (!cardIds || !Array.isArray(cardIds)) {
@@ -217,7 +321,7 @@ router.post('/:projectId/restore', async (req: Request, res: Response) => {
     const { data: updatedProject, error: updateError } = await supabase
       .from('projects')
       .update({
-        items: updatedItems,
+        items: attributeItemChanges(items, updatedItems, req.user!.id),
         updated_at: new Date().toISOString(),
       })
       .eq('id', projectId)
@@ -228,6 +332,8 @@ router.post('/:projectId/restore', async (req: Request, res: Response) => {
       throw updateError;
     }
 
+    await publishItemChanges(req, projectId, items, updatedProject.items || []);
+
     res.json({
       success: true,
       project: updatedProject,
@@ -248,7 +354,7 @@ router.post('/:projectId/restore', async (req: Request, res: Response) => {
  */
 router.post('/:projectId/clear-clusters', async (req: Request, res: Response) => {
   try {
-    const { projectId } = req.params;
+    const projectId = req.params.projectId as string;
 
     // Fetch project
     const { data: project, error: fetchError } = await supabase
@@ -273,7 +379,7 @@ router.post('/:projectId/clear-clusters', async (req: Request, res: Response) =>
     const { data: updatedProject, error: updateError } = await supabase
       .from('projects')
       .update({
-        items: cleanedItems,
+        items: attributeItemChanges(items, cleanedItems, req.user!.id),
         clusters: [],
         updated_at: new Date().toISOString(),
       })
@@ -285,6 +391,8 @@ router.post('/:projectId/clear-clusters', async (req: Request, res: Response) =>
       throw updateError;
     }
 
+    broadcastClusters(req, projectId, updatedProject);
+
     res.json({
       success: true,
       project: updatedProject,
@@ -305,7 +413,7 @@ router.post('/:projectId/clear-clusters', async (req: Request, res: Response) =>
  */
 router.post('/:projectId/optimize-layout', async (req: Request, res: Response) => {
   try {
-    const { projectId } = req.params;
+    const projectId = req.params.projectId as string;
     const { layout = 'grid' } = req.body;
 
     // Fetch project
@@ -351,7 +459,7 @@ router.post('/:projectId/optimize-layout', async (req: Request, res: Response) =
     const { data: updatedProject, error: updateError } = await supabase
       .from('projects')
       .update({
-        items: updatedItems,
+        items: attributeItemChanges(items, updatedItems, req.user!.id),
         updated_at: new Date().toISOString(),
       })
       .eq('id', projectId)
@@ -362,6 +470,8 @@ router.post('/:projectId/optimize-layout', async (req: Request, res: Response) =
       throw updateError;
     }
 
+    await publishItemChanges(req, projectId, items, updatedProject.items || []);
+
     res.json({
       success: true,
       project: updatedProject,
@@ -4,26 +4,38 @@ import { AgentCoordinationService } from "../services/agentCoordination";
 import { EmbeddingService } from "../services/embeddingService";
 import { updatesCache } from "../services/updatesCache";
 import { ChatOrchestrator } from "../orchestrators/ChatOrchestrator";
+import { requireProjectParam } from "../middleware/auth";
+import { isAbortError } from "../services/llmProvider";
+import {
+  realtimeService,
+  REALTIME_CONNECTION_HEADER,
+} from "../services/realtimeService";
 
 const router = Router();
+
+router.param("projectId", requireProjectParam);
+
 const coordinationService = new AgentCoordinationService();
 const chatOrchestrator = new ChatOrchestrator();
 const embeddingService = new EmbeddingService(supabase);
 
-// Helper to send SSE events
+// Helper to send SSE events (dropped once the client has gone)
 function sendSSE(res: Response, event: string, data: any) {
+  if (res.destroyed || res.writableEnded) return;
   res.write(`event: ${event}\n`);
   res.write(`data: ${JSON.stringify(data)}\n\n`);
 }
 
 /**
  * Send message with Server-Sent Events streaming (real-time updates)
+ * The conversation reply is streamed as `token` events while it is generated.
+ * Closing the connection cancels the reply, including the upstream model request.
  */
 router.post(
   "/:projectId/message-stream",
   async (req: Request, res: Response) => {
     try {
-      const { projectId } = req.params;
+      const projectId = req.params.projectId as string;
       const { message, userId } = req.body;
 
       if (!message || !userId) {
@@ -39,6 +51,12 @@ router.post(
       res.setHeader("Connection", "keep-alive");
       res.flushHeaders();
 
+      // The client cancels by closing the stream
+      const abortController = new AbortController();
+      res.on("close", () => {
+        if (!res.writableEnded) abortController.abort();
+      });
+
       try {
         // Send start event
         sendSSE(res, "start", { message: "Processing your message..." });
@@ -60,6 +78,12 @@ router.post(
         if (saveError) throw saveError;
 
         sendSSE(res, "user-message-saved", { message: userMessage });
+        realtimeService.publish(
+          projectId,
+          "message",
+          { message: userMessage },
+          { excludeConnectionId: req.get(REALTIME_CONNECTION_HEADER) }
+        );
 
         // Generate embedding for user message asynchronously (don't await)
         embeddingService
@@ -77,7 +101,13 @@ router.post(
         const result = await coordinationService.processUserMessage(
           projectId,
           userId,
-          message
+          message,
+          userMessage.id,
+          {
+            onText: (text) =>
+              sendSSE(res, "token", { agent: "ConversationAgent", text }),
+            signal: abortController.signal,
+          }
         );
         const { responses, updates, workflow } = result;
 
@@ -111,6 +141,12 @@ router.post(
 
           if (!error && agentMsg) {
             agentMessages.push(agentMsg);
+            realtimeService.publish(
+              projectId,
+              "message",
+              { message: agentMsg },
+              { excludeConnectionId: req.get(REALTIME_CONNECTION_HEADER) }
+            );
 
             // Generate embedding for agent message asynchronously
             embeddingService
@@ -138,6 +174,11 @@ router.post(
 
         res.end();
       } catch (error: any) {
+        if (isAbortError(error) || abortController.signal.aborted) {
+          console.log("[Conversations Stream] Client cancelled the reply");
+          res.end();
+          return;
+        }
         console.error("[Conversations Stream] Error:", error);
         sendSSE(res, "error", {
           message: error.message || "Processing failed",
@@ -166,7 +207,7 @@ router.post("/:projectId/message", async (req: Request, res: Response) => {
   console.log("  - full body:", req.body);
 
   try {
-    const { projectId } = req.params;
+    const projectId = req.params.projectId as string;
     const { message, userId } = req.body;
 
     if (!message || !userId) {
@@ -193,6 +234,15 @@ router.post("/:projectId/message", async (req: Request, res: Response) => {
 
     if (saveError) throw saveError;
 
+    // The sender gets its messages in the response; everyone else gets them live
+    const originConnectionId = req.get(REALTIME_CONNECTION_HEADER);
+    realtimeService.publish(
+      projectId,
+      "message",
+      { message: userMessage },
+      { excludeConnectionId: originConnectionId }
+    );
+
     // Process through agent system with timeout
     const timeoutPromise = new Promise(
       (_, reject) =>
@@ -213,7 +263,12 @@ router.post("/:projectId/message", async (req: Request, res: Response) => {
       const startTime = Date.now();
 
       const result = await Promise.race([
-        coordinationService.processUserMessage(projectId, userId, message),
+        coordinationService.processUserMessage(
+          projectId,
+          userId,
+          message,
+          userMessage.id
+        ),
         timeoutPromise,
       ]);
 
@@ -321,6 +376,9 @@ router.post("/:projectId/message", async (req: Request, res: Response) => {
             );
           } else {
             console.log("[Conversations] ✅ Fallback message saved");
+            realtimeService.publish(projectId, "message", {
+              message: simpleMsg,
+            });
           }
         } else {
           // Save all agent messages in parallel
@@ -340,6 +398,12 @@ router.post("/:projectId/message", async (req: Request, res: Response) => {
               console.log(
                 `[Conversations] ✅ Saved message from ${agentMessage.agent_type}`
               );
+              realtimeService.publish(
+                projectId,
+                "message",
+                { message: agentMsg },
+                { excludeConnectionId: originConnectionId }
+              );
 
               // Generate embedding for agent message asynchronously
               embeddingService
@@ -537,7 +601,7 @@ router.get(
       );
 
       // Check if updates are available
-      const updates = updatesCache.get(projectId);
+      const updates = await updatesCache.get(projectId as string);
 
       if (!updates) {
         console.log(
@@ -604,16 +668,24 @@ router.get(
 
     let intervalId: NodeJS.Timeout | null = null;
     let isClientConnected = true;
+    let isChecking = false;
 
-    // Check for updates every 500ms
-    intervalId = setInterval(() => {
+    // Check for updates every 500ms (updates may come from any instance, via the shared cache)
+    intervalId = setInterval(async () => {
       if (!isClientConnected) {
         if (intervalId) clearInterval(intervalId);
         return;
       }
+      if (isChecking) return;
+      isChecking = true;
 
       try {
-        const updates = updatesCache.get(projectId);
+        const updates = await updatesCache.get(projectId as string);
+        if (!isClientConnected) {
+          // Taking them removed them for every instance, so leave them for the next reader
+          if (updates) await updatesCache.putBack(projectId as string, updates);
+          return;
+        }
 
         if (updates) {
           // Send item_added events
@@ -639,9 +711,6 @@ router.get(
             res.write(`event: workflow_complete\n`);
             res.write(`data: ${JSON.stringify(updates.workflow)}\n\n`);
           }
-
-          // Clear updates after sending
-          updatesCache.clear(projectId);
         }
 
         // Send heartbeat every 10 checks (~5 seconds) to keep connection alive
@@ -655,6 +724,8 @@ router.get(
         );
         isClientConnected = false;
         if (intervalId) clearInterval(intervalId);
+      } finally {
+        isChecking = false;
       }
     }, 500);
 
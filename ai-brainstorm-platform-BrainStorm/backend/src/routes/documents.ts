@@ -4,8 +4,14 @@ import { FileUploadService, upload } from '../services/fileUpload';
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import * as os from 'os';
+import { requireProjectParam, requireResourceParam, enforceRequestScope } from '../middleware/auth';
 
 const router = Router();
+
+router.param('projectId', requireProjectParam);
+router.param('documentId', requireResourceParam('document'));
+router.param('folderId', requireResourceParam('documentFolder'));
+
 const fileUploadService = new FileUploadService();
 
 /**
@@ -50,6 +56,7 @@ router.post('/folders', async (req: Request, res: Response) => {
 router.post(
   '/upload',
   upload.single('file'),
+  enforceRequestScope,
   async (req: Request, res: Response) => {
     try {
       const file = req.file;
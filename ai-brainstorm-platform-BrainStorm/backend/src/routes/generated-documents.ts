@@ -2,9 +2,15 @@ import { Router } from 'express';
 import { GeneratedDocumentsService } from '../services/generatedDocumentsService';
 import { getSupabaseClient } from '../config/supabase';
 import { DocumentOrchestrator } from '../orchestrators/DocumentOrchestrator';
+import { claimVerificationService, getVerification } from '../services/claimVerification';
 import '../types'; // Import type extensions
+import { requireProjectParam, requireResourceParam } from '../middleware/auth';
 
 const router = Router();
+
+router.param('projectId', requireProjectParam);
+router.param('documentId', requireResourceParam('generatedDocument'));
+
 const documentOrchestrator = new DocumentOrchestrator();
 
 /**
@@ -435,6 +441,61 @@ router.get('/:documentId/quality-score', async (req, res) => {
   }
 });
 
+/**
+ * GET /api/generated-documents/:documentId/verification
+ * Get the claim-level verification of a document and whether it is stale
+ */
+router.get('/:documentId/verification', async (req, res) => {
+  try {
+    const { documentId } = req.params;
+    const supabase = getSupabaseClient(req.user?.access_token);
+    const service = new GeneratedDocumentsService(supabase);
+
+    const document = await service.getById(documentId);
+    if (!document) {
+      return res.status(404).json({
+        success: false,
+        message: 'Document not found',
+      });
+    }
+
+    res.json({
+      success: true,
+      ...getVerification(document),
+    });
+  } catch (error: any) {
+    console.error('Get verification error:', error);
+    res.status(500).json({
+      success: false,
+      message: error.message || 'Failed to get document verification',
+    });
+  }
+});
+
+/**
+ * POST /api/generated-documents/:documentId/verify
+ * Check each claim of a document against decided items, messages and references
+ */
+router.post('/:documentId/verify', async (req, res) => {
+  try {
+    const { documentId } = req.params;
+
+    const verification = await claimVerificationService.verifyDocument(documentId);
+
+    res.json({
+      success: true,
+      verification,
+      stale: false,
+    });
+  } catch (error: any) {
+    console.error('Verify document error:', error);
+    res.status(500).json({
+      success: false,
+      message: error.message || 'Failed to verify document',
+    });
+  }
+});
+
 // ============================================
 // RE-EXAMINATION SYSTEM ENDPOINTS (Phase 3.1)
 // ============================================
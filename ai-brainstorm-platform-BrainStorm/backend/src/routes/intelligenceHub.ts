@@ -2,8 +2,12 @@ import { Router, Request, Response } from 'express';
 import { supabase } from '../services/supabase';
 import { IntelligenceSearchAgent } from '../agents/intelligenceSearchAgent';
 import { ConversationalIntelligenceService } from '../services/conversationalIntelligenceService';
+import { requireProjectParam } from '../middleware/auth';
 
 const router = Router();
+
+router.param('projectId', requireProjectParam);
+
 const searchAgent = new IntelligenceSearchAgent(supabase);
 const conversationalService = new ConversationalIntelligenceService(supabase);
 
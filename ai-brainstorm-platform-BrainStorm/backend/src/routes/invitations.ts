@@ -0,0 +1,81 @@
+import { Router, Request, Response } from 'express';
+import { supabase } from '../services/supabase';
+import { projectMemberService, MembershipError } from '../services/projectMembers';
+
+/**
+ * Invitation acceptance routes (mounted under /api/invitations)
+ * Holding the token is what grants access here, so there is no project check.
+ */
+const router = Router();
+
+function handleError(res: Response, error: any, fallback: string) {
+  if (error instanceof MembershipError) {
+    return res.status(error.status).json({ success: false, error: error.message });
+  }
+  console.error(`[Invitations] ${fallback}:`, error);
+  res.status(500).json({ success: false, error: fallback });
+}
+
+/**
+ * GET /api/invitations/pending
+ * Invitations sent to the signed-in user's email
+ */
+router.get('/pending', async (req: Request, res: Response) => {
+  try {
+    if (!req.user?.email) {
+      return res.json({ success: true, invitations: [] });
+    }
+
+    const invitations = await projectMemberService.listInvitationsForEmail(req.user.email);
+
+    res.json({ success: true, invitations });
+  } catch (error) {
+    handleError(res, error, 'Failed to fetch invitations');
+  }
+});
+
+/**
+ * GET /api/invitations/:token
+ * Preview an invitation before accepting it
+ */
+router.get('/:token', async (req: Request, res: Response) => {
+  try {
+    const invitation = await projectMemberService.getInvitation(req.params.token as string);
+
+    const { data: project } = await supabase
+      .from('projects')
+      .select('id, title, description')
+      .eq('id', invitation.project_id)
+      .single();
+
+    res.json({
+      success: true,
+      invitation: {
+        projectId: invitation.project_id,
+        projectTitle: project?.title,
+        projectDescription: project?.description,
+        role: invitation.role,
+        email: invitation.email,
+        expiresAt: invitation.expires_at,
+      },
+    });
+  } catch (error) {
+    handleError(res, error, 'Failed to fetch invitation');
+  }
+});
+
+/**
+ * POST /api/invitations/:token/accept
+ * Join the project as the signed-in user
+ */
+router.post('/:token/accept', async (req: Request, res: Response) => {
+  try {
+    const member = await projectMemberService.acceptInvitation(req.params.token as string, req.user!);
+
+    res.json({ success: true, member, projectId: member.project_id });
+  } catch (error) {
+    handleError(res, error, 'Failed to accept invitation');
+  }
+});
+
+export default router;
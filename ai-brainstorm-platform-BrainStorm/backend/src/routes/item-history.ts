@@ -0,0 +1,86 @@
+import { Router, Request, Response } from 'express';
+import { itemHistoryService, ItemHistoryError } from '../services/itemHistory';
+import { realtimeService, REALTIME_CONNECTION_HEADER } from '../services/realtimeService';
+import { requireProjectParam } from '../middleware/auth';
+
+/**
+ * Item history routes (mounted under /api/projects)
+ * Audit log of item changes, undo of a single change, and the board at a past moment.
+ */
+const router = Router();
+
+router.param('projectId', requireProjectParam);
+
+function handleError(res: Response, error: any, fallback: string) {
+  if (error instanceof ItemHistoryError) {
+    return res.status(error.status).json({ success: false, error: error.message });
+  }
+  console.error(`[ItemHistory] ${fallback}:`, error);
+  res.status(500).json({ success: false, error: fallback });
+}
+
+/**
+ * GET /api/projects/:projectId/items/history?itemId=&before=&limit=100
+ * Item events, newest first; `before` pages back through older events
+ */
+router.get('/:projectId/items/history', async (req: Request, res: Response) => {
+  try {
+    const projectId = req.params.projectId as string;
+    const events = await itemHistoryService.listEvents(projectId, {
+      itemId: (req.query.itemId as string) || undefined,
+      before: (req.query.before as string) || undefined,
+      limit: Math.min(parseInt(req.query.limit as string, 10) || 100, 500),
+    });
+
+    res.json({ success: true, events });
+  } catch (error) {
+    handleError(res, error, 'Failed to fetch item history');
+  }
+});
+
+/**
+ * GET /api/projects/:projectId/items/board?at=ISO
+ * Items (and per-state counts) as they stood at `at`
+ */
+router.get('/:projectId/items/board', async (req: Request, res: Response) => {
+  try {
+    const projectId = req.params.projectId as string;
+    const at = req.query.at;
+
+    if (typeof at !== 'string' || !at) {
+      return res.status(400).json({ success: false, error: 'at is required' });
+    }
+
+    const board = await itemHistoryService.getBoardAt(projectId, at);
+
+    res.json({ success: true, board });
+  } catch (error) {
+    handleError(res, error, 'Failed to rebuild the board');
+  }
+});
+
+/**
+ * POST /api/projects/:projectId/items/history/:eventId/undo
+ * Body: { force?: boolean } - overwrite changes made to the item since
+ */
+router.post('/:projectId/items/history/:eventId/undo', async (req: Request, res: Response) => {
+  try {
+    const projectId = req.params.projectId as string;
+    const eventId = req.params.eventId as string;
+
+    const result = await itemHistoryService.undoEvent(projectId, eventId, req.user!.id, {
+      force: req.body?.force === true,
+    });
+
+    realtimeService.publishItemChanges(projectId, result.previousItems, result.items, {
+      actorId: req.user!.id,
+      excludeConnectionId: req.get(REALTIME_CONNECTION_HEADER),
+    });
+
+    res.json({ success: true, items: result.items, events: result.events });
+  } catch (error) {
+    handleError(res, error, 'Failed to undo the change');
+  }
+});
+
+export default router;
@@ -0,0 +1,49 @@
+import { Router, Request, Response } from 'express';
+import { pageArchiveService, PageArchiveError } from '../services/pageArchive';
+import { requireResourceParam } from '../middleware/auth';
+
+/**
+ * Page archive routes
+ * Copies of the web pages research cited, as they were when fetched.
+ */
+const router = Router();
+
+router.param('archiveId', requireResourceParam('pageArchive'));
+router.param('queryId', requireResourceParam('researchQuery'));
+
+function handleError(res: Response, error: any, fallback: string) {
+  if (error instanceof PageArchiveError) {
+    return res.status(error.status).json({ success: false, error: error.message });
+  }
+  console.error(`[PageArchive] ${fallback}:`, error);
+  res.status(500).json({ success: false, error: fallback });
+}
+
+/**
+ * GET /api/page-archives/research/:queryId
+ * Archived pages of a research query (links only)
+ */
+router.get('/research/:queryId', async (req: Request, res: Response) => {
+  try {
+    const archives = await pageArchiveService.listForResearchQuery(req.params.queryId as string);
+    res.json({ success: true, archives });
+  } catch (error) {
+    handleError(res, error, 'Failed to fetch page archives');
+  }
+});
+
+/**
+ * GET /api/page-archives/:archiveId
+ * The archived page (HTML, text, hash, fetch time) and a short-lived screenshot link
+ */
+router.get('/:archiveId', async (req: Request, res: Response) => {
+  try {
+    const archive = await pageArchiveService.getArchive(req.params.archiveId as string);
+    const screenshotUrl = await pageArchiveService.getScreenshotUrl(archive);
+    res.json({ success: true, archive, screenshotUrl });
+  } catch (error) {
+    handleError(res, error, 'Failed to fetch page archive');
+  }
+});
+
+export default router;
@@ -0,0 +1,140 @@
+import { Router, Request, Response } from 'express';
+import { projectMemberService, MembershipError, INVITABLE_ROLES, InvitableRole } from '../services/projectMembers';
+import { requireProjectParam } from '../middleware/auth';
+
+/**
+ * Project collaboration routes (mounted under /api/projects)
+ * Owner-only actions are enforced by ROLE_RULES in middleware/auth.ts.
+ */
+const router = Router();
+
+router.param('projectId', requireProjectParam);
+
+function inviteUrl(token: string): string {
+  const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:5173';
+  return `${frontendUrl}/invite/${token}`;
+}
+
+function handleError(res: Response, error: any, fallback: string) {
+  if (error instanceof MembershipError) {
+    return res.status(error.status).json({ success: false, error: error.message });
+  }
+  console.error(`[ProjectMembers] ${fallback}:`, error);
+  res.status(500).json({ success: false, error: fallback });
+}
+
+/**
+ * GET /api/projects/:projectId/members
+ * Members with their roles, plus the caller's own role
+ */
+router.get('/:projectId/members', async (req: Request, res: Response) => {
+  try {
+    const projectId = req.params.projectId as string;
+    const members = await projectMemberService.listMembers(projectId);
+
+    res.json({ success: true, members, role: req.projectRole });
+  } catch (error) {
+    handleError(res, error, 'Failed to fetch members');
+  }
+});
+
+/**
+ * PATCH /api/projects/:projectId/members/:memberId
+ * Body: { role: 'editor' | 'commenter' | 'viewer' }
+ */
+router.patch('/:projectId/members/:memberId', async (req: Request, res: Response) => {
+  try {
+    const projectId = req.params.projectId as string;
+    const memberId = req.params.memberId as string;
+    const { role } = req.body;
+
+    if (!INVITABLE_ROLES.includes(role)) {
+      return res.status(400).json({ success: false, error: `role must be one of: ${INVITABLE_ROLES.join(', ')}` });
+    }
+
+    const member = await projectMemberService.updateRole(projectId, memberId, role as InvitableRole);
+
+    res.json({ success: true, member });
+  } catch (error) {
+    handleError(res, error, 'Failed to update member');
+  }
+});
+
+/**
+ * DELETE /api/projects/:projectId/members/:memberId
+ * Owners can remove anyone; other members can only remove themselves
+ */
+router.delete('/:projectId/members/:memberId', async (req: Request, res: Response) => {
+  try {
+    const projectId = req.params.projectId as string;
+    const memberId = req.params.memberId as string;
+
+    if (req.projectRole !== 'owner' && memberId !== req.user!.id) {
+      return res.status(403).json({ success: false, error: 'Only the owner can remove other members' });
+    }
+
+    await projectMemberService.removeMember(projectId, memberId);
+
+    res.json({ success: true });
+  } catch (error) {
+    handleError(res, error, 'Failed to remove member');
+  }
+});
+
+/**
+ * GET /api/projects/:projectId/invitations
+ * Pending invitations and share links
+ */
+router.get('/:projectId/invitations', async (req: Request, res: Response) => {
+  try {
+    const projectId = req.params.projectId as string;
+    const invitations = await projectMemberService.listInvitations(projectId);
+
+    res.json({
+      success: true,
+      invitations: invitations.map(inv => ({ ...inv, url: inviteUrl(inv.token) })),
+    });
+  } catch (error) {
+    handleError(res, error, 'Failed to fetch invitations');
+  }
+});
+
+/**
+ * POST /api/projects/:projectId/invitations
+ * Body: { role, email?, expiresInDays? } - omit email for a shareable link
+ */
+router.post('/:projectId/invitations', async (req: Request, res: Response) => {
+  try {
+    const projectId = req.params.projectId as string;
+    const { role, email, expiresInDays } = req.body;
+
+    const invitation = await projectMemberService.createInvitation(projectId, req.user!.id, {
+      role,
+      email,
+      expiresInDays: expiresInDays !== undefined ? Number(expiresInDays) : undefined,
+    });
+
+    res.json({ success: true, invitation: { ...invitation, url: inviteUrl(invitation.token) } });
+  } catch (error) {
+    handleError(res, error, 'Failed to create invitation');
+  }
+});
+
+/**
+ * DELETE /api/projects/:projectId/invitations/:invitationId
+ * Revoke an invitation or share link
+ */
+router.delete('/:projectId/invitations/:invitationId', async (req: Request, res: Response) => {
+  try {
+    const projectId = req.params.projectId as string;
+    const invitationId = req.params.invitationId as string;
+
+    await projectMemberService.revokeInvitation(projectId, invitationId);
+
+    res.json({ success: true });
+  } catch (error) {
+    handleError(res, error, 'Failed to revoke invitation');
+  }
+});
+
+export default router;
@@ -0,0 +1,107 @@
+import { Router, Request, Response } from 'express';
+import { projectMemoryService, ProjectMemoryError } from '../services/projectMemory';
+import { requireProjectParam } from '../middleware/auth';
+
+/**
+ * Project memory routes (mounted under /api/projects)
+ * The rolling conversation summary and remembered facts agents are given.
+ */
+const router = Router();
+
+router.param('projectId', requireProjectParam);
+
+function handleError(res: Response, error: any, fallback: string) {
+  if (error instanceof ProjectMemoryError) {
+    return res.status(error.status).json({ success: false, error: error.message });
+  }
+  console.error(`[ProjectMemory] ${fallback}:`, error);
+  res.status(500).json({ success: false, error: fallback });
+}
+
+/**
+ * GET /api/projects/:projectId/memory
+ */
+router.get('/:projectId/memory', async (req: Request, res: Response) => {
+  try {
+    const memory = await projectMemoryService.getMemory(req.params.projectId as string);
+    res.json({ success: true, memory });
+  } catch (error) {
+    handleError(res, error, 'Failed to fetch project memory');
+  }
+});
+
+/**
+ * PUT /api/projects/:projectId/memory/summary
+ * Body: { summary }
+ */
+router.put('/:projectId/memory/summary', async (req: Request, res: Response) => {
+  try {
+    const memory = await projectMemoryService.updateSummary(
+      req.params.projectId as string,
+      req.body?.summary,
+      req.user!.id
+    );
+    res.json({ success: true, memory });
+  } catch (error) {
+    handleError(res, error, 'Failed to save memory summary');
+  }
+});
+
+/**
+ * POST /api/projects/:projectId/memory/refresh
+ * Fold all messages not yet in memory now instead of waiting for a full batch
+ */
+router.post('/:projectId/memory/refresh', async (req: Request, res: Response) => {
+  try {
+    const projectId = req.params.projectId as string;
+    const updated = await projectMemoryService.updateFromConversation(projectId, { force: true });
+    const memory = updated || await projectMemoryService.getMemory(projectId);
+    res.json({ success: true, memory, updated: Boolean(updated) });
+  } catch (error) {
+    handleError(res, error, 'Failed to refresh project memory');
+  }
+});
+
+/**
+ * POST /api/projects/:projectId/memory/facts
+ * Body: { category, content, reason? }
+ */
+router.post('/:projectId/memory/facts', async (req: Request, res: Response) => {
+  try {
+    const fact = await projectMemoryService.addFact(req.params.projectId as string, req.body, req.user!.id);
+    res.status(201).json({ success: true, fact });
+  } catch (error) {
+    handleError(res, error, 'Failed to add memory fact');
+  }
+});
+
+/**
+ * PUT /api/projects/:projectId/memory/facts/:factId
+ * Body: { category, content, reason? }
+ */
+router.put('/:projectId/memory/facts/:factId', async (req: Request, res: Response) => {
+  try {
+    const fact = await projectMemoryService.updateFact(
+      req.params.projectId as string,
+      req.params.factId as string,
+      req.body
+    );
+    res.json({ success: true, fact });
+  } catch (error) {
+    handleError(res, error, 'Failed to update memory fact');
+  }
+});
+
+/**
+ * DELETE /api/projects/:projectId/memory/facts/:factId
+ */
+router.delete('/:projectId/memory/facts/:factId', async (req: Request, res: Response) => {
+  try {
+    await projectMemoryService.deleteFact(req.params.projectId as string, req.params.factId as string);
+    res.json({ success: true });
+  } catch (error) {
+    handleError(res, error, 'Failed to delete memory fact');
+  }
+});
+
+export default router;
@@ -1,8 +1,17 @@
 import { Router, Request, Response } from 'express';
 import { supabase } from '../services/supabase';
 import { SuggestionAgent } from '../agents/suggestionAgent';
+import { projectMemberService } from '../services/projectMembers';
+import { getRawProjectItems, attributeItemChanges } from '../utils/projectHelpers';
+import { requireProjectParam, requireSelfParam } from '../middleware/auth';
+import { realtimeService, REALTIME_CONNECTION_HEADER } from '../services/realtimeService';
+import { itemHistoryService } from '../services/itemHistory';
 
 const router = Router();
+
+router.param('projectId', requireProjectParam);
+router.param('userId', requireSelfParam);
+
 const suggestionAgent = new SuggestionAgent(supabase);
 
 /**
@@ -46,6 +55,14 @@ router.post('/', async (req: Request, res: Response) => {
       throw error;
     }
 
+    // Owner membership row so member lists and RLS policies see the owner too
+    const { error: memberError } = await supabase
+      .from('project_members')
+      .insert({ project_id: data.id, user_id: userId, role: 'owner' });
+    if (memberError) {
+      console.error('⚠️ Failed to record owner membership:', memberError.message);
+    }
+
     console.log('✅ Project created successfully:', data.id);
     res.json({ success: true, project: data });
   } catch (error) {
@@ -55,32 +72,18 @@ router.post('/', async (req: Request, res: Response) => {
 });
 
 /**
- * Get all projects for user
+ * Get all projects for user (owned and shared), each with the user's role
  */
 router.get('/user/:userId', async (req: Request, res: Response) => {
   try {
-    const { userId } = req.params;
+    const userId = req.params.userId as string;
 
     console.log('📋 Get projects request for userId:', userId);
 
-    const { data, error } = await supabase
-      .from('projects')
-      .select('*')
-      .eq('user_id', userId)
-      .order('updated_at', { ascending: false });
-
-    if (error) {
-      console.error('❌ Supabase error fetching projects:', {
-        message: error.message,
-        code: error.code,
-        details: error.details,
-        hint: error.hint
-      });
-      throw error;
-    }
+    const projects = await projectMemberService.getProjectsForUser(userId);
 
-    console.log(`✅ Found ${data?.length || 0} projects for user`);
-    res.json({ success: true, projects: data });
+    console.log(`✅ Found ${projects.length} projects for user`);
+    res.json({ success: true, projects });
   } catch (error) {
     console.error('Get projects error:', error);
     res.status(500).json({ success: false, error: 'Failed to fetch projects' });
@@ -109,13 +112,28 @@ router.get('/:projectId', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * Fields the generic project update may change. Items, clusters and the
+ * owner-only settings (approval, source trust policy) have their own routes.
+ */
+const UPDATABLE_PROJECT_FIELDS = ['title', 'description', 'status'];
+
 /**
  * Update project
  */
 router.patch('/:projectId', async (req: Request, res: Response) => {
   try {
-    const { projectId } = req.params;
-    const updates = req.body;
+    const projectId = req.params.projectId as string;
+    const updates = Object.fromEntries(
+      Object.entries(req.body || {}).filter(([field]) => UPDATABLE_PROJECT_FIELDS.includes(field))
+    );
+
+    if (Object.keys(updates).length === 0) {
+      return res.status(400).json({
+        success: false,
+        error: `Nothing to update (allowed fields: ${UPDATABLE_PROJECT_FIELDS.join(', ')})`,
+      });
+    }
 
     const { data, error } = await supabase
       .from('projects')
@@ -162,13 +180,21 @@ router.delete('/:projectId', async (req: Request, res: Response) => {
  */
 router.patch('/:projectId/items', async (req: Request, res: Response) => {
   try {
-    const { projectId } = req.params;
+    const projectId = req.params.projectId as string;
     const { items } = req.body;
 
+    if (!Array.isArray(items)) {
+      return res.status(400).json({ success: false, error: 'items must be an array' });
+    }
+
+    // Record which member made each change
+    const previousItems = await getRawProjectItems(projectId);
+    const attributedItems = attributeItemChanges(previousItems, items, req.user!.id);
+
     const { data, error } = await supabase
       .from('projects')
       .update({
-        items: items,
+        items: attributedItems,
         updated_at: new Date().toISOString()
       })
       .eq('id', projectId)
@@ -177,6 +203,14 @@ router.patch('/:projectId/items', async (req: Request, res: Response) => {
 
     if (error) throw error;
 
+    await itemHistoryService.recordChanges(projectId, previousItems, data.items || [], {
+      actor: { type: 'user', id: req.user!.id },
+    });
+    realtimeService.publishItemChanges(projectId, previousItems, data.items || [], {
+      actorId: req.user!.id,
+      excludeConnectionId: req.get(REALTIME_CONNECTION_HEADER),
+    });
+
     res.json({ success: true, project: data });
   } catch (error) {
     console.error('Update items error:', error);
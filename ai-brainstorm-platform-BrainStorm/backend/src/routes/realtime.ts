@@ -0,0 +1,65 @@
+import { Router, Request, Response } from 'express';
+import { realtimeService, isPresenceView, PRESENCE_VIEWS } from '../services/realtimeService';
+import { requireProjectParam } from '../middleware/auth';
+
+/**
+ * Realtime project channel (mounted under /api/realtime)
+ * EventSource can't send headers, so the stream authenticates with ?access_token=.
+ */
+const router = Router();
+
+router.param('projectId', requireProjectParam);
+
+/**
+ * GET /api/realtime/:projectId/stream?view=chat
+ * Long-lived SSE stream of project events and presence
+ */
+router.get('/:projectId/stream', (req: Request, res: Response) => {
+  const projectId = req.params.projectId as string;
+  const view = isPresenceView(req.query.view) ? req.query.view : 'chat';
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no', // Disable nginx buffering
+  });
+
+  const connectionId = realtimeService.connect(projectId, req.user!, res, view);
+
+  req.on('close', () => {
+    realtimeService.disconnect(connectionId);
+  });
+});
+
+/**
+ * GET /api/realtime/:projectId/presence
+ * Who currently has the project open
+ */
+router.get('/:projectId/presence', (req: Request, res: Response) => {
+  res.json({ success: true, presence: realtimeService.getPresence(req.params.projectId as string) });
+});
+
+/**
+ * PUT /api/realtime/:projectId/presence
+ * Body: { connectionId, view }
+ */
+router.put('/:projectId/presence', (req: Request, res: Response) => {
+  const projectId = req.params.projectId as string;
+  const { connectionId, view } = req.body;
+
+  if (!connectionId || !isPresenceView(view)) {
+    return res.status(400).json({
+      success: false,
+      error: `connectionId and view (${PRESENCE_VIEWS.join(', ')}) are required`,
+    });
+  }
+
+  if (!realtimeService.setView(projectId, connectionId, req.user!.id, view)) {
+    return res.status(404).json({ success: false, error: 'Realtime connection not found' });
+  }
+
+  res.json({ success: true });
+});
+
+export default router;
@@ -4,21 +4,104 @@ import { FileUploadService, upload } from '../services/fileUpload';
 import { ReferenceAnalysisAgent } from '../agents/referenceAnalysis';
 import { AdvancedSynthesisAgent } from '../agents/advancedSynthesisAgent';
 import { EmbeddingService } from '../services/embeddingService';
+import { mediaAnalysisService, MediaExtraction, formatTranscript } from '../services/mediaAnalysis';
+import { chunkText, describeChunkLocation } from '../services/textChunker';
+import { hybridSearchService, parseEmbedding } from '../services/hybridSearch';
+import { projectMemberService } from '../services/projectMembers';
+import { analysisTemplateService, AnalysisTemplateError } from '../services/analysisTemplates';
 import { isReferenceAnalysisResponse } from '../types';
+import { requireProjectParam, requireResourceParam, enforceRequestScope } from '../middleware/auth';
 
 const router = Router();
+
+router.param('projectId', requireProjectParam);
+router.param('referenceId', requireResourceParam('reference'));
+
 const fileUploadService = new FileUploadService();
 const referenceAnalysisAgent = new ReferenceAnalysisAgent();
 const synthesisAgent = new AdvancedSynthesisAgent();
 const embeddingService = new EmbeddingService(supabase);
 
+const CHUNK_COLUMNS = 'reference_id, chunk_index, content, char_start, char_end, page_start, page_end, section, start_seconds, end_seconds, embedding';
+// Passages of the source reference compared in find-similar (bounds the pairwise work)
+const MAX_SOURCE_CHUNKS = 16;
+const PASSAGES_PER_RESULT = 3;
+
+/**
+ * A matched reference_chunks row as returned to clients
+ */
+function toPassage(chunk: any, similarity: number) {
+  return {
+    chunkIndex: chunk.chunk_index,
+    content: chunk.content,
+    similarity,
+    charStart: chunk.char_start,
+    charEnd: chunk.char_end,
+    pageStart: chunk.page_start,
+    pageEnd: chunk.page_end,
+    section: chunk.section,
+    startSeconds: chunk.start_seconds,
+    endSeconds: chunk.end_seconds,
+    location: describeChunkLocation({
+      pageStart: chunk.page_start ?? null,
+      pageEnd: chunk.page_end ?? null,
+      section: chunk.section ?? null,
+    }),
+  };
+}
+
+type Passage = ReturnType<typeof toPassage>;
+
+/**
+ * Score references by their best match: the whole-reference embedding or any passage
+ * Each entry keeps its best passages, most similar first. Vectors from another
+ * embedding model (different dimensions) are skipped.
+ */
+function scoreReferences(
+  queryEmbeddings: number[][],
+  referenceEmbeddings: Array<{ reference_id: string; embedding: unknown }>,
+  chunks: any[]
+): Map<string, { similarity: number; passages: Passage[] }> {
+  const best = (value: unknown) => {
+    const embedding = parseEmbedding(value);
+    const comparable = queryEmbeddings.filter(query => embedding && query.length === embedding.length);
+    return comparable.length > 0
+      ? Math.max(...comparable.map(query => embeddingService.cosineSimilarity(query, embedding!)))
+      : null;
+  };
+
+  const scored = new Map<string, { similarity: number; passages: Passage[] }>();
+  for (const e of referenceEmbeddings) {
+    const similarity = best(e.embedding);
+    if (similarity !== null) {
+      scored.set(e.reference_id, { similarity, passages: [] });
+    }
+  }
+  for (const chunk of chunks) {
+    const similarity = best(chunk.embedding);
+    if (similarity === null) continue;
+    const current = scored.get(chunk.reference_id) || { similarity, passages: [] };
+    current.similarity = Math.max(current.similarity, similarity);
+    current.passages.push(toPassage(chunk, similarity));
+    scored.set(chunk.reference_id, current);
+  }
+  for (const score of scored.values()) {
+    score.passages = score.passages
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, PASSAGES_PER_RESULT);
+  }
+  return scored;
+}
+
 /**
  * Upload and analyze reference file
  */
 router.post(
   '/upload',
   upload.single('file'),
+  enforceRequestScope,
   async (req: Request, res: Response) => {
+    let mediaPath: string | undefined;
     try {
       const file = req.file;
       const { projectId, userId, description } = req.body;
@@ -48,6 +131,11 @@ router.post(
       const { content, contentType, mediaType } = await fileUploadService.extractContent(file);
       console.log(`[ReferenceUpload] Extracted content: ${contentType}, length: ${content.length}${mediaType ? `, mediaType: ${mediaType}` : ''}`);
 
+      // Media is transcribed after the upload removes the temp file, so keep a copy
+      if (contentType === 'video' || contentType === 'audio') {
+        mediaPath = await mediaAnalysisService.stage(file);
+      }
+
       // Upload to storage
       const { url, path: storagePath } = await fileUploadService.uploadToStorage(
         file,
@@ -74,7 +162,7 @@ router.post(
               storagePath: storagePath,
               fileSize: file.size,
               type: fileCategory,
-              extractedContent: content,
+              extractedContent: mediaPath ? undefined : content,
               contentType: contentType,
               mediaType: mediaType,
             },
@@ -87,8 +175,9 @@ router.post(
 
       console.log(`[ReferenceUpload] Created reference ${reference.id}, starting analysis...`);
 
-      // Start analysis in background
-      analyzeFileInBackground(reference.id, url, fileCategory, content, contentType, mediaType);
+      // Start analysis in background (it owns the staged media from here)
+      analyzeFileInBackground(reference.id, url, fileCategory, mediaPath || content, contentType, mediaType);
+      mediaPath = undefined;
 
       res.json({
         success: true,
@@ -96,6 +185,9 @@ router.post(
         message: 'File uploaded successfully. Analysis in progress...',
       });
     } catch (error: any) {
+      if (mediaPath) {
+        await mediaAnalysisService.discard(mediaPath);
+      }
       console.error('Upload error:', error);
       const errorMessage = error.message || error.toString();
       console.error('Error details:', errorMessage);
@@ -113,6 +205,7 @@ router.post(
 router.post(
   '/upload-batch',
   upload.array('files', 20),
+  enforceRequestScope,
   async (req: Request, res: Response) => {
     try {
       const files = req.files as Express.Multer.File[];
@@ -133,6 +226,7 @@ router.post(
 
       const results = await Promise.allSettled(
         files.map(async (file) => {
+          let mediaPath: string | undefined;
           try {
             if (!fileUploadService.isValidFileType(file.mimetype)) {
               throw new Error(`Invalid file type: ${file.mimetype}`);
@@ -143,6 +237,10 @@ router.post(
             const { content, contentType, mediaType } = await fileUploadService.extractContent(file);
             console.log(`[BatchUpload] Extracted ${contentType} content, length: ${content.length}${mediaType ? `, mediaType: ${mediaType}` : ''}`);
 
+            if (contentType === 'video' || contentType === 'audio') {
+              mediaPath = await mediaAnalysisService.stage(file);
+            }
+
             const { url, path: storagePath } = await fileUploadService.uploadToStorage(
               file,
               userId,
@@ -166,7 +264,7 @@ router.post(
                     storagePath: storagePath,
                     fileSize: file.size,
                     type: fileCategory,
-                    extractedContent: content,
+                    extractedContent: mediaPath ? undefined : content,
                     contentType: contentType,
                     mediaType: mediaType,
                   },
@@ -179,7 +277,8 @@ router.post(
 
             console.log(`[BatchUpload] Created reference ${reference.id}, starting analysis...`);
 
-            analyzeFileInBackground(reference.id, url, fileCategory, content, contentType, mediaType);
+            analyzeFileInBackground(reference.id, url, fileCategory, mediaPath || content, contentType, mediaType);
+            mediaPath = undefined;
 
             return {
               success: true,
@@ -187,6 +286,9 @@ router.post(
               reference: reference,
             };
           } catch (error: any) {
+            if (mediaPath) {
+              await mediaAnalysisService.discard(mediaPath);
+            }
             console.error(`[BatchUpload] Error processing ${file.originalname}:`, error);
             return {
               success: false,
@@ -236,13 +338,14 @@ router.post(
 
 /**
  * Analyze file in background
+ * For video and audio, extractedContent is the staged file path (see MediaAnalysisService).
  */
 async function analyzeFileInBackground(
   referenceId: string,
   fileUrl: string,
   fileType: string,
   extractedContent?: string,
-  contentType?: 'text' | 'image' | 'video',
+  contentType?: 'text' | 'image' | 'video' | 'audio',
   mediaType?: string
 ) {
   try {
@@ -254,13 +357,21 @@ async function analyzeFileInBackground(
       .update({ analysis_status: 'processing' })
       .eq('id', referenceId);
 
-    const analysis = await referenceAnalysisAgent.analyze(fileType, {
-      url: fileUrl,
-      type: fileType,
-      extractedContent: extractedContent,
-      contentType: contentType,
-      mediaType: mediaType,
-    });
+    let media: MediaExtraction | null = null;
+    let analysis;
+
+    if ((contentType === 'video' || contentType === 'audio') && extractedContent) {
+      media = await mediaAnalysisService.extract(extractedContent, contentType);
+      analysis = await referenceAnalysisAgent.analyzeMedia(fileType, media);
+    } else {
+      analysis = await referenceAnalysisAgent.analyze(fileType, {
+        url: fileUrl,
+        type: fileType,
+        extractedContent: extractedContent,
+        contentType: contentType,
+        mediaType: mediaType,
+      });
+    }
 
     console.log(`[ReferenceAnalysis] Analysis completed, message length: ${analysis.message?.length || 0}`);
 
@@ -297,6 +408,18 @@ async function analyzeFileInBackground(
           analysis: analysis.message,
           structuredAnalysis,
           imageUrl: contentType === 'image' ? fileUrl : undefined,
+          ...(media && {
+            // Timestamped transcript in place of the staged file path
+            extractedContent: media.transcript ? formatTranscript(media.transcript.segments) : undefined,
+            media: {
+              durationSeconds: media.durationSeconds,
+              keyframeTimestamps: media.keyframes.map(frame => frame.timestamp),
+              transcriptProvider: media.transcript?.provider || null,
+              language: media.transcript?.language || null,
+              transcriptChunks: media.chunks.length,
+              transcriptionError: media.transcriptionError,
+            },
+          }),
         },
         updated_at: new Date().toISOString(),
       })
@@ -304,8 +427,28 @@ async function analyzeFileInBackground(
 
     console.log(`[ReferenceAnalysis] ✅ ${fileType} analysis completed for reference ${referenceId}`);
 
+    // Passages, so search can land on the page or moment that matched
+    const chunks = media
+      ? media.chunks.map(chunk => ({
+          index: chunk.index,
+          content: chunk.text,
+          startSeconds: chunk.start,
+          endSeconds: chunk.end,
+        }))
+      : contentType === 'text' && extractedContent
+        ? chunkText(extractedContent)
+        : [];
+    if (chunks.length > 0) {
+      embeddingService.storeReferenceChunks(referenceId, chunks)
+        .catch((err: any) => {
+          console.error(`[ReferenceAnalysis] ⚠️ Chunk embeddings failed for ${referenceId}:`, err);
+        });
+    }
+
     // Generate embedding from extracted content or analysis
-    const contentToEmbed = extractedContent || analysis.message;
+    const contentToEmbed = media
+      ? media.transcript?.text || analysis.message
+      : extractedContent || analysis.message;
     if (contentToEmbed && contentToEmbed.trim().length > 0) {
       embeddingService.generateAndStoreReferenceEmbedding(referenceId, contentToEmbed)
         .then(() => {
@@ -380,46 +523,80 @@ router.get('/:referenceId/find-similar', async (req: Request, res: Response) =>
 
     console.log(`[FindSimilar] Finding similar references for ${referenceId}`);
 
-    // Get the reference embedding
-    const { data: refEmbedding, error: embError } = await supabase
-      .from('reference_embeddings')
-      .select('embedding, content_preview')
-      .eq('reference_id', referenceId)
-      .single();
-
-    if (embError || !refEmbedding) {
+    // The reference's own embedding and passages
+    const [{ data: refEmbedding }, { data: refChunks, error: refChunksError }] = await Promise.all([
+      supabase
+        .from('reference_embeddings')
+        .select('embedding, content_preview')
+        .eq('reference_id', referenceId)
+        .maybeSingle(),
+      supabase
+        .from('reference_chunks')
+        .select('embedding')
+        .eq('reference_id', referenceId)
+        .order('chunk_index'),
+    ]);
+
+    if (refChunksError) throw refChunksError;
+
+    // Whole-reference vector plus an even sample of passages, so long references match on any part
+    const step = Math.max(1, Math.ceil((refChunks?.length || 0) / MAX_SOURCE_CHUNKS));
+    const queryEmbeddings = [
+      ...(refEmbedding ? [refEmbedding.embedding] : []),
+      ...(refChunks || []).filter((_, i) => i % step === 0).map(chunk => chunk.embedding),
+    ].map(parseEmbedding).filter((embedding): embedding is number[] => !!embedding);
+
+    if (queryEmbeddings.length === 0) {
       return res.status(404).json({
         success: false,
         error: 'Embedding not found for this reference. It may not have been analyzed yet.',
       });
     }
 
-    console.log(`[FindSimilar] Found embedding for reference ${referenceId}`);
+    console.log(`[FindSimilar] Comparing with ${queryEmbeddings.length} vectors for reference ${referenceId}`);
 
-    // Get all embeddings (optionally filtered by project)
-    let query = supabase
-      .from('reference_embeddings')
-      .select('reference_id, embedding, content_preview')
-      .neq('reference_id', referenceId); // Exclude the query reference itself
-
-    if (projectId) {
-      // Join with references table to filter by project
-      const { data: projectRefs } = await supabase
+    // Only compare within one project: the requested one (checked by enforceRequestScope)
+    // or the reference's own, never across every project
+    let searchProjectId = projectId as string | undefined;
+    if (!searchProjectId) {
+      const { data: ownReference, error: ownError } = await supabase
         .from('references')
-        .select('id')
-        .eq('project_id', projectId as string);
-
-      if (projectRefs && projectRefs.length > 0) {
-        const refIds = projectRefs.map(r => r.id);
-        query = query.in('reference_id', refIds);
+        .select('project_id')
+        .eq('id', referenceId)
+        .maybeSingle();
+      if (ownError) throw ownError;
+      if (!ownReference) {
+        return res.status(404).json({ success: false, error: 'Reference not found' });
       }
+      searchProjectId = ownReference.project_id as string;
     }
 
-    const { data: allEmbeddings, error: fetchError } = await query;
+    const { data: projectRefs, error: projectRefsError } = await supabase
+      .from('references')
+      .select('id')
+      .eq('project_id', searchProjectId)
+      .neq('id', referenceId); // Exclude the query reference itself
+
+    if (projectRefsError) throw projectRefsError;
+
+    const refIds = (projectRefs || []).map(r => r.id);
+    const [{ data: allEmbeddings, error: fetchError }, { data: allChunks, error: chunkError }] = refIds.length > 0
+      ? await Promise.all([
+          supabase
+            .from('reference_embeddings')
+            .select('reference_id, embedding, content_preview')
+            .in('reference_id', refIds),
+          supabase
+            .from('reference_chunks')
+            .select(CHUNK_COLUMNS)
+            .in('reference_id', refIds),
+        ])
+      : [{ data: [], error: null }, { data: [], error: null }];
 
     if (fetchError) throw fetchError;
+    if (chunkError) throw chunkError;
 
-    if (!allEmbeddings || allEmbeddings.length === 0) {
+    if ((!allEmbeddings || allEmbeddings.length === 0) && (!allChunks || allChunks.length === 0)) {
       return res.json({
         success: true,
         similar: [],
@@ -427,18 +604,12 @@ router.get('/:referenceId/find-similar', async (req: Request, res: Response) =>
       });
     }
 
-    console.log(`[FindSimilar] Comparing against ${allEmbeddings.length} embeddings`);
-
-    // Calculate similarities
-    const similarities = embeddingService.findMostSimilar(
-      refEmbedding.embedding,
-      allEmbeddings.map(e => ({
-        id: e.reference_id,
-        embedding: e.embedding,
-        metadata: { contentPreview: e.content_preview },
-      })),
-      parseInt(limit as string)
-    );
+    console.log(`[FindSimilar] Comparing against ${allEmbeddings?.length || 0} embeddings and ${allChunks?.length || 0} passages`);
+
+    const similarities = [...scoreReferences(queryEmbeddings, allEmbeddings || [], allChunks || []).entries()]
+      .map(([id, score]) => ({ id, ...score }))
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, parseInt(limit as string));
 
     // Fetch full reference details
     const referenceIds = similarities.map(s => s.id);
@@ -456,6 +627,9 @@ router.get('/:referenceId/find-similar', async (req: Request, res: Response) =>
         reference: ref,
         similarity: sim.similarity,
         similarityPercentage: Math.round(sim.similarity * 100),
+        // Passages of the similar reference that matched best, with page/section or time range
+        matchedChunk: sim.passages[0] || null,
+        passages: sim.passages,
       };
     });
 
@@ -466,7 +640,7 @@ router.get('/:referenceId/find-similar', async (req: Request, res: Response) =>
       similar: results,
       query: {
         referenceId,
-        contentPreview: refEmbedding.content_preview,
+        contentPreview: refEmbedding?.content_preview || null,
       },
     });
   } catch (error: any) {
@@ -494,71 +668,27 @@ router.post('/semantic-search', async (req: Request, res: Response) => {
 
     console.log(`[SemanticSearch] Searching for: "${query}"`);
 
-    // Generate embedding for the search query
-    const queryEmbedding = await embeddingService.generateEmbedding(query);
-
-    // Get all embeddings (optionally filtered by project)
-    let embQuery = supabase
-      .from('reference_embeddings')
-      .select('reference_id, embedding, content_preview');
-
-    if (projectId) {
-      const { data: projectRefs } = await supabase
-        .from('references')
-        .select('id')
-        .eq('project_id', projectId);
-
-      if (projectRefs && projectRefs.length > 0) {
-        const refIds = projectRefs.map(r => r.id);
-        embQuery = embQuery.in('reference_id', refIds);
-      }
-    }
-
-    const { data: allEmbeddings, error: fetchError } = await embQuery;
-
-    if (fetchError) throw fetchError;
-
-    if (!allEmbeddings || allEmbeddings.length === 0) {
-      return res.json({
-        success: true,
-        results: [],
-        message: 'No references found',
-      });
-    }
-
-    console.log(`[SemanticSearch] Searching across ${allEmbeddings.length} embeddings`);
-
-    // Find most similar
-    const similarities = embeddingService.findMostSimilar(
-      queryEmbedding,
-      allEmbeddings.map(e => ({
-        id: e.reference_id,
-        embedding: e.embedding,
-        metadata: { contentPreview: e.content_preview },
-      })),
-      parseInt(limit)
-    );
-
-    // Fetch full reference details
-    const referenceIds = similarities.map(s => s.id);
-    const { data: references, error: refsError } = await supabase
-      .from('references')
-      .select('*')
-      .in('id', referenceIds);
-
-    if (refsError) throw refsError;
-
-    // Merge similarities with reference data
-    const results = similarities.map(sim => {
-      const ref = references?.find(r => r.id === sim.id);
-      return {
-        reference: ref,
-        similarity: sim.similarity,
-        similarityPercentage: Math.round(sim.similarity * 100),
-        relevanceScore: sim.similarity > 0.8 ? 'high' : sim.similarity > 0.6 ? 'medium' : 'low',
-      };
+    // Keyword + vector ranking over whole references and their passages
+    const projectIds = projectId
+      ? [projectId]
+      : (await projectMemberService.getProjectsForUser(req.user!.id)).map(project => project.id);
+    const ranked = await hybridSearchService.search(projectIds, query, {
+      types: ['reference'],
+      limit: parseInt(limit),
     });
 
+    const results = ranked.map(result => ({
+      reference: result.record,
+      similarity: result.score,
+      similarityPercentage: Math.round(result.score * 100),
+      relevanceScore: result.score > 0.8 ? 'high' : result.score > 0.6 ? 'medium' : 'low',
+      keywordScore: result.keywordScore,
+      vectorScore: result.vectorScore,
+      // The passages that matched, with page/section or time range
+      matchedChunk: result.passage,
+      passages: result.passages,
+    }));
+
     console.log(`[SemanticSearch] Found ${results.length} relevant references`);
 
     res.json({
@@ -575,6 +705,40 @@ router.post('/semantic-search', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * Run analysis again for a stored reference
+ * The staged media from the upload is deleted once transcribed, and
+ * extractedContent then holds the transcript, so audio and video are
+ * downloaded from storage again. Media without a stored file is re-analyzed
+ * from its transcript.
+ */
+async function reanalyzeReference(reference: any): Promise<void> {
+  const metadata = reference.metadata || {};
+  const fileType = metadata.type || 'unknown';
+  let contentType = metadata.contentType;
+  let content = metadata.extractedContent;
+
+  if (contentType === 'video' || contentType === 'audio') {
+    if (metadata.storagePath) {
+      try {
+        const buffer = await fileUploadService.downloadFromStorage(metadata.storagePath);
+        content = await mediaAnalysisService.stageBuffer(buffer, metadata.storagePath);
+      } catch (error) {
+        console.error(`[ReferenceAnalysis] ❌ Could not fetch media for ${reference.id}:`, error);
+        await supabase
+          .from('references')
+          .update({ analysis_status: 'failed' })
+          .eq('id', reference.id);
+        return;
+      }
+    } else {
+      contentType = 'text';
+    }
+  }
+
+  await analyzeFileInBackground(reference.id, reference.url, fileType, content, contentType, metadata.mediaType);
+}
+
 /**
  * Retrigger analysis for a reference
  */
@@ -594,17 +758,12 @@ router.post('/:referenceId/retrigger-analysis', async (req: Request, res: Respon
       return res.status(404).json({ success: false, error: 'Reference not found' });
     }
 
-    const fileType = reference.metadata?.type || 'unknown';
-    const extractedContent = reference.metadata?.extractedContent;
-    const contentType = reference.metadata?.contentType;
-    const mediaType = reference.metadata?.mediaType;
-
     await supabase
       .from('references')
       .update({ analysis_status: 'pending' })
       .eq('id', referenceId);
 
-    analyzeFileInBackground(reference.id, reference.url, fileType, extractedContent, contentType, mediaType);
+    reanalyzeReference(reference);
 
     res.json({
       success: true,
@@ -616,6 +775,63 @@ router.post('/:referenceId/retrigger-analysis', async (req: Request, res: Respon
   }
 });
 
+/**
+ * Analyze a reference with a built-in or custom analysis template
+ * Body: { templateId }
+ */
+router.post('/:referenceId/analyze-with-template', async (req: Request, res: Response) => {
+  try {
+    const { referenceId } = req.params;
+    const { templateId } = req.body;
+
+    if (!templateId || typeof templateId !== 'string') {
+      return res.status(400).json({ success: false, error: 'templateId is required' });
+    }
+
+    const { data: reference, error: fetchError } = await supabase
+      .from('references')
+      .select('*')
+      .eq('id', referenceId)
+      .maybeSingle();
+
+    if (fetchError) throw fetchError;
+
+    if (!reference) {
+      return res.status(404).json({ success: false, error: 'Reference not found' });
+    }
+
+    const template = await analysisTemplateService.getTemplate(templateId, req.user!.id);
+
+    const response = await referenceAnalysisAgent.analyzeWithTemplate(
+      reference.metadata?.type || 'unknown',
+      {
+        url: reference.url,
+        extractedContent: reference.metadata?.extractedContent,
+        contentType: reference.metadata?.contentType,
+      },
+      template
+    );
+    const metadata = isReferenceAnalysisResponse(response) ? response.metadata : undefined;
+
+    res.json({
+      success: true,
+      templateAnalysis: {
+        templateInfo: metadata?.templateUsed,
+        outputFormat: metadata?.outputFormat,
+        structuredData: metadata?.structuredData,
+        result: response.message,
+      },
+      message: `Analyzed with ${template.name}`,
+    });
+  } catch (error: any) {
+    if (error instanceof AnalysisTemplateError) {
+      return res.status(error.status).json({ success: false, error: error.message });
+    }
+    console.error('Template analysis error:', error);
+    res.status(500).json({ success: false, error: 'Failed to analyze reference with template' });
+  }
+});
+
 /**
  * Retrigger analysis for ALL pending references in a project
  */
@@ -640,11 +856,7 @@ router.post('/project/:projectId/retrigger-all-pending', async (req: Request, re
     }
 
     for (const ref of pendingRefs) {
-      const fileType = ref.metadata?.type || 'unknown';
-      const extractedContent = ref.metadata?.extractedContent;
-      const contentType = ref.metadata?.contentType;
-      const mediaType = ref.metadata?.mediaType;
-      analyzeFileInBackground(ref.id, ref.url, fileType, extractedContent, contentType, mediaType);
+      reanalyzeReference(ref);
     }
 
     res.json({
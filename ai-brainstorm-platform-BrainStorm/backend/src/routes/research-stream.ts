@@ -104,7 +104,9 @@ router.post('/live', async (req: Request, res: Response) => {
           title: s.title,
           snippet: s.snippet,
           analysis: s.analysis,
+          trust: s.trust,
         })),
+        excludedSources: result.excludedSources,
         synthesis: result.synthesis,
         savedReferences: result.savedReferences,
         metadata: result.metadata,
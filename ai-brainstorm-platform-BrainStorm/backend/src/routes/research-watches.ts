@@ -0,0 +1,110 @@
+import { Router, Request, Response } from 'express';
+import { researchWatchService, ResearchWatchError, WatchInput } from '../services/researchWatches';
+import { requireProjectParam, requireResourceParam } from '../middleware/auth';
+
+/**
+ * Research watch routes
+ * Saved research queries that re-run on a schedule and report new or changed sources.
+ */
+const router = Router();
+
+router.param('projectId', requireProjectParam);
+router.param('watchId', requireResourceParam('researchWatch'));
+
+function handleError(res: Response, error: any, fallback: string) {
+  if (error instanceof ResearchWatchError) {
+    return res.status(error.status).json({ success: false, error: error.message });
+  }
+  console.error(`[ResearchWatch] ${fallback}:`, error);
+  res.status(500).json({ success: false, error: fallback });
+}
+
+function readInput(body: any): Partial<WatchInput> {
+  const { query, urls, schedule, maxSources, reexamineDocuments, enabled } = body || {};
+  return Object.fromEntries(
+    Object.entries({ query, urls, schedule, maxSources, reexamineDocuments, enabled }).filter(([, value]) => value !== undefined)
+  );
+}
+
+/**
+ * GET /api/research-watches/project/:projectId
+ */
+router.get('/project/:projectId', async (req: Request, res: Response) => {
+  try {
+    const watches = await researchWatchService.listWatches(req.params.projectId as string);
+    res.json({ success: true, watches });
+  } catch (error) {
+    handleError(res, error, 'Failed to fetch research watches');
+  }
+});
+
+/**
+ * POST /api/research-watches
+ * Body: { projectId, query, schedule (cron, UTC, at most hourly), urls?, maxSources?, reexamineDocuments? }
+ */
+router.post('/', async (req: Request, res: Response) => {
+  try {
+    const { projectId } = req.body || {};
+    if (!projectId) {
+      return res.status(400).json({ success: false, error: 'projectId is required' });
+    }
+
+    const watch = await researchWatchService.createWatch(projectId, req.user!.id, readInput(req.body) as WatchInput);
+    res.status(201).json({ success: true, watch });
+  } catch (error) {
+    handleError(res, error, 'Failed to create research watch');
+  }
+});
+
+/**
+ * PATCH /api/research-watches/:watchId
+ * Body: any of { query, schedule, urls, maxSources, reexamineDocuments, enabled }
+ */
+router.patch('/:watchId', async (req: Request, res: Response) => {
+  try {
+    const watch = await researchWatchService.updateWatch(req.params.watchId as string, readInput(req.body));
+    res.json({ success: true, watch });
+  } catch (error) {
+    handleError(res, error, 'Failed to update research watch');
+  }
+});
+
+/**
+ * DELETE /api/research-watches/:watchId
+ */
+router.delete('/:watchId', async (req: Request, res: Response) => {
+  try {
+    await researchWatchService.deleteWatch(req.params.watchId as string);
+    res.json({ success: true });
+  } catch (error) {
+    handleError(res, error, 'Failed to delete research watch');
+  }
+});
+
+/**
+ * POST /api/research-watches/:watchId/run
+ * Run a watch now, outside its schedule
+ */
+router.post('/:watchId/run', async (req: Request, res: Response) => {
+  try {
+    const watch = await researchWatchService.getWatch(req.params.watchId as string);
+    const run = await researchWatchService.runWatch(watch);
+    res.json({ success: true, run });
+  } catch (error) {
+    handleError(res, error, 'Failed to run research watch');
+  }
+});
+
+/**
+ * GET /api/research-watches/:watchId/runs
+ */
+router.get('/:watchId/runs', async (req: Request, res: Response) => {
+  try {
+    const runs = await researchWatchService.listRuns(req.params.watchId as string);
+    res.json({ success: true, runs });
+  } catch (error) {
+    handleError(res, error, 'Failed to fetch watch runs');
+  }
+});
+
+export default router;
@@ -2,8 +2,13 @@ import { Router, Request, Response } from 'express';
 import { supabase } from '../services/supabase';
 import { UnifiedResearchAgent, ResearchSource, ResearchIntent } from '../agents/unifiedResearchAgent';
 import { ResearchOrchestrator } from '../orchestrators/ResearchOrchestrator';
+import { requireProjectParam, requireResourceParam } from '../middleware/auth';
 
 const router = Router();
+
+router.param('projectId', requireProjectParam);
+router.param('queryId', requireResourceParam('researchQuery'));
+
 const unifiedResearchAgent = new UnifiedResearchAgent();
 const researchOrchestrator = new ResearchOrchestrator();
 
@@ -253,6 +258,7 @@ async function performResearchAsync(
         metadata: {
           synthesis: result.synthesis,
           sources: result.webSources,
+          excludedSources: result.excludedSources,
           savedReferences: result.savedReferences,
           duration: result.metadata.duration,
           followUpQuestions,
@@ -511,6 +517,7 @@ async function performUnifiedResearchAsync(
           intent,
           synthesis: result.synthesis,
           webSources: result.webSources,
+          excludedSources: result.excludedSources,
           documentSources: result.documentSources.map(d => ({
             id: d.id,
             filename: d.filename,
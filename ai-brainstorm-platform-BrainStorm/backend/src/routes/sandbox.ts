@@ -4,8 +4,16 @@ import { IdeaGeneratorAgent } from '../agents/IdeaGeneratorAgent';
 import { ConversationalIdeaAgent, ConversationContext, Message } from '../agents/ConversationalIdeaAgent';
 import { ContextGroupingService, ExtractedIdea, TopicGroup } from '../services/ContextGroupingService';
 import { SandboxOrchestrator } from '../orchestrators/SandboxOrchestrator';
+import { requireProjectParam, requireResourceParam } from '../middleware/auth';
+import { realtimeService } from '../services/realtimeService';
+import { itemHistoryService } from '../services/itemHistory';
 
 const router = Router();
+
+router.param('projectId', requireProjectParam);
+router.param('sandboxId', requireResourceParam('sandbox'));
+router.param('conversationId', requireResourceParam('sandboxConversation'));
+
 const sandboxOrchestrator = new SandboxOrchestrator();
 
 /**
@@ -349,6 +357,7 @@ router.post('/extract-ideas', async (req: Request, res: Response) => {
       text: `${idea.title}: ${idea.description}`,
       state: 'exploring',
       created_at: new Date().toISOString(),
+      created_by: req.user!.id,
       metadata: {
         fromSandbox: true,
         sandboxId: sandboxId,
@@ -363,6 +372,13 @@ router.post('/extract-ideas', async (req: Request, res: Response) => {
       .update({ items: updatedItems })
       .eq('id', sandbox.project_id);
 
+    await itemHistoryService.recordChanges(sandbox.project_id, project.items || [], updatedItems, {
+      actor: { type: 'user', id: req.user!.id },
+    });
+    realtimeService.publishItemChanges(sandbox.project_id, project.items || [], updatedItems, {
+      actorId: req.user!.id,
+    });
+
     res.json({ success: true, extractedIdeas: newItems });
   } catch (error) {
     console.error('Extract ideas error:', error);
@@ -807,6 +823,7 @@ router.post('/conversation/extract', async (req: Request, res: Response) => {
       text: `${idea.idea.title}: ${idea.idea.description}`,
       state: 'exploring',
       created_at: new Date().toISOString(),
+      created_by: req.user!.id,
       metadata: {
         fromSandbox: true,
         fromConversation: true,
@@ -824,6 +841,13 @@ router.post('/conversation/extract', async (req: Request, res: Response) => {
       .update({ items: updatedItems })
       .eq('id', sandbox.project_id);
 
+    await itemHistoryService.recordChanges(sandbox.project_id, project.items || [], updatedItems, {
+      actor: { type: 'user', id: req.user!.id },
+    });
+    realtimeService.publishItemChanges(sandbox.project_id, project.items || [], updatedItems, {
+      actorId: req.user!.id,
+    });
+
     res.json({ success: true, extractedIdeas: newItems });
   } catch (error) {
     console.error('Extract ideas from conversation error:', error);
@@ -872,6 +896,7 @@ router.post('/quick-extract', async (req: Request, res: Response) => {
       sandboxId,
       projectId: sandbox.project_id,
       selectedIdeaIds,
+      userId: req.user!.id,
     });
 
     res.json({
@@ -924,6 +949,7 @@ router.post('/verify-and-extract', async (req: Request, res: Response) => {
       sandboxId,
       projectId: sandbox.project_id,
       selectedIdeaIds,
+      userId: req.user!.id,
     });
 
     res.json({
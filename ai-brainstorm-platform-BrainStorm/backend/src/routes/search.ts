@@ -0,0 +1,54 @@
+import { Router, Request, Response } from 'express';
+import { hybridSearchService, SEARCH_SOURCE_TYPES, SearchSourceType } from '../services/hybridSearch';
+import { projectMemberService } from '../services/projectMembers';
+
+/**
+ * Universal search routes (mounted under /api/search)
+ * Hybrid keyword + vector search over everything the user can see.
+ */
+const router = Router();
+
+/**
+ * GET /api/search?q=...&projectId=...&types=reference,message&limit=20
+ * Without projectId, searches every project the user owns or is a member of.
+ * A projectId in the query string is access-checked by enforceRequestScope.
+ */
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const query = typeof req.query.q === 'string' ? req.query.q.trim() : '';
+    const projectId = typeof req.query.projectId === 'string' ? req.query.projectId : undefined;
+    const limit = Math.min(Math.max(parseInt(req.query.limit as string, 10) || 20, 1), 100);
+
+    if (query.length < 2) {
+      return res.status(400).json({ success: false, error: 'Search query must be at least 2 characters' });
+    }
+
+    let types: SearchSourceType[] | undefined;
+    if (typeof req.query.types === 'string' && req.query.types) {
+      const requested = req.query.types.split(',');
+      const unknown = requested.filter(type => !SEARCH_SOURCE_TYPES.includes(type as SearchSourceType));
+      if (unknown.length > 0) {
+        return res.status(400).json({ success: false, error: `Unknown search types: ${unknown.join(', ')}` });
+      }
+      types = requested as SearchSourceType[];
+    }
+
+    const projectIds = projectId
+      ? [projectId]
+      : (await projectMemberService.getProjectsForUser(req.user!.id)).map(project => project.id);
+
+    const results = await hybridSearchService.search(projectIds, query, { types, limit });
+
+    res.json({
+      success: true,
+      query,
+      // The full rows stay server-side; clients get the summary fields
+      results: results.map(({ record: _record, ...result }) => result),
+    });
+  } catch (error) {
+    console.error('[Search] Search failed:', error);
+    res.status(500).json({ success: false, error: 'Search failed' });
+  }
+});
+
+export default router;
@@ -247,7 +247,7 @@ router.post('/finalize', async (req: Request, res: Response) => {
 
     // Complete the session in background (fire-and-forget)
     const completionService = new SessionCompletionService(supabase);
-    completionService.completeSession(conversationId, finalDecisions)
+    completionService.completeSession(conversationId, finalDecisions, req.user?.id)
       .then(summary => {
         console.log('[SessionFinalize] Background completion successful:', summary.sessionName);
       })
@@ -1,9 +1,14 @@
 import express, { Request, Response } from 'express';
 import { sessionService } from '../services/sessionService';
 import { supabase } from '../services/supabase';
+import { requireProjectParam, requireSelfParam } from '../middleware/auth';
 
 const router = express.Router();
 
+router.param('projectId', requireProjectParam);
+
+router.param('userId', requireSelfParam);
+
 /**
  * POST /api/sessions/start
  * Start a new session
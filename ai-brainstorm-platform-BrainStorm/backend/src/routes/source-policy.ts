@@ -0,0 +1,50 @@
+import { Router, Request, Response } from 'express';
+import { sourceTrustPolicyService, SourceTrustPolicyError } from '../services/sourceTrustPolicy';
+import { requireProjectParam } from '../middleware/auth';
+
+/**
+ * Source trust policy routes (mounted under /api/projects)
+ * Which web sources research may use for a project, on top of the organization policy.
+ */
+const router = Router();
+
+router.param('projectId', requireProjectParam);
+
+function handleError(res: Response, error: any, fallback: string) {
+  if (error instanceof SourceTrustPolicyError) {
+    return res.status(error.status).json({ success: false, error: error.message });
+  }
+  console.error(`[SourceTrustPolicy] ${fallback}:`, error);
+  res.status(500).json({ success: false, error: fallback });
+}
+
+/**
+ * GET /api/projects/:projectId/source-policy
+ * The organization policy, the project's own policy and the combination research applies
+ */
+router.get('/:projectId/source-policy', async (req: Request, res: Response) => {
+  try {
+    const policies = await sourceTrustPolicyService.getPolicies(req.params.projectId as string);
+    res.json({ success: true, ...policies });
+  } catch (error) {
+    handleError(res, error, 'Failed to fetch source trust policy');
+  }
+});
+
+/**
+ * PUT /api/projects/:projectId/source-policy (owner)
+ * Body: { allowDomains?, blockDomains?, domainWeights?, requiredSourceTypes? }
+ */
+router.put('/:projectId/source-policy', async (req: Request, res: Response) => {
+  try {
+    const projectId = req.params.projectId as string;
+    await sourceTrustPolicyService.updateProjectPolicy(projectId, req.body || {});
+
+    const policies = await sourceTrustPolicyService.getPolicies(projectId);
+    res.json({ success: true, ...policies });
+  } catch (error) {
+    handleError(res, error, 'Failed to save source trust policy');
+  }
+});
+
+export default router;
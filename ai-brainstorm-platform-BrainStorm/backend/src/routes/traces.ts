@@ -0,0 +1,69 @@
+import { Router, Request, Response } from 'express';
+import { workflowTracer } from '../services/workflowTracer';
+import { requireProjectParam } from '../middleware/auth';
+
+const router = Router();
+
+router.param('projectId', requireProjectParam);
+
+/**
+ * GET /api/traces/:projectId?limit=50
+ * Recent workflow runs for a project (without step details)
+ */
+router.get('/:projectId', async (req: Request, res: Response) => {
+  try {
+    const projectId = req.params.projectId as string;
+    const limit = Math.min(parseInt(req.query.limit as string, 10) || 50, 200);
+
+    const traces = await workflowTracer.listTraces(projectId, limit);
+
+    res.json({ success: true, traces });
+  } catch (error: any) {
+    console.error('[Traces] List traces error:', error);
+    res.status(500).json({ success: false, error: 'Failed to fetch traces' });
+  }
+});
+
+/**
+ * GET /api/traces/:projectId/messages/:messageId
+ * Timeline of the workflow started by a user message
+ */
+router.get('/:projectId/messages/:messageId', async (req: Request, res: Response) => {
+  try {
+    const projectId = req.params.projectId as string;
+    const messageId = req.params.messageId as string;
+
+    const trace = await workflowTracer.getTraceForMessage(projectId, messageId);
+    if (!trace) {
+      return res.status(404).json({ success: false, error: 'No trace recorded for this message' });
+    }
+
+    res.json({ success: true, trace });
+  } catch (error: any) {
+    console.error('[Traces] Get message trace error:', error);
+    res.status(500).json({ success: false, error: 'Failed to fetch trace' });
+  }
+});
+
+/**
+ * GET /api/traces/:projectId/:traceId
+ * Full timeline of one workflow run
+ */
+router.get('/:projectId/:traceId', async (req: Request, res: Response) => {
+  try {
+    const projectId = req.params.projectId as string;
+    const traceId = req.params.traceId as string;
+
+    const trace = await workflowTracer.getTrace(projectId, traceId);
+    if (!trace) {
+      return res.status(404).json({ success: false, error: 'Trace not found' });
+    }
+
+    res.json({ success: true, trace });
+  } catch (error: any) {
+    console.error('[Traces] Get trace error:', error);
+    res.status(500).json({ success: false, error: 'Failed to fetch trace' });
+  }
+});
+
+export default router;
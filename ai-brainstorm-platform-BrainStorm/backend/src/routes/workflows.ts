@@ -0,0 +1,194 @@
+import { Router, Request, Response } from 'express';
+import { AgentCoordinationService } from '../services/agentCoordination';
+import {
+  workflowRegistry,
+  parseWorkflowDocument,
+  validateWorkflowDocument,
+  WorkflowDefinitionError,
+} from '../services/workflowRegistry';
+import { WORKFLOW_ACTIONS, WORKFLOW_CONDITIONS } from '../config/workflows';
+import { requireProjectParam } from '../middleware/auth';
+
+const router = Router();
+
+router.param('projectId', requireProjectParam);
+
+const coordinationService = new AgentCoordinationService();
+
+function handleError(res: Response, error: any, fallback: string) {
+  if (error instanceof WorkflowDefinitionError) {
+    return res.status(400).json({ success: false, error: error.message, errors: error.errors });
+  }
+  console.error(`[Workflows] ${fallback}:`, error);
+  res.status(500).json({ success: false, error: fallback });
+}
+
+/**
+ * GET /api/workflows
+ * Default workflows plus the agents, actions and conditions documents may use
+ */
+router.get('/', (req: Request, res: Response) => {
+  try {
+    const catalog = coordinationService.getWorkflowCatalog();
+
+    res.json({
+      success: true,
+      defaults: workflowRegistry.getDefaults(catalog),
+      catalog: {
+        agents: Object.keys(catalog.agents),
+        actions: Object.keys(WORKFLOW_ACTIONS),
+        conditions: WORKFLOW_CONDITIONS,
+      },
+    });
+  } catch (error: any) {
+    handleError(res, error, 'Failed to fetch workflows');
+  }
+});
+
+/**
+ * POST /api/workflows/validate
+ * Body: { document: string (YAML/JSON) | object, override?: boolean }
+ */
+router.post('/validate', (req: Request, res: Response) => {
+  try {
+    const { document, override = true } = req.body;
+
+    if (document === undefined) {
+      return res.status(400).json({ success: false, error: 'document is required' });
+    }
+
+    const validation = validateWorkflowDocument(
+      parseWorkflowDocument(document),
+      coordinationService.getWorkflowCatalog(),
+      { override: !!override }
+    );
+
+    res.json({ success: true, validation });
+  } catch (error: any) {
+    handleError(res, error, 'Failed to validate workflow');
+  }
+});
+
+/**
+ * GET /api/workflows/projects/:projectId
+ * The project's current override (null when it uses the defaults)
+ */
+router.get('/projects/:projectId', async (req: Request, res: Response) => {
+  try {
+    const projectId = req.params.projectId as string;
+
+    const override = await workflowRegistry.getProjectOverride(projectId);
+
+    res.json({ success: true, override });
+  } catch (error: any) {
+    handleError(res, error, 'Failed to fetch project workflows');
+  }
+});
+
+/**
+ * GET /api/workflows/projects/:projectId/versions
+ * Override history, newest first
+ */
+router.get('/projects/:projectId/versions', async (req: Request, res: Response) => {
+  try {
+    const projectId = req.params.projectId as string;
+
+    const versions = await workflowRegistry.listProjectVersions(projectId);
+
+    res.json({ success: true, versions });
+  } catch (error: any) {
+    handleError(res, error, 'Failed to fetch workflow versions');
+  }
+});
+
+/**
+ * PUT /api/workflows/projects/:projectId
+ * Body: { document: string (YAML/JSON) | object }
+ * e.g. "version: 1\nskipAgents: [assumptionBlocker]" for quick ideation projects
+ */
+router.put('/projects/:projectId', async (req: Request, res: Response) => {
+  try {
+    const projectId = req.params.projectId as string;
+    const { document } = req.body;
+
+    if (document === undefined) {
+      return res.status(400).json({ success: false, error: 'document is required' });
+    }
+
+    const { override, validation } = await workflowRegistry.saveProjectOverride(
+      projectId,
+      document,
+      coordinationService.getWorkflowCatalog(),
+      req.user?.id
+    );
+
+    res.json({ success: true, override, warnings: validation.warnings });
+  } catch (error: any) {
+    handleError(res, error, 'Failed to save project workflows');
+  }
+});
+
+/**
+ * DELETE /api/workflows/projects/:projectId
+ * Go back to the default workflows
+ */
+router.delete('/projects/:projectId', async (req: Request, res: Response) => {
+  try {
+    const projectId = req.params.projectId as string;
+
+    const override = await workflowRegistry.clearProjectOverride(projectId, req.user?.id);
+
+    res.json({ success: true, version: override.version });
+  } catch (error: any) {
+    handleError(res, error, 'Failed to reset project workflows');
+  }
+});
+
+/**
+ * POST /api/workflows/projects/:projectId/dry-run
+ * Body: { message: string, intent?: string }
+ * Which steps would run for the message; classifies the intent unless given
+ */
+router.post('/projects/:projectId/dry-run', async (req: Request, res: Response) => {
+  try {
+    const projectId = req.params.projectId as string;
+    const { message, intent } = req.body;
+
+    if (!message || typeof message !== 'string') {
+      return res.status(400).json({ success: false, error: 'message is required' });
+    }
+
+    if (intent !== undefined && typeof intent !== 'string') {
+      return res.status(400).json({ success: false, error: 'intent must be a string' });
+    }
+
+    const plan = await coordinationService.planWorkflow(projectId, message, intent);
+
+    res.json({
+      success: true,
+      intent: {
+        type: plan.intent.type,
+        confidence: plan.intent.confidence,
+        reasoning: plan.intent.reasoning,
+      },
+      workflow: plan.workflow.definition,
+      // Background steps don't run once the project's AI budget hits its hard cap
+      willRun: plan.budget.level !== 'hard',
+      budgetLevel: plan.budget.level,
+      steps: plan.workflow.sequence,
+      batches: plan.batches.map(batch => ({
+        parallel: batch.length > 1,
+        steps: batch.map(step => ({
+          agentName: step.agentName,
+          action: step.action,
+          // Conditions only apply to steps run on their own
+          condition: batch.length === 1 ? step.condition || null : null,
+        })),
+      })),
+    });
+  } catch (error: any) {
+    handleError(res, error, 'Failed to plan workflow');
+  }
+});
+
+export default router;
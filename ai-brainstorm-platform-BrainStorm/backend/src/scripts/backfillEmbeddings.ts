@@ -2,7 +2,8 @@
  * Backfill Embeddings Script
  *
  * Generates embeddings for existing references and generated_documents
- * that don't have embeddings yet.
+ * that don't have embeddings yet, and splits them into embedded passages
+ * (page/section-aware chunks) where they have none.
  *
  * Usage:
  *   # Backfill all projects
@@ -10,6 +11,9 @@
  *
  *   # Backfill specific project
  *   npx ts-node backend/src/scripts/backfillEmbeddings.ts <projectId>
+ *
+ *   # Re-chunk everything, replacing existing chunks (e.g. after changing chunk size)
+ *   npx ts-node backend/src/scripts/backfillEmbeddings.ts [projectId] --rechunk
  */
 
 import { supabase } from '../services/supabase';
@@ -20,7 +24,11 @@ dotenv.config();
 
 const embeddingService = new EmbeddingService(supabase);
 
-async function backfillProject(projectId: string) {
+interface BackfillOptions {
+  rechunk: boolean;
+}
+
+async function backfillProject(projectId: string, options: BackfillOptions) {
   console.log(`\n==========================================`);
   console.log(`🔄 Backfilling embeddings for project: ${projectId}`);
   console.log(`==========================================\n`);
@@ -56,7 +64,6 @@ async function backfillProject(projectId: string) {
 
       if (total_missing === 0) {
         console.log(`✅ All embeddings already exist for this project\n`);
-        return { success: true, projectId, processed: 0, skipped: 0 };
       }
     }
 
@@ -68,10 +75,16 @@ async function backfillProject(projectId: string) {
     console.log(`\n📄 Processing Generated Documents...`);
     const documentsProcessed = await embeddingService.generateMissingDocumentEmbeddings(projectId);
 
+    // Chunk long content so search reaches past the first pages
+    console.log(`\n🧩 ${options.rechunk ? 'Re-chunking' : 'Chunking'} References and Documents...`);
+    const referencesChunked = await embeddingService.rechunkReferences(projectId, { force: options.rechunk });
+    const documentsChunked = await embeddingService.rechunkDocuments(projectId, { force: options.rechunk });
+
     const totalProcessed = referencesProcessed + documentsProcessed;
 
     console.log(`\n✅ Backfill complete for project ${projectId}`);
     console.log(`   Total processed: ${totalProcessed}`);
+    console.log(`   Chunked: ${referencesChunked} references, ${documentsChunked} documents`);
 
     return { success: true, projectId, processed: totalProcessed };
   } catch (error: any) {
@@ -80,7 +93,7 @@ async function backfillProject(projectId: string) {
   }
 }
 
-async function backfillAllProjects() {
+async function backfillAllProjects(options: BackfillOptions) {
   console.log(`\n🌍 Backfilling embeddings for ALL projects...\n`);
 
   try {
@@ -102,7 +115,7 @@ async function backfillAllProjects() {
     const results = [];
 
     for (const project of projects) {
-      const result = await backfillProject(project.id);
+      const result = await backfillProject(project.id, options);
       results.push(result);
     }
 
@@ -137,7 +150,9 @@ async function backfillAllProjects() {
 
 // Main execution
 async function main() {
-  const projectId = process.argv[2];
+  const args = process.argv.slice(2);
+  const projectId = args.find(arg => !arg.startsWith('--'));
+  const options: BackfillOptions = { rechunk: args.includes('--rechunk') };
 
   console.log(`\n🚀 Embedding Backfill Script`);
   console.log(`============================\n`);
@@ -151,13 +166,13 @@ async function main() {
   try {
     if (projectId) {
       // Backfill specific project
-      const result = await backfillProject(projectId);
+      const result = await backfillProject(projectId, options);
       if (!result.success) {
         process.exit(1);
       }
     } else {
       // Backfill all projects
-      await backfillAllProjects();
+      await backfillAllProjects(options);
     }
 
     console.log(`✅ Backfill script completed successfully\n`);
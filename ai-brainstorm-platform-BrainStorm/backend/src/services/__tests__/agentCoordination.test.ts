@@ -3,6 +3,11 @@ import { AgentCoordinationService } from '../agentCoordination';
 import { supabase } from '../supabase';
 import { IntegrationOrchestrator } from '../../agents/orchestrator';
 import { isContextManagerResponse } from '../../types';
+import { budgetService } from '../budgetService';
+import { projectMemoryService } from '../projectMemory';
+import { chatRetrievalService } from '../chatRetrieval';
+import { updatesCache } from '../updatesCache';
+import { workflowTracer } from '../workflowTracer';
 
 // Mock dependencies
 vi.mock('../supabase', () => ({
@@ -749,3 +754,43 @@ describe('AgentCoordinationService', () => {
     });
   });
 });
+
+describe('AgentCoordinationService background workflow', () => {
+  it("should run the classified intent's workflow, read from the classification metadata", async () => {
+    const service = new AgentCoordinationService();
+    const classification = {
+      agent: 'ContextManager',
+      message: '',
+      showToUser: false,
+      metadata: { type: 'deciding', confidence: 90, needsClarification: false, reasoning: 'Commits to Postgres' },
+    };
+    const decidingWorkflow = { intent: 'deciding', confidence: 90, sequence: [], timestamp: '2025-01-20T10:00:00Z' };
+    const determineWorkflow = vi.fn().mockResolvedValue(decidingWorkflow);
+    (service as any).orchestrator = {
+      agents: new Map<string, any>([
+        ['conversation', { reflect: vi.fn().mockResolvedValue({ agent: 'ConversationAgent', message: 'Noted', showToUser: true }) }],
+        ['contextManager', { classifyIntent: vi.fn().mockResolvedValue(classification) }],
+      ]),
+      determineWorkflow,
+    };
+
+    vi.spyOn(budgetService, 'getStatus').mockResolvedValue({ level: 'ok', project: null, user: null });
+    vi.spyOn(projectMemoryService, 'getPromptContext').mockResolvedValue('');
+    vi.spyOn(projectMemoryService, 'updateFromConversation').mockResolvedValue(null);
+    vi.spyOn(chatRetrievalService, 'retrieve').mockResolvedValue([]);
+    vi.spyOn(updatesCache, 'set').mockResolvedValue(undefined);
+    vi.spyOn(workflowTracer, 'finish').mockImplementation(async trace => trace.finish('completed'));
+    vi.spyOn(service as any, 'getConversationHistory').mockResolvedValue([]);
+    vi.spyOn(service as any, 'getProjectState').mockResolvedValue({ items: [] });
+    vi.spyOn(service as any, 'getProjectReferences').mockResolvedValue([]);
+    vi.spyOn(service as any, 'getProjectDocuments').mockResolvedValue([]);
+    const executeBackgroundWorkflow = vi.spyOn(service as any, 'executeBackgroundWorkflow')
+      .mockResolvedValue({ itemsAdded: [], itemsModified: [], itemsMoved: [] });
+
+    await service.processUserMessage('project-1', 'user-1', "Let's go with Postgres");
+
+    await vi.waitFor(() => expect(executeBackgroundWorkflow).toHaveBeenCalled());
+    expect(determineWorkflow).toHaveBeenCalledWith(classification.metadata, "Let's go with Postgres", 'project-1');
+    expect(executeBackgroundWorkflow.mock.calls[0][0]).toBe(decidingWorkflow);
+  });
+});
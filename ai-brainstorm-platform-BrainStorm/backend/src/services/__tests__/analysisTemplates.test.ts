@@ -0,0 +1,171 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+// Rows of the in-memory Supabase stand-in (test/supabaseMock)
+const { tables, roles } = vi.hoisted(() => ({
+  tables: {} as Record<string, any[]>,
+  roles: {} as Record<string, string>,
+}));
+
+vi.mock('../supabase', async () => {
+  const { createSupabaseMock } = await import('../../test/supabaseMock');
+  // Custom template ids are UUIDs
+  const supabase = createSupabaseMock(tables, {
+    newRow: (_table, seq) => ({
+      id: `00000000-0000-4000-8000-${String(seq).padStart(12, '0')}`,
+      created_at: new Date(Date.UTC(2025, 0, 1, 0, 0, seq)).toISOString(),
+    }),
+  });
+  return { supabase };
+});
+
+// Project roles keyed by `${userId}:${projectId}`
+vi.mock('../projectAccess', () => {
+  const order = ['viewer', 'commenter', 'editor', 'owner'];
+  return {
+    projectAccessService: {
+      canAccess: async (userId: string, projectId: string, minRole: string = 'viewer') => {
+        const role = roles[`${userId}:${projectId}`];
+        return Boolean(role) && order.indexOf(role) >= order.indexOf(minRole);
+      },
+    },
+  };
+});
+
+import { AnalysisTemplateService } from '../analysisTemplates';
+import { competitorAnalysisTemplate } from '../../config/analysis-templates';
+
+const regulatoryImpact = {
+  name: 'Regulatory Impact',
+  description: 'How new regulation affects the product',
+  fields: [
+    { id: 'regulation', label: 'Regulation', description: 'Which rule applies', type: 'text', required: true },
+    { id: 'obligations', label: 'Obligations', description: 'What we must do', type: 'list', required: false },
+  ],
+};
+
+describe('AnalysisTemplateService', () => {
+  let service: AnalysisTemplateService;
+  const originalAdmins = process.env.ADMIN_USER_IDS;
+
+  beforeEach(() => {
+    for (const table of Object.keys(tables)) delete tables[table];
+    for (const key of Object.keys(roles)) delete roles[key];
+    process.env.ADMIN_USER_IDS = 'alice';
+    service = new AnalysisTemplateService();
+  });
+
+  afterEach(() => {
+    if (originalAdmins === undefined) delete process.env.ADMIN_USER_IDS;
+    else process.env.ADMIN_USER_IDS = originalAdmins;
+  });
+
+  it('rejects unknown field types and duplicate field ids', async () => {
+    const fields = [
+      { id: 'impact', label: 'Impact', description: '', type: 'paragraph', required: true },
+      { id: 'impact', label: 'Impact again', description: '', type: 'text', required: true },
+    ];
+
+    await expect(service.createTemplate({ ...regulatoryImpact, fields }, 'alice')).rejects.toMatchObject({
+      status: 400,
+      message: expect.stringMatching(/fields\[0\]: type must be one of.*fields\[1\]: duplicate field id "impact"/),
+    });
+    expect(tables.analysis_templates || []).toHaveLength(0);
+  });
+
+  it('lists each template only to users in its scope', async () => {
+    roles['bob:p1'] = 'editor';
+    roles['carol:p1'] = 'viewer';
+    await service.createTemplate(regulatoryImpact, 'alice');
+    await service.createTemplate({ ...regulatoryImpact, name: 'Org Template', scope: 'organization' }, 'alice');
+    await service.createTemplate({ ...regulatoryImpact, name: 'Project Template', projectId: 'p1' }, 'bob');
+
+    const names = async (userId: string, projectId?: string) =>
+      (await service.listCustomTemplates(userId, projectId)).map(t => t.name);
+
+    expect(await names('alice')).toEqual(['Org Template', 'Regulatory Impact']);
+    expect(await names('carol', 'p1')).toEqual(['Org Template', 'Project Template']);
+    expect((await service.listTemplates('carol')).map(t => t.id)).toContain('competitor_analysis');
+
+    await expect(service.createTemplate({ ...regulatoryImpact, projectId: 'p1' }, 'carol'))
+      .rejects.toMatchObject({ status: 403 });
+  });
+
+  it('clones a built-in template as version 1 of a custom one', async () => {
+    const clone = await service.cloneTemplate('competitor_analysis', { name: 'Competitors (EU)' }, 'alice');
+
+    expect(clone).toMatchObject({
+      name: 'Competitors (EU)',
+      type: 'custom',
+      basedOn: 'competitor_analysis',
+      version: 1,
+      systemPrompt: competitorAnalysisTemplate.systemPrompt,
+    });
+    expect(clone.fields.map(f => f.id)).toEqual(competitorAnalysisTemplate.fields.map(f => f.id));
+    expect(await service.getTemplate(clone.id, 'alice')).toEqual(clone);
+    expect((await service.listVersions(clone.id, 'alice')).map(v => v.version)).toEqual([1]);
+  });
+
+  it('keeps a version per content change and restores an earlier one', async () => {
+    const created = await service.createTemplate(regulatoryImpact, 'alice');
+
+    const edited = await service.updateTemplate(created.id, {
+      fields: [...regulatoryImpact.fields, { id: 'deadline', label: 'Deadline', type: 'text' }],
+    }, 'alice');
+    expect(edited.version).toBe(2);
+    expect(edited.fields[2]).toEqual({ id: 'deadline', label: 'Deadline', description: '', type: 'text', required: false });
+
+    const shared = await service.updateTemplate(created.id, { scope: 'organization' }, 'alice');
+    expect(shared).toMatchObject({ scope: 'organization', version: 2 });
+
+    const restored = await service.restoreVersion(created.id, 1, 'alice');
+    expect(restored.version).toBe(3);
+    expect(restored.fields).toHaveLength(2);
+    expect((await service.listVersions(created.id, 'alice')).map(v => v.version)).toEqual([3, 2, 1]);
+  });
+
+  it('lets only the owner or project editors change a template', async () => {
+    roles['alice:p1'] = 'owner';
+    roles['bob:p1'] = 'editor';
+    roles['carol:p1'] = 'viewer';
+    const own = await service.createTemplate(regulatoryImpact, 'alice');
+    const org = await service.createTemplate({ ...regulatoryImpact, scope: 'organization' }, 'alice');
+    const project = await service.createTemplate({ ...regulatoryImpact, projectId: 'p1' }, 'alice');
+
+    await expect(service.getTemplate(own.id, 'bob')).rejects.toMatchObject({ status: 404 });
+    await expect(service.updateTemplate(org.id, { name: 'Mine now' }, 'bob')).rejects.toMatchObject({ status: 403 });
+    await expect(service.deleteTemplate(project.id, 'carol')).rejects.toMatchObject({ status: 403 });
+    await expect(service.updateTemplate('competitor_analysis', { name: 'x' }, 'alice')).rejects.toMatchObject({ status: 403 });
+
+    await service.deleteTemplate(project.id, 'bob');
+    await expect(service.getTemplate(project.id, 'alice')).rejects.toMatchObject({ status: 404 });
+  });
+
+  it('lets only admins share with the organization and only owners change the scope', async () => {
+    roles['bob:p1'] = 'editor';
+    roles['carol:p1'] = 'owner';
+    const own = await service.createTemplate(regulatoryImpact, 'bob');
+    const project = await service.createTemplate({ ...regulatoryImpact, projectId: 'p1' }, 'carol');
+
+    await expect(service.createTemplate({ ...regulatoryImpact, scope: 'organization' }, 'bob'))
+      .rejects.toMatchObject({ status: 403, message: expect.stringContaining('administrators') });
+    await expect(service.updateTemplate(own.id, { scope: 'organization' }, 'bob')).rejects.toMatchObject({ status: 403 });
+    await expect(service.cloneTemplate('competitor_analysis', { name: 'Ours', scope: 'organization' }, 'bob'))
+      .rejects.toMatchObject({ status: 403 });
+
+    // An editor may change the project template's content, but not who it is shared with
+    await expect(service.updateTemplate(project.id, { scope: 'user' }, 'bob'))
+      .rejects.toMatchObject({ status: 403, message: expect.stringContaining('owner') });
+    expect((await service.updateTemplate(project.id, { name: 'Regulation (edited)' }, 'bob')).scope).toBe('project');
+
+    expect(tables.analysis_templates.filter(row => row.scope === 'organization')).toHaveLength(0);
+  });
+
+  it('refuses to overwrite a template saved by someone else in the meantime', async () => {
+    const created = await service.createTemplate(regulatoryImpact, 'alice');
+    const stale = await service.getCustomTemplate(created.id, 'alice');
+    tables.analysis_templates[0].version = 2;
+
+    vi.spyOn(service, 'getCustomTemplate').mockResolvedValueOnce(stale);
+    await expect(service.updateTemplate(created.id, { name: 'Renamed' }, 'alice')).rejects.toMatchObject({ status: 409 });
+  });
+});
@@ -0,0 +1,154 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+// Minimal in-memory stand-in for the Supabase query builder
+const { tables } = vi.hoisted(() => ({ tables: {} as Record<string, any[]> }));
+
+vi.mock('../supabase', () => {
+  let seq = 0;
+
+  function query(table: string) {
+    const filters: Array<(row: any) => boolean> = [];
+    let action: 'select' | 'insert' | 'update' = 'select';
+    let payload: any = null;
+    let limit = Infinity;
+
+    const run = () => {
+      const rows = tables[table] || (tables[table] = []);
+      if (action === 'insert') {
+        const inserted = [].concat(payload).map((row: any) => {
+          seq++;
+          return { id: `row-${seq}`, seq, created_at: new Date(Date.UTC(2025, 0, 1, 0, 0, seq)).toISOString(), ...row };
+        });
+        rows.push(...inserted);
+        return inserted;
+      }
+      const matched = rows.filter(row => filters.every(f => f(row)));
+      if (action === 'update') matched.forEach(row => Object.assign(row, payload));
+      return matched.slice(0, limit);
+    };
+
+    const builder: any = {
+      select: () => builder,
+      order: () => builder,
+      limit: (count: number) => { limit = count; return builder; },
+      eq: (column: string, value: any) => { filters.push(row => row[column] === value); return builder; },
+      in: (column: string, values: any[]) => { filters.push(row => values.includes(row[column])); return builder; },
+      insert: (rows: any) => { action = 'insert'; payload = rows; return builder; },
+      update: (patch: any) => { action = 'update'; payload = patch; return builder; },
+      single: async () => {
+        const [row] = run();
+        return row ? { data: row, error: null } : { data: null, error: { message: 'not found' } };
+      },
+      then: (resolve: any, reject: any) => Promise.resolve({ data: run(), error: null }).then(resolve, reject),
+    };
+    return builder;
+  }
+
+  return { supabase: { from: query } };
+});
+
+import { ApprovalQueueService, applyProposal, ProposalInput } from '../approvalQueue';
+
+const source = {
+  agent: { name: 'PersistenceManager', reasoning: 'User committed to it', confidence: 92 },
+  intent: { type: 'deciding' as const, confidence: 88, reasoning: 'Explicit decision' },
+  userId: 'alice',
+  sourceMessageId: 'message-1',
+};
+
+const addition: ProposalInput = {
+  ...source,
+  change: { type: 'add', to: 'decided', item: 'Ship in March' },
+  item: { id: 'b', text: 'Ship in March', state: 'decided' },
+};
+
+const move: ProposalInput = {
+  ...source,
+  agent: { name: 'ContextManager', reasoning: 'Explicit decision', confidence: 88 },
+  change: { type: 'move', from: 'exploring', to: 'decided', item: 'Use Postgres' },
+  itemId: 'a',
+};
+
+describe('ApprovalQueueService', () => {
+  let service: ApprovalQueueService;
+
+  beforeEach(() => {
+    for (const key of Object.keys(tables)) delete tables[key];
+    tables.projects = [{ id: 'project-1', require_agent_approval: true, items: [{ id: 'a', text: 'Use Postgres', state: 'exploring' }] }];
+    tables.state_change_proposals = [];
+    tables.item_events = [];
+    service = new ApprovalQueueService();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  it('should queue proposals with the agent and intent reasoning without touching items', async () => {
+    const [queued] = await service.enqueue('project-1', [addition]);
+
+    expect(queued).toMatchObject({
+      status: 'pending',
+      change: { type: 'add', to: 'decided', item: 'Ship in March' },
+      itemId: 'b',
+      agent: { name: 'PersistenceManager', reasoning: 'User committed to it', confidence: 92 },
+      intent: { type: 'deciding', confidence: 88 },
+    });
+    expect(tables.projects[0].items).toHaveLength(1);
+    expect(await service.list('project-1')).toHaveLength(1);
+  });
+
+  it('should apply approved proposals in bulk and log them against the approver', async () => {
+    const proposals = await service.enqueue('project-1', [addition, move]);
+
+    const result = await service.approve('project-1', proposals.map(p => p.id), 'bob');
+
+    expect(result.failed).toEqual([]);
+    expect(result.items).toEqual([
+      expect.objectContaining({ id: 'a', state: 'decided', updated_by: 'bob' }),
+      expect.objectContaining({ id: 'b', state: 'decided' }),
+    ]);
+    expect(tables.projects[0].items).toBe(result.items);
+    expect(tables.item_events.map(e => [e.item_id, e.event_type, e.actor_id, e.source_message_id])).toEqual([
+      ['b', 'created', 'bob', 'message-1'],
+      ['a', 'moved', 'bob', 'message-1'],
+    ]);
+    expect(await service.list('project-1')).toEqual([]);
+    expect(await service.list('project-1', 'approved')).toHaveLength(2);
+  });
+
+  it('should reject proposals without changing items and refuse to decide twice', async () => {
+    const [proposal] = await service.enqueue('project-1', [move]);
+
+    const [rejected] = await service.reject('project-1', [proposal.id], 'bob', 'Not yet');
+
+    expect(rejected).toMatchObject({ status: 'rejected', decidedBy: 'bob', decisionNote: 'Not yet' });
+    expect(tables.projects[0].items[0].state).toBe('exploring');
+    await expect(service.approve('project-1', [proposal.id], 'bob')).rejects.toMatchObject({ status: 409 });
+    await expect(service.reject('project-1', ['missing'], 'bob')).rejects.toMatchObject({ status: 404 });
+    await expect(service.reject('project-1', [], 'bob')).rejects.toMatchObject({ status: 400 });
+  });
+
+  it('should reject proposals that no longer apply when approving', async () => {
+    const [proposal] = await service.enqueue('project-1', [{ ...move, itemId: 'gone' }]);
+
+    const result = await service.approve('project-1', [proposal.id], 'bob');
+
+    expect(result.approved).toEqual([]);
+    expect(result.failed).toEqual([{ id: proposal.id, error: 'Item no longer exists' }]);
+    expect(tables.state_change_proposals[0]).toMatchObject({ status: 'rejected', decision_note: 'Item no longer exists' });
+  });
+
+  it('should queue agent changes when the setting cannot be read', async () => {
+    expect(await service.isApprovalRequired('project-1')).toBe(true);
+    await service.updateSettings('project-1', { requireApproval: false });
+    expect(await service.isApprovalRequired('project-1')).toBe(false);
+
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    expect(await service.isApprovalRequired('missing-project')).toBe(true);
+  });
+
+  describe('applyProposal', () => {
+    it('should delete the target item', () => {
+      const proposal: any = { change: { type: 'delete', item: 'Use Postgres' }, itemId: 'a' };
+      expect(applyProposal([{ id: 'a' }, { id: 'b' }], proposal)).toEqual([{ id: 'b' }]);
+    });
+  });
+});
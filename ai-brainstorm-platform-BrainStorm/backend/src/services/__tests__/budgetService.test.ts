@@ -0,0 +1,112 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { BudgetService, getBudgetLevel, getPeriodStart } from '../budgetService';
+import { tokenMetrics } from '../tokenMetrics';
+import { AI_MODELS, BUDGET_DEFAULTS, getModelForBudget } from '../../config/aiModels';
+import { runWithUsageContext } from '../usageContext';
+import { ScriptedProvider, setLLMProvider } from '../llmProvider';
+import { BaseAgent } from '../../agents/base';
+
+class SynthesisAgent extends BaseAgent {
+  constructor() {
+    super('synthesis', 'system', AI_MODELS.SONNET);
+  }
+
+  async run(): Promise<string> {
+    return this.callClaude([{ role: 'user', content: 'synthesize' }]);
+  }
+}
+
+describe('BudgetService', () => {
+  const originalProjectDefaults = { ...BUDGET_DEFAULTS.project };
+  let service: BudgetService;
+
+  beforeEach(() => {
+    tokenMetrics.reset();
+    service = new BudgetService();
+  });
+
+  afterEach(() => {
+    Object.assign(BUDGET_DEFAULTS.project, originalProjectDefaults);
+    tokenMetrics.reset();
+  });
+
+  describe('getBudgetLevel', () => {
+    it('should classify spend against soft and hard limits', () => {
+      const limit = { softLimitUSD: 10, hardLimitUSD: 20 };
+      expect(getBudgetLevel(5, limit)).toBe('ok');
+      expect(getBudgetLevel(10, limit)).toBe('soft');
+      expect(getBudgetLevel(25, limit)).toBe('hard');
+    });
+
+    it('should treat missing limits as unlimited', () => {
+      expect(getBudgetLevel(1_000_000, { softLimitUSD: null, hardLimitUSD: null })).toBe('ok');
+    });
+  });
+
+  describe('getPeriodStart', () => {
+    it('should start daily and monthly periods at UTC midnight', () => {
+      const now = new Date('2025-03-17T15:30:00Z');
+      expect(getPeriodStart('daily', now).toISOString()).toBe('2025-03-17T00:00:00.000Z');
+      expect(getPeriodStart('monthly', now).toISOString()).toBe('2025-03-01T00:00:00.000Z');
+    });
+  });
+
+  describe('getStatus', () => {
+    it('should be ok when no budgets are configured', async () => {
+      Object.assign(BUDGET_DEFAULTS.project, { softLimitUSD: null, hardLimitUSD: null });
+      const status = await service.getStatus('project-1');
+      expect(status.level).toBe('ok');
+      expect(status.reason).toBeUndefined();
+    });
+
+    it('should report the hard level with an explanation once spend passes the cap', async () => {
+      Object.assign(BUDGET_DEFAULTS.project, { period: 'monthly', softLimitUSD: 0.001, hardLimitUSD: 0.002 });
+      tokenMetrics.recordUsage({
+        agentName: 'ConversationAgent',
+        projectId: 'project-1',
+        model: AI_MODELS.SONNET,
+        inputTokens: 1000,
+        outputTokens: 1000,
+      });
+
+      const status = await service.getStatus('project-1');
+
+      expect(status.level).toBe('hard');
+      expect(status.project?.spendUSD).toBeGreaterThan(0.002);
+      expect(status.reason).toContain('Background agents');
+    });
+
+    it('should only count spend for the requested project', async () => {
+      Object.assign(BUDGET_DEFAULTS.project, { softLimitUSD: 0.001, hardLimitUSD: null });
+      tokenMetrics.recordUsage({
+        agentName: 'ConversationAgent',
+        projectId: 'other-project',
+        model: AI_MODELS.SONNET,
+        inputTokens: 1000,
+        outputTokens: 1000,
+      });
+
+      const status = await service.getStatus('project-1');
+      expect(status.level).toBe('ok');
+    });
+  });
+
+  describe('model downgrades', () => {
+    afterEach(() => setLLMProvider(null));
+
+    it('should map models to cheaper ones only when over budget', () => {
+      expect(getModelForBudget(AI_MODELS.SONNET, 'ok')).toBe(AI_MODELS.SONNET);
+      expect(getModelForBudget(AI_MODELS.SONNET, 'soft')).toBe(AI_MODELS.HAIKU);
+      expect(getModelForBudget(AI_MODELS.HAIKU, 'hard')).toBe(AI_MODELS.HAIKU);
+    });
+
+    it('should downgrade agent calls made under a soft budget context', async () => {
+      const provider = new ScriptedProvider({ defaultResponse: 'ok' });
+      setLLMProvider(provider);
+
+      await runWithUsageContext({ budgetLevel: 'soft' }, () => new SynthesisAgent().run());
+
+      expect(provider.getCalls()[0].model).toBe(AI_MODELS.HAIKU);
+    });
+  });
+});
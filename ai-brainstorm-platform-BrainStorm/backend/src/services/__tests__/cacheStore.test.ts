@@ -0,0 +1,310 @@
+import { describe, it, expect, beforeEach, afterEach, beforeAll, afterAll, vi } from 'vitest';
+import net from 'net';
+
+vi.mock('../supabase', () => ({ supabase: { from: vi.fn() } }));
+
+import {
+  MemoryCacheStore,
+  RedisCacheStore,
+  RedisConnection,
+  CacheStore,
+  setCacheStore,
+  invalidateProjectCaches,
+} from '../cacheStore';
+import { ResponseCache } from '../responseCache';
+import { updatesCache } from '../updatesCache';
+import type { AgentResponse } from '../../types';
+
+/**
+ * Local stand-in for a Redis server: speaks enough RESP for RedisCacheStore
+ * (strings with PX expiry, sets, hashes, SCAN) over a real socket.
+ */
+function startRedisStandIn(): Promise<{ server: net.Server; url: string; commands: string[][] }> {
+  const values = new Map<string, { value: string; expiresAt: number | null }>();
+  const sets = new Map<string, Set<string>>();
+  const hashes = new Map<string, Map<string, number>>();
+  const commands: string[][] = [];
+
+  const live = (key: string) => {
+    const entry = values.get(key);
+    if (entry && entry.expiresAt !== null && entry.expiresAt <= Date.now()) values.delete(key);
+    return values.get(key);
+  };
+  const bulk = (value: string | null) => (value === null ? '$-1\r\n' : `$${Buffer.byteLength(value)}\r\n${value}\r\n`);
+  const array = (items: string[]) => `*${items.length}\r\n${items.map(bulk).join('')}`;
+  const globToRegExp = (glob: string) =>
+    new RegExp(`^${glob.replace(/\\([*?[\]\\])|([.+^${}()|])|(\*)/g, (_, escaped, special, star) =>
+      escaped ? `\\${escaped}` : special ? `\\${special}` : star ? '.*' : '')}$`);
+
+  const execute = ([name, ...args]: string[]): string => {
+    switch (name.toUpperCase()) {
+      case 'AUTH':
+        return args[args.length - 1] === 'secret' ? '+OK\r\n' : '-WRONGPASS invalid username-password pair\r\n';
+      case 'SELECT':
+        return '+OK\r\n';
+      case 'GET':
+        return bulk(live(args[0])?.value ?? null);
+      case 'GETDEL': {
+        const entry = live(args[0]);
+        values.delete(args[0]);
+        return bulk(entry?.value ?? null);
+      }
+      case 'SET': {
+        const px = args.indexOf('PX');
+        values.set(args[0], { value: args[1], expiresAt: px > -1 ? Date.now() + Number(args[px + 1]) : null });
+        return '+OK\r\n';
+      }
+      case 'EXISTS':
+        return `:${live(args[0]) ? 1 : 0}\r\n`;
+      case 'DEL': {
+        let removed = 0;
+        for (const key of args) {
+          if (live(key) || sets.has(key) || hashes.has(key)) removed++;
+          values.delete(key);
+          sets.delete(key);
+          hashes.delete(key);
+        }
+        return `:${removed}\r\n`;
+      }
+      case 'SADD': {
+        if (!sets.has(args[0])) sets.set(args[0], new Set());
+        args.slice(1).forEach(member => sets.get(args[0])!.add(member));
+        return `:${args.length - 1}\r\n`;
+      }
+      case 'SMEMBERS':
+        return array(Array.from(sets.get(args[0]) || []));
+      case 'EXPIRE':
+        return ':1\r\n';
+      case 'SCAN': {
+        const pattern = globToRegExp(args[args.indexOf('MATCH') + 1]);
+        const keys = Array.from(values.keys()).filter(key => live(key) && pattern.test(key));
+        return `*2\r\n${bulk('0')}${array(keys)}`;
+      }
+      case 'HINCRBY': {
+        if (!hashes.has(args[0])) hashes.set(args[0], new Map());
+        const hash = hashes.get(args[0])!;
+        hash.set(args[1], (hash.get(args[1]) || 0) + Number(args[2]));
+        return `:${hash.get(args[1])}\r\n`;
+      }
+      case 'HGETALL':
+        return array(Array.from(hashes.get(args[0]) || []).flatMap(([field, value]) => [field, String(value)]));
+      default:
+        return `-ERR unknown command '${name}'\r\n`;
+    }
+  };
+
+  const server = net.createServer(socket => {
+    let buffer = '';
+    socket.on('data', chunk => {
+      buffer += chunk.toString('utf8');
+      // Requests are arrays of bulk strings; test values contain no CRLF, so lines can be split directly
+      while (buffer.startsWith('*')) {
+        const lines = buffer.split('\r\n');
+        const count = Number(lines[0].slice(1));
+        if (lines.length < 1 + count * 2 + 1) return;
+        const args: string[] = [];
+        for (let i = 0; i < count; i++) args.push(lines[2 + i * 2]);
+        buffer = lines.slice(1 + count * 2).join('\r\n');
+        commands.push(args);
+        socket.write(execute(args));
+      }
+    });
+  });
+
+  return new Promise(resolve => {
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as net.AddressInfo;
+      resolve({ server, url: `redis://127.0.0.1:${port}/2`, commands });
+    });
+  });
+}
+
+describe('MemoryCacheStore', () => {
+  let store: MemoryCacheStore;
+
+  beforeEach(() => {
+    store = new MemoryCacheStore('test');
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    await store.close();
+  });
+
+  it('expires entries after their TTL', async () => {
+    vi.useFakeTimers();
+    await store.set('a', { value: 1 }, { ttlSeconds: 10 });
+
+    expect(await store.get('a')).toEqual({ value: 1 });
+    vi.advanceTimersByTime(10_001);
+    expect(await store.get('a')).toBeNull();
+  });
+
+  it('hands an entry to only one taker', async () => {
+    await store.set('updates:p1', { items: [] });
+
+    expect(await store.take('updates:p1')).toEqual({ items: [] });
+    expect(await store.take('updates:p1')).toBeNull();
+  });
+
+  it('invalidates entries by tag and deletes by pattern within a prefix', async () => {
+    await store.set('response:a', 1, { tags: ['project:p1'] });
+    await store.set('response:b', 2, { tags: ['project:p2'] });
+    await store.set('research:search:p1', 3);
+
+    expect(await store.invalidateTags(['project:p1'])).toBe(1);
+    expect(await store.get('response:a')).toBeNull();
+    expect(await store.get('response:b')).toBe(2);
+
+    expect(await store.deleteMatching('p1', 'response:')).toBe(0);
+    expect(await store.deleteMatching('p1', 'research:')).toBe(1);
+    expect(await store.countKeys()).toBe(1);
+  });
+});
+
+describe('RedisCacheStore (against a local stand-in)', () => {
+  let standIn: Awaited<ReturnType<typeof startRedisStandIn>>;
+  let instanceA: RedisCacheStore;
+  let instanceB: RedisCacheStore;
+
+  beforeAll(async () => {
+    standIn = await startRedisStandIn();
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => standIn.server.close(resolve));
+  });
+
+  beforeEach(() => {
+    // Two backend instances sharing one server
+    instanceA = new RedisCacheStore(standIn.url, 'bs');
+    instanceB = new RedisCacheStore(standIn.url, 'bs');
+  });
+
+  afterEach(async () => {
+    await instanceA.clear();
+    await instanceA.close();
+    await instanceB.close();
+  });
+
+  it('shares entries, tags and counters between instances', async () => {
+    await instanceA.set('response:x', { text: 'héllo' }, { ttlSeconds: 60, tags: ['project:p1'] });
+    await instanceA.incrementStat('responses', 'hits');
+    await instanceB.incrementStat('responses', 'hits', 2);
+
+    expect(await instanceB.get('response:x')).toEqual({ text: 'héllo' });
+    expect(await instanceA.getStats('responses')).toEqual({ hits: 3 });
+
+    expect(await instanceB.invalidateTags(['project:p1'])).toBe(1);
+    expect(await instanceA.get('response:x')).toBeNull();
+
+    expect(standIn.commands).toContainEqual(['SELECT', '2']);
+    expect(standIn.commands).toContainEqual(['SET', 'bs:v:response:x', '{"text":"héllo"}', 'PX', '60000']);
+  });
+
+  it('delivers pending updates to exactly one instance', async () => {
+    await instanceA.set('updates:p1', { itemsAdded: [1] }, { ttlSeconds: 30 });
+
+    const [fromA, fromB] = await Promise.all([instanceA.take('updates:p1'), instanceB.take('updates:p1')]);
+    expect([fromA, fromB].filter(Boolean)).toEqual([{ itemsAdded: [1] }]);
+  });
+
+  it('clears and counts only keys under a prefix', async () => {
+    await instanceA.set('research:search:a', 1);
+    await instanceA.set('research:search:b', 2);
+    await instanceA.set('response:c', 3);
+
+    expect(await instanceB.countKeys('research:')).toBe(2);
+    expect(await instanceB.clear('research:')).toBe(2);
+    expect(await instanceA.get('response:c')).toBe(3);
+  });
+
+  it('treats an unreachable server as a cache miss', async () => {
+    const closed = await startRedisStandIn();
+    await new Promise(resolve => closed.server.close(resolve));
+    const store = new RedisCacheStore(closed.url, 'bs');
+    const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    await expect(store.set('a', 1)).resolves.toBeUndefined();
+    expect(await store.get('a')).toBeNull();
+    expect(await store.invalidateTags(['project:p1'])).toBe(0);
+
+    consoleSpy.mockRestore();
+    await store.close();
+  });
+
+  it('reports failed authentication instead of the commands behind it', async () => {
+    const authenticated = new RedisConnection(standIn.url.replace('redis://', 'redis://app:secret@'));
+    await expect(authenticated.command(['SET', 'bs:v:auth', '1'])).resolves.toBe('OK');
+    authenticated.close();
+
+    const rejected = new RedisConnection(standIn.url.replace('redis://', 'redis://app:wrong@'));
+    await expect(rejected.command(['GET', 'bs:v:auth'])).rejects.toThrow('Redis AUTH failed: WRONGPASS invalid username-password pair');
+    rejected.close();
+  });
+
+  it('speaks TLS for rediss:// and refuses other schemes', async () => {
+    // The stand-in only speaks plain TCP, so the TLS handshake fails rather than sending in plaintext
+    const secure = new RedisConnection(standIn.url.replace('redis://', 'rediss://'), 500);
+    await expect(secure.command(['GET', 'bs:v:x'])).rejects.toThrow();
+    secure.close();
+    expect(standIn.commands).not.toContainEqual(['GET', 'bs:v:x']);
+
+    await expect(new RedisConnection('http://127.0.0.1:6379').command(['GET', 'x'])).rejects.toThrow('Unsupported cache store URL scheme');
+  });
+});
+
+describe('caches on the shared store', () => {
+  let store: CacheStore;
+
+  beforeEach(() => {
+    store = new MemoryCacheStore('test');
+    setCacheStore(store);
+  });
+
+  afterEach(async () => {
+    setCacheStore(undefined);
+    await store.close();
+  });
+
+  it('drops cached agent responses when their project changes', async () => {
+    const cache = new ResponseCache();
+    const response = { agent: 'QualityAuditor', message: 'gaps', showToUser: true } as unknown as AgentResponse;
+    const state = { decided: [], exploring: [], parked: [] };
+    const keyP1 = cache.generateKey('gapDetection', 'what is missing?', state, []);
+    const keyP2 = keyP1.replace('gapDetection', 'questioner');
+
+    await cache.set(keyP1, 'gapDetection', response, 'what is missing?', 'p1');
+    await cache.set(keyP2, 'questioner', response, 'what is missing?', 'p2');
+    expect(await cache.get(keyP1)).toEqual(response);
+
+    expect(await invalidateProjectCaches('p1')).toBe(1);
+    expect(await cache.get(keyP1)).toBeNull();
+    expect(await cache.get(keyP2)).toEqual(response);
+
+    const stats = await cache.getStats();
+    expect(stats).toMatchObject({ hits: 2, misses: 1, currentSize: 1, hitRate: 66.7 });
+  });
+
+  it('keeps pending workflow updates in the store until they are read once', async () => {
+    await updatesCache.set('p1', { itemsAdded: [{ id: 'i1' }], itemsModified: [], itemsMoved: [], timestamp: 0 });
+
+    expect(await updatesCache.has('p1')).toBe(true);
+    expect((await updatesCache.get('p1'))?.itemsAdded).toEqual([{ id: 'i1' }]);
+    expect(await updatesCache.get('p1')).toBeNull();
+  });
+
+  it('puts back updates a disconnected reader took, ahead of newer ones', async () => {
+    await updatesCache.set('p1', { itemsAdded: [{ id: 'i1' }], itemsModified: [], itemsMoved: [], timestamp: 0 });
+    const taken = await updatesCache.get('p1');
+    await updatesCache.set('p1', {
+      itemsAdded: [{ id: 'i2' }], itemsModified: [], itemsMoved: [], timestamp: 0, workflow: { intent: 'deciding', confidence: 90 },
+    });
+
+    await updatesCache.putBack('p1', taken!);
+
+    const updates = await updatesCache.get('p1');
+    expect(updates?.itemsAdded).toEqual([{ id: 'i1' }, { id: 'i2' }]);
+    expect(updates?.workflow).toEqual({ intent: 'deciding', confidence: 90 });
+  });
+});
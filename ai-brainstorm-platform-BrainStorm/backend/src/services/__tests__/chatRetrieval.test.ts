@@ -0,0 +1,112 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../supabase', () => ({ supabase: { from: vi.fn() } }));
+
+import { ChatRetrievalService, extractCitations, formatSourcesForPrompt, RetrievedSource } from '../chatRetrieval';
+import type { HybridSearchResult, HybridSearchService } from '../hybridSearch';
+
+const passage = {
+  chunkIndex: 4,
+  content: 'Seats are capped at 50 per workspace on the Team plan.',
+  location: 'p. 3 · Pricing',
+  pageStart: 3,
+  pageEnd: 3,
+  section: 'Pricing',
+  charStart: 5200,
+  charEnd: 5254,
+  startSeconds: null,
+  endSeconds: null,
+};
+
+const result = (overrides: Partial<HybridSearchResult>): HybridSearchResult => ({
+  id: 'ref-1',
+  type: 'reference',
+  projectId: 'project-1',
+  title: 'Vendor quote.pdf',
+  snippet: passage.content,
+  date: '2026-01-01T00:00:00Z',
+  score: 0.8,
+  keywordScore: 1,
+  vectorScore: 0.6,
+  passage,
+  passages: [passage],
+  record: {},
+  ...overrides,
+});
+
+function serviceReturning(results: HybridSearchResult[]) {
+  const search = vi.fn().mockResolvedValue(results);
+  return { service: new ChatRetrievalService({ search } as unknown as HybridSearchService), search };
+}
+
+describe('ChatRetrievalService.retrieve', () => {
+  it('numbers the strongest passages and drops weak matches and messages already in context', async () => {
+    const { service, search } = serviceReturning([
+      result({}),
+      result({ id: 'msg-recent', type: 'message', title: 'You', passage: null, snippet: 'How many seats do we get?', score: 0.7 }),
+      result({ id: 'doc-1', type: 'generated_document', title: 'PRD', passage: null, snippet: 'Launch with 40 seats.', score: 0.5 }),
+      result({ id: 'ref-2', title: 'Unrelated.pdf', score: 0.1 }),
+    ]);
+
+    const sources = await service.retrieve('project-1', 'how many seats on the team plan', {
+      excludeMessageIds: Promise.resolve(['msg-recent']),
+    });
+
+    expect(search).toHaveBeenCalledWith(['project-1'], 'how many seats on the team plan', {
+      types: ['reference', 'generated_document', 'message'],
+      limit: 15,
+    });
+    expect(sources.map(s => [s.marker, s.sourceId])).toEqual([[1, 'ref-1'], [2, 'doc-1']]);
+    expect(sources[0]).toMatchObject({ location: 'p. 3 · Pricing', pageStart: 3, charStart: 5200, charEnd: 5254, quote: passage.content });
+    expect(formatSourcesForPrompt(sources)).toContain('[1] Reference "Vendor quote.pdf" (p. 3 · Pricing):\nSeats are capped');
+  });
+
+  it('skips search for short messages and answers without sources when search fails', async () => {
+    const { service, search } = serviceReturning([]);
+    expect(await service.retrieve('project-1', 'ok thanks')).toEqual([]);
+    expect(search).not.toHaveBeenCalled();
+
+    search.mockRejectedValueOnce(new Error('database down'));
+    expect(await service.retrieve('project-1', 'what did the vendor quote say')).toEqual([]);
+  });
+
+  it('answers without sources when search runs past its latency budget', async () => {
+    const { service, search } = serviceReturning([]);
+    search.mockReturnValueOnce(new Promise(resolve => setTimeout(() => resolve([result({})]), 200)));
+
+    expect(await service.retrieve('project-1', 'what did the vendor quote say', { timeoutMs: 20 })).toEqual([]);
+  });
+});
+
+describe('extractCitations', () => {
+  const source = (marker: number, sourceId: string): RetrievedSource => ({
+    marker,
+    sourceType: 'reference',
+    sourceId,
+    title: sourceId,
+    location: null,
+    pageStart: null,
+    pageEnd: null,
+    charStart: null,
+    charEnd: null,
+    startSeconds: null,
+    quote: `Quote from ${sourceId}`,
+    score: 0.5,
+  });
+
+  it('renumbers used markers in order, splits lists and removes unknown markers', () => {
+    const sources = [source(1, 'a'), source(2, 'b'), source(3, 'c')];
+    const { message, citations } = extractCitations(
+      'Seats are capped at 50 [3]. Both quotes agree [1, 3], unlike the survey [7].',
+      sources
+    );
+
+    expect(message).toBe('Seats are capped at 50 [1]. Both quotes agree [2][1], unlike the survey.');
+    expect(citations.map(c => [c.marker, c.sourceId])).toEqual([[1, 'c'], [2, 'a']]);
+    expect(citations[0]).not.toHaveProperty('score');
+  });
+
+  it('leaves replies without markers untouched', () => {
+    expect(extractCitations('Sounds like a plan!', [source(1, 'a')])).toEqual({ message: 'Sounds like a plan!', citations: [] });
+  });
+});
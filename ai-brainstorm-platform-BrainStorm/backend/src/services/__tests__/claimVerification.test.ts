@@ -0,0 +1,120 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../supabase', () => ({ supabase: { from: vi.fn() } }));
+vi.mock('../../utils/projectHelpers', () => ({
+  getRawProjectItems: vi.fn().mockResolvedValue([
+    { id: 'item-1', text: 'Seats are capped at 50 per workspace', state: 'decided' },
+    { id: 'item-2', text: 'Maybe offer a free tier', state: 'exploring' },
+  ]),
+}));
+
+import { ClaimVerificationService, getVerification, hashContent, splitIntoClaims } from '../claimVerification';
+import { QualityAuditorAgent } from '../../agents/qualityAuditor';
+import type { EmbeddingService } from '../embeddingService';
+import { hybridRank } from '../hybridSearch';
+import type { HybridSearchResult, HybridSearchService } from '../hybridSearch';
+
+const prd = `# Pricing PRD
+
+## Plans
+- The Team plan caps **seats** at 50 per workspace. Billing runs monthly.
+- [ ] Should we add SSO?
+
+| Plan | Price per seat |
+|------|-------|
+| Team | $12 |
+
+\`\`\`
+seats = 50 per workspace always
+\`\`\`
+
+---
+The Enterprise plan includes a dedicated support engineer.`;
+
+describe('splitIntoClaims', () => {
+  it('splits sentences, list entries and table rows with their ranges and sections', () => {
+    const claims = splitIntoClaims(prd);
+
+    expect(claims.map(c => c.text)).toEqual([
+      'The Team plan caps seats at 50 per workspace.',
+      'Plan; Price per seat',
+      'The Enterprise plan includes a dedicated support engineer.',
+    ]);
+    expect(prd.slice(claims[0].charStart, claims[0].charEnd)).toBe('The Team plan caps **seats** at 50 per workspace.');
+    expect(claims[0].section).toBe('Plans');
+    expect(claims.map(c => c.index)).toEqual([0, 1, 2]);
+  });
+});
+
+describe('ClaimVerificationService.verifyContent', () => {
+  const messages = [
+    { id: 'msg-1', text: 'Billing should run monthly, no annual contracts', role: 'user' },
+    { id: 'msg-2', text: 'The Enterprise plan includes a dedicated support engineer', role: 'assistant' },
+  ];
+
+  function service() {
+    // Ranks the project's messages the way the search RPC would by keywords
+    const search = {
+      search: vi.fn(async (_projectIds: string[], query: string): Promise<HybridSearchResult[]> =>
+        hybridRank(query, null, messages).map(score => {
+          const message = messages.find(m => m.id === score.id)!;
+          return {
+            id: message.id,
+            type: 'message' as const,
+            projectId: 'project-1',
+            title: 'You',
+            snippet: message.text,
+            date: '2026-01-01T00:00:00Z',
+            score: score.score,
+            keywordScore: score.keywordScore,
+            vectorScore: score.vectorScore,
+            passage: null,
+            passages: [],
+            record: { role: message.role },
+          };
+        })
+      ),
+    };
+    const embeddings = { isConfigured: () => false };
+    return {
+      service: new ClaimVerificationService(
+        search as unknown as HybridSearchService,
+        embeddings as unknown as EmbeddingService
+      ),
+      search,
+    };
+  }
+
+  it('labels claims from the model and marks claims without evidence unsupported', async () => {
+    const judge = vi.spyOn(QualityAuditorAgent.prototype, 'judgeClaims').mockResolvedValue([
+      { index: 0, status: 'supported', evidence: [1], explanation: 'Matches the seat cap decision.' },
+      { index: 1, status: 'contradicted', evidence: [1], explanation: 'Billing was decided monthly.' },
+    ]);
+    const content = 'Seats are capped at 50 per workspace. Billing runs annually with contracts. The Enterprise plan includes a dedicated support engineer.';
+
+    const { service: verifier, search } = service();
+    const result = await verifier.verifyContent('project-1', content);
+
+    expect(search.search).toHaveBeenCalledTimes(3);
+    expect(search.search).toHaveBeenCalledWith(['project-1'], 'Billing runs annually with contracts.', expect.objectContaining({
+      types: ['reference', 'message'],
+      limit: 6,
+    }));
+    expect(judge).toHaveBeenCalledTimes(1);
+    expect(judge.mock.calls[0][0].map(c => c.index)).toEqual([0, 1]);
+
+    expect(result.claims.map(c => c.status)).toEqual(['supported', 'contradicted', 'unsupported']);
+    expect(result.claims[0].evidence).toEqual([
+      expect.objectContaining({ sourceType: 'item', sourceId: 'item-1', title: 'Decided item' }),
+    ]);
+    expect(result.claims[1].evidence[0]).toMatchObject({ sourceType: 'message', sourceId: 'msg-1' });
+    // Only the assistant said it, which is no evidence
+    expect(result.claims[2].evidence).toEqual([]);
+    expect(result.counts).toEqual({ supported: 1, unsupported: 1, contradicted: 1 });
+    expect(result.contentHash).toBe(hashContent(content));
+
+    expect(getVerification({ content, metadata: { verification: result } }).stale).toBe(false);
+    expect(getVerification({ content: `${content} Edited.`, metadata: { verification: result } }).stale).toBe(true);
+    judge.mockRestore();
+  });
+});
@@ -0,0 +1,130 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+
+vi.mock('../supabase', () => ({ supabase: { from: vi.fn(), rpc: vi.fn() } }));
+
+import { tokenize, hybridRank, parseEmbedding, HybridSearchService } from '../hybridSearch';
+import { supabase } from '../supabase';
+import type { EmbeddingService } from '../embeddingService';
+import { getEmbeddingConfig } from '../../config/aiModels';
+import { createEmbeddingProvider, LocalEmbeddingProvider } from '../embeddingProvider';
+
+const documents = [
+  { id: 'catalog', text: 'Product catalog: SKU-1042 is the compact blender, SKU-2210 the kettle.', embedding: [0.2, 0.9, 0.1] },
+  { id: 'kitchen', text: 'Ideas for kitchen appliances that blend and heat drinks.', embedding: [0.9, 0.3, 0.1] },
+  { id: 'hiring', text: 'Hiring plan for the support team in Q3.', embedding: [0, 0.1, 1] },
+];
+
+describe('tokenize', () => {
+  it('keeps codes whole and also indexes their parts', () => {
+    expect(tokenize('Ship SKU-1042 in v2.1')).toEqual(['ship', 'sku-1042', 'sku', '1042', 'in', 'v2.1', 'v2', '1']);
+  });
+});
+
+describe('hybridRank', () => {
+  it('ranks an exact code match first even when vectors favour another item', () => {
+    const ranked = hybridRank('SKU-1042', [1, 0.2, 0], documents);
+
+    expect(ranked[0].id).toBe('catalog');
+    expect(ranked[0].keywordScore).toBe(1);
+    expect(ranked.map(r => r.id)).not.toContain('hiring');
+  });
+
+  it('ranks by keywords alone when there is no query embedding', () => {
+    const ranked = hybridRank('kitchen appliances', null, documents);
+
+    expect(ranked).toHaveLength(1);
+    expect(ranked[0]).toMatchObject({ id: 'kitchen', score: 1, vectorScore: null });
+  });
+
+  it('finds paraphrases by vector and ignores vectors of another model', () => {
+    const ranked = hybridRank('drink machines', [1, 0.3, 0], [
+      ...documents,
+      { id: 'other-model', text: 'Smoothie makers', embedding: [1, 0.3, 0, 0.5] },
+    ]);
+
+    expect(ranked.map(r => r.id)).toEqual(['kitchen', 'catalog']);
+    expect(ranked[0].keywordScore).toBe(0);
+    expect(ranked[0].vectorScore).toBeGreaterThan(0.9);
+  });
+});
+
+describe('HybridSearchService.search', () => {
+  // Resolves a query-builder chain with the rows of its table
+  function from(rows: Record<string, any[]>) {
+    return (table: string) => {
+      const builder: any = {
+        select: () => builder,
+        in: () => builder,
+        then: (resolve: any, reject: any) => Promise.resolve({ data: rows[table] || [], error: null }).then(resolve, reject),
+      };
+      return builder;
+    };
+  }
+
+  it('fuses the ranked matches from the database and reads only the returned items', async () => {
+    vi.mocked(supabase.rpc).mockResolvedValue({
+      data: [
+        { source_type: 'reference', item_id: 'ref-1', chunk_index: 4, keyword_rank: 0.2, vector_similarity: null },
+        { source_type: 'reference', item_id: 'ref-1', chunk_index: 4, keyword_rank: null, vector_similarity: 0.8 },
+        { source_type: 'message', item_id: 'msg-1', chunk_index: null, keyword_rank: 0.1, vector_similarity: null },
+        { source_type: 'message', item_id: 'msg-2', chunk_index: null, keyword_rank: null, vector_similarity: 0.1 },
+      ],
+      error: null,
+    } as any);
+    vi.mocked(supabase.from).mockImplementation(from({
+      references: [{ id: 'ref-1', project_id: 'p1', filename: 'catalog.pdf', created_at: '2026-01-01', metadata: {} }],
+      messages: [{ id: 'msg-1', project_id: 'p1', role: 'user', content: 'Which SKU is the blender?', created_at: '2026-01-02' }],
+      reference_chunks: [
+        { reference_id: 'ref-1', chunk_index: 4, content: 'SKU-1042 is the compact blender', page_start: 3, page_end: 3 },
+      ],
+    }) as any);
+
+    const embeddings = { isConfigured: () => true, generateEmbedding: vi.fn() };
+    const service = new HybridSearchService(embeddings as unknown as EmbeddingService);
+    const results = await service.search(['p1'], 'SKU-1042 blender', { queryEmbedding: [1, 0], limit: 5 });
+
+    expect(embeddings.generateEmbedding).not.toHaveBeenCalled();
+    expect(supabase.rpc).toHaveBeenCalledWith('hybrid_search_matches', expect.objectContaining({
+      project_ids: ['p1'],
+      query_terms: ['sku-1042', 'sku', '1042', 'blender'],
+      query_embedding: [1, 0],
+      match_count: 30,
+    }));
+    // msg-2 matched neither way well enough
+    expect(results.map(r => r.id)).toEqual(['ref-1', 'msg-1']);
+    expect(results[0]).toMatchObject({ keywordScore: 1, vectorScore: 0.8, title: 'catalog.pdf', snippet: 'SKU-1042 is the compact blender' });
+    expect(results[0].passage?.pageStart).toBe(3);
+    expect(results[1]).toMatchObject({ title: 'You', keywordScore: 0.5, passage: null });
+  });
+});
+
+describe('parseEmbedding', () => {
+  it('reads arrays and pgvector strings', () => {
+    expect(parseEmbedding([0.1, 0.2])).toEqual([0.1, 0.2]);
+    expect(parseEmbedding('[0.1,0.2]')).toEqual([0.1, 0.2]);
+    expect(parseEmbedding(null)).toBeNull();
+  });
+});
+
+describe('embedding provider configuration', () => {
+  const saved = { ...process.env };
+  afterEach(() => {
+    process.env = { ...saved };
+  });
+
+  it('defaults to a local model when no OpenAI key is set', () => {
+    delete process.env.EMBEDDING_PROVIDER;
+    delete process.env.EMBEDDING_MODEL;
+    delete process.env.EMBEDDING_DIMENSIONS;
+    delete process.env.OPENAI_API_KEY;
+
+    const config = getEmbeddingConfig();
+    expect(config).toMatchObject({ type: 'local', model: 'Xenova/all-MiniLM-L6-v2', dimensions: 384 });
+    expect(createEmbeddingProvider(config)).toBeInstanceOf(LocalEmbeddingProvider);
+  });
+
+  it('turns embeddings off with EMBEDDING_PROVIDER=none', () => {
+    process.env.EMBEDDING_PROVIDER = 'none';
+    expect(createEmbeddingProvider(getEmbeddingConfig())).toBeNull();
+  });
+});
@@ -0,0 +1,182 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+// Minimal in-memory stand-in for the Supabase query builder
+const { tables } = vi.hoisted(() => ({ tables: {} as Record<string, any[]> }));
+
+vi.mock('../supabase', () => {
+  let seq = 0;
+
+  function query(table: string) {
+    const filters: Array<(row: any) => boolean> = [];
+    let action: 'select' | 'insert' | 'update' = 'select';
+    let payload: any = null;
+    let limit = Infinity;
+    let offset = 0;
+    let descending = false;
+
+    const run = () => {
+      const rows = tables[table] || (tables[table] = []);
+      if (action === 'insert') {
+        // Distinct timestamps so "after this event" is well defined
+        const inserted = [].concat(payload).map((row: any) => {
+          seq++;
+          return { id: `event-${seq}`, seq, created_at: new Date(Date.UTC(2025, 0, 1, 0, 0, seq)).toISOString(), ...row };
+        });
+        rows.push(...inserted);
+        return inserted;
+      }
+      let matched = rows.filter(row => filters.every(f => f(row)));
+      if (action === 'update') matched.forEach(row => Object.assign(row, payload));
+      if (descending) matched = [...matched].sort((a, b) => b.seq - a.seq);
+      return matched.slice(offset, offset + limit);
+    };
+
+    const builder: any = {
+      select: () => builder,
+      order: (_column: string, options?: { ascending?: boolean }) => { descending = options?.ascending === false; return builder; },
+      limit: (count: number) => { limit = count; return builder; },
+      range: (from: number, to: number) => { offset = from; limit = to - from + 1; return builder; },
+      eq: (column: string, value: any) => { filters.push(row => row[column] === value); return builder; },
+      in: (column: string, values: any[]) => { filters.push(row => values.includes(row[column])); return builder; },
+      lt: (column: string, value: any) => { filters.push(row => row[column] < value); return builder; },
+      gt: (column: string, value: any) => { filters.push(row => row[column] > value); return builder; },
+      insert: (rows: any) => { action = 'insert'; payload = rows; return builder; },
+      update: (patch: any) => { action = 'update'; payload = patch; return builder; },
+      single: async () => {
+        const [row] = run();
+        return row ? { data: row, error: null } : { data: null, error: { message: 'not found' } };
+      },
+      maybeSingle: async () => ({ data: run()[0] || null, error: null }),
+      then: (resolve: any, reject: any) => Promise.resolve({ data: run(), error: null }).then(resolve, reject),
+    };
+    return builder;
+  }
+
+  return { supabase: { from: query } };
+});
+
+import { ItemHistoryService, ItemHistoryError, diffItemEvents } from '../itemHistory';
+
+const agent = { actor: { type: 'agent' as const, id: 'PersistenceManager' }, userId: 'alice', sourceMessageId: 'message-1' };
+
+describe('ItemHistoryService', () => {
+  let service: ItemHistoryService;
+
+  // Apply a change the way the routes do: save the items, then log the difference
+  async function change(nextItems: any[], options: any = { actor: { type: 'user', id: 'alice' } }) {
+    const project = tables.projects[0];
+    const previousItems = project.items;
+    project.items = nextItems;
+    return service.recordChanges('project-1', previousItems, nextItems, options);
+  }
+
+  beforeEach(() => {
+    for (const key of Object.keys(tables)) delete tables[key];
+    tables.projects = [{ id: 'project-1', items: [{ id: 'a', text: 'Use Postgres', state: 'exploring' }] }];
+    tables.item_events = [];
+    service = new ItemHistoryService();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  describe('diffItemEvents', () => {
+    it('should classify creates, moves, edits and deletes and ignore layout', () => {
+      const events = diffItemEvents(
+        [
+          { id: 'a', text: 'A', state: 'exploring' },
+          { id: 'b', text: 'B', state: 'exploring' },
+          { id: 'c', text: 'C', state: 'parked', position: { x: 0, y: 0 } },
+          { id: 'd', text: 'D', state: 'parked' },
+        ],
+        [
+          { id: 'a', text: 'A!', state: 'decided' },
+          { id: 'b', text: 'B!', state: 'exploring', updated_by: 'bob' },
+          { id: 'c', text: 'C', state: 'parked', position: { x: 10, y: 10 } },
+          { id: 'e', text: 'E', state: 'exploring' },
+        ]
+      );
+
+      expect(events.map(e => [e.itemId, e.type])).toEqual([
+        ['a', 'moved'],
+        ['b', 'edited'],
+        ['e', 'created'],
+        ['d', 'deleted'],
+      ]);
+    });
+  });
+
+  it('should log agent changes with the agent, member and source message', async () => {
+    const [event] = await change([...tables.projects[0].items, { id: 'b', text: 'Ship in March', state: 'decided' }], agent);
+
+    expect(event).toMatchObject({
+      itemId: 'b',
+      type: 'created',
+      toState: 'decided',
+      actorType: 'agent',
+      actorId: 'PersistenceManager',
+      userId: 'alice',
+      sourceMessageId: 'message-1',
+    });
+  });
+
+  it('should undo an agent change without touching later unrelated changes', async () => {
+    const [moved] = await change([{ id: 'a', text: 'Use Postgres', state: 'decided' }], agent);
+    await change([...tables.projects[0].items, { id: 'b', text: 'Ship in March', state: 'exploring' }]);
+
+    const result = await service.undoEvent('project-1', moved.id, 'bob');
+
+    expect(result.items).toEqual([
+      expect.objectContaining({ id: 'a', state: 'exploring', updated_by: 'bob' }),
+      expect.objectContaining({ id: 'b', state: 'exploring' }),
+    ]);
+    expect(result.events).toEqual([
+      expect.objectContaining({ type: 'moved', fromState: 'decided', toState: 'exploring', actorId: 'bob', undoOf: moved.id }),
+    ]);
+    expect(tables.projects[0].items).toBe(result.items);
+
+    const history = await service.listEvents('project-1', { itemId: 'a' });
+    expect(history.find(e => e.id === moved.id)?.undoneBy).toBe(result.events[0].id);
+  });
+
+  it('should redo by undoing the undo, and refuse to undo twice', async () => {
+    const [created] = await change([...tables.projects[0].items, { id: 'b', text: 'Ship in March', state: 'decided' }], agent);
+
+    const undo = await service.undoEvent('project-1', created.id, 'bob');
+    expect(undo.items.map(i => i.id)).toEqual(['a']);
+
+    await expect(service.undoEvent('project-1', created.id, 'bob')).rejects.toMatchObject({ status: 409 });
+
+    const redo = await service.undoEvent('project-1', undo.events[0].id, 'bob');
+    expect(redo.items.map(i => i.id)).toEqual(['a', 'b']);
+  });
+
+  it('should refuse to undo over a newer change unless forced', async () => {
+    const [moved] = await change([{ id: 'a', text: 'Use Postgres', state: 'decided' }], agent);
+    await change([{ id: 'a', text: 'Use Postgres 16', state: 'decided' }]);
+
+    await expect(service.undoEvent('project-1', moved.id, 'bob')).rejects.toThrow(ItemHistoryError);
+
+    const result = await service.undoEvent('project-1', moved.id, 'bob', { force: true });
+    expect(result.items[0]).toMatchObject({ text: 'Use Postgres', state: 'exploring' });
+  });
+
+  it('should rebuild the board at any point by rolling back later events', async () => {
+    const [first] = await change([{ id: 'a', text: 'Use Postgres', state: 'decided' }], agent);
+    const [second] = await change([
+      { id: 'a', text: 'Use Postgres', state: 'decided' },
+      { id: 'b', text: 'Ship in March', state: 'parked' },
+    ]);
+    await change([{ id: 'b', text: 'Ship in March', state: 'parked' }]);
+
+    const beforeAll = await service.getBoardAt('project-1', '2024-12-31T00:00:00.000Z');
+    expect(beforeAll.items).toEqual([{ id: 'a', text: 'Use Postgres', state: 'exploring' }]);
+    expect(beforeAll.eventsReverted).toBe(3);
+
+    const afterFirst = await service.getBoardAt('project-1', first.createdAt);
+    expect(afterFirst.counts).toEqual({ decided: 1, exploring: 0, parked: 0, rejected: 0 });
+
+    const afterSecond = await service.getBoardAt('project-1', second.createdAt);
+    expect(afterSecond.items.map(i => [i.id, i.state])).toEqual([['b', 'parked'], ['a', 'decided']]);
+
+    await expect(service.getBoardAt('project-1', 'yesterday')).rejects.toMatchObject({ status: 400 });
+  });
+});
@@ -0,0 +1,230 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  ScriptedProvider,
+  RecordingProvider,
+  createLLMProvider,
+  hashLLMRequest,
+  setLLMProvider,
+  streamCompletion,
+  isAbortError,
+  LLMProvider,
+  LLMRequest,
+} from '../llmProvider';
+import { LLM_PROVIDERS, getLLMProviderConfig } from '../../config/aiModels';
+import { BaseAgent } from '../../agents/base';
+
+class EchoAgent extends BaseAgent {
+  constructor() {
+    super('EchoAgent', 'You echo things.');
+  }
+
+  async ask(message: string): Promise<string> {
+    return this.callClaude([{ role: 'user', content: message }], 100);
+  }
+
+  async askStreaming(message: string, onText: (delta: string) => void): Promise<string> {
+    return this.callClaudeStream([{ role: 'user', content: message }], 100, { onText });
+  }
+}
+
+const baseRequest: LLMRequest = {
+  model: 'test-model',
+  maxTokens: 100,
+  system: 'system prompt',
+  messages: [{ role: 'user', content: 'We should use Postgres' }],
+  agentName: 'ConversationAgent',
+};
+
+describe('LLM provider layer', () => {
+  afterEach(() => {
+    setLLMProvider(null);
+    delete process.env.LLM_PROVIDER;
+  });
+
+  describe('getLLMProviderConfig', () => {
+    it('should default to anthropic', () => {
+      expect(getLLMProviderConfig().type).toBe(LLM_PROVIDERS.ANTHROPIC);
+    });
+
+    it('should select the provider from LLM_PROVIDER', () => {
+      process.env.LLM_PROVIDER = 'scripted';
+      expect(getLLMProviderConfig().type).toBe(LLM_PROVIDERS.SCRIPTED);
+
+      process.env.LLM_PROVIDER = 'openai-compatible';
+      expect(getLLMProviderConfig().type).toBe(LLM_PROVIDERS.OPENAI_COMPATIBLE);
+    });
+
+    it('should fall back to anthropic for unknown providers', () => {
+      process.env.LLM_PROVIDER = 'carrier-pigeon';
+      expect(getLLMProviderConfig().type).toBe(LLM_PROVIDERS.ANTHROPIC);
+    });
+  });
+
+  describe('createLLMProvider', () => {
+    it('should create a scripted provider without an API key', () => {
+      const provider = createLLMProvider({ type: LLM_PROVIDERS.SCRIPTED });
+      expect(provider).toBeInstanceOf(ScriptedProvider);
+    });
+
+    it('should wrap live providers when recording is enabled', () => {
+      const provider = createLLMProvider({
+        type: LLM_PROVIDERS.ANTHROPIC,
+        apiKey: 'sk-test',
+        recordFixturesPath: path.join(os.tmpdir(), 'unused-fixtures.json'),
+      });
+      expect(provider).toBeInstanceOf(RecordingProvider);
+    });
+  });
+
+  describe('ScriptedProvider', () => {
+    let provider: ScriptedProvider;
+
+    beforeEach(() => {
+      provider = new ScriptedProvider({
+        fixtures: [
+          { agent: 'ConversationAgent', contains: 'postgres', response: 'Postgres noted.' },
+          { agent: 'contextManager', response: '{"type":"deciding"}' },
+        ],
+        defaultResponse: 'default',
+      });
+    });
+
+    it('should match fixtures by agent and message content', async () => {
+      const response = await provider.complete(baseRequest);
+      expect(response.text).toBe('Postgres noted.');
+      expect(response.model).toBe('test-model');
+    });
+
+    it('should return the default response when nothing matches', async () => {
+      const response = await provider.complete({ ...baseRequest, agentName: 'reviewer' });
+      expect(response.text).toBe('default');
+    });
+
+    it('should be deterministic, including usage', async () => {
+      const first = await provider.complete(baseRequest);
+      const second = await provider.complete(baseRequest);
+      expect(second).toEqual(first);
+      expect(first.usage.inputTokens).toBeGreaterThan(0);
+    });
+
+    it('should prefer fixtures registered at runtime', async () => {
+      provider.register({ requestHash: hashLLMRequest(baseRequest), response: 'replayed' });
+      const response = await provider.complete(baseRequest);
+      expect(response.text).toBe('replayed');
+    });
+
+    it('should record calls for assertions', async () => {
+      await provider.complete(baseRequest);
+      expect(provider.getCalls()).toHaveLength(1);
+      provider.reset();
+      expect(provider.getCalls()).toHaveLength(0);
+    });
+
+    it('should load fixtures from a file', async () => {
+      const file = path.join(os.tmpdir(), `llm-fixtures-${Date.now()}.json`);
+      fs.writeFileSync(file, JSON.stringify({
+        fixtures: [{ contains: 'redis', response: 'Redis noted.' }],
+        defaultResponse: 'from file',
+      }));
+
+      const fromFile = new ScriptedProvider({ fixturesPath: file });
+      const matched = await fromFile.complete({ ...baseRequest, messages: [{ role: 'user', content: 'Add Redis' }] });
+      const unmatched = await fromFile.complete(baseRequest);
+
+      expect(matched.text).toBe('Redis noted.');
+      expect(unmatched.text).toBe('from file');
+      fs.unlinkSync(file);
+    });
+  });
+
+  describe('streaming', () => {
+    it('should stream scripted responses as deltas that add up to the text', async () => {
+      const provider = new ScriptedProvider({ defaultResponse: 'Postgres fits the reporting needs.' });
+      const deltas: string[] = [];
+
+      const response = await provider.stream(baseRequest, { onText: delta => deltas.push(delta) });
+
+      expect(deltas.length).toBeGreaterThan(1);
+      expect(deltas.join('')).toBe(response.text);
+      expect(response.text).toBe('Postgres fits the reporting needs.');
+    });
+
+    it('should stop streaming when the request is aborted', async () => {
+      const provider = new ScriptedProvider({ defaultResponse: 'one two three four five' });
+      const controller = new AbortController();
+      const deltas: string[] = [];
+
+      const streaming = provider.stream(baseRequest, {
+        onText: delta => {
+          deltas.push(delta);
+          if (deltas.length === 2) controller.abort();
+        },
+        signal: controller.signal,
+      });
+
+      const error = await streaming.catch(err => err);
+      expect(isAbortError(error)).toBe(true);
+      expect(deltas).toEqual(['one ', 'two ']);
+    });
+
+    it('should send the whole response as one delta for providers that cannot stream', async () => {
+      const completeOnly: LLMProvider = {
+        name: 'complete-only',
+        complete: async request => ({
+          text: 'all at once',
+          model: request.model,
+          usage: { inputTokens: 1, outputTokens: 1, cacheCreationInputTokens: 0, cacheReadInputTokens: 0 },
+        }),
+      };
+      const deltas: string[] = [];
+
+      const response = await streamCompletion(completeOnly, baseRequest, { onText: delta => deltas.push(delta) });
+
+      expect(deltas).toEqual(['all at once']);
+      expect(response.text).toBe('all at once');
+    });
+
+    it('should stream through BaseAgent.callClaudeStream', async () => {
+      setLLMProvider(new ScriptedProvider({ fixtures: [{ agent: 'EchoAgent', response: 'echo echo' }] }));
+      const deltas: string[] = [];
+
+      const text = await new EchoAgent().askStreaming('hello', delta => deltas.push(delta));
+
+      expect(text).toBe('echo echo');
+      expect(deltas.join('')).toBe('echo echo');
+    });
+  });
+
+  describe('RecordingProvider', () => {
+    it('should append replayable fixtures', async () => {
+      const file = path.join(os.tmpdir(), `llm-recording-${Date.now()}.json`);
+      const live = new ScriptedProvider({ defaultResponse: 'live answer' });
+      const recorder = new RecordingProvider(live, file);
+
+      await recorder.complete(baseRequest);
+
+      const replay = new ScriptedProvider({ fixturesPath: file, defaultResponse: 'miss' });
+      const response = await replay.complete(baseRequest);
+      expect(response.text).toBe('live answer');
+      fs.unlinkSync(file);
+    });
+  });
+
+  describe('BaseAgent integration', () => {
+    it('should route callClaude through the shared provider', async () => {
+      const provider = new ScriptedProvider({
+        fixtures: [{ agent: 'EchoAgent', response: 'echo!' }],
+      });
+      setLLMProvider(provider);
+
+      const agent = new EchoAgent();
+      const text = await agent.ask('hello');
+
+      expect(text).toBe('echo!');
+      expect(provider.getCalls()[0].system).toBe('You echo things.');
+    });
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { chunkTranscript, formatTimestamp, formatTranscript, keyframeTimestamps } from '../mediaAnalysis';
+import { WhisperCppProvider, createSpeechToTextProvider } from '../speechToText';
+
+describe('mediaAnalysis', () => {
+  it('should format timestamps for short and long recordings', () => {
+    expect(formatTimestamp(0)).toBe('0:00');
+    expect(formatTimestamp(75.9)).toBe('1:15');
+    expect(formatTimestamp(3725)).toBe('1:02:05');
+  });
+
+  it('should sample keyframes evenly inside the recording', () => {
+    expect(keyframeTimestamps(80, 4)).toEqual([10, 30, 50, 70]);
+    expect(keyframeTimestamps(0)).toEqual([0]);
+  });
+
+  it('should chunk transcripts by length and time span, keeping time ranges', () => {
+    const segments = [
+      { start: 0, end: 4, text: 'We tried three tools.' },
+      { start: 4, end: 9, text: 'None handled offline mode.' },
+      { start: 9, end: 200, text: 'Long monologue about pricing.' },
+      { start: 200, end: 205, text: 'x'.repeat(60) },
+    ];
+
+    const chunks = chunkTranscript(segments, { maxChars: 60, maxSeconds: 120 });
+
+    expect(chunks.map(c => [c.index, c.start, c.end])).toEqual([
+      [0, 0, 9],
+      [1, 9, 200],
+      [2, 200, 205],
+    ]);
+    expect(chunks[0].text).toBe('We tried three tools. None handled offline mode.');
+    expect(formatTranscript(segments.slice(0, 2))).toBe('[0:00] We tried three tools.\n[0:04] None handled offline mode.');
+  });
+});
+
+describe('speechToText', () => {
+  let workDir: string | null = null;
+
+  afterEach(async () => {
+    if (workDir) await fs.rm(workDir, { recursive: true, force: true });
+    workDir = null;
+  });
+
+  it('should read whisper.cpp JSON output into timestamped segments', async () => {
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'whisper-test-'));
+    // Stand-in for the whisper.cpp CLI: writes <-of>.json like the real binary
+    const binary = path.join(workDir, 'whisper-cli');
+    await fs.writeFile(binary, `#!/bin/sh
+while [ "$1" != "-of" ]; do shift; done
+cat > "$2.json" <<'JSON'
+{"result":{"language":"en"},"transcription":[
+  {"offsets":{"from":0,"to":2500},"text":" Offline sync is a must."},
+  {"offsets":{"from":2500,"to":4000},"text":"   "}
+]}
+JSON
+`, { mode: 0o755 });
+
+    const provider = new WhisperCppProvider(binary, '/models/ggml-base.bin');
+    const transcript = await provider.transcribe('/tmp/audio.wav');
+
+    expect(transcript).toEqual({
+      text: 'Offline sync is a must.',
+      segments: [{ start: 0, end: 2.5, text: 'Offline sync is a must.' }],
+      language: 'en',
+      provider: 'whisper-cpp',
+    });
+  });
+
+  it('should turn transcription off when no provider is configured', () => {
+    expect(createSpeechToTextProvider({ type: 'none' })).toBeNull();
+    expect(() => createSpeechToTextProvider({ type: 'whisper-cpp' })).toThrow(/WHISPER_MODEL_PATH/);
+  });
+});
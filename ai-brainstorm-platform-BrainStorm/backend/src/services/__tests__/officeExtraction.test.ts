@@ -0,0 +1,109 @@
+import { describe, it, expect, vi } from 'vitest';
+import ExcelJS from 'exceljs';
+import JSZip from 'jszip';
+import { extractSpreadsheetMarkdown, extractPresentationMarkdown, rowsToMarkdownTable } from '../officeExtraction';
+
+vi.mock('../supabase', () => ({ supabase: {} }));
+
+import { uploadFileFilter } from '../fileUpload';
+
+async function workbook(sheets: Record<string, unknown[][]>): Promise<Buffer> {
+  const book = new ExcelJS.Workbook();
+  for (const [name, rows] of Object.entries(sheets)) {
+    book.addWorksheet(name).addRows(rows);
+  }
+  return Buffer.from(await book.xlsx.writeBuffer());
+}
+
+const shape = (text: string, placeholder?: string) =>
+  `<p:sp><p:nvSpPr>${placeholder ? `<p:nvPr><p:ph type="${placeholder}"/></p:nvPr>` : ''}</p:nvSpPr>` +
+  `<p:txBody><a:p><a:r><a:t>${text}</a:t></a:r></a:p></p:txBody></p:sp>`;
+
+async function deck(): Promise<Buffer> {
+  const zip = new JSZip();
+  // Presentation order is the reverse of the file numbering
+  zip.file('ppt/presentation.xml', '<p:presentation><p:sldIdLst><p:sldId id="1" r:id="rId2"/><p:sldId id="2" r:id="rId1"/></p:sldIdLst></p:presentation>');
+  zip.file('ppt/_rels/presentation.xml.rels',
+    '<Relationships><Relationship Id="rId1" Type="http://schemas/slide" Target="slides/slide1.xml"/>' +
+    '<Relationship Id="rId2" Type="http://schemas/slide" Target="slides/slide2.xml"/></Relationships>');
+  zip.file('ppt/slides/slide1.xml', `<p:sld>${shape('Pricing', 'title')}${shape('Freemium &amp; Pro tier')}</p:sld>`);
+  zip.file('ppt/slides/slide2.xml', `<p:sld>${shape('Acme Pitch', 'ctrTitle')}${shape('Seed round')}</p:sld>`);
+  zip.file('ppt/slides/_rels/slide1.xml.rels',
+    '<Relationships><Relationship Id="rId2" Type="http://schemas/notesSlide" Target="../notesSlides/notesSlide1.xml"/></Relationships>');
+  zip.file('ppt/notesSlides/notesSlide1.xml',
+    `<p:notes>${shape('Mention the churn numbers', 'body')}` +
+    '<p:sp><p:nvSpPr><p:nvPr><p:ph type="sldNum"/></p:nvPr></p:nvSpPr><p:txBody><a:p><a:fld type="slidenum"><a:t>2</a:t></a:fld></a:p></p:txBody></p:sp></p:notes>');
+  return zip.generateAsync({ type: 'nodebuffer' });
+}
+
+describe('officeExtraction', () => {
+  it('should turn each sheet into a markdown table with its header row', async () => {
+    const text = await extractSpreadsheetMarkdown(await workbook({
+      Competitors: [['Name', 'Price', 'Notes'], ['Acme', 49, 'Has | pipes'], ['Globex', 99, '']],
+      Empty: [],
+    }));
+
+    expect(text).toBe([
+      '## Sheet: Competitors',
+      '',
+      '| Name | Price | Notes |',
+      '| --- | --- | --- |',
+      '| Acme | 49 | Has \\| pipes |',
+      '| Globex | 99 |  |',
+    ].join('\n'));
+  });
+
+  it('should read formula results as displayed', async () => {
+    const text = await extractSpreadsheetMarkdown(await workbook({
+      Sheet1: [['Region', 'Revenue'], ['EU', 1200], ['Total', { formula: 'B2', result: 1200 }]],
+    }));
+    expect(text).toContain('| Region | Revenue |');
+    expect(text).toContain('| Total | 1200 |');
+  });
+
+  it('should use generated column names when the first row is data', () => {
+    expect(rowsToMarkdownTable([[2023, 10], [2024, 12]]).split('\n').slice(0, 3)).toEqual([
+      '| Column A | Column B |',
+      '| --- | --- |',
+      '| 2023 | 10 |',
+    ]);
+  });
+
+  it('should extract slides in presentation order with speaker notes', async () => {
+    const text = await extractPresentationMarkdown(await deck());
+
+    expect(text).toBe([
+      '## Slide 1: Acme Pitch',
+      '',
+      '- Seed round',
+      '',
+      '## Slide 2: Pricing',
+      '',
+      '- Freemium & Pro tier',
+      '',
+      '**Speaker notes:**',
+      '',
+      'Mention the churn numbers',
+    ].join('\n'));
+  });
+});
+
+describe('uploadFileFilter', () => {
+  const check = (mimetype: string, originalname: string) => {
+    const cb = vi.fn();
+    uploadFileFilter({}, { mimetype, originalname } as Express.Multer.File, cb);
+    return cb.mock.calls[0];
+  };
+
+  it('should accept .xlsx and .pptx uploads', () => {
+    expect(check('application/vnd.openxmlformats-officedocument.spreadsheetml.sheet', 'plan.xlsx')).toEqual([null, true]);
+    expect(check('application/vnd.openxmlformats-officedocument.presentationml.presentation', 'pitch.pptx')).toEqual([null, true]);
+  });
+
+  it('should refuse legacy .xls and .ppt uploads with the format to convert to', () => {
+    expect(check('application/vnd.ms-excel', 'plan.xls')[0].message).toBe(
+      "plan.xls is a legacy Office file, which can't be analyzed. Re-save it as .xlsx and upload it again."
+    );
+    expect(check('application/vnd.ms-powerpoint', 'pitch.ppt')[0].message).toContain('Re-save it as .pptx');
+  });
+});
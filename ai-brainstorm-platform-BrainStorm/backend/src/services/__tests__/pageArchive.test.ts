@@ -0,0 +1,68 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { insert } = vi.hoisted(() => ({ insert: vi.fn() }));
+
+vi.mock('../supabase', () => ({
+  supabase: {
+    from: vi.fn(() => ({
+      insert: (row: any) => ({
+        select: () => ({ single: () => insert(row) }),
+      }),
+    })),
+  },
+}));
+
+import { PageArchiveService, sanitizeArchivedHtml, hashPageContent } from '../pageArchive';
+
+describe('sanitizeArchivedHtml', () => {
+  it('removes active content and makes links absolute', () => {
+    const html = sanitizeArchivedHtml(
+      `<h1 onclick="steal()">Pricing</h1>
+       <script>alert(1)</script>
+       <iframe src="https://ads.example"></iframe>
+       <p><a href="/plans">Plans</a> <a href="javascript:alert(1)">x</a> <img src="img/chart.png"></p>`,
+      'https://acme.com/pricing/'
+    );
+
+    expect(html).not.toMatch(/script|iframe|onclick|javascript:/);
+    expect(html).toContain('<a href="https://acme.com/plans">Plans</a>');
+    expect(html).toContain('<a>x</a>');
+    expect(html).toContain('src="https://acme.com/pricing/img/chart.png"');
+  });
+});
+
+describe('PageArchiveService.archivePages', () => {
+  const service = new PageArchiveService();
+
+  beforeEach(() => {
+    insert.mockReset();
+    insert.mockImplementation(async (row: any) => row.url.includes('broken')
+      ? { data: null, error: { message: 'insert failed' } }
+      : { data: { ...row, created_at: '2026-03-01T00:00:00Z' }, error: null });
+  });
+
+  it('archives pages with content, hashes the text and skips failures', async () => {
+    const links = await service.archivePages('project-1', 'query-1', [
+      { url: 'https://acme.com/pricing', title: 'Pricing', textContent: 'Twelve dollars per seat', html: '<p>Twelve dollars per seat</p>', fetchedAt: '2026-03-01T09:00:00Z' },
+      { url: 'https://acme.com/empty', title: 'Empty', textContent: '' },
+      { url: 'https://broken.example', title: 'Broken', textContent: 'Some text' },
+    ]);
+
+    expect([...links.keys()]).toEqual(['https://acme.com/pricing']);
+    expect(links.get('https://acme.com/pricing')).toMatchObject({
+      url: 'https://acme.com/pricing',
+      contentHash: hashPageContent('Twelve dollars per seat'),
+      fetchedAt: '2026-03-01T09:00:00Z',
+      hasScreenshot: false,
+    });
+    expect(hashPageContent('Twelve dollars per seat')).toMatch(/^[0-9a-f]{64}$/);
+
+    expect(insert).toHaveBeenCalledTimes(2);
+    expect(insert.mock.calls[0][0]).toMatchObject({
+      project_id: 'project-1',
+      research_query_id: 'query-1',
+      html: '<p>Twelve dollars per seat</p>',
+      screenshot_path: null,
+    });
+  });
+});
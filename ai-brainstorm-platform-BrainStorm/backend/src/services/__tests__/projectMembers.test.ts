@@ -0,0 +1,199 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+// Minimal in-memory stand-in for the Supabase query builder
+const { tables } = vi.hoisted(() => ({ tables: {} as Record<string, any[]> }));
+
+vi.mock('../supabase', () => {
+  function query(table: string) {
+    const filters: Array<(row: any) => boolean> = [];
+    let action: 'select' | 'insert' | 'update' | 'delete' = 'select';
+    let payload: any = null;
+
+    const run = () => {
+      const rows = tables[table] || (tables[table] = []);
+      if (action === 'insert') {
+        const row = { id: `${table}-${rows.length + 1}`, created_at: new Date().toISOString(), ...payload };
+        rows.push(row);
+        return [row];
+      }
+      const matched = rows.filter(row => filters.every(f => f(row)));
+      if (action === 'update') matched.forEach(row => Object.assign(row, payload));
+      if (action === 'delete') tables[table] = rows.filter(row => !matched.includes(row));
+      return matched;
+    };
+
+    const builder: any = {
+      select: () => builder,
+      order: () => builder,
+      eq: (column: string, value: any) => { filters.push(row => row[column] === value); return builder; },
+      in: (column: string, values: any[]) => { filters.push(row => values.includes(row[column])); return builder; },
+      insert: (row: any) => { action = 'insert'; payload = row; return builder; },
+      update: (patch: any) => { action = 'update'; payload = patch; return builder; },
+      delete: () => { action = 'delete'; return builder; },
+      single: async () => {
+        const [row] = run();
+        return row ? { data: row, error: null } : { data: null, error: { message: 'not found' } };
+      },
+      maybeSingle: async () => ({ data: run()[0] || null, error: null }),
+      then: (resolve: any, reject: any) => Promise.resolve({ data: run(), error: null }).then(resolve, reject),
+    };
+    return builder;
+  }
+
+  return { supabase: { from: query } };
+});
+
+import { ProjectMemberService, MembershipError } from '../projectMembers';
+import { projectAccessService, ProjectAccessService } from '../projectAccess';
+import { realtimeService } from '../realtimeService';
+import { attributeItemChanges } from '../../utils/projectHelpers';
+
+describe('ProjectMemberService', () => {
+  let service: ProjectMemberService;
+
+  beforeEach(async () => {
+    for (const key of Object.keys(tables)) delete tables[key];
+    tables.projects = [
+      { id: 'project-1', user_id: 'owner-1', title: 'Shared', updated_at: '2025-01-02T00:00:00Z' },
+      { id: 'project-2', user_id: 'editor-1', title: 'Own', updated_at: '2025-01-01T00:00:00Z' },
+    ];
+    tables.project_members = [];
+    tables.project_invitations = [];
+    await projectAccessService.clearCache();
+    service = new ProjectMemberService();
+  });
+
+  describe('invitations', () => {
+    it('should add the invitee with the invited role when accepting an email invitation', async () => {
+      const invitation = await service.createInvitation('project-1', 'owner-1', {
+        role: 'editor',
+        email: 'Editor@Example.com',
+      });
+
+      const member = await service.acceptInvitation(invitation.token, { id: 'editor-1', email: 'editor@example.com' });
+
+      expect(member.role).toBe('editor');
+      expect(await projectAccessService.getAccess('editor-1', 'project-1')).toMatchObject({ role: 'editor' });
+      await expect(service.getInvitation(invitation.token)).rejects.toThrow('already been used');
+    });
+
+    it('should reject email invitations accepted by a different account', async () => {
+      const invitation = await service.createInvitation('project-1', 'owner-1', {
+        role: 'viewer',
+        email: 'someone@example.com',
+      });
+
+      await expect(
+        service.acceptInvitation(invitation.token, { id: 'intruder', email: 'intruder@example.com' })
+      ).rejects.toMatchObject({ status: 403 });
+    });
+
+    it('should let several people join through the same share link', async () => {
+      const link = await service.createInvitation('project-1', 'owner-1', { role: 'commenter' });
+
+      await service.acceptInvitation(link.token, { id: 'user-a' });
+      await service.acceptInvitation(link.token, { id: 'user-b' });
+
+      const members = await service.listMembers('project-1');
+      expect(members.map(m => [m.user_id, m.role])).toEqual([
+        ['owner-1', 'owner'],
+        ['user-a', 'commenter'],
+        ['user-b', 'commenter'],
+      ]);
+    });
+
+    it('should not accept revoked or expired invitations', async () => {
+      const revoked = await service.createInvitation('project-1', 'owner-1', { role: 'viewer' });
+      await service.revokeInvitation('project-1', revoked.id);
+      const expired = await service.createInvitation('project-1', 'owner-1', { role: 'viewer' });
+      tables.project_invitations.find(i => i.id === expired.id).expires_at = '2000-01-01T00:00:00Z';
+
+      await expect(service.acceptInvitation(revoked.token, { id: 'user-a' })).rejects.toBeInstanceOf(MembershipError);
+      await expect(service.acceptInvitation(expired.token, { id: 'user-a' })).rejects.toThrow('expired');
+    });
+
+    it('should not allow inviting someone as owner', async () => {
+      await expect(
+        service.createInvitation('project-1', 'owner-1', { role: 'owner' as any })
+      ).rejects.toBeInstanceOf(MembershipError);
+    });
+  });
+
+  describe('members', () => {
+    it('should list owned and shared projects with the caller role', async () => {
+      tables.project_members.push({ project_id: 'project-1', user_id: 'editor-1', role: 'editor' });
+
+      const projects = await service.getProjectsForUser('editor-1');
+
+      expect(projects.map(p => [p.id, p.role])).toEqual([
+        ['project-1', 'editor'],
+        ['project-2', 'owner'],
+      ]);
+    });
+
+    it("should refuse to change the owner's role", async () => {
+      await expect(service.updateRole('project-1', 'owner-1', 'viewer')).rejects.toBeInstanceOf(MembershipError);
+    });
+
+    it('should revoke access when a member is removed', async () => {
+      tables.project_members.push({ project_id: 'project-1', user_id: 'viewer-1', role: 'viewer' });
+      expect(await projectAccessService.canAccess('viewer-1', 'project-1')).toBe(true);
+
+      await service.removeMember('project-1', 'viewer-1');
+
+      expect(await projectAccessService.canAccess('viewer-1', 'project-1')).toBe(false);
+    });
+
+    it('should revoke access cached by other instances sharing the cache store', async () => {
+      tables.project_members.push({ project_id: 'project-1', user_id: 'viewer-1', role: 'viewer' });
+      const otherInstance = new ProjectAccessService();
+      expect(await otherInstance.canAccess('viewer-1', 'project-1')).toBe(true);
+
+      await service.removeMember('project-1', 'viewer-1');
+
+      expect(await otherInstance.canAccess('viewer-1', 'project-1')).toBe(false);
+    });
+
+    it("should close the removed member's realtime streams", async () => {
+      tables.project_members.push({ project_id: 'project-1', user_id: 'viewer-1', role: 'viewer' });
+      const stream = () => ({ write: vi.fn(() => true), end: vi.fn() }) as any;
+      const viewerStream = stream();
+      const ownerStream = stream();
+      const ownerConnection = realtimeService.connect('project-1', { id: 'owner-1' }, ownerStream);
+      realtimeService.connect('project-1', { id: 'viewer-1' }, viewerStream);
+
+      await service.removeMember('project-1', 'viewer-1');
+
+      expect(viewerStream.end).toHaveBeenCalled();
+      expect(ownerStream.end).not.toHaveBeenCalled();
+      expect(realtimeService.getPresence('project-1').map(entry => entry.userId)).toEqual(['owner-1']);
+      realtimeService.disconnect(ownerConnection);
+    });
+  });
+});
+
+describe('attributeItemChanges', () => {
+  const base = { id: 'item-1', text: 'Use Postgres', state: 'exploring', created_by: 'alice', created_at: '2025-01-01' };
+
+  it('should stamp new items with their creator', () => {
+    const [item] = attributeItemChanges([], [{ id: 'item-2', text: 'New', state: 'decided' }], 'bob');
+
+    expect(item.created_by).toBe('bob');
+    expect(item.updated_by).toBe('bob');
+  });
+
+  it('should record who changed an item and keep the original creator', () => {
+    const [item] = attributeItemChanges([base], [{ ...base, state: 'decided' }], 'bob');
+
+    expect(item.created_by).toBe('alice');
+    expect(item.updated_by).toBe('bob');
+  });
+
+  it('should leave unchanged items alone even if the client reorders keys or spoofs attribution', () => {
+    const { text, ...rest } = base;
+    const [item] = attributeItemChanges([base], [{ ...rest, text, created_by: 'mallory' }], 'bob');
+
+    expect(item.created_by).toBe('alice');
+    expect(item.updated_by).toBeUndefined();
+  });
+});
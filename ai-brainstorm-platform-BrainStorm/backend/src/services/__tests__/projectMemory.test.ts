@@ -0,0 +1,221 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+// Minimal in-memory stand-in for the Supabase query builder
+const { tables } = vi.hoisted(() => ({ tables: {} as Record<string, any[]> }));
+
+vi.mock('../supabase', () => {
+  let seq = 0;
+
+  function query(table: string) {
+    const filters: Array<(row: any) => boolean> = [];
+    let action: 'select' | 'insert' | 'upsert' | 'update' | 'delete' = 'select';
+    let payload: any = null;
+    let limit = Infinity;
+
+    const run = () => {
+      const rows = tables[table] || (tables[table] = []);
+      if (action === 'insert') {
+        const inserted = [].concat(payload).map((row: any) => {
+          seq++;
+          const now = new Date(Date.UTC(2025, 0, 1, 0, 0, seq)).toISOString();
+          return { id: `row-${seq}`, created_at: now, updated_at: now, ...row };
+        });
+        rows.push(...inserted);
+        return inserted;
+      }
+      if (action === 'upsert') {
+        const existing = rows.find(row => row.project_id === payload.project_id);
+        if (existing) Object.assign(existing, payload);
+        else rows.push({ summarized_message_count: 0, ...payload });
+        return [payload];
+      }
+      const matched = rows.filter(row => filters.every(f => f(row)));
+      if (action === 'update') {
+        matched.forEach(row => Object.assign(row, payload));
+      }
+      if (action === 'delete') {
+        tables[table] = rows.filter(row => !matched.includes(row));
+      }
+      return matched.slice(0, limit);
+    };
+
+    const builder: any = {
+      select: () => builder,
+      order: () => builder,
+      limit: (count: number) => { limit = count; return builder; },
+      eq: (column: string, value: any) => { filters.push(row => row[column] === value); return builder; },
+      gt: (column: string, value: any) => { filters.push(row => row[column] > value); return builder; },
+      in: (column: string, values: any[]) => { filters.push(row => values.includes(row[column])); return builder; },
+      insert: (rows: any) => { action = 'insert'; payload = rows; return builder; },
+      upsert: (row: any) => { action = 'upsert'; payload = row; return builder; },
+      update: (values: any) => { action = 'update'; payload = values; return builder; },
+      delete: () => { action = 'delete'; return builder; },
+      maybeSingle: async () => ({ data: run()[0] ?? null, error: null }),
+      then: (resolve: any, reject: any) => Promise.resolve({ data: run(), error: null }).then(resolve, reject),
+    };
+    return builder;
+  }
+
+  return { supabase: { from: query } };
+});
+
+import { ProjectMemoryService, formatMemoryForPrompt, MemoryFact } from '../projectMemory';
+import { ProjectMemoryAgent } from '../../agents/memoryAgent';
+import { ScriptedProvider, setLLMProvider } from '../llmProvider';
+import { runWithUsageContext } from '../usageContext';
+import { PROJECT_MEMORY_CONFIG } from '../../config/aiModels';
+
+const fact = (overrides: Partial<MemoryFact>): MemoryFact => ({
+  id: 'fact-1',
+  projectId: 'project-1',
+  category: 'constraint',
+  content: 'Launch before the March trade show',
+  reason: null,
+  source: 'extracted',
+  sourceMessageId: null,
+  createdBy: null,
+  createdAt: '2025-01-01T00:00:00Z',
+  updatedAt: '2025-01-01T00:00:00Z',
+  ...overrides,
+});
+
+describe('formatMemoryForPrompt', () => {
+  it('is empty when nothing is remembered', () => {
+    expect(formatMemoryForPrompt({ summary: '  ', facts: [] })).toBe('');
+  });
+
+  it('groups facts by category and keeps rejection reasons', () => {
+    const prompt = formatMemoryForPrompt({
+      summary: 'The team is building a booking app for dog groomers.',
+      facts: [
+        fact({}),
+        fact({ id: 'fact-2', category: 'rejected_idea', content: 'A native iOS app', reason: 'Groomers mostly use Android tablets' }),
+      ],
+    });
+
+    expect(prompt).toContain('Summary of earlier conversation:\nThe team is building a booking app for dog groomers.');
+    expect(prompt).toContain('Constraints:\n- Launch before the March trade show');
+    expect(prompt).toContain('Rejected ideas:\n- A native iOS app (reason: Groomers mostly use Android tablets)');
+    expect(prompt.indexOf('Constraints:')).toBeLessThan(prompt.indexOf('Rejected ideas:'));
+  });
+
+  it('includes only the newest facts up to the limit', () => {
+    const prompt = formatMemoryForPrompt({
+      summary: '',
+      facts: [
+        fact({ id: 'old', content: 'Old fact', updatedAt: '2025-01-01T00:00:00Z' }),
+        fact({ id: 'new', content: 'New fact', updatedAt: '2025-02-01T00:00:00Z' }),
+      ],
+    }, 1);
+
+    expect(prompt).toContain('New fact');
+    expect(prompt).not.toContain('Old fact');
+  });
+});
+
+describe('ProjectMemoryService.updateFromConversation', () => {
+  const service = new ProjectMemoryService();
+  let provider: ScriptedProvider;
+
+  const addMessages = (count: number, from = 0) => {
+    for (let i = from; i < from + count; i++) {
+      tables.messages.push({
+        id: `message-${i}`,
+        project_id: 'project-1',
+        role: i % 2 === 0 ? 'user' : 'assistant',
+        content: `Message ${i}`,
+        created_at: new Date(Date.UTC(2025, 1, 1, 0, i)).toISOString(),
+      });
+    }
+  };
+
+  beforeEach(() => {
+    for (const key of Object.keys(tables)) delete tables[key];
+    tables.messages = [];
+    tables.project_memory_facts = [
+      { id: 'stale', project_id: 'project-1', category: 'preference', content: 'Prefers Figma', source: 'extracted', created_at: '2025-01-01T00:00:00Z', updated_at: '2025-01-01T00:00:00Z' },
+      { id: 'pinned', project_id: 'project-1', category: 'stakeholder', content: 'Dana signs off on pricing', source: 'user', created_at: '2025-01-01T00:00:00Z', updated_at: '2025-01-01T00:00:00Z' },
+    ];
+
+    provider = new ScriptedProvider({
+      fixtures: [{
+        agent: 'projectMemory',
+        response: JSON.stringify({
+          summary: 'The team chose Postgres and dropped the iOS app.',
+          newFacts: [
+            { category: 'rejected_idea', content: 'A native iOS app', reason: 'Too costly', messageIndex: 2 },
+            { category: 'mood', content: 'Unknown categories are ignored' },
+          ],
+          obsoleteFactIds: ['stale', 'pinned', 'unknown'],
+        }),
+      }],
+    });
+    setLLMProvider(provider);
+  });
+
+  afterEach(() => {
+    setLLMProvider(null);
+  });
+
+  it('waits until a full batch of messages has accumulated', async () => {
+    addMessages(PROJECT_MEMORY_CONFIG.batchSize - 1);
+
+    expect(await service.updateFromConversation('project-1')).toBeNull();
+    expect(provider.getCalls()).toHaveLength(0);
+  });
+
+  it('folds new messages into the summary and facts, keeping facts members wrote', async () => {
+    addMessages(PROJECT_MEMORY_CONFIG.batchSize);
+
+    const memory = await runWithUsageContext({ projectMemory: 'PROJECT MEMORY: stale' }, () =>
+      service.updateFromConversation('project-1')
+    );
+
+    expect(memory?.summary).toBe('The team chose Postgres and dropped the iOS app.');
+    expect(memory?.summarizedMessageCount).toBe(PROJECT_MEMORY_CONFIG.batchSize);
+    expect(memory?.summarizedThrough).toBe(tables.messages[PROJECT_MEMORY_CONFIG.batchSize - 1].created_at);
+    expect(memory?.facts.map(f => f.id)).not.toContain('stale');
+    expect(memory?.facts.find(f => f.id === 'pinned')).toBeDefined();
+    expect(memory?.facts.find(f => f.category === 'rejected_idea')).toMatchObject({
+      content: 'A native iOS app',
+      reason: 'Too costly',
+      source: 'extracted',
+      sourceMessageId: 'message-2',
+    });
+    expect(memory?.facts).toHaveLength(2);
+
+    // The memory agent is given the memory in its prompt, not its system prompt
+    const [call] = provider.getCalls();
+    expect(call.system).not.toContain('PROJECT MEMORY');
+    expect(call.messages[0].content).toContain('Prefers Figma');
+  });
+
+  it('only folds messages newer than the summary', async () => {
+    addMessages(PROJECT_MEMORY_CONFIG.batchSize);
+    await service.updateFromConversation('project-1');
+
+    addMessages(2, PROJECT_MEMORY_CONFIG.batchSize);
+    expect(await service.updateFromConversation('project-1')).toBeNull();
+
+    const forced = await service.updateFromConversation('project-1', { force: true });
+    expect(forced?.summarizedMessageCount).toBe(PROJECT_MEMORY_CONFIG.batchSize + 2);
+    expect(provider.getCalls()[1].messages[0].content).not.toContain('Message 0');
+    expect(provider.getCalls()[1].messages[0].content).toContain(`Message ${PROJECT_MEMORY_CONFIG.batchSize + 1}`);
+  });
+
+  it('discards the update when a member edits the summary while the agent runs', async () => {
+    addMessages(PROJECT_MEMORY_CONFIG.batchSize);
+    tables.project_memory = [{ project_id: 'project-1', summary: 'Old summary', summarized_message_count: 0, updated_at: '2025-01-01T00:00:00.000Z' }];
+
+    const update = vi.spyOn(ProjectMemoryAgent.prototype, 'update').mockImplementation(async () => {
+      await service.updateSummary('project-1', 'Dana: we are building for groomers', 'dana');
+      return { summary: 'Agent summary', newFacts: [], obsoleteFactIds: ['stale'] };
+    });
+
+    expect(await service.updateFromConversation('project-1')).toBeNull();
+    const memory = await service.getMemory('project-1');
+    expect(memory).toMatchObject({ summary: 'Dana: we are building for groomers', summaryEditedBy: 'dana', summarizedMessageCount: 0 });
+    expect(memory.facts.map(f => f.id)).toContain('stale');
+    update.mockRestore();
+  });
+});
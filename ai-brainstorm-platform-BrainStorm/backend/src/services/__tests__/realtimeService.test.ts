@@ -0,0 +1,140 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+vi.mock('../supabase', () => ({ supabase: {} }));
+
+import { RealtimeService } from '../realtimeService';
+
+function fakeResponse() {
+  const frames: string[] = [];
+  const events = (type: string) =>
+    frames
+      .filter(frame => frame.includes(`event: ${type}\n`))
+      .map(frame => JSON.parse(frame.split('data: ')[1]));
+
+  return {
+    frames,
+    res: { write: (frame: string) => { frames.push(frame); return true; } } as any,
+    events,
+    lastEvent: (type: string) => events(type)[events(type).length - 1],
+  };
+}
+
+describe('RealtimeService', () => {
+  let service: RealtimeService;
+
+  beforeEach(() => {
+    service = new RealtimeService();
+  });
+
+  it('should send a new connection its id and the current presence', () => {
+    const alice = fakeResponse();
+
+    const connectionId = service.connect('project-1', { id: 'alice', email: 'alice@example.com' }, alice.res);
+
+    const [connected] = alice.events('connected');
+    expect(connected.connectionId).toBe(connectionId);
+    expect(connected.presence).toEqual([
+      expect.objectContaining({ userId: 'alice', email: 'alice@example.com', view: 'chat' }),
+    ]);
+  });
+
+  it('should fan events out to the project only, skipping the originating connection', () => {
+    const alice = fakeResponse();
+    const bob = fakeResponse();
+    const other = fakeResponse();
+    const aliceConnection = service.connect('project-1', { id: 'alice' }, alice.res);
+    service.connect('project-1', { id: 'bob' }, bob.res);
+    service.connect('project-2', { id: 'carol' }, other.res);
+
+    service.publish('project-1', 'positions', { positions: [{ itemId: 'a', x: 1, y: 2 }] }, {
+      excludeConnectionId: aliceConnection,
+    });
+
+    expect(alice.events('positions')).toHaveLength(0);
+    expect(bob.events('positions')).toEqual([{ positions: [{ itemId: 'a', x: 1, y: 2 }] }]);
+    expect(other.events('positions')).toHaveLength(0);
+  });
+
+  it('should report one presence entry per user with their latest view', () => {
+    const tab1 = fakeResponse();
+    const tab2 = fakeResponse();
+    const bob = fakeResponse();
+    service.connect('project-1', { id: 'alice' }, tab1.res);
+    const secondTab = service.connect('project-1', { id: 'alice' }, tab2.res);
+    service.connect('project-1', { id: 'bob' }, bob.res);
+
+    vi.spyOn(Date, 'now').mockReturnValue(Date.now() + 1000);
+    service.setView('project-1', secondTab, 'alice', 'canvas');
+    vi.restoreAllMocks();
+
+    const presence = service.getPresence('project-1');
+    expect(presence.map(p => [p.userId, p.view])).toEqual([
+      ['alice', 'canvas'],
+      ['bob', 'chat'],
+    ]);
+    expect(bob.lastEvent('presence').presence).toHaveLength(2);
+  });
+
+  it("should not let a user change someone else's presence", () => {
+    const alice = fakeResponse();
+    const connectionId = service.connect('project-1', { id: 'alice' }, alice.res);
+
+    expect(service.setView('project-1', connectionId, 'mallory', 'canvas')).toBe(false);
+    expect(service.setView('project-2', connectionId, 'alice', 'canvas')).toBe(false);
+    expect(service.getPresence('project-1')[0].view).toBe('chat');
+  });
+
+  it('should broadcast presence when someone leaves', () => {
+    const alice = fakeResponse();
+    const bob = fakeResponse();
+    service.connect('project-1', { id: 'alice' }, alice.res);
+    const bobConnection = service.connect('project-1', { id: 'bob' }, bob.res);
+
+    service.disconnect(bobConnection);
+
+    expect(alice.lastEvent('presence').presence.map((p: any) => p.userId)).toEqual(['alice']);
+    expect(service.getStats()).toEqual({ projects: 1, connections: 1 });
+  });
+
+  it('should drop connections whose stream can no longer be written', () => {
+    const alice = fakeResponse();
+    service.connect('project-1', { id: 'alice' }, alice.res);
+    service.connect('project-1', { id: 'bob' }, { write: () => { throw new Error('socket closed'); } } as any);
+
+    service.publish('project-1', 'message', { message: { id: 'm1' } });
+
+    expect(service.getPresence('project-1').map(p => p.userId)).toEqual(['alice']);
+  });
+
+  describe('publishItemChanges', () => {
+    const item = { id: 'item-1', text: 'Use Postgres', state: 'exploring' };
+
+    it('should publish only added, modified and removed items', () => {
+      const alice = fakeResponse();
+      service.connect('project-1', { id: 'alice' }, alice.res);
+
+      service.publishItemChanges(
+        'project-1',
+        [item, { id: 'item-2', text: 'Unchanged', state: 'decided' }, { id: 'item-3', text: 'Gone' }],
+        [{ ...item, state: 'decided' }, { id: 'item-2', text: 'Unchanged', state: 'decided' }, { id: 'item-4', text: 'New' }],
+        { actorId: 'bob' }
+      );
+
+      expect(alice.events('items')).toEqual([{
+        itemsAdded: [{ id: 'item-4', text: 'New' }],
+        itemsModified: [{ ...item, state: 'decided' }],
+        removedIds: ['item-3'],
+        actorId: 'bob',
+      }]);
+    });
+
+    it('should stay quiet when only attribution changed', () => {
+      const alice = fakeResponse();
+      service.connect('project-1', { id: 'alice' }, alice.res);
+
+      service.publishItemChanges('project-1', [item], [{ ...item, updated_by: 'bob' }]);
+
+      expect(alice.events('items')).toHaveLength(0);
+    });
+  });
+});
@@ -0,0 +1,143 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../supabase', () => ({ supabase: { from: vi.fn() } }));
+
+import { diffSources, formatWatchAlert, ResearchWatchService, WatchSource } from '../researchWatches';
+import { nextCronRun, isValidCron, shortestCronInterval } from '../../utils/cron';
+import { isPrivateAddress, assertPublicUrl, fetchPublicUrl } from '../../utils/urlSafety';
+
+describe('nextCronRun', () => {
+  const from = new Date('2026-03-04T10:30:15Z'); // Wednesday
+
+  it('finds the next matching minute in UTC', () => {
+    expect(nextCronRun('*/15 * * * *', from).toISOString()).toBe('2026-03-04T10:45:00.000Z');
+    expect(nextCronRun('@daily', from).toISOString()).toBe('2026-03-05T00:00:00.000Z');
+    expect(nextCronRun('0 9 * * 1-5', new Date('2026-03-06T12:00:00Z')).toISOString()).toBe('2026-03-09T09:00:00.000Z');
+  });
+
+  it('matches either day field when both are restricted, and treats 7 as Sunday', () => {
+    expect(nextCronRun('0 8 15 * 1', from).toISOString()).toBe('2026-03-09T08:00:00.000Z');
+    expect(nextCronRun('0 8 * * 7', from).toISOString()).toBe('2026-03-08T08:00:00.000Z');
+  });
+
+  it('rejects malformed and impossible expressions', () => {
+    expect(isValidCron('0 9 * *')).toBe(false);
+    expect(isValidCron('61 * * * *')).toBe(false);
+    expect(isValidCron('0 0 31 2 *')).toBe(false);
+    expect(isValidCron('0 9 * * mon')).toBe(false);
+  });
+});
+
+describe('shortestCronInterval', () => {
+  it('finds the shortest gap, including across midnight', () => {
+    expect(shortestCronInterval('* * * * *')).toBe(1);
+    expect(shortestCronInterval('@hourly')).toBe(60);
+    expect(shortestCronInterval('0 9,17 * * 1-5')).toBe(8 * 60);
+    expect(shortestCronInterval('30 0,23 * * *')).toBe(60);
+  });
+});
+
+describe('watch validation', () => {
+  const service = new ResearchWatchService();
+
+  it('rejects schedules that run more often than hourly', async () => {
+    await expect(service.createWatch('p1', 'alice', { query: 'EU AI Act', schedule: '*/5 * * * *' }))
+      .rejects.toMatchObject({ status: 400, message: expect.stringContaining('every 60 minutes') });
+  });
+
+  it('rejects watched pages on private, loopback and link-local addresses', async () => {
+    for (const url of ['http://127.0.0.1:6379/', 'http://169.254.169.254/latest/meta-data', 'http://[::1]/', 'http://10.0.0.8/admin']) {
+      await expect(service.createWatch('p1', 'alice', { query: 'EU AI Act', schedule: '@daily', urls: [url] }))
+        .rejects.toMatchObject({ status: 400, message: expect.stringContaining('not a public address') });
+    }
+  });
+
+  it('tells public from private addresses', () => {
+    expect(isPrivateAddress('93.184.216.34')).toBe(false);
+    expect(isPrivateAddress('2606:2800:220:1::1')).toBe(false);
+    expect(isPrivateAddress('172.31.255.1')).toBe(true);
+    expect(isPrivateAddress('100.100.1.1')).toBe(true);
+    expect(isPrivateAddress('::ffff:192.168.1.1')).toBe(true);
+    expect(isPrivateAddress('fe80::1')).toBe(true);
+  });
+
+  it('checks IPv4-mapped IPv6 addresses in either notation as IPv4', async () => {
+    expect(isPrivateAddress('::ffff:7f00:1')).toBe(true);
+    expect(isPrivateAddress('::ffff:a9fe:a9fe')).toBe(true);
+    expect(isPrivateAddress('::ffff:0:0')).toBe(true);
+    expect(isPrivateAddress('::ffff:5db8:d822')).toBe(false);
+    await expect(assertPublicUrl('http://[::ffff:169.254.169.254]/latest/meta-data')).rejects.toThrow('not a public address');
+  });
+
+  it('re-checks every redirect hop and stops at the first private one', async () => {
+    const fetchMock = vi.fn(async (url: string, _init?: RequestInit) => url === 'http://93.184.216.34/moved'
+      ? new Response(null, { status: 302, headers: { location: 'http://169.254.169.254/latest/meta-data' } })
+      : new Response('metadata'));
+    vi.stubGlobal('fetch', fetchMock);
+    try {
+      await expect(fetchPublicUrl('http://93.184.216.34/moved')).rejects.toThrow('not a public address');
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      expect(fetchMock.mock.calls[0][1]).toMatchObject({ redirect: 'manual' });
+    } finally {
+      vi.unstubAllGlobals();
+    }
+  });
+
+  it('follows public redirects up to the hop limit', async () => {
+    const fetchMock = vi.fn(async (url: string, _init?: RequestInit) => url.endsWith('/loop')
+      ? new Response(null, { status: 301, headers: { location: '/loop' } })
+      : new Response(null, { status: 302, headers: { location: '/loop' } }));
+    vi.stubGlobal('fetch', fetchMock);
+    try {
+      await expect(fetchPublicUrl('http://93.184.216.34/start', {}, 3)).rejects.toThrow('Too many redirects');
+      expect(fetchMock).toHaveBeenCalledTimes(4);
+      expect(fetchMock.mock.calls[1][0]).toBe('http://93.184.216.34/loop');
+    } finally {
+      vi.unstubAllGlobals();
+    }
+  });
+});
+
+describe('diffSources', () => {
+  const page = (url: string, content: string): WatchSource => ({ url, title: url, snippet: '', content });
+  const pricing = 'Acme charges twelve dollars per seat each month for the team plan with annual billing';
+
+  it('reports unseen URLs as new and rewritten known pages as changed', async () => {
+    const previous = [page('https://acme.com/pricing', pricing), page('https://acme.com/blog', 'Launch notes')];
+
+    const diff = await diffSources([
+      page('https://acme.com/pricing', 'Acme now charges twenty dollars per seat and dropped the team plan entirely'),
+      page('https://acme.com/blog', 'Launch notes'),
+      page('https://news.example/acme-raises', 'Acme raised a series B round'),
+      page('https://mirror.example/pricing', pricing),
+    ], previous);
+
+    expect(diff.newSources.map(s => s.url)).toEqual(['https://news.example/acme-raises']);
+    expect(diff.changedSources.map(s => s.url)).toEqual(['https://acme.com/pricing']);
+    expect(diff.changedSources[0].similarity).toBeLessThan(0.8);
+  });
+
+  it('does not report pages that could not be fetched as changed', async () => {
+    const diff = await diffSources([page('https://acme.com/pricing', '')], [page('https://acme.com/pricing', pricing)]);
+    expect(diff).toEqual({ newSources: [], changedSources: [] });
+  });
+});
+
+describe('formatWatchAlert', () => {
+  it('lists new and changed sources with links and flags documents to re-examine', () => {
+    const message = formatWatchAlert(
+      { query: 'Acme pricing', lastRunAt: '2026-03-01T09:00:00Z' },
+      {
+        newSources: [{ url: 'https://news.example/a', title: 'Acme raises', snippet: 'Series B', content: '' }],
+        changedSources: [{ url: 'https://acme.com/pricing', title: 'Pricing', snippet: '', content: '', similarity: 0.42 }],
+      },
+      [{ documentId: 'doc-1', title: 'Competitive analysis', needsReexamination: true, reason: 'Project decisions have changed.' }]
+    );
+
+    expect(message).toContain('**Research watch: "Acme pricing"**');
+    expect(message).toContain('1 new and 1 changed sources since Sun, 01 Mar 2026 09:00:00 GMT.');
+    expect(message).toContain('- [Acme raises](https://news.example/a) - Series B');
+    expect(message).toContain('- [Pricing](https://acme.com/pricing) - 42% of the wording is unchanged');
+    expect(message).toContain('- Competitive analysis: needs re-examination. Project decisions have changed.');
+  });
+});
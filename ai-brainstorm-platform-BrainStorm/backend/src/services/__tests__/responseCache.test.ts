@@ -0,0 +1,134 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+const { insertedHits } = vi.hoisted(() => ({ insertedHits: [] as any[] }));
+
+vi.mock('../supabase', () => ({
+  supabase: {
+    from: (table: string) => ({
+      insert: async (row: any) => {
+        if (table === 'semantic_cache_hits') insertedHits.push(row);
+        return { error: null };
+      },
+    }),
+  },
+}));
+
+import { ResponseCache, normalizeRequest } from '../responseCache';
+import { MemoryCacheStore, setCacheStore, invalidateProjectCaches } from '../cacheStore';
+import { EmbeddingProvider, setEmbeddingProvider } from '../embeddingProvider';
+import type { AgentResponse } from '../../types';
+
+// Hand-picked vectors: the two Postgres phrasings are close, the MySQL one is not
+const VECTORS: Record<string, number[]> = {
+  'let s use postgres': [1, 0.1, 0],
+  'we ll go with postgres': [0.98, 0.15, 0.05],
+  'we ll go with mysql': [0.2, 1, 0],
+};
+
+class FakeEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'fake';
+  readonly model = 'fake-3d';
+  readonly dimensions = 3;
+  readonly maxInputChars = 1000;
+  embed = vi.fn(async (texts: string[]) => texts.map(text => VECTORS[text] || [0, 0, 1]));
+}
+
+const response = (message: string) =>
+  ({ agent: 'ConversationAgent', message, showToUser: true }) as unknown as AgentResponse;
+
+const state = { decided: [{ text: 'Build a booking app' }], exploring: [], parked: [] };
+
+describe('ResponseCache semantic tier', () => {
+  let store: MemoryCacheStore;
+  let provider: FakeEmbeddingProvider;
+  let cache: ResponseCache;
+
+  beforeEach(() => {
+    insertedHits.length = 0;
+    store = new MemoryCacheStore('test');
+    setCacheStore(store);
+    provider = new FakeEmbeddingProvider();
+    setEmbeddingProvider(provider);
+    cache = new ResponseCache({ enabled: true, threshold: 0.95, agents: ['gapDetection'], maxEntries: 5 });
+  });
+
+  afterEach(async () => {
+    setCacheStore(undefined);
+    setEmbeddingProvider(undefined);
+    await store.close();
+  });
+
+  it('normalizes case, punctuation and spacing', () => {
+    expect(normalizeRequest("  Let's use   Postgres! ")).toBe('let s use postgres');
+  });
+
+  it('answers a reworded request from cache and records the similarity', async () => {
+    const first = await cache.findSimilar('gapDetection', "Let's use Postgres", state, 'p1');
+    expect(first.match).toBeNull();
+    await cache.setSimilar(first.candidate!, response('Gaps: hosting, backups'));
+
+    const second = await cache.findSimilar('gapDetection', "We'll go with Postgres.", state, 'p1');
+
+    expect(second.match?.response).toEqual(response('Gaps: hosting, backups'));
+    expect(second.match?.matchedRequest).toBe('let s use postgres');
+    expect(second.match?.similarity).toBeGreaterThan(0.95);
+    await vi.waitFor(() => expect(insertedHits).toHaveLength(1));
+    expect(insertedHits[0]).toMatchObject({
+      project_id: 'p1',
+      agent_name: 'gapDetection',
+      request_text: 'we ll go with postgres',
+      matched_request_text: 'let s use postgres',
+      threshold: 0.95,
+      embedding_model: 'fake-3d',
+    });
+    expect(insertedHits[0].similarity).toBe(second.match?.similarity);
+
+    const stats = await cache.getStats();
+    expect(stats.semantic).toMatchObject({ enabled: true, hits: 1, misses: 1, hitRate: 50 });
+    expect(stats.estimatedSavings).toBe(1);
+  });
+
+  it('misses below the threshold, for another project state and after the project changes', async () => {
+    const first = await cache.findSimilar('gapDetection', "Let's use Postgres", state, 'p1');
+    await cache.setSimilar(first.candidate!, response('Gaps'));
+
+    expect((await cache.findSimilar('gapDetection', "We'll go with MySQL", state, 'p1')).match).toBeNull();
+
+    const changedState = { ...state, decided: [...state.decided, { text: 'Use Postgres' }] };
+    expect((await cache.findSimilar('gapDetection', "We'll go with Postgres", changedState, 'p1')).match).toBeNull();
+    expect((await cache.findSimilar('gapDetection', "We'll go with Postgres", state, 'p2')).match).toBeNull();
+
+    await invalidateProjectCaches('p1');
+    expect((await cache.findSimilar('gapDetection', "We'll go with Postgres", state, 'p1')).match).toBeNull();
+    expect(insertedHits).toHaveLength(0);
+  });
+
+  it('misses when only the recent conversation differs for agents keyed on it', async () => {
+    const historyCache = new ResponseCache({ enabled: true, threshold: 0.95, agents: ['questioner'], maxEntries: 5 });
+    const earlier = [{ role: 'user', content: 'Who is the app for?' }, { role: 'assistant', content: 'Salons' }];
+    const later = [...earlier, { role: 'user', content: 'Make it for gyms instead' }];
+
+    const first = await historyCache.findSimilar('questioner', "Let's use Postgres", state, 'p1', earlier);
+    await historyCache.setSimilar(first.candidate!, response('What about salon booking volumes?'));
+
+    expect((await historyCache.findSimilar('questioner', "We'll go with Postgres", state, 'p1', later)).match).toBeNull();
+    expect((await historyCache.findSimilar('questioner', "We'll go with Postgres", state, 'p1', earlier)).match?.response)
+      .toEqual(response('What about salon booking volumes?'));
+  });
+
+  it('skips agents outside the semantic tier and a disabled tier', async () => {
+    const notInTier = await cache.findSimilar('brainstorming', "Let's use Postgres", state, 'p1');
+    const disabled = await new ResponseCache({ enabled: false, threshold: 0.95, agents: ['gapDetection'], maxEntries: 5 })
+      .findSimilar('gapDetection', "Let's use Postgres", state, 'p1');
+
+    expect(notInTier).toEqual({ match: null, candidate: null });
+    expect(disabled).toEqual({ match: null, candidate: null });
+    expect(provider.embed).not.toHaveBeenCalled();
+  });
+
+  it('misses without an embedding provider', async () => {
+    setEmbeddingProvider(null);
+
+    expect(await cache.findSimilar('gapDetection', "Let's use Postgres", state, 'p1')).toEqual({ match: null, candidate: null });
+  });
+});
@@ -0,0 +1,159 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+vi.mock('../supabase', () => ({ supabase: { from: vi.fn() } }));
+
+import {
+  BraveSearchProvider,
+  FixtureSearchProvider,
+  RecordingSearchProvider,
+  SearchFixtureFile,
+  SearchProvider,
+  SearxngSearchProvider,
+  createSearchProvider,
+  setSearchProvider,
+} from '../searchProvider';
+import { SEARCH_PROVIDERS, getSearchProviderConfig } from '../../config/aiModels';
+import { UnifiedResearchAgent } from '../../agents/unifiedResearchAgent';
+
+const pricingPage = {
+  url: 'https://example.com/pricing',
+  title: 'Team pricing',
+  textContent: 'Team plans cost $12 per seat per month and include up to 50 seats per workspace. '.repeat(3),
+  excerpt: 'Team plans cost $12 per seat per month',
+};
+
+const fixtures: SearchFixtureFile = {
+  searches: [{
+    query: 'SaaS team pricing',
+    results: [
+      { url: pricingPage.url, title: pricingPage.title, snippet: 'Per-seat pricing' },
+      { url: 'https://example.com/unrecorded', title: 'Not snapshotted', snippet: '' },
+    ],
+  }],
+  pages: [pricingPage],
+};
+
+describe('search provider configuration', () => {
+  const saved = { ...process.env };
+  afterEach(() => {
+    process.env = { ...saved };
+  });
+
+  it('uses Google when its keys are set and no search API otherwise', () => {
+    delete process.env.SEARCH_PROVIDER;
+    process.env.GOOGLE_SEARCH_API_KEY = 'key';
+    process.env.GOOGLE_SEARCH_ENGINE_ID = 'cx';
+    expect(getSearchProviderConfig().type).toBe(SEARCH_PROVIDERS.GOOGLE);
+
+    delete process.env.GOOGLE_SEARCH_API_KEY;
+    expect(getSearchProviderConfig().type).toBe(SEARCH_PROVIDERS.NONE);
+    expect(createSearchProvider()).toBeNull();
+  });
+
+  it('replays fixtures from SEARCH_FIXTURES_PATH', () => {
+    process.env.SEARCH_PROVIDER = 'fixture';
+    process.env.SEARCH_FIXTURES_PATH = '/tmp/search.json';
+    expect(getSearchProviderConfig()).toEqual({ type: 'fixture', fixturesPath: '/tmp/search.json' });
+    expect(createSearchProvider({ type: 'fixture' })).toBeInstanceOf(FixtureSearchProvider);
+  });
+});
+
+describe('FixtureSearchProvider', () => {
+  it('matches queries regardless of case and spacing and fails on anything unrecorded', async () => {
+    const provider = new FixtureSearchProvider({ fixtures });
+
+    expect(await provider.search('  saas TEAM pricing ', 1)).toEqual([fixtures.searches[0].results[0]]);
+    expect(await provider.fetchPage(pricingPage.url)).toEqual(pricingPage);
+    await expect(provider.search('enterprise pricing', 5)).rejects.toThrow('No recorded search results');
+    await expect(provider.fetchPage('https://example.com/unrecorded')).rejects.toThrow('No recorded snapshot');
+  });
+});
+
+describe('RecordingSearchProvider', () => {
+  it('saves live results and pages in a file the fixture provider replays', async () => {
+    const fixturesPath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'search-fixtures-')), 'search.json');
+    const live: SearchProvider = {
+      name: 'live',
+      search: vi.fn().mockResolvedValue(fixtures.searches[0].results),
+      fetchPage: vi.fn().mockResolvedValue(pricingPage),
+    };
+
+    const recorder = new RecordingSearchProvider(live, fixturesPath);
+    await recorder.search('SaaS team pricing', 5);
+    await recorder.fetchPage(pricingPage.url);
+    await recorder.fetchPage(pricingPage.url);
+
+    const replay = new FixtureSearchProvider({ fixturesPath });
+    expect(await replay.search('saas team pricing', 5)).toEqual(fixtures.searches[0].results);
+    expect(await replay.fetchPage(pricingPage.url)).toEqual(pricingPage);
+    expect(JSON.parse(fs.readFileSync(fixturesPath, 'utf8')).pages).toHaveLength(1);
+  });
+});
+
+describe('live search providers', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const respondWith = (body: unknown) => {
+    const fetchMock = vi.fn().mockResolvedValue({ ok: true, status: 200, json: async () => body });
+    vi.stubGlobal('fetch', fetchMock);
+    return fetchMock;
+  };
+
+  it('maps Brave results and sends the subscription token', async () => {
+    const fetchMock = respondWith({ web: { results: [{ url: 'https://a.dev', title: 'A', description: 'About A' }] } });
+
+    const results = await new BraveSearchProvider('brave-key').search('a dev', 3);
+
+    expect(results).toEqual([{ url: 'https://a.dev', title: 'A', snippet: 'About A' }]);
+    expect(fetchMock.mock.calls[0][0]).toContain('q=a+dev&count=3');
+    expect(fetchMock.mock.calls[0][1].headers['X-Subscription-Token']).toBe('brave-key');
+  });
+
+  it('queries SearXNG for JSON and trims to the requested count', async () => {
+    const fetchMock = respondWith({
+      results: [
+        { url: 'https://a.dev', title: 'A', content: 'About A' },
+        { url: 'https://b.dev', title: 'B', content: 'About B' },
+      ],
+    });
+
+    const results = await new SearxngSearchProvider('http://searx.local/').search('a dev', 1);
+
+    expect(results).toEqual([{ url: 'https://a.dev', title: 'A', snippet: 'About A' }]);
+    expect(fetchMock.mock.calls[0][0]).toBe('http://searx.local/search?q=a+dev&format=json');
+  });
+
+  it('does not retry rejected API keys', async () => {
+    const fetchMock = vi.fn().mockResolvedValue({ ok: false, status: 401, json: async () => ({}) });
+    vi.stubGlobal('fetch', fetchMock);
+
+    await expect(new BraveSearchProvider('bad-key').search('a dev', 3)).rejects.toThrow('missing or invalid');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('UnifiedResearchAgent with recorded search', () => {
+  afterEach(() => {
+    setSearchProvider(undefined);
+  });
+
+  it('researches the web offline from fixtures', async () => {
+    setSearchProvider(new FixtureSearchProvider({ fixtures }));
+
+    const result = await new UnifiedResearchAgent().research('SaaS team pricing', 'project-1', 'user-1', {
+      sources: 'web',
+      includeAnalysis: false,
+      saveToDB: false,
+    });
+
+    expect(result.webSources.map(source => source.url)).toEqual([pricingPage.url, 'https://example.com/unrecorded']);
+    expect(result.webSources[0].content).toBe(pricingPage.textContent);
+    expect(result.webSources[1].content).toBeUndefined();
+    expect(result.synthesis).toContain(pricingPage.url);
+  });
+});
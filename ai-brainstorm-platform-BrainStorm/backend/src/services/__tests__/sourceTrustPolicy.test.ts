@@ -0,0 +1,102 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../supabase', () => ({ supabase: { from: vi.fn() } }));
+
+import { normalizePolicy, mergePolicies, evaluatePolicy, SourceTrustPolicyError } from '../sourceTrustPolicy';
+import { SourceQualityService } from '../sourceQualityService';
+
+describe('normalizePolicy', () => {
+  it('normalizes domain rules and rejects invalid input', () => {
+    const policy = normalizePolicy({
+      blockDomains: ['https://www.ContentFarm.example/articles', 'contentfarm.example'],
+      domainWeights: { '.GOV': 97.4 },
+    });
+
+    expect(policy.blockDomains).toEqual(['contentfarm.example']);
+    expect(policy.domainWeights).toEqual({ '.gov': 97 });
+    expect(policy.requiredSourceTypes).toEqual([]);
+
+    expect(() => normalizePolicy({ domainWeights: { 'a.com': 140 } })).toThrow(SourceTrustPolicyError);
+    expect(() => normalizePolicy({ requiredSourceTypes: ['tabloid'] })).toThrow(/requiredSourceTypes/);
+  });
+});
+
+describe('evaluatePolicy', () => {
+  const organization = normalizePolicy({ blockDomains: ['contentfarm.example'], domainWeights: { '.gov': 95 } });
+  const project = normalizePolicy({
+    allowDomains: ['contentfarm.example', 'whitepapers.acme.com'],
+    domainWeights: { 'cdc.gov': 100, '.xyz': 10 },
+    requiredSourceTypes: ['peer_reviewed'],
+  });
+  const policy = mergePolicies(organization, project);
+
+  it('keeps organization blocks over project allow-lists, including subdomains', () => {
+    const result = evaluatePolicy('news.contentfarm.example', 'news', policy);
+    expect(result.blocked).toBe(true);
+    expect(result.allowListed).toBe(false);
+    expect(result.violations[0]).toContain('contentfarm.example');
+  });
+
+  it('uses the most specific weight and exempts allow-listed domains from required types', () => {
+    expect(evaluatePolicy('cdc.gov', 'government', policy).weight).toBe(100);
+    expect(evaluatePolicy('nih.gov', 'government', policy).weight).toBe(95);
+
+    expect(evaluatePolicy('whitepapers.acme.com', 'other', policy)).toEqual({
+      blocked: false, allowListed: true, weight: undefined, violations: [],
+    });
+    expect(evaluatePolicy('nih.gov', 'government', policy).violations).toEqual([
+      'Source type "government" is not one of the required types (peer_reviewed)',
+    ]);
+  });
+  it('applies the organization\'s required types on top of the project\'s, allow-listed or not', () => {
+    const strict = mergePolicies(
+      normalizePolicy({ allowDomains: ['who.int'], requiredSourceTypes: ['peer_reviewed', 'government'] }),
+      normalizePolicy({ allowDomains: ['myblog.example'], requiredSourceTypes: ['blog', 'government'] })
+    );
+
+    expect(evaluatePolicy('cdc.gov', 'government', strict).violations).toEqual([]);
+    expect(evaluatePolicy('myblog.example', 'blog', strict).violations).toEqual([
+      'Source type "blog" is not one of the required types (peer_reviewed, government)',
+    ]);
+    expect(evaluatePolicy('who.int', 'other', strict).violations).toEqual([]);
+    expect(evaluatePolicy('nejm.org', 'peer_reviewed', strict).violations).toEqual([
+      'Source type "peer_reviewed" is not one of the required types (blog, government)',
+    ]);
+  });
+});
+
+describe('SourceQualityService.rankSources', () => {
+  const service = new SourceQualityService();
+  const article = 'The randomized trial enrolled 400 patients over two years. '.repeat(40);
+
+  it('drops blocked sources and ranks policy violations last with reasons', async () => {
+    const policy = normalizePolicy({
+      blockDomains: ['contentfarm.example'],
+      domainWeights: { '.xyz': 10 },
+      requiredSourceTypes: ['peer_reviewed', 'government'],
+    });
+
+    const { ranked, excluded } = await service.rankSources([
+      { url: 'https://health-tips.xyz/miracle', title: 'Miracle cure', content: article },
+      { url: 'https://www.contentfarm.example/top-10', title: 'Top 10 cures', content: article },
+      { url: 'https://www.nejm.org/doi/full/10.1056/x', title: 'Trial results', content: article },
+      { url: 'https://www.cdc.gov/guidance', title: 'Guidance', content: article },
+    ], policy);
+
+    expect(excluded).toEqual([
+      { url: 'https://www.contentfarm.example/top-10', title: 'Top 10 cures', reason: 'Blocked by trust policy (contentfarm.example)' },
+    ]);
+    expect(ranked.map(source => source.url)).toEqual([
+      'https://www.cdc.gov/guidance',
+      'https://www.nejm.org/doi/full/10.1056/x',
+      'https://health-tips.xyz/miracle',
+    ]);
+
+    const downranked = ranked[2].trust;
+    expect(downranked.policyViolation).toBe(true);
+    expect(downranked.sourceType).toBe('other');
+    expect(downranked.downrankReasons).toContain('Trust policy lowers health-tips.xyz reputation to 10');
+    expect(downranked.downrankReasons).not.toContain('Low domain reputation');
+    expect(ranked[1].trust.sourceType).toBe('peer_reviewed');
+  });
+});
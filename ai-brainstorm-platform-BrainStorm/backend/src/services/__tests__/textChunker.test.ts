@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { chunkText, pageMarker, describeChunkLocation } from '../textChunker';
+import { formatTranscript, parseTranscript } from '../mediaAnalysis';
+
+const sentence = (n: number) => `Requirement ${n} covers the vendor's obligations in detail.`;
+const page = (n: number, sentences: number) =>
+  `${pageMarker(n)}\n${Array.from({ length: sentences }, (_, i) => sentence(n * 100 + i)).join(' ')}`;
+
+describe('chunkText', () => {
+  it('covers long text with overlapping chunks whose offsets point into the source', () => {
+    const text = [page(1, 30), page(2, 30), page(3, 30)].join('\n\n');
+    const chunks = chunkText(text, { maxChars: 800, overlap: 150 });
+
+    expect(chunks.length).toBeGreaterThan(5);
+    expect(chunks.map(c => c.index)).toEqual(chunks.map((_, i) => i));
+    // Nothing past the intro is lost: the last page's last sentence is in the last chunk
+    expect(chunks[chunks.length - 1].content).toContain(sentence(329));
+
+    for (const [i, chunk] of chunks.entries()) {
+      expect(chunk.content.length).toBeLessThanOrEqual(800);
+      expect(chunk.content).not.toContain('[Page');
+      expect(text.slice(chunk.charStart, chunk.charEnd)).toContain(chunk.content.split('\n')[0]);
+      if (i > 0) expect(chunk.charStart).toBeLessThan(chunks[i - 1].charEnd);
+    }
+  });
+
+  it('records the page range and nearest heading of each chunk', () => {
+    const text = [
+      '## Scope',
+      page(1, 8),
+      '## Pricing',
+      page(2, 8),
+    ].join('\n');
+    const chunks = chunkText(text, { maxChars: 400, overlap: 0 });
+
+    expect(chunks[0]).toMatchObject({ pageStart: 1, section: 'Scope' });
+    const last = chunks[chunks.length - 1];
+    expect(last).toMatchObject({ pageStart: 2, pageEnd: 2, section: 'Pricing' });
+    expect(chunks.some(c => c.pageStart === 1 && c.pageEnd === 2)).toBe(true);
+    expect(describeChunkLocation({ pageStart: 1, pageEnd: 2, section: 'Pricing' })).toBe('p. 1-2 · Pricing');
+  });
+
+  it('leaves location empty for plain text and returns nothing for blank text', () => {
+    expect(chunkText('Short note about the launch.')).toEqual([
+      { index: 0, content: 'Short note about the launch.', charStart: 0, charEnd: 28, pageStart: null, pageEnd: null, section: null },
+    ]);
+    expect(chunkText('  \n\n ')).toEqual([]);
+  });
+});
+
+describe('parseTranscript', () => {
+  it('reads back formatted transcripts for re-chunking', () => {
+    const segments = [
+      { start: 0, end: 4, text: 'Welcome everyone.' },
+      { start: 4, end: 3725, text: 'Let us start with pricing.' },
+      { start: 3725, end: 3730, text: 'Wrapping up.' },
+    ];
+
+    expect(parseTranscript(formatTranscript(segments))).toEqual([
+      { start: 0, end: 4, text: 'Welcome everyone.' },
+      { start: 4, end: 3725, text: 'Let us start with pricing.' },
+      { start: 3725, end: 3725, text: 'Wrapping up.' },
+    ]);
+  });
+});
@@ -0,0 +1,215 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+vi.mock('../supabase', () => ({ supabase: {} }));
+
+import {
+  WorkflowRegistry,
+  WorkflowCatalog,
+  WorkflowDefinitionError,
+  parseWorkflowDocument,
+  removeSkippedSteps,
+  validateWorkflowDocument,
+} from '../workflowRegistry';
+import { DEFAULT_WORKFLOW_DOCUMENT } from '../../config/workflows';
+import { IntegrationOrchestrator } from '../../agents/orchestrator';
+
+/**
+ * Just enough of the Supabase query builder for the project_workflows table
+ */
+function fakeSupabase() {
+  const rows: any[] = [];
+
+  const client = {
+    rows,
+    from: () => ({
+      select: () => {
+        let filtered = rows;
+        const query: any = {
+          eq: (column: string, value: any) => {
+            filtered = filtered.filter(row => row[column] === value);
+            return query;
+          },
+          order: () => {
+            filtered = [...filtered].sort((a, b) => b.version - a.version);
+            return query;
+          },
+          limit: (count: number) => Promise.resolve({ data: filtered.slice(0, count), error: null }),
+        };
+        return query;
+      },
+      insert: (row: any) => ({
+        select: () => ({
+          single: () => {
+            const saved = { ...row, created_at: new Date().toISOString() };
+            rows.push(saved);
+            return Promise.resolve({ data: saved, error: null });
+          },
+        }),
+      }),
+    }),
+  };
+
+  return client;
+}
+
+describe('WorkflowRegistry', () => {
+  let catalog: WorkflowCatalog;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    catalog = new IntegrationOrchestrator().getWorkflowCatalog();
+    vi.restoreAllMocks();
+  });
+
+  describe('validateWorkflowDocument', () => {
+    it('should accept the built-in workflows against the registered agents', () => {
+      const validation = validateWorkflowDocument(DEFAULT_WORKFLOW_DOCUMENT, catalog);
+      expect(validation.errors).toEqual([]);
+      expect(validation.valid).toBe(true);
+    });
+
+    it('should reject unknown agents, actions and conditions', () => {
+      const validation = validateWorkflowDocument({
+        version: 1,
+        workflows: {
+          general: {
+            steps: [
+              { agentName: 'documentResearch', action: 'reflect' },
+              { agentName: 'brainstorming', action: 'deploy' },
+              { agentName: 'reviewer', action: 'reflect' },
+              { agentName: 'brainstorming', action: 'reflect', condition: 'if_sunny' },
+            ],
+          },
+        },
+      }, catalog);
+
+      expect(validation.valid).toBe(false);
+      expect(validation.errors).toEqual([
+        'workflows.general.steps[0].agentName "documentResearch" is not a registered agent',
+        'workflows.general.steps[1].action "deploy" is not a supported action',
+        'workflows.general.steps[2]: agent "reviewer" does not support action "reflect"',
+        'workflows.general.steps[3].condition "if_sunny" is not a supported condition',
+      ]);
+    });
+
+    it('should require the fallback workflow in full documents but not in overrides', () => {
+      const document = { version: 1, workflows: { exploring: { steps: [] } } };
+
+      expect(validateWorkflowDocument(document, catalog).errors).toContain(
+        'workflows.general is required as the fallback workflow'
+      );
+      expect(validateWorkflowDocument(document, catalog, { override: true }).valid).toBe(true);
+    });
+
+    it('should check skipAgents and reject it outside overrides', () => {
+      const document = { version: 1, skipAgents: ['assumptionBlocker', 'nobody'] };
+
+      expect(validateWorkflowDocument(document, catalog, { override: true }).errors).toEqual([
+        'skipAgents: "nobody" is not a registered agent',
+      ]);
+      expect(validateWorkflowDocument(document, catalog).errors).toContain('Unknown top-level field "skipAgents"');
+    });
+  });
+
+  describe('parseWorkflowDocument', () => {
+    it('should parse YAML and JSON text', () => {
+      const yaml = 'version: 1\nskipAgents:\n  - assumptionBlocker\n';
+      const json = '{"version": 1, "skipAgents": ["assumptionBlocker"]}';
+
+      expect(parseWorkflowDocument(yaml)).toEqual({ version: 1, skipAgents: ['assumptionBlocker'] });
+      expect(parseWorkflowDocument(json)).toEqual(parseWorkflowDocument(yaml));
+    });
+
+    it('should raise a definition error for malformed text', () => {
+      expect(() => parseWorkflowDocument('version: [1')).toThrow(WorkflowDefinitionError);
+    });
+  });
+
+  describe('removeSkippedSteps', () => {
+    it('should close a parallel group when the step that ended it is skipped', () => {
+      const { sequence, skipped } = removeSkippedSteps(
+        DEFAULT_WORKFLOW_DOCUMENT.workflows.deciding.steps,
+        ['consistencyGuardian']
+      );
+
+      expect(skipped.map(s => s.agentName)).toEqual(['consistencyGuardian']);
+      expect(sequence.map(s => [s.agentName, !!s.parallel])).toEqual([
+        ['brainstorming', false],
+        ['verification', true],
+        ['assumptionBlocker', false],
+        ['versionControl', false],
+      ]);
+    });
+  });
+
+  describe('project overrides', () => {
+    let registry: WorkflowRegistry;
+    let supabase: ReturnType<typeof fakeSupabase>;
+
+    beforeEach(() => {
+      supabase = fakeSupabase();
+      registry = new WorkflowRegistry(supabase as any);
+    });
+
+    it('should use the defaults until a project overrides them', async () => {
+      const resolved = await registry.resolve('deciding', catalog, 'project-1');
+
+      expect(resolved.sequence).toEqual(DEFAULT_WORKFLOW_DOCUMENT.workflows.deciding.steps);
+      expect(resolved.source).toEqual({ type: 'default', defaultsVersion: 1, overrideVersion: null });
+    });
+
+    it('should fall back to the general workflow for unknown intents', async () => {
+      const resolved = await registry.resolve('questioning', catalog);
+
+      expect(resolved.intent).toBe('general');
+      expect(resolved.sequence).toEqual(DEFAULT_WORKFLOW_DOCUMENT.workflows.general.steps);
+    });
+
+    it('should apply skipAgents and replaced intents from the newest version', async () => {
+      await registry.saveProjectOverride('project-1', 'version: 1\nskipAgents: [gapDetection]', catalog, 'alice');
+      await registry.saveProjectOverride('project-1', [
+        'version: 1',
+        'skipAgents: [assumptionBlocker]',
+        'workflows:',
+        '  exploring:',
+        '    steps:',
+        '      - { agentName: brainstorming, action: reflect }',
+      ].join('\n'), catalog, 'alice');
+
+      const deciding = await registry.resolve('deciding', catalog, 'project-1');
+      expect(deciding.sequence.map(s => s.agentName)).not.toContain('assumptionBlocker');
+      expect(deciding.skipped.map(s => s.agentName)).toEqual(['assumptionBlocker']);
+      expect(deciding.source).toEqual({ type: 'project', defaultsVersion: 1, overrideVersion: 2 });
+
+      const exploring = await registry.resolve('exploring', catalog, 'project-1');
+      expect(exploring.sequence).toEqual([{ agentName: 'brainstorming', action: 'reflect' }]);
+
+      // Version 1's skip no longer applies
+      const brainstorming = await registry.resolve('brainstorming', catalog, 'project-1');
+      expect(brainstorming.sequence.map(s => s.agentName)).toContain('gapDetection');
+      expect(brainstorming.source.type).toBe('default');
+
+      expect(await registry.resolve('deciding', catalog, 'project-2')).toMatchObject({
+        source: { type: 'default' },
+      });
+    });
+
+    it('should refuse invalid overrides without storing them', async () => {
+      await expect(
+        registry.saveProjectOverride('project-1', { version: 1, skipAgents: ['nobody'] }, catalog)
+      ).rejects.toMatchObject({
+        name: 'WorkflowDefinitionError',
+        errors: ['skipAgents: "nobody" is not a registered agent'],
+      });
+      expect(supabase.rows).toHaveLength(0);
+    });
+
+    it('should keep history when reverting to the defaults', async () => {
+      await registry.saveProjectOverride('project-1', { version: 1, skipAgents: ['assumptionBlocker'] }, catalog);
+      await registry.clearProjectOverride('project-1', 'alice');
+
+      expect(await registry.getProjectOverride('project-1')).toBeNull();
+      expect((await registry.listProjectVersions('project-1')).map(v => v.version)).toEqual([2, 1]);
+    });
+  });
+});
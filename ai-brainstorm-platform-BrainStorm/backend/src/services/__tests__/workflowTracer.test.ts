@@ -0,0 +1,135 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+vi.mock('../supabase', () => ({ supabase: {} }));
+
+import { WorkflowTracer } from '../workflowTracer';
+import { ScriptedProvider, setLLMProvider } from '../llmProvider';
+import { BaseAgent } from '../../agents/base';
+import { IntegrationOrchestrator } from '../../agents/orchestrator';
+import { AI_MODELS } from '../../config/aiModels';
+import { Workflow } from '../../types';
+
+class NotesAgent extends BaseAgent {
+  constructor() {
+    super('notes', 'system', AI_MODELS.SONNET);
+  }
+
+  async summarize(): Promise<any> {
+    const message = await this.callClaude([{ role: 'user', content: 'summarize' }]);
+    return { agent: 'ConversationAgent', message, showToUser: true, metadata: {} };
+  }
+}
+
+describe('WorkflowTracer', () => {
+  let tracer: WorkflowTracer;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    setLLMProvider(new ScriptedProvider({ defaultResponse: 'Three ideas so far' }));
+    tracer = new WorkflowTracer();
+  });
+
+  afterEach(() => {
+    setLLMProvider(null);
+    vi.restoreAllMocks();
+  });
+
+  it('should record model calls, duration and output of a step', async () => {
+    const trace = tracer.start('project-1', 'Summarize please', { messageId: 'message-1' });
+
+    await trace.runStep(
+      { agentName: 'notes', action: 'summarize', batch: 0, parallel: false },
+      () => new NotesAgent().summarize()
+    );
+
+    const [step] = trace.toJSON().steps;
+    expect(step).toMatchObject({
+      agentName: 'notes',
+      status: 'completed',
+      cacheHit: false,
+      output: { agent: 'ConversationAgent', message: 'Three ideas so far', showToUser: true },
+    });
+    expect(step.durationMs).toBeGreaterThanOrEqual(0);
+    expect(step.modelCalls).toHaveLength(1);
+    expect(step.modelCalls[0].model).toBe(AI_MODELS.SONNET);
+  });
+
+  it('should record failures and rethrow them', async () => {
+    const trace = tracer.start('project-1', 'Hello');
+
+    await expect(
+      trace.runStep({ agentName: 'notes', action: 'summarize', batch: null, parallel: false }, async () => {
+        throw new Error('provider down');
+      })
+    ).rejects.toThrow('provider down');
+
+    expect(trace.toJSON().steps[0]).toMatchObject({ status: 'failed', error: 'provider down' });
+  });
+
+  it('should serve running traces by message and total them when finished', async () => {
+    const trace = tracer.start('project-1', 'Summarize please', { messageId: 'message-1' });
+    await trace.runStep(
+      { agentName: 'notes', action: 'summarize', batch: 0, parallel: false },
+      () => new NotesAgent().summarize()
+    );
+
+    expect((await tracer.getTraceForMessage('project-1', 'message-1'))?.status).toBe('running');
+    expect(await tracer.getTraceForMessage('project-2', 'message-1')).toBeNull();
+
+    const record = await tracer.finish(trace, 'completed');
+
+    expect(record.status).toBe('completed');
+    expect(record.totals.inputTokens).toBe(record.steps[0].modelCalls[0].inputTokens);
+    expect((await tracer.getTrace('project-1', trace.id))?.completedAt).toBe(record.completedAt);
+  });
+
+  it('should keep the trace in memory when saving it rejects', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const insert = vi.fn().mockRejectedValue(new Error('fetch failed'));
+    tracer = new WorkflowTracer({ from: () => ({ insert }) } as any);
+    const trace = tracer.start('project-1', 'Hello');
+
+    const record = await tracer.finish(trace, 'completed');
+
+    expect(insert).toHaveBeenCalledOnce();
+    expect((await tracer.getTrace('project-1', trace.id))?.completedAt).toBe(record.completedAt);
+  });
+
+  describe('IntegrationOrchestrator.executeWorkflow', () => {
+    it('should trace executed, cached and skipped steps', async () => {
+      const orchestrator = new IntegrationOrchestrator();
+      const agents = (orchestrator as any).agents as Map<string, any>;
+      const review = vi.fn().mockResolvedValue({ agent: 'Reviewer', message: 'Looks complete', showToUser: false, metadata: {} });
+      agents.set('reviewer', { review });
+
+      const workflow: Workflow = {
+        intent: 'reviewing',
+        confidence: 90,
+        timestamp: new Date().toISOString(),
+        sequence: [
+          { agentName: 'reviewer', action: 'review' },
+          { agentName: 'clarification', action: 'generateQuestion', condition: 'if_gaps_found' },
+          { agentName: 'prioritization', action: 'prioritize' },
+        ],
+      };
+      const state = { decided: [], exploring: [], parked: [] };
+
+      const first = tracer.start('project-1', 'Review conversation');
+      await orchestrator.executeWorkflow(workflow, 'Review conversation', state, [], [], first);
+
+      expect(first.toJSON().steps.map(s => [s.agentName, s.status, s.skipReason])).toEqual([
+        ['reviewer', 'completed', undefined],
+        ['clarification', 'skipped', 'Condition "if_gaps_found" was not met'],
+        ['prioritization', 'skipped', 'Workflow stopped because condition "if_gaps_found" was not met'],
+      ]);
+      expect(first.toJSON().steps[0].inputs).toMatchObject({ message: 'Review conversation', previousResults: [] });
+
+      // Same message and state again - served from the response cache
+      const second = tracer.start('project-1', 'Review conversation');
+      await orchestrator.executeWorkflow(workflow, 'Review conversation', state, [], [], second);
+
+      expect(second.toJSON().steps[0]).toMatchObject({ status: 'cached', cacheHit: true, modelCalls: [] });
+      expect(review).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -2,10 +2,22 @@ import { IntegrationOrchestrator } from '../agents/orchestrator';
 import { supabase } from './supabase';
 import {
   AgentResponse,
+  IntentClassification,
+  StateChange,
   isConversationAgentResponse,
   isPersistenceManagerResponse,
 } from '../types';
 import { updatesCache } from './updatesCache';
+import { realtimeService } from './realtimeService';
+import { runWithUsageContext, getUsageContext } from './usageContext';
+import { budgetService, BudgetStatus } from './budgetService';
+import { workflowTracer, WorkflowTrace } from './workflowTracer';
+import { itemHistoryService } from './itemHistory';
+import { approvalQueueService, ProposalInput } from './approvalQueue';
+import { getRawProjectItems } from '../utils/projectHelpers';
+import { chatRetrievalService, RetrievedSource } from './chatRetrieval';
+import { isAbortError, LLMStreamOptions } from './llmProvider';
+import { projectMemoryService } from './projectMemory';
 
 export interface ConversationContext {
   projectId: string;
@@ -22,22 +34,65 @@ export class AgentCoordinationService {
 
   /**
    * Process user message through the agent workflow
+   * The run is traced against messageId (the saved user message) when given.
+   * With stream options the conversation reply is streamed as it is generated;
+   * background agents are unaffected.
    */
   async processUserMessage(
     projectId: string,
     userId: string,
-    userMessage: string
+    userMessage: string,
+    messageId?: string,
+    stream?: LLMStreamOptions
   ): Promise<{
     responses: AgentResponse[];
     updates: any;
     workflow: any;
   }> {
+    // Check spend caps once per message; soft/hard levels downgrade models for every agent call
+    const budget = await budgetService.getStatus(projectId, userId);
+    if (budget.level !== 'ok') {
+      console.log(`[Coordination] 💰 Budget level ${budget.level}: ${budget.reason}`);
+    }
+
+    // Older conversation the pruned histories no longer show
+    const projectMemory = await projectMemoryService.getPromptContext(projectId);
+
+    // Attribute all token usage (including the background workflow) to this project and user
+    return runWithUsageContext({ projectId, userId, operation: 'reflect', budgetLevel: budget.level, projectMemory }, () =>
+      this.processUserMessageInContext(projectId, userId, userMessage, budget, messageId, stream)
+    );
+  }
+
+  private async processUserMessageInContext(
+    projectId: string,
+    userId: string,
+    userMessage: string,
+    budget: BudgetStatus,
+    messageId?: string,
+    stream?: LLMStreamOptions
+  ): Promise<{
+    responses: AgentResponse[];
+    updates: any;
+    workflow: any;
+  }> {
+    const trace = workflowTracer.start(projectId, userMessage, { userId, messageId });
+
     try {
       console.log(`[Coordination] Processing message for project ${projectId}`);
 
       // ⚡ CRITICAL OPTIMIZATION: Only fetch conversation history for immediate response
       // Defer all other data (projectState, references, documents) to background workflow
-      const conversationHistory = await this.getConversationHistory(projectId);
+      // Passages relevant to this message, for the reply to cite, are searched while the history loads;
+      // retrieval gives up after its latency budget rather than hold up the reply
+      const historyLoad = this.getConversationHistory(projectId);
+      const [conversationHistory, sources] = await Promise.all([
+        historyLoad,
+        chatRetrievalService.retrieve(projectId, userMessage, {
+          // History messages are already in context (a failed load surfaces through Promise.all)
+          excludeMessageIds: historyLoad.then(history => history.map(message => message.id), () => []),
+        }),
+      ]);
       console.log(`[Coordination] Fetched ${conversationHistory.length} recent messages for conversation context`);
 
       // 7. IMMEDIATE RESPONSE: Execute conversation agent with MINIMAL context
@@ -49,19 +104,46 @@ export class AgentCoordinationService {
         throw new Error('Conversation agent not found');
       }
 
-      // Execute conversation agent immediately with ONLY conversation history (no references, no state)
-      // This reduces database overhead from ~1-2s to ~200ms and reduces prompt tokens from ~5000 to ~500
-      const conversationResponse = await conversationAgent.reflect(
+      // Execute conversation agent immediately with conversation history and retrieved passages (no whole references, no state)
+      // This reduces database overhead from ~1-2s to ~200ms and keeps prompt tokens low
+      const conversationResponse: any = await trace.runStep({
+        agentName: 'conversation',
+        action: 'reflect',
+        batch: null,
+        parallel: false,
+        inputs: { message: userMessage.slice(0, 200), historyMessages: conversationHistory.length, references: 0, sources: sources.length },
+      }, () => conversationAgent.reflect(
         userMessage,
         conversationHistory,
-        [] // Empty array - no project references for fast response
-      );
+        sources,
+        stream
+      ));
+
+      // Lets the chat open this run's timeline from the message
+      conversationResponse.metadata = { ...conversationResponse.metadata, traceId: trace.id };
 
       console.log(`[Coordination] ✅ Conversation agent responded: ${conversationResponse.message?.length || 0} chars`);
 
       // Package as response array
       const immediateResponses = [conversationResponse];
 
+      // At the hard cap, tell the user why background agents are not running
+      if (budget.level === 'hard') {
+        immediateResponses.push({
+          agent: 'BudgetGuard',
+          message: budget.reason || 'The AI budget for this project has been reached.',
+          showToUser: true,
+          metadata: {
+            budget: {
+              level: budget.level,
+              project: budget.project,
+              user: budget.user,
+            },
+            traceId: trace.id,
+          },
+        });
+      }
+
       // 8. Execute workflow asynchronously in background (classification + recording)
       // IIFE (Immediately Invoked Function Expression) runs without blocking response
       (async () => {
@@ -80,12 +162,27 @@ export class AgentCoordinationService {
 
           // 5. Classify intent
           const contextManager = this.orchestrator['agents'].get('contextManager');
-          const intent = await contextManager.classifyIntent(userMessage, conversationHistory);
+          const classification: any = await trace.runStep({
+            agentName: 'contextManager',
+            action: 'classifyIntent',
+            batch: null,
+            parallel: false,
+            inputs: { message: userMessage.slice(0, 200), historyMessages: conversationHistory.length },
+          }, () => runWithUsageContext({ operation: 'intent-classification' }, () =>
+            contextManager.classifyIntent(userMessage, conversationHistory)
+          ));
+          // The classification is the response's metadata; its type picks the intent's workflow
+          const intent = classification.metadata;
+          trace.setIntent(intent);
           console.log(`[Coordination] Intent classified: ${intent.type} (${intent.confidence}% confidence)`);
 
           // 6. Determine workflow
-          const workflow = await this.orchestrator.determineWorkflow(intent, userMessage);
+          const workflow = await this.orchestrator.determineWorkflow(intent, userMessage, projectId);
           console.log(`[Coordination] Workflow determined: ${workflow.intent}`);
+          trace.setWorkflow(workflow);
+          (workflow.definition?.skipped || []).forEach(step =>
+            trace.skip(step, 'Skipped by the project workflow override')
+          );
 
           // Execute workflow and get actual updates
           const updates = await this.executeBackgroundWorkflow(
@@ -94,8 +191,12 @@ export class AgentCoordinationService {
             projectState,
             conversationHistory,
             allProjectContext,
-            immediateResponses,
-            projectId
+            [conversationResponse],
+            projectId,
+            budget,
+            trace,
+            intent,
+            sources
           );
 
           console.log(`[Coordination] ✅ Background workflow complete with updates:`, {
@@ -105,7 +206,7 @@ export class AgentCoordinationService {
           });
 
           // Store updates in cache for frontend polling
-          updatesCache.set(projectId, {
+          await updatesCache.set(projectId, {
             itemsAdded: updates.itemsAdded,
             itemsModified: updates.itemsModified,
             itemsMoved: updates.itemsMoved,
@@ -113,17 +214,34 @@ export class AgentCoordinationService {
             workflow: { intent: workflow.intent, confidence: workflow.confidence }
           });
 
+          // Push the same changes to everyone with the project open
+          realtimeService.publish(projectId, 'items', {
+            itemsAdded: updates.itemsAdded,
+            itemsModified: updates.itemsModified,
+            itemsMoved: updates.itemsMoved,
+            removedIds: [],
+            actorId: userId,
+            workflow: { intent: workflow.intent, confidence: workflow.confidence },
+          });
+
           console.log(`[Coordination] ✅ Updates cached for project ${projectId}`);
-        } catch (error) {
+          await workflowTracer.finish(trace, 'completed');
+        } catch (error: any) {
           console.error('[Coordination] ❌ Background workflow error:', error);
+          await workflowTracer.finish(trace, 'failed', error?.message);
           // Store empty updates on error so polling doesn't wait forever
-          updatesCache.set(projectId, {
+          await updatesCache.set(projectId, {
             itemsAdded: [],
             itemsModified: [],
             itemsMoved: [],
             timestamp: Date.now()
           });
         }
+
+        // Fold older conversation into the project memory once enough has accumulated
+        projectMemoryService.updateFromConversation(projectId).catch((error: any) =>
+          console.error('[Coordination] Project memory update failed:', error.message)
+        );
       })();
 
       // Return conversation response immediately with empty updates
@@ -134,7 +252,14 @@ export class AgentCoordinationService {
         workflow: { intent: 'pending', confidence: 0 }, // Placeholder - will be in cache
       };
     } catch (error: any) {
+      if (isAbortError(error)) {
+        console.log('[Coordination] Reply cancelled by the user');
+        workflowTracer.finish(trace, 'failed', 'Cancelled by the user').catch(() => {});
+        throw error;
+      }
+
       console.error('❌ [Coordination] Error processing message:', error);
+      workflowTracer.finish(trace, 'failed', error.message).catch(() => {});
       console.error('❌ [Coordination] Error name:', error.name);
       console.error('❌ [Coordination] Error message:', error.message);
       console.error('❌ [Coordination] Error stack:', error.stack);
@@ -165,22 +290,47 @@ export class AgentCoordinationService {
     conversationHistory: any[],
     allProjectContext: any[],
     conversationResponses: AgentResponse[],
-    projectId: string
+    projectId: string,
+    budget?: BudgetStatus,
+    trace?: WorkflowTrace,
+    intent?: IntentClassification,
+    sources: RetrievedSource[] = []
   ): Promise<any> {
     const startTime = Date.now();
     console.log('[Coordination] 🔄 Starting background workflow execution...');
     console.log(`[Coordination] Workflow intent: ${workflow.intent}, confidence: ${workflow.confidence}`);
 
     try {
-      // Execute the full workflow (gap detection, clarification, etc.)
-      console.log('[Coordination] Executing orchestrator workflow...');
-      const backgroundResponses = await this.orchestrator.executeWorkflow(
-        workflow,
-        userMessage,
-        projectState,
-        conversationHistory,
-        allProjectContext
-      );
+      let backgroundResponses: AgentResponse[] = [];
+
+      if (budget?.level === 'hard') {
+        // Hard budget cap: skip non-essential background agents, keep recording
+        console.log(`[Coordination] 💰 Hard budget cap reached - skipping ${workflow.sequence?.length || 0} background workflow steps`);
+        (workflow.sequence || []).forEach((step: any) => trace?.skip(step, 'AI budget hard cap reached'));
+        await supabase.from('agent_activity').insert({
+          project_id: projectId,
+          agent_type: 'system',
+          action: 'budget_workflow_skipped',
+          details: {
+            workflow: workflow.intent,
+            skippedSteps: (workflow.sequence || []).map((s: any) => `${s.agentName}.${s.action}`),
+            reason: budget.reason,
+            timestamp: new Date().toISOString()
+          }
+        });
+      } else {
+        // Execute the full workflow (gap detection, clarification, etc.)
+        console.log('[Coordination] Executing orchestrator workflow...');
+        backgroundResponses = await this.orchestrator.executeWorkflow(
+          workflow,
+          userMessage,
+          projectState,
+          conversationHistory,
+          allProjectContext,
+          trace,
+          sources
+        );
+      }
 
       const workflowTime = Date.now() - startTime;
       console.log(`[Coordination] ✅ Background workflow completed in ${workflowTime}ms: ${backgroundResponses.length} responses`);
@@ -192,14 +342,14 @@ export class AgentCoordinationService {
 
       // Save background agent responses that contain questions to the database
       // This allows the frontend AgentQuestionBubble to display them
-      await this.saveBackgroundAgentResponses(projectId, backgroundResponses);
+      await this.saveBackgroundAgentResponses(projectId, backgroundResponses, trace?.id);
 
       // Combine conversation + background responses for recording
       const allResponses = [...conversationResponses, ...backgroundResponses];
 
       // Now fire recording with all responses
       console.log('[Coordination] 🎯 Starting recording process...');
-      const updates = await this.processStateUpdatesAsync(projectId, allResponses, userMessage, workflow);
+      const updates = await this.processStateUpdatesAsync(projectId, allResponses, userMessage, workflow, trace, intent);
 
       const totalTime = Date.now() - startTime;
       console.log(`[Coordination] ✅ Background workflow complete in ${totalTime}ms`);
@@ -241,7 +391,8 @@ export class AgentCoordinationService {
    */
   private async saveBackgroundAgentResponses(
     projectId: string,
-    backgroundResponses: AgentResponse[]
+    backgroundResponses: AgentResponse[],
+    traceId?: string
   ): Promise<void> {
     try {
       // FIX #3: Enhanced logging for question persistence
@@ -294,16 +445,18 @@ export class AgentCoordinationService {
         role: 'assistant',
         content: response.message || '[Background agent analysis]',
         agent_type: response.agent || 'system',
-        metadata: response.metadata || {},
+        metadata: { ...response.metadata, ...(traceId ? { traceId } : {}) },
       }));
 
-      const { error: saveError } = await supabase
+      const { data: savedMessages, error: saveError } = await supabase
         .from('messages')
-        .insert(messagesToSave);
+        .insert(messagesToSave)
+        .select();
 
       if (saveError) {
         console.error('[Coordination] ❌ Failed to save background agent responses:', saveError);
       } else {
+        (savedMessages || []).forEach(message => realtimeService.publish(projectId, 'message', { message }));
         console.log(`[Coordination] ✅ Successfully saved ${messagesToSave.length} messages with questions to database`);
         console.log(`[Coordination] ✅ Saved ${messagesToSave.length} background agent responses with questions`);
       }
@@ -321,7 +474,9 @@ export class AgentCoordinationService {
     projectId: string,
     responses: AgentResponse[],
     userMessage: string,
-    workflow: any
+    workflow: any,
+    trace?: WorkflowTrace,
+    intent?: IntentClassification
   ): Promise<any> {
     const recordingStartTime = Date.now();
     
@@ -377,13 +532,33 @@ export class AgentCoordinationService {
 
       try {
         // Invoke recorder agent with conversation response
-        const recorderResponse = await persistenceManager.record(
-          recordingData,
-          projectState,
-          userMessage,
-          workflow.intent,
-          conversationHistory
+        const record = () => runWithUsageContext({ operation: 'record' }, () =>
+          persistenceManager.record(
+            recordingData,
+            projectState,
+            userMessage,
+            workflow.intent,
+            conversationHistory
+          )
         );
+        const recorderResponse: any = trace
+          ? await trace.runStep({
+              agentName: 'persistenceManager',
+              action: 'record',
+              batch: null,
+              parallel: false,
+              inputs: {
+                intent: workflow.intent,
+                responses: responses.map(r => r.agent),
+                historyMessages: conversationHistory.length,
+                items: {
+                  decided: projectState.decided.length,
+                  exploring: projectState.exploring.length,
+                  parked: projectState.parked.length,
+                },
+              },
+            }, record)
+          : await record();
 
         const recordTime = Date.now() - recordStartTime;
         console.log(`[Coordination] ✅ PersistenceManager.record() completed in ${recordTime}ms`);
@@ -407,7 +582,7 @@ export class AgentCoordinationService {
 
         // Process recorder response to update project state
         console.log('[Coordination] 💾 Processing state updates...');
-        const updates = await this.processStateUpdates(projectId, [recorderResponse], userMessage);
+        const updates = await this.processStateUpdates(projectId, [recorderResponse], userMessage, trace, intent);
 
         console.log(`[Coordination] State updates processed: ${updates.itemsAdded.length} added, ${updates.itemsModified.length} modified, ${updates.itemsMoved.length} moved`);
 
@@ -600,7 +775,9 @@ export class AgentCoordinationService {
   private async processStateUpdates(
     projectId: string,
     responses: AgentResponse[],
-    userMessage: string
+    userMessage: string,
+    trace?: WorkflowTrace,
+    intent?: IntentClassification
   ): Promise<any> {
     console.log(`[Coordination] Processing state updates for ${responses.length} responses`);
 
@@ -610,6 +787,27 @@ export class AgentCoordinationService {
       itemsMoved: [],
     };
 
+    // Items are attributed to the member whose message produced them
+    const authorId = getUsageContext().userId;
+    // The item history records the agent, that member and the message behind each change
+    const historySource = (agentName: string) => ({
+      actor: { type: 'agent' as const, id: agentName },
+      userId: authorId,
+      sourceMessageId: trace?.messageId,
+      traceId: trace?.id,
+    });
+
+    // With approval required, agent changes are queued for a member instead of applied
+    const requireApproval = await approvalQueueService.isApprovalRequired(projectId);
+    const proposals: ProposalInput[] = [];
+    const proposalSource = (agentName: string, reasoning?: string, confidence?: number) => ({
+      agent: { name: agentName, reasoning, confidence },
+      intent: intent ? { type: intent.type, confidence: intent.confidence, reasoning: intent.reasoning } : null,
+      userId: authorId,
+      sourceMessageId: trace?.messageId,
+      traceId: trace?.id,
+    });
+
     // Check for recorder agent responses with metadata
     for (const response of responses) {
       // Use type guard to safely access PersistenceManager metadata
@@ -628,7 +826,8 @@ export class AgentCoordinationService {
             .eq('id', projectId)
             .single();
 
-          let currentItems = project?.items || [];
+          const previousItems = project?.items || [];
+          let currentItems = previousItems;
 
           // Add each item from the review
           for (const itemToRecord of response.metadata.itemsToRecord) {
@@ -637,6 +836,7 @@ export class AgentCoordinationService {
               text: itemToRecord.item,
               state: itemToRecord.state,
               created_at: new Date().toISOString(),
+              created_by: authorId,
               citation: {
                 userQuote: itemToRecord.userQuote || userMessage,
                 timestamp: new Date().toISOString(),
@@ -645,6 +845,15 @@ export class AgentCoordinationService {
               },
             };
 
+            if (requireApproval) {
+              proposals.push({
+                ...proposalSource(response.agent, itemToRecord.reasoning, itemToRecord.confidence),
+                change: { type: 'add', to: itemToRecord.state as StateChange['to'], item: newItem.text },
+                item: newItem,
+              });
+              continue;
+            }
+
             currentItems = [...currentItems, newItem];
             updates.itemsAdded.push(newItem);
             console.log(`[Coordination] Added item: ${newItem.text} (${newItem.state})`);
@@ -664,6 +873,7 @@ export class AgentCoordinationService {
               console.error(`[Coordination] Error saving items to project:`, updateError);
             } else {
               console.log(`[Coordination] Saved ${updates.itemsAdded.length} items to project ${projectId}`);
+              await itemHistoryService.recordChanges(projectId, previousItems, currentItems, historySource(response.agent));
             }
           }
         }
@@ -684,6 +894,7 @@ export class AgentCoordinationService {
             text: item,
             state: state,
             created_at: new Date().toISOString(),
+            created_by: authorId,
             citation: {
               userQuote: userMessage,
               timestamp: new Date().toISOString(),
@@ -693,6 +904,15 @@ export class AgentCoordinationService {
 
           console.log(`[Coordination] Creating new item:`, JSON.stringify(newItem, null, 2));
 
+          if (requireApproval) {
+            proposals.push({
+              ...proposalSource(response.agent, response.metadata.reasoning, response.metadata.confidence),
+              change: { type: 'add', to: state, item },
+              item: newItem,
+            });
+            continue;
+          }
+
           // Get current items
           const { data: project } = await supabase
             .from('projects')
@@ -719,6 +939,7 @@ export class AgentCoordinationService {
           } else {
             console.log(`[Coordination] ✅ Successfully saved item to project ${projectId}`);
             updates.itemsAdded.push(newItem);
+            await itemHistoryService.recordChanges(projectId, currentItems, updatedItems, historySource(response.agent));
           }
         } else {
           // Log when recorder metadata doesn't have the expected fields
@@ -730,6 +951,28 @@ export class AgentCoordinationService {
       }
     }
 
+    // Moves and deletions the intent classifier picked up, when they name an existing item
+    if (requireApproval && intent?.stateChange && intent.stateChange.type !== 'add') {
+      const target = await this.findItemByText(projectId, intent.stateChange.item);
+      if (target) {
+        proposals.push({
+          ...proposalSource('ContextManager', intent.reasoning, intent.confidence),
+          change: { ...intent.stateChange, from: intent.stateChange.from || target.state },
+          itemId: target.id,
+        });
+      }
+    }
+
+    if (proposals.length > 0) {
+      try {
+        updates.proposals = await approvalQueueService.enqueue(projectId, proposals);
+        realtimeService.publish(projectId, 'approvals', { change: 'queued', proposals: updates.proposals });
+        console.log(`[Coordination] ⏸️  ${proposals.length} change(s) queued for approval`);
+      } catch (error) {
+        console.error('[Coordination] Failed to queue changes for approval:', error);
+      }
+    }
+
     console.log(`[Coordination] State updates complete: ${updates.itemsAdded.length} added, ${updates.itemsModified.length} modified, ${updates.itemsMoved.length} moved`);
     return updates;
   }
@@ -771,10 +1014,50 @@ export class AgentCoordinationService {
     return `item_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
   }
 
+  /**
+   * Find a live item by its text, as the intent classifier names items by text
+   */
+  private async findItemByText(projectId: string, text: string): Promise<any | null> {
+    const needle = text?.trim().toLowerCase();
+    if (!needle) return null;
+
+    const items = await getRawProjectItems(projectId);
+    const live = items.filter((item: any) => !item.isArchived && typeof item.text === 'string');
+    return (
+      live.find((item: any) => item.text.trim().toLowerCase() === needle) ||
+      live.find((item: any) => item.text.toLowerCase().includes(needle) || needle.includes(item.text.toLowerCase())) ||
+      null
+    );
+  }
+
+  /**
+   * Show which workflow steps would run for a message in a project, without running them
+   */
+  async planWorkflow(projectId: string, userMessage: string, intentType?: string) {
+    const [conversationHistory, budget] = await Promise.all([
+      intentType ? Promise.resolve([]) : this.getConversationHistory(projectId),
+      budgetService.getStatus(projectId),
+    ]);
+
+    const plan = await runWithUsageContext({ projectId, operation: 'intent-classification' }, () =>
+      this.orchestrator.planWorkflow(userMessage, conversationHistory, projectId, intentType)
+    );
+
+    // At the hard cap background workflows are skipped entirely
+    return { ...plan, budget };
+  }
+
+  /**
+   * Registered agents, for validating workflow documents
+   */
+  getWorkflowCatalog() {
+    return this.orchestrator.getWorkflowCatalog();
+  }
+
   /**
    * Get orchestrator stats
    */
-  getStats() {
+  async getStats() {
     return this.orchestrator.getStats();
   }
 }
@@ -0,0 +1,482 @@
+import { supabase } from './supabase';
+import { projectAccessService } from './projectAccess';
+import {
+  AnalysisTemplate,
+  TemplateField,
+  TemplateOutputFormat,
+  TEMPLATE_OUTPUT_FORMATS,
+  getAllTemplates,
+  getTemplateById,
+  validateTemplateFields,
+  buildCustomSystemPrompt,
+} from '../config/analysis-templates';
+import { isAdmin } from '../middleware/auth';
+
+/**
+ * AnalysisTemplateService - Custom analysis templates, stored and versioned
+ *
+ * Built-in templates live in config/analysis-templates.ts; custom ones are
+ * rows in analysis_templates, shared at one of three scopes:
+ *
+ *   user          only the owner sees and edits it
+ *   project       project members see it, editors and owners edit it
+ *   organization  every user of this deployment sees it, the owner edits it;
+ *                 only admins (ADMIN_USER_IDS) can share at this scope
+ *
+ * Only a template's owner can change its scope.
+ *
+ * Each saved change bumps the template's version and keeps a snapshot in
+ * analysis_template_versions, so earlier versions can be listed and restored.
+ * Any visible template, built-in or custom, can be cloned as a starting point.
+ */
+
+export type TemplateScope = 'user' | 'project' | 'organization';
+
+export const TEMPLATE_SCOPES: TemplateScope[] = ['user', 'project', 'organization'];
+
+export interface CustomAnalysisTemplate extends AnalysisTemplate {
+  type: 'custom';
+  scope: TemplateScope;
+  projectId: string | null;
+  ownerId: string;
+  /** Id of the template this one was cloned from */
+  basedOn: string | null;
+  version: number;
+  updatedBy: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface AnalysisTemplateVersion {
+  templateId: string;
+  version: number;
+  name: string;
+  description: string;
+  icon: string;
+  outputFormat: TemplateOutputFormat;
+  fields: TemplateField[];
+  systemPrompt: string;
+  createdBy: string | null;
+  createdAt: string;
+}
+
+export class AnalysisTemplateError extends Error {
+  constructor(message: string, public status: 400 | 403 | 404 | 409 = 400) {
+    super(message);
+    this.name = 'AnalysisTemplateError';
+  }
+}
+
+const MAX_NAME_LENGTH = 100;
+const MAX_DESCRIPTION_LENGTH = 500;
+const MAX_SYSTEM_PROMPT_LENGTH = 10000;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Columns snapshotted into analysis_template_versions
+type TemplateContent = Pick<AnalysisTemplate, 'name' | 'description' | 'icon' | 'outputFormat' | 'fields' | 'systemPrompt'>;
+
+function templateFromRow(row: any): CustomAnalysisTemplate {
+  return {
+    id: row.id,
+    name: row.name,
+    description: row.description,
+    type: 'custom',
+    icon: row.icon,
+    fields: row.fields || [],
+    outputFormat: row.output_format,
+    systemPrompt: row.system_prompt,
+    scope: row.scope,
+    projectId: row.project_id,
+    ownerId: row.owner_id,
+    basedOn: row.based_on,
+    version: row.version,
+    updatedBy: row.updated_by,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+function versionFromRow(row: any): AnalysisTemplateVersion {
+  return {
+    templateId: row.template_id,
+    version: row.version,
+    name: row.name,
+    description: row.description,
+    icon: row.icon,
+    outputFormat: row.output_format,
+    fields: row.fields || [],
+    systemPrompt: row.system_prompt,
+    createdBy: row.created_by,
+    createdAt: row.created_at,
+  };
+}
+
+function contentToRow(content: TemplateContent) {
+  return {
+    name: content.name,
+    description: content.description,
+    icon: content.icon,
+    output_format: content.outputFormat,
+    fields: content.fields,
+    system_prompt: content.systemPrompt,
+  };
+}
+
+function normalizeFields(fields: any[]): TemplateField[] {
+  return fields.map(field => ({
+    id: field.id,
+    label: field.label.trim(),
+    description: field.description || '',
+    type: field.type,
+    required: Boolean(field.required),
+    ...(field.extractionHint ? { extractionHint: field.extractionHint } : {}),
+  }));
+}
+
+/**
+ * Merge input over existing content and validate the result
+ */
+function parseContent(input: any, base?: TemplateContent): TemplateContent {
+  const name = input.name !== undefined ? input.name : base?.name;
+  const description = input.description !== undefined ? input.description : base?.description;
+
+  if (typeof name !== 'string' || !name.trim() || name.length > MAX_NAME_LENGTH) {
+    throw new AnalysisTemplateError(`name must be a non-empty string of at most ${MAX_NAME_LENGTH} characters`);
+  }
+  if (typeof description !== 'string' || description.length > MAX_DESCRIPTION_LENGTH) {
+    throw new AnalysisTemplateError(`description must be a string of at most ${MAX_DESCRIPTION_LENGTH} characters`);
+  }
+
+  let fields = base?.fields || [];
+  if (input.fields !== undefined) {
+    const errors = validateTemplateFields(input.fields);
+    if (errors.length > 0) {
+      throw new AnalysisTemplateError(`Invalid template fields: ${errors.join('; ')}`);
+    }
+    fields = normalizeFields(input.fields);
+  }
+
+  const outputFormat = input.outputFormat !== undefined ? input.outputFormat : base?.outputFormat || 'structured_json';
+  if (!TEMPLATE_OUTPUT_FORMATS.includes(outputFormat)) {
+    throw new AnalysisTemplateError(`outputFormat must be one of: ${TEMPLATE_OUTPUT_FORMATS.join(', ')}`);
+  }
+
+  const icon = input.icon !== undefined ? input.icon : base?.icon || 'edit';
+  if (typeof icon !== 'string' || !icon) {
+    throw new AnalysisTemplateError('icon must be a non-empty string');
+  }
+
+  // Without a prompt of its own, a new template gets one generated from its fields
+  const systemPrompt = input.systemPrompt !== undefined && input.systemPrompt !== null && input.systemPrompt !== ''
+    ? input.systemPrompt
+    : base?.systemPrompt || buildCustomSystemPrompt(fields);
+  if (typeof systemPrompt !== 'string' || systemPrompt.length > MAX_SYSTEM_PROMPT_LENGTH) {
+    throw new AnalysisTemplateError(`systemPrompt must be a string of at most ${MAX_SYSTEM_PROMPT_LENGTH} characters`);
+  }
+
+  return { name: name.trim(), description, icon, outputFormat, fields, systemPrompt };
+}
+
+function sameContent(a: TemplateContent, b: TemplateContent): boolean {
+  // JSONB doesn't keep key order, so compare fields in normalized form
+  const comparable = (content: TemplateContent) =>
+    JSON.stringify(contentToRow({ ...content, fields: normalizeFields(content.fields) }));
+  return comparable(a) === comparable(b);
+}
+
+export class AnalysisTemplateService {
+  /**
+   * Built-in templates followed by the custom templates the user can see
+   * Project templates are included for the given project only.
+   */
+  async listTemplates(userId: string, projectId?: string): Promise<AnalysisTemplate[]> {
+    const custom = await this.listCustomTemplates(userId, projectId);
+    return [...getAllTemplates(), ...custom];
+  }
+
+  /**
+   * Custom templates visible to the user, sorted by name
+   */
+  async listCustomTemplates(userId: string, projectId?: string): Promise<CustomAnalysisTemplate[]> {
+    const queries = [
+      supabase.from('analysis_templates').select('*').eq('scope', 'user').eq('owner_id', userId),
+      supabase.from('analysis_templates').select('*').eq('scope', 'organization'),
+    ];
+    if (projectId) {
+      queries.push(supabase.from('analysis_templates').select('*').eq('scope', 'project').eq('project_id', projectId));
+    }
+
+    const results = await Promise.all(queries);
+    const failed = results.find(result => result.error);
+    if (failed) {
+      throw new Error(`Failed to load analysis templates: ${failed.error!.message}`);
+    }
+
+    return results
+      .flatMap(result => (result.data || []).map(templateFromRow))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * A built-in or visible custom template
+   */
+  async getTemplate(templateId: string, userId: string): Promise<AnalysisTemplate> {
+    const builtIn = getTemplateById(templateId);
+    if (builtIn) {
+      return builtIn;
+    }
+    return this.getCustomTemplate(templateId, userId);
+  }
+
+  async getCustomTemplate(templateId: string, userId: string): Promise<CustomAnalysisTemplate> {
+    const template = await this.loadTemplate(templateId);
+    if (!template || !(await this.canRead(template, userId))) {
+      throw new AnalysisTemplateError('Template not found', 404);
+    }
+    return template;
+  }
+
+  /**
+   * Store a new custom template as version 1
+   * Body: { name, description, fields, icon?, outputFormat?, systemPrompt?, scope?, projectId? }
+   */
+  async createTemplate(input: any, userId: string, basedOn: string | null = null): Promise<CustomAnalysisTemplate> {
+    if (!input || !input.name || typeof input.description !== 'string' || !Array.isArray(input.fields)) {
+      throw new AnalysisTemplateError('Missing required fields: name, description, fields (array)');
+    }
+
+    const content = parseContent(input);
+    const { scope, projectId } = await this.parseScope(input, userId);
+
+    const { data, error } = await supabase
+      .from('analysis_templates')
+      .insert({
+        ...contentToRow(content),
+        scope,
+        project_id: projectId,
+        owner_id: userId,
+        based_on: basedOn,
+        version: 1,
+        updated_by: userId,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to save analysis template: ${error.message}`);
+    }
+
+    await this.insertVersion(data.id, 1, content, userId);
+    return templateFromRow(data);
+  }
+
+  /**
+   * Copy a built-in or visible custom template into a new custom template
+   * Body: { name?, description?, scope?, projectId? }; the rest is copied.
+   */
+  async cloneTemplate(sourceId: string, input: any, userId: string): Promise<CustomAnalysisTemplate> {
+    const source = await this.getTemplate(sourceId, userId);
+
+    return this.createTemplate(
+      {
+        name: input?.name || `${source.name} (copy)`.slice(0, MAX_NAME_LENGTH),
+        description: input?.description ?? source.description,
+        icon: source.icon,
+        outputFormat: source.outputFormat,
+        fields: source.fields,
+        systemPrompt: source.systemPrompt,
+        scope: input?.scope,
+        projectId: input?.projectId,
+      },
+      userId,
+      source.id
+    );
+  }
+
+  /**
+   * Apply changes to a custom template
+   * Content changes create a new version; scope changes alone do not.
+   * Fails with 409 when someone else saved the template in the meantime.
+   */
+  async updateTemplate(templateId: string, input: any, userId: string): Promise<CustomAnalysisTemplate> {
+    const current = await this.getEditableTemplate(templateId, userId);
+    const content = parseContent(input || {}, current);
+    const { scope, projectId } = input?.scope !== undefined || input?.projectId !== undefined
+      ? await this.parseScope({ scope: input.scope ?? current.scope, projectId: input.projectId ?? current.projectId }, userId)
+      : { scope: current.scope, projectId: current.projectId };
+    if ((scope !== current.scope || projectId !== current.projectId) && current.ownerId !== userId) {
+      throw new AnalysisTemplateError('Only the owner can change who a template is shared with', 403);
+    }
+
+    const contentChanged = !sameContent(content, current);
+    if (!contentChanged && scope === current.scope && projectId === current.projectId) {
+      return current;
+    }
+
+    const version = contentChanged ? current.version + 1 : current.version;
+
+    const { data, error } = await supabase
+      .from('analysis_templates')
+      .update({
+        ...contentToRow(content),
+        scope,
+        project_id: projectId,
+        version,
+        updated_by: userId,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', templateId)
+      .eq('version', current.version)
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to update analysis template: ${error.message}`);
+    }
+    if (!data) {
+      throw new AnalysisTemplateError('Template was changed by someone else; reload it and try again', 409);
+    }
+
+    if (contentChanged) {
+      await this.insertVersion(templateId, version, content, userId);
+    }
+    return templateFromRow(data);
+  }
+
+  async deleteTemplate(templateId: string, userId: string): Promise<void> {
+    await this.getEditableTemplate(templateId, userId);
+
+    const { error } = await supabase.from('analysis_templates').delete().eq('id', templateId);
+    if (error) {
+      throw new Error(`Failed to delete analysis template: ${error.message}`);
+    }
+  }
+
+  /**
+   * Version history of a custom template, newest first
+   */
+  async listVersions(templateId: string, userId: string): Promise<AnalysisTemplateVersion[]> {
+    await this.getCustomTemplate(templateId, userId);
+
+    const { data, error } = await supabase
+      .from('analysis_template_versions')
+      .select('*')
+      .eq('template_id', templateId)
+      .order('version', { ascending: false });
+
+    if (error) {
+      throw new Error(`Failed to load template versions: ${error.message}`);
+    }
+    return (data || []).map(versionFromRow);
+  }
+
+  /**
+   * Make an earlier version current again (saved as a new version)
+   */
+  async restoreVersion(templateId: string, version: number, userId: string): Promise<CustomAnalysisTemplate> {
+    await this.getEditableTemplate(templateId, userId);
+
+    const { data, error } = await supabase
+      .from('analysis_template_versions')
+      .select('*')
+      .eq('template_id', templateId)
+      .eq('version', version)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to load template version: ${error.message}`);
+    }
+    if (!data) {
+      throw new AnalysisTemplateError(`Version ${version} not found`, 404);
+    }
+
+    const snapshot = versionFromRow(data);
+    return this.updateTemplate(templateId, {
+      name: snapshot.name,
+      description: snapshot.description,
+      icon: snapshot.icon,
+      outputFormat: snapshot.outputFormat,
+      fields: snapshot.fields,
+      systemPrompt: snapshot.systemPrompt,
+    }, userId);
+  }
+
+  private async loadTemplate(templateId: string): Promise<CustomAnalysisTemplate | null> {
+    // Built-in ids and other non-UUIDs can't be custom templates
+    if (!UUID_PATTERN.test(templateId)) {
+      return null;
+    }
+
+    const { data, error } = await supabase
+      .from('analysis_templates')
+      .select('*')
+      .eq('id', templateId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to load analysis template: ${error.message}`);
+    }
+    return data ? templateFromRow(data) : null;
+  }
+
+  private async getEditableTemplate(templateId: string, userId: string): Promise<CustomAnalysisTemplate> {
+    if (getTemplateById(templateId)) {
+      throw new AnalysisTemplateError('Built-in templates cannot be changed; clone it to customize', 403);
+    }
+
+    const template = await this.getCustomTemplate(templateId, userId);
+    const canEdit = template.scope === 'project'
+      ? await projectAccessService.canAccess(userId, template.projectId!, 'editor')
+      : template.ownerId === userId;
+
+    if (!canEdit) {
+      throw new AnalysisTemplateError('You do not have permission to change this template', 403);
+    }
+    return template;
+  }
+
+  private async canRead(template: CustomAnalysisTemplate, userId: string): Promise<boolean> {
+    switch (template.scope) {
+      case 'organization':
+        return true;
+      case 'project':
+        return projectAccessService.canAccess(userId, template.projectId!, 'viewer');
+      default:
+        return template.ownerId === userId;
+    }
+  }
+
+  private async parseScope(input: any, userId: string): Promise<{ scope: TemplateScope; projectId: string | null }> {
+    const scope: TemplateScope = input.scope ?? (input.projectId ? 'project' : 'user');
+    if (!TEMPLATE_SCOPES.includes(scope)) {
+      throw new AnalysisTemplateError(`scope must be one of: ${TEMPLATE_SCOPES.join(', ')}`);
+    }
+
+    if (scope === 'organization' && !isAdmin(userId)) {
+      throw new AnalysisTemplateError('Only administrators can share templates with the whole organization', 403);
+    }
+    if (scope !== 'project') {
+      return { scope, projectId: null };
+    }
+
+    if (typeof input.projectId !== 'string' || !input.projectId) {
+      throw new AnalysisTemplateError('projectId is required for project templates');
+    }
+    if (!(await projectAccessService.canAccess(userId, input.projectId, 'editor'))) {
+      throw new AnalysisTemplateError('You need editor access to share templates with this project', 403);
+    }
+    return { scope, projectId: input.projectId };
+  }
+
+  private async insertVersion(templateId: string, version: number, content: TemplateContent, userId: string): Promise<void> {
+    const { error } = await supabase
+      .from('analysis_template_versions')
+      .insert({ template_id: templateId, version, ...contentToRow(content), created_by: userId });
+
+    if (error) {
+      throw new Error(`Failed to save template version: ${error.message}`);
+    }
+  }
+}
+
+export const analysisTemplateService = new AnalysisTemplateService();
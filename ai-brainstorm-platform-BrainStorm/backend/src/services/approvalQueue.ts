@@ -0,0 +1,322 @@
+import crypto from 'crypto';
+import { supabase } from './supabase';
+import { itemHistoryService } from './itemHistory';
+import { attributeItemChanges } from '../utils/projectHelpers';
+import { IntentClassification, StateChange } from '../types';
+
+/**
+ * ApprovalQueueService - Human approval of agent-proposed item changes
+ *
+ * When a project requires approval, state changes the agents would apply in
+ * the background (add, move, delete) are queued as proposals instead. Each
+ * proposal keeps the agent's reasoning and confidence and the intent
+ * classification behind it; members approve or reject them one by one or in
+ * bulk, and only an approval touches the project's items.
+ */
+
+export type ProposalStatus = 'pending' | 'approved' | 'rejected';
+
+export interface ProposalInput {
+  change: StateChange;
+  /** Target item for move/delete */
+  itemId?: string | null;
+  /** The item to create for add */
+  item?: any | null;
+  agent: { name: string; reasoning?: string | null; confidence?: number | null };
+  intent?: Pick<IntentClassification, 'type' | 'confidence' | 'reasoning'> | null;
+  userId?: string | null;
+  sourceMessageId?: string | null;
+  traceId?: string | null;
+}
+
+export interface StateChangeProposal extends Required<Omit<ProposalInput, 'intent'>> {
+  id: string;
+  projectId: string;
+  intent: ProposalInput['intent'];
+  status: ProposalStatus;
+  decidedBy: string | null;
+  decidedAt: string | null;
+  decisionNote: string | null;
+  createdAt: string;
+}
+
+export interface ApprovalSettings {
+  requireApproval: boolean;
+}
+
+export interface ApprovalResult {
+  approved: StateChangeProposal[];
+  /** Proposals that could no longer be applied (rejected with the reason) */
+  failed: Array<{ id: string; error: string }>;
+  previousItems: any[];
+  items: any[];
+}
+
+export class ApprovalError extends Error {
+  constructor(message: string, public status: 400 | 404 | 409 = 400) {
+    super(message);
+    this.name = 'ApprovalError';
+  }
+}
+
+function fromRow(row: any): StateChangeProposal {
+  return {
+    id: row.id,
+    projectId: row.project_id,
+    change: {
+      type: row.change_type,
+      from: row.from_state || undefined,
+      to: row.to_state || undefined,
+      item: row.item_text,
+    },
+    itemId: row.item_id,
+    item: row.item,
+    agent: {
+      name: row.agent,
+      reasoning: row.agent_reasoning,
+      confidence: row.agent_confidence,
+    },
+    intent: row.intent,
+    userId: row.user_id,
+    sourceMessageId: row.source_message_id,
+    traceId: row.trace_id,
+    status: row.status,
+    decidedBy: row.decided_by,
+    decidedAt: row.decided_at,
+    decisionNote: row.decision_note,
+    createdAt: row.created_at,
+  };
+}
+
+/**
+ * Apply one approved proposal to an items array
+ * Returns an error message instead when the proposal no longer fits the board.
+ */
+export function applyProposal(items: any[], proposal: StateChangeProposal): any[] | string {
+  const { change } = proposal;
+
+  if (change.type === 'add') {
+    if (!proposal.item) return 'Proposal has no item to add';
+    if (items.some(item => item.id === proposal.item.id)) return 'Item has already been added';
+    return [...items, proposal.item];
+  }
+
+  const target = items.find(item => item.id === proposal.itemId);
+  if (!target) return 'Item no longer exists';
+
+  if (change.type === 'delete') {
+    return items.filter(item => item.id !== proposal.itemId);
+  }
+
+  if (!change.to) return 'Proposal has no target state';
+  return items.map(item => (item.id === proposal.itemId ? { ...item, state: change.to } : item));
+}
+
+export class ApprovalQueueService {
+  async getSettings(projectId: string): Promise<ApprovalSettings> {
+    const { data, error } = await supabase
+      .from('projects')
+      .select('require_agent_approval')
+      .eq('id', projectId)
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to load approval settings: ${error.message}`);
+    }
+    return { requireApproval: !!data?.require_agent_approval };
+  }
+
+  async updateSettings(projectId: string, settings: ApprovalSettings): Promise<ApprovalSettings> {
+    const { error } = await supabase
+      .from('projects')
+      .update({ require_agent_approval: settings.requireApproval })
+      .eq('id', projectId);
+
+    if (error) {
+      throw new Error(`Failed to save approval settings: ${error.message}`);
+    }
+    console.log(`[ApprovalQueue] Project ${projectId} approval ${settings.requireApproval ? 'required' : 'not required'}`);
+    return settings;
+  }
+
+  /**
+   * Whether agent changes must wait for a member
+   * When the setting can't be read, changes are queued rather than applied.
+   */
+  async isApprovalRequired(projectId: string): Promise<boolean> {
+    try {
+      return (await this.getSettings(projectId)).requireApproval;
+    } catch (error) {
+      console.error('[ApprovalQueue] Could not read approval setting, queueing agent changes:', error);
+      return true;
+    }
+  }
+
+  async enqueue(projectId: string, proposals: ProposalInput[]): Promise<StateChangeProposal[]> {
+    if (proposals.length === 0) return [];
+
+    const rows = proposals.map(proposal => ({
+      id: crypto.randomUUID(),
+      project_id: projectId,
+      change_type: proposal.change.type,
+      from_state: proposal.change.from ?? null,
+      to_state: proposal.change.to ?? null,
+      item_text: proposal.change.item,
+      item_id: proposal.itemId ?? proposal.item?.id ?? null,
+      item: proposal.item ?? null,
+      agent: proposal.agent.name,
+      agent_reasoning: proposal.agent.reasoning ?? null,
+      agent_confidence: proposal.agent.confidence ?? null,
+      intent: proposal.intent ?? null,
+      user_id: proposal.userId ?? null,
+      source_message_id: proposal.sourceMessageId ?? null,
+      trace_id: proposal.traceId ?? null,
+      status: 'pending',
+    }));
+
+    const { data, error } = await supabase.from('state_change_proposals').insert(rows).select();
+    if (error) {
+      throw new Error(`Failed to queue proposals: ${error.message}`);
+    }
+
+    console.log(`[ApprovalQueue] Queued ${rows.length} proposal(s) for project ${projectId}`);
+    return (data || []).map(fromRow);
+  }
+
+  async list(projectId: string, status: ProposalStatus = 'pending', limit: number = 100): Promise<StateChangeProposal[]> {
+    const { data, error } = await supabase
+      .from('state_change_proposals')
+      .select('*')
+      .eq('project_id', projectId)
+      .eq('status', status)
+      .order('created_at', { ascending: status === 'pending' })
+      .limit(limit);
+
+    if (error) {
+      throw new Error(`Failed to load proposals: ${error.message}`);
+    }
+    return (data || []).map(fromRow);
+  }
+
+  /**
+   * Apply pending proposals in the order they were proposed
+   */
+  async approve(projectId: string, ids: string[], userId: string): Promise<ApprovalResult> {
+    const proposals = await this.getPending(projectId, ids);
+
+    const { data: project, error: projectError } = await supabase
+      .from('projects')
+      .select('items')
+      .eq('id', projectId)
+      .single();
+
+    if (projectError || !project) {
+      throw new Error(`Failed to load project items: ${projectError?.message || 'project not found'}`);
+    }
+
+    const previousItems: any[] = project.items || [];
+    let items = previousItems;
+    const steps: Array<{ proposal: StateChangeProposal; before: any[]; after: any[] }> = [];
+    const failed: ApprovalResult['failed'] = [];
+
+    for (const proposal of proposals) {
+      const result = applyProposal(items, proposal);
+      if (typeof result === 'string') {
+        failed.push({ id: proposal.id, error: result });
+        continue;
+      }
+      steps.push({ proposal, before: items, after: result });
+      items = result;
+    }
+
+    if (steps.length > 0) {
+      items = attributeItemChanges(previousItems, items, userId);
+      const { error: updateError } = await supabase
+        .from('projects')
+        .update({ items, updated_at: new Date().toISOString() })
+        .eq('id', projectId);
+
+      if (updateError) {
+        throw new Error(`Failed to save items: ${updateError.message}`);
+      }
+
+      // One history entry per proposal, so each keeps its source message
+      for (const step of steps) {
+        await itemHistoryService.recordChanges(projectId, step.before, step.after, {
+          actor: { type: 'user', id: userId },
+          sourceMessageId: step.proposal.sourceMessageId,
+          traceId: step.proposal.traceId,
+        });
+      }
+    }
+
+    const approved = await this.decide(projectId, steps.map(step => step.proposal.id), 'approved', userId);
+    for (const failure of failed) {
+      await this.decide(projectId, [failure.id], 'rejected', userId, failure.error);
+    }
+
+    return { approved, failed, previousItems, items };
+  }
+
+  async reject(projectId: string, ids: string[], userId: string, note?: string): Promise<StateChangeProposal[]> {
+    const proposals = await this.getPending(projectId, ids);
+    return this.decide(projectId, proposals.map(p => p.id), 'rejected', userId, note);
+  }
+
+  private async getPending(projectId: string, ids: string[]): Promise<StateChangeProposal[]> {
+    if (!Array.isArray(ids) || ids.length === 0 || ids.some(id => typeof id !== 'string')) {
+      throw new ApprovalError('ids must be a non-empty array of proposal ids');
+    }
+
+    const { data, error } = await supabase
+      .from('state_change_proposals')
+      .select('*')
+      .eq('project_id', projectId)
+      .in('id', ids)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to load proposals: ${error.message}`);
+    }
+
+    const proposals = (data || []).map(fromRow);
+    if (proposals.length !== new Set(ids).size) {
+      throw new ApprovalError('Some proposals were not found', 404);
+    }
+    const decided = proposals.filter(p => p.status !== 'pending');
+    if (decided.length > 0) {
+      throw new ApprovalError(`${decided.length} of these proposals have already been decided`, 409);
+    }
+    return proposals;
+  }
+
+  private async decide(
+    projectId: string,
+    ids: string[],
+    status: Exclude<ProposalStatus, 'pending'>,
+    userId: string,
+    note?: string
+  ): Promise<StateChangeProposal[]> {
+    if (ids.length === 0) return [];
+
+    const { data, error } = await supabase
+      .from('state_change_proposals')
+      .update({
+        status,
+        decided_by: userId,
+        decided_at: new Date().toISOString(),
+        decision_note: note ?? null,
+      })
+      .eq('project_id', projectId)
+      .eq('status', 'pending')
+      .in('id', ids)
+      .select();
+
+    if (error) {
+      throw new Error(`Failed to update proposals: ${error.message}`);
+    }
+    return (data || []).map(fromRow);
+  }
+}
+
+export const approvalQueueService = new ApprovalQueueService();
@@ -1,12 +1,8 @@
 import { SupabaseClient } from '@supabase/supabase-js';
-import Anthropic from '@anthropic-ai/sdk';
+import { completeWithUsage } from '../agents/base';
 import { ExtractedIdea } from './ContextGroupingService';
 import { GeneratedDocument } from './generatedDocumentsService';
 
-const anthropic = new Anthropic({
-  apiKey: process.env.ANTHROPIC_API_KEY!,
-});
-
 export interface SessionDocuments {
   acceptedDoc: GeneratedDocument;
   rejectedDoc: GeneratedDocument;
@@ -566,15 +562,16 @@ These rejected ideas are documented for future reference. They may be reconsider
     const prompt = this.buildDocumentPrompt(docType, projectContext);
 
     try {
-      const response = await anthropic.messages.create({
+      const response = await completeWithUsage({
         model: 'claude-sonnet-4-20250514',
-        max_tokens: 4000,
+        maxTokens: 4000,
+        agentName: 'BrainstormDocumentService',
         messages: [{ role: 'user', content: prompt }],
       });
 
-      const content = response.content[0];
-      if (content.type === 'text') {
-        return content.text;
+      const content = response.text;
+      if (content) {
+        return content;
       }
 
       return '';
@@ -0,0 +1,256 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { BUDGET_DEFAULTS, BudgetPeriod } from '../config/aiModels';
+import { tokenMetrics } from './tokenMetrics';
+
+/**
+ * BudgetService - Per-project and per-user AI spend caps
+ *
+ * Budgets live in the `ai_budgets` table (one row per scope), falling back to
+ * BUDGET_DEFAULTS from config. Spend is read from persisted token usage.
+ * Status is cached briefly so checking the budget on every message stays cheap.
+ */
+
+export type BudgetScopeType = 'project' | 'user';
+export type BudgetLevel = 'ok' | 'soft' | 'hard';
+
+export interface BudgetLimit {
+  scopeType: BudgetScopeType;
+  scopeId: string;
+  period: BudgetPeriod;
+  softLimitUSD: number | null;
+  hardLimitUSD: number | null;
+  source: 'configured' | 'default';
+}
+
+export interface ScopeBudgetStatus {
+  limit: BudgetLimit;
+  spendUSD: number;
+  periodStart: string;
+  level: BudgetLevel;
+}
+
+export interface BudgetStatus {
+  level: BudgetLevel;
+  project: ScopeBudgetStatus | null;
+  user: ScopeBudgetStatus | null;
+  /** Human-readable explanation when level is not 'ok' */
+  reason?: string;
+}
+
+const LEVEL_ORDER: Record<BudgetLevel, number> = { ok: 0, soft: 1, hard: 2 };
+
+/**
+ * Start of the current budget period (UTC)
+ */
+export function getPeriodStart(period: BudgetPeriod, now: Date = new Date()): Date {
+  if (period === 'daily') {
+    return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+  }
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+}
+
+/**
+ * Determine the budget level for a spend amount against a limit
+ */
+export function getBudgetLevel(spendUSD: number, limit: Pick<BudgetLimit, 'softLimitUSD' | 'hardLimitUSD'>): BudgetLevel {
+  if (limit.hardLimitUSD !== null && spendUSD >= limit.hardLimitUSD) {
+    return 'hard';
+  }
+  if (limit.softLimitUSD !== null && spendUSD >= limit.softLimitUSD) {
+    return 'soft';
+  }
+  return 'ok';
+}
+
+export class BudgetService {
+  private supabase: SupabaseClient | null = null;
+  private statusCache: Map<string, { status: BudgetStatus; timestamp: number }> = new Map();
+  private readonly STATUS_TTL_MS = 30 * 1000; // 30 seconds
+
+  constructor(supabase?: SupabaseClient) {
+    this.supabase = supabase || null;
+  }
+
+  setSupabaseClient(supabase: SupabaseClient | null): void {
+    this.supabase = supabase;
+  }
+
+  /**
+   * Get the effective budget for a scope (configured row or defaults)
+   */
+  async getLimit(scopeType: BudgetScopeType, scopeId: string): Promise<BudgetLimit> {
+    if (this.supabase) {
+      const { data, error } = await this.supabase
+        .from('ai_budgets')
+        .select('*')
+        .eq('scope_type', scopeType)
+        .eq('scope_id', scopeId)
+        .maybeSingle();
+
+      if (error) {
+        console.error(`[BudgetService] Failed to load ${scopeType} budget:`, error.message);
+      } else if (data) {
+        return {
+          scopeType,
+          scopeId,
+          period: data.period,
+          softLimitUSD: data.soft_limit_usd !== null ? Number(data.soft_limit_usd) : null,
+          hardLimitUSD: data.hard_limit_usd !== null ? Number(data.hard_limit_usd) : null,
+          source: 'configured',
+        };
+      }
+    }
+
+    const defaults = BUDGET_DEFAULTS[scopeType];
+    return {
+      scopeType,
+      scopeId,
+      period: defaults.period,
+      softLimitUSD: defaults.softLimitUSD,
+      hardLimitUSD: defaults.hardLimitUSD,
+      source: 'default',
+    };
+  }
+
+  /**
+   * Create or update the budget for a scope
+   */
+  async setLimit(
+    scopeType: BudgetScopeType,
+    scopeId: string,
+    limit: { period: BudgetPeriod; softLimitUSD: number | null; hardLimitUSD: number | null }
+  ): Promise<BudgetLimit> {
+    if (!this.supabase) {
+      throw new Error('Budget storage not configured');
+    }
+
+    if (limit.softLimitUSD !== null && limit.hardLimitUSD !== null && limit.softLimitUSD > limit.hardLimitUSD) {
+      throw new Error('Soft limit cannot exceed hard limit');
+    }
+
+    const { error } = await this.supabase
+      .from('ai_budgets')
+      .upsert({
+        scope_type: scopeType,
+        scope_id: scopeId,
+        period: limit.period,
+        soft_limit_usd: limit.softLimitUSD,
+        hard_limit_usd: limit.hardLimitUSD,
+        updated_at: new Date().toISOString(),
+      }, { onConflict: 'scope_type,scope_id' });
+
+    if (error) {
+      throw error;
+    }
+
+    this.statusCache.clear();
+    return { scopeType, scopeId, ...limit, source: 'configured' };
+  }
+
+  /**
+   * Remove a configured budget (scope falls back to defaults)
+   */
+  async deleteLimit(scopeType: BudgetScopeType, scopeId: string): Promise<void> {
+    if (!this.supabase) {
+      throw new Error('Budget storage not configured');
+    }
+
+    const { error } = await this.supabase
+      .from('ai_budgets')
+      .delete()
+      .eq('scope_type', scopeType)
+      .eq('scope_id', scopeId);
+
+    if (error) {
+      throw error;
+    }
+
+    this.statusCache.clear();
+  }
+
+  /**
+   * Get combined budget status for a project and user
+   * The stricter of the two levels wins.
+   */
+  async getStatus(projectId?: string, userId?: string): Promise<BudgetStatus> {
+    const cacheKey = `${projectId || '-'}:${userId || '-'}`;
+    const cached = this.statusCache.get(cacheKey);
+    if (cached && Date.now() - cached.timestamp < this.STATUS_TTL_MS) {
+      return cached.status;
+    }
+
+    const [project, user] = await Promise.all([
+      projectId ? this.getScopeStatus('project', projectId) : Promise.resolve(null),
+      userId ? this.getScopeStatus('user', userId) : Promise.resolve(null),
+    ]);
+
+    const scopes = [project, user].filter((s): s is ScopeBudgetStatus => s !== null);
+    const worst = scopes.reduce<ScopeBudgetStatus | null>(
+      (current, s) => (!current || LEVEL_ORDER[s.level] > LEVEL_ORDER[current.level] ? s : current),
+      null
+    );
+
+    const status: BudgetStatus = {
+      level: worst ? worst.level : 'ok',
+      project,
+      user,
+    };
+
+    if (worst && worst.level !== 'ok') {
+      status.reason = this.describe(worst);
+    }
+
+    this.statusCache.set(cacheKey, { status, timestamp: Date.now() });
+    return status;
+  }
+
+  /**
+   * Clear cached status (after spend-affecting changes or in tests)
+   */
+  clearCache(): void {
+    this.statusCache.clear();
+  }
+
+  private async getScopeStatus(scopeType: BudgetScopeType, scopeId: string): Promise<ScopeBudgetStatus> {
+    const limit = await this.getLimit(scopeType, scopeId);
+    const periodStart = getPeriodStart(limit.period);
+
+    let spendUSD = 0;
+    if (limit.softLimitUSD !== null || limit.hardLimitUSD !== null) {
+      try {
+        spendUSD = await tokenMetrics.getSpendSince(
+          scopeType === 'project' ? { projectId: scopeId } : { userId: scopeId },
+          periodStart
+        );
+      } catch (error: any) {
+        // Never block the chat because spend could not be read
+        console.error(`[BudgetService] Failed to read ${scopeType} spend:`, error.message);
+      }
+    }
+
+    return {
+      limit,
+      spendUSD,
+      periodStart: periodStart.toISOString(),
+      level: getBudgetLevel(spendUSD, limit),
+    };
+  }
+
+  private describe(status: ScopeBudgetStatus): string {
+    const scope = status.limit.scopeType === 'project' ? 'This project' : 'Your account';
+    const period = status.limit.period === 'daily' ? 'daily' : 'monthly';
+    const spend = `$${status.spendUSD.toFixed(2)}`;
+
+    if (status.level === 'hard') {
+      return `${scope} has reached its ${period} AI budget (${spend} of $${status.limit.hardLimitUSD!.toFixed(2)}). ` +
+        `Background agents (gap detection, verification, consistency checks) are paused until the budget resets or is raised; ` +
+        `replies use a lower-cost model.`;
+    }
+
+    return `${scope} has passed its ${period} AI budget warning threshold (${spend} of $${status.limit.softLimitUSD!.toFixed(2)}). ` +
+      `Agents are using lower-cost models.`;
+  }
+}
+
+// Shared instance - storage attached at startup (see index.ts)
+export const budgetService = new BudgetService();
@@ -1,56 +1,58 @@
-import NodeCache from 'node-cache';
+import { getCacheStore } from './cacheStore';
+
+const KEY_PREFIX = 'research:';
+const STATS_NAME = 'research';
 
 /**
  * Centralized caching service for the Research Hub
- * Uses in-memory caching with configurable TTL
+ * Entries live in the shared CacheStore (Redis when configured, memory
+ * otherwise) with configurable TTL; enabling/disabling is per process.
  */
 export class CacheService {
-  private cache: NodeCache;
+  private stdTTL: number;
   private enabled: boolean;
 
-  constructor(options?: { stdTTL?: number; checkperiod?: number; enabled?: boolean }) {
+  constructor(options?: { stdTTL?: number; enabled?: boolean }) {
     this.enabled = options?.enabled !== false; // Enabled by default
-    
-    this.cache = new NodeCache({
-      stdTTL: options?.stdTTL || 3600, // Default: 1 hour
-      checkperiod: options?.checkperiod || 600, // Check for expired keys every 10 minutes
-      useClones: false, // Don't clone objects (better performance)
-    });
-
-    console.log(`[CacheService] Initialized (enabled: ${this.enabled}, TTL: ${options?.stdTTL || 3600}s)`);
+    this.stdTTL = options?.stdTTL || 3600; // Default: 1 hour
+
+    console.log(`[CacheService] Initialized (enabled: ${this.enabled}, TTL: ${this.stdTTL}s)`);
   }
 
   /**
    * Get a value from cache
    */
-  get<T>(key: string): T | undefined {
+  async get<T>(key: string): Promise<T | undefined> {
     if (!this.enabled) return undefined;
 
-    const value = this.cache.get<T>(key);
-    if (value !== undefined) {
+    const store = getCacheStore();
+    const value = await store.get<T>(KEY_PREFIX + key);
+    if (value !== null) {
+      await store.incrementStat(STATS_NAME, 'hits');
       console.log(`[CacheService] HIT: ${key}`);
-    } else {
-      console.log(`[CacheService] MISS: ${key}`);
+      return value;
     }
-    return value;
+    await store.incrementStat(STATS_NAME, 'misses');
+    console.log(`[CacheService] MISS: ${key}`);
+    return undefined;
   }
 
   /**
-   * Set a value in cache with optional TTL override
+   * Set a value in cache with optional TTL override and tags (e.g. projectCacheTag)
    */
-  set<T>(key: string, value: T, ttl?: number): boolean {
+  async set<T>(key: string, value: T, ttl?: number, tags?: string[]): Promise<boolean> {
     if (!this.enabled) return false;
 
-    const success = this.cache.set(key, value, ttl || 0);
+    await getCacheStore().set(KEY_PREFIX + key, value, { ttlSeconds: ttl || this.stdTTL, tags });
     console.log(`[CacheService] SET: ${key} (TTL: ${ttl || 'default'}s)`);
-    return success;
+    return true;
   }
 
   /**
    * Delete a specific key
    */
-  delete(key: string): number {
-    const deleted = this.cache.del(key);
+  async delete(key: string): Promise<number> {
+    const deleted = (await getCacheStore().delete(KEY_PREFIX + key)) ? 1 : 0;
     console.log(`[CacheService] DELETE: ${key} (deleted: ${deleted})`);
     return deleted;
   }
@@ -58,9 +60,8 @@ export class CacheService {
   /**
    * Delete all keys matching a pattern
    */
-  deletePattern(pattern: string): number {
-    const keys = this.cache.keys().filter(key => key.includes(pattern));
-    const deleted = this.cache.del(keys);
+  async deletePattern(pattern: string): Promise<number> {
+    const deleted = await getCacheStore().deleteMatching(pattern, KEY_PREFIX);
     console.log(`[CacheService] DELETE_PATTERN: ${pattern} (deleted: ${deleted} keys)`);
     return deleted;
   }
@@ -68,23 +69,21 @@ export class CacheService {
   /**
    * Clear all cache
    */
-  clear(): void {
-    this.cache.flushAll();
+  async clear(): Promise<void> {
+    await getCacheStore().clear(KEY_PREFIX);
     console.log('[CacheService] CLEAR: All cache cleared');
   }
 
   /**
-   * Get cache statistics
+   * Get cache statistics (across all instances sharing the store)
    */
-  getStats() {
-    const stats = this.cache.getStats();
-    const keys = this.cache.keys().length;
+  async getStats() {
+    const store = getCacheStore();
+    const stats = await store.getStats(STATS_NAME);
     return {
-      keys,
-      hits: stats.hits,
-      misses: stats.misses,
-      ksize: stats.ksize,
-      vsize: stats.vsize,
+      keys: await store.countKeys(KEY_PREFIX),
+      hits: stats.hits || 0,
+      misses: stats.misses || 0,
     };
   }
 
@@ -107,7 +106,6 @@ export class CacheService {
 // Singleton instance
 export const cacheService = new CacheService({
   stdTTL: 3600, // 1 hour default
-  checkperiod: 600, // Check every 10 minutes
   enabled: process.env.NODE_ENV !== 'test', // Disable in tests
 });
 
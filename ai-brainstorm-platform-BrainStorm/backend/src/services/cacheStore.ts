@@ -0,0 +1,586 @@
+import net from 'net';
+import tls from 'tls';
+import { CACHE_STORE_CONFIG, CacheStoreConfig } from '../config/aiModels';
+
+/**
+ * CacheStore - Shared key/value store behind the backend's caches
+ *
+ * ResponseCache (agent responses), CacheService (research) and UpdatesCache
+ * (background workflow results) keep their entries here instead of in
+ * per-process maps. With CACHE_STORE_URL pointing at Redis (or anything that
+ * speaks its protocol) entries survive restarts and are shared by every
+ * backend instance; without it an in-memory store keeps the old behaviour.
+ *
+ * Entries can carry tags (e.g. `project:<id>`) so everything derived from a
+ * project's state can be dropped at once when that state changes, and caches
+ * keep their hit/miss counters in the store so stats cover all instances.
+ */
+
+export interface CacheSetOptions {
+  /** Seconds until the entry expires (no expiry when omitted) */
+  ttlSeconds?: number;
+  /** Tags the entry can be invalidated by */
+  tags?: string[];
+}
+
+export interface CacheStoreInfo {
+  kind: 'memory' | 'redis';
+  /** Whether other backend instances see the same entries */
+  shared: boolean;
+  namespace: string;
+}
+
+export interface CacheStore {
+  readonly info: CacheStoreInfo;
+  get<T>(key: string): Promise<T | null>;
+  set<T>(key: string, value: T, options?: CacheSetOptions): Promise<void>;
+  /** Read and remove an entry in one step, so only one reader gets it */
+  take<T>(key: string): Promise<T | null>;
+  has(key: string): Promise<boolean>;
+  delete(key: string): Promise<boolean>;
+  /** Delete entries whose key starts with `prefix` and contains `pattern` */
+  deleteMatching(pattern: string, prefix?: string): Promise<number>;
+  /** Delete every entry carrying any of the tags */
+  invalidateTags(tags: string[]): Promise<number>;
+  /** Delete entries whose key starts with `prefix` (everything when empty) */
+  clear(prefix?: string): Promise<number>;
+  countKeys(prefix?: string): Promise<number>;
+  incrementStat(name: string, field: string, by?: number): Promise<void>;
+  getStats(name: string): Promise<Record<string, number>>;
+  resetStats(name: string): Promise<void>;
+  close(): Promise<void>;
+}
+
+/** Tag for everything derived from a project's current state */
+export function projectCacheTag(projectId: string): string {
+  return `project:${projectId}`;
+}
+
+/**
+ * Drop cached entries derived from a project's state
+ * Called whenever the project's items change; never throws.
+ */
+export async function invalidateProjectCaches(projectId: string): Promise<number> {
+  const removed = await getCacheStore().invalidateTags([projectCacheTag(projectId)]);
+  if (removed > 0) {
+    console.log(`[CacheStore] Invalidated ${removed} entries for project ${projectId}`);
+  }
+  return removed;
+}
+
+interface MemoryEntry {
+  value: unknown;
+  expiresAt: number | null;
+  tags: string[];
+}
+
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+/**
+ * In-process store - entries are lost on restart and not shared between instances
+ */
+export class MemoryCacheStore implements CacheStore {
+  readonly info: CacheStoreInfo;
+  private entries = new Map<string, MemoryEntry>();
+  private tagIndex = new Map<string, Set<string>>();
+  private stats = new Map<string, Record<string, number>>();
+  private sweepTimer: NodeJS.Timeout;
+
+  constructor(namespace: string = CACHE_STORE_CONFIG.namespace) {
+    this.info = { kind: 'memory', shared: false, namespace };
+    this.sweepTimer = setInterval(() => this.sweep(), SWEEP_INTERVAL_MS);
+    this.sweepTimer.unref();
+  }
+
+  async get<T>(key: string): Promise<T | null> {
+    const entry = this.live(key);
+    return entry ? (entry.value as T) : null;
+  }
+
+  async set<T>(key: string, value: T, options: CacheSetOptions = {}): Promise<void> {
+    this.remove(key);
+    const tags = options.tags || [];
+    this.entries.set(key, {
+      value,
+      expiresAt: options.ttlSeconds ? Date.now() + options.ttlSeconds * 1000 : null,
+      tags,
+    });
+    for (const tag of tags) {
+      if (!this.tagIndex.has(tag)) this.tagIndex.set(tag, new Set());
+      this.tagIndex.get(tag)!.add(key);
+    }
+  }
+
+  async take<T>(key: string): Promise<T | null> {
+    const entry = this.live(key);
+    if (!entry) return null;
+    this.remove(key);
+    return entry.value as T;
+  }
+
+  async has(key: string): Promise<boolean> {
+    return this.live(key) !== null;
+  }
+
+  async delete(key: string): Promise<boolean> {
+    const existed = this.live(key) !== null;
+    this.remove(key);
+    return existed;
+  }
+
+  async deleteMatching(pattern: string, prefix: string = ''): Promise<number> {
+    return this.removeWhere(key => key.startsWith(prefix) && key.slice(prefix.length).includes(pattern));
+  }
+
+  async invalidateTags(tags: string[]): Promise<number> {
+    let removed = 0;
+    for (const tag of tags) {
+      for (const key of Array.from(this.tagIndex.get(tag) || [])) {
+        if (this.live(key)) removed++;
+        this.remove(key);
+      }
+      this.tagIndex.delete(tag);
+    }
+    return removed;
+  }
+
+  async clear(prefix: string = ''): Promise<number> {
+    return this.removeWhere(key => key.startsWith(prefix));
+  }
+
+  async countKeys(prefix: string = ''): Promise<number> {
+    let count = 0;
+    for (const key of Array.from(this.entries.keys())) {
+      if (key.startsWith(prefix) && this.live(key)) count++;
+    }
+    return count;
+  }
+
+  async incrementStat(name: string, field: string, by: number = 1): Promise<void> {
+    const stats = this.stats.get(name) || {};
+    stats[field] = (stats[field] || 0) + by;
+    this.stats.set(name, stats);
+  }
+
+  async getStats(name: string): Promise<Record<string, number>> {
+    return { ...(this.stats.get(name) || {}) };
+  }
+
+  async resetStats(name: string): Promise<void> {
+    this.stats.delete(name);
+  }
+
+  async close(): Promise<void> {
+    clearInterval(this.sweepTimer);
+  }
+
+  /** The entry if present and not expired; expired entries are removed */
+  private live(key: string): MemoryEntry | null {
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+    if (entry.expiresAt !== null && entry.expiresAt <= Date.now()) {
+      this.remove(key);
+      return null;
+    }
+    return entry;
+  }
+
+  private remove(key: string): void {
+    const entry = this.entries.get(key);
+    if (!entry) return;
+    this.entries.delete(key);
+    for (const tag of entry.tags) {
+      const keys = this.tagIndex.get(tag);
+      keys?.delete(key);
+      if (keys && keys.size === 0) this.tagIndex.delete(tag);
+    }
+  }
+
+  private removeWhere(predicate: (key: string) => boolean): number {
+    let removed = 0;
+    for (const key of Array.from(this.entries.keys())) {
+      if (!predicate(key)) continue;
+      if (this.live(key)) removed++;
+      this.remove(key);
+    }
+    return removed;
+  }
+
+  private sweep(): void {
+    for (const key of Array.from(this.entries.keys())) {
+      this.live(key);
+    }
+  }
+}
+
+type RedisReply = string | number | null | RedisReply[];
+
+class RedisReplyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RedisReplyError';
+  }
+}
+
+interface PendingCommand {
+  resolve: (reply: RedisReply) => void;
+  reject: (error: Error) => void;
+  /** Connection setup step (AUTH, SELECT); its failure fails the connection */
+  setup?: string;
+}
+
+/**
+ * Minimal RESP2 client: one pipelined connection, opened on first use and
+ * re-opened after errors. Supports redis://[user:password@]host:port[/db],
+ * and rediss:// for TLS (the server certificate is verified).
+ */
+export class RedisConnection {
+  private socket: net.Socket | null = null;
+  private buffer = Buffer.alloc(0);
+  private pending: PendingCommand[] = [];
+
+  constructor(
+    private url: string,
+    private timeoutMs: number = CACHE_STORE_CONFIG.timeoutMs
+  ) {}
+
+  async command(args: Array<string | number>): Promise<RedisReply> {
+    const socket = this.socket || this.open();
+    return this.send(socket, args);
+  }
+
+  close(): void {
+    this.fail(new Error('Connection closed'));
+  }
+
+  private open(): net.Socket {
+    const url = new URL(this.url);
+    if (url.protocol !== 'redis:' && url.protocol !== 'rediss:') {
+      throw new Error(`Unsupported cache store URL scheme "${url.protocol}" (use redis:// or rediss://)`);
+    }
+    const host = url.hostname || '127.0.0.1';
+    const port = Number(url.port) || 6379;
+    const socket = url.protocol === 'rediss:'
+      ? tls.connect({ host, port, servername: net.isIP(host) ? undefined : host })
+      : net.createConnection({ host, port });
+    this.socket = socket;
+    this.buffer = Buffer.alloc(0);
+
+    socket.setNoDelay(true);
+    socket.setTimeout(this.timeoutMs);
+    socket.on('data', chunk => this.onData(chunk));
+    socket.on('timeout', () => {
+      if (this.pending.length > 0) this.fail(new Error(`Redis did not respond within ${this.timeoutMs}ms`), socket);
+    });
+    socket.on('error', error => this.fail(error, socket));
+    socket.on('close', () => this.fail(new Error('Redis connection closed'), socket));
+
+    // Queued ahead of the caller's command, so they run first on this connection;
+    // a failure is reported as the error of every command behind them
+    if (url.password) {
+      const auth = url.username
+        ? ['AUTH', decodeURIComponent(url.username), decodeURIComponent(url.password)]
+        : ['AUTH', decodeURIComponent(url.password)];
+      this.send(socket, auth, 'AUTH').catch(() => undefined);
+    }
+    const db = url.pathname.replace('/', '');
+    if (db) {
+      this.send(socket, ['SELECT', db], 'SELECT').catch(() => undefined);
+    }
+    return socket;
+  }
+
+  private send(socket: net.Socket, args: Array<string | number>, setup?: string): Promise<RedisReply> {
+    return new Promise((resolve, reject) => {
+      this.pending.push({ resolve, reject, setup });
+      let payload = `*${args.length}\r\n`;
+      for (const arg of args) {
+        const value = String(arg);
+        payload += `$${Buffer.byteLength(value)}\r\n${value}\r\n`;
+      }
+      socket.write(payload);
+    });
+  }
+
+  private onData(chunk: Buffer): void {
+    this.buffer = Buffer.concat([this.buffer, chunk]);
+    let offset = 0;
+
+    while (offset < this.buffer.length) {
+      let parsed: ParsedReply | null;
+      try {
+        parsed = parseReply(this.buffer, offset);
+      } catch (error: any) {
+        this.fail(error);
+        return;
+      }
+      if (!parsed) break;
+      offset = parsed.offset;
+
+      const command = this.pending.shift();
+      if (!command) continue;
+      if (parsed.error && command.setup) {
+        const error = new Error(`Redis ${command.setup} failed: ${parsed.error.message}`);
+        command.reject(error);
+        this.fail(error);
+        return;
+      }
+      if (parsed.error) command.reject(parsed.error);
+      else command.resolve(parsed.value);
+    }
+
+    this.buffer = this.buffer.subarray(offset);
+  }
+
+  /** Reject everything in flight and drop the connection (replies would be out of step) */
+  private fail(error: Error, socket: net.Socket | null = this.socket): void {
+    if (socket !== this.socket || !socket) return;
+    this.socket = null;
+    socket.destroy();
+    const pending = this.pending;
+    this.pending = [];
+    pending.forEach(command => command.reject(error));
+  }
+}
+
+interface ParsedReply {
+  value: RedisReply;
+  error?: Error;
+  offset: number;
+}
+
+/** Parse one reply starting at `offset`; null when the buffer holds only part of it */
+function parseReply(buffer: Buffer, offset: number): ParsedReply | null {
+  const lineEnd = buffer.indexOf('\r\n', offset);
+  if (lineEnd === -1) return null;
+
+  const type = String.fromCharCode(buffer[offset]);
+  const line = buffer.toString('utf8', offset + 1, lineEnd);
+  const next = lineEnd + 2;
+
+  switch (type) {
+    case '+':
+      return { value: line, offset: next };
+    case '-':
+      return { value: null, error: new RedisReplyError(line), offset: next };
+    case ':':
+      return { value: Number(line), offset: next };
+    case '$': {
+      const length = Number(line);
+      if (length === -1) return { value: null, offset: next };
+      if (buffer.length < next + length + 2) return null;
+      return { value: buffer.toString('utf8', next, next + length), offset: next + length + 2 };
+    }
+    case '*': {
+      const count = Number(line);
+      if (count === -1) return { value: null, offset: next };
+      const items: RedisReply[] = [];
+      let position = next;
+      for (let i = 0; i < count; i++) {
+        const item = parseReply(buffer, position);
+        if (!item) return null;
+        items.push(item.value);
+        position = item.offset;
+      }
+      return { value: items, offset: position };
+    }
+    default:
+      throw new Error(`Unexpected Redis reply type "${type}"`);
+  }
+}
+
+// Tag sets outlive the entries in them; stale members are skipped on invalidation
+const TAG_TTL_SECONDS = 24 * 60 * 60;
+const ERROR_LOG_INTERVAL_MS = 30 * 1000;
+
+/**
+ * Store on a Redis-protocol server, shared by all instances
+ *
+ * Values are JSON. Keys are laid out as `<namespace>:v:<key>`, tag sets as
+ * `<namespace>:tag:<tag>` and counters as `<namespace>:stats:<name>` hashes.
+ * A failing server is treated as a cache miss: reads return nothing and
+ * writes are dropped, so requests never fail because of the cache.
+ */
+export class RedisCacheStore implements CacheStore {
+  readonly info: CacheStoreInfo;
+  private connection: RedisConnection;
+  private lastErrorLoggedAt = 0;
+
+  constructor(url: string, namespace: string = CACHE_STORE_CONFIG.namespace, connection?: RedisConnection) {
+    this.info = { kind: 'redis', shared: true, namespace };
+    this.connection = connection || new RedisConnection(url);
+  }
+
+  async get<T>(key: string): Promise<T | null> {
+    return this.run('get', null, async () => this.decode<T>(await this.command('GET', this.valueKey(key))));
+  }
+
+  async set<T>(key: string, value: T, options: CacheSetOptions = {}): Promise<void> {
+    await this.run('set', undefined, async () => {
+      const fullKey = this.valueKey(key);
+      const args: Array<string | number> = ['SET', fullKey, JSON.stringify(value)];
+      if (options.ttlSeconds) args.push('PX', Math.round(options.ttlSeconds * 1000));
+
+      await Promise.all([
+        this.command(...args),
+        ...(options.tags || []).flatMap(tag => [
+          this.command('SADD', this.tagKey(tag), fullKey),
+          this.command('EXPIRE', this.tagKey(tag), Math.max(TAG_TTL_SECONDS, options.ttlSeconds || 0)),
+        ]),
+      ]);
+    });
+  }
+
+  async take<T>(key: string): Promise<T | null> {
+    // GETDEL needs Redis 6.2+
+    return this.run('take', null, async () => this.decode<T>(await this.command('GETDEL', this.valueKey(key))));
+  }
+
+  async has(key: string): Promise<boolean> {
+    return this.run('has', false, async () => (await this.command('EXISTS', this.valueKey(key))) === 1);
+  }
+
+  async delete(key: string): Promise<boolean> {
+    return this.run('delete', false, async () => (await this.command('DEL', this.valueKey(key))) === 1);
+  }
+
+  async deleteMatching(pattern: string, prefix: string = ''): Promise<number> {
+    return this.run('deleteMatching', 0, async () =>
+      this.deleteKeys(await this.scan(`${this.valueKey(escapeGlob(prefix))}*${escapeGlob(pattern)}*`))
+    );
+  }
+
+  async invalidateTags(tags: string[]): Promise<number> {
+    return this.run('invalidateTags', 0, async () => {
+      let removed = 0;
+      for (const tag of tags) {
+        const members = await this.command('SMEMBERS', this.tagKey(tag));
+        removed += await this.deleteKeys(Array.isArray(members) ? (members as string[]) : []);
+        await this.command('DEL', this.tagKey(tag));
+      }
+      return removed;
+    });
+  }
+
+  async clear(prefix: string = ''): Promise<number> {
+    return this.run('clear', 0, async () => this.deleteKeys(await this.scan(`${this.valueKey(escapeGlob(prefix))}*`)));
+  }
+
+  async countKeys(prefix: string = ''): Promise<number> {
+    return this.run('countKeys', 0, async () => (await this.scan(`${this.valueKey(escapeGlob(prefix))}*`)).length);
+  }
+
+  async incrementStat(name: string, field: string, by: number = 1): Promise<void> {
+    await this.run('incrementStat', undefined, async () => {
+      await this.command('HINCRBY', this.statsKey(name), field, by);
+    });
+  }
+
+  async getStats(name: string): Promise<Record<string, number>> {
+    return this.run('getStats', {}, async () => {
+      const reply = await this.command('HGETALL', this.statsKey(name));
+      const stats: Record<string, number> = {};
+      const pairs = Array.isArray(reply) ? (reply as string[]) : [];
+      for (let i = 0; i + 1 < pairs.length; i += 2) {
+        stats[pairs[i]] = Number(pairs[i + 1]);
+      }
+      return stats;
+    });
+  }
+
+  async resetStats(name: string): Promise<void> {
+    await this.run('resetStats', undefined, async () => {
+      await this.command('DEL', this.statsKey(name));
+    });
+  }
+
+  async close(): Promise<void> {
+    this.connection.close();
+  }
+
+  private command(...args: Array<string | number>): Promise<RedisReply> {
+    return this.connection.command(args);
+  }
+
+  private async run<T>(operation: string, fallback: T, fn: () => Promise<T>): Promise<T> {
+    try {
+      return await fn();
+    } catch (error: any) {
+      // One line per interval is enough when the server is down
+      if (Date.now() - this.lastErrorLoggedAt > ERROR_LOG_INTERVAL_MS) {
+        this.lastErrorLoggedAt = Date.now();
+        console.error(`[CacheStore] Redis ${operation} failed, serving without cache:`, error.message);
+      }
+      return fallback;
+    }
+  }
+
+  private async scan(match: string): Promise<string[]> {
+    const keys: string[] = [];
+    let cursor = '0';
+    do {
+      const reply = await this.command('SCAN', cursor, 'MATCH', match, 'COUNT', 500) as [string, string[]];
+      cursor = reply[0];
+      keys.push(...reply[1]);
+    } while (cursor !== '0');
+    return keys;
+  }
+
+  private async deleteKeys(keys: string[]): Promise<number> {
+    let removed = 0;
+    for (let i = 0; i < keys.length; i += 500) {
+      removed += Number(await this.command('DEL', ...keys.slice(i, i + 500)));
+    }
+    return removed;
+  }
+
+  private decode<T>(reply: RedisReply): T | null {
+    return typeof reply === 'string' ? (JSON.parse(reply) as T) : null;
+  }
+
+  private valueKey(key: string): string {
+    return `${this.info.namespace}:v:${key}`;
+  }
+
+  private tagKey(tag: string): string {
+    return `${this.info.namespace}:tag:${tag}`;
+  }
+
+  private statsKey(name: string): string {
+    return `${this.info.namespace}:stats:${name}`;
+  }
+}
+
+function escapeGlob(value: string): string {
+  return value.replace(/[*?[\]\\]/g, '\\$&');
+}
+
+/**
+ * Create a store from configuration
+ * Uses Redis when CACHE_STORE_URL (or REDIS_URL) is set, memory otherwise.
+ */
+export function createCacheStore(config: CacheStoreConfig = CACHE_STORE_CONFIG): CacheStore {
+  if (config.url) {
+    return new RedisCacheStore(config.url, config.namespace);
+  }
+  return new MemoryCacheStore(config.namespace);
+}
+
+// Singleton store instance (created on first use)
+let sharedStore: CacheStore | undefined;
+
+export function getCacheStore(): CacheStore {
+  if (!sharedStore) {
+    sharedStore = createCacheStore();
+    console.log(`[CacheStore] Using ${sharedStore.info.kind} store (namespace: ${sharedStore.info.namespace})`);
+  }
+  return sharedStore;
+}
+
+/**
+ * Replace the shared store (tests)
+ * Pass undefined to re-create it from configuration on next use.
+ */
+export function setCacheStore(store: CacheStore | undefined): void {
+  sharedStore = store;
+}
@@ -1,9 +1,6 @@
-import Anthropic from '@anthropic-ai/sdk';
 import { SupabaseClient } from '@supabase/supabase-js';
-
-const anthropic = new Anthropic({
-  apiKey: process.env.ANTHROPIC_API_KEY!,
-});
+import { completeWithUsage } from '../agents/base';
+import { attributeItemChanges } from '../utils/projectHelpers';
 
 export interface ClusterSuggestion {
   name: string;
@@ -105,9 +102,10 @@ AVAILABLE COLORS (use these exact hex codes):
 Return ONLY valid JSON, no explanation text.`;
 
     try {
-      const response = await anthropic.messages.create({
+      const response = await completeWithUsage({
         model: 'claude-sonnet-4-20250514',
-        max_tokens: 2000,
+        maxTokens: 2000,
+        agentName: 'CanvasAnalysisService',
         messages: [
           {
             role: 'user',
@@ -116,13 +114,13 @@ Return ONLY valid JSON, no explanation text.`;
         ],
       });
 
-      const content = response.content[0];
-      if (content.type !== 'text') {
-        throw new Error('Unexpected response type from Claude');
+      const content = response.text;
+      if (!content) {
+        throw new Error('Empty response from the model');
       }
 
       // Parse AI response
-      const cleanResponse = content.text
+      const cleanResponse = content
         .replace(/```json\n?/g, '')
         .replace(/```\n?/g, '')
         .trim();
@@ -254,7 +252,8 @@ Return ONLY valid JSON, no explanation text.`;
    */
   async applyClustering(
     projectId: string,
-    clusters: ClusterSuggestion[]
+    clusters: ClusterSuggestion[],
+    userId?: string
   ): Promise<any> {
     try {
       const { data: project, error: fetchError } = await this.supabase
@@ -317,7 +316,7 @@ Return ONLY valid JSON, no explanation text.`;
       const { data: updatedProject, error: updateError } = await this.supabase
         .from('projects')
         .update({
-          items: updatedItems,
+          items: userId ? attributeItemChanges(items, updatedItems, userId) : updatedItems,
           clusters: clusterMetadata,
           updated_at: new Date().toISOString(),
         })
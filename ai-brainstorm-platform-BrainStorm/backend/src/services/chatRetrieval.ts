@@ -0,0 +1,156 @@
+import { Citation } from '../types';
+import { hybridSearchService, HybridSearchService, HybridSearchResult, SearchSourceType, tokenize } from './hybridSearch';
+
+/**
+ * Retrieval for chat replies
+ *
+ * Each user message is searched against the project's references, generated
+ * documents and earlier messages. The best passages are numbered [1], [2], ...
+ * in the ConversationAgent's prompt, and the markers its reply uses become
+ * structured citations that the chat renders as footnotes.
+ *
+ * Retrieval runs before the reply starts, so it has a latency budget: the
+ * search is one ranking query plus the rows of the top results (see
+ * HybridSearchService), started alongside the history load, and a reply that
+ * would wait longer than the budget (1.5s by default) goes without sources.
+ */
+
+export interface RetrievedSource extends Citation {
+  score: number;
+}
+
+export interface RetrieveOptions {
+  /** Most sources to put in the prompt (default 5) */
+  limit?: number;
+  /** Messages already in the prompt as conversation history; may still be loading while the search runs */
+  excludeMessageIds?: string[] | Promise<string[]>;
+  /** Longest the search may hold up the reply, in ms (default 1500) */
+  timeoutMs?: number;
+}
+
+const CHAT_SOURCE_TYPES: SearchSourceType[] = ['reference', 'generated_document', 'message'];
+const DEFAULT_LIMIT = 5;
+// Matches fetched per source, making up for messages already in the history
+const RESULTS_PER_SOURCE = 3;
+const DEFAULT_TIMEOUT_MS = 1500;
+// Fused hybrid score below which a match is too weak to put in front of the model
+const MIN_SOURCE_SCORE = 0.25;
+// Short messages ("ok, next") carry too little to search with
+const MIN_QUERY_TERMS = 3;
+const MAX_QUOTE_LENGTH = 1000;
+
+const SOURCE_LABELS: Record<Citation['sourceType'], string> = {
+  reference: 'Reference',
+  generated_document: 'Project document',
+  message: 'Earlier message',
+};
+
+function toSource(result: HybridSearchResult, marker: number): RetrievedSource {
+  const passage = result.passage;
+  const text = (passage?.content || result.snippet).replace(/\s+/g, ' ').trim();
+  return {
+    marker,
+    sourceType: result.type as Citation['sourceType'],
+    sourceId: result.id,
+    title: result.title,
+    location: passage?.location ?? null,
+    pageStart: passage?.pageStart ?? null,
+    pageEnd: passage?.pageEnd ?? null,
+    charStart: passage?.charStart ?? null,
+    charEnd: passage?.charEnd ?? null,
+    startSeconds: passage?.startSeconds ?? null,
+    quote: text.length > MAX_QUOTE_LENGTH ? `${text.substring(0, MAX_QUOTE_LENGTH)}…` : text,
+    score: result.score,
+  };
+}
+
+/**
+ * Numbered source list for the agent prompt
+ */
+export function formatSourcesForPrompt(sources: RetrievedSource[]): string {
+  return sources
+    .map(source => {
+      const location = source.location ? ` (${source.location})` : '';
+      return `[${source.marker}] ${SOURCE_LABELS[source.sourceType]} "${source.title}"${location}:\n${source.quote}`;
+    })
+    .join('\n\n');
+}
+
+/**
+ * Turn the [n] markers in a reply into citations
+ * Markers are renumbered 1, 2, ... in order of first use; markers that point
+ * at no source are removed. "[1, 3]" is treated as "[1][3]".
+ */
+export function extractCitations(reply: string, sources: RetrievedSource[]): { message: string; citations: Citation[] } {
+  const byMarker = new Map(sources.map(source => [source.marker, source]));
+  const renumbered = new Map<number, number>();
+
+  const message = reply
+    .replace(/\[(\d+(?:\s*,\s*\d+)+)\]/g, (_match, list: string) =>
+      list.split(',').map(n => `[${n.trim()}]`).join('')
+    )
+    .replace(/ ?\[(\d+)\]/g, (match, n: string) => {
+      const marker = Number(n);
+      if (!byMarker.has(marker)) return '';
+      if (!renumbered.has(marker)) renumbered.set(marker, renumbered.size + 1);
+      return match.replace(n, String(renumbered.get(marker)));
+    });
+
+  const citations = [...renumbered.entries()].map(([marker, number]) => {
+    const { score: _score, ...citation } = byMarker.get(marker)!;
+    return { ...citation, marker: number };
+  });
+
+  return { message, citations };
+}
+
+export class ChatRetrievalService {
+  constructor(private search: HybridSearchService = hybridSearchService) {}
+
+  /**
+   * Most relevant passages for a chat message, numbered from 1
+   * Returns no sources (rather than throwing) when search fails, so the chat
+   * still answers without grounding.
+   */
+  async retrieve(projectId: string, query: string, options: RetrieveOptions = {}): Promise<RetrievedSource[]> {
+    if (tokenize(query).length < MIN_QUERY_TERMS) return [];
+
+    const limit = options.limit ?? DEFAULT_LIMIT;
+    const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    let timer: NodeJS.Timeout | undefined;
+
+    try {
+      const timeout = new Promise<null>(resolve => {
+        timer = setTimeout(() => resolve(null), timeoutMs);
+      });
+      const results = await Promise.race([
+        this.search.search([projectId], query, {
+          types: CHAT_SOURCE_TYPES,
+          limit: limit * RESULTS_PER_SOURCE,
+        }),
+        timeout,
+      ]);
+      if (!results) {
+        console.warn(`[ChatRetrieval] Search took over ${timeoutMs}ms, answering without sources`);
+        return [];
+      }
+      const excluded = new Set(await options.excludeMessageIds || []);
+
+      const sources = results
+        .filter(result => result.score >= MIN_SOURCE_SCORE)
+        .filter(result => !(result.type === 'message' && excluded.has(result.id)))
+        .slice(0, limit)
+        .map((result, i) => toSource(result, i + 1));
+
+      console.log(`[ChatRetrieval] ${sources.length} sources for project ${projectId}`);
+      return sources;
+    } catch (error) {
+      console.error('[ChatRetrieval] Retrieval failed, answering without sources:', error);
+      return [];
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
+
+export const chatRetrievalService = new ChatRetrievalService();
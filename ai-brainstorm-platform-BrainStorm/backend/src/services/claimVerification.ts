@@ -0,0 +1,327 @@
+import crypto from 'crypto';
+import { supabase } from './supabase';
+import { EmbeddingService } from './embeddingService';
+import { hybridRank, hybridSearchService, HybridSearchService, HybridDocument } from './hybridSearch';
+import { runWithUsageContext } from './usageContext';
+import { QualityAuditorAgent, ClaimStatus, ClaimToJudge } from '../agents/qualityAuditor';
+import { getRawProjectItems } from '../utils/projectHelpers';
+
+/**
+ * Claim verification for generated documents
+ *
+ * A generated document is split into claims (sentences, list entries, table
+ * rows). Each claim is matched against decided project items, user messages
+ * and reference passages, and the QualityAuditor labels it supported,
+ * unsupported or contradicted by that evidence. The result is stored on the
+ * document (metadata.verification) with the character range of every claim,
+ * so the viewer can overlay the labels on the text.
+ */
+
+export interface DocumentClaim {
+  index: number;
+  text: string;
+  /** Range of the claim in the document's markdown */
+  charStart: number;
+  charEnd: number;
+  section: string | null;
+}
+
+export interface ClaimEvidence {
+  sourceType: 'item' | 'message' | 'reference';
+  sourceId: string;
+  title: string;
+  quote: string;
+  location: string | null;
+}
+
+export interface VerifiedClaim extends DocumentClaim {
+  status: ClaimStatus;
+  explanation: string;
+  /** Evidence that supports or contradicts the claim */
+  evidence: ClaimEvidence[];
+}
+
+export interface DocumentVerification {
+  verifiedAt: string;
+  /** Hash of the content that was verified; a different hash means the labels are stale */
+  contentHash: string;
+  counts: Record<ClaimStatus, number>;
+  claims: VerifiedClaim[];
+  /** True when the document had more claims than are checked */
+  truncated: boolean;
+}
+
+interface EvidenceCandidate extends HybridDocument {
+  evidence: ClaimEvidence;
+}
+
+const MAX_CLAIMS = 80;
+const MIN_CLAIM_WORDS = 4;
+const EVIDENCE_PER_CLAIM = 3;
+const CLAIMS_PER_CALL = 15;
+// Evidence searches run a few at a time
+const SEARCHES_AT_ONCE = 4;
+const MAX_QUOTE_LENGTH = 400;
+// Evidence found by meaning alone must be close; keyword matches are always considered
+const MIN_EVIDENCE_SIMILARITY = 0.45;
+
+export function hashContent(content: string): string {
+  return crypto.createHash('sha256').update(content).digest('hex').substring(0, 16);
+}
+
+function quote(text: string): string {
+  const collapsed = text.replace(/\s+/g, ' ').trim();
+  return collapsed.length > MAX_QUOTE_LENGTH ? `${collapsed.substring(0, MAX_QUOTE_LENGTH)}…` : collapsed;
+}
+
+function plainText(markdown: string): string {
+  return markdown
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/\*\*|__|`/g, '')
+    .trim();
+}
+
+/**
+ * Split markdown into checkable claims
+ * Headings name the section; code blocks, rules, questions and fragments
+ * shorter than a few words are not claims.
+ */
+export function splitIntoClaims(content: string): DocumentClaim[] {
+  const claims: DocumentClaim[] = [];
+  let section: string | null = null;
+  let inCode = false;
+  let offset = 0;
+
+  const push = (text: string, charStart: number, charEnd: number) => {
+    const cleaned = plainText(text);
+    if (cleaned.split(/\s+/).length < MIN_CLAIM_WORDS || cleaned.endsWith('?')) return;
+    claims.push({ index: claims.length, text: cleaned, charStart, charEnd, section });
+  };
+
+  for (const line of content.split('\n')) {
+    const lineStart = offset;
+    offset += line.length + 1;
+    const trimmed = line.trim();
+
+    if (/^(```|~~~)/.test(trimmed)) {
+      inCode = !inCode;
+      continue;
+    }
+    if (inCode || !trimmed) continue;
+
+    const heading = /^#{1,6}\s+(.*)$/.exec(trimmed);
+    if (heading) {
+      section = plainText(heading[1]) || null;
+      continue;
+    }
+    if (/^([-*_]\s*){3,}$/.test(trimmed) || /^\|?[\s:|-]+\|?$/.test(trimmed)) continue;
+
+    // Skip blockquote, list and checkbox markers
+    const marker = /^\s*(?:>\s*)*(?:[-*+]\s+|\d+[.)]\s+)?(?:\[[ xX]\]\s+)?/.exec(line)![0].length;
+    const body = line.slice(marker).trimEnd();
+    const bodyStart = lineStart + marker;
+
+    if (body.startsWith('|')) {
+      // A table row is one claim: its cells read together
+      push(body.split('|').map(cell => cell.trim()).filter(Boolean).join('; '), bodyStart, bodyStart + body.length);
+      continue;
+    }
+
+    // Sentence ends: punctuation, optional closing quote/bracket, space, then a capital, digit or markup
+    const boundary = /[.!?]["')\]]*\s+(?=[A-Z0-9*_"'(\[])/g;
+    let sentenceStart = 0;
+    let match: RegExpExecArray | null;
+    while ((match = boundary.exec(body)) !== null) {
+      const end = match.index + match[0].trimEnd().length;
+      push(body.slice(sentenceStart, end), bodyStart + sentenceStart, bodyStart + end);
+      sentenceStart = match.index + match[0].length;
+    }
+    push(body.slice(sentenceStart), bodyStart + sentenceStart, bodyStart + body.length);
+  }
+
+  return claims;
+}
+
+/**
+ * Stored verification of a document, and whether its content changed since
+ */
+export function getVerification(document: { content: string; metadata?: any }): {
+  verification: DocumentVerification | null;
+  stale: boolean;
+} {
+  const verification: DocumentVerification | null = document.metadata?.verification || null;
+  return {
+    verification,
+    stale: !!verification && verification.contentHash !== hashContent(document.content || ''),
+  };
+}
+
+export class ClaimVerificationService {
+  private auditor = new QualityAuditorAgent();
+
+  constructor(
+    private search: HybridSearchService = hybridSearchService,
+    private embeddingService: EmbeddingService = new EmbeddingService(supabase)
+  ) {}
+
+  /**
+   * Verify a generated document and store the result on it
+   */
+  async verifyDocument(documentId: string): Promise<DocumentVerification> {
+    const { data: document, error } = await supabase
+      .from('generated_documents')
+      .select('*')
+      .eq('id', documentId)
+      .single();
+
+    if (error || !document) {
+      throw new Error(`Failed to fetch document: ${error?.message}`);
+    }
+
+    const verification = await runWithUsageContext(
+      { projectId: document.project_id, operation: 'claim-verification' },
+      () => this.verifyContent(document.project_id, document.content || '')
+    );
+
+    const { error: updateError } = await supabase
+      .from('generated_documents')
+      .update({ metadata: { ...(document.metadata || {}), verification } })
+      .eq('id', documentId);
+
+    if (updateError) {
+      throw new Error(`Failed to save verification: ${updateError.message}`);
+    }
+
+    console.log(`[ClaimVerification] ${document.document_type || documentId}: ${verification.counts.supported} supported, ${verification.counts.unsupported} unsupported, ${verification.counts.contradicted} contradicted`);
+    return verification;
+  }
+
+  /**
+   * Label every claim in the content against the project's evidence
+   */
+  async verifyContent(projectId: string, content: string): Promise<DocumentVerification> {
+    const allClaims = splitIntoClaims(content);
+    const claims = allClaims.slice(0, MAX_CLAIMS);
+    const decided = await this.loadDecidedItems(projectId);
+
+    let vectors: number[][] | null = null;
+    if (claims.length > 0 && this.embeddingService.isConfigured()) {
+      try {
+        vectors = await this.embeddingService.generateEmbeddingsBatch(claims.map(claim => claim.text));
+      } catch (error) {
+        // Keyword matching still finds evidence that uses the same terms
+        console.error('[ClaimVerification] Claim embedding failed, matching by keywords only:', error);
+      }
+    }
+
+    const candidatesFor: ClaimEvidence[][] = [];
+    for (let i = 0; i < claims.length; i += SEARCHES_AT_ONCE) {
+      candidatesFor.push(...await Promise.all(claims.slice(i, i + SEARCHES_AT_ONCE).map(claim =>
+        this.findEvidence(projectId, claim.text, vectors?.[claim.index] || null, decided)
+      )));
+    }
+
+    // Claims nothing mentions are unsupported without asking the model
+    const toJudge: ClaimToJudge[] = claims
+      .filter(claim => candidatesFor[claim.index].length > 0)
+      .map(claim => ({
+        index: claim.index,
+        text: claim.text,
+        evidence: candidatesFor[claim.index].map(e => ({ label: `${e.title}${e.location ? ` (${e.location})` : ''}`, quote: e.quote })),
+      }));
+
+    const judgments = new Map<number, { status: ClaimStatus; evidence: number[]; explanation: string }>();
+    for (let i = 0; i < toJudge.length; i += CLAIMS_PER_CALL) {
+      for (const judgment of await this.auditor.judgeClaims(toJudge.slice(i, i + CLAIMS_PER_CALL))) {
+        judgments.set(judgment.index, judgment);
+      }
+    }
+
+    const verified: VerifiedClaim[] = claims.map(claim => {
+      const candidates = candidatesFor[claim.index];
+      const judgment = judgments.get(claim.index);
+
+      if (candidates.length === 0) {
+        return { ...claim, status: 'unsupported', explanation: 'No decided item, message or reference mentions this.', evidence: [] };
+      }
+      if (!judgment) {
+        return { ...claim, status: 'unsupported', explanation: 'Could not be checked against the evidence.', evidence: [] };
+      }
+      return {
+        ...claim,
+        status: judgment.status,
+        explanation: judgment.explanation,
+        evidence: judgment.evidence.map(n => candidates[n - 1]).filter(Boolean),
+      };
+    });
+
+    const counts: Record<ClaimStatus, number> = { supported: 0, unsupported: 0, contradicted: 0 };
+    verified.forEach(claim => counts[claim.status]++);
+
+    return {
+      verifiedAt: new Date().toISOString(),
+      contentHash: hashContent(content),
+      counts,
+      claims: verified,
+      truncated: allClaims.length > claims.length,
+    };
+  }
+
+  /**
+   * Decided items of a project, ranked against each claim in memory
+   */
+  private async loadDecidedItems(projectId: string): Promise<EvidenceCandidate[]> {
+    const items = await getRawProjectItems(projectId);
+    return items
+      .filter((item: any) => item.state === 'decided' && item.text)
+      .map((item: any) => ({
+        id: `item:${item.id}`,
+        text: item.text,
+        evidence: { sourceType: 'item', sourceId: item.id, title: 'Decided item', quote: quote(item.text), location: null },
+      }));
+  }
+
+  /**
+   * Best evidence for one claim: decided items plus the reference passages and
+   * user messages project search finds for it
+   * Assistant messages are left out: the AI can't vouch for what it said itself.
+   */
+  private async findEvidence(
+    projectId: string,
+    claim: string,
+    vector: number[] | null,
+    decided: EvidenceCandidate[]
+  ): Promise<ClaimEvidence[]> {
+    const results = await this.search.search([projectId], claim, {
+      types: ['reference', 'message'],
+      limit: EVIDENCE_PER_CLAIM * 2,
+      queryEmbedding: vector,
+      minVectorScore: MIN_EVIDENCE_SIMILARITY,
+    });
+
+    const byId = new Map(decided.map(candidate => [candidate.id, candidate]));
+    const scored = [
+      ...hybridRank(claim, vector, decided, { minVectorScore: MIN_EVIDENCE_SIMILARITY })
+        .map(score => ({ score: score.score, evidence: byId.get(score.id)!.evidence })),
+      ...results
+        .filter(result => result.type !== 'message' || result.record.role === 'user')
+        .map(result => ({
+          score: result.score,
+          evidence: {
+            sourceType: result.type === 'message' ? 'message' as const : 'reference' as const,
+            sourceId: result.id,
+            title: result.type === 'message' ? 'User message' : result.title,
+            quote: quote(result.passage?.content || result.snippet),
+            location: result.passage?.location ?? null,
+          },
+        })),
+    ];
+
+    return scored
+      .sort((a, b) => b.score - a.score)
+      .slice(0, EVIDENCE_PER_CLAIM)
+      .map(candidate => candidate.evidence);
+  }
+}
+
+export const claimVerificationService = new ClaimVerificationService();
@@ -1,7 +1,18 @@
 import { Readability } from '@mozilla/readability';
 import { JSDOM } from 'jsdom';
-import { chromium, Browser, Page } from 'playwright';
+import { chromium, Browser, Page, Response as PageResponse } from 'playwright';
 import { retryWithBackoff } from '../utils/retryUtil';
+import { assertPublicUrl, fetchPublicUrl } from '../utils/urlSafety';
+
+/**
+ * Throw unless every redirect that led to a navigation stayed on public addresses
+ * The browser has already made the requests, but nothing from a private hop is read.
+ */
+async function assertPublicRedirects(response: PageResponse | null): Promise<void> {
+  for (let request = response?.request() || null; request; request = request.redirectedFrom()) {
+    await assertPublicUrl(request.url());
+  }
+}
 
 /**
  * Enhanced content extraction service
@@ -77,7 +88,7 @@ export class ContentExtractionService {
         const timeout = setTimeout(() => controller.abort(), 15000);
 
         try {
-          const response = await fetch(url, {
+          const response = await fetchPublicUrl(url, {
             signal: controller.signal,
             headers: {
               'User-Agent': 'Mozilla/5.0 (compatible; ResearchBot/1.0)',
@@ -154,13 +165,17 @@ export class ContentExtractionService {
 
     try {
       // Navigate with timeout
-      await page.goto(url, {
+      await assertPublicUrl(url);
+      const response = await page.goto(url, {
         waitUntil: 'networkidle',
         timeout: 30000,
       });
+      await assertPublicRedirects(response);
 
       // Wait for main content to load
       await page.waitForTimeout(2000);
+      // Scripts may have navigated elsewhere meanwhile
+      await assertPublicUrl(page.url());
 
       // Extract content
       const content = await page.evaluate(() => {
@@ -215,6 +230,27 @@ export class ContentExtractionService {
     }
   }
 
+  /**
+   * Screenshot of a page as it renders now (viewport, PNG)
+   */
+  async captureScreenshot(url: string): Promise<Buffer> {
+    const browser = await this.getBrowser();
+    const context = await browser.newContext({
+      userAgent: 'Mozilla/5.0 (compatible; ResearchBot/1.0)',
+      viewport: { width: 1280, height: 800 },
+    });
+
+    try {
+      await assertPublicUrl(url);
+      const page = await context.newPage();
+      const response = await page.goto(url, { waitUntil: 'load', timeout: 30000 });
+      await assertPublicRedirects(response);
+      return await page.screenshot({ fullPage: false, type: 'png' });
+    } finally {
+      await context.close();
+    }
+  }
+
   /**
    * Basic extraction fallback (simple HTML parsing)
    */
@@ -231,7 +267,7 @@ export class ContentExtractionService {
         const timeout = setTimeout(() => controller.abort(), 15000);
 
         try {
-          const response = await fetch(url, {
+          const response = await fetchPublicUrl(url, {
             signal: controller.signal,
             headers: {
               'User-Agent': 'Mozilla/5.0 (compatible; ResearchBot/1.0)',
@@ -1,7 +1,4 @@
-import Anthropic from '@anthropic-ai/sdk';
-import dotenv from 'dotenv';
-
-dotenv.config();
+import { completeWithUsage } from '../agents/base';
 
 export interface Message {
   id: string;
@@ -50,14 +47,6 @@ export interface TopicGroup {
  * using AI-powered topic identification
  */
 export class ContextGroupingService {
-  private client: Anthropic;
-
-  constructor() {
-    this.client = new Anthropic({
-      apiKey: process.env.ANTHROPIC_API_KEY,
-    });
-  }
-
   /**
    * Main method: Group ideas by conversation context/topic
    */
@@ -175,16 +164,17 @@ Return ONLY valid JSON (no markdown, no explanation):
 ]`;
 
     try {
-      const response = await this.client.messages.create({
+      const response = await completeWithUsage({
         model: 'claude-sonnet-4-20250514',
-        max_tokens: 1500,
+        maxTokens: 1500,
+        agentName: 'ContextGroupingService',
         messages: [{ role: 'user', content: prompt }],
       });
 
-      const content = response.content[0];
-      if (content.type === 'text') {
+      const content = response.text;
+      if (content) {
         // Clean response and parse JSON
-        let cleanResponse = content.text.trim();
+        let cleanResponse = content.trim();
         cleanResponse = cleanResponse.replace(/```json\n?/g, '').replace(/```\n?/g, '');
 
         const topics = JSON.parse(cleanResponse);
@@ -237,15 +227,16 @@ Return ONLY valid JSON (no markdown):
 }`;
 
     try {
-      const response = await this.client.messages.create({
+      const response = await completeWithUsage({
         model: 'claude-sonnet-4-20250514',
-        max_tokens: 500,
+        maxTokens: 500,
+        agentName: 'ContextGroupingService',
         messages: [{ role: 'user', content: prompt }],
       });
 
-      const content = response.content[0];
-      if (content.type === 'text') {
-        let cleanResponse = content.text.trim();
+      const content = response.text;
+      if (content) {
+        let cleanResponse = content.trim();
         cleanResponse = cleanResponse.replace(/```json\n?/g, '').replace(/```\n?/g, '');
 
         const match = JSON.parse(cleanResponse);
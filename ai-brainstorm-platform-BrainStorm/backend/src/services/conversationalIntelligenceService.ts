@@ -1,9 +1,5 @@
 import { SupabaseClient } from '@supabase/supabase-js';
-import Anthropic from '@anthropic-ai/sdk';
-
-const anthropic = new Anthropic({
-  apiKey: process.env.ANTHROPIC_API_KEY!,
-});
+import { completeWithUsage } from '../agents/base';
 
 interface ConversationMessage {
   role: 'user' | 'assistant';
@@ -200,9 +196,10 @@ User Question: ${question}
 Please answer the question based on the project data above. Be specific and cite sources when possible.`;
 
     try {
-      const response = await anthropic.messages.create({
+      const response = await completeWithUsage({
         model: 'claude-sonnet-4-20250514',
-        max_tokens: 2048,
+        maxTokens: 2048,
+        agentName: 'ConversationalIntelligenceService',
         system: systemPrompt,
         messages: [
           ...conversationHistory.map(msg => ({
@@ -216,9 +213,7 @@ Please answer the question based on the project data above. Be specific and cite
         ]
       });
 
-      const answerContent = response.content[0].type === 'text'
-        ? response.content[0].text
-        : '';
+      const answerContent = response.text;
 
       // Extract sources mentioned in the answer
       const sources = this.extractSources(answerContent, projectData);
@@ -291,9 +286,10 @@ Generate the complete document in markdown format.`;
 
     try {
       console.log('[ConversationalIntelligence] Calling Claude API for document generation...');
-      const response = await anthropic.messages.create({
+      const response = await completeWithUsage({
         model: 'claude-sonnet-4-20250514',
-        max_tokens: 4096,
+        maxTokens: 4096,
+        agentName: 'ConversationalIntelligenceService',
         system: systemPrompt,
         messages: [
           ...conversationHistory.map(msg => ({
@@ -308,9 +304,7 @@ Generate the complete document in markdown format.`;
       });
       console.log('[ConversationalIntelligence] Document generated successfully');
 
-      const documentContent = response.content[0].type === 'text'
-        ? response.content[0].text
-        : '';
+      const documentContent = response.text;
 
       // Extract title from generated content (first # heading)
       const titleMatch = documentContent.match(/^#\s+(.+)$/m);
@@ -0,0 +1,175 @@
+import OpenAI from 'openai';
+import {
+  EMBEDDING_PROVIDERS,
+  EmbeddingProviderConfig,
+  getEmbeddingConfig,
+} from '../config/aiModels';
+
+/**
+ * Embedding provider layer
+ *
+ * EmbeddingService turns text into vectors through an EmbeddingProvider,
+ * chosen by EMBEDDING_PROVIDER. Vectors are only comparable within one model,
+ * so providers report their model and dimensions and every stored vector
+ * records both.
+ */
+
+export interface EmbeddingProvider {
+  readonly name: string;
+  readonly model: string;
+  readonly dimensions: number;
+  /** Longest input in characters; longer text is truncated */
+  readonly maxInputChars: number;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+/**
+ * Error with the HTTP status of the upstream embedding API, if any
+ */
+export class EmbeddingProviderError extends Error {
+  constructor(message: string, public readonly status?: number) {
+    super(message);
+    this.name = 'EmbeddingProviderError';
+  }
+}
+
+/**
+ * OpenAI embeddings API, or any server that implements it
+ */
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  readonly name: string;
+  readonly dimensions: number;
+  // 8191 tokens, ~32k characters
+  readonly maxInputChars = 32000;
+  private client: OpenAI;
+
+  constructor(
+    public readonly model: string,
+    dimensions: number | undefined,
+    apiKey: string | undefined,
+    baseUrl?: string
+  ) {
+    if (!apiKey && !baseUrl) {
+      throw new Error('OpenAI API key not configured. Set OPENAI_API_KEY in .env');
+    }
+    if (!dimensions) {
+      throw new Error(`Unknown dimensions for embedding model "${model}". Set EMBEDDING_DIMENSIONS in .env`);
+    }
+    this.name = baseUrl ? EMBEDDING_PROVIDERS.OPENAI_COMPATIBLE : EMBEDDING_PROVIDERS.OPENAI;
+    this.dimensions = dimensions;
+    this.client = new OpenAI({ apiKey: apiKey || 'not-needed', baseURL: baseUrl });
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    try {
+      const response = await this.client.embeddings.create({
+        model: this.model,
+        input: texts.map(text => text.substring(0, this.maxInputChars)),
+        encoding_format: 'float',
+      });
+      return response.data.map(item => item.embedding);
+    } catch (error: any) {
+      if (error.status === 401) {
+        throw new EmbeddingProviderError('Invalid embedding API key', 401);
+      } else if (error.status === 429) {
+        throw new EmbeddingProviderError('Embedding API rate limit exceeded', 429);
+      } else if (error.status === 500) {
+        throw new EmbeddingProviderError('Embedding API service error', 500);
+      }
+      throw new EmbeddingProviderError(error.message || String(error), error.status);
+    }
+  }
+}
+
+/**
+ * Sentence-embedding model run in-process on the CPU (ONNX via transformers.js)
+ * The model is downloaded once into the cache directory, then works offline.
+ */
+export class LocalEmbeddingProvider implements EmbeddingProvider {
+  readonly name = EMBEDDING_PROVIDERS.LOCAL;
+  readonly dimensions: number;
+  // Small sentence models read 256-512 tokens; the tokenizer truncates the rest
+  readonly maxInputChars = 2000;
+  private extractor: Promise<(texts: string[], options: object) => Promise<{ tolist(): number[][] }>> | null = null;
+
+  constructor(public readonly model: string, dimensions: number | undefined, private cacheDir?: string) {
+    if (!dimensions) {
+      throw new Error(`Unknown dimensions for embedding model "${model}". Set EMBEDDING_DIMENSIONS in .env`);
+    }
+    this.dimensions = dimensions;
+  }
+
+  private load() {
+    if (!this.extractor) {
+      this.extractor = (async () => {
+        const transformers = await import('@huggingface/transformers');
+        if (this.cacheDir) {
+          transformers.env.cacheDir = this.cacheDir;
+        }
+        console.log(`[EmbeddingProvider] Loading local model ${this.model}`);
+        const extractor = await transformers.pipeline('feature-extraction', this.model, { dtype: 'fp32' });
+        return (texts: string[], options: object) => extractor(texts, options);
+      })();
+      // Let a failed load be retried on the next call
+      this.extractor.catch(() => {
+        this.extractor = null;
+      });
+    }
+    return this.extractor;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const extractor = await this.load();
+    const output = await extractor(
+      texts.map(text => text.substring(0, this.maxInputChars)),
+      { pooling: 'mean', normalize: true }
+    );
+    return output.tolist();
+  }
+}
+
+/**
+ * Create a provider from configuration
+ * Returns null when embeddings are turned off.
+ */
+export function createEmbeddingProvider(
+  config: EmbeddingProviderConfig = getEmbeddingConfig()
+): EmbeddingProvider | null {
+  switch (config.type) {
+    case EMBEDDING_PROVIDERS.OPENAI:
+      return new OpenAIEmbeddingProvider(config.model, config.dimensions, config.apiKey);
+    case EMBEDDING_PROVIDERS.OPENAI_COMPATIBLE:
+      if (!config.baseUrl) {
+        throw new Error('EMBEDDING_BASE_URL is required for the openai-compatible embedding provider');
+      }
+      return new OpenAIEmbeddingProvider(config.model, config.dimensions, config.apiKey, config.baseUrl);
+    case EMBEDDING_PROVIDERS.LOCAL:
+      return new LocalEmbeddingProvider(config.model, config.dimensions, config.cacheDir);
+    default:
+      return null;
+  }
+}
+
+// Singleton provider instance (undefined until first use)
+let sharedProvider: EmbeddingProvider | null | undefined;
+
+export function getEmbeddingProvider(): EmbeddingProvider | null {
+  if (sharedProvider === undefined) {
+    try {
+      sharedProvider = createEmbeddingProvider();
+    } catch (error: any) {
+      console.error('[EmbeddingProvider] Provider misconfigured, embeddings disabled:', error.message);
+      sharedProvider = null;
+    }
+    console.log(`[EmbeddingProvider] Initialized provider: ${sharedProvider ? `${sharedProvider.name} (${sharedProvider.model}, ${sharedProvider.dimensions}d)` : 'none'}`);
+  }
+  return sharedProvider;
+}
+
+/**
+ * Replace the shared provider (tests, offline demos)
+ * Pass undefined to re-create it from configuration on next use.
+ */
+export function setEmbeddingProvider(provider: EmbeddingProvider | null | undefined): void {
+  sharedProvider = provider;
+}
@@ -1,66 +1,73 @@
-import OpenAI from 'openai';
 import { SupabaseClient } from '@supabase/supabase-js';
+import { chunkText } from './textChunker';
+import { parseTranscript, chunkTranscript } from './mediaAnalysis';
+import { EmbeddingProvider, getEmbeddingProvider } from './embeddingProvider';
+
+/**
+ * A passage to embed, with where it sits in its source
+ */
+export interface ChunkInput {
+  index: number;
+  content: string;
+  charStart?: number | null;
+  charEnd?: number | null;
+  pageStart?: number | null;
+  pageEnd?: number | null;
+  section?: string | null;
+  /** Time range for audio/video transcript passages */
+  startSeconds?: number | null;
+  endSeconds?: number | null;
+}
 
 /**
  * Embedding service for semantic search
- * Uses OpenAI's text-embedding-3-small model
+ * Uses the configured EmbeddingProvider (OpenAI, an OpenAI-compatible server, or a local CPU model)
  */
 export class EmbeddingService {
-  private openai: OpenAI;
-  private model = 'text-embedding-3-small'; // Cost-effective, good performance
   private supabase: SupabaseClient | null = null;
+  // undefined means "use the shared provider from configuration"
+  private providerOverride: EmbeddingProvider | null | undefined;
 
-  constructor(supabase?: SupabaseClient) {
-    const apiKey = process.env.OPENAI_API_KEY;
+  constructor(supabase?: SupabaseClient, provider?: EmbeddingProvider | null) {
+    this.supabase = supabase || null;
+    this.providerOverride = provider;
+  }
 
-    if (!apiKey) {
-      console.warn('[EmbeddingService] OpenAI API key not configured');
-      // Create a dummy client to prevent initialization errors
-      this.openai = null as any;
-    } else {
-      this.openai = new OpenAI({
-        apiKey: apiKey,
-      });
+  private get provider(): EmbeddingProvider | null {
+    return this.providerOverride !== undefined ? this.providerOverride : getEmbeddingProvider();
+  }
+
+  private requireProvider(): EmbeddingProvider {
+    const provider = this.provider;
+    if (!provider) {
+      throw new Error('Embeddings are not configured. Set EMBEDDING_PROVIDER (or OPENAI_API_KEY) in .env');
     }
+    return provider;
+  }
 
-    this.supabase = supabase || null;
+  /**
+   * Model columns stored next to every vector, so search only compares like with like
+   */
+  private modelColumns() {
+    const provider = this.requireProvider();
+    return { embedding_model: provider.model, embedding_dimensions: provider.dimensions };
   }
 
   /**
    * Generate embedding for a single text
    */
   async generateEmbedding(text: string): Promise<number[]> {
-    if (!process.env.OPENAI_API_KEY) {
-      throw new Error('OpenAI API key not configured. Set OPENAI_API_KEY in .env');
-    }
+    const provider = this.requireProvider();
 
     try {
-      // Truncate text if too long (max 8191 tokens, ~32k characters)
-      const truncatedText = text.substring(0, 32000);
-
-      console.log(`[EmbeddingService] Generating embedding for text (${truncatedText.length} chars)`);
-
-      const response = await this.openai.embeddings.create({
-        model: this.model,
-        input: truncatedText,
-        encoding_format: 'float',
-      });
+      console.log(`[EmbeddingService] Generating embedding for text (${Math.min(text.length, provider.maxInputChars)} chars) with ${provider.model}`);
 
-      const embedding = response.data[0].embedding;
+      const [embedding] = await provider.embed([text]);
       console.log(`[EmbeddingService] Generated embedding with ${embedding.length} dimensions`);
 
       return embedding;
     } catch (error: any) {
       console.error('[EmbeddingService] Error generating embedding:', error.message);
-      
-      if (error.status === 401) {
-        throw new Error('Invalid OpenAI API key');
-      } else if (error.status === 429) {
-        throw new Error('OpenAI API rate limit exceeded');
-      } else if (error.status === 500) {
-        throw new Error('OpenAI API service error');
-      }
-      
       throw new Error(`Failed to generate embedding: ${error.message}`);
     }
   }
@@ -69,37 +76,17 @@ export class EmbeddingService {
    * Generate embeddings for multiple texts in batch
    */
   async generateEmbeddingsBatch(texts: string[]): Promise<number[][]> {
-    if (!process.env.OPENAI_API_KEY) {
-      throw new Error('OpenAI API key not configured. Set OPENAI_API_KEY in .env');
-    }
+    const provider = this.requireProvider();
 
     try {
-      // Truncate texts if too long
-      const truncatedTexts = texts.map(text => text.substring(0, 32000));
-
-      console.log(`[EmbeddingService] Generating embeddings for ${texts.length} texts`);
-
-      const response = await this.openai.embeddings.create({
-        model: this.model,
-        input: truncatedTexts,
-        encoding_format: 'float',
-      });
+      console.log(`[EmbeddingService] Generating embeddings for ${texts.length} texts with ${provider.model}`);
 
-      const embeddings = response.data.map(item => item.embedding);
+      const embeddings = await provider.embed(texts);
       console.log(`[EmbeddingService] Generated ${embeddings.length} embeddings`);
 
       return embeddings;
     } catch (error: any) {
       console.error('[EmbeddingService] Error generating embeddings batch:', error.message);
-      
-      if (error.status === 401) {
-        throw new Error('Invalid OpenAI API key');
-      } else if (error.status === 429) {
-        throw new Error('OpenAI API rate limit exceeded');
-      } else if (error.status === 500) {
-        throw new Error('OpenAI API service error');
-      }
-      
       throw new Error(`Failed to generate embeddings: ${error.message}`);
     }
   }
@@ -156,18 +143,19 @@ export class EmbeddingService {
    * Check if the service is configured
    */
   isConfigured(): boolean {
-    return Boolean(process.env.OPENAI_API_KEY);
+    return Boolean(this.provider);
   }
 
   /**
    * Get embedding model info
    */
   getModelInfo() {
+    const provider = this.provider;
     return {
-      model: this.model,
-      dimensions: 1536, // text-embedding-3-small dimensions
-      maxTokens: 8191,
-      costPer1MTokens: 0.02, // $0.02 per 1M tokens
+      provider: provider?.name || null,
+      model: provider?.model || null,
+      dimensions: provider?.dimensions || null,
+      maxInputChars: provider?.maxInputChars || null,
     };
   }
 
@@ -193,6 +181,7 @@ export class EmbeddingService {
         .upsert({
           reference_id: referenceId,
           embedding: embedding,
+          ...this.modelColumns(),
           content_preview: content.substring(0, 500), // Store preview for debugging
           created_at: new Date().toISOString(),
         });
@@ -208,6 +197,75 @@ export class EmbeddingService {
     }
   }
 
+  /**
+   * Replace a reference's chunks, one embedding each
+   * Text references are chunked by page/section; audio and video by transcript time range.
+   */
+  async storeReferenceChunks(referenceId: string, chunks: ChunkInput[]): Promise<number> {
+    return this.replaceChunks('reference_chunks', 'reference_id', referenceId, chunks, chunk => ({
+      start_seconds: chunk.startSeconds ?? null,
+      end_seconds: chunk.endSeconds ?? null,
+    }));
+  }
+
+  /**
+   * Replace a generated document's chunks, one embedding each
+   */
+  async storeDocumentChunks(documentId: string, chunks: ChunkInput[]): Promise<number> {
+    return this.replaceChunks('document_chunks', 'document_id', documentId, chunks);
+  }
+
+  private async replaceChunks(
+    table: 'reference_chunks' | 'document_chunks',
+    ownerColumn: 'reference_id' | 'document_id',
+    ownerId: string,
+    chunks: ChunkInput[],
+    extraColumns: (chunk: ChunkInput) => Record<string, unknown> = () => ({})
+  ): Promise<number> {
+    if (!this.supabase) {
+      console.warn('[EmbeddingService] Supabase client not provided, cannot store chunks');
+      return 0;
+    }
+
+    const { error: deleteError } = await this.supabase
+      .from(table)
+      .delete()
+      .eq(ownerColumn, ownerId);
+
+    if (deleteError) {
+      throw deleteError;
+    }
+
+    const batchSize = 100;
+    for (let i = 0; i < chunks.length; i += batchSize) {
+      const batch = chunks.slice(i, i + batchSize);
+      const embeddings = await this.generateEmbeddingsBatch(batch.map(chunk => chunk.content));
+
+      const { error } = await this.supabase
+        .from(table)
+        .insert(batch.map((chunk, j) => ({
+          [ownerColumn]: ownerId,
+          chunk_index: chunk.index,
+          content: chunk.content,
+          char_start: chunk.charStart ?? null,
+          char_end: chunk.charEnd ?? null,
+          page_start: chunk.pageStart ?? null,
+          page_end: chunk.pageEnd ?? null,
+          section: chunk.section ?? null,
+          ...extraColumns(chunk),
+          embedding: embeddings[j],
+          ...this.modelColumns(),
+        })));
+
+      if (error) {
+        throw error;
+      }
+    }
+
+    console.log(`[EmbeddingService] Stored ${chunks.length} chunks in ${table} for ${ownerId}`);
+    return chunks.length;
+  }
+
   /**
    * Generate and store embedding for a conversation message
    * Used by conversations.ts for automatic embedding generation
@@ -229,7 +287,7 @@ export class EmbeddingService {
         .from('messages')
         .update({
           embedding: embedding,
-          embedding_model: this.model,
+          ...this.modelColumns(),
           embedding_generated_at: new Date().toISOString(),
         })
         .eq('id', messageId);
@@ -418,6 +476,127 @@ export class EmbeddingService {
     }
   }
 
+  /**
+   * Re-chunk references in a project from their stored text
+   * Used by backfillEmbeddings.ts. Without force, only references that have no chunks from
+   * the current embedding model (none yet, or embedded before a provider switch).
+   */
+  async rechunkReferences(projectId: string, options: { force?: boolean } = {}): Promise<number> {
+    if (!this.supabase) {
+      console.warn('[EmbeddingService] Supabase client not provided, cannot chunk references');
+      return 0;
+    }
+
+    const { data: references, error: fetchError } = await this.supabase
+      .from('references')
+      .select('id, metadata')
+      .eq('project_id', projectId);
+
+    if (fetchError) {
+      throw fetchError;
+    }
+
+    const chunked = options.force
+      ? new Set<string>()
+      : await this.idsWithChunks('reference_chunks', 'reference_id', (references || []).map(r => r.id));
+
+    let processedCount = 0;
+    for (const reference of references || []) {
+      if (chunked.has(reference.id)) continue;
+
+      const text = reference.metadata?.extractedContent;
+      const contentType = reference.metadata?.contentType;
+      // Images hold base64 and media without analysis holds a file path
+      if (typeof text !== 'string' || !text.trim() || contentType === 'image') continue;
+      if ((contentType === 'video' || contentType === 'audio') && !reference.metadata?.media) continue;
+
+      const chunks: ChunkInput[] = reference.metadata?.media
+        ? chunkTranscript(parseTranscript(text)).map(chunk => ({
+            index: chunk.index,
+            content: chunk.text,
+            startSeconds: chunk.start,
+            endSeconds: chunk.end,
+          }))
+        : chunkText(text);
+
+      if (chunks.length === 0) continue;
+
+      try {
+        await this.storeReferenceChunks(reference.id, chunks);
+        processedCount++;
+      } catch (err: any) {
+        console.error(`[EmbeddingService] Failed to chunk reference ${reference.id}:`, err.message);
+        // Continue with other references
+      }
+    }
+
+    console.log(`[EmbeddingService] Chunked ${processedCount} references`);
+    return processedCount;
+  }
+
+  /**
+   * Re-chunk generated documents in a project
+   * Used by backfillEmbeddings.ts. Without force, only documents that have no chunks from
+   * the current embedding model.
+   */
+  async rechunkDocuments(projectId: string, options: { force?: boolean } = {}): Promise<number> {
+    if (!this.supabase) {
+      console.warn('[EmbeddingService] Supabase client not provided, cannot chunk documents');
+      return 0;
+    }
+
+    const { data: documents, error: fetchError } = await this.supabase
+      .from('generated_documents')
+      .select('id, content')
+      .eq('project_id', projectId)
+      .not('content', 'is', null);
+
+    if (fetchError) {
+      throw fetchError;
+    }
+
+    const chunked = options.force
+      ? new Set<string>()
+      : await this.idsWithChunks('document_chunks', 'document_id', (documents || []).map(d => d.id));
+
+    let processedCount = 0;
+    for (const document of documents || []) {
+      if (chunked.has(document.id) || !document.content?.trim()) continue;
+
+      try {
+        await this.storeDocumentChunks(document.id, chunkText(document.content));
+        processedCount++;
+      } catch (err: any) {
+        console.error(`[EmbeddingService] Failed to chunk document ${document.id}:`, err.message);
+        // Continue with other documents
+      }
+    }
+
+    console.log(`[EmbeddingService] Chunked ${processedCount} documents`);
+    return processedCount;
+  }
+
+  private async idsWithChunks(
+    table: 'reference_chunks' | 'document_chunks',
+    ownerColumn: 'reference_id' | 'document_id',
+    ids: string[]
+  ): Promise<Set<string>> {
+    if (!this.supabase || ids.length === 0) return new Set();
+
+    const { data, error } = await this.supabase
+      .from(table)
+      .select(ownerColumn)
+      .in(ownerColumn, ids)
+      .eq('chunk_index', 0)
+      .eq('embedding_model', this.requireProvider().model);
+
+    if (error) {
+      throw error;
+    }
+
+    return new Set((data || []).map((row: any) => row[ownerColumn]));
+  }
+
   /**
    * Generate and store embedding for a generated document
    * Used by generatedDocumentsService.ts for automatic embedding generation
@@ -440,6 +619,7 @@ export class EmbeddingService {
         .upsert({
           document_id: documentId,
           embedding: embedding,
+          ...this.modelColumns(),
           content_preview: content.substring(0, 500), // Store preview for debugging
           created_at: new Date().toISOString(),
         });
@@ -449,6 +629,9 @@ export class EmbeddingService {
       }
 
       console.log(`[EmbeddingService] Successfully stored embedding for document ${documentId}`);
+
+      // Passages, so search reaches past the first ~32k characters
+      await this.storeDocumentChunks(documentId, chunkText(content));
     } catch (error: any) {
       console.error(`[EmbeddingService] Failed to generate/store embedding for ${documentId}:`, error.message);
       throw error;
@@ -500,7 +683,4 @@ export class EmbeddingService {
 }
 
 // Singleton instance (without supabase - will be created per-use in routes)
-// Only create if OpenAI API key is configured
-export const embeddingService = process.env.OPENAI_API_KEY
-  ? new EmbeddingService()
-  : null;
+export const embeddingService = new EmbeddingService();
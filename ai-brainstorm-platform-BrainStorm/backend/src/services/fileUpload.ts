@@ -6,45 +6,63 @@ import fs from 'fs/promises';
 import sharp from 'sharp';
 import mammoth from 'mammoth';
 import { PDFExtract } from 'pdf.js-extract';
+import { extractSpreadsheetMarkdown, extractPresentationMarkdown } from './officeExtraction';
+import { pageMarker } from './textChunker';
 
 const MAX_FILE_SIZE = 50 * 1024 * 1024; // 50MB
 
 const ALLOWED_MIME_TYPES = {
   image: ['image/jpeg', 'image/png', 'image/gif', 'image/webp', 'image/bmp'],
   video: ['video/mp4', 'video/quicktime', 'video/x-msvideo', 'video/webm'],
+  audio: ['audio/mpeg', 'audio/mp4', 'audio/x-m4a', 'audio/wav', 'audio/x-wav', 'audio/webm', 'audio/ogg'],
   document: [
     'application/pdf',
     'text/plain',
     'text/markdown',
     'application/msword',
     'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
-    'application/vnd.ms-excel',
     'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
-    'application/vnd.ms-powerpoint',
     'application/vnd.openxmlformats-officedocument.presentationml.presentation',
     'text/csv',
   ],
 };
 
+// Legacy binary Office formats have no reader here; refused with the format to convert to
+const LEGACY_OFFICE_TYPES: Record<string, string> = {
+  'application/vnd.ms-excel': '.xlsx',
+  'application/vnd.ms-powerpoint': '.pptx',
+};
+
+/**
+ * Multer file filter: known media and document types only
+ */
+export function uploadFileFilter(req: any, file: Express.Multer.File, cb: multer.FileFilterCallback): void {
+  const allAllowedTypes = [
+    ...ALLOWED_MIME_TYPES.image,
+    ...ALLOWED_MIME_TYPES.video,
+    ...ALLOWED_MIME_TYPES.audio,
+    ...ALLOWED_MIME_TYPES.document,
+  ];
+
+  if (allAllowedTypes.includes(file.mimetype)) {
+    cb(null, true);
+  } else if (LEGACY_OFFICE_TYPES[file.mimetype]) {
+    cb(new Error(
+      `${file.originalname} is a legacy Office file, which can't be analyzed. ` +
+      `Re-save it as ${LEGACY_OFFICE_TYPES[file.mimetype]} and upload it again.`
+    ));
+  } else {
+    cb(new Error('Invalid file type'));
+  }
+}
+
 // Configure multer for temporary file storage
 export const upload = multer({
   dest: '/tmp/uploads/',
   limits: {
     fileSize: MAX_FILE_SIZE,
   },
-  fileFilter: (req, file, cb) => {
-    const allAllowedTypes = [
-      ...ALLOWED_MIME_TYPES.image,
-      ...ALLOWED_MIME_TYPES.video,
-      ...ALLOWED_MIME_TYPES.document,
-    ];
-
-    if (allAllowedTypes.includes(file.mimetype)) {
-      cb(null, true);
-    } else {
-      cb(new Error('Invalid file type'));
-    }
-  },
+  fileFilter: uploadFileFilter,
 });
 
 export class FileUploadService {
@@ -120,6 +138,21 @@ export class FileUploadService {
     }
   }
 
+  /**
+   * Download a stored file
+   */
+  async downloadFromStorage(filePath: string, bucketName: string = 'references'): Promise<Buffer> {
+    const { data, error } = await supabase.storage
+      .from(bucketName)
+      .download(filePath);
+
+    if (error || !data) {
+      console.error('File download error:', error);
+      throw new Error('Failed to download file');
+    }
+    return Buffer.from(await data.arrayBuffer());
+  }
+
   /**
    * Delete file from storage
    */
@@ -141,9 +174,10 @@ export class FileUploadService {
   /**
    * Get file category from MIME type
    */
-  getFileCategory(mimeType: string): 'image' | 'video' | 'document' | 'unknown' {
+  getFileCategory(mimeType: string): 'image' | 'video' | 'audio' | 'document' | 'unknown' {
     if (ALLOWED_MIME_TYPES.image.includes(mimeType)) return 'image';
     if (ALLOWED_MIME_TYPES.video.includes(mimeType)) return 'video';
+    if (ALLOWED_MIME_TYPES.audio.includes(mimeType)) return 'audio';
     if (ALLOWED_MIME_TYPES.document.includes(mimeType)) return 'document';
     return 'unknown';
   }
@@ -155,6 +189,7 @@ export class FileUploadService {
     const allAllowedTypes = [
       ...ALLOWED_MIME_TYPES.image,
       ...ALLOWED_MIME_TYPES.video,
+      ...ALLOWED_MIME_TYPES.audio,
       ...ALLOWED_MIME_TYPES.document,
     ];
     return allAllowedTypes.includes(mimeType);
@@ -162,11 +197,12 @@ export class FileUploadService {
 
   /**
    * Extract content from uploaded file
-   * Returns extracted text for documents, base64 for images, or file path for videos
+   * Returns extracted text for documents, base64 for images, or file path for videos and audio
+   * (transcription and keyframes happen in background analysis, see MediaAnalysisService)
    */
   async extractContent(
     file: Express.Multer.File
-  ): Promise<{ content: string; contentType: 'text' | 'image' | 'video'; mediaType?: string }> {
+  ): Promise<{ content: string; contentType: 'text' | 'image' | 'video' | 'audio'; mediaType?: string }> {
     const category = this.getFileCategory(file.mimetype);
 
     try {
@@ -184,10 +220,11 @@ export class FileUploadService {
           };
 
         case 'video':
-          // For videos, return path (video analysis would be a future feature)
+        case 'audio':
           return {
             content: file.path,
-            contentType: 'video',
+            contentType: category,
+            mediaType: file.mimetype,
           };
 
         case 'document':
@@ -220,10 +257,12 @@ export class FileUploadService {
         const pdfExtract = new PDFExtract();
         const data = await pdfExtract.extractBuffer(fileBuffer);
 
-        // Combine text from all pages
-        const text = data.pages
-          .map(page => page.content.map(item => item.str).join(' '))
-          .join('\n\n');
+        // Combine text from all pages, marking where each starts so chunks know their page
+        const pages = data.pages
+          .map(page => page.content.map(item => item.str).join(' ').trim());
+        const text = pages.some(Boolean)
+          ? pages.map((pageText, i) => `${pageMarker(i + 1)}\n${pageText}`).join('\n\n')
+          : '';
 
         console.log(`[FileUpload] Extracted ${text.length} characters from PDF`);
         return text || `[PDF Document: ${file.originalname}]\n\nNo extractable text found in this PDF.`;
@@ -262,9 +301,24 @@ export class FileUploadService {
         return text;
       }
 
-      // For other document types (Excel, PowerPoint), return a placeholder
-      console.log(`[FileUpload] Document type ${file.mimetype} not yet supported for text extraction`);
-      return `[Document: ${file.originalname}]\n\nContent extraction for ${file.mimetype} files is not yet implemented. Supported formats: PDF, Word (.docx/.doc), Text, Markdown, CSV.`;
+      // Spreadsheets: one markdown table per sheet
+      if (file.mimetype === 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet') {
+        console.log(`[FileUpload] Extracting sheets from spreadsheet: ${file.originalname}`);
+        const text = await extractSpreadsheetMarkdown(fileBuffer);
+        console.log(`[FileUpload] Extracted ${text.length} characters from spreadsheet`);
+        return text || `[Spreadsheet: ${file.originalname}]\n\nNo data found in this spreadsheet.`;
+      }
+
+      // Slide decks: slide text and speaker notes in presentation order
+      if (file.mimetype === 'application/vnd.openxmlformats-officedocument.presentationml.presentation') {
+        console.log(`[FileUpload] Extracting slides from presentation: ${file.originalname}`);
+        const text = await extractPresentationMarkdown(fileBuffer);
+        console.log(`[FileUpload] Extracted ${text.length} characters from presentation`);
+        return text || `[Presentation: ${file.originalname}]\n\nNo extractable text found in this presentation.`;
+      }
+
+      console.log(`[FileUpload] Document type ${file.mimetype} not supported for text extraction`);
+      return `[Document: ${file.originalname}]\n\nContent extraction for ${file.mimetype} files is not supported.`;
     } catch (error) {
       console.error(`[FileUpload] Text extraction error for ${file.originalname}:`, error);
       return `[Document: ${file.originalname}]\n\nError extracting text from this document. The file has been uploaded successfully but content analysis may be limited.`;
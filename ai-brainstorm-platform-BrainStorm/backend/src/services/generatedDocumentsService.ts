@@ -1,11 +1,10 @@
 import { SupabaseClient } from '@supabase/supabase-js';
-import Anthropic from '@anthropic-ai/sdk';
+import { completeWithUsage } from '../agents/base';
 import { EmbeddingService } from './embeddingService';
 import { phase3Config } from '../config/phase3.config';
-
-const anthropic = new Anthropic({
-  apiKey: process.env.ANTHROPIC_API_KEY!,
-});
+import { realtimeService } from './realtimeService';
+import { claimVerificationService } from './claimVerification';
+import { ArchivedSourceLink } from './pageArchive';
 
 export interface GeneratedDocument {
   id: string;
@@ -208,9 +207,10 @@ export class GeneratedDocumentsService {
     const prompt = this.getPromptForDocumentType(documentType, context);
 
     // Call Claude API to generate the document
-    const message = await anthropic.messages.create({
+    const message = await completeWithUsage({
       model: 'claude-sonnet-4-20250514',
-      max_tokens: 4000,
+      maxTokens: 4000,
+      agentName: 'GeneratedDocumentsService',
       messages: [
         {
           role: 'user',
@@ -219,7 +219,7 @@ export class GeneratedDocumentsService {
       ],
     });
 
-    const content = message.content[0].type === 'text' ? message.content[0].text : '';
+    const content = message.text;
     const title = this.getTitleForDocumentType(documentType, context.project.title);
 
     // Upsert the document (insert or update if exists)
@@ -255,6 +255,8 @@ export class GeneratedDocumentsService {
         });
     }
 
+    this.publishDocumentChange(data, 'generated');
+    this.verifyInBackground(data);
     return data;
   }
 
@@ -592,14 +594,17 @@ Write this as a professional risk assessment that helps stakeholders make inform
    * Delete a generated document
    */
   async delete(documentId: string): Promise<void> {
-    const { error } = await this.supabase
+    const { data, error } = await this.supabase
       .from('generated_documents')
       .delete()
-      .eq('id', documentId);
+      .eq('id', documentId)
+      .select();
 
     if (error) {
       throw new Error(`Failed to delete generated document: ${error.message}`);
     }
+
+    (data || []).forEach((document: GeneratedDocument) => this.publishDocumentChange(document, 'deleted'));
   }
 
   // ============================================
@@ -744,6 +749,7 @@ Write this as a professional risk assessment that helps stakeholders make inform
 
     // Optionally add a note in the version history about the rollback
     await this.addChangeNote(documentId, data.version, `Rolled back to version ${versionNumber}`, userId);
+    this.publishDocumentChange(data, 'updated');
 
     return data;
   }
@@ -776,13 +782,14 @@ ${diff.to_content.substring(0, 500)}...
 
 Provide a brief, professional summary of what changed and why it might matter.`;
 
-    const message = await anthropic.messages.create({
+    const message = await completeWithUsage({
       model: 'claude-sonnet-4-20250514',
-      max_tokens: 300,
+      maxTokens: 300,
+      agentName: 'GeneratedDocumentsService',
       messages: [{ role: 'user', content: prompt }],
     });
 
-    const summary = message.content[0].type === 'text' ? message.content[0].text : '';
+    const summary = message.text;
 
     // Store the summary in the version
     await this.supabase
@@ -884,13 +891,14 @@ Format as JSON array:
   }
 ]`;
 
-    const message = await anthropic.messages.create({
+    const message = await completeWithUsage({
       model: 'claude-sonnet-4-20250514',
-      max_tokens: 1000,
+      maxTokens: 1000,
+      agentName: 'GeneratedDocumentsService',
       messages: [{ role: 'user', content: prompt }],
     });
 
-    const content = message.content[0].type === 'text' ? message.content[0].text : '';
+    const content = message.text;
 
     // Extract JSON from response
     const jsonMatch = content.match(/\[[\s\S]*\]/);
@@ -1003,9 +1011,10 @@ Format as JSON array:
     const prompt = this.getPromptForDocumentTypeWithResearch(documentType, context);
 
     // Call Claude API to generate the document
-    const message = await anthropic.messages.create({
+    const message = await completeWithUsage({
       model: 'claude-sonnet-4-20250514',
-      max_tokens: 4000,
+      maxTokens: 4000,
+      agentName: 'GeneratedDocumentsService',
       messages: [
         {
           role: 'user',
@@ -1014,7 +1023,7 @@ Format as JSON array:
       ],
     });
 
-    const content = message.content[0].type === 'text' ? message.content[0].text : '';
+    const content = message.text;
     const title = this.getTitleForDocumentType(documentType, context.project.title);
 
     // Upsert the document
@@ -1030,6 +1039,7 @@ Format as JSON array:
             generated_from_research: true,
             research_query_id: researchQueryId,
             research_query: researchQuery.query,
+            archived_sources: this.getArchivedSources(researchQuery),
             generated_by: userId,
             generated_at: new Date().toISOString(),
           },
@@ -1046,6 +1056,7 @@ Format as JSON array:
     }
 
     console.log(`[GeneratedDocs] Generated ${documentType} from research query ${researchQueryId}`);
+    this.publishDocumentChange(data, 'generated');
 
     // Generate embedding for the research-generated document (Phase 3.3)
     if (data && data.content && data.content.trim().length > 0) {
@@ -1059,9 +1070,25 @@ Format as JSON array:
         });
     }
 
+    this.verifyInBackground(data);
     return data;
   }
 
+  /**
+   * Archived copies of the web pages a research query cited
+   */
+  private getArchivedSources(researchQuery: any): ArchivedSourceLink[] {
+    const sources: any[] = [
+      ...(researchQuery.metadata?.sources || []),
+      ...(researchQuery.metadata?.webSources || []),
+    ];
+    const links = new Map<string, ArchivedSourceLink>();
+    sources.forEach(source => {
+      if (source?.archive?.archiveId) links.set(source.archive.archiveId, source.archive);
+    });
+    return [...links.values()];
+  }
+
   /**
    * Get prompt for document type with research context integration
    */
@@ -1173,13 +1200,14 @@ Format as JSON:
   "suggestions": ["Add glossary", "Include timeline", "Add more data visualizations"]
 }`;
 
-    const message = await anthropic.messages.create({
+    const message = await completeWithUsage({
       model: 'claude-sonnet-4-20250514',
-      max_tokens: 800,
+      maxTokens: 800,
+      agentName: 'GeneratedDocumentsService',
       messages: [{ role: 'user', content: prompt }],
     });
 
-    const content = message.content[0].type === 'text' ? message.content[0].text : '';
+    const content = message.text;
     const jsonMatch = content.match(/\{[\s\S]*\}/);
 
     if (!jsonMatch) {
@@ -1324,13 +1352,14 @@ Format as JSON:
     const prompt = this.getPromptForDocumentType(document.document_type, baseContext);
 
     // Call Claude API to regenerate
-    const message = await anthropic.messages.create({
+    const message = await completeWithUsage({
       model: 'claude-sonnet-4-20250514',
-      max_tokens: 4000,
+      maxTokens: 4000,
+      agentName: 'GeneratedDocumentsService',
       messages: [{ role: 'user', content: prompt }],
     });
 
-    const newContent = message.content[0].type === 'text' ? message.content[0].text : '';
+    const newContent = message.text;
 
     // Calculate what changed
     const changes = await this.identifyChanges(previousContent, newContent);
@@ -1375,6 +1404,8 @@ Format as JSON:
       created_at: document.updated_at,
     }]);
 
+    this.publishDocumentChange(updated, 'updated');
+
     return {
       document: updated,
       changes,
@@ -1382,6 +1413,36 @@ Format as JSON:
     };
   }
 
+  /**
+   * Check the document's claims against decisions, messages and references
+   * Runs after the document is saved; viewers pick up the labels on 'updated'.
+   */
+  private verifyInBackground(document: GeneratedDocument): void {
+    if (!document?.content?.trim()) return;
+
+    claimVerificationService.verifyDocument(document.id)
+      .then(() => this.publishDocumentChange(document, 'updated'))
+      .catch((err: any) => {
+        console.error(`[GeneratedDocs] ⚠️ Claim verification failed for ${document.document_type}:`, err);
+      });
+  }
+
+  /**
+   * Notify collaborators with the project open that a document changed
+   */
+  private publishDocumentChange(document: GeneratedDocument, change: 'generated' | 'updated' | 'deleted'): void {
+    realtimeService.publish(document.project_id, 'document', {
+      change,
+      document: {
+        id: document.id,
+        document_type: document.document_type,
+        title: document.title,
+        version: document.version,
+        updated_at: document.updated_at,
+      },
+    });
+  }
+
   /**
    * Identify changes between two document versions
    * Phase 3.1: Re-examination System
@@ -1402,13 +1463,14 @@ Return as a JSON array of strings, max 5 changes.
 Example: ["Added technical requirements section", "Updated timeline from Q2 to Q3", "Removed vendor comparison table"]`;
 
     try {
-      const message = await anthropic.messages.create({
+      const message = await completeWithUsage({
         model: 'claude-sonnet-4-20250514',
-        max_tokens: 500,
+        maxTokens: 500,
+        agentName: 'GeneratedDocumentsService',
         messages: [{ role: 'user', content: prompt }],
       });
 
-      const responseText = message.content[0].type === 'text' ? message.content[0].text : '[]';
+      const responseText = message.text || '[]';
       const changesMatch = responseText.match(/\[[\s\S]*?\]/);
       if (changesMatch) {
         return JSON.parse(changesMatch[0]);
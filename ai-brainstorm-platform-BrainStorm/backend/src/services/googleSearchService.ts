@@ -13,9 +13,9 @@ export class GoogleSearchService {
   private searchEngineId: string;
   private circuitBreaker: CircuitBreaker;
 
-  constructor() {
-    this.apiKey = process.env.GOOGLE_SEARCH_API_KEY || '';
-    this.searchEngineId = process.env.GOOGLE_SEARCH_ENGINE_ID || '';
+  constructor(apiKey?: string, searchEngineId?: string) {
+    this.apiKey = apiKey ?? process.env.GOOGLE_SEARCH_API_KEY ?? '';
+    this.searchEngineId = searchEngineId ?? process.env.GOOGLE_SEARCH_ENGINE_ID ?? '';
 
     if (!this.apiKey || !this.searchEngineId) {
       console.warn('[GoogleSearchService] API key or Search Engine ID not configured');
@@ -0,0 +1,495 @@
+import { supabase } from './supabase';
+import { EmbeddingService } from './embeddingService';
+import { describeChunkLocation } from './textChunker';
+
+/**
+ * Hybrid keyword + vector search
+ *
+ * Pure vector search misses exact terms (product codes, names, ticket ids)
+ * and does nothing when embeddings are off; pure keyword search misses
+ * paraphrases. HybridSearchService asks the database for the top full-text and
+ * pgvector matches (whole items and their embedded chunks, migration 034) and
+ * fuses the two into one score. hybridRank does the same in memory with BM25
+ * for small candidate sets. Vectors from a different embedding model than the
+ * query's are ignored rather than compared.
+ */
+
+export type SearchSourceType = 'project' | 'reference' | 'document' | 'generated_document' | 'message';
+
+export const SEARCH_SOURCE_TYPES: SearchSourceType[] = ['project', 'reference', 'document', 'generated_document', 'message'];
+
+export interface HybridDocument {
+  id: string;
+  text: string;
+  embedding?: number[] | null;
+}
+
+export interface HybridScore {
+  id: string;
+  /** Fused score, 0-1 */
+  score: number;
+  /** BM25 relative to the best keyword match, 0-1 */
+  keywordScore: number;
+  /** Cosine similarity, or null when the candidate has no comparable vector */
+  vectorScore: number | null;
+}
+
+export interface HybridRankOptions {
+  /** Weight of vector similarity against keyword score (default 0.5) */
+  vectorWeight?: number;
+  /** Candidates with no keyword match need at least this similarity (default 0.3) */
+  minVectorScore?: number;
+}
+
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+const DEFAULT_VECTOR_WEIGHT = 0.5;
+const DEFAULT_MIN_VECTOR_SCORE = 0.3;
+
+/**
+ * Lowercased terms; hyphenated/dotted codes ("SKU-1042", "v2.1") are kept whole
+ * and also split into their parts
+ */
+export function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+  for (const match of text.toLowerCase().matchAll(/[\p{L}\p{N}]+(?:[-_./][\p{L}\p{N}]+)*/gu)) {
+    const term = match[0];
+    tokens.push(term);
+    if (/[-_./]/.test(term)) {
+      tokens.push(...term.split(/[-_./]/).filter(Boolean));
+    }
+  }
+  return tokens;
+}
+
+/**
+ * Okapi BM25 over a fixed set of documents
+ */
+export class Bm25Index {
+  private termFrequencies: Array<Map<string, number>>;
+  private lengths: number[];
+  private documentFrequency = new Map<string, number>();
+  private averageLength: number;
+
+  constructor(texts: string[]) {
+    this.termFrequencies = texts.map(text => {
+      const frequencies = new Map<string, number>();
+      for (const token of tokenize(text)) {
+        frequencies.set(token, (frequencies.get(token) || 0) + 1);
+      }
+      return frequencies;
+    });
+    this.lengths = this.termFrequencies.map(frequencies =>
+      [...frequencies.values()].reduce((sum, count) => sum + count, 0));
+    this.averageLength = this.lengths.reduce((sum, length) => sum + length, 0) / Math.max(texts.length, 1);
+
+    for (const frequencies of this.termFrequencies) {
+      for (const term of frequencies.keys()) {
+        this.documentFrequency.set(term, (this.documentFrequency.get(term) || 0) + 1);
+      }
+    }
+  }
+
+  /**
+   * BM25 score of every document for the query, in document order
+   */
+  score(query: string): number[] {
+    const terms = [...new Set(tokenize(query))];
+    const total = this.termFrequencies.length;
+
+    return this.termFrequencies.map((frequencies, i) => {
+      let score = 0;
+      for (const term of terms) {
+        const frequency = frequencies.get(term);
+        if (!frequency) continue;
+        const documents = this.documentFrequency.get(term) || 0;
+        const idf = Math.log(1 + (total - documents + 0.5) / (documents + 0.5));
+        const lengthNorm = 1 - BM25_B + BM25_B * (this.lengths[i] / (this.averageLength || 1));
+        score += idf * (frequency * (BM25_K1 + 1)) / (frequency + BM25_K1 * lengthNorm);
+      }
+      return score;
+    });
+  }
+}
+
+/**
+ * Vector column value as numbers (pgvector comes back from PostgREST as "[0.1,...]")
+ */
+export function parseEmbedding(value: unknown): number[] | null {
+  if (Array.isArray(value)) return value as number[];
+  if (typeof value === 'string' && value.startsWith('[')) {
+    try {
+      return JSON.parse(value);
+    } catch {
+      return null;
+    }
+  }
+  return null;
+}
+
+function cosine(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA === 0 || normB === 0 ? 0 : dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+/**
+ * Rank documents by fused keyword and vector score, best first
+ * Documents matching neither way are dropped. Without a query embedding the
+ * ranking is keyword-only.
+ */
+export function hybridRank(
+  query: string,
+  queryEmbedding: number[] | null,
+  documents: HybridDocument[],
+  options: HybridRankOptions = {}
+): HybridScore[] {
+  const minVectorScore = options.minVectorScore ?? DEFAULT_MIN_VECTOR_SCORE;
+  const vectorWeight = queryEmbedding ? options.vectorWeight ?? DEFAULT_VECTOR_WEIGHT : 0;
+
+  const bm25 = new Bm25Index(documents.map(document => document.text)).score(query);
+  const bestKeyword = Math.max(0, ...bm25);
+
+  const scored: HybridScore[] = [];
+  documents.forEach((document, i) => {
+    const keywordScore = bestKeyword > 0 ? bm25[i] / bestKeyword : 0;
+    const vectorScore = queryEmbedding && document.embedding && document.embedding.length === queryEmbedding.length
+      ? cosine(queryEmbedding, document.embedding)
+      : null;
+
+    if (keywordScore === 0 && (vectorScore === null || vectorScore < minVectorScore)) return;
+
+    scored.push({
+      id: document.id,
+      score: (1 - vectorWeight) * keywordScore + vectorWeight * Math.max(0, vectorScore ?? 0),
+      keywordScore,
+      vectorScore,
+    });
+  });
+
+  return scored.sort((a, b) => b.score - a.score);
+}
+
+export interface SearchPassage {
+  chunkIndex: number;
+  content: string;
+  location: string | null;
+  pageStart: number | null;
+  pageEnd: number | null;
+  section: string | null;
+  /** Offsets into the source's extracted text */
+  charStart: number | null;
+  charEnd: number | null;
+  startSeconds: number | null;
+  endSeconds: number | null;
+}
+
+export interface HybridSearchResult {
+  id: string;
+  type: SearchSourceType;
+  projectId: string;
+  title: string;
+  /** Best matching passage, or the start of the item */
+  snippet: string;
+  date: string;
+  score: number;
+  keywordScore: number;
+  vectorScore: number | null;
+  passage: SearchPassage | null;
+  /** Best matching passages, most relevant first */
+  passages: SearchPassage[];
+  /** The full row the result came from */
+  record: any;
+}
+
+export interface HybridSearchOptions extends HybridRankOptions {
+  types?: SearchSourceType[];
+  limit?: number;
+  /** Embedding of the query when the caller already has it (null: keyword only) */
+  queryEmbedding?: number[] | null;
+}
+
+/**
+ * One keyword or vector match from hybrid_search_matches (migration 034)
+ */
+interface MatchRow {
+  source_type: SearchSourceType;
+  item_id: string;
+  chunk_index: number | null;
+  keyword_rank: number | null;
+  vector_similarity: number | null;
+}
+
+interface RankedItem {
+  type: SearchSourceType;
+  itemId: string;
+  score: number;
+  keywordScore: number;
+  vectorScore: number | null;
+  /** Matching chunks, best first (null for a whole-item match) */
+  chunks: Array<number | null>;
+}
+
+// Keyword and vector matches fetched per kind of text, relative to the result limit
+const MATCHES_PER_RESULT = 3;
+const MIN_MATCHES = 30;
+const SNIPPET_LENGTH = 300;
+const PASSAGES_PER_RESULT = 3;
+
+const CHUNK_TABLES: Partial<Record<SearchSourceType, { table: string; ownerColumn: string }>> = {
+  reference: { table: 'reference_chunks', ownerColumn: 'reference_id' },
+  generated_document: { table: 'document_chunks', ownerColumn: 'document_id' },
+};
+
+const CHUNK_COLUMNS = 'chunk_index, content, char_start, char_end, page_start, page_end, section, start_seconds, end_seconds';
+
+function chunkPassage(chunk: any): SearchPassage {
+  return {
+    chunkIndex: chunk.chunk_index,
+    content: chunk.content,
+    location: describeChunkLocation({
+      pageStart: chunk.page_start ?? null,
+      pageEnd: chunk.page_end ?? null,
+      section: chunk.section ?? null,
+    }),
+    pageStart: chunk.page_start ?? null,
+    pageEnd: chunk.page_end ?? null,
+    section: chunk.section ?? null,
+    charStart: chunk.char_start ?? null,
+    charEnd: chunk.char_end ?? null,
+    startSeconds: chunk.start_seconds ?? null,
+    endSeconds: chunk.end_seconds ?? null,
+  };
+}
+
+function referenceText(reference: any): string {
+  const metadata = reference.metadata || {};
+  // Images hold base64 and unanalyzed media a file path
+  const extracted = metadata.contentType === 'image' || ((metadata.contentType === 'video' || metadata.contentType === 'audio') && !metadata.media)
+    ? ''
+    : metadata.extractedContent || '';
+  return [reference.filename, metadata.description, metadata.analysis, extracted].filter(Boolean).join('\n');
+}
+
+/**
+ * Title, date, project and text of a search result's row
+ */
+function describeItem(type: SearchSourceType, record: any): { title: string; date: string; projectId: string; text: string } {
+  switch (type) {
+    case 'project':
+      return { title: record.title, date: record.updated_at, projectId: record.id, text: [record.title, record.description].filter(Boolean).join('\n') };
+    case 'reference':
+      return { title: record.filename || record.url || 'Untitled reference', date: record.created_at, projectId: record.project_id, text: referenceText(record) };
+    case 'generated_document':
+      return {
+        title: record.title || record.document_type,
+        date: record.updated_at || record.created_at,
+        projectId: record.project_id,
+        text: [record.title, record.content].filter(Boolean).join('\n'),
+      };
+    case 'document': {
+      const extracted = record.metadata?.contentType === 'text' ? record.metadata?.extractedContent : '';
+      return { title: record.filename, date: record.created_at, projectId: record.project_id, text: [record.filename, record.description, extracted].filter(Boolean).join('\n') };
+    }
+    case 'message':
+      return {
+        title: `${record.role === 'user' ? 'You' : 'Assistant'}${record.agent_type ? ` (${record.agent_type})` : ''}`,
+        date: record.created_at,
+        projectId: record.project_id,
+        text: record.content || '',
+      };
+  }
+}
+
+/**
+ * Fuse keyword and vector matches into one score per item, best first
+ * Keyword ranks are scaled to the best one; a text matching neither way well
+ * enough is dropped. Each item keeps its matching chunks in score order.
+ */
+function fuseMatches(rows: MatchRow[], hasQueryEmbedding: boolean, options: HybridRankOptions = {}): RankedItem[] {
+  const minVectorScore = options.minVectorScore ?? DEFAULT_MIN_VECTOR_SCORE;
+  const vectorWeight = hasQueryEmbedding ? options.vectorWeight ?? DEFAULT_VECTOR_WEIGHT : 0;
+
+  // The same text can come back from both the keyword and the vector search
+  const texts = new Map<string, { row: MatchRow; keywordRank: number; vectorScore: number | null }>();
+  for (const row of rows) {
+    const key = `${row.source_type}:${row.item_id}:${row.chunk_index ?? ''}`;
+    const text = texts.get(key) || { row, keywordRank: 0, vectorScore: null };
+    text.keywordRank = Math.max(text.keywordRank, row.keyword_rank ?? 0);
+    if (row.vector_similarity !== null && row.vector_similarity !== undefined) {
+      text.vectorScore = Math.max(text.vectorScore ?? -1, row.vector_similarity);
+    }
+    texts.set(key, text);
+  }
+
+  const bestKeyword = Math.max(0, ...[...texts.values()].map(text => text.keywordRank));
+  const scored = [...texts.values()]
+    .map(text => {
+      const keywordScore = bestKeyword > 0 ? text.keywordRank / bestKeyword : 0;
+      return {
+        row: text.row,
+        keywordScore,
+        vectorScore: text.vectorScore,
+        score: (1 - vectorWeight) * keywordScore + vectorWeight * Math.max(0, text.vectorScore ?? 0),
+      };
+    })
+    .filter(text => text.keywordScore > 0 || (text.vectorScore !== null && text.vectorScore >= minVectorScore))
+    .sort((a, b) => b.score - a.score);
+
+  const items = new Map<string, RankedItem>();
+  for (const text of scored) {
+    const key = `${text.row.source_type}:${text.row.item_id}`;
+    const item = items.get(key);
+    if (!item) {
+      items.set(key, {
+        type: text.row.source_type,
+        itemId: text.row.item_id,
+        score: text.score,
+        keywordScore: text.keywordScore,
+        vectorScore: text.vectorScore,
+        chunks: [text.row.chunk_index],
+      });
+    } else {
+      item.chunks.push(text.row.chunk_index);
+    }
+  }
+  return [...items.values()];
+}
+
+export class HybridSearchService {
+  constructor(private embeddingService: EmbeddingService = new EmbeddingService(supabase)) {}
+
+  /**
+   * Search projects' references, documents, generated documents, messages and project titles
+   * Ranking runs in the database (full-text + pgvector, see migration 034); only
+   * the top matches and the rows of the returned items are read. One result per
+   * item, with the passages that matched best.
+   */
+  async search(projectIds: string[], query: string, options: HybridSearchOptions = {}): Promise<HybridSearchResult[]> {
+    const types = options.types || SEARCH_SOURCE_TYPES;
+    const limit = options.limit ?? 20;
+    if (projectIds.length === 0 || !query.trim()) return [];
+
+    const queryEmbedding = options.queryEmbedding !== undefined
+      ? options.queryEmbedding
+      : await this.embedQuery(query);
+
+    const { data, error } = await supabase.rpc('hybrid_search_matches', {
+      project_ids: projectIds,
+      query_terms: [...new Set(tokenize(query))],
+      query_embedding: queryEmbedding,
+      source_types: types,
+      match_count: Math.max(limit * MATCHES_PER_RESULT, MIN_MATCHES),
+    });
+    if (error) throw error;
+
+    const ranked = fuseMatches((data || []) as MatchRow[], !!queryEmbedding, options).slice(0, limit);
+    console.log(`[HybridSearch] ${data?.length || 0} matches, ${ranked.length} results for "${query}" (${queryEmbedding ? 'hybrid' : 'keyword only'})`);
+
+    const [records, passages] = await Promise.all([this.loadRecords(ranked), this.loadPassages(ranked)]);
+
+    return ranked.flatMap(item => {
+      const record = records.get(`${item.type}:${item.itemId}`);
+      if (!record) return [];
+
+      const { title, date, projectId, text } = describeItem(item.type, record);
+      const itemPassages = item.chunks
+        .filter((chunk): chunk is number => chunk !== null)
+        .map(chunk => passages.get(`${item.type}:${item.itemId}:${chunk}`))
+        .filter((passage): passage is SearchPassage => !!passage)
+        .slice(0, PASSAGES_PER_RESULT);
+      // Ranked below the whole item or not, the best chunk is the place to point at
+      const passage = itemPassages[0] || null;
+
+      return [{
+        id: item.itemId,
+        type: item.type,
+        projectId,
+        title,
+        snippet: (passage?.content || text).substring(0, SNIPPET_LENGTH),
+        date,
+        score: item.score,
+        keywordScore: item.keywordScore,
+        vectorScore: item.vectorScore,
+        passage,
+        passages: itemPassages,
+        record,
+      }];
+    });
+  }
+
+  private async embedQuery(query: string): Promise<number[] | null> {
+    if (!this.embeddingService.isConfigured()) return null;
+    try {
+      return await this.embeddingService.generateEmbedding(query);
+    } catch (error) {
+      // Keyword ranking still works without the vector half
+      console.error('[HybridSearch] Query embedding failed, ranking by keywords only:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Rows of the ranked items, keyed by type:id
+   */
+  private async loadRecords(items: RankedItem[]): Promise<Map<string, any>> {
+    const tables: Record<SearchSourceType, { table: string; columns: string }> = {
+      project: { table: 'projects', columns: 'id, title, description, status, updated_at' },
+      reference: { table: 'references', columns: '*' },
+      document: { table: 'documents', columns: '*' },
+      generated_document: { table: 'generated_documents', columns: '*' },
+      message: { table: 'messages', columns: 'id, project_id, content, role, agent_type, created_at' },
+    };
+
+    const records = new Map<string, any>();
+    await Promise.all(SEARCH_SOURCE_TYPES.map(async type => {
+      const ids = items.filter(item => item.type === type).map(item => item.itemId);
+      if (ids.length === 0) return;
+
+      const { data, error } = await supabase.from(tables[type].table).select(tables[type].columns).in('id', ids);
+      if (error) throw error;
+      (data || []).forEach((row: any) => records.set(`${type}:${row.id}`, row));
+    }));
+    return records;
+  }
+
+  /**
+   * Matched chunks of the ranked items, keyed by type:id:chunkIndex
+   */
+  private async loadPassages(items: RankedItem[]): Promise<Map<string, SearchPassage>> {
+    const passages = new Map<string, SearchPassage>();
+    await Promise.all(Object.entries(CHUNK_TABLES).map(async ([type, source]) => {
+      const wanted = new Set<string>();
+      items
+        .filter(item => item.type === type)
+        .forEach(item => item.chunks
+          .filter(chunk => chunk !== null)
+          .slice(0, PASSAGES_PER_RESULT)
+          .forEach(chunk => wanted.add(`${item.itemId}:${chunk}`)));
+      if (wanted.size === 0) return;
+
+      const ownerIds = [...new Set([...wanted].map(key => key.split(':')[0]))];
+      const chunkIndexes = [...new Set([...wanted].map(key => Number(key.split(':')[1])))];
+      const { data, error } = await supabase
+        .from(source!.table)
+        .select(`${source!.ownerColumn}, ${CHUNK_COLUMNS}`)
+        .in(source!.ownerColumn, ownerIds)
+        .in('chunk_index', chunkIndexes);
+      if (error) throw error;
+
+      for (const chunk of (data || []) as any[]) {
+        const key = `${chunk[source!.ownerColumn]}:${chunk.chunk_index}`;
+        if (wanted.has(key)) passages.set(`${type}:${key}`, chunkPassage(chunk));
+      }
+    }));
+    return passages;
+  }
+}
+
+export const hybridSearchService = new HybridSearchService();
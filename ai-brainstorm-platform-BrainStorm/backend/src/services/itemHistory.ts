@@ -0,0 +1,372 @@
+import { supabase } from './supabase';
+import { attributeItemChanges, getRawProjectItems, itemContentFingerprint } from '../utils/projectHelpers';
+
+/**
+ * ItemHistoryService - Append-only event log of project item changes
+ *
+ * Every write to a project's items array is diffed into events: an item was
+ * created, moved to another state, edited, or deleted. Each event keeps the
+ * item before and after, who made the change (a member or an agent) and the
+ * chat message that caused it. Canvas layout (position, cluster) is not
+ * history and is ignored.
+ *
+ * Events are never updated. Undoing one applies the inverse change and logs
+ * it as a new event pointing back with undo_of, so undoing an undo is a redo.
+ * The board at any past moment is rebuilt by rolling the current items back
+ * through the events recorded after it.
+ */
+
+export type ItemEventType = 'created' | 'moved' | 'edited' | 'deleted';
+
+export type ItemActorType = 'user' | 'agent';
+
+export interface ItemActor {
+  type: ItemActorType;
+  /** User id for members, agent name for agents */
+  id: string;
+}
+
+export interface ItemChangeOptions {
+  actor: ItemActor;
+  /** Member on whose behalf the change was made (the sender of the source message for agents) */
+  userId?: string | null;
+  sourceMessageId?: string | null;
+  traceId?: string | null;
+  undoOf?: string | null;
+}
+
+export interface ItemEvent {
+  id: string;
+  projectId: string;
+  itemId: string;
+  type: ItemEventType;
+  fromState: string | null;
+  toState: string | null;
+  before: any | null;
+  after: any | null;
+  actorType: ItemActorType;
+  actorId: string;
+  userId: string | null;
+  sourceMessageId: string | null;
+  traceId: string | null;
+  undoOf: string | null;
+  /** Id of the event that undid this one, if any */
+  undoneBy?: string | null;
+  createdAt: string;
+}
+
+export interface ItemBoardSnapshot {
+  at: string;
+  items: any[];
+  counts: Record<'decided' | 'exploring' | 'parked' | 'rejected', number>;
+  /** Events rolled back to reach this point */
+  eventsReverted: number;
+}
+
+export interface UndoResult {
+  previousItems: any[];
+  items: any[];
+  events: ItemEvent[];
+}
+
+export class ItemHistoryError extends Error {
+  constructor(message: string, public status: 400 | 404 | 409 = 400) {
+    super(message);
+    this.name = 'ItemHistoryError';
+  }
+}
+
+const PAGE_SIZE = 1000;
+
+/**
+ * Turn an item-array replacement into per-item events
+ * A change of state is a move even when the text changed with it.
+ */
+export function diffItemEvents(
+  previousItems: any[],
+  nextItems: any[]
+): Array<Pick<ItemEvent, 'itemId' | 'type' | 'before' | 'after'>> {
+  const previousById = new Map(previousItems.map(item => [item.id, item]));
+  const nextIds = new Set(nextItems.map(item => item.id));
+  const events: Array<Pick<ItemEvent, 'itemId' | 'type' | 'before' | 'after'>> = [];
+
+  for (const item of nextItems) {
+    const previous = previousById.get(item.id);
+    if (!previous) {
+      events.push({ itemId: item.id, type: 'created', before: null, after: item });
+    } else if (previous.state !== item.state) {
+      events.push({ itemId: item.id, type: 'moved', before: previous, after: item });
+    } else if (itemContentFingerprint(previous) !== itemContentFingerprint(item)) {
+      events.push({ itemId: item.id, type: 'edited', before: previous, after: item });
+    }
+  }
+
+  for (const item of previousItems) {
+    if (!nextIds.has(item.id)) {
+      events.push({ itemId: item.id, type: 'deleted', before: item, after: null });
+    }
+  }
+
+  return events;
+}
+
+/**
+ * Apply the inverse of an event to an items array
+ * Layout of items that still exist is kept; only content is rolled back.
+ */
+export function revertItemEvent(items: any[], event: Pick<ItemEvent, 'itemId' | 'type' | 'before'>): any[] {
+  switch (event.type) {
+    case 'created':
+      return items.filter(item => item.id !== event.itemId);
+    case 'deleted':
+      return items.some(item => item.id === event.itemId) ? items : [...items, event.before];
+    default: {
+      const exists = items.some(item => item.id === event.itemId);
+      if (!exists) {
+        return [...items, event.before];
+      }
+      return items.map(item =>
+        item.id === event.itemId
+          ? { ...event.before, position: item.position, clusterId: item.clusterId }
+          : item
+      );
+    }
+  }
+}
+
+function fromRow(row: any): ItemEvent {
+  return {
+    id: row.id,
+    projectId: row.project_id,
+    itemId: row.item_id,
+    type: row.event_type,
+    fromState: row.from_state,
+    toState: row.to_state,
+    before: row.before,
+    after: row.after,
+    actorType: row.actor_type,
+    actorId: row.actor_id,
+    userId: row.user_id,
+    sourceMessageId: row.source_message_id,
+    traceId: row.trace_id,
+    undoOf: row.undo_of,
+    createdAt: row.created_at,
+  };
+}
+
+function countByState(items: any[]): ItemBoardSnapshot['counts'] {
+  const counts = { decided: 0, exploring: 0, parked: 0, rejected: 0 };
+  for (const item of items) {
+    if (Object.prototype.hasOwnProperty.call(counts, item.state)) {
+      counts[item.state as keyof typeof counts]++;
+    }
+  }
+  return counts;
+}
+
+export class ItemHistoryService {
+  /**
+   * Log the difference between two versions of a project's items
+   * Never throws - a failed log write must not fail the change itself.
+   */
+  async recordChanges(
+    projectId: string,
+    previousItems: any[],
+    nextItems: any[],
+    options: ItemChangeOptions
+  ): Promise<ItemEvent[]> {
+    const changes = diffItemEvents(previousItems, nextItems);
+    if (changes.length === 0) return [];
+
+    const rows = changes.map(change => ({
+      project_id: projectId,
+      item_id: change.itemId,
+      event_type: change.type,
+      from_state: change.before?.state ?? null,
+      to_state: change.after?.state ?? null,
+      before: change.before,
+      after: change.after,
+      actor_type: options.actor.type,
+      actor_id: options.actor.id,
+      user_id: options.userId ?? (options.actor.type === 'user' ? options.actor.id : null),
+      source_message_id: options.sourceMessageId ?? null,
+      trace_id: options.traceId ?? null,
+      undo_of: options.undoOf ?? null,
+    }));
+
+    try {
+      const { data, error } = await supabase.from('item_events').insert(rows).select();
+      if (error) throw error;
+      return (data || []).map(fromRow);
+    } catch (error) {
+      console.error(`[ItemHistory] Failed to log ${rows.length} item event(s) for project ${projectId}:`, error);
+      return [];
+    }
+  }
+
+  /**
+   * Events for a project (or one item), newest first
+   */
+  async listEvents(
+    projectId: string,
+    options: { itemId?: string; before?: string; limit?: number } = {}
+  ): Promise<ItemEvent[]> {
+    let query = supabase
+      .from('item_events')
+      .select('*')
+      .eq('project_id', projectId);
+
+    if (options.itemId) {
+      query = query.eq('item_id', options.itemId);
+    }
+    if (options.before) {
+      query = query.lt('created_at', options.before);
+    }
+
+    const { data, error } = await query
+      .order('created_at', { ascending: false })
+      .order('seq', { ascending: false })
+      .limit(options.limit ?? 100);
+
+    if (error) {
+      throw new Error(`Failed to load item history: ${error.message}`);
+    }
+
+    const events = (data || []).map(fromRow);
+    if (events.length === 0) return events;
+
+    // Mark which of these have been undone
+    const { data: undos, error: undoError } = await supabase
+      .from('item_events')
+      .select('id, undo_of')
+      .eq('project_id', projectId)
+      .in('undo_of', events.map(event => event.id));
+
+    if (undoError) {
+      throw new Error(`Failed to load item history: ${undoError.message}`);
+    }
+
+    const undoneBy = new Map((undos || []).map((row: any) => [row.undo_of, row.id]));
+    return events.map(event => ({ ...event, undoneBy: undoneBy.get(event.id) || null }));
+  }
+
+  /**
+   * The project's items as they stood at a point in time
+   */
+  async getBoardAt(projectId: string, at: string): Promise<ItemBoardSnapshot> {
+    if (Number.isNaN(Date.parse(at))) {
+      throw new ItemHistoryError('at must be an ISO timestamp');
+    }
+
+    let items = await getRawProjectItems(projectId);
+    let eventsReverted = 0;
+
+    // Roll back newest-first through everything recorded after `at`
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from('item_events')
+        .select('*')
+        .eq('project_id', projectId)
+        .gt('created_at', at)
+        .order('created_at', { ascending: false })
+        .order('seq', { ascending: false })
+        .range(offset, offset + PAGE_SIZE - 1);
+
+      if (error) {
+        throw new Error(`Failed to load item history: ${error.message}`);
+      }
+
+      for (const row of data || []) {
+        items = revertItemEvent(items, fromRow(row));
+        eventsReverted++;
+      }
+
+      if (!data || data.length < PAGE_SIZE) break;
+    }
+
+    return { at, items, counts: countByState(items), eventsReverted };
+  }
+
+  /**
+   * Undo one event by applying its inverse as a new change
+   * Refuses when the item has changed since, unless forced.
+   */
+  async undoEvent(
+    projectId: string,
+    eventId: string,
+    userId: string,
+    options: { force?: boolean } = {}
+  ): Promise<UndoResult> {
+    const { data: row, error } = await supabase
+      .from('item_events')
+      .select('*')
+      .eq('project_id', projectId)
+      .eq('id', eventId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to load item event: ${error.message}`);
+    }
+    if (!row) {
+      throw new ItemHistoryError('Item event not found', 404);
+    }
+
+    const event = fromRow(row);
+
+    const { data: existingUndo } = await supabase
+      .from('item_events')
+      .select('id')
+      .eq('project_id', projectId)
+      .eq('undo_of', eventId)
+      .limit(1);
+
+    if (existingUndo && existingUndo.length > 0) {
+      throw new ItemHistoryError('This change has already been undone', 409);
+    }
+
+    // Not getRawProjectItems: a failed read must not be written back as an empty board
+    const { data: project, error: projectError } = await supabase
+      .from('projects')
+      .select('items')
+      .eq('id', projectId)
+      .single();
+
+    if (projectError || !project) {
+      throw new Error(`Failed to load project items: ${projectError?.message || 'project not found'}`);
+    }
+
+    const previousItems: any[] = project.items || [];
+    const current = previousItems.find(item => item.id === event.itemId);
+
+    if (event.type === 'deleted') {
+      if (current) {
+        throw new ItemHistoryError('The item has been restored since', 409);
+      }
+    } else if (!current) {
+      throw new ItemHistoryError('The item has been deleted since', 409);
+    } else if (!options.force && itemContentFingerprint(current) !== itemContentFingerprint(event.after)) {
+      throw new ItemHistoryError('The item has changed since; undo with force to overwrite the newer change', 409);
+    }
+
+    const items = attributeItemChanges(previousItems, revertItemEvent(previousItems, event), userId);
+
+    const { error: updateError } = await supabase
+      .from('projects')
+      .update({ items, updated_at: new Date().toISOString() })
+      .eq('id', projectId);
+
+    if (updateError) {
+      throw new Error(`Failed to save items: ${updateError.message}`);
+    }
+
+    const events = await this.recordChanges(projectId, previousItems, items, {
+      actor: { type: 'user', id: userId },
+      undoOf: event.id,
+    });
+
+    console.log(`[ItemHistory] ${userId} undid ${event.type} of item ${event.itemId} (event ${event.id})`);
+    return { previousItems, items, events };
+  }
+}
+
+export const itemHistoryService = new ItemHistoryService();
@@ -0,0 +1,511 @@
+import Anthropic from '@anthropic-ai/sdk';
+import OpenAI from 'openai';
+import crypto from 'crypto';
+import fs from 'fs';
+import {
+  LLM_PROVIDERS,
+  LLMProviderConfig,
+  OPENAI_COMPATIBLE_MODEL_CONFIG,
+  getLLMProviderConfig,
+} from '../config/aiModels';
+
+/**
+ * LLM Provider layer
+ *
+ * BaseAgent talks to an LLMProvider instead of the Anthropic SDK directly.
+ * Messages use the Anthropic shape (string content or content blocks, including
+ * base64 image blocks) and each provider translates as needed.
+ * Providers may also stream: text deltas go to a callback as they arrive and
+ * the full response is returned at the end, as with complete().
+ */
+
+export interface LLMMessage {
+  role: 'user' | 'assistant';
+  content: string | any[];
+}
+
+export interface LLMRequest {
+  model: string;
+  maxTokens: number;
+  system?: string;
+  messages: LLMMessage[];
+  /** Name of the calling agent - used for logging and scripted fixture matching */
+  agentName?: string;
+}
+
+export interface LLMUsage {
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationInputTokens: number;
+  cacheReadInputTokens: number;
+}
+
+export interface LLMResponse {
+  text: string;
+  model: string;
+  usage: LLMUsage;
+  stopReason?: string | null;
+}
+
+/**
+ * Receives text deltas of a streamed response
+ * Aborting the signal cancels the upstream request.
+ */
+export interface LLMStreamOptions {
+  onText: (delta: string) => void;
+  signal?: AbortSignal;
+}
+
+export interface LLMProvider {
+  readonly name: string;
+  complete(request: LLMRequest): Promise<LLMResponse>;
+  /** Optional - providers without it are streamed as one delta (see streamCompletion) */
+  stream?(request: LLMRequest, options: LLMStreamOptions): Promise<LLMResponse>;
+}
+
+/**
+ * A scripted response, matched against incoming requests
+ * A fixture matches when every criterion it sets matches the request.
+ */
+export interface LLMFixture {
+  /** Exact request hash (see hashLLMRequest) - used for recorded replays */
+  requestHash?: string;
+  /** Agent name, compared case-insensitively */
+  agent?: string;
+  /** Substring that must appear in the last user message (case-insensitive) */
+  contains?: string;
+  response: string;
+}
+
+interface LLMFixtureFile {
+  fixtures: LLMFixture[];
+  defaultResponse?: string;
+}
+
+/**
+ * Stable hash of the parts of a request that determine the response
+ */
+export function hashLLMRequest(request: LLMRequest): string {
+  return crypto
+    .createHash('sha256')
+    .update(JSON.stringify({
+      model: request.model,
+      system: request.system || '',
+      messages: request.messages,
+    }))
+    .digest('hex')
+    .substring(0, 32);
+}
+
+/**
+ * Stream a request through a provider, falling back to a single delta
+ * for providers that can only complete
+ */
+export async function streamCompletion(
+  provider: LLMProvider,
+  request: LLMRequest,
+  options: LLMStreamOptions
+): Promise<LLMResponse> {
+  if (provider.stream) {
+    return provider.stream(request, options);
+  }
+
+  throwIfAborted(options.signal);
+  const response = await provider.complete(request);
+  throwIfAborted(options.signal);
+  if (response.text) options.onText(response.text);
+  return response;
+}
+
+/**
+ * True for the errors an aborted request rejects with
+ * Both SDKs reject with their own APIUserAbortError class, which keeps the default name.
+ */
+export function isAbortError(error: any): boolean {
+  return error?.name === 'AbortError' || error?.constructor?.name === 'APIUserAbortError';
+}
+
+function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    const error = new Error('Request was aborted');
+    error.name = 'AbortError';
+    throw error;
+  }
+}
+
+function emptyUsage(): LLMUsage {
+  return {
+    inputTokens: 0,
+    outputTokens: 0,
+    cacheCreationInputTokens: 0,
+    cacheReadInputTokens: 0,
+  };
+}
+
+/**
+ * Anthropic Messages API provider
+ */
+export class AnthropicProvider implements LLMProvider {
+  readonly name = LLM_PROVIDERS.ANTHROPIC;
+  private client: Anthropic;
+
+  constructor(apiKey?: string) {
+    this.client = new Anthropic({ apiKey });
+  }
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    const response = await this.client.messages.create({
+      model: request.model,
+      max_tokens: request.maxTokens,
+      system: request.system,
+      messages: request.messages as any,
+    });
+
+    return this.toResponse(response, request);
+  }
+
+  async stream(request: LLMRequest, options: LLMStreamOptions): Promise<LLMResponse> {
+    const stream = this.client.messages.stream({
+      model: request.model,
+      max_tokens: request.maxTokens,
+      system: request.system,
+      messages: request.messages as any,
+    }, { signal: options.signal });
+
+    stream.on('text', delta => options.onText(delta));
+
+    return this.toResponse(await stream.finalMessage(), request);
+  }
+
+  private toResponse(response: Anthropic.Message, request: LLMRequest): LLMResponse {
+    const firstBlock = response.content?.[0];
+    const usage: any = response.usage || {};
+
+    return {
+      text: firstBlock && firstBlock.type === 'text' ? firstBlock.text : '',
+      model: response.model || request.model,
+      usage: {
+        inputTokens: usage.input_tokens || 0,
+        outputTokens: usage.output_tokens || 0,
+        cacheCreationInputTokens: usage.cache_creation_input_tokens || 0,
+        cacheReadInputTokens: usage.cache_read_input_tokens || 0,
+      },
+      stopReason: response.stop_reason,
+    };
+  }
+}
+
+/**
+ * OpenAI-compatible chat completions provider
+ * Works with OpenAI itself and self-hosted servers exposing the same API.
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name = LLM_PROVIDERS.OPENAI_COMPATIBLE;
+  private client: OpenAI;
+
+  constructor(apiKey?: string, baseUrl?: string) {
+    this.client = new OpenAI({
+      // Local servers usually ignore the key, but the SDK requires one
+      apiKey: apiKey || 'not-needed',
+      baseURL: baseUrl,
+    });
+  }
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    const model = this.resolveModel(request);
+
+    const response = await this.client.chat.completions.create({
+      model,
+      max_tokens: request.maxTokens,
+      messages: this.convertMessages(request),
+    });
+
+    const choice = response.choices?.[0];
+    const usage: any = response.usage || {};
+
+    return {
+      text: choice?.message?.content || '',
+      model: response.model || model,
+      usage: {
+        inputTokens: usage.prompt_tokens || 0,
+        outputTokens: usage.completion_tokens || 0,
+        cacheCreationInputTokens: 0,
+        cacheReadInputTokens: usage.prompt_tokens_details?.cached_tokens || 0,
+      },
+      stopReason: choice?.finish_reason,
+    };
+  }
+
+  async stream(request: LLMRequest, options: LLMStreamOptions): Promise<LLMResponse> {
+    const model = this.resolveModel(request);
+
+    const stream = await this.client.chat.completions.create({
+      model,
+      max_tokens: request.maxTokens,
+      messages: this.convertMessages(request),
+      stream: true,
+      // Usage arrives in a final chunk without choices
+      stream_options: { include_usage: true },
+    }, { signal: options.signal });
+
+    let text = '';
+    let responseModel = model;
+    let stopReason: string | null = null;
+    let usage: any = {};
+
+    for await (const chunk of stream) {
+      const choice = chunk.choices?.[0];
+      const delta = choice?.delta?.content;
+      if (delta) {
+        text += delta;
+        options.onText(delta);
+      }
+      if (choice?.finish_reason) stopReason = choice.finish_reason;
+      if (chunk.model) responseModel = chunk.model;
+      if (chunk.usage) usage = chunk.usage;
+    }
+
+    return {
+      text,
+      model: responseModel,
+      usage: {
+        inputTokens: usage.prompt_tokens || 0,
+        outputTokens: usage.completion_tokens || 0,
+        cacheCreationInputTokens: 0,
+        cacheReadInputTokens: usage.prompt_tokens_details?.cached_tokens || 0,
+      },
+      stopReason,
+    };
+  }
+
+  private resolveModel(request: LLMRequest): string {
+    return OPENAI_COMPATIBLE_MODEL_CONFIG[request.model] || OPENAI_COMPATIBLE_MODEL_CONFIG.default;
+  }
+
+  private convertMessages(request: LLMRequest): any[] {
+    const messages: any[] = [];
+    if (request.system) {
+      messages.push({ role: 'system', content: request.system });
+    }
+    for (const msg of request.messages) {
+      messages.push({ role: msg.role, content: this.convertContent(msg.content) });
+    }
+    return messages;
+  }
+
+  /**
+   * Convert Anthropic content blocks to OpenAI content parts
+   */
+  private convertContent(content: string | any[]): string | any[] {
+    if (typeof content === 'string') {
+      return content;
+    }
+
+    return content.map(block => {
+      if (block.type === 'image' && block.source?.type === 'base64') {
+        return {
+          type: 'image_url',
+          image_url: { url: `data:${block.source.media_type};base64,${block.source.data}` },
+        };
+      }
+      if (block.type === 'text') {
+        return { type: 'text', text: block.text };
+      }
+      return block;
+    });
+  }
+}
+
+/**
+ * Deterministic local provider for offline development and tests
+ *
+ * Replays fixtures from a JSON file ({ fixtures: [...], defaultResponse }) or
+ * fixtures registered in code. Unmatched requests get a fixed default response.
+ */
+export class ScriptedProvider implements LLMProvider {
+  readonly name = LLM_PROVIDERS.SCRIPTED;
+  private fixtures: LLMFixture[] = [];
+  private defaultResponse: string;
+  private calls: LLMRequest[] = [];
+
+  constructor(options: { fixtures?: LLMFixture[]; fixturesPath?: string; defaultResponse?: string } = {}) {
+    this.defaultResponse = options.defaultResponse ?? '';
+
+    if (options.fixturesPath) {
+      this.loadFixtures(options.fixturesPath);
+    }
+    if (options.fixtures) {
+      this.fixtures.push(...options.fixtures);
+    }
+  }
+
+  /**
+   * Load fixtures from a JSON file
+   */
+  loadFixtures(filePath: string): void {
+    if (!fs.existsSync(filePath)) {
+      console.warn(`[ScriptedProvider] Fixture file not found: ${filePath}`);
+      return;
+    }
+
+    const file: LLMFixtureFile = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    this.fixtures.push(...(file.fixtures || []));
+    if (file.defaultResponse !== undefined) {
+      this.defaultResponse = file.defaultResponse;
+    }
+    console.log(`[ScriptedProvider] Loaded ${file.fixtures?.length || 0} fixtures from ${filePath}`);
+  }
+
+  /**
+   * Register a fixture at runtime (later fixtures take precedence)
+   */
+  register(fixture: LLMFixture): void {
+    this.fixtures.unshift(fixture);
+  }
+
+  /**
+   * Requests received so far (useful for assertions in tests)
+   */
+  getCalls(): LLMRequest[] {
+    return [...this.calls];
+  }
+
+  reset(): void {
+    this.calls = [];
+  }
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    this.calls.push(request);
+
+    const fixture = this.findFixture(request);
+    const text = fixture ? fixture.response : this.defaultResponse;
+
+    // Deterministic pseudo-usage (~4 characters per token) so metrics stay meaningful offline
+    const inputChars = (request.system || '').length +
+      request.messages.reduce((sum, m) => sum + (typeof m.content === 'string' ? m.content.length : JSON.stringify(m.content).length), 0);
+
+    return {
+      text,
+      model: request.model,
+      usage: {
+        ...emptyUsage(),
+        inputTokens: Math.ceil(inputChars / 4),
+        outputTokens: Math.ceil(text.length / 4),
+      },
+      stopReason: 'end_turn',
+    };
+  }
+
+  /**
+   * Replays the scripted response word by word
+   */
+  async stream(request: LLMRequest, options: LLMStreamOptions): Promise<LLMResponse> {
+    throwIfAborted(options.signal);
+    const response = await this.complete(request);
+
+    for (const delta of response.text.match(/\S+\s*|\s+/g) || []) {
+      throwIfAborted(options.signal);
+      options.onText(delta);
+      // Yield between deltas so aborts and writes interleave as they would live
+      await new Promise(resolve => setImmediate(resolve));
+    }
+
+    return response;
+  }
+
+  private findFixture(request: LLMRequest): LLMFixture | undefined {
+    const requestHash = hashLLMRequest(request);
+    const lastUser = [...request.messages].reverse().find(m => m.role === 'user');
+    const lastUserText = lastUser
+      ? (typeof lastUser.content === 'string' ? lastUser.content : JSON.stringify(lastUser.content)).toLowerCase()
+      : '';
+
+    return this.fixtures.find(fixture => {
+      if (fixture.requestHash && fixture.requestHash !== requestHash) return false;
+      if (fixture.agent && fixture.agent.toLowerCase() !== (request.agentName || '').toLowerCase()) return false;
+      if (fixture.contains && !lastUserText.includes(fixture.contains.toLowerCase())) return false;
+      return true;
+    });
+  }
+}
+
+/**
+ * Wraps a live provider and appends every response to a fixture file,
+ * producing replayable fixtures for the scripted provider.
+ */
+export class RecordingProvider implements LLMProvider {
+  readonly name: string;
+
+  constructor(private inner: LLMProvider, private fixturesPath: string) {
+    this.name = `${inner.name}+recording`;
+  }
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    const response = await this.inner.complete(request);
+    this.record(request, response);
+    return response;
+  }
+
+  async stream(request: LLMRequest, options: LLMStreamOptions): Promise<LLMResponse> {
+    const response = await streamCompletion(this.inner, request, options);
+    this.record(request, response);
+    return response;
+  }
+
+  private record(request: LLMRequest, response: LLMResponse): void {
+    try {
+      const file: LLMFixtureFile = fs.existsSync(this.fixturesPath)
+        ? JSON.parse(fs.readFileSync(this.fixturesPath, 'utf8'))
+        : { fixtures: [] };
+      file.fixtures.push({
+        requestHash: hashLLMRequest(request),
+        agent: request.agentName,
+        response: response.text,
+      });
+      fs.writeFileSync(this.fixturesPath, JSON.stringify(file, null, 2));
+    } catch (error: any) {
+      console.error('[RecordingProvider] Failed to record fixture:', error.message);
+    }
+  }
+}
+
+/**
+ * Create a provider from configuration
+ */
+export function createLLMProvider(config: LLMProviderConfig = getLLMProviderConfig()): LLMProvider {
+  let provider: LLMProvider;
+
+  switch (config.type) {
+    case LLM_PROVIDERS.OPENAI_COMPATIBLE:
+      provider = new OpenAICompatibleProvider(config.apiKey, config.baseUrl);
+      break;
+    case LLM_PROVIDERS.SCRIPTED:
+      return new ScriptedProvider({ fixturesPath: config.fixturesPath });
+    default:
+      provider = new AnthropicProvider(config.apiKey);
+  }
+
+  if (config.recordFixturesPath) {
+    return new RecordingProvider(provider, config.recordFixturesPath);
+  }
+  return provider;
+}
+
+// Singleton provider instance (shared across all agents)
+let sharedProvider: LLMProvider | null = null;
+
+export function getLLMProvider(): LLMProvider {
+  if (!sharedProvider) {
+    sharedProvider = createLLMProvider();
+    console.log(`[LLMProvider] Initialized shared provider: ${sharedProvider.name}`);
+  }
+  return sharedProvider;
+}
+
+/**
+ * Replace the shared provider (tests, scripted demos)
+ * Pass null to re-create it from configuration on next use.
+ */
+export function setLLMProvider(provider: LLMProvider | null): void {
+  sharedProvider = provider;
+}
@@ -0,0 +1,296 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import crypto from 'crypto';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { getSpeechToTextProvider, SpeechToTextProvider, Transcript, TranscriptSegment } from './speechToText';
+
+/**
+ * MediaAnalysisService - Turns audio and video references into analyzable content
+ *
+ * Uploaded media is staged to a work directory before the upload removes the
+ * temp file. Background analysis then probes it with ffprobe, samples
+ * keyframes (video) for the vision model, and transcribes the audio track in
+ * fixed-length pieces through the configured speech-to-text provider. The
+ * transcript is split into timestamped chunks so search can land on the
+ * moment something was said.
+ *
+ * Requires ffmpeg/ffprobe on the PATH (or FFMPEG_PATH / FFPROBE_PATH).
+ */
+
+const execFileAsync = promisify(execFile);
+
+const FFMPEG = process.env.FFMPEG_PATH || 'ffmpeg';
+const FFPROBE = process.env.FFPROBE_PATH || 'ffprobe';
+const MEDIA_WORK_DIR = path.join(os.tmpdir(), 'media-analysis');
+
+const KEYFRAME_COUNT = 8;
+const KEYFRAME_MAX_WIDTH = 768;
+// Transcribe in pieces so long recordings stay under provider upload limits
+const AUDIO_SEGMENT_SECONDS = 600;
+const COMMAND_TIMEOUT_MS = 10 * 60 * 1000;
+
+export type MediaKind = 'video' | 'audio';
+
+export interface Keyframe {
+  /** Seconds from the start */
+  timestamp: number;
+  /** Base64 JPEG */
+  data: string;
+}
+
+export interface TranscriptChunk {
+  index: number;
+  start: number;
+  end: number;
+  text: string;
+}
+
+export interface MediaExtraction {
+  kind: MediaKind;
+  durationSeconds: number;
+  transcript: Transcript | null;
+  /** Why there is no transcript (no provider, no audio track, provider error) */
+  transcriptionError: string | null;
+  keyframes: Keyframe[];
+  chunks: TranscriptChunk[];
+}
+
+/**
+ * 75 -> "1:15", 3725 -> "1:02:05"
+ */
+export function formatTimestamp(seconds: number): string {
+  const total = Math.max(0, Math.floor(seconds));
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const secs = String(total % 60).padStart(2, '0');
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${secs}` : `${minutes}:${secs}`;
+}
+
+/**
+ * Evenly spaced sample points, away from the very start and end
+ */
+export function keyframeTimestamps(durationSeconds: number, count: number = KEYFRAME_COUNT): number[] {
+  if (!(durationSeconds > 0) || count <= 0) return [0];
+  const step = durationSeconds / count;
+  return Array.from({ length: count }, (_, i) => Math.round((i + 0.5) * step * 10) / 10);
+}
+
+/**
+ * Group transcript segments into chunks for embedding
+ * A chunk closes when it would pass maxChars or span more than maxSeconds.
+ */
+export function chunkTranscript(
+  segments: TranscriptSegment[],
+  options: { maxChars?: number; maxSeconds?: number } = {}
+): TranscriptChunk[] {
+  const maxChars = options.maxChars ?? 1000;
+  const maxSeconds = options.maxSeconds ?? 120;
+  const chunks: TranscriptChunk[] = [];
+  let current: TranscriptSegment[] = [];
+
+  const flush = () => {
+    if (current.length === 0) return;
+    chunks.push({
+      index: chunks.length,
+      start: current[0].start,
+      end: current[current.length - 1].end,
+      text: current.map(segment => segment.text).join(' '),
+    });
+    current = [];
+  };
+
+  for (const segment of segments) {
+    if (current.length > 0) {
+      const length = current.reduce((sum, s) => sum + s.text.length + 1, 0) + segment.text.length;
+      if (length > maxChars || segment.end - current[0].start > maxSeconds) {
+        flush();
+      }
+    }
+    current.push(segment);
+  }
+  flush();
+
+  return chunks;
+}
+
+/**
+ * Transcript as "[m:ss] text" lines
+ */
+export function formatTranscript(segments: TranscriptSegment[]): string {
+  return segments.map(segment => `[${formatTimestamp(segment.start)}] ${segment.text}`).join('\n');
+}
+
+/**
+ * Segments back from formatTranscript output (each segment ends where the next starts)
+ */
+export function parseTranscript(text: string): TranscriptSegment[] {
+  const segments: TranscriptSegment[] = [];
+  for (const line of text.split('\n')) {
+    const match = /^\[(?:(\d+):)?(\d+):(\d{2})\]\s*(.*)$/.exec(line.trim());
+    if (!match || !match[4]) continue;
+    const start = Number(match[1] || 0) * 3600 + Number(match[2]) * 60 + Number(match[3]);
+    if (segments.length > 0) segments[segments.length - 1].end = start;
+    segments.push({ start, end: start, text: match[4] });
+  }
+  return segments;
+}
+
+export class MediaAnalysisService {
+  /**
+   * Copy an uploaded file somewhere it survives the upload's temp-file cleanup
+   */
+  async stage(file: Express.Multer.File): Promise<string> {
+    await fs.mkdir(MEDIA_WORK_DIR, { recursive: true });
+    const stagedPath = path.join(MEDIA_WORK_DIR, `${crypto.randomUUID()}${path.extname(file.originalname)}`);
+    await fs.copyFile(file.path, stagedPath);
+    return stagedPath;
+  }
+
+  /**
+   * Stage media downloaded from storage (re-analysis; the upload's copy is gone)
+   */
+  async stageBuffer(buffer: Buffer, filename: string): Promise<string> {
+    await fs.mkdir(MEDIA_WORK_DIR, { recursive: true });
+    const stagedPath = path.join(MEDIA_WORK_DIR, `${crypto.randomUUID()}${path.extname(filename)}`);
+    await fs.writeFile(stagedPath, buffer);
+    return stagedPath;
+  }
+
+  /**
+   * Remove a staged file that will not be analyzed
+   */
+  async discard(stagedPath: string): Promise<void> {
+    await fs.rm(stagedPath, { force: true });
+  }
+
+  /**
+   * Probe, sample and transcribe a staged file, then delete it
+   * Transcription problems don't fail the extraction; they are reported in transcriptionError.
+   */
+  async extract(
+    stagedPath: string,
+    kind: MediaKind,
+    provider: SpeechToTextProvider | null = getSpeechToTextProvider()
+  ): Promise<MediaExtraction> {
+    try {
+      const probe = await this.probe(stagedPath);
+      console.log(`[MediaAnalysis] ${kind} ${path.basename(stagedPath)}: ${formatTimestamp(probe.durationSeconds)}, audio: ${probe.hasAudio}, video: ${probe.hasVideo}`);
+
+      const keyframes = kind === 'video' && probe.hasVideo
+        ? await this.sampleKeyframes(stagedPath, probe.durationSeconds)
+        : [];
+
+      let transcript: Transcript | null = null;
+      let transcriptionError: string | null = null;
+
+      if (!provider) {
+        transcriptionError = 'Speech-to-text is not configured (STT_PROVIDER)';
+      } else if (!probe.hasAudio) {
+        transcriptionError = 'The recording has no audio track';
+      } else {
+        try {
+          transcript = await this.transcribe(stagedPath, probe.durationSeconds, provider);
+          console.log(`[MediaAnalysis] Transcribed ${transcript.segments.length} segments with ${provider.name}`);
+        } catch (error: any) {
+          console.error('[MediaAnalysis] Transcription failed:', error);
+          transcriptionError = `Transcription failed: ${error.message || error}`;
+        }
+      }
+
+      return {
+        kind,
+        durationSeconds: probe.durationSeconds,
+        transcript,
+        transcriptionError,
+        keyframes,
+        chunks: transcript ? chunkTranscript(transcript.segments) : [],
+      };
+    } finally {
+      await fs.rm(stagedPath, { force: true });
+    }
+  }
+
+  private async probe(filePath: string): Promise<{ durationSeconds: number; hasAudio: boolean; hasVideo: boolean }> {
+    const { stdout } = await execFileAsync(
+      FFPROBE,
+      ['-v', 'error', '-show_entries', 'format=duration:stream=codec_type', '-of', 'json', filePath],
+      { timeout: COMMAND_TIMEOUT_MS }
+    );
+    const info = JSON.parse(stdout);
+    const types = (info.streams || []).map((stream: any) => stream.codec_type);
+    return {
+      durationSeconds: parseFloat(info.format?.duration) || 0,
+      hasAudio: types.includes('audio'),
+      hasVideo: types.includes('video'),
+    };
+  }
+
+  private async sampleKeyframes(filePath: string, durationSeconds: number): Promise<Keyframe[]> {
+    const keyframes: Keyframe[] = [];
+
+    for (const timestamp of keyframeTimestamps(durationSeconds)) {
+      try {
+        const { stdout } = await execFileAsync(
+          FFMPEG,
+          [
+            '-v', 'error', '-ss', String(timestamp), '-i', filePath,
+            '-frames:v', '1', '-vf', `scale='min(${KEYFRAME_MAX_WIDTH},iw)':-2`,
+            '-q:v', '4', '-f', 'image2pipe', '-vcodec', 'mjpeg', 'pipe:1',
+          ],
+          { encoding: 'buffer', maxBuffer: 8 * 1024 * 1024, timeout: COMMAND_TIMEOUT_MS }
+        );
+        if (stdout.length > 0) {
+          keyframes.push({ timestamp, data: stdout.toString('base64') });
+        }
+      } catch (error) {
+        console.error(`[MediaAnalysis] Failed to sample frame at ${timestamp}s:`, error);
+      }
+    }
+
+    return keyframes;
+  }
+
+  private async transcribe(filePath: string, durationSeconds: number, provider: SpeechToTextProvider): Promise<Transcript> {
+    const segments: TranscriptSegment[] = [];
+    let language: string | null = null;
+    const pieces = Math.max(1, Math.ceil(durationSeconds / AUDIO_SEGMENT_SECONDS));
+
+    for (let piece = 0; piece < pieces; piece++) {
+      const offset = piece * AUDIO_SEGMENT_SECONDS;
+      const audioPath = path.join(MEDIA_WORK_DIR, `${crypto.randomUUID()}.${provider.audioFormat}`);
+      const codec = provider.audioFormat === 'mp3'
+        ? ['-c:a', 'libmp3lame', '-b:a', '32k']
+        : ['-c:a', 'pcm_s16le'];
+
+      try {
+        await execFileAsync(
+          FFMPEG,
+          ['-v', 'error', '-y', '-ss', String(offset), '-t', String(AUDIO_SEGMENT_SECONDS), '-i', filePath,
+            '-vn', '-ac', '1', '-ar', '16000', ...codec, audioPath],
+          { timeout: COMMAND_TIMEOUT_MS }
+        );
+
+        const result = await provider.transcribe(audioPath);
+        language = language || result.language || null;
+        segments.push(...result.segments.map(segment => ({
+          start: segment.start + offset,
+          end: segment.end + offset,
+          text: segment.text,
+        })));
+      } finally {
+        await fs.rm(audioPath, { force: true });
+      }
+    }
+
+    return {
+      text: segments.map(segment => segment.text).join(' '),
+      segments,
+      language,
+      provider: provider.name,
+    };
+  }
+}
+
+export const mediaAnalysisService = new MediaAnalysisService();
@@ -0,0 +1,240 @@
+import ExcelJS from 'exceljs';
+import JSZip from 'jszip';
+
+/**
+ * Text extraction for spreadsheets and slide decks
+ *
+ * Workbooks become one markdown table per sheet, with the first row used as
+ * the header when it looks like one. Decks become one section per slide in
+ * presentation order, with the slide title, body text and speaker notes.
+ * The output is plain markdown so it flows through reference analysis and
+ * embeddings like any other document text.
+ */
+
+// Keep very large sheets from flooding the analysis prompt
+const MAX_ROWS_PER_SHEET = 500;
+const MAX_COLUMNS = 50;
+
+type Row = string[];
+
+function cellText(value: unknown): string {
+  return String(value ?? '').replace(/\s+/g, ' ').trim();
+}
+
+function escapeCell(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\|/g, '\\|');
+}
+
+function isNumeric(value: string): boolean {
+  return /^[-+]?[$€£¥]?\s?[\d.,]+\s?%?$/.test(value);
+}
+
+/**
+ * Whether the first row reads as column names rather than data
+ * A header is filled in across the table, holds no numbers, has no repeated
+ * names, and sits on top of rows that do hold numbers or differ in shape.
+ */
+export function looksLikeHeader(rows: Row[]): boolean {
+  if (rows.length < 2) return false;
+  const [first, ...rest] = rows;
+  const filled = first.filter(Boolean);
+
+  if (filled.length === 0 || filled.length < first.length / 2) return false;
+  if (filled.some(isNumeric)) return false;
+  if (new Set(filled.map(v => v.toLowerCase())).size !== filled.length) return false;
+
+  // Data below with numbers, or a header that is plainly shorter text than the data
+  const body = rest.slice(0, 20).flat().filter(Boolean);
+  if (body.some(isNumeric)) return true;
+  const average = (values: string[]) => values.reduce((sum, v) => sum + v.length, 0) / Math.max(values.length, 1);
+  return average(filled) <= average(body);
+}
+
+function columnName(index: number): string {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+/**
+ * Render rows as a markdown table, detecting a header row
+ */
+export function rowsToMarkdownTable(input: unknown[][]): string {
+  let rows: Row[] = input.map(row => row.slice(0, MAX_COLUMNS).map(cellText));
+
+  // Trim empty rows and trailing empty columns
+  rows = rows.filter(row => row.some(Boolean));
+  if (rows.length === 0) return '';
+  const width = Math.max(...rows.map(row => {
+    let last = row.length;
+    while (last > 0 && !row[last - 1]) last--;
+    return last;
+  }));
+  rows = rows.map(row => Array.from({ length: width }, (_, i) => row[i] || ''));
+
+  const hasHeader = looksLikeHeader(rows);
+  const header = hasHeader
+    ? rows[0].map((value, i) => value || `Column ${columnName(i)}`)
+    : rows[0].map((_, i) => `Column ${columnName(i)}`);
+  const body = hasHeader ? rows.slice(1) : rows;
+  const shown = body.slice(0, MAX_ROWS_PER_SHEET);
+
+  const line = (cells: string[]) => `| ${cells.map(escapeCell).join(' | ')} |`;
+  const table = [line(header), line(header.map(() => '---')), ...shown.map(line)];
+
+  if (body.length > shown.length) {
+    table.push('', `_${body.length - shown.length} more rows not shown_`);
+  }
+  return table.join('\n');
+}
+
+/**
+ * Workbook (.xlsx) to markdown, one section per sheet
+ * Cells are read as displayed (formatted numbers, formula results).
+ */
+export async function extractSpreadsheetMarkdown(buffer: Buffer): Promise<string> {
+  const workbook = new ExcelJS.Workbook();
+  // exceljs declares its own Buffer type (an ArrayBuffer); Node buffers are read as-is
+  await workbook.xlsx.load(buffer as unknown as ArrayBuffer);
+
+  const sections = workbook.worksheets.map(sheet => {
+    const rows: string[][] = [];
+    sheet.eachRow(row => {
+      rows.push(Array.from({ length: Math.min(row.cellCount, MAX_COLUMNS) }, (_, i) => row.getCell(i + 1).text));
+    });
+    const table = rowsToMarkdownTable(rows);
+    return table ? `## Sheet: ${sheet.name}\n\n${table}` : '';
+  }).filter(Boolean);
+
+  return sections.join('\n\n');
+}
+
+function decodeXml(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(Number(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCodePoint(parseInt(code, 16)))
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Paragraph text of a DrawingML shape tree, skipping field placeholders (slide numbers, dates)
+ */
+function paragraphs(xml: string): string[] {
+  return (xml.match(/<a:p[\s>][\s\S]*?<\/a:p>/g) || [])
+    .map(paragraph => paragraph.replace(/<a:fld[\s\S]*?<\/a:fld>/g, ''))
+    .map(paragraph => (paragraph.match(/<a:t(?:\s[^>]*)?>([\s\S]*?)<\/a:t>/g) || [])
+      .map(run => decodeXml(run.replace(/<[^>]+>/g, '')))
+      .join(''))
+    .map(text => text.trim())
+    .filter(Boolean);
+}
+
+interface SlideText {
+  title: string | null;
+  body: string[];
+}
+
+function slideText(xml: string): SlideText {
+  let title: string | null = null;
+  const body: string[] = [];
+
+  for (const shape of xml.match(/<p:sp[\s>][\s\S]*?<\/p:sp>/g) || []) {
+    const text = paragraphs(shape);
+    if (text.length === 0) continue;
+    if (!title && /<p:ph[^>]*type="(title|ctrTitle)"/.test(shape)) {
+      title = text.join(' ');
+    } else {
+      body.push(...text);
+    }
+  }
+
+  // Tables and grouped shapes outside plain text boxes
+  for (const frame of xml.match(/<p:graphicFrame[\s>][\s\S]*?<\/p:graphicFrame>/g) || []) {
+    body.push(...paragraphs(frame));
+  }
+
+  return { title, body };
+}
+
+function resolveTarget(baseDir: string, target: string): string {
+  const parts = baseDir.split('/');
+  for (const segment of target.split('/')) {
+    if (segment === '..') parts.pop();
+    else if (segment !== '.') parts.push(segment);
+  }
+  return parts.join('/');
+}
+
+async function relationships(zip: JSZip, relsPath: string, baseDir: string): Promise<Map<string, { type: string; target: string }>> {
+  const xml = await zip.file(relsPath)?.async('string');
+  const rels = new Map<string, { type: string; target: string }>();
+  for (const match of (xml || '').matchAll(/<Relationship\s[^>]*>/g)) {
+    const id = /Id="([^"]+)"/.exec(match[0])?.[1];
+    const type = /Type="([^"]+)"/.exec(match[0])?.[1] || '';
+    const target = /Target="([^"]+)"/.exec(match[0])?.[1];
+    if (id && target) rels.set(id, { type, target: resolveTarget(baseDir, target) });
+  }
+  return rels;
+}
+
+/**
+ * Slide paths in presentation order (falls back to file numbering)
+ */
+async function slideOrder(zip: JSZip): Promise<string[]> {
+  const presentation = await zip.file('ppt/presentation.xml')?.async('string');
+  const rels = await relationships(zip, 'ppt/_rels/presentation.xml.rels', 'ppt');
+  const ordered = [...(presentation || '').matchAll(/<p:sldId\s[^>]*r:id="([^"]+)"/g)]
+    .map(match => rels.get(match[1])?.target)
+    .filter((target): target is string => !!target && !!zip.file(target));
+
+  if (ordered.length > 0) return ordered;
+
+  const number = (name: string) => parseInt(/slide(\d+)\.xml$/.exec(name)?.[1] || '0', 10);
+  return Object.keys(zip.files)
+    .filter(name => /^ppt\/slides\/slide\d+\.xml$/.test(name))
+    .sort((a, b) => number(a) - number(b));
+}
+
+/**
+ * Deck (.pptx) to markdown, one section per slide with its speaker notes
+ */
+export async function extractPresentationMarkdown(buffer: Buffer): Promise<string> {
+  const zip = await JSZip.loadAsync(buffer);
+  const sections: string[] = [];
+  const slides = await slideOrder(zip);
+
+  for (const [index, slidePath] of slides.entries()) {
+    const xml = await zip.file(slidePath)!.async('string');
+    const { title, body } = slideText(xml);
+
+    // Speaker notes live in a separate part linked from the slide
+    const slideDir = slidePath.slice(0, slidePath.lastIndexOf('/'));
+    const slideFile = slidePath.slice(slidePath.lastIndexOf('/') + 1);
+    const rels = await relationships(zip, `${slideDir}/_rels/${slideFile}.rels`, slideDir);
+    const notesTarget = [...rels.values()].find(rel => rel.type.endsWith('/notesSlide'))?.target;
+    const notesXml = notesTarget ? await zip.file(notesTarget)?.async('string') : undefined;
+    // Only the notes body placeholder; the rest is the slide thumbnail and header/footer
+    const notes = notesXml
+      ? (notesXml.match(/<p:sp[\s>][\s\S]*?<\/p:sp>/g) || [])
+          .filter(shape => /<p:ph[^>]*type="body"/.test(shape))
+          .flatMap(paragraphs)
+      : [];
+
+    if (!title && body.length === 0 && notes.length === 0) continue;
+
+    const lines = [`## Slide ${index + 1}${title ? `: ${title}` : ''}`, ''];
+    lines.push(...body.map(text => `- ${text}`));
+    if (notes.length > 0) {
+      lines.push('', '**Speaker notes:**', '', ...notes);
+    }
+    sections.push(lines.join('\n').trim());
+  }
+
+  return sections.join('\n\n');
+}
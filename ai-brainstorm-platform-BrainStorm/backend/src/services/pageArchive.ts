@@ -0,0 +1,265 @@
+import crypto from 'crypto';
+import { JSDOM } from 'jsdom';
+import { supabase } from './supabase';
+import { contentExtractionService } from './contentExtractionService';
+import { PAGE_ARCHIVE_CONFIG } from '../config/aiModels';
+
+/**
+ * PageArchiveService - Copies of the web pages research cited
+ *
+ * Pages change or disappear after research used them. Each web source of a
+ * research query is archived as it was fetched: cleaned HTML, text, a SHA-256
+ * of the text, the fetch time and (optionally) a screenshot. Research results,
+ * saved references and generated documents carry an ArchivedSourceLink so
+ * readers can open the copy the findings were based on.
+ */
+
+export interface PageArchive {
+  id: string;
+  projectId: string;
+  researchQueryId: string | null;
+  url: string;
+  title: string;
+  /** Cleaned HTML with scripts, frames and event handlers removed */
+  html: string | null;
+  textContent: string;
+  /** SHA-256 (hex) of textContent */
+  contentHash: string;
+  screenshotPath: string | null;
+  fetchedAt: string;
+  createdAt: string;
+}
+
+/**
+ * What a research result or document keeps to point at its archived copy
+ */
+export interface ArchivedSourceLink {
+  archiveId: string;
+  url: string;
+  contentHash: string;
+  fetchedAt: string;
+  hasScreenshot: boolean;
+}
+
+export interface ArchivablePage {
+  url: string;
+  title: string;
+  textContent: string;
+  html?: string;
+  /** When the page was fetched (defaults to now) */
+  fetchedAt?: string;
+}
+
+export class PageArchiveError extends Error {
+  constructor(message: string, public status: 400 | 404 = 400) {
+    super(message);
+    this.name = 'PageArchiveError';
+  }
+}
+
+// Larger pages keep their text but not their markup
+const MAX_HTML_LENGTH = 1_000_000;
+const SCREENSHOT_URL_TTL_SECONDS = 60 * 60;
+
+const REMOVED_ELEMENTS = 'script, noscript, iframe, frame, frameset, object, embed, applet, form, base, meta, link, template';
+
+export function hashPageContent(text: string): string {
+  return crypto.createHash('sha256').update(text).digest('hex');
+}
+
+/**
+ * Strip active content from archived HTML and make links absolute
+ * The result is shown in a sandboxed frame, but is cleaned here as well.
+ */
+export function sanitizeArchivedHtml(html: string, baseUrl: string): string {
+  const dom = new JSDOM(html, { url: baseUrl });
+  const document = dom.window.document;
+
+  document.querySelectorAll(REMOVED_ELEMENTS).forEach(element => element.remove());
+
+  document.querySelectorAll('*').forEach(element => {
+    for (const attribute of [...element.attributes]) {
+      const name = attribute.name.toLowerCase();
+      if (name.startsWith('on') || name === 'srcset' || name === 'formaction') {
+        element.removeAttribute(attribute.name);
+        continue;
+      }
+      if (name === 'href' || name === 'src') {
+        try {
+          const absolute = new URL(attribute.value, baseUrl);
+          if (!['http:', 'https:', 'data:', 'mailto:'].includes(absolute.protocol)) {
+            element.removeAttribute(attribute.name);
+          } else {
+            element.setAttribute(attribute.name, absolute.href);
+          }
+        } catch {
+          element.removeAttribute(attribute.name);
+        }
+      }
+    }
+  });
+
+  return document.body.innerHTML.trim();
+}
+
+function fromRow(row: any): PageArchive {
+  return {
+    id: row.id,
+    projectId: row.project_id,
+    researchQueryId: row.research_query_id,
+    url: row.url,
+    title: row.title,
+    html: row.html,
+    textContent: row.text_content,
+    contentHash: row.content_hash,
+    screenshotPath: row.screenshot_path,
+    fetchedAt: row.fetched_at,
+    createdAt: row.created_at,
+  };
+}
+
+export function toArchivedSourceLink(archive: PageArchive): ArchivedSourceLink {
+  return {
+    archiveId: archive.id,
+    url: archive.url,
+    contentHash: archive.contentHash,
+    fetchedAt: archive.fetchedAt,
+    hasScreenshot: Boolean(archive.screenshotPath),
+  };
+}
+
+export class PageArchiveService {
+  /**
+   * Archive one fetched page for a research query
+   */
+  async archivePage(projectId: string, researchQueryId: string | null, page: ArchivablePage): Promise<PageArchive> {
+    const id = crypto.randomUUID();
+    const html = page.html && page.html.length <= MAX_HTML_LENGTH
+      ? sanitizeArchivedHtml(page.html, page.url)
+      : null;
+    const screenshotPath = PAGE_ARCHIVE_CONFIG.screenshots
+      ? await this.storeScreenshot(projectId, id, page.url)
+      : null;
+
+    const { data, error } = await supabase
+      .from('page_archives')
+      .insert({
+        id,
+        project_id: projectId,
+        research_query_id: researchQueryId,
+        url: page.url,
+        title: page.title,
+        html,
+        text_content: page.textContent,
+        content_hash: hashPageContent(page.textContent),
+        screenshot_path: screenshotPath,
+        fetched_at: page.fetchedAt || new Date().toISOString(),
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to archive ${page.url}: ${error.message}`);
+    }
+    return fromRow(data);
+  }
+
+  /**
+   * Archive every page that has content; failures are logged and skipped
+   * Returns a link per archived URL.
+   */
+  async archivePages(
+    projectId: string,
+    researchQueryId: string | null,
+    pages: ArchivablePage[]
+  ): Promise<Map<string, ArchivedSourceLink>> {
+    const links = new Map<string, ArchivedSourceLink>();
+    if (!PAGE_ARCHIVE_CONFIG.enabled) return links;
+
+    for (const page of pages) {
+      if (!page.textContent || links.has(page.url)) continue;
+      try {
+        links.set(page.url, toArchivedSourceLink(await this.archivePage(projectId, researchQueryId, page)));
+      } catch (error: any) {
+        console.error(`[PageArchive] ${error.message || error}`);
+      }
+    }
+
+    console.log(`[PageArchive] Archived ${links.size}/${pages.length} pages for research query ${researchQueryId}`);
+    return links;
+  }
+
+  async getArchive(archiveId: string): Promise<PageArchive> {
+    const { data, error } = await supabase
+      .from('page_archives')
+      .select('*')
+      .eq('id', archiveId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to load page archive: ${error.message}`);
+    }
+    if (!data) {
+      throw new PageArchiveError('Page archive not found', 404);
+    }
+    return fromRow(data);
+  }
+
+  /**
+   * Archives of a research query (without their HTML and text)
+   */
+  async listForResearchQuery(researchQueryId: string): Promise<ArchivedSourceLink[]> {
+    const { data, error } = await supabase
+      .from('page_archives')
+      .select('id, url, content_hash, fetched_at, screenshot_path')
+      .eq('research_query_id', researchQueryId)
+      .order('fetched_at', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to load page archives: ${error.message}`);
+    }
+    return (data || []).map(row => ({
+      archiveId: row.id,
+      url: row.url,
+      contentHash: row.content_hash,
+      fetchedAt: row.fetched_at,
+      hasScreenshot: Boolean(row.screenshot_path),
+    }));
+  }
+
+  /**
+   * Short-lived link to an archive's screenshot, or null when it has none
+   */
+  async getScreenshotUrl(archive: PageArchive): Promise<string | null> {
+    if (!archive.screenshotPath) return null;
+
+    const { data, error } = await supabase.storage
+      .from(PAGE_ARCHIVE_CONFIG.bucket)
+      .createSignedUrl(archive.screenshotPath, SCREENSHOT_URL_TTL_SECONDS);
+
+    if (error) {
+      console.error(`[PageArchive] Could not sign screenshot URL for ${archive.id}:`, error.message);
+      return null;
+    }
+    return data.signedUrl;
+  }
+
+  private async storeScreenshot(projectId: string, archiveId: string, url: string): Promise<string | null> {
+    try {
+      const screenshot = await contentExtractionService.captureScreenshot(url);
+      const path = `${projectId}/${archiveId}.png`;
+
+      const { error } = await supabase.storage
+        .from(PAGE_ARCHIVE_CONFIG.bucket)
+        .upload(path, screenshot, { contentType: 'image/png', upsert: false });
+
+      if (error) throw error;
+      return path;
+    } catch (error: any) {
+      console.error(`[PageArchive] Screenshot failed for ${url}:`, error.message || error);
+      return null;
+    }
+  }
+}
+
+export const pageArchiveService = new PageArchiveService();
@@ -0,0 +1,173 @@
+import { supabase } from './supabase';
+import { getCacheStore } from './cacheStore';
+import { ProjectRole } from '../types';
+
+/**
+ * ProjectAccessService - Who may touch which project
+ *
+ * A user has access to a project when they own it (projects.user_id) or are
+ * listed in project_members; their role decides what they may do.
+ * Child resources (references, documents, sandboxes, ...) inherit access from
+ * the project they belong to, resolved through RESOURCE_OWNERS below.
+ * Decisions are cached briefly since every API request checks at least one,
+ * in the shared cache store so a membership change reaches every instance.
+ */
+
+export type { ProjectRole };
+
+/** Lowest to highest - each role can do everything the roles before it can */
+export const PROJECT_ROLES: ProjectRole[] = ['viewer', 'commenter', 'editor', 'owner'];
+
+export function isProjectRole(value: any): value is ProjectRole {
+  return PROJECT_ROLES.includes(value);
+}
+
+export function hasRole(role: ProjectRole, minRole: ProjectRole): boolean {
+  return PROJECT_ROLES.indexOf(role) >= PROJECT_ROLES.indexOf(minRole);
+}
+
+export interface ProjectAccess {
+  projectId: string;
+  userId: string;
+  role: ProjectRole;
+}
+
+/**
+ * How to find the owning project of a resource row
+ * `via` chains through a parent resource (e.g. sandbox conversation -> sandbox).
+ */
+interface ResourceOwner {
+  table: string;
+  column: string;
+  via?: ResourceType;
+}
+
+export type ResourceType =
+  | 'reference'
+  | 'document'
+  | 'generatedDocument'
+  | 'documentFolder'
+  | 'sandbox'
+  | 'sandboxConversation'
+  | 'brainstormSession'
+  | 'researchQuery'
+  | 'researchWatch'
+  | 'pageArchive';
+
+const RESOURCE_OWNERS: Record<ResourceType, ResourceOwner> = {
+  reference: { table: 'references', column: 'project_id' },
+  document: { table: 'documents', column: 'project_id' },
+  generatedDocument: { table: 'generated_documents', column: 'project_id' },
+  documentFolder: { table: 'document_folders', column: 'project_id' },
+  sandbox: { table: 'sandbox_sessions', column: 'project_id' },
+  sandboxConversation: { table: 'sandbox_conversations', column: 'sandbox_id', via: 'sandbox' },
+  brainstormSession: { table: 'brainstorm_sessions', column: 'project_id' },
+  researchQuery: { table: 'research_queries', column: 'project_id' },
+  researchWatch: { table: 'research_watches', column: 'project_id' },
+  pageArchive: { table: 'page_archives', column: 'project_id' },
+};
+
+const ACCESS_KEY_PREFIX = 'access:';
+const ACCESS_TTL_SECONDS = 60;
+
+function accessTag(projectId: string): string {
+  return `access:project:${projectId}`;
+}
+
+export class ProjectAccessService {
+  /**
+   * Get a user's access to a project, or null when they have none
+   * (or the project does not exist)
+   */
+  async getAccess(userId: string, projectId: string): Promise<ProjectAccess | null> {
+    const cacheKey = `${ACCESS_KEY_PREFIX}${projectId}:${userId}`;
+    const cached = await getCacheStore().get<{ access: ProjectAccess | null }>(cacheKey);
+    if (cached) {
+      return cached.access;
+    }
+
+    const { data: project, error } = await supabase
+      .from('projects')
+      .select('id, user_id')
+      .eq('id', projectId)
+      .maybeSingle();
+
+    if (error) {
+      // Don't cache failures - a transient DB error shouldn't lock users out
+      console.error('[ProjectAccess] Failed to load project:', error.message);
+      throw error;
+    }
+
+    let access: ProjectAccess | null = null;
+
+    if (project && project.user_id === userId) {
+      access = { projectId, userId, role: 'owner' };
+    } else if (project) {
+      const { data: member, error: memberError } = await supabase
+        .from('project_members')
+        .select('role')
+        .eq('project_id', projectId)
+        .eq('user_id', userId)
+        .maybeSingle();
+
+      if (memberError) {
+        console.error('[ProjectAccess] Failed to load membership:', memberError.message);
+        throw memberError;
+      }
+
+      if (member && isProjectRole(member.role)) {
+        access = { projectId, userId, role: member.role };
+      }
+    }
+
+    await getCacheStore().set(cacheKey, { access }, { ttlSeconds: ACCESS_TTL_SECONDS, tags: [accessTag(projectId)] });
+    return access;
+  }
+
+  /**
+   * Whether the user has at least minRole on the project
+   */
+  async canAccess(userId: string, projectId: string, minRole: ProjectRole = 'viewer'): Promise<boolean> {
+    const access = await this.getAccess(userId, projectId);
+    return access !== null && hasRole(access.role, minRole);
+  }
+
+  /**
+   * Resolve the project a resource belongs to
+   * Returns null when the resource does not exist.
+   */
+  async getResourceProjectId(type: ResourceType, resourceId: string): Promise<string | null> {
+    const owner = RESOURCE_OWNERS[type];
+
+    const { data, error } = await supabase
+      .from(owner.table)
+      .select(owner.column)
+      .eq('id', resourceId)
+      .maybeSingle();
+
+    if (error) {
+      console.error(`[ProjectAccess] Failed to resolve ${type} ${resourceId}:`, error.message);
+      throw error;
+    }
+
+    const parentId = data ? (data as Record<string, any>)[owner.column] : null;
+    if (!parentId) {
+      return null;
+    }
+
+    return owner.via ? this.getResourceProjectId(owner.via, parentId) : parentId;
+  }
+
+  /**
+   * Forget cached decisions (after membership changes or in tests)
+   */
+  async clearCache(projectId?: string): Promise<void> {
+    if (!projectId) {
+      await getCacheStore().clear(ACCESS_KEY_PREFIX);
+      return;
+    }
+    await getCacheStore().invalidateTags([accessTag(projectId)]);
+  }
+}
+
+export const projectAccessService = new ProjectAccessService();
@@ -0,0 +1,278 @@
+import crypto from 'crypto';
+import { supabase } from './supabase';
+import { projectAccessService } from './projectAccess';
+import { realtimeService } from './realtimeService';
+import { Project, ProjectMember, ProjectInvitation, ProjectRole } from '../types';
+
+/**
+ * ProjectMemberService - Project collaborators and invitations
+ *
+ * The owner is projects.user_id; everyone else is a project_members row.
+ * Invitations are either bound to an email (only that account may accept) or
+ * shareable links (anyone holding the token may accept until revoked/expired).
+ */
+
+export type InvitableRole = Exclude<ProjectRole, 'owner'>;
+
+export const INVITABLE_ROLES: InvitableRole[] = ['editor', 'commenter', 'viewer'];
+
+const DEFAULT_INVITATION_TTL_DAYS = 14;
+
+export class MembershipError extends Error {
+  constructor(message: string, public status: 400 | 403 | 404 | 409 = 400) {
+    super(message);
+    this.name = 'MembershipError';
+  }
+}
+
+export interface ProjectWithRole extends Project {
+  role: ProjectRole;
+}
+
+export class ProjectMemberService {
+  /**
+   * All members of a project, owner first
+   */
+  async listMembers(projectId: string): Promise<ProjectMember[]> {
+    const [{ data: project, error: projectError }, { data: members, error }] = await Promise.all([
+      supabase.from('projects').select('id, user_id').eq('id', projectId).single(),
+      supabase.from('project_members').select('*').eq('project_id', projectId).order('created_at', { ascending: true }),
+    ]);
+
+    if (projectError) throw projectError;
+    if (error) throw error;
+
+    const rows: ProjectMember[] = (members || []).filter(m => m.user_id !== project.user_id);
+    const ownerRow = (members || []).find(m => m.user_id === project.user_id);
+
+    return [
+      ownerRow ? { ...ownerRow, role: 'owner' } : { project_id: projectId, user_id: project.user_id, role: 'owner' },
+      ...rows,
+    ];
+  }
+
+  /**
+   * Projects a user owns or is a member of, most recently updated first
+   */
+  async getProjectsForUser(userId: string): Promise<ProjectWithRole[]> {
+    const [{ data: owned, error: ownedError }, { data: memberships, error: memberError }] = await Promise.all([
+      supabase.from('projects').select('*').eq('user_id', userId),
+      supabase.from('project_members').select('project_id, role').eq('user_id', userId),
+    ]);
+
+    if (ownedError) throw ownedError;
+    if (memberError) throw memberError;
+
+    const ownedIds = new Set((owned || []).map(p => p.id));
+    const sharedRoles = new Map<string, ProjectRole>(
+      (memberships || [])
+        .filter(m => !ownedIds.has(m.project_id))
+        .map(m => [m.project_id, m.role])
+    );
+
+    let shared: Project[] = [];
+    if (sharedRoles.size > 0) {
+      const { data, error } = await supabase
+        .from('projects')
+        .select('*')
+        .in('id', Array.from(sharedRoles.keys()));
+      if (error) throw error;
+      shared = data || [];
+    }
+
+    return [
+      ...(owned || []).map(p => ({ ...p, role: 'owner' as ProjectRole })),
+      ...shared.map(p => ({ ...p, role: sharedRoles.get(p.id)! })),
+    ].sort((a, b) => new Date(b.updated_at).getTime() - new Date(a.updated_at).getTime());
+  }
+
+  /**
+   * Change a collaborator's role (the owner's role can't be changed)
+   */
+  async updateRole(projectId: string, memberUserId: string, role: InvitableRole): Promise<ProjectMember> {
+    await this.assertNotOwner(projectId, memberUserId);
+
+    const { data, error } = await supabase
+      .from('project_members')
+      .update({ role, updated_at: new Date().toISOString() })
+      .eq('project_id', projectId)
+      .eq('user_id', memberUserId)
+      .select()
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) throw new MembershipError('Member not found', 404);
+
+    await projectAccessService.clearCache(projectId);
+    return data;
+  }
+
+  /**
+   * Remove a collaborator (or let them leave)
+   */
+  async removeMember(projectId: string, memberUserId: string): Promise<void> {
+    await this.assertNotOwner(projectId, memberUserId);
+
+    const { error } = await supabase
+      .from('project_members')
+      .delete()
+      .eq('project_id', projectId)
+      .eq('user_id', memberUserId);
+
+    if (error) throw error;
+
+    await projectAccessService.clearCache(projectId);
+    realtimeService.disconnectUser(projectId, memberUserId);
+  }
+
+  /**
+   * Invite by email, or create a shareable link when no email is given
+   */
+  async createInvitation(
+    projectId: string,
+    invitedBy: string,
+    options: { role: InvitableRole; email?: string; expiresInDays?: number }
+  ): Promise<ProjectInvitation> {
+    if (!INVITABLE_ROLES.includes(options.role)) {
+      throw new MembershipError(`role must be one of: ${INVITABLE_ROLES.join(', ')}`);
+    }
+
+    const email = options.email?.trim().toLowerCase() || null;
+    if (email && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+      throw new MembershipError('Invalid email address');
+    }
+
+    const ttlDays = options.expiresInDays ?? DEFAULT_INVITATION_TTL_DAYS;
+    const expiresAt = ttlDays > 0 ? new Date(Date.now() + ttlDays * 24 * 60 * 60 * 1000).toISOString() : null;
+
+    const { data, error } = await supabase
+      .from('project_invitations')
+      .insert({
+        project_id: projectId,
+        email,
+        role: options.role,
+        token: crypto.randomBytes(24).toString('base64url'),
+        invited_by: invitedBy,
+        expires_at: expiresAt,
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    console.log(`[ProjectMembers] ${email ? `Invited ${email}` : 'Created share link'} as ${options.role} on project ${projectId}`);
+    return data;
+  }
+
+  async listInvitations(projectId: string): Promise<ProjectInvitation[]> {
+    const { data, error } = await supabase
+      .from('project_invitations')
+      .select('*')
+      .eq('project_id', projectId)
+      .eq('status', 'pending')
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async revokeInvitation(projectId: string, invitationId: string): Promise<void> {
+    const { error } = await supabase
+      .from('project_invitations')
+      .update({ status: 'revoked' })
+      .eq('project_id', projectId)
+      .eq('id', invitationId);
+
+    if (error) throw error;
+  }
+
+  /**
+   * Pending, unexpired invitations addressed to an email (shown after sign-in)
+   */
+  async listInvitationsForEmail(email: string): Promise<Array<ProjectInvitation & { project_title?: string }>> {
+    const { data, error } = await supabase
+      .from('project_invitations')
+      .select('*, projects(title)')
+      .eq('email', email.toLowerCase())
+      .eq('status', 'pending');
+
+    if (error) throw error;
+
+    return (data || [])
+      .filter(inv => !this.isExpired(inv))
+      .map(({ projects, ...inv }: any) => ({ ...inv, project_title: projects?.title }));
+  }
+
+  /**
+   * Look up a pending invitation by its token
+   */
+  async getInvitation(token: string): Promise<ProjectInvitation> {
+    const { data, error } = await supabase
+      .from('project_invitations')
+      .select('*')
+      .eq('token', token)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data || data.status === 'revoked') throw new MembershipError('Invitation not found', 404);
+    if (data.status === 'accepted') throw new MembershipError('Invitation has already been used', 409);
+    if (this.isExpired(data)) throw new MembershipError('Invitation has expired', 409);
+
+    return data;
+  }
+
+  /**
+   * Accept an invitation as the signed-in user
+   * Email invitations are single-use; share links stay valid for other people.
+   */
+  async acceptInvitation(token: string, user: { id: string; email?: string }): Promise<ProjectMember> {
+    const invitation = await this.getInvitation(token);
+
+    if (invitation.email && invitation.email !== user.email?.toLowerCase()) {
+      throw new MembershipError('This invitation was sent to a different email address', 403);
+    }
+
+    const existing = await projectAccessService.getAccess(user.id, invitation.project_id);
+    if (existing) {
+      throw new MembershipError(`You are already a ${existing.role} on this project`, 409);
+    }
+
+    const { data: member, error } = await supabase
+      .from('project_members')
+      .insert({
+        project_id: invitation.project_id,
+        user_id: user.id,
+        email: user.email?.toLowerCase() || null,
+        role: invitation.role,
+        invited_by: invitation.invited_by,
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    if (invitation.email) {
+      await supabase
+        .from('project_invitations')
+        .update({ status: 'accepted', accepted_by: user.id, accepted_at: new Date().toISOString() })
+        .eq('id', invitation.id);
+    }
+
+    await projectAccessService.clearCache(invitation.project_id);
+    console.log(`[ProjectMembers] ${user.id} joined project ${invitation.project_id} as ${invitation.role}`);
+    return member;
+  }
+
+  private isExpired(invitation: Pick<ProjectInvitation, 'expires_at'>): boolean {
+    return !!invitation.expires_at && new Date(invitation.expires_at).getTime() < Date.now();
+  }
+
+  private async assertNotOwner(projectId: string, userId: string): Promise<void> {
+    const access = await projectAccessService.getAccess(userId, projectId);
+    if (access?.role === 'owner') {
+      throw new MembershipError("The project owner's membership can't be changed", 400);
+    }
+  }
+}
+
+export const projectMemberService = new ProjectMemberService();
@@ -0,0 +1,425 @@
+import { supabase } from './supabase';
+import { runWithUsageContext } from './usageContext';
+import { PROJECT_MEMORY_CONFIG } from '../config/aiModels';
+import {
+  ProjectMemoryAgent,
+  MemoryFactCategory,
+  MemoryUpdate,
+  MEMORY_FACT_CATEGORIES,
+} from '../agents/memoryAgent';
+
+/**
+ * ProjectMemoryService - Long-term memory of a project's conversation
+ *
+ * Agents only see the last few messages (see ContextPruner). As the
+ * conversation grows, new messages are folded in batches into a rolling
+ * summary and a list of durable facts, which every agent handling a chat
+ * message gets in its system prompt. Members can read and edit the memory;
+ * facts they wrote or edited are never retired by the agent.
+ */
+
+export { MEMORY_FACT_CATEGORIES };
+export type { MemoryFactCategory };
+
+export type MemoryFactSource = 'extracted' | 'user';
+
+export interface MemoryFact {
+  id: string;
+  projectId: string;
+  category: MemoryFactCategory;
+  content: string;
+  /** Why an idea was rejected (rejected_idea), optional otherwise */
+  reason: string | null;
+  source: MemoryFactSource;
+  sourceMessageId: string | null;
+  createdBy: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ProjectMemory {
+  projectId: string;
+  summary: string;
+  /** created_at of the last message folded into the summary */
+  summarizedThrough: string | null;
+  summarizedMessageCount: number;
+  /** Set when a member last edited the summary by hand */
+  summaryEditedBy: string | null;
+  updatedAt: string | null;
+  facts: MemoryFact[];
+}
+
+export interface MemoryFactInput {
+  category: MemoryFactCategory;
+  content: string;
+  reason?: string | null;
+}
+
+export class ProjectMemoryError extends Error {
+  constructor(message: string, public status: 400 | 404 = 400) {
+    super(message);
+    this.name = 'ProjectMemoryError';
+  }
+}
+
+// Most messages folded in one update; the rest wait for the next one
+const MAX_MESSAGES_PER_UPDATE = 40;
+const MAX_SUMMARY_LENGTH = 5000;
+const MAX_FACT_LENGTH = 500;
+
+const CATEGORY_HEADINGS: Record<MemoryFactCategory, string> = {
+  constraint: 'Constraints',
+  preference: 'Preferences',
+  stakeholder: 'Stakeholders',
+  rejected_idea: 'Rejected ideas',
+  answer: 'Already answered',
+};
+
+function factFromRow(row: any): MemoryFact {
+  return {
+    id: row.id,
+    projectId: row.project_id,
+    category: row.category,
+    content: row.content,
+    reason: row.reason,
+    source: row.source,
+    sourceMessageId: row.source_message_id,
+    createdBy: row.created_by,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+function emptyMemory(projectId: string): ProjectMemory {
+  return {
+    projectId,
+    summary: '',
+    summarizedThrough: null,
+    summarizedMessageCount: 0,
+    summaryEditedBy: null,
+    updatedAt: null,
+    facts: [],
+  };
+}
+
+/**
+ * Validate a fact from a request body
+ */
+export function normalizeFactInput(input: any): MemoryFactInput {
+  if (!MEMORY_FACT_CATEGORIES.includes(input?.category)) {
+    throw new ProjectMemoryError(`category must be one of: ${MEMORY_FACT_CATEGORIES.join(', ')}`);
+  }
+  const content = typeof input.content === 'string' ? input.content.trim() : '';
+  if (!content) {
+    throw new ProjectMemoryError('content is required');
+  }
+  if (content.length > MAX_FACT_LENGTH) {
+    throw new ProjectMemoryError(`content must be at most ${MAX_FACT_LENGTH} characters`);
+  }
+  const reason = typeof input.reason === 'string' && input.reason.trim() ? input.reason.trim() : null;
+  return { category: input.category, content, reason };
+}
+
+/**
+ * Render memory as a system prompt section ('' when there is nothing to remember)
+ * Facts are grouped by category; at most maxFacts of the newest are included.
+ */
+export function formatMemoryForPrompt(
+  memory: Pick<ProjectMemory, 'summary' | 'facts'>,
+  maxFacts: number = PROJECT_MEMORY_CONFIG.maxFacts
+): string {
+  const facts = [...memory.facts]
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+    .slice(0, maxFacts);
+  if (!memory.summary.trim() && facts.length === 0) return '';
+
+  let prompt = 'PROJECT MEMORY (from earlier in this project - treat as known, do not ask about it again):\n';
+  if (memory.summary.trim()) {
+    prompt += `\nSummary of earlier conversation:\n${memory.summary.trim()}\n`;
+  }
+
+  for (const category of MEMORY_FACT_CATEGORIES) {
+    const inCategory = facts.filter(fact => fact.category === category);
+    if (inCategory.length === 0) continue;
+    prompt += `\n${CATEGORY_HEADINGS[category]}:\n`;
+    prompt += inCategory
+      .map(fact => `- ${fact.content}${fact.reason ? ` (reason: ${fact.reason})` : ''}`)
+      .join('\n');
+    prompt += '\n';
+  }
+
+  return prompt.trim();
+}
+
+export class ProjectMemoryService {
+  private agent: ProjectMemoryAgent | null = null;
+  // Projects with an update running; a second trigger waits for the next message
+  private updating = new Set<string>();
+
+  async getMemory(projectId: string): Promise<ProjectMemory> {
+    const [{ data: row, error }, { data: factRows, error: factsError }] = await Promise.all([
+      supabase.from('project_memory').select('*').eq('project_id', projectId).maybeSingle(),
+      supabase
+        .from('project_memory_facts')
+        .select('*')
+        .eq('project_id', projectId)
+        .order('created_at', { ascending: true }),
+    ]);
+
+    if (error || factsError) {
+      throw new Error(`Failed to load project memory: ${(error || factsError)!.message}`);
+    }
+
+    const memory = emptyMemory(projectId);
+    if (row) {
+      memory.summary = row.summary || '';
+      memory.summarizedThrough = row.summarized_through;
+      memory.summarizedMessageCount = row.summarized_message_count || 0;
+      memory.summaryEditedBy = row.summary_edited_by;
+      memory.updatedAt = row.updated_at;
+    }
+    memory.facts = (factRows || []).map(factFromRow);
+    return memory;
+  }
+
+  /**
+   * Memory section for the system prompts of agents working on this project
+   * Never throws - agents run without memory when it cannot be loaded.
+   */
+  async getPromptContext(projectId: string): Promise<string> {
+    if (!PROJECT_MEMORY_CONFIG.enabled) return '';
+    try {
+      return formatMemoryForPrompt(await this.getMemory(projectId));
+    } catch (error: any) {
+      console.error(`[ProjectMemory] Could not load memory for ${projectId}:`, error.message);
+      return '';
+    }
+  }
+
+  async updateSummary(projectId: string, summary: unknown, userId: string | null): Promise<ProjectMemory> {
+    if (typeof summary !== 'string') {
+      throw new ProjectMemoryError('summary must be a string');
+    }
+    if (summary.length > MAX_SUMMARY_LENGTH) {
+      throw new ProjectMemoryError(`summary must be at most ${MAX_SUMMARY_LENGTH} characters`);
+    }
+
+    const { error } = await supabase
+      .from('project_memory')
+      .upsert({
+        project_id: projectId,
+        summary: summary.trim(),
+        summary_edited_by: userId,
+        updated_at: new Date().toISOString(),
+      }, { onConflict: 'project_id' });
+
+    if (error) {
+      throw new Error(`Failed to save memory summary: ${error.message}`);
+    }
+    return this.getMemory(projectId);
+  }
+
+  async addFact(projectId: string, input: any, userId: string | null): Promise<MemoryFact> {
+    const fact = normalizeFactInput(input);
+
+    const { data, error } = await supabase
+      .from('project_memory_facts')
+      .insert({
+        project_id: projectId,
+        category: fact.category,
+        content: fact.content,
+        reason: fact.reason,
+        source: 'user',
+        created_by: userId,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to add memory fact: ${error.message}`);
+    }
+    return factFromRow(data);
+  }
+
+  /**
+   * Edit a fact; edited facts count as the user's and are kept by later updates
+   */
+  async updateFact(projectId: string, factId: string, input: any): Promise<MemoryFact> {
+    const fact = normalizeFactInput(input);
+
+    const { data, error } = await supabase
+      .from('project_memory_facts')
+      .update({
+        category: fact.category,
+        content: fact.content,
+        reason: fact.reason,
+        source: 'user',
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', factId)
+      .eq('project_id', projectId)
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to update memory fact: ${error.message}`);
+    }
+    if (!data) {
+      throw new ProjectMemoryError('Memory fact not found', 404);
+    }
+    return factFromRow(data);
+  }
+
+  async deleteFact(projectId: string, factId: string): Promise<void> {
+    const { data, error } = await supabase
+      .from('project_memory_facts')
+      .delete()
+      .eq('id', factId)
+      .eq('project_id', projectId)
+      .select('id');
+
+    if (error) {
+      throw new Error(`Failed to delete memory fact: ${error.message}`);
+    }
+    if (!data || data.length === 0) {
+      throw new ProjectMemoryError('Memory fact not found', 404);
+    }
+  }
+
+  /**
+   * Fold messages newer than the summary into the memory
+   * Waits until PROJECT_MEMORY_CONFIG.batchSize messages have accumulated
+   * unless force is set. Returns null when nothing was folded.
+   */
+  async updateFromConversation(projectId: string, options: { force?: boolean } = {}): Promise<ProjectMemory | null> {
+    if (!PROJECT_MEMORY_CONFIG.enabled || this.updating.has(projectId)) return null;
+    this.updating.add(projectId);
+
+    try {
+      const memory = await this.getMemory(projectId);
+      const messages = await this.getMessagesAfter(projectId, memory.summarizedThrough);
+
+      if (messages.length === 0 || (!options.force && messages.length < PROJECT_MEMORY_CONFIG.batchSize)) {
+        return null;
+      }
+
+      // The agent gets the memory explicitly, not through its system prompt
+      const update = await runWithUsageContext({ projectId, operation: 'project-memory', projectMemory: undefined }, () =>
+        this.getAgent().update({
+          summary: memory.summary,
+          facts: memory.facts.map(({ id, category, content, reason }) => ({ id, category, content, reason })),
+          messages: messages.map(({ role, content }) => ({ role, content })),
+        })
+      );
+
+      if (!await this.applyUpdate(memory, update, messages)) {
+        // The messages are folded again, into the edited summary, on the next trigger
+        console.log(`[ProjectMemory] ${projectId}: summary changed during the update, discarding it`);
+        return null;
+      }
+      console.log(
+        `[ProjectMemory] ${projectId}: folded ${messages.length} messages, ` +
+        `+${update.newFacts.length} facts, -${update.obsoleteFactIds.length} retired`
+      );
+      return this.getMemory(projectId);
+    } finally {
+      this.updating.delete(projectId);
+    }
+  }
+
+  /**
+   * Save an agent update
+   * The summary is written only if the memory row is unchanged since it was read
+   * (a member may have edited it while the agent ran); returns false, writing
+   * nothing, when it changed.
+   */
+  private async applyUpdate(
+    memory: ProjectMemory,
+    update: MemoryUpdate,
+    messages: Array<{ id: string; created_at: string }>
+  ): Promise<boolean> {
+    const projectId = memory.projectId;
+    const row = {
+      project_id: projectId,
+      summary: update.summary.substring(0, MAX_SUMMARY_LENGTH),
+      summarized_through: messages[messages.length - 1].created_at,
+      summarized_message_count: memory.summarizedMessageCount + messages.length,
+      updated_at: new Date().toISOString(),
+    };
+
+    if (memory.updatedAt) {
+      const { data, error } = await supabase
+        .from('project_memory')
+        .update(row)
+        .eq('project_id', projectId)
+        .eq('updated_at', memory.updatedAt)
+        .select('project_id');
+      if (error) throw new Error(`Failed to save memory summary: ${error.message}`);
+      if (!data || data.length === 0) return false;
+    } else {
+      const { error } = await supabase.from('project_memory').insert(row);
+      // A member saved the first summary meanwhile
+      if (error?.code === '23505') return false;
+      if (error) throw new Error(`Failed to save memory summary: ${error.message}`);
+    }
+
+    // Only facts the agent wrote may be retired by it, and not once a member has edited them
+    const retirable = memory.facts
+      .filter(fact => fact.source === 'extracted' && update.obsoleteFactIds.includes(fact.id))
+      .map(fact => fact.id);
+    if (retirable.length > 0) {
+      const { error } = await supabase
+        .from('project_memory_facts')
+        .delete()
+        .eq('project_id', projectId)
+        .eq('source', 'extracted')
+        .in('id', retirable);
+      if (error) throw new Error(`Failed to retire memory facts: ${error.message}`);
+    }
+
+    if (update.newFacts.length > 0) {
+      const { error } = await supabase
+        .from('project_memory_facts')
+        .insert(update.newFacts.map(fact => ({
+          project_id: projectId,
+          category: fact.category,
+          content: fact.content.substring(0, MAX_FACT_LENGTH),
+          reason: fact.reason || null,
+          source: 'extracted',
+          source_message_id: fact.messageIndex !== undefined ? messages[fact.messageIndex]?.id ?? null : null,
+        })));
+      if (error) throw new Error(`Failed to save memory facts: ${error.message}`);
+    }
+    return true;
+  }
+
+  private async getMessagesAfter(
+    projectId: string,
+    after: string | null
+  ): Promise<Array<{ id: string; role: string; content: string; created_at: string }>> {
+    let query = supabase
+      .from('messages')
+      .select('id, role, content, created_at')
+      .eq('project_id', projectId)
+      .order('created_at', { ascending: true })
+      .limit(MAX_MESSAGES_PER_UPDATE);
+    if (after) {
+      query = query.gt('created_at', after);
+    }
+
+    const { data, error } = await query;
+    if (error) {
+      throw new Error(`Failed to load messages for memory: ${error.message}`);
+    }
+    return (data || []).filter(message => message.content);
+  }
+
+  private getAgent(): ProjectMemoryAgent {
+    if (!this.agent) {
+      this.agent = new ProjectMemoryAgent();
+    }
+    return this.agent;
+  }
+}
+
+export const projectMemoryService = new ProjectMemoryService();
@@ -0,0 +1,279 @@
+import crypto from 'crypto';
+import { Response } from 'express';
+import { diffItems } from '../utils/projectHelpers';
+import { invalidateProjectCaches } from './cacheStore';
+import { projectAccessService } from './projectAccess';
+
+/**
+ * RealtimeService - Project-scoped Server-Sent Events channel
+ *
+ * Every client with a project open keeps one SSE connection. Routes and
+ * services publish messages, item changes, canvas moves, clusters and
+ * generated-document updates here, and the service fans them out to every
+ * connection on that project. Connections also carry presence: who is
+ * connected and which view (chat, canvas, documents, ...) they are looking at.
+ *
+ * State is per process; clients reconnect and reload the project if the
+ * stream drops, so nothing here needs to be durable. Removing a member closes
+ * their streams on this instance at once; every heartbeat re-checks access,
+ * which closes them on other instances too.
+ */
+
+export type RealtimeEventType =
+  | 'connected'
+  | 'message'
+  | 'items'
+  | 'positions'
+  | 'clusters'
+  | 'document'
+  | 'presence'
+  | 'approvals';
+
+export const PRESENCE_VIEWS = ['chat', 'canvas', 'documents', 'intelligence', 'research', 'sandbox', 'other'] as const;
+export type PresenceView = typeof PRESENCE_VIEWS[number];
+
+/** Header the frontend sends so a client's own writes aren't echoed back to it */
+export const REALTIME_CONNECTION_HEADER = 'x-realtime-connection';
+
+export interface PresenceEntry {
+  userId: string;
+  email?: string;
+  view: PresenceView;
+  since: string;
+}
+
+export interface PublishOptions {
+  /** Connection that caused the change (it already has the result) */
+  excludeConnectionId?: string;
+}
+
+interface Connection {
+  id: string;
+  projectId: string;
+  user: { id: string; email?: string };
+  res: Response;
+  view: PresenceView;
+  viewSince: number;
+}
+
+const HEARTBEAT_INTERVAL_MS = 25000;
+
+export function isPresenceView(value: unknown): value is PresenceView {
+  return typeof value === 'string' && (PRESENCE_VIEWS as readonly string[]).includes(value);
+}
+
+export class RealtimeService {
+  private connections = new Map<string, Connection>();
+  private projectConnections = new Map<string, Set<string>>();
+  private eventSeq = 0;
+
+  constructor() {
+    // Comment frames keep proxies from closing idle streams
+    setInterval(() => this.heartbeat(), HEARTBEAT_INTERVAL_MS).unref();
+  }
+
+  /**
+   * Register an open SSE response for a project
+   * Sends the new connection its id and the current presence list.
+   */
+  connect(projectId: string, user: { id: string; email?: string }, res: Response, view: PresenceView = 'chat'): string {
+    const connection: Connection = {
+      id: crypto.randomUUID(),
+      projectId,
+      user: { id: user.id, email: user.email },
+      res,
+      view,
+      viewSince: Date.now(),
+    };
+
+    this.connections.set(connection.id, connection);
+    if (!this.projectConnections.has(projectId)) {
+      this.projectConnections.set(projectId, new Set());
+    }
+    this.projectConnections.get(projectId)!.add(connection.id);
+
+    console.log(`[Realtime] ${user.id} connected to project ${projectId} (${connection.id})`);
+
+    this.send(connection, 'connected', {
+      connectionId: connection.id,
+      projectId,
+      presence: this.getPresence(projectId),
+    });
+    this.broadcastPresence(projectId);
+
+    return connection.id;
+  }
+
+  disconnect(connectionId: string): void {
+    const connection = this.connections.get(connectionId);
+    if (!connection) return;
+
+    this.connections.delete(connectionId);
+    const projectSet = this.projectConnections.get(connection.projectId);
+    projectSet?.delete(connectionId);
+    if (projectSet && projectSet.size === 0) {
+      this.projectConnections.delete(connection.projectId);
+    }
+
+    console.log(`[Realtime] ${connection.user.id} disconnected from project ${connection.projectId}`);
+    this.broadcastPresence(connection.projectId);
+  }
+
+  /**
+   * End a user's streams on a project (after they lose access to it)
+   */
+  disconnectUser(projectId: string, userId: string): number {
+    let closed = 0;
+    for (const connectionId of Array.from(this.projectConnections.get(projectId) || [])) {
+      const connection = this.connections.get(connectionId)!;
+      if (connection.user.id !== userId) continue;
+      this.close(connection);
+      closed++;
+    }
+    return closed;
+  }
+
+  /**
+   * Update which view a connection is looking at
+   * Returns false if the connection doesn't exist or belongs to someone else.
+   */
+  setView(projectId: string, connectionId: string, userId: string, view: PresenceView): boolean {
+    const connection = this.connections.get(connectionId);
+    if (!connection || connection.projectId !== projectId || connection.user.id !== userId) {
+      return false;
+    }
+
+    if (connection.view !== view) {
+      connection.view = view;
+      connection.viewSince = Date.now();
+      this.broadcastPresence(projectId);
+    }
+    return true;
+  }
+
+  /**
+   * One entry per user; with several tabs open, the most recently changed view wins
+   */
+  getPresence(projectId: string): PresenceEntry[] {
+    const byUser = new Map<string, Connection>();
+
+    for (const connectionId of this.projectConnections.get(projectId) || []) {
+      const connection = this.connections.get(connectionId)!;
+      const existing = byUser.get(connection.user.id);
+      if (!existing || connection.viewSince > existing.viewSince) {
+        byUser.set(connection.user.id, connection);
+      }
+    }
+
+    return Array.from(byUser.values()).map(connection => ({
+      userId: connection.user.id,
+      email: connection.user.email,
+      view: connection.view,
+      since: new Date(connection.viewSince).toISOString(),
+    }));
+  }
+
+  /**
+   * Push an event to every connection on a project
+   */
+  publish(projectId: string, type: RealtimeEventType, data: Record<string, any>, options: PublishOptions = {}): void {
+    // Every item change is published here, so cached answers about the old state are dropped here too
+    if (type === 'items') {
+      invalidateProjectCaches(projectId).catch((error: any) =>
+        console.error('[Realtime] Cache invalidation failed:', error.message)
+      );
+    }
+
+    const connectionIds = this.projectConnections.get(projectId);
+    if (!connectionIds || connectionIds.size === 0) return;
+
+    const frame = this.formatFrame(type, data);
+    for (const connectionId of Array.from(connectionIds)) {
+      if (connectionId === options.excludeConnectionId) continue;
+      this.write(this.connections.get(connectionId)!, frame);
+    }
+  }
+
+  /**
+   * Publish the difference between two item arrays (no-op when nothing changed)
+   */
+  publishItemChanges(
+    projectId: string,
+    previousItems: any[],
+    nextItems: any[],
+    options: PublishOptions & { actorId?: string } = {}
+  ): void {
+    const { itemsAdded, itemsModified, removedIds } = diffItems(previousItems, nextItems);
+    if (itemsAdded.length === 0 && itemsModified.length === 0 && removedIds.length === 0) return;
+
+    this.publish(
+      projectId,
+      'items',
+      { itemsAdded, itemsModified, removedIds, actorId: options.actorId },
+      options
+    );
+  }
+
+  getStats(): { projects: number; connections: number } {
+    return {
+      projects: this.projectConnections.size,
+      connections: this.connections.size,
+    };
+  }
+
+  private broadcastPresence(projectId: string): void {
+    this.publish(projectId, 'presence', { presence: this.getPresence(projectId) });
+  }
+
+  private send(connection: Connection, type: RealtimeEventType, data: Record<string, any>): void {
+    this.write(connection, this.formatFrame(type, data));
+  }
+
+  private formatFrame(type: RealtimeEventType, data: Record<string, any>): string {
+    this.eventSeq++;
+    return `id: ${this.eventSeq}\nevent: ${type}\ndata: ${JSON.stringify(data)}\n\n`;
+  }
+
+  private write(connection: Connection, frame: string): void {
+    try {
+      connection.res.write(frame);
+    } catch (error) {
+      console.error(`[Realtime] Dropping connection ${connection.id}:`, error);
+      this.disconnect(connection.id);
+    }
+  }
+
+  private close(connection: Connection): void {
+    this.disconnect(connection.id);
+    try {
+      connection.res.end();
+    } catch (error) {
+      console.error(`[Realtime] Failed to end connection ${connection.id}:`, error);
+    }
+  }
+
+  private heartbeat(): void {
+    for (const connection of Array.from(this.connections.values())) {
+      this.write(connection, ': heartbeat\n\n');
+    }
+    this.closeRevokedConnections().catch((error: any) =>
+      console.error('[Realtime] Access re-check failed:', error.message)
+    );
+  }
+
+  /** Access is cached in the shared store, so this sees removals made on any instance */
+  private async closeRevokedConnections(): Promise<void> {
+    for (const connection of Array.from(this.connections.values())) {
+      try {
+        if (!(await projectAccessService.canAccess(connection.user.id, connection.projectId))) {
+          console.log(`[Realtime] ${connection.user.id} lost access to project ${connection.projectId}`);
+          this.close(connection);
+        }
+      } catch {
+        // A failed lookup keeps the stream open until the next heartbeat
+      }
+    }
+  }
+}
+
+export const realtimeService = new RealtimeService();
@@ -0,0 +1,745 @@
+import crypto from 'crypto';
+import { supabase } from './supabase';
+import { sourceQualityService } from './sourceQualityService';
+import { realtimeService } from './realtimeService';
+import { getSearchProvider, PageSnapshot } from './searchProvider';
+import { sourceTrustPolicyService, isBlockedUrl } from './sourceTrustPolicy';
+import { pageArchiveService, ArchivablePage, ArchivedSourceLink } from './pageArchive';
+import { contentExtractionService } from './contentExtractionService';
+import { GeneratedDocumentsService } from './generatedDocumentsService';
+import { budgetService, BudgetStatus } from './budgetService';
+import { runWithUsageContext } from './usageContext';
+import { UnifiedResearchAgent } from '../agents/unifiedResearchAgent';
+import { nextCronRun, shortestCronInterval } from '../utils/cron';
+import { assertPublicUrl } from '../utils/urlSafety';
+
+/**
+ * ResearchWatchService - Recurring research with change alerts
+ *
+ * A watch is a saved query, plus pages to re-check, run on a cron schedule.
+ * Each run's sources are compared with what earlier runs saw: a URL never
+ * seen before (and not a copy of a known page) is new, a known URL whose text
+ * is no longer a near-duplicate of its last snapshot has changed. New and
+ * changed sources are posted to the project as an agent message; the first
+ * run only records the baseline.
+ */
+
+export interface ResearchWatch {
+  id: string;
+  projectId: string;
+  userId: string;
+  query: string;
+  /** Pages fetched on every run in addition to the search results */
+  urls: string[];
+  /** Five-field cron expression, in UTC */
+  schedule: string;
+  maxSources: number;
+  /** Check generated documents built on this research when something changed */
+  reexamineDocuments: boolean;
+  enabled: boolean;
+  nextRunAt: string | null;
+  lastRunAt: string | null;
+  lastRunStatus: 'completed' | 'failed' | null;
+  createdAt: string;
+}
+
+export interface WatchInput {
+  query: string;
+  urls?: string[];
+  schedule: string;
+  maxSources?: number;
+  reexamineDocuments?: boolean;
+  enabled?: boolean;
+}
+
+export interface WatchSource {
+  url: string;
+  title: string;
+  snippet: string;
+  content: string;
+  /** Copy of the page as this run fetched it */
+  archive?: ArchivedSourceLink;
+}
+
+export interface ChangedSource extends WatchSource {
+  /** Word overlap with the previous snapshot (0-1) */
+  similarity: number;
+}
+
+export interface WatchSourceDiff {
+  newSources: WatchSource[];
+  changedSources: ChangedSource[];
+}
+
+export interface WatchDocumentCheck {
+  documentId: string;
+  title: string;
+  needsReexamination: boolean;
+  reason: string;
+}
+
+export interface ResearchWatchRun extends WatchSourceDiff {
+  id: string;
+  watchId: string;
+  projectId: string;
+  researchQueryId: string | null;
+  status: 'completed' | 'failed';
+  sources: WatchSource[];
+  baseline: boolean;
+  messageId: string | null;
+  documents: WatchDocumentCheck[];
+  error: string | null;
+  startedAt: string;
+  completedAt: string | null;
+}
+
+export class ResearchWatchError extends Error {
+  constructor(message: string, public status: 400 | 404 = 400) {
+    super(message);
+    this.name = 'ResearchWatchError';
+  }
+}
+
+const POLL_INTERVAL_MS = 60 * 1000;
+const MAX_SOURCES_LIMIT = 20;
+const MAX_URLS = 20;
+const MAX_CONTENT_LENGTH = 5000;
+// Every run is a web search plus model calls; more often than hourly is rarely worth it
+const MIN_INTERVAL_MINUTES = 60;
+// Earlier runs whose snapshots later runs are compared with
+const HISTORY_RUNS = 10;
+
+function fromRow(row: any): ResearchWatch {
+  return {
+    id: row.id,
+    projectId: row.project_id,
+    userId: row.user_id,
+    query: row.query,
+    urls: row.urls || [],
+    schedule: row.schedule,
+    maxSources: row.max_sources,
+    reexamineDocuments: row.reexamine_documents,
+    enabled: row.enabled,
+    nextRunAt: row.next_run_at,
+    lastRunAt: row.last_run_at,
+    lastRunStatus: row.last_run_status,
+    createdAt: row.created_at,
+  };
+}
+
+function runFromRow(row: any): ResearchWatchRun {
+  return {
+    id: row.id,
+    watchId: row.watch_id,
+    projectId: row.project_id,
+    researchQueryId: row.research_query_id,
+    status: row.status,
+    sources: row.sources || [],
+    newSources: row.new_sources || [],
+    changedSources: row.changed_sources || [],
+    baseline: row.baseline,
+    messageId: row.message_id,
+    documents: row.documents || [],
+    error: row.error,
+    startedAt: row.started_at,
+    completedAt: row.completed_at,
+  };
+}
+
+/**
+ * Validate and normalize watch fields (partial for updates)
+ */
+function toColumns(input: Partial<WatchInput>): Record<string, any> {
+  const columns: Record<string, any> = {};
+
+  if (input.query !== undefined) {
+    if (typeof input.query !== 'string' || !input.query.trim()) {
+      throw new ResearchWatchError('query must be a non-empty string');
+    }
+    columns.query = input.query.trim();
+  }
+  if (input.schedule !== undefined) {
+    let interval: number;
+    try {
+      interval = shortestCronInterval(input.schedule);
+      columns.schedule = input.schedule.trim();
+      columns.next_run_at = nextCronRun(columns.schedule).toISOString();
+    } catch (error: any) {
+      throw new ResearchWatchError(error.message);
+    }
+    if (interval < MIN_INTERVAL_MINUTES) {
+      throw new ResearchWatchError(`schedule must not run more often than every ${MIN_INTERVAL_MINUTES} minutes`);
+    }
+  }
+  if (input.urls !== undefined) {
+    const valid = Array.isArray(input.urls) && input.urls.every(url => typeof url === 'string' && /^https?:\/\//i.test(url));
+    if (!valid || input.urls.length > MAX_URLS) {
+      throw new ResearchWatchError(`urls must be a list of at most ${MAX_URLS} http(s) URLs`);
+    }
+    columns.urls = [...new Set(input.urls)];
+  }
+  if (input.maxSources !== undefined) {
+    if (!Number.isInteger(input.maxSources) || input.maxSources < 1 || input.maxSources > MAX_SOURCES_LIMIT) {
+      throw new ResearchWatchError(`maxSources must be between 1 and ${MAX_SOURCES_LIMIT}`);
+    }
+    columns.max_sources = input.maxSources;
+  }
+  if (input.reexamineDocuments !== undefined) {
+    columns.reexamine_documents = Boolean(input.reexamineDocuments);
+  }
+  if (input.enabled !== undefined) {
+    columns.enabled = Boolean(input.enabled);
+  }
+
+  return columns;
+}
+
+/**
+ * Reject watched pages on private, loopback or link-local addresses
+ */
+async function assertPublicUrls(urls: string[] | undefined): Promise<void> {
+  for (const url of urls || []) {
+    try {
+      await assertPublicUrl(url);
+    } catch (error: any) {
+      throw new ResearchWatchError(`urls: ${error.message}`);
+    }
+  }
+}
+
+/**
+ * Compare a run's sources with the snapshots of earlier runs
+ * A new URL whose text duplicates a known page (a mirror or syndicated copy)
+ * is not reported.
+ */
+export async function diffSources(current: WatchSource[], previous: WatchSource[]): Promise<WatchSourceDiff> {
+  const previousByUrl = new Map(previous.map(source => [source.url, source]));
+  const previousContents = previous.map(source => source.content).filter(Boolean);
+  const diff: WatchSourceDiff = { newSources: [], changedSources: [] };
+
+  for (const source of current) {
+    const prior = previousByUrl.get(source.url);
+
+    if (prior) {
+      // Pages that couldn't be fetched now or then can't be compared
+      if (!source.content || !prior.content) continue;
+      const check = await sourceQualityService.detectDuplicate(source.content, [prior.content]);
+      if (!check.isDuplicate) {
+        diff.changedSources.push({ ...source, similarity: check.similarity });
+      }
+      continue;
+    }
+
+    if (source.content) {
+      const check = await sourceQualityService.detectDuplicate(source.content, previousContents);
+      if (check.isDuplicate) continue;
+    }
+    diff.newSources.push(source);
+  }
+
+  return diff;
+}
+
+/**
+ * Agent message announcing what a run found
+ */
+export function formatWatchAlert(
+  watch: Pick<ResearchWatch, 'query' | 'lastRunAt'>,
+  diff: WatchSourceDiff,
+  documents: WatchDocumentCheck[] = []
+): string {
+  const since = watch.lastRunAt ? ` since ${new Date(watch.lastRunAt).toUTCString()}` : '';
+  const lines = [
+    `**Research watch: "${watch.query}"**`,
+    '',
+    `${diff.newSources.length} new and ${diff.changedSources.length} changed sources${since}.`,
+  ];
+
+  if (diff.newSources.length > 0) {
+    lines.push('', '**New**');
+    diff.newSources.forEach(source => {
+      lines.push(`- [${source.title}](${source.url})${source.snippet ? ` - ${source.snippet}` : ''}`);
+    });
+  }
+  if (diff.changedSources.length > 0) {
+    lines.push('', '**Changed**');
+    diff.changedSources.forEach(source => {
+      lines.push(`- [${source.title}](${source.url}) - ${Math.round(source.similarity * 100)}% of the wording is unchanged`);
+    });
+  }
+
+  const flagged = documents.filter(document => document.needsReexamination);
+  if (documents.length > 0) {
+    lines.push('', '**Documents built on this research**');
+    documents.forEach(document => {
+      lines.push(`- ${document.title}: ${document.needsReexamination ? `needs re-examination. ${document.reason}` : 'worth a review against the sources above'}`);
+    });
+    if (flagged.length === 0) {
+      lines.push('', 'Project decisions have not changed, so no document is flagged for re-examination.');
+    }
+  }
+
+  return lines.join('\n');
+}
+
+export class ResearchWatchService {
+  private timer: NodeJS.Timeout | null = null;
+  private polling = false;
+  private researchAgent: UnifiedResearchAgent | null = null;
+
+  async listWatches(projectId: string): Promise<ResearchWatch[]> {
+    const { data, error } = await supabase
+      .from('research_watches')
+      .select('*')
+      .eq('project_id', projectId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      throw new Error(`Failed to load research watches: ${error.message}`);
+    }
+    return (data || []).map(fromRow);
+  }
+
+  async getWatch(watchId: string): Promise<ResearchWatch> {
+    const { data, error } = await supabase
+      .from('research_watches')
+      .select('*')
+      .eq('id', watchId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to load research watch: ${error.message}`);
+    }
+    if (!data) {
+      throw new ResearchWatchError('Research watch not found', 404);
+    }
+    return fromRow(data);
+  }
+
+  async createWatch(projectId: string, userId: string, input: WatchInput): Promise<ResearchWatch> {
+    if (input.schedule === undefined || input.query === undefined) {
+      throw new ResearchWatchError('query and schedule are required');
+    }
+    const columns = toColumns(input);
+    await assertPublicUrls(columns.urls);
+
+    const { data, error } = await supabase
+      .from('research_watches')
+      .insert([{ project_id: projectId, user_id: userId, ...columns }])
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to save research watch: ${error.message}`);
+    }
+    console.log(`[ResearchWatch] Watching "${data.query}" (${data.schedule}) for project ${projectId}`);
+    return fromRow(data);
+  }
+
+  async updateWatch(watchId: string, changes: Partial<WatchInput>): Promise<ResearchWatch> {
+    const columns = toColumns(changes);
+    await assertPublicUrls(columns.urls);
+    // Re-enabling a watch schedules it from now rather than running missed slots
+    if (columns.enabled && !columns.next_run_at) {
+      const watch = await this.getWatch(watchId);
+      columns.next_run_at = nextCronRun(watch.schedule).toISOString();
+    }
+
+    const { data, error } = await supabase
+      .from('research_watches')
+      .update({ ...columns, updated_at: new Date().toISOString() })
+      .eq('id', watchId)
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to update research watch: ${error.message}`);
+    }
+    if (!data) {
+      throw new ResearchWatchError('Research watch not found', 404);
+    }
+    return fromRow(data);
+  }
+
+  async deleteWatch(watchId: string): Promise<void> {
+    const { error } = await supabase
+      .from('research_watches')
+      .delete()
+      .eq('id', watchId);
+
+    if (error) {
+      throw new Error(`Failed to delete research watch: ${error.message}`);
+    }
+  }
+
+  async listRuns(watchId: string, limit = 20): Promise<ResearchWatchRun[]> {
+    const { data, error } = await supabase
+      .from('research_watch_runs')
+      .select('*')
+      .eq('watch_id', watchId)
+      .order('started_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      throw new Error(`Failed to load watch runs: ${error.message}`);
+    }
+    return (data || []).map(runFromRow);
+  }
+
+  /**
+   * Check for due watches every minute
+   */
+  start(intervalMs = POLL_INTERVAL_MS): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.runDueWatches().catch(error => console.error('[ResearchWatch] Scheduler error:', error));
+    }, intervalMs);
+    this.timer.unref();
+    console.log('[ResearchWatch] Scheduler started');
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Run every enabled watch whose next run time has passed
+   * Each watch is claimed by moving next_run_at forward only if it still
+   * holds the value read, so several server instances never run it twice.
+   */
+  async runDueWatches(now: Date = new Date()): Promise<number> {
+    if (this.polling) return 0;
+    this.polling = true;
+
+    try {
+      const { data, error } = await supabase
+        .from('research_watches')
+        .select('*')
+        .eq('enabled', true)
+        .lte('next_run_at', now.toISOString());
+
+      if (error) {
+        throw new Error(`Failed to load due watches: ${error.message}`);
+      }
+
+      let ran = 0;
+      for (const row of data || []) {
+        const { data: claimed, error: claimError } = await supabase
+          .from('research_watches')
+          .update({ next_run_at: nextCronRun(row.schedule, now).toISOString() })
+          .eq('id', row.id)
+          .eq('next_run_at', row.next_run_at)
+          .select();
+
+        if (claimError || !claimed || claimed.length === 0) continue;
+        await this.runWatch(fromRow(claimed[0]));
+        ran++;
+      }
+      return ran;
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  /**
+   * Run a watch now and record what changed
+   * Model spend is attributed to the watch's project and owner and counts
+   * against their budgets; at the hard cap the run fails without researching.
+   */
+  async runWatch(watch: ResearchWatch): Promise<ResearchWatchRun> {
+    const budget = await budgetService.getStatus(watch.projectId, watch.userId);
+    return runWithUsageContext(
+      { projectId: watch.projectId, userId: watch.userId, operation: 'research-watch', budgetLevel: budget.level },
+      () => this.executeRun(watch, budget)
+    );
+  }
+
+  private async executeRun(watch: ResearchWatch, budget: BudgetStatus): Promise<ResearchWatchRun> {
+    const runId = crypto.randomUUID();
+    const startedAt = new Date().toISOString();
+    let researchQueryId: string | null = null;
+
+    console.log(`[ResearchWatch] Running watch ${watch.id}: "${watch.query}"`);
+
+    try {
+      if (budget.level === 'hard') {
+        throw new Error(budget.reason || 'The AI budget for this project has been reached');
+      }
+
+      const { data: researchQuery } = await supabase
+        .from('research_queries')
+        .insert([{
+          project_id: watch.projectId,
+          user_id: watch.userId,
+          query: watch.query,
+          status: 'processing',
+          max_sources: watch.maxSources,
+          session_type: 'watch',
+          metadata: { researchType: 'watch', watchId: watch.id, runId },
+        }])
+        .select()
+        .single();
+      researchQueryId = researchQuery?.id ?? null;
+
+      const sources = await this.collectSources(watch, researchQueryId);
+      const previousRuns = await this.listRuns(watch.id, HISTORY_RUNS);
+      const completedRuns = previousRuns.filter(run => run.status === 'completed');
+      const baseline = completedRuns.length === 0;
+
+      // Oldest first, so each URL keeps its latest snapshot
+      const previousSources = completedRuns.reverse().flatMap(run => run.sources);
+      const diff = baseline
+        ? { newSources: [], changedSources: [] }
+        : await diffSources(sources, previousSources);
+      const hasChanges = diff.newSources.length + diff.changedSources.length > 0;
+
+      const documents = hasChanges && watch.reexamineDocuments
+        ? await this.checkDocuments(watch, [researchQueryId, ...previousRuns.map(run => run.researchQueryId)], diff)
+        : [];
+      const messageId = hasChanges ? await this.postAlert(watch, runId, diff, documents) : null;
+
+      const run = await this.saveRun({
+        id: runId,
+        watchId: watch.id,
+        projectId: watch.projectId,
+        researchQueryId,
+        status: 'completed',
+        sources,
+        ...diff,
+        baseline,
+        messageId,
+        documents,
+        error: null,
+        startedAt,
+        completedAt: new Date().toISOString(),
+      });
+
+      if (researchQueryId) {
+        await supabase
+          .from('research_queries')
+          .update({
+            status: 'completed',
+            results_count: sources.length,
+            metadata: {
+              researchType: 'watch',
+              watchId: watch.id,
+              runId,
+              webSources: sources.map(({ content: _content, ...source }) => source),
+              newSourcesCount: diff.newSources.length,
+              changedSourcesCount: diff.changedSources.length,
+            },
+          })
+          .eq('id', researchQueryId);
+      }
+      await this.finishWatch(watch.id, 'completed');
+
+      console.log(`[ResearchWatch] Watch ${watch.id}: ${baseline ? `baseline of ${sources.length} sources` : `${diff.newSources.length} new, ${diff.changedSources.length} changed`}`);
+      return run;
+    } catch (error: any) {
+      console.error(`[ResearchWatch] Watch ${watch.id} failed:`, error);
+
+      if (researchQueryId) {
+        await supabase
+          .from('research_queries')
+          .update({ status: 'failed', metadata: { researchType: 'watch', watchId: watch.id, runId, error: error.message } })
+          .eq('id', researchQueryId);
+      }
+      await this.finishWatch(watch.id, 'failed');
+
+      return this.saveRun({
+        id: runId,
+        watchId: watch.id,
+        projectId: watch.projectId,
+        researchQueryId,
+        status: 'failed',
+        sources: [],
+        newSources: [],
+        changedSources: [],
+        baseline: false,
+        messageId: null,
+        documents: [],
+        error: error.message || String(error),
+        startedAt,
+        completedAt: new Date().toISOString(),
+      });
+    }
+  }
+
+  /**
+   * Search results for the query plus the watched pages, one entry per URL
+   */
+  private async collectSources(watch: ResearchWatch, researchQueryId: string | null): Promise<WatchSource[]> {
+    this.researchAgent = this.researchAgent || new UnifiedResearchAgent();
+    const result = await this.researchAgent.research(watch.query, watch.projectId, watch.userId, {
+      sources: 'web',
+      intent: 'research',
+      maxWebSources: watch.maxSources,
+      maxDocumentSources: 0,
+      includeAnalysis: false,
+      saveToDB: false,
+      researchQueryId: researchQueryId ?? undefined,
+    });
+
+    const sources = new Map<string, WatchSource>();
+    result.webSources.forEach(source => sources.set(source.url, {
+      url: source.url,
+      title: source.title,
+      snippet: source.snippet,
+      content: (source.content || '').substring(0, MAX_CONTENT_LENGTH),
+      archive: source.archive,
+    }));
+
+    const searchProvider = getSearchProvider();
+    const policy = await sourceTrustPolicyService.getEffectivePolicy(watch.projectId);
+    const pinnedPages: ArchivablePage[] = [];
+    for (const url of watch.urls) {
+      if (isBlockedUrl(url, policy)) {
+        console.log(`[ResearchWatch] Skipping watched page ${url}: blocked by trust policy`);
+        continue;
+      }
+      try {
+        // Checked again on every run: the host may resolve elsewhere by now
+        await assertPublicUrl(url);
+        const page: PageSnapshot = searchProvider
+          ? await searchProvider.fetchPage(url)
+          : await contentExtractionService.extractFromUrl(url).then(extracted => ({ ...extracted, url, html: extracted.content }));
+        const archive = sources.get(url)?.archive;
+        sources.set(url, {
+          url,
+          title: page.title,
+          snippet: page.excerpt,
+          content: page.textContent.substring(0, MAX_CONTENT_LENGTH),
+          archive,
+        });
+        if (!archive) {
+          pinnedPages.push({ url, title: page.title, textContent: page.textContent, html: page.html });
+        }
+      } catch (error: any) {
+        console.error(`[ResearchWatch] Failed to fetch watched page ${url}:`, error.message);
+      }
+    }
+
+    if (researchQueryId && pinnedPages.length > 0) {
+      const archives = await pageArchiveService.archivePages(watch.projectId, researchQueryId, pinnedPages);
+      archives.forEach((archive, url) => {
+        const source = sources.get(url);
+        if (source) source.archive = archive;
+      });
+    }
+
+    return [...sources.values()];
+  }
+
+  /**
+   * Generated documents built on this watch's research, checked for re-examination
+   */
+  private async checkDocuments(
+    watch: ResearchWatch,
+    researchQueryIds: Array<string | null>,
+    diff: WatchSourceDiff
+  ): Promise<WatchDocumentCheck[]> {
+    const { data, error } = await supabase
+      .from('generated_documents')
+      .select('id, title, content, metadata')
+      .eq('project_id', watch.projectId);
+
+    if (error) {
+      console.error('[ResearchWatch] Failed to load generated documents:', error);
+      return [];
+    }
+
+    const queryIds = new Set(researchQueryIds.filter(Boolean));
+    const urls = [...diff.newSources, ...diff.changedSources].map(source => source.url);
+    const affected = (data || []).filter(document =>
+      queryIds.has(document.metadata?.research_query_id) ||
+      (document.metadata?.research_query || '').trim().toLowerCase() === watch.query.toLowerCase() ||
+      urls.some(url => (document.content || '').includes(url))
+    );
+
+    const service = new GeneratedDocumentsService(supabase);
+    const checks: WatchDocumentCheck[] = [];
+    for (const document of affected) {
+      try {
+        const check = await service.checkIfNeedsReexamination(document.id);
+        checks.push({ documentId: document.id, title: document.title, needsReexamination: check.needsReexamination, reason: check.reason || '' });
+      } catch (checkError) {
+        console.error(`[ResearchWatch] Re-examination check failed for document ${document.id}:`, checkError);
+      }
+    }
+    return checks;
+  }
+
+  private async postAlert(
+    watch: ResearchWatch,
+    runId: string,
+    diff: WatchSourceDiff,
+    documents: WatchDocumentCheck[]
+  ): Promise<string | null> {
+    const { data: message, error } = await supabase
+      .from('messages')
+      .insert([{
+        project_id: watch.projectId,
+        user_id: watch.userId,
+        role: 'assistant',
+        content: formatWatchAlert(watch, diff, documents),
+        agent_type: 'ResearchWatchAgent',
+        metadata: {
+          agent: 'ResearchWatchAgent',
+          researchWatch: {
+            watchId: watch.id,
+            runId,
+            newSources: diff.newSources.length,
+            changedSources: diff.changedSources.length,
+          },
+        },
+      }])
+      .select()
+      .single();
+
+    if (error || !message) {
+      console.error('[ResearchWatch] Failed to post alert:', error);
+      return null;
+    }
+
+    realtimeService.publish(watch.projectId, 'message', { message });
+    return message.id;
+  }
+
+  private async saveRun(run: ResearchWatchRun): Promise<ResearchWatchRun> {
+    const { error } = await supabase
+      .from('research_watch_runs')
+      .insert([{
+        id: run.id,
+        watch_id: run.watchId,
+        project_id: run.projectId,
+        research_query_id: run.researchQueryId,
+        status: run.status,
+        sources: run.sources,
+        new_sources: run.newSources,
+        changed_sources: run.changedSources,
+        baseline: run.baseline,
+        message_id: run.messageId,
+        documents: run.documents,
+        error: run.error,
+        started_at: run.startedAt,
+        completed_at: run.completedAt,
+      }]);
+
+    if (error) {
+      console.error('[ResearchWatch] Failed to save run:', error);
+    }
+    return run;
+  }
+
+  private async finishWatch(watchId: string, status: 'completed' | 'failed'): Promise<void> {
+    await supabase
+      .from('research_watches')
+      .update({ last_run_at: new Date().toISOString(), last_run_status: status })
+      .eq('id', watchId);
+  }
+}
+
+export const researchWatchService = new ResearchWatchService();
@@ -1,22 +1,33 @@
 import crypto from 'crypto';
 import { AgentResponse } from '../types';
+import { getCacheStore, projectCacheTag } from './cacheStore';
+import { getEmbeddingProvider } from './embeddingProvider';
+import { embeddingService } from './embeddingService';
+import { supabase } from './supabase';
+import { SEMANTIC_CACHE_CONFIG, SemanticCacheConfig } from '../config/aiModels';
 
 /**
  * ResponseCache - Cache AI agent responses to reduce duplicate API calls
  *
  * Key principle: Cache responses for similar requests to avoid redundant Claude API calls.
  * This is safe because:
- * - Responses are invalidated when project state changes
+ * - Responses are invalidated when project state changes (tagged by project)
  * - TTL ensures responses stay fresh (5-10 minutes)
  * - Cache keys include agent + message + state hash
+ *
+ * Entries and hit/miss counters live in the shared CacheStore, so every
+ * backend instance serves (and counts) the same cache.
+ *
+ * Optional semantic tier (SEMANTIC_CACHE_CONFIG): for idempotent agents an
+ * exact miss falls back to the most similar earlier request (by embedding)
+ * for the same project and project-state hash. Hits are written to
+ * `semantic_cache_hits` with their similarity for audit.
  */
 
 interface CacheEntry {
   response: AgentResponse;
   timestamp: number;
-  ttl: number; // milliseconds
   agentName: string;
-  messageHash: string;
 }
 
 interface CacheStats {
@@ -26,14 +37,55 @@ interface CacheStats {
   currentSize: number;
 }
 
+export interface SemanticMatch {
+  response: AgentResponse;
+  similarity: number;
+  /** Normalized earlier request the response was computed for */
+  matchedRequest: string;
+}
+
+/** The embedded request of a semantic lookup, reused to store the fresh response */
+export interface SemanticCandidate {
+  agentName: string;
+  projectId?: string;
+  bucketKey: string;
+  request: string;
+  embedding: number[];
+  model: string;
+}
+
+export interface SemanticLookup {
+  match: SemanticMatch | null;
+  /** Null when the semantic tier does not apply to this request */
+  candidate: SemanticCandidate | null;
+}
+
+interface SemanticEntry {
+  request: string;
+  embedding: number[];
+  model: string;
+  response: AgentResponse;
+  timestamp: number;
+}
+
+const KEY_PREFIX = 'response:';
+const SEMANTIC_PREFIX = 'response-semantic:';
+const STATS_NAME = 'responses';
+const NO_SEMANTIC_LOOKUP: SemanticLookup = { match: null, candidate: null };
+
+/**
+ * Lowercase, drop punctuation and collapse whitespace, so trivial rewording is not embedded differently
+ */
+export function normalizeRequest(message: string): string {
+  return message
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
 export class ResponseCache {
-  private cache: Map<string, CacheEntry> = new Map();
-  private stats: CacheStats = {
-    hits: 0,
-    misses: 0,
-    evictions: 0,
-    currentSize: 0,
-  };
+  constructor(private semanticConfig: SemanticCacheConfig = SEMANTIC_CACHE_CONFIG) {}
 
   // Agent-specific TTL configuration (in milliseconds)
   private readonly TTL_CONFIG: Record<string, number> = {
@@ -73,55 +125,40 @@ export class ResponseCache {
     const messageHash = this.hashString(userMessage);
     const stateHash = this.hashState(projectState);
 
-    // For some agents, include recent conversation in the key
-    const includeHistory = ['brainstorming', 'questioner', 'clarification'];
-    let historyHash = '';
+    const historyHash = this.hashHistory(agentName, conversationHistory);
 
-    if (includeHistory.includes(agentName) && conversationHistory.length > 0) {
-      // Only hash last 3 messages for cache key
-      const recentMessages = conversationHistory.slice(-3);
-      historyHash = this.hashString(JSON.stringify(recentMessages));
-    }
-
-    return `${agentName}:${messageHash}:${stateHash}:${historyHash}`;
+    return `${KEY_PREFIX}${agentName}:${messageHash}:${stateHash}:${historyHash}`;
   }
 
   /**
    * Get cached response if available and not expired
    */
-  get(key: string): AgentResponse | null {
-    const entry = this.cache.get(key);
+  async get(key: string): Promise<AgentResponse | null> {
+    const store = getCacheStore();
+    const entry = await store.get<CacheEntry>(key);
 
     if (!entry) {
-      this.stats.misses++;
+      await store.incrementStat(STATS_NAME, 'misses');
       return null;
     }
 
-    // Check if expired
-    const age = Date.now() - entry.timestamp;
-    if (age > entry.ttl) {
-      this.cache.delete(key);
-      this.stats.evictions++;
-      this.stats.currentSize = this.cache.size;
-      console.log(`[ResponseCache] Evicted expired entry for ${entry.agentName} (age: ${Math.round(age / 1000)}s)`);
-      return null;
-    }
-
-    this.stats.hits++;
-    console.log(`[ResponseCache] HIT for ${entry.agentName} (age: ${Math.round(age / 1000)}s, TTL: ${entry.ttl / 1000}s)`);
+    await store.incrementStat(STATS_NAME, 'hits');
+    console.log(`[ResponseCache] HIT for ${entry.agentName} (age: ${Math.round((Date.now() - entry.timestamp) / 1000)}s)`);
 
     return entry.response;
   }
 
   /**
    * Store response in cache with agent-specific TTL
+   * Entries are tagged with the agent and, when given, the project they were computed for.
    */
-  set(
+  async set(
     key: string,
     agentName: string,
     response: AgentResponse,
-    userMessage: string
-  ): void {
+    userMessage: string,
+    projectId?: string
+  ): Promise<void> {
     const ttl = this.TTL_CONFIG[agentName] || this.TTL_CONFIG.default;
 
     // Don't cache if TTL is 0 (agents that should never be cached)
@@ -131,41 +168,26 @@ export class ResponseCache {
     }
 
     const messageHash = this.hashString(userMessage).substring(0, 8);
+    const tags = [`agent:${agentName}`];
+    if (projectId) tags.push(projectCacheTag(projectId));
 
-    this.cache.set(key, {
-      response,
-      timestamp: Date.now(),
-      ttl,
-      agentName,
-      messageHash,
-    });
-
-    this.stats.currentSize = this.cache.size;
+    await getCacheStore().set<CacheEntry>(
+      key,
+      { response, timestamp: Date.now(), agentName },
+      { ttlSeconds: ttl / 1000, tags }
+    );
 
     console.log(`[ResponseCache] Cached response for ${agentName} (TTL: ${ttl / 1000}s, key: ...${messageHash})`);
-
-    // Cleanup old entries if cache is getting large
-    if (this.cache.size > 100) {
-      this.cleanup();
-    }
   }
 
   /**
    * Invalidate all cache entries for a specific agent
    */
-  invalidateAgent(agentName: string): void {
-    let count = 0;
-
-    for (const [key, entry] of this.cache.entries()) {
-      if (entry.agentName === agentName) {
-        this.cache.delete(key);
-        count++;
-      }
-    }
+  async invalidateAgent(agentName: string): Promise<void> {
+    const count = await getCacheStore().invalidateTags([`agent:${agentName}`]);
 
     if (count > 0) {
-      this.stats.evictions += count;
-      this.stats.currentSize = this.cache.size;
+      await getCacheStore().incrementStat(STATS_NAME, 'evictions', count);
       console.log(`[ResponseCache] Invalidated ${count} entries for ${agentName}`);
     }
   }
@@ -173,36 +195,121 @@ export class ResponseCache {
   /**
    * Invalidate all cache entries (e.g., when project state changes significantly)
    */
-  invalidateAll(): void {
-    const size = this.cache.size;
-    this.cache.clear();
-    this.stats.evictions += size;
-    this.stats.currentSize = 0;
-    console.log(`[ResponseCache] Invalidated all ${size} entries`);
+  async invalidateAll(): Promise<void> {
+    const count = await getCacheStore().clear(KEY_PREFIX) + await getCacheStore().clear(SEMANTIC_PREFIX);
+    await getCacheStore().incrementStat(STATS_NAME, 'evictions', count);
+    console.log(`[ResponseCache] Invalidated all ${count} entries`);
   }
 
   /**
-   * Clean up expired entries
+   * Find a cached response to an earlier request with the same meaning
+   * Only for agents in the semantic tier, and only against the same project
+   * state and, for agents keyed on it, the same recent conversation.
+   * Never throws; without an embedding provider it always misses.
    */
-  private cleanup(): void {
-    const now = Date.now();
-    let evicted = 0;
-
-    for (const [key, entry] of this.cache.entries()) {
-      const age = now - entry.timestamp;
-      if (age > entry.ttl) {
-        this.cache.delete(key);
-        evicted++;
-      }
+  async findSimilar(
+    agentName: string,
+    userMessage: string,
+    projectState: any,
+    projectId?: string,
+    conversationHistory: any[] = []
+  ): Promise<SemanticLookup> {
+    if (!this.semanticConfig.enabled || !this.semanticConfig.agents.includes(agentName)) {
+      return NO_SEMANTIC_LOOKUP;
     }
+    const provider = getEmbeddingProvider();
+    const request = normalizeRequest(userMessage);
+    if (!provider || !request) return NO_SEMANTIC_LOOKUP;
+
+    try {
+      const store = getCacheStore();
+      const bucketKey = `${SEMANTIC_PREFIX}${agentName}:${projectId || 'none'}:${this.hashState(projectState)}:` +
+        this.hashHistory(agentName, conversationHistory);
+      const [[embedding], entries] = await Promise.all([
+        provider.embed([request]),
+        store.get<SemanticEntry[]>(bucketKey),
+      ]);
+      const candidate: SemanticCandidate = { agentName, projectId, bucketKey, request, embedding, model: provider.model };
+
+      let best: { entry: SemanticEntry; similarity: number } | null = null;
+      for (const entry of this.liveEntries(agentName, entries)) {
+        // Vectors are only comparable within one model
+        if (entry.model !== provider.model || entry.embedding.length !== embedding.length) continue;
+        const similarity = embeddingService.cosineSimilarity(embedding, entry.embedding);
+        if (!best || similarity > best.similarity) best = { entry, similarity };
+      }
 
-    if (evicted > 0) {
-      this.stats.evictions += evicted;
-      this.stats.currentSize = this.cache.size;
-      console.log(`[ResponseCache] Cleanup: evicted ${evicted} expired entries`);
+      if (!best || best.similarity < this.semanticConfig.threshold) {
+        await store.incrementStat(STATS_NAME, 'semanticMisses');
+        return { match: null, candidate };
+      }
+
+      await store.incrementStat(STATS_NAME, 'semanticHits');
+      this.auditSemanticHit(candidate, best.entry.request, best.similarity);
+      return {
+        match: { response: best.entry.response, similarity: best.similarity, matchedRequest: best.entry.request },
+        candidate,
+      };
+    } catch (error: any) {
+      console.error(`[ResponseCache] Semantic lookup failed for ${agentName}:`, error.message);
+      return NO_SEMANTIC_LOOKUP;
     }
   }
 
+  /**
+   * Remember a fresh response under the embedding of its request
+   */
+  async setSimilar(candidate: SemanticCandidate, response: AgentResponse): Promise<void> {
+    const ttl = this.TTL_CONFIG[candidate.agentName] || this.TTL_CONFIG.default;
+    const store = getCacheStore();
+    const entries = this.liveEntries(candidate.agentName, await store.get<SemanticEntry[]>(candidate.bucketKey))
+      .filter(entry => entry.request !== candidate.request);
+    entries.push({
+      request: candidate.request,
+      embedding: candidate.embedding,
+      model: candidate.model,
+      response,
+      timestamp: Date.now(),
+    });
+
+    const tags = [`agent:${candidate.agentName}`];
+    if (candidate.projectId) tags.push(projectCacheTag(candidate.projectId));
+
+    await store.set(candidate.bucketKey, entries.slice(-this.semanticConfig.maxEntries), {
+      ttlSeconds: ttl / 1000,
+      tags,
+    });
+  }
+
+  /** Entries younger than the agent's TTL (the bucket TTL is refreshed on every write) */
+  private liveEntries(agentName: string, entries: SemanticEntry[] | null): SemanticEntry[] {
+    const ttl = this.TTL_CONFIG[agentName] || this.TTL_CONFIG.default;
+    return (entries || []).filter(entry => Date.now() - entry.timestamp <= ttl);
+  }
+
+  private auditSemanticHit(candidate: SemanticCandidate, matchedRequest: string, similarity: number): void {
+    console.log(
+      `[ResponseCache] SEMANTIC HIT for ${candidate.agentName} (similarity ${similarity.toFixed(4)}, ` +
+      `threshold ${this.semanticConfig.threshold}): "${candidate.request}" ~ "${matchedRequest}"`
+    );
+
+    Promise.resolve(
+      supabase.from('semantic_cache_hits').insert({
+        project_id: candidate.projectId || null,
+        agent_name: candidate.agentName,
+        request_text: candidate.request,
+        matched_request_text: matchedRequest,
+        similarity,
+        threshold: this.semanticConfig.threshold,
+        embedding_model: candidate.model,
+      })
+    )
+      .then(({ error }) => {
+        if (error) console.error('[ResponseCache] Failed to record semantic cache hit:', error.message);
+      })
+      .catch((error: any) => console.error('[ResponseCache] Failed to record semantic cache hit:', error.message));
+  }
+
   /**
    * Hash a string using SHA256
    */
@@ -210,6 +317,17 @@ export class ResponseCache {
     return crypto.createHash('sha256').update(str).digest('hex');
   }
 
+  /**
+   * Hash of the recent conversation for agents whose replies depend on it, else ''
+   */
+  private hashHistory(agentName: string, conversationHistory: any[]): string {
+    const includeHistory = ['brainstorming', 'questioner', 'clarification'];
+    if (!includeHistory.includes(agentName) || conversationHistory.length === 0) return '';
+
+    // Only hash last 3 messages for cache key
+    return this.hashString(JSON.stringify(conversationHistory.slice(-3)));
+  }
+
   /**
    * Hash project state (only relevant fields)
    */
@@ -227,31 +345,60 @@ export class ResponseCache {
   }
 
   /**
-   * Get cache statistics
+   * Get cache statistics (across all instances sharing the store)
    */
-  getStats(): CacheStats & {
+  async getStats(): Promise<CacheStats & {
     hitRate: number;
     estimatedSavings: number; // Estimated API calls saved
-  } {
-    const total = this.stats.hits + this.stats.misses;
-    const hitRate = total > 0 ? (this.stats.hits / total) * 100 : 0;
+    semantic: {
+      enabled: boolean;
+      threshold: number;
+      agents: string[];
+      hits: number;
+      misses: number;
+      hitRate: number;
+    };
+  }> {
+    const store = getCacheStore();
+    const counters = await store.getStats(STATS_NAME);
+    const stats: CacheStats = {
+      hits: counters.hits || 0,
+      misses: counters.misses || 0,
+      evictions: counters.evictions || 0,
+      currentSize: await store.countKeys(KEY_PREFIX),
+    };
+    const total = stats.hits + stats.misses;
+    const hitRate = total > 0 ? (stats.hits / total) * 100 : 0;
+
+    const semanticHits = counters.semanticHits || 0;
+    const semanticMisses = counters.semanticMisses || 0;
+    const semanticTotal = semanticHits + semanticMisses;
 
     return {
-      ...this.stats,
+      ...stats,
       hitRate: Math.round(hitRate * 10) / 10, // Round to 1 decimal
-      estimatedSavings: this.stats.hits, // Each hit = 1 API call saved
+      estimatedSavings: stats.hits + semanticHits, // Each hit = 1 API call saved
+      semantic: {
+        enabled: this.semanticConfig.enabled,
+        threshold: this.semanticConfig.threshold,
+        agents: this.semanticConfig.agents,
+        hits: semanticHits,
+        misses: semanticMisses,
+        // Share of exact misses that a semantic match answered
+        hitRate: semanticTotal > 0 ? Math.round((semanticHits / semanticTotal) * 1000) / 10 : 0,
+      },
     };
   }
 
   /**
    * Log cache statistics (call periodically for monitoring)
    */
-  logStats(): void {
-    const stats = this.getStats();
+  async logStats(): Promise<void> {
+    const stats = await this.getStats();
 
     console.log(
       `[ResponseCache] Stats: ${stats.hits} hits, ${stats.misses} misses ` +
-      `(${stats.hitRate}% hit rate), ${stats.currentSize} entries, ` +
+      `(${stats.hitRate}% hit rate), ${stats.semantic.hits} semantic hits, ${stats.currentSize} entries, ` +
       `~${stats.estimatedSavings} API calls saved`
     );
   }
@@ -259,12 +406,10 @@ export class ResponseCache {
   /**
    * Reset statistics (for testing)
    */
-  resetStats(): void {
-    this.stats = {
-      hits: 0,
-      misses: 0,
-      evictions: 0,
-      currentSize: this.cache.size,
-    };
+  async resetStats(): Promise<void> {
+    await getCacheStore().resetStats(STATS_NAME);
   }
 }
+
+// Singleton instance
+export const responseCache = new ResponseCache();
@@ -0,0 +1,376 @@
+import fs from 'fs';
+import {
+  SEARCH_PROVIDERS,
+  SearchProviderConfig,
+  getSearchProviderConfig,
+} from '../config/aiModels';
+import { GoogleSearchService, SearchResult } from './googleSearchService';
+import { contentExtractionService } from './contentExtractionService';
+import { retryWithBackoff } from '../utils/retryUtil';
+
+/**
+ * Web search provider layer
+ *
+ * Research finds pages through a SearchProvider, chosen by SEARCH_PROVIDER:
+ * Google, Brave, Bing or a self-hosted SearXNG instance. The provider also
+ * fetches the pages it found, so the fixture provider can replay both the
+ * result lists and the page text that a RecordingSearchProvider saved -
+ * research runs offline and repeatably.
+ */
+
+export type { SearchResult };
+
+/**
+ * Readable text of a fetched page
+ */
+export interface PageSnapshot {
+  url: string;
+  title: string;
+  textContent: string;
+  excerpt: string;
+  /** Cleaned page HTML, when the provider fetched markup (used for archiving) */
+  html?: string;
+}
+
+export interface SearchProvider {
+  readonly name: string;
+  search(query: string, maxResults: number): Promise<SearchResult[]>;
+  fetchPage(url: string): Promise<PageSnapshot>;
+}
+
+/**
+ * Recorded searches and pages, replayed by the fixture provider
+ */
+export interface SearchFixtureFile {
+  searches: Array<{ query: string; results: SearchResult[] }>;
+  pages: PageSnapshot[];
+}
+
+/**
+ * Error with the HTTP status of the upstream search API, if any
+ */
+export class SearchProviderError extends Error {
+  constructor(message: string, public readonly status?: number) {
+    super(message);
+    this.name = 'SearchProviderError';
+  }
+}
+
+const REQUEST_TIMEOUT_MS = 10000;
+
+/**
+ * Queries differing only in case or spacing share fixtures
+ */
+export function normalizeQuery(query: string): string {
+  return query.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+async function fetchJson(url: string, headers: Record<string, string> = {}): Promise<any> {
+  return retryWithBackoff(
+    async () => {
+      const controller = new AbortController();
+      const timeout = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+
+      try {
+        const response = await fetch(url, {
+          signal: controller.signal,
+          headers: { Accept: 'application/json', ...headers },
+        });
+
+        if (response.status === 401 || response.status === 403) {
+          throw new SearchProviderError('Search API key missing or invalid', response.status);
+        } else if (response.status === 429) {
+          throw new SearchProviderError('Search API rate limit exceeded', 429);
+        } else if (!response.ok) {
+          throw new SearchProviderError(`Search API error: HTTP ${response.status}`, response.status);
+        }
+
+        return await response.json();
+      } catch (error: any) {
+        if (error.name === 'AbortError') {
+          throw new SearchProviderError('Search API request timed out', 408);
+        }
+        throw error;
+      } finally {
+        clearTimeout(timeout);
+      }
+    },
+    {
+      maxRetries: 2,
+      initialDelayMs: 1000,
+      maxDelayMs: 4000,
+    }
+  );
+}
+
+/**
+ * Live providers fetch pages with the content extraction service
+ */
+abstract class LiveSearchProvider implements SearchProvider {
+  abstract readonly name: string;
+  abstract search(query: string, maxResults: number): Promise<SearchResult[]>;
+
+  async fetchPage(url: string): Promise<PageSnapshot> {
+    const page = await contentExtractionService.extractFromUrl(url);
+    return {
+      url,
+      title: page.title,
+      textContent: page.textContent,
+      excerpt: page.excerpt,
+      html: page.content,
+    };
+  }
+}
+
+/**
+ * Google Custom Search (with GoogleSearchService's retries and circuit breaker)
+ */
+export class GoogleSearchProvider extends LiveSearchProvider {
+  readonly name = SEARCH_PROVIDERS.GOOGLE;
+  private service: GoogleSearchService;
+
+  constructor(apiKey?: string, searchEngineId?: string) {
+    super();
+    this.service = new GoogleSearchService(apiKey, searchEngineId);
+  }
+
+  search(query: string, maxResults: number): Promise<SearchResult[]> {
+    return this.service.search(query, maxResults);
+  }
+}
+
+/**
+ * Brave Search API
+ */
+export class BraveSearchProvider extends LiveSearchProvider {
+  readonly name = SEARCH_PROVIDERS.BRAVE;
+
+  constructor(private apiKey: string | undefined) {
+    super();
+    if (!apiKey) {
+      throw new Error('Brave Search API key not configured. Set BRAVE_SEARCH_API_KEY in .env');
+    }
+  }
+
+  async search(query: string, maxResults: number): Promise<SearchResult[]> {
+    const params = new URLSearchParams({ q: query, count: String(Math.min(maxResults, 20)) });
+    const data = await fetchJson(`https://api.search.brave.com/res/v1/web/search?${params}`, {
+      'X-Subscription-Token': this.apiKey!,
+    });
+
+    return (data.web?.results || []).slice(0, maxResults).map((item: any) => ({
+      url: item.url || '',
+      title: item.title || 'Untitled',
+      snippet: item.description || '',
+    }));
+  }
+}
+
+/**
+ * Bing Web Search API (or a compatible endpoint via BING_SEARCH_BASE_URL)
+ */
+export class BingSearchProvider extends LiveSearchProvider {
+  readonly name = SEARCH_PROVIDERS.BING;
+
+  constructor(private apiKey: string | undefined, private baseUrl = 'https://api.bing.microsoft.com/v7.0/search') {
+    super();
+    if (!apiKey) {
+      throw new Error('Bing Search API key not configured. Set BING_SEARCH_API_KEY in .env');
+    }
+  }
+
+  async search(query: string, maxResults: number): Promise<SearchResult[]> {
+    const params = new URLSearchParams({ q: query, count: String(Math.min(maxResults, 50)) });
+    const data = await fetchJson(`${this.baseUrl}?${params}`, {
+      'Ocp-Apim-Subscription-Key': this.apiKey!,
+    });
+
+    return (data.webPages?.value || []).slice(0, maxResults).map((item: any) => ({
+      url: item.url || '',
+      title: item.name || 'Untitled',
+      snippet: item.snippet || '',
+    }));
+  }
+}
+
+/**
+ * Self-hosted SearXNG metasearch
+ */
+export class SearxngSearchProvider extends LiveSearchProvider {
+  readonly name = SEARCH_PROVIDERS.SEARXNG;
+
+  constructor(private baseUrl: string | undefined) {
+    super();
+    if (!baseUrl) {
+      throw new Error('SEARXNG_BASE_URL is required for the searxng search provider');
+    }
+  }
+
+  async search(query: string, maxResults: number): Promise<SearchResult[]> {
+    const params = new URLSearchParams({ q: query, format: 'json' });
+    const data = await fetchJson(`${this.baseUrl!.replace(/\/$/, '')}/search?${params}`);
+
+    return (data.results || []).slice(0, maxResults).map((item: any) => ({
+      url: item.url || '',
+      title: item.title || 'Untitled',
+      snippet: item.content || '',
+    }));
+  }
+}
+
+/**
+ * Offline provider that replays recorded searches and page snapshots
+ *
+ * Loads a fixture file ({ searches: [...], pages: [...] }) or fixtures
+ * registered in code. Searches and pages that were never recorded fail
+ * loudly, so a regression test can't pass on an empty result by accident.
+ */
+export class FixtureSearchProvider implements SearchProvider {
+  readonly name = SEARCH_PROVIDERS.FIXTURE;
+  private searches = new Map<string, SearchResult[]>();
+  private pages = new Map<string, PageSnapshot>();
+
+  constructor(options: { fixturesPath?: string; fixtures?: Partial<SearchFixtureFile> } = {}) {
+    if (options.fixturesPath) {
+      this.loadFixtures(options.fixturesPath);
+    }
+    if (options.fixtures) {
+      this.addFixtures(options.fixtures);
+    }
+  }
+
+  /**
+   * Load fixtures from a JSON file
+   */
+  loadFixtures(filePath: string): void {
+    if (!fs.existsSync(filePath)) {
+      console.warn(`[FixtureSearchProvider] Fixture file not found: ${filePath}`);
+      return;
+    }
+
+    const file: SearchFixtureFile = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    this.addFixtures(file);
+    console.log(`[FixtureSearchProvider] Loaded ${file.searches?.length || 0} searches and ${file.pages?.length || 0} pages from ${filePath}`);
+  }
+
+  addFixtures(fixtures: Partial<SearchFixtureFile>): void {
+    (fixtures.searches || []).forEach(search => this.searches.set(normalizeQuery(search.query), search.results));
+    (fixtures.pages || []).forEach(page => this.pages.set(page.url, page));
+  }
+
+  async search(query: string, maxResults: number): Promise<SearchResult[]> {
+    const results = this.searches.get(normalizeQuery(query));
+    if (!results) {
+      throw new SearchProviderError(`No recorded search results for "${query}"`);
+    }
+    return results.slice(0, maxResults);
+  }
+
+  async fetchPage(url: string): Promise<PageSnapshot> {
+    const page = this.pages.get(url);
+    if (!page) {
+      throw new SearchProviderError(`No recorded snapshot of ${url}`);
+    }
+    return page;
+  }
+}
+
+/**
+ * Wraps a live provider and appends every result list and fetched page to a
+ * fixture file, producing replayable fixtures for the fixture provider.
+ */
+export class RecordingSearchProvider implements SearchProvider {
+  readonly name: string;
+
+  constructor(private inner: SearchProvider, private fixturesPath: string) {
+    this.name = `${inner.name}+recording`;
+  }
+
+  async search(query: string, maxResults: number): Promise<SearchResult[]> {
+    const results = await this.inner.search(query, maxResults);
+    this.record(file => {
+      file.searches = file.searches.filter(search => normalizeQuery(search.query) !== normalizeQuery(query));
+      file.searches.push({ query, results });
+    });
+    return results;
+  }
+
+  async fetchPage(url: string): Promise<PageSnapshot> {
+    const page = await this.inner.fetchPage(url);
+    this.record(file => {
+      file.pages = file.pages.filter(existing => existing.url !== url);
+      file.pages.push(page);
+    });
+    return page;
+  }
+
+  private record(update: (file: SearchFixtureFile) => void): void {
+    try {
+      const file: SearchFixtureFile = fs.existsSync(this.fixturesPath)
+        ? { searches: [], pages: [], ...JSON.parse(fs.readFileSync(this.fixturesPath, 'utf8')) }
+        : { searches: [], pages: [] };
+      update(file);
+      fs.writeFileSync(this.fixturesPath, JSON.stringify(file, null, 2));
+    } catch (error: any) {
+      console.error('[RecordingSearchProvider] Failed to record fixture:', error.message);
+    }
+  }
+}
+
+/**
+ * Create a provider from configuration
+ * Returns null when no search API is configured.
+ */
+export function createSearchProvider(
+  config: SearchProviderConfig = getSearchProviderConfig()
+): SearchProvider | null {
+  let provider: SearchProvider;
+
+  switch (config.type) {
+    case SEARCH_PROVIDERS.GOOGLE:
+      provider = new GoogleSearchProvider(config.apiKey, config.searchEngineId);
+      break;
+    case SEARCH_PROVIDERS.BRAVE:
+      provider = new BraveSearchProvider(config.apiKey);
+      break;
+    case SEARCH_PROVIDERS.BING:
+      provider = new BingSearchProvider(config.apiKey, config.baseUrl);
+      break;
+    case SEARCH_PROVIDERS.SEARXNG:
+      provider = new SearxngSearchProvider(config.baseUrl);
+      break;
+    case SEARCH_PROVIDERS.FIXTURE:
+      return new FixtureSearchProvider({ fixturesPath: config.fixturesPath });
+    default:
+      return null;
+  }
+
+  if (config.recordFixturesPath) {
+    return new RecordingSearchProvider(provider, config.recordFixturesPath);
+  }
+  return provider;
+}
+
+// Singleton provider instance (undefined until first use)
+let sharedProvider: SearchProvider | null | undefined;
+
+export function getSearchProvider(): SearchProvider | null {
+  if (sharedProvider === undefined) {
+    try {
+      sharedProvider = createSearchProvider();
+    } catch (error: any) {
+      console.error('[SearchProvider] Provider misconfigured, web search disabled:', error.message);
+      sharedProvider = null;
+    }
+    console.log(`[SearchProvider] Initialized provider: ${sharedProvider ? sharedProvider.name : 'none'}`);
+  }
+  return sharedProvider;
+}
+
+/**
+ * Replace the shared provider (tests, offline demos)
+ * Pass undefined to re-create it from configuration on next use.
+ */
+export function setSearchProvider(provider: SearchProvider | null | undefined): void {
+  sharedProvider = provider;
+}
@@ -1,6 +1,8 @@
 import { SupabaseClient } from '@supabase/supabase-js';
 import { ExtractedIdea } from './ContextGroupingService';
 import { BrainstormDocumentService } from './brainstormDocumentService';
+import { itemHistoryService } from './itemHistory';
+import { realtimeService } from './realtimeService';
 import { v4 as uuidv4 } from 'uuid';
 
 export interface SessionCompletionSummary {
@@ -55,7 +57,8 @@ export class SessionCompletionService {
       accepted: ExtractedIdea[];
       rejected: ExtractedIdea[];
       unmarked?: ExtractedIdea[];
-    }
+    },
+    userId?: string
   ): Promise<SessionCompletionSummary> {
     console.log(`[SessionCompletion] Starting completion for conversation ${conversationId}`);
     console.log(`[SessionCompletion] ${finalDecisions.accepted.length} accepted, ${finalDecisions.rejected.length} rejected`);
@@ -119,7 +122,8 @@ export class SessionCompletionService {
       const addedItems = await this.addIdeasToProject(
         projectId,
         finalDecisions.accepted,
-        session.id
+        session.id,
+        userId
       );
 
       console.log(`[SessionCompletion] Added ${addedItems.length} items to project`);
@@ -237,7 +241,8 @@ export class SessionCompletionService {
   private async addIdeasToProject(
     projectId: string,
     acceptedIdeas: ExtractedIdea[],
-    sessionId: string
+    sessionId: string,
+    userId?: string
   ): Promise<any[]> {
     if (acceptedIdeas.length === 0) {
       return [];
@@ -263,6 +268,7 @@ export class SessionCompletionService {
       text: `${idea.idea.title}: ${idea.idea.description}`,
       state: 'decided', // Default to decided per user requirement
       created_at: new Date().toISOString(),
+      ...(userId && { created_by: userId }),
       metadata: {
         fromBrainstorm: true,
         sessionId: sessionId,
@@ -281,10 +287,11 @@ export class SessionCompletionService {
     }));
 
     // Update project with new items
+    const updatedItems = [...currentItems, ...newItems];
     const { error: updateError } = await this.supabase
       .from('projects')
       .update({
-        items: [...currentItems, ...newItems],
+        items: updatedItems,
         updated_at: new Date().toISOString(),
       })
       .eq('id', projectId);
@@ -293,6 +300,11 @@ export class SessionCompletionService {
       throw new Error(`Failed to update project items: ${updateError.message}`);
     }
 
+    await itemHistoryService.recordChanges(projectId, currentItems, updatedItems, {
+      actor: userId ? { type: 'user', id: userId } : { type: 'agent', id: 'SessionCompletionService' },
+    });
+    realtimeService.publishItemChanges(projectId, currentItems, updatedItems, { actorId: userId });
+
     return newItems;
   }
 
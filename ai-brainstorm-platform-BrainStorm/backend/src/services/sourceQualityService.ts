@@ -1,3 +1,5 @@
+import { SourceType, SourceTrustPolicy, PolicyEvaluation, evaluatePolicy } from './sourceTrustPolicy';
+
 /**
  * Source Quality Assessment Service
  * Evaluates the quality and trustworthiness of research sources
@@ -20,9 +22,38 @@ export interface SourceQualityScore {
     wordCount?: number;
     hasAuthor: boolean;
     hasSources: boolean;
+    sourceType: SourceType;
   };
+  /** Present when assessed against a trust policy */
+  policy?: PolicyEvaluation;
+}
+
+/**
+ * Where a ranked source stands and why it ranks lower than it might
+ */
+export interface SourceTrust {
+  score: number;
+  sourceType: SourceType;
+  allowListed: boolean;
+  policyViolation: boolean;
+  /** Policy violations, reputation overrides and quality flags that lowered the source */
+  downrankReasons: string[];
 }
 
+export interface ExcludedSource {
+  url: string;
+  title: string;
+  reason: string;
+}
+
+const FLAG_REASONS: Record<string, string> = {
+  low_domain_reputation: 'Low domain reputation',
+  suspicious_domain: 'Hosted on a free blogging platform',
+  outdated_content: 'Outdated content',
+  low_content_quality: 'Thin or low-quality content',
+  low_credibility: 'Few credibility signals (author, citations, quotes)',
+};
+
 export class SourceQualityService {
   // Trusted domain lists (can be expanded)
   private trustedDomains = new Set([
@@ -50,6 +81,22 @@ export class SourceQualityService {
     // Add more as needed
   ]);
 
+  // Journals and indexes of peer-reviewed work
+  private peerReviewedDomains = new Set([
+    'nature.com', 'sciencedirect.com', 'springer.com', 'link.springer.com',
+    'pubmed.ncbi.nlm.nih.gov', 'ncbi.nlm.nih.gov', 'jstor.org', 'ieee.org',
+    'ieeexplore.ieee.org', 'dl.acm.org', 'thelancet.com', 'nejm.org', 'bmj.com',
+    'jamanetwork.com', 'cell.com', 'plos.org', 'journals.plos.org',
+    'onlinelibrary.wiley.com', 'academic.oup.com', 'tandfonline.com', 'cochranelibrary.com',
+  ]);
+
+  private newsDomains = new Set([
+    'reuters.com', 'apnews.com', 'bbc.com', 'bbc.co.uk', 'npr.org', 'pbs.org',
+    'nytimes.com', 'theguardian.com', 'wsj.com', 'ft.com', 'economist.com', 'bloomberg.com',
+  ]);
+
+  private blogDomains = new Set(['medium.com', 'substack.com', 'dev.to', 'hashnode.dev']);
+
   /**
    * Assess the quality of a source
    */
@@ -60,11 +107,13 @@ export class SourceQualityService {
     byline?: string;
     siteName?: string;
     extractedDate?: string;
-  }): Promise<SourceQualityScore> {
+  }, policy?: SourceTrustPolicy): Promise<SourceQualityScore> {
     const domain = this.extractDomain(params.url);
-    
+    const sourceType = this.classifySource(domain, params.content);
+    const evaluation = policy ? evaluatePolicy(domain, sourceType, policy) : undefined;
+
     // Calculate individual scores
-    const domainReputation = this.assessDomainReputation(domain);
+    const domainReputation = this.applyPolicyReputation(this.assessDomainReputation(domain), evaluation);
     const freshness = this.assessFreshness(params.extractedDate);
     const contentQuality = this.assessContentQuality({
       content: params.content,
@@ -95,6 +144,11 @@ export class SourceQualityService {
       credibility,
       byline: params.byline,
     });
+    if (evaluation?.blocked) {
+      flags.push('policy_blocked');
+    } else if (evaluation && evaluation.violations.length > 0) {
+      flags.push('policy_violation');
+    }
 
     const recommendations = this.generateRecommendations({
       overall,
@@ -120,10 +174,95 @@ export class SourceQualityService {
         wordCount: params.content.split(/\s+/).length,
         hasAuthor: Boolean(params.byline),
         hasSources: this.detectSources(params.content),
+        sourceType,
       },
+      policy: evaluation,
     };
   }
 
+  /**
+   * Classify what kind of publication a source is
+   */
+  classifySource(domain: string, content: string = ''): SourceType {
+    const inSet = (set: Set<string>) => [...set].some(entry => domain === entry || domain.endsWith(`.${entry}`));
+
+    if (inSet(this.peerReviewedDomains)) return 'peer_reviewed';
+    if (/\.(gov|mil)(\.[a-z]{2})?$/.test(domain) || domain === 'who.int' || domain.endsWith('.europa.eu')) {
+      return 'government';
+    }
+    if (/\.(edu|ac\.[a-z]{2})$/.test(domain) || ['arxiv.org', 'researchgate.net', 'academia.edu', 'scholar.google.com'].includes(domain)) {
+      // A DOI plus an abstract on a university page is usually a published paper
+      return /doi(\.org\/|:\s*)10\./i.test(content) && /\babstract\b/i.test(content) ? 'peer_reviewed' : 'academic';
+    }
+    if (inSet(this.newsDomains)) return 'news';
+    if (/^(docs|developer|learn)\./.test(domain) || ['w3.org', 'ietf.org', 'iso.org'].includes(domain)) {
+      return 'documentation';
+    }
+    if (['github.com', 'gitlab.com', 'stackoverflow.com'].includes(domain)) return 'code';
+    if (inSet(this.blogDomains) || inSet(this.suspiciousDomains) || domain.startsWith('blog.')) return 'blog';
+    return 'other';
+  }
+
+  /**
+   * Domain reputation after the policy's weight override or allow-list
+   */
+  private applyPolicyReputation(reputation: number, evaluation?: PolicyEvaluation): number {
+    if (evaluation?.weight !== undefined) return evaluation.weight;
+    if (evaluation?.allowListed) return Math.max(reputation, 95);
+    return reputation;
+  }
+
+  /**
+   * Order web sources for research under a trust policy
+   * Blocked sources are dropped; sources that break the policy otherwise go
+   * after every compliant one; the rest are ordered by overall score.
+   */
+  async rankSources<T extends { url: string; title: string; content?: string }>(
+    sources: T[],
+    policy: SourceTrustPolicy
+  ): Promise<{ ranked: Array<T & { trust: SourceTrust }>; excluded: ExcludedSource[] }> {
+    const ranked: Array<T & { trust: SourceTrust }> = [];
+    const excluded: ExcludedSource[] = [];
+
+    for (const source of sources) {
+      const score = await this.assessSource({ url: source.url, title: source.title, content: source.content || '' }, policy);
+      const evaluation = score.policy!;
+
+      if (evaluation.blocked) {
+        excluded.push({ url: source.url, title: source.title, reason: evaluation.violations[0] });
+        continue;
+      }
+
+      const downrankReasons = [...evaluation.violations];
+      const heuristicReputation = this.assessDomainReputation(score.metadata.domain);
+      if (evaluation.weight !== undefined && evaluation.weight < heuristicReputation) {
+        downrankReasons.push(`Trust policy lowers ${score.metadata.domain} reputation to ${evaluation.weight}`);
+      }
+      score.flags.forEach(flag => {
+        // A policy weight already explains the domain's reputation
+        if (flag === 'low_domain_reputation' && evaluation.weight !== undefined) return;
+        if (FLAG_REASONS[flag]) downrankReasons.push(FLAG_REASONS[flag]);
+      });
+
+      ranked.push({
+        ...source,
+        trust: {
+          score: score.overall,
+          sourceType: score.metadata.sourceType,
+          allowListed: evaluation.allowListed,
+          policyViolation: evaluation.violations.length > 0,
+          downrankReasons,
+        },
+      });
+    }
+
+    ranked.sort((a, b) =>
+      Number(a.trust.policyViolation) - Number(b.trust.policyViolation) || b.trust.score - a.trust.score
+    );
+
+    return { ranked, excluded };
+  }
+
   /**
    * Assess domain reputation
    */
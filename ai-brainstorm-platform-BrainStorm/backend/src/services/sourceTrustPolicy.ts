@@ -0,0 +1,304 @@
+import fs from 'fs';
+import { supabase } from './supabase';
+import { getSourceTrustPolicyPath } from '../config/aiModels';
+
+/**
+ * SourceTrustPolicyService - Which web sources research may use
+ *
+ * A trust policy allow-lists or blocks domains, overrides the reputation of
+ * domains or TLDs, and can require source types ("peer-reviewed only").
+ * The organization policy comes from the JSON file at SOURCE_TRUST_POLICY_PATH
+ * and applies to every project; a project's own policy (projects.source_trust_policy)
+ * adds to it. The organization's rules always hold: a project can't allow a
+ * domain the organization blocks, and its required types and allow-list only
+ * add to the organization's requirement.
+ */
+
+export const SOURCE_TYPES = [
+  'peer_reviewed',
+  'academic',
+  'government',
+  'news',
+  'documentation',
+  'code',
+  'blog',
+  'other',
+] as const;
+
+export type SourceType = typeof SOURCE_TYPES[number];
+
+export interface SourceTrustPolicy {
+  /** Always trusted, and exempt from requiredSourceTypes */
+  allowDomains: string[];
+  /** Excluded from research entirely */
+  blockDomains: string[];
+  /** Domain reputation (0-100) by domain ("example.com") or TLD (".gov") */
+  domainWeights: Record<string, number>;
+  /** When non-empty, sources of other types are flagged and ranked last */
+  requiredSourceTypes: SourceType[];
+  /**
+   * Set on a merged policy: the organization's requirement, checked on top of
+   * requiredSourceTypes; only the organization's own allow-list exempts from it
+   */
+  organizationRequirement?: Pick<SourceTrustPolicy, 'allowDomains' | 'requiredSourceTypes'>;
+}
+
+export interface PolicyEvaluation {
+  blocked: boolean;
+  allowListed: boolean;
+  /** Reputation set by domainWeights, when a rule matches */
+  weight?: number;
+  /** Readable reasons the source breaks the policy */
+  violations: string[];
+}
+
+export interface EffectiveTrustPolicy {
+  organization: SourceTrustPolicy;
+  project: SourceTrustPolicy;
+  /** Both combined - what research applies */
+  effective: SourceTrustPolicy;
+}
+
+export class SourceTrustPolicyError extends Error {
+  constructor(message: string, public status: 400 | 404 = 400) {
+    super(message);
+    this.name = 'SourceTrustPolicyError';
+  }
+}
+
+const MAX_RULES = 1000;
+const CACHE_TTL_MS = 60 * 1000;
+
+export function emptyPolicy(): SourceTrustPolicy {
+  return { allowDomains: [], blockDomains: [], domainWeights: {}, requiredSourceTypes: [] };
+}
+
+/**
+ * Lowercase a domain rule; "https://www.Example.com/x" becomes "example.com",
+ * TLD rules keep their leading dot
+ */
+function normalizeRule(rule: string): string {
+  const value = rule.trim().toLowerCase();
+  if (value.startsWith('.')) return value;
+  return value.replace(/^[a-z]+:\/\//, '').replace(/[/?#].*$/, '').replace(/^www\./, '');
+}
+
+function readDomainList(value: any, field: string): string[] {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value) || value.length > MAX_RULES || !value.every(rule => typeof rule === 'string' && rule.trim())) {
+    throw new SourceTrustPolicyError(`${field} must be a list of at most ${MAX_RULES} domains`);
+  }
+  return [...new Set(value.map(normalizeRule))];
+}
+
+/**
+ * Validate and normalize a policy from user input or a policy file
+ */
+export function normalizePolicy(input: any): SourceTrustPolicy {
+  if (input === undefined || input === null) return emptyPolicy();
+  if (typeof input !== 'object' || Array.isArray(input)) {
+    throw new SourceTrustPolicyError('policy must be an object');
+  }
+
+  const domainWeights: Record<string, number> = {};
+  if (input.domainWeights !== undefined && input.domainWeights !== null) {
+    if (typeof input.domainWeights !== 'object' || Array.isArray(input.domainWeights)) {
+      throw new SourceTrustPolicyError('domainWeights must map domains to a weight between 0 and 100');
+    }
+    for (const [rule, weight] of Object.entries(input.domainWeights)) {
+      if (typeof weight !== 'number' || weight < 0 || weight > 100) {
+        throw new SourceTrustPolicyError(`Weight for "${rule}" must be between 0 and 100`);
+      }
+      domainWeights[normalizeRule(rule)] = Math.round(weight);
+    }
+  }
+
+  const requiredSourceTypes = input.requiredSourceTypes ?? [];
+  if (!Array.isArray(requiredSourceTypes) || !requiredSourceTypes.every(type => SOURCE_TYPES.includes(type))) {
+    throw new SourceTrustPolicyError(`requiredSourceTypes must be a list of: ${SOURCE_TYPES.join(', ')}`);
+  }
+
+  return {
+    allowDomains: readDomainList(input.allowDomains, 'allowDomains'),
+    blockDomains: readDomainList(input.blockDomains, 'blockDomains'),
+    domainWeights,
+    requiredSourceTypes: [...new Set(requiredSourceTypes as SourceType[])],
+  };
+}
+
+/**
+ * Combine the organization policy with a project's
+ * Lists are merged and project weights override organization weights for the
+ * same rule. Required types work like blocks: a source must meet both the
+ * organization's and the project's, and a project allow-list only exempts
+ * from the project's.
+ */
+export function mergePolicies(organization: SourceTrustPolicy, project: SourceTrustPolicy): SourceTrustPolicy {
+  const merged: SourceTrustPolicy = {
+    allowDomains: [...new Set([...organization.allowDomains, ...project.allowDomains])],
+    blockDomains: [...new Set([...organization.blockDomains, ...project.blockDomains])],
+    domainWeights: { ...organization.domainWeights, ...project.domainWeights },
+    requiredSourceTypes: project.requiredSourceTypes,
+  };
+  if (organization.requiredSourceTypes.length > 0) {
+    merged.organizationRequirement = {
+      allowDomains: organization.allowDomains,
+      requiredSourceTypes: organization.requiredSourceTypes,
+    };
+  }
+  return merged;
+}
+
+/**
+ * Whether a domain falls under a rule: ".gov" matches any domain ending in it,
+ * "example.com" matches the domain and its subdomains
+ */
+export function matchesDomainRule(domain: string, rule: string): boolean {
+  if (rule.startsWith('.')) return domain.endsWith(rule);
+  return domain === rule || domain.endsWith(`.${rule}`);
+}
+
+function findRule(domain: string, rules: string[]): string | undefined {
+  // The most specific (longest) matching rule wins
+  return rules
+    .filter(rule => matchesDomainRule(domain, rule))
+    .sort((a, b) => b.length - a.length)[0];
+}
+
+export function getDomain(url: string): string {
+  try {
+    return new URL(url).hostname.toLowerCase().replace(/^www\./, '');
+  } catch {
+    return url.toLowerCase();
+  }
+}
+
+export function isBlockedUrl(url: string, policy: SourceTrustPolicy): boolean {
+  return Boolean(findRule(getDomain(url), policy.blockDomains));
+}
+
+/**
+ * Check a source's domain and type against a policy
+ */
+export function evaluatePolicy(domain: string, sourceType: SourceType, policy: SourceTrustPolicy): PolicyEvaluation {
+  const violations: string[] = [];
+
+  const blockRule = findRule(domain, policy.blockDomains);
+  if (blockRule) {
+    violations.push(`Blocked by trust policy (${blockRule})`);
+  }
+
+  const allowListed = !blockRule && Boolean(findRule(domain, policy.allowDomains));
+  const weightRule = findRule(domain, Object.keys(policy.domainWeights));
+
+  const requirements = [{ types: policy.requiredSourceTypes, exempt: allowListed }];
+  if (policy.organizationRequirement) {
+    requirements.unshift({
+      types: policy.organizationRequirement.requiredSourceTypes,
+      exempt: !blockRule && Boolean(findRule(domain, policy.organizationRequirement.allowDomains)),
+    });
+  }
+  for (const { types, exempt } of requirements) {
+    if (!exempt && types.length > 0 && !types.includes(sourceType)) {
+      violations.push(`Source type "${sourceType}" is not one of the required types (${types.join(', ')})`);
+    }
+  }
+
+  return {
+    blocked: Boolean(blockRule),
+    allowListed,
+    weight: weightRule ? policy.domainWeights[weightRule] : undefined,
+    violations,
+  };
+}
+
+export class SourceTrustPolicyService {
+  private organizationPolicy: SourceTrustPolicy | null = null;
+  private projectCache: Map<string, { policy: SourceTrustPolicy; timestamp: number }> = new Map();
+
+  /**
+   * Organization-wide policy from SOURCE_TRUST_POLICY_PATH (loaded once)
+   * An unreadable file is logged and treated as no policy.
+   */
+  getOrganizationPolicy(): SourceTrustPolicy {
+    if (this.organizationPolicy) return this.organizationPolicy;
+
+    const filePath = getSourceTrustPolicyPath();
+    this.organizationPolicy = emptyPolicy();
+    if (filePath) {
+      try {
+        this.organizationPolicy = normalizePolicy(JSON.parse(fs.readFileSync(filePath, 'utf8')));
+        console.log(`[SourceTrustPolicy] Loaded organization policy from ${filePath} (${this.organizationPolicy.blockDomains.length} blocked domains)`);
+      } catch (error: any) {
+        console.error(`[SourceTrustPolicy] Could not load organization policy from ${filePath}:`, error.message || error);
+      }
+    }
+    return this.organizationPolicy;
+  }
+
+  /**
+   * Replace the organization policy (tests, or reloading after the file changed)
+   */
+  setOrganizationPolicy(policy: SourceTrustPolicy | null): void {
+    this.organizationPolicy = policy;
+  }
+
+  async getProjectPolicy(projectId: string): Promise<SourceTrustPolicy> {
+    const cached = this.projectCache.get(projectId);
+    if (cached && Date.now() - cached.timestamp < CACHE_TTL_MS) {
+      return cached.policy;
+    }
+
+    const { data, error } = await supabase
+      .from('projects')
+      .select('source_trust_policy')
+      .eq('id', projectId)
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to load source trust policy: ${error.message}`);
+    }
+
+    const policy = normalizePolicy(data?.source_trust_policy);
+    this.projectCache.set(projectId, { policy, timestamp: Date.now() });
+    return policy;
+  }
+
+  async updateProjectPolicy(projectId: string, input: any): Promise<SourceTrustPolicy> {
+    const policy = normalizePolicy(input);
+
+    const { error } = await supabase
+      .from('projects')
+      .update({ source_trust_policy: policy })
+      .eq('id', projectId);
+
+    if (error) {
+      throw new Error(`Failed to save source trust policy: ${error.message}`);
+    }
+
+    this.projectCache.set(projectId, { policy, timestamp: Date.now() });
+    console.log(`[SourceTrustPolicy] Project ${projectId}: ${policy.blockDomains.length} blocked, ${policy.allowDomains.length} allowed, required types [${policy.requiredSourceTypes.join(', ')}]`);
+    return policy;
+  }
+
+  async getPolicies(projectId: string): Promise<EffectiveTrustPolicy> {
+    const organization = this.getOrganizationPolicy();
+    const project = await this.getProjectPolicy(projectId);
+    return { organization, project, effective: mergePolicies(organization, project) };
+  }
+
+  /**
+   * The policy research applies for a project
+   * If the project's policy can't be read, the organization policy still applies.
+   */
+  async getEffectivePolicy(projectId: string): Promise<SourceTrustPolicy> {
+    try {
+      return (await this.getPolicies(projectId)).effective;
+    } catch (error) {
+      console.error('[SourceTrustPolicy] Could not read project policy, applying the organization policy only:', error);
+      return this.getOrganizationPolicy();
+    }
+  }
+}
+
+export const sourceTrustPolicyService = new SourceTrustPolicyService();
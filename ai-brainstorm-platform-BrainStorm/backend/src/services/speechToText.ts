@@ -0,0 +1,175 @@
+import OpenAI from 'openai';
+import fs from 'fs';
+import fsp from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import crypto from 'crypto';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import {
+  STT_PROVIDERS,
+  SpeechToTextConfig,
+  getSpeechToTextConfig,
+} from '../config/aiModels';
+
+/**
+ * Speech-to-text layer
+ *
+ * Audio and video references are transcribed through a SpeechToTextProvider,
+ * chosen by STT_PROVIDER. Providers take an audio file in the format they
+ * ask for (the media pipeline converts) and return timestamped segments.
+ */
+
+const execFileAsync = promisify(execFile);
+
+export interface TranscriptSegment {
+  /** Seconds from the start of the recording */
+  start: number;
+  end: number;
+  text: string;
+}
+
+export interface Transcript {
+  text: string;
+  segments: TranscriptSegment[];
+  language?: string | null;
+  provider: string;
+}
+
+export interface SpeechToTextProvider {
+  readonly name: string;
+  /** Audio format the provider wants as input */
+  readonly audioFormat: 'mp3' | 'wav';
+  transcribe(audioPath: string): Promise<Transcript>;
+}
+
+function joinSegments(segments: TranscriptSegment[]): string {
+  return segments.map(segment => segment.text).join(' ').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * OpenAI transcription API, or any server that implements it
+ */
+export class OpenAITranscriptionProvider implements SpeechToTextProvider {
+  readonly name = STT_PROVIDERS.OPENAI;
+  // Compressed audio keeps long recordings under the upload limit
+  readonly audioFormat = 'mp3' as const;
+  private client: OpenAI;
+
+  constructor(
+    apiKey: string | undefined,
+    baseUrl: string | undefined,
+    private model: string = 'whisper-1',
+    private language?: string
+  ) {
+    if (!apiKey && !baseUrl) {
+      throw new Error('Speech-to-text API key not configured. Set STT_API_KEY or OPENAI_API_KEY in .env');
+    }
+    this.client = new OpenAI({ apiKey: apiKey || 'not-needed', baseURL: baseUrl });
+  }
+
+  async transcribe(audioPath: string): Promise<Transcript> {
+    const response: any = await this.client.audio.transcriptions.create({
+      file: fs.createReadStream(audioPath),
+      model: this.model,
+      response_format: 'verbose_json',
+      timestamp_granularities: ['segment'],
+      ...(this.language ? { language: this.language } : {}),
+    });
+
+    const segments: TranscriptSegment[] = (response.segments || []).map((segment: any) => ({
+      start: Number(segment.start) || 0,
+      end: Number(segment.end) || 0,
+      text: String(segment.text || '').trim(),
+    })).filter((segment: TranscriptSegment) => segment.text);
+
+    return {
+      text: response.text?.trim() || joinSegments(segments),
+      segments,
+      language: response.language || null,
+      provider: this.name,
+    };
+  }
+}
+
+/**
+ * whisper.cpp command-line transcription - runs fully offline
+ */
+export class WhisperCppProvider implements SpeechToTextProvider {
+  readonly name = STT_PROVIDERS.WHISPER_CPP;
+  // whisper.cpp reads 16 kHz WAV
+  readonly audioFormat = 'wav' as const;
+
+  constructor(private binaryPath: string, private modelPath: string | undefined, private language?: string) {
+    if (!modelPath) {
+      throw new Error('whisper.cpp model not configured. Set WHISPER_MODEL_PATH to a ggml model file');
+    }
+  }
+
+  async transcribe(audioPath: string): Promise<Transcript> {
+    const outputBase = path.join(os.tmpdir(), `whisper-${crypto.randomUUID()}`);
+    const args = ['-m', this.modelPath!, '-f', audioPath, '-oj', '-of', outputBase, '-np'];
+    if (this.language) args.push('-l', this.language);
+
+    try {
+      await execFileAsync(this.binaryPath, args, { maxBuffer: 16 * 1024 * 1024 });
+      const output = JSON.parse(await fsp.readFile(`${outputBase}.json`, 'utf-8'));
+
+      const segments: TranscriptSegment[] = (output.transcription || []).map((segment: any) => ({
+        start: (Number(segment.offsets?.from) || 0) / 1000,
+        end: (Number(segment.offsets?.to) || 0) / 1000,
+        text: String(segment.text || '').trim(),
+      })).filter((segment: TranscriptSegment) => segment.text);
+
+      return {
+        text: joinSegments(segments),
+        segments,
+        language: output.result?.language || this.language || null,
+        provider: this.name,
+      };
+    } finally {
+      await fsp.rm(`${outputBase}.json`, { force: true });
+    }
+  }
+}
+
+/**
+ * Create a provider from configuration
+ * Returns null when transcription is turned off.
+ */
+export function createSpeechToTextProvider(
+  config: SpeechToTextConfig = getSpeechToTextConfig()
+): SpeechToTextProvider | null {
+  switch (config.type) {
+    case STT_PROVIDERS.OPENAI:
+      return new OpenAITranscriptionProvider(config.apiKey, config.baseUrl, config.model, config.language);
+    case STT_PROVIDERS.WHISPER_CPP:
+      return new WhisperCppProvider(config.binaryPath || 'whisper-cli', config.modelPath, config.language);
+    default:
+      return null;
+  }
+}
+
+// Singleton provider instance (undefined until first use)
+let sharedProvider: SpeechToTextProvider | null | undefined;
+
+export function getSpeechToTextProvider(): SpeechToTextProvider | null {
+  if (sharedProvider === undefined) {
+    try {
+      sharedProvider = createSpeechToTextProvider();
+    } catch (error: any) {
+      console.error('[SpeechToText] Provider misconfigured, transcription disabled:', error.message);
+      sharedProvider = null;
+    }
+    console.log(`[SpeechToText] Initialized provider: ${sharedProvider?.name || 'none'}`);
+  }
+  return sharedProvider;
+}
+
+/**
+ * Replace the shared provider (tests, offline demos)
+ * Pass undefined to re-create it from configuration on next use.
+ */
+export function setSpeechToTextProvider(provider: SpeechToTextProvider | null | undefined): void {
+  sharedProvider = provider;
+}
@@ -0,0 +1,167 @@
+/**
+ * Text chunking for embeddings
+ *
+ * Long references and documents are split into overlapping passages so each
+ * gets its own embedding instead of one vector for the first ~32k characters.
+ * Every chunk keeps where it came from: character offsets into the source
+ * text, the PDF page(s) it spans (from the "[Page N]" markers PDF extraction
+ * writes), and the nearest markdown heading above it (sections, slides,
+ * sheets).
+ */
+
+export interface TextChunk {
+  index: number;
+  content: string;
+  /** Offsets into the source text, end exclusive */
+  charStart: number;
+  charEnd: number;
+  pageStart: number | null;
+  pageEnd: number | null;
+  section: string | null;
+}
+
+export interface ChunkOptions {
+  /** Target chunk length in characters */
+  maxChars?: number;
+  /** Characters repeated from the end of the previous chunk */
+  overlap?: number;
+}
+
+const DEFAULT_MAX_CHARS = 1500;
+const DEFAULT_OVERLAP = 200;
+
+const PAGE_MARKER = /^\[Page (\d+)\]$/;
+const HEADING = /^#{1,6}\s+(.+?)\s*#*$/;
+
+/**
+ * Marker line PDF extraction puts at the top of each page
+ */
+export function pageMarker(page: number): string {
+  return `[Page ${page}]`;
+}
+
+interface Marker {
+  offset: number;
+  value: string;
+}
+
+function scanMarkers(text: string): { pages: Marker[]; sections: Marker[] } {
+  const pages: Marker[] = [];
+  const sections: Marker[] = [];
+  let offset = 0;
+
+  for (const line of text.split('\n')) {
+    const trimmed = line.trim();
+    const page = PAGE_MARKER.exec(trimmed);
+    const heading = HEADING.exec(trimmed);
+    if (page) pages.push({ offset, value: page[1] });
+    else if (heading) sections.push({ offset, value: heading[1] });
+    offset += line.length + 1;
+  }
+
+  return { pages, sections };
+}
+
+/**
+ * Last marker at or before offset
+ */
+function markerAt(markers: Marker[], offset: number): Marker | null {
+  let found: Marker | null = null;
+  for (const marker of markers) {
+    if (marker.offset > offset) break;
+    found = marker;
+  }
+  return found;
+}
+
+/**
+ * Where to end a chunk that starts at start: the last paragraph break, then
+ * sentence end, then whitespace in the back half of the window
+ */
+function breakPoint(text: string, start: number, maxChars: number): number {
+  const limit = start + maxChars;
+  if (limit >= text.length) return text.length;
+
+  const window = text.slice(start, limit);
+  const minimum = Math.floor(maxChars / 2);
+  const candidates = [
+    window.lastIndexOf('\n\n'),
+    Math.max(window.lastIndexOf('. '), window.lastIndexOf('.\n'), window.lastIndexOf('? '), window.lastIndexOf('! ')) + 1,
+    window.lastIndexOf('\n'),
+    window.lastIndexOf(' '),
+  ];
+
+  for (const candidate of candidates) {
+    if (candidate >= minimum) return start + candidate;
+  }
+  return limit;
+}
+
+/**
+ * Split text into overlapping chunks with page, section and offset
+ */
+export function chunkText(text: string, options: ChunkOptions = {}): TextChunk[] {
+  const maxChars = Math.max(100, options.maxChars ?? DEFAULT_MAX_CHARS);
+  const overlap = Math.min(Math.max(0, options.overlap ?? DEFAULT_OVERLAP), Math.floor(maxChars / 2));
+  const { pages, sections } = scanMarkers(text);
+  const chunks: TextChunk[] = [];
+
+  let start = 0;
+  while (start < text.length) {
+    const end = breakPoint(text, start, maxChars);
+    const raw = text.slice(start, end);
+
+    // Page markers locate the chunk but are noise in the passage itself
+    const content = raw
+      .split('\n')
+      .filter(line => !PAGE_MARKER.test(line.trim()))
+      .join('\n')
+      .trim();
+
+    if (content) {
+      const leading = raw.length - raw.trimStart().length;
+      const charStart = start + leading;
+      const charEnd = end - (raw.length - raw.trimEnd().length);
+      // A chunk that opens on a marker line belongs to that page/section
+      const firstPage = markerAt(pages, charStart) || pages.find(marker => marker.offset < charEnd) || null;
+      const lastPage = markerAt(pages, charEnd - 1);
+      const section = markerAt(sections, charStart) || sections.find(marker => marker.offset < charEnd) || null;
+
+      chunks.push({
+        index: chunks.length,
+        content,
+        charStart,
+        charEnd,
+        pageStart: firstPage ? Number(firstPage.value) : null,
+        pageEnd: lastPage ? Number(lastPage.value) : firstPage ? Number(firstPage.value) : null,
+        section: section ? section.value : null,
+      });
+    }
+
+    if (end >= text.length) break;
+
+    // Step back for the overlap, then forward to a word boundary
+    let next = Math.max(end - overlap, start + 1);
+    if (next < end) {
+      const space = text.slice(next, end).search(/\s/);
+      next = space >= 0 ? next + space + 1 : end;
+    }
+    start = next;
+  }
+
+  return chunks;
+}
+
+/**
+ * Human-readable location of a chunk, e.g. "p. 12-13 · Requirements"
+ */
+export function describeChunkLocation(chunk: Pick<TextChunk, 'pageStart' | 'pageEnd' | 'section'>): string | null {
+  const parts: string[] = [];
+  if (chunk.pageStart !== null) {
+    parts.push(chunk.pageEnd !== null && chunk.pageEnd !== chunk.pageStart
+      ? `p. ${chunk.pageStart}-${chunk.pageEnd}`
+      : `p. ${chunk.pageStart}`);
+  }
+  if (chunk.section) parts.push(chunk.section);
+  return parts.length > 0 ? parts.join(' · ') : null;
+}
@@ -1,67 +1,211 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { estimateCost } from '../config/aiModels';
+
 /**
- * TokenMetrics - Track token usage and cost optimization
+ * TokenMetrics - Track token usage and cost
  *
- * Monitors token consumption across agents to identify optimization opportunities.
- * All estimates are approximations based on typical token counts.
+ * Records the actual `usage` block returned by the LLM provider for every agent
+ * call (see BaseAgent.complete), attributed to agent, operation, project and user.
+ * Recent records are kept in memory for live stats; every record is also persisted
+ * to the `token_usage` table once a Supabase client is attached, so per-project
+ * cost reports survive restarts.
  */
 
-interface TokenUsageRecord {
+export interface TokenUsageInput {
   agentName: string;
+  operation?: string;
+  model: string;
+  provider?: string;
+  projectId?: string;
+  userId?: string;
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationInputTokens?: number;
+  cacheReadInputTokens?: number;
+}
+
+export interface TokenUsageRecord {
+  agentName: string;
+  operation: string;
+  model: string;
+  provider?: string;
+  projectId?: string;
+  userId?: string;
   timestamp: number;
-  estimatedTokens: number;
-  wasCached: boolean;
-  messageLengthChars: number;
-  historyLengthMessages: number;
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationInputTokens: number;
+  cacheReadInputTokens: number;
+  costUSD: number;
+  wasCached: boolean; // Served from ResponseCache - no API call made
 }
 
 interface AgentTokenStats {
   agentName: string;
   totalCalls: number;
   cachedCalls: number;
-  estimatedTokens: number;
-  tokensSaved: number; // From caching
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadInputTokens: number;
+  totalTokens: number;
+  tokensSaved: number; // From ResponseCache hits, estimated from this agent's average call
   averageTokensPerCall: number;
+  costUSD: number;
+}
+
+export interface UsageBreakdownEntry {
+  key: string;
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationInputTokens: number;
+  cacheReadInputTokens: number;
+  costUSD: number;
+}
+
+export interface ProjectCostReport {
+  projectId: string;
+  since: string | null;
+  totalCalls: number;
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationInputTokens: number;
+  cacheReadInputTokens: number;
+  totalCostUSD: number;
+  byAgent: UsageBreakdownEntry[];
+  byOperation: UsageBreakdownEntry[];
+  byModel: UsageBreakdownEntry[];
+  byUser: UsageBreakdownEntry[];
+}
+
+function roundCost(value: number): number {
+  return Math.round(value * 1_000_000) / 1_000_000;
+}
+
+/**
+ * One row of token_usage_report (bigint and numeric columns may arrive as strings)
+ */
+function toBreakdownEntry(row: any): UsageBreakdownEntry {
+  return {
+    key: row.key ?? 'unknown',
+    calls: Number(row.calls || 0),
+    inputTokens: Number(row.input_tokens || 0),
+    outputTokens: Number(row.output_tokens || 0),
+    cacheCreationInputTokens: Number(row.cache_creation_input_tokens || 0),
+    cacheReadInputTokens: Number(row.cache_read_input_tokens || 0),
+    costUSD: roundCost(Number(row.cost_usd || 0)),
+  };
+}
+
+/**
+ * Group usage records by a key and sum their tokens and cost (highest cost first)
+ */
+export function aggregateUsage(
+  records: Array<Pick<TokenUsageRecord, 'inputTokens' | 'outputTokens' | 'cacheCreationInputTokens' | 'cacheReadInputTokens' | 'costUSD'>>,
+  keyOf: (record: any) => string | undefined
+): UsageBreakdownEntry[] {
+  const groups = new Map<string, UsageBreakdownEntry>();
+
+  for (const record of records) {
+    const key = keyOf(record) || 'unknown';
+    if (!groups.has(key)) {
+      groups.set(key, {
+        key,
+        calls: 0,
+        inputTokens: 0,
+        outputTokens: 0,
+        cacheCreationInputTokens: 0,
+        cacheReadInputTokens: 0,
+        costUSD: 0,
+      });
+    }
+
+    const group = groups.get(key)!;
+    group.calls++;
+    group.inputTokens += record.inputTokens;
+    group.outputTokens += record.outputTokens;
+    group.cacheCreationInputTokens += record.cacheCreationInputTokens;
+    group.cacheReadInputTokens += record.cacheReadInputTokens;
+    group.costUSD += record.costUSD;
+  }
+
+  return Array.from(groups.values())
+    .map(group => ({ ...group, costUSD: roundCost(group.costUSD) }))
+    .sort((a, b) => b.costUSD - a.costUSD);
 }
 
 export class TokenMetrics {
   private usageRecords: TokenUsageRecord[] = [];
-  private readonly MAX_RECORDS = 1000; // Keep last 1000 records
+  private readonly MAX_RECORDS = 1000; // Keep last 1000 records in memory
+  private supabase: SupabaseClient | null = null;
+
+  constructor(supabase?: SupabaseClient) {
+    this.supabase = supabase || null;
+  }
 
   /**
-   * Record token usage for an agent call
+   * Attach a Supabase client so records are persisted to `token_usage`
    */
-  recordUsage(
-    agentName: string,
-    userMessage: string,
-    conversationHistory: any[],
-    systemPromptLength: number,
-    wasCached: boolean
-  ): void {
-    // Estimate tokens (very rough approximation)
-    // System prompt: ~1 token per 4 characters
-    // User message: ~1 token per 4 characters
-    // History: ~1 token per 4 characters
-    const systemTokens = Math.ceil(systemPromptLength / 4);
-    const messageTokens = Math.ceil(userMessage.length / 4);
-
-    // History tokens (sum of all message content)
-    const historyChars = conversationHistory.reduce(
-      (sum, msg) => sum + (msg.content?.length || 0),
-      0
-    );
-    const historyTokens = Math.ceil(historyChars / 4);
+  setSupabaseClient(supabase: SupabaseClient | null): void {
+    this.supabase = supabase;
+  }
 
-    // Total input tokens
-    const estimatedTokens = systemTokens + messageTokens + historyTokens;
+  /**
+   * Record actual token usage for a model call
+   */
+  recordUsage(usage: TokenUsageInput): TokenUsageRecord {
+    const cacheCreationInputTokens = usage.cacheCreationInputTokens || 0;
+    const cacheReadInputTokens = usage.cacheReadInputTokens || 0;
 
-    this.usageRecords.push({
+    const record: TokenUsageRecord = {
+      agentName: usage.agentName,
+      operation: usage.operation || 'default',
+      model: usage.model,
+      provider: usage.provider,
+      projectId: usage.projectId,
+      userId: usage.userId,
+      timestamp: Date.now(),
+      inputTokens: usage.inputTokens,
+      outputTokens: usage.outputTokens,
+      cacheCreationInputTokens,
+      cacheReadInputTokens,
+      costUSD: estimateCost(
+        usage.model,
+        usage.inputTokens,
+        usage.outputTokens,
+        cacheCreationInputTokens,
+        cacheReadInputTokens
+      ),
+      wasCached: false,
+    };
+
+    this.addRecord(record);
+    this.persist(record);
+    return record;
+  }
+
+  /**
+   * Record a ResponseCache hit (no API call, no tokens spent)
+   */
+  recordCacheHit(agentName: string, context: { operation?: string; projectId?: string; userId?: string } = {}): void {
+    this.addRecord({
       agentName,
+      operation: context.operation || 'default',
+      model: 'cache',
+      projectId: context.projectId,
+      userId: context.userId,
       timestamp: Date.now(),
-      estimatedTokens: wasCached ? 0 : estimatedTokens, // No tokens if cached
-      wasCached,
-      messageLengthChars: userMessage.length,
-      historyLengthMessages: conversationHistory.length,
+      inputTokens: 0,
+      outputTokens: 0,
+      cacheCreationInputTokens: 0,
+      cacheReadInputTokens: 0,
+      costUSD: 0,
+      wasCached: true,
     });
+  }
+
+  private addRecord(record: TokenUsageRecord): void {
+    this.usageRecords.push(record);
 
     // Limit records
     if (this.usageRecords.length > this.MAX_RECORDS) {
@@ -69,6 +213,34 @@ export class TokenMetrics {
     }
   }
 
+  /**
+   * Persist a record (fire-and-forget - accounting must never break an agent call)
+   */
+  private persist(record: TokenUsageRecord): void {
+    if (!this.supabase) return;
+
+    this.supabase
+      .from('token_usage')
+      .insert({
+        project_id: record.projectId || null,
+        user_id: record.userId || null,
+        agent_name: record.agentName,
+        operation: record.operation,
+        model: record.model,
+        provider: record.provider || null,
+        input_tokens: record.inputTokens,
+        output_tokens: record.outputTokens,
+        cache_creation_input_tokens: record.cacheCreationInputTokens,
+        cache_read_input_tokens: record.cacheReadInputTokens,
+        cost_usd: roundCost(record.costUSD),
+      })
+      .then(({ error }) => {
+        if (error) {
+          console.error('[TokenMetrics] Failed to persist token usage:', error.message);
+        }
+      });
+  }
+
   /**
    * Get token statistics per agent
    */
@@ -81,9 +253,13 @@ export class TokenMetrics {
           agentName: record.agentName,
           totalCalls: 0,
           cachedCalls: 0,
-          estimatedTokens: 0,
+          inputTokens: 0,
+          outputTokens: 0,
+          cacheReadInputTokens: 0,
+          totalTokens: 0,
           tokensSaved: 0,
           averageTokensPerCall: 0,
+          costUSD: 0,
         });
       }
 
@@ -92,27 +268,27 @@ export class TokenMetrics {
 
       if (record.wasCached) {
         stats.cachedCalls++;
-        // If cached, tokens weren't used (but we estimate what would have been used)
-        stats.tokensSaved += record.estimatedTokens;
       } else {
-        stats.estimatedTokens += record.estimatedTokens;
+        stats.inputTokens += record.inputTokens;
+        stats.outputTokens += record.outputTokens;
+        stats.cacheReadInputTokens += record.cacheReadInputTokens;
+        stats.totalTokens += record.inputTokens + record.outputTokens + record.cacheCreationInputTokens + record.cacheReadInputTokens;
+        stats.costUSD += record.costUSD;
       }
     }
 
-    // Calculate averages
+    // Calculate averages and cache savings
     for (const stats of agentMap.values()) {
-      if (stats.totalCalls > 0) {
-        const uncachedCalls = stats.totalCalls - stats.cachedCalls;
-        stats.averageTokensPerCall =
-          uncachedCalls > 0
-            ? Math.round(stats.estimatedTokens / uncachedCalls)
-            : 0;
-      }
+      const uncachedCalls = stats.totalCalls - stats.cachedCalls;
+      stats.averageTokensPerCall =
+        uncachedCalls > 0 ? Math.round(stats.totalTokens / uncachedCalls) : 0;
+      stats.tokensSaved = stats.cachedCalls * stats.averageTokensPerCall;
+      stats.costUSD = roundCost(stats.costUSD);
     }
 
     // Sort by total tokens (highest first)
     return Array.from(agentMap.values()).sort(
-      (a, b) => b.estimatedTokens - a.estimatedTokens
+      (a, b) => b.totalTokens - a.totalTokens
     );
   }
 
@@ -123,27 +299,39 @@ export class TokenMetrics {
     totalCalls: number;
     cachedCalls: number;
     cacheHitRate: number;
-    estimatedTokensUsed: number;
+    inputTokens: number;
+    outputTokens: number;
+    cacheCreationInputTokens: number;
+    cacheReadInputTokens: number;
+    tokensUsed: number;
     estimatedTokensSaved: number;
     totalSavingsPercent: number;
-    estimatedCostUSD: number;
-    estimatedSavingsUSD: number;
+    costUSD: number;
   } {
     let totalCalls = 0;
     let cachedCalls = 0;
-    let tokensUsed = 0;
-    let tokensSaved = 0;
+    let inputTokens = 0;
+    let outputTokens = 0;
+    let cacheCreationInputTokens = 0;
+    let cacheReadInputTokens = 0;
+    let costUSD = 0;
 
     for (const record of this.usageRecords) {
       totalCalls++;
       if (record.wasCached) {
         cachedCalls++;
-        tokensSaved += record.estimatedTokens;
       } else {
-        tokensUsed += record.estimatedTokens;
+        inputTokens += record.inputTokens;
+        outputTokens += record.outputTokens;
+        cacheCreationInputTokens += record.cacheCreationInputTokens;
+        cacheReadInputTokens += record.cacheReadInputTokens;
+        costUSD += record.costUSD;
       }
     }
 
+    const tokensUsed = inputTokens + outputTokens + cacheCreationInputTokens + cacheReadInputTokens;
+    const tokensSaved = this.getAgentStats().reduce((sum, stats) => sum + stats.tokensSaved, 0);
+
     const cacheHitRate =
       totalCalls > 0 ? (cachedCalls / totalCalls) * 100 : 0;
 
@@ -153,22 +341,18 @@ export class TokenMetrics {
         ? (tokensSaved / totalPotentialTokens) * 100
         : 0;
 
-    // Cost estimation (Claude Sonnet 4 pricing)
-    // Input: $3 per 1M tokens
-    // These are rough estimates based on input tokens only
-    const costPerMillion = 3.0;
-    const estimatedCostUSD = (tokensUsed / 1_000_000) * costPerMillion;
-    const estimatedSavingsUSD = (tokensSaved / 1_000_000) * costPerMillion;
-
     return {
       totalCalls,
       cachedCalls,
       cacheHitRate: Math.round(cacheHitRate * 10) / 10,
-      estimatedTokensUsed: tokensUsed,
+      inputTokens,
+      outputTokens,
+      cacheCreationInputTokens,
+      cacheReadInputTokens,
+      tokensUsed,
       estimatedTokensSaved: tokensSaved,
       totalSavingsPercent: Math.round(totalSavingsPercent * 10) / 10,
-      estimatedCostUSD: Math.round(estimatedCostUSD * 100) / 100,
-      estimatedSavingsUSD: Math.round(estimatedSavingsUSD * 100) / 100,
+      costUSD: Math.round(costUSD * 100) / 100,
     };
   }
 
@@ -181,13 +365,15 @@ export class TokenMetrics {
 
     console.log('\n=== Token Usage Metrics ===');
     console.log(
-      `Total API calls: ${totalStats.totalCalls} (${totalStats.cachedCalls} cached, ${totalStats.cacheHitRate}% hit rate)`
+      `Total agent calls: ${totalStats.totalCalls} (${totalStats.cachedCalls} cached, ${totalStats.cacheHitRate}% hit rate)`
     );
     console.log(
-      `Tokens used: ~${totalStats.estimatedTokensUsed.toLocaleString()} (~$${totalStats.estimatedCostUSD})`
+      `Tokens used: ${totalStats.tokensUsed.toLocaleString()} ` +
+        `(${totalStats.inputTokens.toLocaleString()} in, ${totalStats.outputTokens.toLocaleString()} out, ` +
+        `${totalStats.cacheReadInputTokens.toLocaleString()} cache reads) ($${totalStats.costUSD})`
     );
     console.log(
-      `Tokens saved: ~${totalStats.estimatedTokensSaved.toLocaleString()} (~$${totalStats.estimatedSavingsUSD}) [${totalStats.totalSavingsPercent}% reduction]`
+      `Tokens saved by response cache: ~${totalStats.estimatedTokensSaved.toLocaleString()} [${totalStats.totalSavingsPercent}% reduction]`
     );
 
     if (agentStats.length > 0) {
@@ -199,7 +385,7 @@ export class TokenMetrics {
             : 0;
         console.log(
           `  ${index + 1}. ${stats.agentName}: ` +
-            `~${stats.estimatedTokens.toLocaleString()} tokens ` +
+            `${stats.totalTokens.toLocaleString()} tokens, $${stats.costUSD} ` +
             `(${stats.totalCalls} calls, ${cacheRate}% cached, ` +
             `avg ${stats.averageTokensPerCall} tokens/call)`
         );
@@ -219,6 +405,108 @@ export class TokenMetrics {
     };
   }
 
+  /**
+   * Build a persisted cost report for a project
+   * Falls back to in-memory records when no Supabase client is attached.
+   */
+  async getProjectCostReport(projectId: string, since?: Date): Promise<ProjectCostReport> {
+    if (this.supabase) {
+      // Grouped and summed in SQL (migration 035), so the report doesn't grow with the usage history
+      const { data, error } = await this.supabase.rpc('token_usage_report', {
+        project_id_filter: projectId,
+        since: since ? since.toISOString() : null,
+      });
+      if (error) {
+        throw error;
+      }
+
+      const rows: any[] = data || [];
+      const totals = toBreakdownEntry(rows.find(row => row.dimension === 'total') || { key: null });
+      const breakdown = (dimension: string) => rows
+        .filter(row => row.dimension === dimension)
+        .map(toBreakdownEntry)
+        .sort((a, b) => b.costUSD - a.costUSD);
+
+      return {
+        projectId,
+        since: since ? since.toISOString() : null,
+        totalCalls: totals.calls,
+        inputTokens: totals.inputTokens,
+        outputTokens: totals.outputTokens,
+        cacheCreationInputTokens: totals.cacheCreationInputTokens,
+        cacheReadInputTokens: totals.cacheReadInputTokens,
+        totalCostUSD: totals.costUSD,
+        byAgent: breakdown('agent'),
+        byOperation: breakdown('operation'),
+        byModel: breakdown('model'),
+        byUser: breakdown('user'),
+      };
+    }
+
+    const cutoff = since ? since.getTime() : 0;
+    const records = this.usageRecords.filter(
+      r => !r.wasCached && r.projectId === projectId && r.timestamp >= cutoff
+    );
+
+    const totals = records.reduce(
+      (sum, r) => ({
+        inputTokens: sum.inputTokens + r.inputTokens,
+        outputTokens: sum.outputTokens + r.outputTokens,
+        cacheCreationInputTokens: sum.cacheCreationInputTokens + r.cacheCreationInputTokens,
+        cacheReadInputTokens: sum.cacheReadInputTokens + r.cacheReadInputTokens,
+        costUSD: sum.costUSD + r.costUSD,
+      }),
+      { inputTokens: 0, outputTokens: 0, cacheCreationInputTokens: 0, cacheReadInputTokens: 0, costUSD: 0 }
+    );
+
+    return {
+      projectId,
+      since: since ? since.toISOString() : null,
+      totalCalls: records.length,
+      inputTokens: totals.inputTokens,
+      outputTokens: totals.outputTokens,
+      cacheCreationInputTokens: totals.cacheCreationInputTokens,
+      cacheReadInputTokens: totals.cacheReadInputTokens,
+      totalCostUSD: roundCost(totals.costUSD),
+      byAgent: aggregateUsage(records, r => r.agentName),
+      byOperation: aggregateUsage(records, r => r.operation),
+      byModel: aggregateUsage(records, r => r.model),
+      byUser: aggregateUsage(records, r => r.userId),
+    };
+  }
+
+  /**
+   * Total spend (USD) for a project or user since a point in time
+   * Falls back to in-memory records when no Supabase client is attached.
+   */
+  async getSpendSince(scope: { projectId?: string; userId?: string }, since: Date): Promise<number> {
+    if (this.supabase) {
+      // Summed in SQL (migration 033) - a plain select stops at 1000 rows
+      const { data, error } = await this.supabase.rpc('token_spend_since', {
+        since: since.toISOString(),
+        project_id_filter: scope.projectId ?? null,
+        user_id_filter: scope.userId ?? null,
+      });
+      if (error) {
+        throw error;
+      }
+
+      return roundCost(Number(data) || 0);
+    }
+
+    const cutoff = since.getTime();
+    return roundCost(
+      this.usageRecords
+        .filter(r =>
+          !r.wasCached &&
+          r.timestamp >= cutoff &&
+          (!scope.projectId || r.projectId === scope.projectId) &&
+          (!scope.userId || r.userId === scope.userId)
+        )
+        .reduce((sum, r) => sum + r.costUSD, 0)
+    );
+  }
+
   /**
    * Reset all metrics (for testing)
    */
@@ -232,7 +520,8 @@ export class TokenMetrics {
   getStatsForTimeRange(minutesAgo: number): {
     totalCalls: number;
     cachedCalls: number;
-    estimatedTokens: number;
+    tokensUsed: number;
+    costUSD: number;
   } {
     const cutoffTime = Date.now() - minutesAgo * 60 * 1000;
     const recentRecords = this.usageRecords.filter(
@@ -242,20 +531,26 @@ export class TokenMetrics {
     let totalCalls = 0;
     let cachedCalls = 0;
     let tokens = 0;
+    let costUSD = 0;
 
     for (const record of recentRecords) {
       totalCalls++;
       if (record.wasCached) {
         cachedCalls++;
       } else {
-        tokens += record.estimatedTokens;
+        tokens += record.inputTokens + record.outputTokens + record.cacheCreationInputTokens + record.cacheReadInputTokens;
+        costUSD += record.costUSD;
       }
     }
 
     return {
       totalCalls,
       cachedCalls,
-      estimatedTokens: tokens,
+      tokensUsed: tokens,
+      costUSD: roundCost(costUSD),
     };
   }
 }
+
+// Shared instance - BaseAgent records into it, /api/agents/stats reads from it
+export const tokenMetrics = new TokenMetrics();
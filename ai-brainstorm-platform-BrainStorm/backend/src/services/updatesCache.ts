@@ -1,7 +1,12 @@
+import { getCacheStore } from './cacheStore';
+
 /**
- * Simple in-memory cache for storing pending project updates
+ * Short-lived cache for storing pending project updates
  * Updates are stored temporarily after background processing completes
- * and retrieved by the frontend via polling
+ * and retrieved by the frontend via polling or the updates stream.
+ *
+ * Kept in the shared CacheStore, so a client polling one backend instance
+ * receives updates produced by a workflow that ran on another.
  */
 
 interface ProjectUpdates {
@@ -15,110 +20,90 @@ interface ProjectUpdates {
   };
 }
 
-class UpdatesCache {
-  private cache: Map<string, ProjectUpdates>;
-  private readonly TTL_MS = 30000; // 30 seconds TTL
-
-  constructor() {
-    this.cache = new Map();
-
-    // Cleanup expired entries every 10 seconds
-    setInterval(() => this.cleanup(), 10000);
-  }
+const KEY_PREFIX = 'updates:';
+const TTL_SECONDS = 30;
 
+class UpdatesCache {
   /**
    * Store updates for a project
    */
-  set(projectId: string, updates: ProjectUpdates): void {
+  async set(projectId: string, updates: ProjectUpdates): Promise<void> {
     console.log(`[UpdatesCache] Storing updates for project ${projectId}:`, {
       itemsAdded: updates.itemsAdded.length,
       itemsModified: updates.itemsModified.length,
       itemsMoved: updates.itemsMoved.length
     });
 
-    this.cache.set(projectId, {
-      ...updates,
-      timestamp: Date.now()
-    });
+    await getCacheStore().set(
+      KEY_PREFIX + projectId,
+      { ...updates, timestamp: Date.now() },
+      { ttlSeconds: TTL_SECONDS }
+    );
   }
 
   /**
    * Retrieve and remove updates for a project
-   * Returns null if no updates available
+   * Returns null if no updates available. Retrieval is atomic, so only one
+   * reader (on any instance) receives a given set of updates.
    */
-  get(projectId: string): ProjectUpdates | null {
-    const updates = this.cache.get(projectId);
+  async get(projectId: string): Promise<ProjectUpdates | null> {
+    const updates = await getCacheStore().take<ProjectUpdates>(KEY_PREFIX + projectId);
 
     if (!updates) {
       console.log(`[UpdatesCache] No updates found for project ${projectId}`);
       return null;
     }
 
-    // Check if expired
-    if (Date.now() - updates.timestamp > this.TTL_MS) {
-      console.log(`[UpdatesCache] Updates expired for project ${projectId}`);
-      this.cache.delete(projectId);
-      return null;
-    }
-
-    // Remove from cache after retrieval (one-time use)
-    this.cache.delete(projectId);
-
     console.log(`[UpdatesCache] Retrieved updates for project ${projectId}`);
     return updates;
   }
 
   /**
-   * Check if updates are available for a project
+   * Return updates taken by a reader that could not deliver them
+   * Updates stored meanwhile are kept, after the returned ones.
    */
-  has(projectId: string): boolean {
-    const updates = this.cache.get(projectId);
-    if (!updates) return false;
-
-    // Check if expired
-    if (Date.now() - updates.timestamp > this.TTL_MS) {
-      this.cache.delete(projectId);
-      return false;
-    }
-
-    return true;
+  async putBack(projectId: string, updates: ProjectUpdates): Promise<void> {
+    const newer = await getCacheStore().take<ProjectUpdates>(KEY_PREFIX + projectId);
+    await getCacheStore().set(
+      KEY_PREFIX + projectId,
+      newer
+        ? {
+            itemsAdded: [...updates.itemsAdded, ...newer.itemsAdded],
+            itemsModified: [...updates.itemsModified, ...newer.itemsModified],
+            itemsMoved: [...updates.itemsMoved, ...newer.itemsMoved],
+            timestamp: newer.timestamp,
+            workflow: newer.workflow || updates.workflow,
+          }
+        : updates,
+      { ttlSeconds: TTL_SECONDS }
+    );
+    console.log(`[UpdatesCache] Put back undelivered updates for project ${projectId}`);
   }
 
   /**
-   * Cleanup expired entries
+   * Check if updates are available for a project
    */
-  private cleanup(): void {
-    const now = Date.now();
-    let cleanedCount = 0;
-
-    for (const [projectId, updates] of this.cache.entries()) {
-      if (now - updates.timestamp > this.TTL_MS) {
-        this.cache.delete(projectId);
-        cleanedCount++;
-      }
-    }
-
-    if (cleanedCount > 0) {
-      console.log(`[UpdatesCache] Cleaned up ${cleanedCount} expired entries`);
-    }
+  async has(projectId: string): Promise<boolean> {
+    return getCacheStore().has(KEY_PREFIX + projectId);
   }
 
   /**
-   * Clear all cached updates
+   * Clear cached updates for one project, or for all projects
    */
-  clear(): void {
-    this.cache.clear();
-    console.log('[UpdatesCache] Cache cleared');
+  async clear(projectId?: string): Promise<void> {
+    if (projectId) {
+      await getCacheStore().delete(KEY_PREFIX + projectId);
+    } else {
+      await getCacheStore().clear(KEY_PREFIX);
+    }
+    console.log(`[UpdatesCache] Cache cleared${projectId ? ` for project ${projectId}` : ''}`);
   }
 
   /**
    * Get cache statistics
    */
-  getStats(): { size: number; projects: string[] } {
-    return {
-      size: this.cache.size,
-      projects: Array.from(this.cache.keys())
-    };
+  async getStats(): Promise<{ size: number }> {
+    return { size: await getCacheStore().countKeys(KEY_PREFIX) };
   }
 }
 
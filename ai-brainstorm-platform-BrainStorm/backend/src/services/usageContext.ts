@@ -0,0 +1,43 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import type { TokenUsageRecord } from './tokenMetrics';
+
+/**
+ * Usage attribution context
+ *
+ * Carries project/user/operation through async call chains so BaseAgent can
+ * attribute token usage without every agent method taking extra parameters.
+ * It also carries the project memory agents add to their system prompts.
+ * Nested calls inherit and extend the outer context.
+ */
+export interface UsageContext {
+  projectId?: string;
+  userId?: string;
+  operation?: string;
+  /** Budget level for the project/user - 'soft' and 'hard' downgrade models */
+  budgetLevel?: 'ok' | 'soft' | 'hard';
+  /** Workflow trace step collecting the model calls made while it runs */
+  traceStep?: TraceStepCollector;
+  /** Project memory section (see formatMemoryForPrompt) appended to system prompts */
+  projectMemory?: string;
+}
+
+export interface TraceStepCollector {
+  addUsage(record: TokenUsageRecord): void;
+  markCacheHit(): void;
+}
+
+const storage = new AsyncLocalStorage<UsageContext>();
+
+/**
+ * Run fn with the given context merged over the current one
+ */
+export function runWithUsageContext<T>(context: UsageContext, fn: () => T): T {
+  return storage.run({ ...storage.getStore(), ...context }, fn);
+}
+
+/**
+ * Get the current context (empty object outside of runWithUsageContext)
+ */
+export function getUsageContext(): UsageContext {
+  return storage.getStore() || {};
+}
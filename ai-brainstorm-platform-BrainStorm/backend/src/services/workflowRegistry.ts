@@ -0,0 +1,420 @@
+import fs from 'fs';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { parse as parseYaml } from 'yaml';
+import { WorkflowStep } from '../types';
+import {
+  DEFAULT_WORKFLOW_DOCUMENT,
+  FALLBACK_INTENT,
+  WORKFLOW_ACTIONS,
+  WORKFLOW_CONDITIONS,
+  WORKFLOW_DOCUMENT_VERSION,
+  WorkflowDocument,
+  WorkflowOverrideDocument,
+} from '../config/workflows';
+
+/**
+ * WorkflowRegistry - Declarative agent workflows
+ *
+ * Resolves the step list for an intent from the default workflow document
+ * (built-in, or WORKFLOWS_FILE) merged with the project's override. Project
+ * overrides are stored as versions in `project_workflows`; the newest row wins,
+ * and a row with a null document means "back to defaults".
+ */
+
+/**
+ * Agents the orchestrator has registered, with the methods each one implements
+ */
+export interface WorkflowCatalog {
+  agents: Record<string, string[]>;
+}
+
+export interface WorkflowValidationResult {
+  valid: boolean;
+  errors: string[];
+  warnings: string[];
+}
+
+export interface ProjectWorkflowOverride {
+  version: number;
+  document: WorkflowOverrideDocument | null;
+  source: string | null;
+  createdBy: string | null;
+  createdAt: string;
+}
+
+export interface ResolvedWorkflow {
+  /** Workflow that was used (the fallback when the intent has none) */
+  intent: string;
+  sequence: WorkflowStep[];
+  /** Steps removed by the project's skipAgents */
+  skipped: WorkflowStep[];
+  source: {
+    type: 'default' | 'project';
+    defaultsVersion: number;
+    overrideVersion: number | null;
+  };
+}
+
+export class WorkflowDefinitionError extends Error {
+  constructor(message: string, public errors: string[] = []) {
+    super(message);
+    this.name = 'WorkflowDefinitionError';
+  }
+}
+
+const INTENT_PATTERN = /^[a-z][a-z0-9_]*$/;
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function hasKey(map: object, key: unknown): boolean {
+  return typeof key === 'string' && Object.prototype.hasOwnProperty.call(map, key);
+}
+
+/**
+ * Parse a workflow document given as YAML or JSON text (or an already parsed object)
+ */
+export function parseWorkflowDocument(input: unknown): any {
+  if (typeof input !== 'string') {
+    return input;
+  }
+  try {
+    // YAML is a superset of JSON, so one parser covers both
+    return parseYaml(input);
+  } catch (error: any) {
+    throw new WorkflowDefinitionError('Workflow document is not valid YAML or JSON', [error.message]);
+  }
+}
+
+function validateSteps(path: string, steps: unknown, catalog: WorkflowCatalog, result: WorkflowValidationResult): void {
+  if (!Array.isArray(steps)) {
+    result.errors.push(`${path}.steps must be a list`);
+    return;
+  }
+
+  steps.forEach((step, index) => {
+    const stepPath = `${path}.steps[${index}]`;
+    if (!isPlainObject(step)) {
+      result.errors.push(`${stepPath} must be an object`);
+      return;
+    }
+
+    const methods = hasKey(catalog.agents, step.agentName) ? catalog.agents[step.agentName] : null;
+    if (!methods) {
+      result.errors.push(`${stepPath}.agentName "${step.agentName}" is not a registered agent`);
+    }
+
+    if (!hasKey(WORKFLOW_ACTIONS, step.action)) {
+      result.errors.push(`${stepPath}.action "${step.action}" is not a supported action`);
+    } else {
+      const method = WORKFLOW_ACTIONS[step.action];
+      if (methods && method && !methods.includes(method)) {
+        result.errors.push(`${stepPath}: agent "${step.agentName}" does not support action "${step.action}"`);
+      }
+    }
+
+    if (step.condition !== undefined && !WORKFLOW_CONDITIONS.includes(step.condition)) {
+      result.errors.push(`${stepPath}.condition "${step.condition}" is not a supported condition`);
+    }
+
+    if (step.parallel !== undefined && typeof step.parallel !== 'boolean') {
+      result.errors.push(`${stepPath}.parallel must be true or false`);
+    }
+
+    // Parallel groups are executed without evaluating conditions
+    const inParallelGroup = step.parallel === true || (index > 0 && steps[index - 1]?.parallel === true);
+    if (step.condition && inParallelGroup) {
+      result.warnings.push(`${stepPath}.condition is ignored inside a parallel group`);
+    }
+  });
+
+  if (steps.length === 0) {
+    result.warnings.push(`${path} has no steps, so no background agents will run for it`);
+  }
+}
+
+/**
+ * Validate a workflow document against the registered agents and actions
+ * Overrides may omit workflows and can list agents to skip everywhere.
+ */
+export function validateWorkflowDocument(
+  document: unknown,
+  catalog: WorkflowCatalog,
+  options: { override?: boolean } = {}
+): WorkflowValidationResult {
+  const result: WorkflowValidationResult = { valid: true, errors: [], warnings: [] };
+
+  if (!isPlainObject(document)) {
+    result.errors.push('Workflow document must be an object');
+    result.valid = false;
+    return result;
+  }
+
+  if (document.version !== WORKFLOW_DOCUMENT_VERSION) {
+    result.errors.push(`version must be ${WORKFLOW_DOCUMENT_VERSION}`);
+  }
+
+  const allowedKeys = options.override ? ['version', 'workflows', 'skipAgents'] : ['version', 'workflows'];
+  Object.keys(document)
+    .filter(key => !allowedKeys.includes(key))
+    .forEach(key => result.errors.push(`Unknown top-level field "${key}"`));
+
+  if (document.workflows !== undefined || !options.override) {
+    if (!isPlainObject(document.workflows)) {
+      result.errors.push('workflows must be a map of intent to workflow');
+    } else {
+      for (const [intent, workflow] of Object.entries(document.workflows)) {
+        const path = `workflows.${intent}`;
+        if (!INTENT_PATTERN.test(intent)) {
+          result.errors.push(`${path}: intent names must be lower_snake_case`);
+        }
+        if (!isPlainObject(workflow)) {
+          result.errors.push(`${path} must be an object with steps`);
+          continue;
+        }
+        if (workflow.description !== undefined && typeof workflow.description !== 'string') {
+          result.errors.push(`${path}.description must be text`);
+        }
+        validateSteps(path, workflow.steps, catalog, result);
+      }
+
+      if (!options.override && !hasKey(document.workflows, FALLBACK_INTENT)) {
+        result.errors.push(`workflows.${FALLBACK_INTENT} is required as the fallback workflow`);
+      }
+    }
+  }
+
+  if (document.skipAgents !== undefined) {
+    if (!Array.isArray(document.skipAgents)) {
+      result.errors.push('skipAgents must be a list of agent names');
+    } else {
+      document.skipAgents
+        .filter((agentName: unknown) => !hasKey(catalog.agents, agentName))
+        .forEach((agentName: unknown) => result.errors.push(`skipAgents: "${agentName}" is not a registered agent`));
+    }
+  }
+
+  result.valid = result.errors.length === 0;
+  return result;
+}
+
+/**
+ * Drop steps for skipped agents, closing any parallel group the dropped step ended
+ */
+export function removeSkippedSteps(steps: WorkflowStep[], skipAgents: string[]): {
+  sequence: WorkflowStep[];
+  skipped: WorkflowStep[];
+} {
+  const sequence: WorkflowStep[] = [];
+  const skipped: WorkflowStep[] = [];
+
+  for (const step of steps) {
+    if (!skipAgents.includes(step.agentName)) {
+      sequence.push({ ...step });
+      continue;
+    }
+
+    skipped.push(step);
+    const previous = sequence[sequence.length - 1];
+    if (!step.parallel && previous?.parallel) {
+      previous.parallel = false;
+    }
+  }
+
+  return { sequence, skipped };
+}
+
+export class WorkflowRegistry {
+  private supabase: SupabaseClient | null = null;
+  private defaults: WorkflowDocument | null = null;
+  private overrideCache: Map<string, { override: ProjectWorkflowOverride | null; timestamp: number }> = new Map();
+  private readonly OVERRIDE_TTL_MS = 30 * 1000; // 30 seconds
+
+  constructor(supabase?: SupabaseClient) {
+    this.supabase = supabase || null;
+  }
+
+  setSupabaseClient(supabase: SupabaseClient | null): void {
+    this.supabase = supabase;
+    this.overrideCache.clear();
+  }
+
+  /**
+   * Default workflows: WORKFLOWS_FILE when set and valid, otherwise the built-in document
+   */
+  getDefaults(catalog: WorkflowCatalog): WorkflowDocument {
+    if (this.defaults) {
+      return this.defaults;
+    }
+
+    this.defaults = DEFAULT_WORKFLOW_DOCUMENT;
+
+    const file = process.env.WORKFLOWS_FILE;
+    if (file) {
+      try {
+        const document = parseWorkflowDocument(fs.readFileSync(file, 'utf8'));
+        const validation = validateWorkflowDocument(document, catalog);
+        if (validation.valid) {
+          this.defaults = document;
+          console.log(`[WorkflowRegistry] Loaded default workflows from ${file}`);
+        } else {
+          console.error(`[WorkflowRegistry] Ignoring invalid ${file}, using built-in workflows:`, validation.errors);
+        }
+      } catch (error: any) {
+        console.error(`[WorkflowRegistry] Failed to load ${file}, using built-in workflows:`, error.errors || error.message);
+      }
+    }
+
+    return this.defaults!;
+  }
+
+  /**
+   * Forget loaded defaults so WORKFLOWS_FILE is read again
+   */
+  reloadDefaults(): void {
+    this.defaults = null;
+  }
+
+  /**
+   * Current override for a project (null when the project uses the defaults)
+   */
+  async getProjectOverride(projectId: string): Promise<ProjectWorkflowOverride | null> {
+    const cached = this.overrideCache.get(projectId);
+    if (cached && Date.now() - cached.timestamp < this.OVERRIDE_TTL_MS) {
+      return cached.override;
+    }
+
+    const [latest] = await this.listProjectVersions(projectId, 1);
+    const override = latest && latest.document ? latest : null;
+    this.overrideCache.set(projectId, { override, timestamp: Date.now() });
+    return override;
+  }
+
+  /**
+   * Override history for a project, newest first
+   */
+  async listProjectVersions(projectId: string, limit: number = 50): Promise<ProjectWorkflowOverride[]> {
+    if (!this.supabase) {
+      return [];
+    }
+
+    const { data, error } = await this.supabase
+      .from('project_workflows')
+      .select('*')
+      .eq('project_id', projectId)
+      .order('version', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      console.error('[WorkflowRegistry] Failed to load project workflows:', error.message);
+      return [];
+    }
+
+    return (data || []).map(row => ({
+      version: row.version,
+      document: row.document,
+      source: row.source,
+      createdBy: row.created_by,
+      createdAt: row.created_at,
+    }));
+  }
+
+  /**
+   * Validate and store a new override version for a project
+   */
+  async saveProjectOverride(
+    projectId: string,
+    input: unknown,
+    catalog: WorkflowCatalog,
+    userId?: string
+  ): Promise<{ override: ProjectWorkflowOverride; validation: WorkflowValidationResult }> {
+    const document = parseWorkflowDocument(input);
+    const validation = validateWorkflowDocument(document, catalog, { override: true });
+    if (!validation.valid) {
+      throw new WorkflowDefinitionError('Workflow override is invalid', validation.errors);
+    }
+
+    const override = await this.insertVersion(
+      projectId,
+      document,
+      typeof input === 'string' ? input : JSON.stringify(input, null, 2),
+      userId
+    );
+    return { override, validation };
+  }
+
+  /**
+   * Revert a project to the default workflows (kept as a version for history)
+   */
+  async clearProjectOverride(projectId: string, userId?: string): Promise<ProjectWorkflowOverride> {
+    return this.insertVersion(projectId, null, null, userId);
+  }
+
+  private async insertVersion(
+    projectId: string,
+    document: WorkflowOverrideDocument | null,
+    source: string | null,
+    userId?: string
+  ): Promise<ProjectWorkflowOverride> {
+    if (!this.supabase) {
+      throw new Error('Workflow overrides require a database connection');
+    }
+
+    const [latest] = await this.listProjectVersions(projectId, 1);
+
+    const { data, error } = await this.supabase
+      .from('project_workflows')
+      .insert({
+        project_id: projectId,
+        version: (latest?.version || 0) + 1,
+        document,
+        source,
+        created_by: userId || null,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to save workflow override: ${error.message}`);
+    }
+
+    this.overrideCache.delete(projectId);
+
+    return {
+      version: data.version,
+      document: data.document,
+      source: data.source,
+      createdBy: data.created_by,
+      createdAt: data.created_at,
+    };
+  }
+
+  /**
+   * Steps to run for an intent in a project
+   */
+  async resolve(intent: string, catalog: WorkflowCatalog, projectId?: string): Promise<ResolvedWorkflow> {
+    const defaults = this.getDefaults(catalog);
+    const override = projectId ? await this.getProjectOverride(projectId) : null;
+
+    const workflows = { ...defaults.workflows, ...(override?.document?.workflows || {}) };
+    const resolvedIntent = hasKey(workflows, intent) ? intent : FALLBACK_INTENT;
+    const steps = workflows[resolvedIntent]?.steps || [];
+
+    const { sequence, skipped } = removeSkippedSteps(steps, override?.document?.skipAgents || []);
+    const overridden = !!override?.document?.workflows?.[resolvedIntent] || skipped.length > 0;
+
+    return {
+      intent: resolvedIntent,
+      sequence,
+      skipped,
+      source: {
+        type: overridden ? 'project' : 'default',
+        defaultsVersion: defaults.version,
+        overrideVersion: override?.version ?? null,
+      },
+    };
+  }
+}
+
+export const workflowRegistry = new WorkflowRegistry();
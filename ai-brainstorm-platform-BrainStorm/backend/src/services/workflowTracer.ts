@@ -0,0 +1,400 @@
+import crypto from 'crypto';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { AgentResponse, IntentClassification, Workflow, WorkflowStep } from '../types';
+import type { TokenUsageRecord } from './tokenMetrics';
+import { runWithUsageContext } from './usageContext';
+
+/**
+ * WorkflowTracer - Persisted trace of every agent workflow run
+ *
+ * One trace per chat message: intent classification, then every workflow
+ * step with its inputs, duration, model calls, tokens, cache hits and output,
+ * plus the steps that were skipped and why. Traces in progress are kept in
+ * memory so the timeline can be opened while agents are still running;
+ * finished traces are written to `workflow_traces`.
+ */
+
+export type TraceStatus = 'running' | 'completed' | 'failed';
+
+export type TraceStepStatus = 'completed' | 'no_result' | 'cached' | 'failed' | 'skipped';
+
+export interface TraceStepInput {
+  agentName: string;
+  action: string;
+  /** Execution batch within the workflow (null for steps outside it) */
+  batch: number | null;
+  parallel: boolean;
+  condition?: string;
+  inputs?: Record<string, any>;
+}
+
+export interface TraceModelCall {
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadInputTokens: number;
+  costUSD: number;
+}
+
+export interface TraceStep extends TraceStepInput {
+  status: TraceStepStatus;
+  startedAt: string | null;
+  durationMs: number | null;
+  modelCalls: TraceModelCall[];
+  cacheHit: boolean;
+  output: {
+    agent: string;
+    message: string;
+    showToUser: boolean;
+    metadata: any;
+  } | null;
+  skipReason?: string;
+  error?: string;
+}
+
+export interface WorkflowTraceRecord {
+  id: string;
+  projectId: string;
+  userId: string | null;
+  messageId: string | null;
+  userMessage: string;
+  status: TraceStatus;
+  intent: Pick<IntentClassification, 'type' | 'confidence' | 'reasoning'> | null;
+  workflow: Pick<Workflow, 'intent' | 'confidence' | 'definition'> | null;
+  steps: TraceStep[];
+  totals: {
+    durationMs: number | null;
+    inputTokens: number;
+    outputTokens: number;
+    costUSD: number;
+  };
+  error?: string;
+  startedAt: string;
+  completedAt: string | null;
+}
+
+const MAX_MESSAGE_LENGTH = 2000;
+const MAX_METADATA_LENGTH = 8000;
+// Finished traces kept in memory when they could not be persisted
+const MAX_UNPERSISTED_TRACES = 200;
+
+function truncate(text: string, length: number): string {
+  return text.length > length ? `${text.slice(0, length)}…` : text;
+}
+
+/**
+ * Keep outputs readable and bounded - large metadata is stored as a preview
+ */
+function summarizeOutput(result: AgentResponse): TraceStep['output'] {
+  let metadata: any = result.metadata ?? null;
+  const serialized = JSON.stringify(metadata ?? null);
+  if (serialized.length > MAX_METADATA_LENGTH) {
+    metadata = { truncated: true, preview: serialized.slice(0, MAX_METADATA_LENGTH) };
+  }
+
+  return {
+    agent: result.agent,
+    message: truncate(result.message || '', MAX_MESSAGE_LENGTH),
+    showToUser: !!result.showToUser,
+    metadata,
+  };
+}
+
+/**
+ * Trace of a single workflow run, filled in as the agents execute
+ */
+export class WorkflowTrace {
+  readonly id: string = crypto.randomUUID();
+  private record: WorkflowTraceRecord;
+  private startTime = Date.now();
+
+  constructor(projectId: string, userMessage: string, options: { userId?: string; messageId?: string } = {}) {
+    this.record = {
+      id: this.id,
+      projectId,
+      userId: options.userId || null,
+      messageId: options.messageId || null,
+      userMessage: truncate(userMessage, MAX_MESSAGE_LENGTH),
+      status: 'running',
+      intent: null,
+      workflow: null,
+      steps: [],
+      totals: { durationMs: null, inputTokens: 0, outputTokens: 0, costUSD: 0 },
+      startedAt: new Date().toISOString(),
+      completedAt: null,
+    };
+  }
+
+  get messageId(): string | null {
+    return this.record.messageId;
+  }
+
+  setIntent(intent: IntentClassification): void {
+    this.record.intent = {
+      type: intent.type,
+      confidence: intent.confidence,
+      reasoning: intent.reasoning,
+    };
+  }
+
+  setWorkflow(workflow: Workflow): void {
+    this.record.workflow = {
+      intent: workflow.intent,
+      confidence: workflow.confidence,
+      definition: workflow.definition,
+    };
+  }
+
+  /**
+   * Run a step, recording its duration, model calls, cache hit and output
+   * Errors are recorded and rethrown so callers keep their own handling.
+   */
+  async runStep(input: TraceStepInput, fn: () => Promise<AgentResponse | null>): Promise<AgentResponse | null> {
+    const step: TraceStep = {
+      ...input,
+      status: 'completed',
+      startedAt: new Date().toISOString(),
+      durationMs: null,
+      modelCalls: [],
+      cacheHit: false,
+      output: null,
+    };
+    this.record.steps.push(step);
+
+    const collector = {
+      addUsage: (usage: TokenUsageRecord) => {
+        step.modelCalls.push({
+          model: usage.model,
+          inputTokens: usage.inputTokens,
+          outputTokens: usage.outputTokens,
+          cacheReadInputTokens: usage.cacheReadInputTokens,
+          costUSD: usage.costUSD,
+        });
+      },
+      markCacheHit: () => {
+        step.cacheHit = true;
+      },
+    };
+
+    const start = Date.now();
+    try {
+      const result = await runWithUsageContext({ traceStep: collector }, fn);
+      step.output = result ? summarizeOutput(result) : null;
+      step.status = step.cacheHit ? 'cached' : result ? 'completed' : 'no_result';
+      return result;
+    } catch (error: any) {
+      step.status = 'failed';
+      step.error = error?.message || String(error);
+      throw error;
+    } finally {
+      step.durationMs = Date.now() - start;
+    }
+  }
+
+  /**
+   * Record a step that did not run
+   */
+  skip(input: TraceStepInput | WorkflowStep, reason: string): void {
+    this.record.steps.push({
+      batch: null,
+      ...input,
+      parallel: !!input.parallel,
+      status: 'skipped',
+      skipReason: reason,
+      startedAt: null,
+      durationMs: null,
+      modelCalls: [],
+      cacheHit: false,
+      output: null,
+    });
+  }
+
+  finish(status: Exclude<TraceStatus, 'running'>, error?: string): WorkflowTraceRecord {
+    const calls = this.record.steps.flatMap(step => step.modelCalls);
+
+    this.record.status = status;
+    this.record.error = error;
+    this.record.completedAt = new Date().toISOString();
+    this.record.totals = {
+      durationMs: Date.now() - this.startTime,
+      inputTokens: calls.reduce((sum, call) => sum + call.inputTokens, 0),
+      outputTokens: calls.reduce((sum, call) => sum + call.outputTokens, 0),
+      costUSD: Math.round(calls.reduce((sum, call) => sum + call.costUSD, 0) * 1_000_000) / 1_000_000,
+    };
+    return this.toJSON();
+  }
+
+  toJSON(): WorkflowTraceRecord {
+    return { ...this.record, steps: [...this.record.steps] };
+  }
+}
+
+function fromRow(row: any): WorkflowTraceRecord {
+  return {
+    id: row.id,
+    projectId: row.project_id,
+    userId: row.user_id,
+    messageId: row.message_id,
+    userMessage: row.user_message,
+    status: row.status,
+    intent: row.intent,
+    workflow: row.workflow,
+    steps: row.steps || [],
+    totals: row.totals,
+    error: row.error || undefined,
+    startedAt: row.started_at,
+    completedAt: row.completed_at,
+  };
+}
+
+export class WorkflowTracer {
+  private supabase: SupabaseClient | null = null;
+  // Traces still running (or not yet persisted), by trace id
+  private active: Map<string, WorkflowTrace> = new Map();
+
+  constructor(supabase?: SupabaseClient) {
+    this.supabase = supabase || null;
+  }
+
+  setSupabaseClient(supabase: SupabaseClient | null): void {
+    this.supabase = supabase;
+  }
+
+  start(projectId: string, userMessage: string, options: { userId?: string; messageId?: string } = {}): WorkflowTrace {
+    const trace = new WorkflowTrace(projectId, userMessage, options);
+    this.active.set(trace.id, trace);
+    return trace;
+  }
+
+  /**
+   * Finish a trace and persist it (never throws - tracing must not break a workflow)
+   */
+  async finish(trace: WorkflowTrace, status: Exclude<TraceStatus, 'running'>, error?: string): Promise<WorkflowTraceRecord> {
+    const record = trace.finish(status, error);
+
+    if (this.supabase) {
+      const saveError = await this.persist(record);
+
+      if (!saveError) {
+        this.active.delete(trace.id);
+        return record;
+      }
+      console.error('[WorkflowTracer] Failed to persist trace:', saveError);
+    }
+
+    // Keep it in memory so it can still be viewed, dropping the oldest finished traces
+    const finished = Array.from(this.active.values()).filter(t => t.toJSON().status !== 'running');
+    finished
+      .slice(0, Math.max(0, finished.length - MAX_UNPERSISTED_TRACES))
+      .forEach(t => this.active.delete(t.id));
+
+    return record;
+  }
+
+  /**
+   * Insert a finished trace, returning the error message instead of throwing
+   */
+  private async persist(record: WorkflowTraceRecord): Promise<string | null> {
+    try {
+      const { error } = await this.supabase!.from('workflow_traces').insert({
+        id: record.id,
+        project_id: record.projectId,
+        user_id: record.userId,
+        message_id: record.messageId,
+        user_message: record.userMessage,
+        status: record.status,
+        intent: record.intent,
+        workflow: record.workflow,
+        steps: record.steps,
+        totals: record.totals,
+        error: record.error || null,
+        started_at: record.startedAt,
+        completed_at: record.completedAt,
+      });
+      return error ? error.message : null;
+    } catch (error: any) {
+      return error?.message || String(error);
+    }
+  }
+
+  async getTrace(projectId: string, traceId: string): Promise<WorkflowTraceRecord | null> {
+    const active = this.active.get(traceId);
+    if (active) {
+      const record = active.toJSON();
+      return record.projectId === projectId ? record : null;
+    }
+
+    if (!this.supabase) return null;
+
+    const { data, error } = await this.supabase
+      .from('workflow_traces')
+      .select('*')
+      .eq('project_id', projectId)
+      .eq('id', traceId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to load trace: ${error.message}`);
+    }
+    return data ? fromRow(data) : null;
+  }
+
+  /**
+   * Trace of the workflow a user message started
+   */
+  async getTraceForMessage(projectId: string, messageId: string): Promise<WorkflowTraceRecord | null> {
+    for (const trace of this.active.values()) {
+      const record = trace.toJSON();
+      if (record.projectId === projectId && record.messageId === messageId) {
+        return record;
+      }
+    }
+
+    if (!this.supabase) return null;
+
+    const { data, error } = await this.supabase
+      .from('workflow_traces')
+      .select('*')
+      .eq('project_id', projectId)
+      .eq('message_id', messageId)
+      .order('started_at', { ascending: false })
+      .limit(1);
+
+    if (error) {
+      throw new Error(`Failed to load trace: ${error.message}`);
+    }
+    return data && data.length > 0 ? fromRow(data[0]) : null;
+  }
+
+  /**
+   * Recent traces for a project, newest first (without step details)
+   */
+  async listTraces(projectId: string, limit: number = 50): Promise<Omit<WorkflowTraceRecord, 'steps'>[]> {
+    const running = Array.from(this.active.values())
+      .map(trace => trace.toJSON())
+      .filter(record => record.projectId === projectId);
+
+    let persisted: WorkflowTraceRecord[] = [];
+    if (this.supabase) {
+      const { data, error } = await this.supabase
+        .from('workflow_traces')
+        .select('id, project_id, user_id, message_id, user_message, status, intent, workflow, totals, error, started_at, completed_at')
+        .eq('project_id', projectId)
+        .order('started_at', { ascending: false })
+        .limit(limit);
+
+      if (error) {
+        throw new Error(`Failed to load traces: ${error.message}`);
+      }
+      persisted = (data || []).map(fromRow);
+    }
+
+    const runningIds = new Set(running.map(record => record.id));
+    return [...running, ...persisted.filter(record => !runningIds.has(record.id))]
+      .sort((a, b) => b.startedAt.localeCompare(a.startedAt))
+      .slice(0, limit)
+      .map(({ steps, ...summary }) => summary);
+  }
+}
+
+export const workflowTracer = new WorkflowTracer();
@@ -0,0 +1,139 @@
+/**
+ * In-memory stand-in for the Supabase query builder
+ *
+ * Tests keep their rows in a plain `tables` object and mock the client with:
+ *
+ *   const { tables } = vi.hoisted(() => ({ tables: {} as Record<string, any[]> }));
+ *   vi.mock('../supabase', async () => {
+ *     const { createSupabaseMock } = await import('../../test/supabaseMock');
+ *     return { supabase: createSupabaseMock(tables) };
+ *   });
+ *
+ * Supports the filters, ordering and writes the services use; a builder
+ * method it lacks fails the test rather than being silently ignored.
+ */
+
+export type MockTables = Record<string, any[]>;
+
+export interface SupabaseMockOptions {
+  /**
+   * Generated columns of an inserted row (it overrides them); by default
+   * `row-<n>` ids and created_at/updated_at one second apart from 2025-01-01
+   */
+  newRow?: (table: string, seq: number) => Record<string, any>;
+}
+
+function defaultNewRow(_table: string, seq: number): Record<string, any> {
+  const now = new Date(Date.UTC(2025, 0, 1, 0, 0, seq)).toISOString();
+  return { id: `row-${seq}`, seq, created_at: now, updated_at: now };
+}
+
+// Postgres order: nulls last ascending, first descending
+function compare(a: any, b: any, ascending: boolean): number {
+  if (a === b) return 0;
+  if (a === undefined || a === null) return ascending ? 1 : -1;
+  if (b === undefined || b === null) return ascending ? -1 : 1;
+  return (a > b ? 1 : -1) * (ascending ? 1 : -1);
+}
+
+export function createSupabaseMock(tables: MockTables, options: SupabaseMockOptions = {}) {
+  const newRow = options.newRow || defaultNewRow;
+  let seq = 0;
+
+  function from(table: string) {
+    const filters: Array<(row: any) => boolean> = [];
+    const sorts: Array<{ column: string; ascending: boolean }> = [];
+    let action: 'select' | 'insert' | 'upsert' | 'update' | 'delete' = 'select';
+    let payload: any = null;
+    let conflictColumn = 'id';
+    let offset = 0;
+    let limit = Infinity;
+
+    const insertRow = (row: any) => {
+      seq++;
+      return { ...newRow(table, seq), ...row };
+    };
+
+    const run = (): any[] => {
+      const rows = tables[table] || (tables[table] = []);
+
+      if (action === 'insert') {
+        const inserted = [].concat(payload).map(insertRow);
+        rows.push(...inserted);
+        return inserted;
+      }
+      if (action === 'upsert') {
+        return [].concat(payload).map((row: any) => {
+          const existing = rows.find(candidate => candidate[conflictColumn] === row[conflictColumn]);
+          if (existing) return Object.assign(existing, row);
+          const inserted = insertRow(row);
+          rows.push(inserted);
+          return inserted;
+        });
+      }
+
+      let matched = rows.filter(row => filters.every(filter => filter(row)));
+      if (action === 'update') {
+        matched.forEach(row => Object.assign(row, payload));
+      }
+      if (action === 'delete') {
+        tables[table] = rows.filter(row => !matched.includes(row));
+      }
+      if (sorts.length > 0) {
+        matched = [...matched].sort((a, b) => {
+          for (const { column, ascending } of sorts) {
+            const order = compare(a[column], b[column], ascending);
+            if (order !== 0) return order;
+          }
+          return 0;
+        });
+      }
+      return matched.slice(offset, offset + limit);
+    };
+
+    const filter = (test: (row: any) => boolean) => {
+      filters.push(test);
+      return builder;
+    };
+
+    const builder: any = {
+      select: () => builder,
+      eq: (column: string, value: any) => filter(row => row[column] === value),
+      neq: (column: string, value: any) => filter(row => row[column] !== value),
+      in: (column: string, values: any[]) => filter(row => values.includes(row[column])),
+      is: (column: string, value: any) => filter(row => (row[column] ?? null) === value),
+      lt: (column: string, value: any) => filter(row => row[column] < value),
+      lte: (column: string, value: any) => filter(row => row[column] <= value),
+      gt: (column: string, value: any) => filter(row => row[column] > value),
+      gte: (column: string, value: any) => filter(row => row[column] >= value),
+      order: (column: string, orderOptions?: { ascending?: boolean }) => {
+        sorts.push({ column, ascending: orderOptions?.ascending !== false });
+        return builder;
+      },
+      limit: (count: number) => { limit = count; return builder; },
+      range: (fromIndex: number, toIndex: number) => {
+        offset = fromIndex;
+        limit = toIndex - fromIndex + 1;
+        return builder;
+      },
+      insert: (rows: any) => { action = 'insert'; payload = rows; return builder; },
+      upsert: (rows: any, upsertOptions?: { onConflict?: string }) => {
+        action = 'upsert';
+        payload = rows;
+        conflictColumn = upsertOptions?.onConflict || 'id';
+        return builder;
+      },
+      update: (values: any) => { action = 'update'; payload = values; return builder; },
+      delete: () => { action = 'delete'; return builder; },
+      single: async () => {
+        const [row] = run();
+        return row ? { data: row, error: null } : { data: null, error: { message: 'not found' } };
+      },
+      maybeSingle: async () => ({ data: run()[0] ?? null, error: null }),
+      then: (resolve: any, reject: any) => Promise.resolve({ data: run(), error: null }).then(resolve, reject),
+    };
+    return builder;
+  }
+
+  return { from };
+}
@@ -2,6 +2,15 @@ import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { SessionCompletionService } from '../services/sessionCompletionService';
 import { BrainstormDocumentService } from '../services/brainstormDocumentService';
 import { createClient } from '@supabase/supabase-js';
+import { itemHistoryService } from '../services/itemHistory';
+import { realtimeService } from '../services/realtimeService';
+
+vi.mock('../services/itemHistory', () => ({
+  itemHistoryService: { recordChanges: vi.fn().mockResolvedValue([]) },
+}));
+vi.mock('../services/realtimeService', () => ({
+  realtimeService: { publishItemChanges: vi.fn() },
+}));
 
 // Mock Supabase client
 const mockSupabase = {
@@ -265,6 +274,38 @@ describe('SessionCompletionService - Critical Path', () => {
       expect(projectUpdateCalled).toBe(true);
     });
 
+    it('should log the added items as created by the completing user', async () => {
+      const existingItems = [{ id: 'existing-1', text: 'Existing item', state: 'decided' }];
+      const mockSingle = vi.fn()
+        .mockResolvedValueOnce({ data: mockConversation, error: null })
+        .mockResolvedValueOnce({ data: mockSandbox, error: null })
+        .mockResolvedValueOnce({ data: { id: 'session-123' }, error: null })
+        .mockResolvedValueOnce({ data: { ...mockProject, items: existingItems }, error: null });
+      const mockEq = vi.fn().mockReturnValue({ single: mockSingle });
+
+      mockSupabase.from.mockReturnValue({
+        select: vi.fn().mockReturnValue({ eq: mockEq, single: mockSingle }),
+        insert: vi.fn().mockReturnValue({ select: vi.fn().mockReturnValue({ single: mockSingle }) }),
+        update: vi.fn().mockReturnValue({ eq: vi.fn().mockResolvedValue({ error: null }) }),
+      });
+
+      await service.completeSession('conv-123', {
+        accepted: mockAcceptedIdeas,
+        rejected: mockRejectedIdeas,
+      }, 'user-42');
+
+      expect(itemHistoryService.recordChanges).toHaveBeenCalledTimes(1);
+      const [projectId, before, after, options] = (itemHistoryService.recordChanges as any).mock.calls[0];
+      expect(projectId).toBe('project-123');
+      expect(before).toEqual(existingItems);
+      expect(after).toHaveLength(3);
+      expect(after.slice(1).map((item: any) => item.created_by)).toEqual(['user-42', 'user-42']);
+      expect(options).toEqual({ actor: { type: 'user', id: 'user-42' } });
+      expect(realtimeService.publishItemChanges).toHaveBeenCalledWith(
+        'project-123', existingItems, after, { actorId: 'user-42' }
+      );
+    });
+
     it('should update conversation and sandbox status correctly', async () => {
       const mockSelect = vi.fn().mockReturnThis();
       const mockEq = vi.fn().mockReturnThis();
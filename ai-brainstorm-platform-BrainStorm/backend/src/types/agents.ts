@@ -136,6 +136,27 @@ export interface GenerateQuestionInput {
   questionType?: 'clarification' | 'exploration' | 'deepening';
 }
 
+/**
+ * A source the ConversationAgent cited as [marker] in its reply
+ * Location fields are null when the source has no chunk to point into.
+ */
+export interface Citation {
+  marker: number;
+  sourceType: 'reference' | 'generated_document' | 'message';
+  sourceId: string;
+  title: string;
+  /** Human-readable location, e.g. "p. 3 · Pricing" */
+  location: string | null;
+  pageStart: number | null;
+  pageEnd: number | null;
+  /** Character offsets of the passage in the source's extracted text */
+  charStart: number | null;
+  charEnd: number | null;
+  /** Audio/video references: where the passage starts in the recording */
+  startSeconds: number | null;
+  quote: string;
+}
+
 export interface ConversationMetadata {
   mode?: 'exploration' | 'clarification' | 'generation' | 'refinement';
   confidence?: number;
@@ -184,6 +205,8 @@ export interface ConversationMetadata {
     specificsDetected: number;
     mentionedTech?: string[];
   };
+  // Retrieved sources the reply cites as [n]
+  citations?: Citation[];
 }
 
 export interface ConversationAgentResponse {
@@ -573,6 +596,26 @@ export interface UnifiedResearchResponse {
   metadata: UnifiedResearchMetadata;
 }
 
+// ============================================================================
+// BUDGET GUARD (system notice, not an LLM agent)
+// ============================================================================
+
+export interface BudgetGuardMetadata {
+  budget: {
+    level: 'ok' | 'soft' | 'hard';
+    project: any;
+    user: any;
+  };
+  traceId?: string;
+}
+
+export interface BudgetGuardResponse {
+  agent: 'BudgetGuard';
+  message: string;
+  showToUser: boolean;
+  metadata: BudgetGuardMetadata;
+}
+
 // ============================================================================
 // DISCRIMINATED UNION TYPE
 // ============================================================================
@@ -591,7 +634,8 @@ export type AgentResponse =
   | ReferenceAnalysisResponse
   | ReviewerResponse
   | ResourceManagerResponse
-  | UnifiedResearchResponse;
+  | UnifiedResearchResponse
+  | BudgetGuardResponse;
 
 // ============================================================================
 // TYPE GUARDS
@@ -655,6 +699,12 @@ export function isUnifiedResearchResponse(
   return response.agent === 'UnifiedResearch';
 }
 
+export function isBudgetGuardResponse(
+  response: AgentResponse
+): response is BudgetGuardResponse {
+  return response.agent === 'BudgetGuard';
+}
+
 // ============================================================================
 // UTILITY TYPES
 // ============================================================================
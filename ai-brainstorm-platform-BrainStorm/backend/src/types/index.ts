@@ -1,7 +1,7 @@
 // Project types
 export interface Project {
   id: string; // UUID format
-  user_id: string; // UUID format from auth.users (stored as TEXT for compatibility)
+  user_id: string; // Owner - UUID format from auth.users (stored as TEXT for compatibility)
   title: string;
   description: string;
   status: 'decided' | 'exploring' | 'parked';
@@ -15,9 +15,39 @@ export interface ProjectItem {
   text: string;
   state: 'decided' | 'exploring' | 'parked';
   created_at: string;
+  created_by?: string; // Member whose message or edit created the item
+  updated_by?: string; // Member who last changed the item
+  updated_at?: string;
   metadata?: Record<string, any>;
 }
 
+// Collaboration types
+export type ProjectRole = 'owner' | 'editor' | 'commenter' | 'viewer';
+
+export interface ProjectMember {
+  id?: string; // Absent for the owner when no member row exists yet
+  project_id: string;
+  user_id: string;
+  email?: string | null;
+  role: ProjectRole;
+  invited_by?: string | null;
+  created_at?: string;
+}
+
+export interface ProjectInvitation {
+  id: string;
+  project_id: string;
+  email: string | null; // null for shareable links
+  role: Exclude<ProjectRole, 'owner'>;
+  token: string;
+  status: 'pending' | 'accepted' | 'revoked';
+  invited_by: string;
+  accepted_by?: string | null;
+  accepted_at?: string | null;
+  expires_at: string | null;
+  created_at: string;
+}
+
 // Message types
 export interface Message {
   id: string; // UUID format
@@ -113,6 +143,14 @@ export interface Workflow {
   sequence: WorkflowStep[];
   timestamp: string;
   confidence: number;
+  // Where the steps came from (see services/workflowRegistry.ts)
+  definition?: {
+    intent: string; // Workflow used; 'general' when the intent has none
+    type: 'default' | 'project';
+    defaultsVersion: number;
+    overrideVersion: number | null;
+    skipped: WorkflowStep[];
+  };
 }
 
 // Session types
@@ -187,6 +225,8 @@ declare global {
         access_token?: string;
         email?: string;
       };
+      /** Caller's role on the project being accessed (set by middleware/auth.ts) */
+      projectRole?: ProjectRole;
     }
   }
 }
@@ -0,0 +1,159 @@
+/**
+ * Cron Schedule Utilities
+ *
+ * Parses standard five-field cron expressions (minute hour day-of-month
+ * month day-of-week) and finds their next run time. Supports *, lists,
+ * ranges, steps and the @hourly / @daily / @weekly / @monthly shortcuts.
+ * Times are evaluated in UTC.
+ */
+
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  /** True when the day-of-month field is "*" (cron ORs the two day fields otherwise) */
+  anyDayOfMonth: boolean;
+  anyDayOfWeek: boolean;
+}
+
+const SHORTCUTS: Record<string, string> = {
+  '@hourly': '0 * * * *',
+  '@daily': '0 0 * * *',
+  '@weekly': '0 0 * * 0',
+  '@monthly': '0 0 1 * *',
+};
+
+// [min, max] of each field
+const FIELD_RANGES: Array<[number, number]> = [[0, 59], [0, 23], [1, 31], [1, 12], [0, 7]];
+const FIELD_NAMES = ['minute', 'hour', 'day of month', 'month', 'day of week'];
+
+// Searching further than this means the expression can never match (e.g. "0 0 31 2 *")
+const MAX_SEARCH_DAYS = 366 * 5;
+
+function parseField(field: string, index: number): Set<number> {
+  const [min, max] = FIELD_RANGES[index];
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const match = /^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/.exec(part);
+    if (!match) {
+      throw new Error(`Invalid cron ${FIELD_NAMES[index]} "${part}"`);
+    }
+
+    const step = match[4] ? parseInt(match[4], 10) : 1;
+    let start = min;
+    let end = max;
+    if (match[2] !== undefined) {
+      start = parseInt(match[2], 10);
+      // "5/15" means from 5 to the end of the range
+      end = match[3] !== undefined ? parseInt(match[3], 10) : match[4] ? max : start;
+    }
+
+    if (start < min || end > max || start > end || step < 1) {
+      throw new Error(`Cron ${FIELD_NAMES[index]} "${part}" is out of range ${min}-${max}`);
+    }
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Parse a cron expression
+ * Throws with a readable message when the expression is invalid.
+ */
+export function parseCron(expression: string): CronSchedule {
+  const normalized = SHORTCUTS[expression.trim().toLowerCase()] || expression.trim();
+  const fields = normalized.split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(`Cron expression "${expression}" must have 5 fields (minute hour day month weekday)`);
+  }
+
+  const daysOfWeek = parseField(fields[4], 4);
+  // Both 0 and 7 mean Sunday
+  if (daysOfWeek.has(7)) {
+    daysOfWeek.add(0);
+  }
+
+  return {
+    minutes: parseField(fields[0], 0),
+    hours: parseField(fields[1], 1),
+    daysOfMonth: parseField(fields[2], 2),
+    months: parseField(fields[3], 3),
+    daysOfWeek,
+    anyDayOfMonth: fields[2] === '*',
+    anyDayOfWeek: fields[4] === '*',
+  };
+}
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  if (!schedule.months.has(date.getUTCMonth() + 1)) return false;
+
+  const dayOfMonth = schedule.daysOfMonth.has(date.getUTCDate());
+  const dayOfWeek = schedule.daysOfWeek.has(date.getUTCDay());
+  if (schedule.anyDayOfMonth) return dayOfWeek;
+  if (schedule.anyDayOfWeek) return dayOfMonth;
+  return dayOfMonth || dayOfWeek;
+}
+
+/**
+ * First time strictly after `from` that the expression matches
+ */
+export function nextCronRun(expression: string, from: Date = new Date()): Date {
+  const schedule = parseCron(expression);
+  const minutes = [...schedule.minutes].sort((a, b) => a - b);
+  const hours = [...schedule.hours].sort((a, b) => a - b);
+
+  const start = new Date(from.getTime());
+  start.setUTCSeconds(0, 0);
+  start.setUTCMinutes(start.getUTCMinutes() + 1);
+
+  const day = new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth(), start.getUTCDate()));
+  for (let i = 0; i < MAX_SEARCH_DAYS; i++, day.setUTCDate(day.getUTCDate() + 1)) {
+    if (!matchesDay(schedule, day)) continue;
+
+    for (const hour of hours) {
+      for (const minute of minutes) {
+        const candidate = new Date(day.getTime());
+        candidate.setUTCHours(hour, minute);
+        if (candidate >= start) return candidate;
+      }
+    }
+  }
+
+  throw new Error(`Cron expression "${expression}" never matches`);
+}
+
+/**
+ * Shortest time between two runs of an expression, in minutes
+ * Assumes two consecutive days can both match, so it never overstates the gap.
+ */
+export function shortestCronInterval(expression: string): number {
+  const schedule = parseCron(expression);
+  const times = [...schedule.hours]
+    .flatMap(hour => [...schedule.minutes].map(minute => hour * 60 + minute))
+    .sort((a, b) => a - b);
+
+  // From the last run of a day to the first run of the next
+  let shortest = 24 * 60 - times[times.length - 1] + times[0];
+  for (let i = 1; i < times.length; i++) {
+    shortest = Math.min(shortest, times[i] - times[i - 1]);
+  }
+  return shortest;
+}
+
+/**
+ * Whether an expression is valid
+ */
+export function isValidCron(expression: string): boolean {
+  try {
+    nextCronRun(expression);
+    return true;
+  } catch {
+    return false;
+  }
+}
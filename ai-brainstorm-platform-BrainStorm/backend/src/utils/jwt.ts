@@ -0,0 +1,107 @@
+import crypto from 'crypto';
+
+/**
+ * Minimal HS256 JWT helpers
+ *
+ * Supabase access tokens are HS256 JWTs signed with the project's JWT secret,
+ * so they can be verified locally without a round-trip to Supabase Auth.
+ * signJwt doubles as a local token issuer for tests and offline development.
+ */
+
+export interface JwtPayload {
+  sub: string;
+  email?: string;
+  role?: string;
+  aud?: string;
+  exp?: number;
+  iat?: number;
+  [key: string]: any;
+}
+
+export class JwtError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'JwtError';
+  }
+}
+
+function base64UrlEncode(input: Buffer | string): string {
+  return Buffer.from(input)
+    .toString('base64')
+    .replace(/=+$/, '')
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_');
+}
+
+function base64UrlDecode(input: string): Buffer {
+  const normalized = input.replace(/-/g, '+').replace(/_/g, '/');
+  const padded = normalized + '='.repeat((4 - (normalized.length % 4)) % 4);
+  return Buffer.from(padded, 'base64');
+}
+
+function sign(data: string, secret: string): string {
+  return base64UrlEncode(crypto.createHmac('sha256', secret).update(data).digest());
+}
+
+/**
+ * Sign a payload as an HS256 JWT
+ * expiresInSeconds defaults to one hour; pass 0 for no expiry.
+ */
+export function signJwt(payload: JwtPayload, secret: string, expiresInSeconds: number = 3600): string {
+  const now = Math.floor(Date.now() / 1000);
+  const claims: JwtPayload = {
+    aud: 'authenticated',
+    role: 'authenticated',
+    iat: now,
+    ...payload,
+  };
+  if (expiresInSeconds > 0 && claims.exp === undefined) {
+    claims.exp = now + expiresInSeconds;
+  }
+
+  const header = base64UrlEncode(JSON.stringify({ alg: 'HS256', typ: 'JWT' }));
+  const body = base64UrlEncode(JSON.stringify(claims));
+  return `${header}.${body}.${sign(`${header}.${body}`, secret)}`;
+}
+
+/**
+ * Verify an HS256 JWT and return its payload
+ * Throws JwtError when the token is malformed, tampered with or expired.
+ */
+export function verifyJwt(token: string, secret: string): JwtPayload {
+  const parts = token.split('.');
+  if (parts.length !== 3) {
+    throw new JwtError('Malformed token');
+  }
+
+  const [header, body, signature] = parts;
+
+  let parsedHeader: any;
+  let payload: JwtPayload;
+  try {
+    parsedHeader = JSON.parse(base64UrlDecode(header).toString('utf8'));
+    payload = JSON.parse(base64UrlDecode(body).toString('utf8'));
+  } catch {
+    throw new JwtError('Malformed token');
+  }
+
+  if (parsedHeader.alg !== 'HS256') {
+    throw new JwtError(`Unsupported algorithm: ${parsedHeader.alg}`);
+  }
+
+  const expected = Buffer.from(sign(`${header}.${body}`, secret));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    throw new JwtError('Invalid signature');
+  }
+
+  if (payload.exp !== undefined && payload.exp < Math.floor(Date.now() / 1000)) {
+    throw new JwtError('Token expired');
+  }
+
+  if (!payload.sub) {
+    throw new JwtError('Token has no subject');
+  }
+
+  return payload;
+}
@@ -104,3 +104,94 @@ export async function getProjectItemCounts(projectId: string): Promise<{
     rejected: items.filter(i => i.state === 'rejected').length,
   };
 }
+
+const ATTRIBUTION_FIELDS = new Set(['created_by', 'updated_by', 'updated_at']);
+// Attribution plus canvas layout - what's left is what the item says and where it stands
+const CONTENT_IGNORED_FIELDS = new Set([...ATTRIBUTION_FIELDS, 'position', 'clusterId']);
+
+// Key-order independent snapshot of an item's content, ignoring attribution
+function itemFingerprint(value: any, ignored: Set<string> = ATTRIBUTION_FIELDS): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(entry => itemFingerprint(entry, ignored)).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value)
+      .filter(key => !ignored.has(key) && value[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${itemFingerprint(value[key], ignored)}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Fingerprint of an item's content, ignoring attribution and canvas layout
+ * Two items with the same content fingerprint read the same on the board.
+ */
+export function itemContentFingerprint(item: any): string {
+  return itemFingerprint(item, CONTENT_IGNORED_FIELDS);
+}
+
+/**
+ * Stamp which member changed which items
+ * New items get created_by; items whose text, state or position changed get
+ * updated_by / updated_at. Attribution already on unchanged items is kept, and
+ * clients can't overwrite it.
+ */
+export function attributeItemChanges(previousItems: any[], nextItems: any[], userId: string): any[] {
+  const previousById = new Map(previousItems.map(item => [item.id, item]));
+  const now = new Date().toISOString();
+
+  return nextItems.map(item => {
+    const previous = previousById.get(item.id);
+
+    if (!previous) {
+      return { ...item, created_by: userId, updated_by: userId, updated_at: now };
+    }
+
+    const attributed = {
+      ...item,
+      created_by: previous.created_by,
+      updated_by: previous.updated_by,
+      updated_at: previous.updated_at,
+    };
+
+    if (itemFingerprint(previous) !== itemFingerprint(item)) {
+      attributed.updated_by = userId;
+      attributed.updated_at = now;
+    }
+
+    return attributed;
+  });
+}
+
+/**
+ * Split an item-array replacement into added, modified and removed items
+ * Used to broadcast only what changed to other collaborators.
+ */
+export function diffItems(previousItems: any[], nextItems: any[]): {
+  itemsAdded: any[];
+  itemsModified: any[];
+  removedIds: string[];
+} {
+  const previousById = new Map(previousItems.map(item => [item.id, item]));
+  const nextIds = new Set(nextItems.map(item => item.id));
+
+  const itemsAdded: any[] = [];
+  const itemsModified: any[] = [];
+
+  for (const item of nextItems) {
+    const previous = previousById.get(item.id);
+    if (!previous) {
+      itemsAdded.push(item);
+    } else if (itemFingerprint(previous) !== itemFingerprint(item)) {
+      itemsModified.push(item);
+    }
+  }
+
+  return {
+    itemsAdded,
+    itemsModified,
+    removedIds: previousItems.filter(item => !nextIds.has(item.id)).map(item => item.id),
+  };
+}
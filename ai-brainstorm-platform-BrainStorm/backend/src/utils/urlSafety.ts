@@ -0,0 +1,92 @@
+import { lookup } from 'dns/promises';
+import net from 'net';
+
+/**
+ * URL Safety Utilities
+ *
+ * Guards server-side fetches of user-supplied URLs against reaching the
+ * server's own network: loopback, private, link-local (cloud metadata),
+ * carrier-grade NAT, multicast and unspecified addresses are refused.
+ */
+
+// Addresses that are not public unicast. IPv4-mapped IPv6 addresses
+// (::ffff:7f00:1, ::ffff:127.0.0.1) are checked against the IPv4 subnets.
+const PRIVATE_ADDRESSES = new net.BlockList();
+for (const [network, bits] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+] as Array<[string, number]>) {
+  PRIVATE_ADDRESSES.addSubnet(network, bits, 'ipv4');
+}
+for (const [network, bits] of [
+  ['::', 128],
+  ['::1', 128],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as Array<[string, number]>) {
+  PRIVATE_ADDRESSES.addSubnet(network, bits, 'ipv6');
+}
+
+/**
+ * Whether an IP address is anything other than a public unicast address
+ */
+export function isPrivateAddress(address: string): boolean {
+  if (net.isIPv4(address)) return PRIVATE_ADDRESSES.check(address, 'ipv4');
+  if (net.isIPv6(address)) return PRIVATE_ADDRESSES.check(address, 'ipv6');
+  return true;
+}
+
+/**
+ * Throw unless the URL is http(s) and every address its host resolves to is public
+ * The fetch resolves the host again, so this narrows rather than closes DNS rebinding.
+ */
+export async function assertPublicUrl(url: string): Promise<void> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new Error(`Invalid URL "${url}"`);
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    throw new Error(`Only http(s) URLs can be fetched: "${url}"`);
+  }
+
+  // IPv6 literals come back in brackets
+  const host = parsed.hostname.replace(/^\[|\]$/g, '');
+  const addresses = net.isIP(host)
+    ? [host]
+    : (await lookup(host, { all: true })).map(result => result.address);
+
+  if (addresses.length === 0 || addresses.some(isPrivateAddress)) {
+    throw new Error(`"${parsed.hostname}" is not a public address`);
+  }
+}
+
+/**
+ * Fetch a public URL, following at most `maxRedirects` redirects and refusing
+ * any hop whose Location points at a non-public address
+ */
+export async function fetchPublicUrl(url: string, init: RequestInit = {}, maxRedirects = 5): Promise<Response> {
+  let current = url;
+  for (let hop = 0; hop <= maxRedirects; hop++) {
+    await assertPublicUrl(current);
+    const response = await fetch(current, { ...init, redirect: 'manual' });
+    const location = response.headers.get('location');
+    if (response.status < 300 || response.status >= 400 || !location) {
+      return response;
+    }
+    await response.body?.cancel();
+    current = new URL(location, current).toString();
+  }
+  throw new Error(`Too many redirects fetching "${url}"`);
+}
@@ -0,0 +1,36 @@
+-- Migration 017: Token Usage Accounting
+-- Persists actual model usage (from API responses) per agent call so costs
+-- can be reported per project/user and survive restarts
+
+CREATE TABLE IF NOT EXISTS token_usage (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id UUID REFERENCES projects(id) ON DELETE CASCADE,
+  user_id UUID,
+  agent_name TEXT NOT NULL,
+  operation TEXT NOT NULL DEFAULT 'default',
+  model TEXT NOT NULL,
+  provider TEXT,
+  input_tokens INTEGER NOT NULL DEFAULT 0,
+  output_tokens INTEGER NOT NULL DEFAULT 0,
+  cache_creation_input_tokens INTEGER NOT NULL DEFAULT 0,
+  cache_read_input_tokens INTEGER NOT NULL DEFAULT 0,
+  cost_usd NUMERIC(12, 6) NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Indexes for cost reports
+CREATE INDEX IF NOT EXISTS idx_token_usage_project_created
+  ON token_usage(project_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_token_usage_user_created
+  ON token_usage(user_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_token_usage_agent
+  ON token_usage(agent_name);
+
+-- Comments
+COMMENT ON TABLE token_usage IS 'Actual token usage reported by the LLM provider for each agent call';
+COMMENT ON COLUMN token_usage.operation IS 'Workflow action or operation type that triggered the call (e.g. reflect, verify, synthesis)';
+COMMENT ON COLUMN token_usage.cache_creation_input_tokens IS 'Prompt tokens written to the provider prompt cache';
+COMMENT ON COLUMN token_usage.cache_read_input_tokens IS 'Prompt tokens served from the provider prompt cache';
+COMMENT ON COLUMN token_usage.cost_usd IS 'Cost computed from MODEL_CHARACTERISTICS pricing at the time of the call';
@@ -0,0 +1,24 @@
+-- Migration 018: AI Budget Limits
+-- Per-project and per-user spend caps checked against token_usage (migration 017)
+
+CREATE TABLE IF NOT EXISTS ai_budgets (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  scope_type TEXT NOT NULL CHECK (scope_type IN ('project', 'user')),
+  scope_id UUID NOT NULL,
+  period TEXT NOT NULL DEFAULT 'monthly' CHECK (period IN ('daily', 'monthly')),
+  soft_limit_usd NUMERIC(12, 2),
+  hard_limit_usd NUMERIC(12, 2),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  -- One budget per scope
+  UNIQUE(scope_type, scope_id),
+  CHECK (soft_limit_usd IS NULL OR hard_limit_usd IS NULL OR soft_limit_usd <= hard_limit_usd)
+);
+
+CREATE INDEX IF NOT EXISTS idx_ai_budgets_scope ON ai_budgets(scope_type, scope_id);
+
+-- Comments
+COMMENT ON TABLE ai_budgets IS 'Daily or monthly AI spend caps per project or user';
+COMMENT ON COLUMN ai_budgets.soft_limit_usd IS 'Above this spend, agents are downgraded to cheaper models';
+COMMENT ON COLUMN ai_budgets.hard_limit_usd IS 'Above this spend, non-essential background agent workflows stop';
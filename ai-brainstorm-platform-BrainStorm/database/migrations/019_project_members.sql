@@ -0,0 +1,85 @@
+-- Migration 019: Project Members & Invitations
+-- Shared projects with owner / editor / commenter / viewer roles.
+-- projects.user_id stays the owner; every other collaborator is a project_members row.
+
+CREATE TABLE IF NOT EXISTS project_members (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  email TEXT,
+  role TEXT NOT NULL CHECK (role IN ('owner', 'editor', 'commenter', 'viewer')),
+  invited_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  UNIQUE(project_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_project_members_user ON project_members(user_id);
+CREATE INDEX IF NOT EXISTS idx_project_members_project ON project_members(project_id);
+
+-- Existing owners become owner members
+INSERT INTO project_members (project_id, user_id, role)
+SELECT id, user_id::uuid, 'owner' FROM projects
+ON CONFLICT (project_id, user_id) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS project_invitations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  email TEXT, -- NULL for shareable links
+  role TEXT NOT NULL CHECK (role IN ('editor', 'commenter', 'viewer')),
+  token TEXT NOT NULL UNIQUE,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepted', 'revoked')),
+  invited_by UUID NOT NULL,
+  accepted_by UUID,
+  accepted_at TIMESTAMP WITH TIME ZONE,
+  expires_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_project_invitations_project ON project_invitations(project_id, status);
+CREATE INDEX IF NOT EXISTS idx_project_invitations_email ON project_invitations(lower(email)) WHERE email IS NOT NULL;
+
+-- Role check used by RLS policies
+CREATE OR REPLACE FUNCTION has_project_role(p_project_id UUID, p_min_role TEXT)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM projects WHERE id = p_project_id AND user_id::text = auth.uid()::text
+  ) OR EXISTS (
+    SELECT 1 FROM project_members
+    WHERE project_id = p_project_id
+      AND user_id = auth.uid()
+      AND array_position(ARRAY['viewer', 'commenter', 'editor', 'owner'], role)
+          >= array_position(ARRAY['viewer', 'commenter', 'editor', 'owner'], p_min_role)
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Generated documents are read with the caller's token (see migration 014),
+-- so their policies must let members in, not just the owner
+DROP POLICY IF EXISTS "Users can view generated documents from own projects" ON generated_documents;
+DROP POLICY IF EXISTS "Users can create generated documents for own projects" ON generated_documents;
+DROP POLICY IF EXISTS "Users can update generated documents from own projects" ON generated_documents;
+DROP POLICY IF EXISTS "Users can delete generated documents from own projects" ON generated_documents;
+
+CREATE POLICY "Members can view generated documents"
+    ON generated_documents FOR SELECT TO authenticated
+    USING (has_project_role(project_id, 'viewer'));
+
+CREATE POLICY "Editors can create generated documents"
+    ON generated_documents FOR INSERT TO authenticated
+    WITH CHECK (has_project_role(project_id, 'editor'));
+
+CREATE POLICY "Editors can update generated documents"
+    ON generated_documents FOR UPDATE TO authenticated
+    USING (has_project_role(project_id, 'editor'))
+    WITH CHECK (has_project_role(project_id, 'editor'));
+
+CREATE POLICY "Editors can delete generated documents"
+    ON generated_documents FOR DELETE TO authenticated
+    USING (has_project_role(project_id, 'editor'));
+
+-- Comments
+COMMENT ON TABLE project_members IS 'Collaborators on a project and their role';
+COMMENT ON COLUMN project_members.role IS 'owner > editor (change items/files) > commenter (chat) > viewer (read-only)';
+COMMENT ON TABLE project_invitations IS 'Pending email or shareable-link invitations to a project';
+COMMENT ON COLUMN project_invitations.token IS 'Secret accepted via POST /api/invitations/:token/accept';
@@ -0,0 +1,21 @@
+-- Migration 020: Project Workflow Overrides
+-- Versioned per-project overrides of the default agent workflows (config/workflows.ts)
+
+CREATE TABLE IF NOT EXISTS project_workflows (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL,
+  document JSONB,
+  source TEXT,
+  created_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  UNIQUE(project_id, version)
+);
+
+CREATE INDEX IF NOT EXISTS idx_project_workflows_project ON project_workflows(project_id, version DESC);
+
+-- Comments
+COMMENT ON TABLE project_workflows IS 'Version history of per-project agent workflow overrides; the newest row is active';
+COMMENT ON COLUMN project_workflows.document IS 'Parsed override ({ version, workflows?, skipAgents? }); NULL reverts to the defaults';
+COMMENT ON COLUMN project_workflows.source IS 'The YAML or JSON text as submitted';
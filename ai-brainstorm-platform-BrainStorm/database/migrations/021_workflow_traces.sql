@@ -0,0 +1,27 @@
+-- Migration 021: Workflow Traces
+-- One row per agent workflow run: intent, every step (inputs, duration, model calls,
+-- tokens, cache hit, output) and skipped steps with the reason they were skipped
+
+CREATE TABLE IF NOT EXISTS workflow_traces (
+  id UUID PRIMARY KEY,
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  user_id UUID,
+  message_id UUID,
+  user_message TEXT,
+  status TEXT NOT NULL CHECK (status IN ('running', 'completed', 'failed')),
+  intent JSONB,
+  workflow JSONB,
+  steps JSONB NOT NULL DEFAULT '[]'::jsonb,
+  totals JSONB,
+  error TEXT,
+  started_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  completed_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_workflow_traces_project ON workflow_traces(project_id, started_at DESC);
+CREATE INDEX IF NOT EXISTS idx_workflow_traces_message ON workflow_traces(message_id);
+
+-- Comments
+COMMENT ON TABLE workflow_traces IS 'Execution trace of each chat message''s agent workflow, for the per-message timeline';
+COMMENT ON COLUMN workflow_traces.message_id IS 'The user message that started the workflow';
+COMMENT ON COLUMN workflow_traces.steps IS 'Ordered steps: agentName, action, batch, status, inputs, durationMs, modelCalls, cacheHit, output, skipReason';
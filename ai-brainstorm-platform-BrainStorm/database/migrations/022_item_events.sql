@@ -0,0 +1,46 @@
+-- Migration 022: Item Events
+-- Append-only log of project item changes (create, move, edit, delete) with the
+-- actor, the source message, and before/after snapshots for undo and time travel
+
+CREATE TABLE IF NOT EXISTS item_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  seq BIGSERIAL NOT NULL,
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  item_id TEXT NOT NULL,
+  event_type TEXT NOT NULL CHECK (event_type IN ('created', 'moved', 'edited', 'deleted')),
+  from_state TEXT,
+  to_state TEXT,
+  before JSONB,
+  after JSONB,
+  actor_type TEXT NOT NULL CHECK (actor_type IN ('user', 'agent')),
+  actor_id TEXT NOT NULL,
+  user_id UUID,
+  source_message_id UUID,
+  trace_id UUID,
+  undo_of UUID REFERENCES item_events(id),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_item_events_project ON item_events(project_id, created_at DESC, seq DESC);
+CREATE INDEX IF NOT EXISTS idx_item_events_item ON item_events(project_id, item_id, created_at DESC);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_item_events_undo_of ON item_events(undo_of) WHERE undo_of IS NOT NULL;
+
+-- The log is append-only: corrections are new events (undo_of), never edits
+CREATE OR REPLACE FUNCTION prevent_item_event_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'item_events is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS item_events_append_only ON item_events;
+CREATE TRIGGER item_events_append_only
+  BEFORE UPDATE ON item_events
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_item_event_changes();
+
+-- Comments
+COMMENT ON TABLE item_events IS 'Append-only history of project item changes, for audit, undo and the board timeline';
+COMMENT ON COLUMN item_events.actor_id IS 'User id for member changes, agent name (e.g. PersistenceManager) for agent changes';
+COMMENT ON COLUMN item_events.user_id IS 'Member who made the change, or whose message led an agent to make it';
+COMMENT ON COLUMN item_events.undo_of IS 'Event this one reverses; undoing an undo is a redo';
@@ -0,0 +1,37 @@
+-- Migration 023: State Change Proposals
+-- Per-project switch that queues agent-proposed item changes (add, move, delete)
+-- for a member to approve or reject, instead of applying them directly
+
+ALTER TABLE projects
+  ADD COLUMN IF NOT EXISTS require_agent_approval BOOLEAN NOT NULL DEFAULT false;
+
+CREATE TABLE IF NOT EXISTS state_change_proposals (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  change_type TEXT NOT NULL CHECK (change_type IN ('add', 'move', 'delete')),
+  from_state TEXT,
+  to_state TEXT,
+  item_text TEXT NOT NULL,
+  item_id TEXT,
+  item JSONB,
+  agent TEXT NOT NULL,
+  agent_reasoning TEXT,
+  agent_confidence NUMERIC,
+  intent JSONB,
+  user_id UUID,
+  source_message_id UUID,
+  trace_id UUID,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected')),
+  decided_by UUID,
+  decided_at TIMESTAMP WITH TIME ZONE,
+  decision_note TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_state_change_proposals_project ON state_change_proposals(project_id, status, created_at);
+
+-- Comments
+COMMENT ON COLUMN projects.require_agent_approval IS 'When true, agent item changes wait in state_change_proposals for a member to approve';
+COMMENT ON TABLE state_change_proposals IS 'Agent-proposed item changes awaiting (or past) human approval';
+COMMENT ON COLUMN state_change_proposals.item IS 'The item to create, for add proposals';
+COMMENT ON COLUMN state_change_proposals.intent IS 'Intent classification (type, confidence, reasoning) of the message behind the proposal';
@@ -0,0 +1,31 @@
+-- Migration 024: Reference Chunks
+-- Passages of a reference with their own embeddings, so semantic search can
+-- return where in a reference a match is. Audio and video transcripts are
+-- chunked with the time range each passage was spoken.
+
+CREATE EXTENSION IF NOT EXISTS vector;
+
+CREATE TABLE IF NOT EXISTS reference_chunks (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  reference_id UUID NOT NULL REFERENCES "references"(id) ON DELETE CASCADE,
+  chunk_index INTEGER NOT NULL,
+  content TEXT NOT NULL,
+  start_seconds REAL,
+  end_seconds REAL,
+  embedding vector(1536),
+  embedding_model VARCHAR(100),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (reference_id, chunk_index)
+);
+
+CREATE INDEX IF NOT EXISTS idx_reference_chunks_reference ON reference_chunks(reference_id, chunk_index);
+
+CREATE INDEX IF NOT EXISTS reference_chunks_embedding_idx
+ON reference_chunks
+USING ivfflat (embedding vector_cosine_ops)
+WITH (lists = 100);
+
+-- Comments
+COMMENT ON TABLE reference_chunks IS 'Embedded passages of a reference (e.g. timestamped transcript chunks of audio/video)';
+COMMENT ON COLUMN reference_chunks.start_seconds IS 'Start of the passage in the recording, for audio/video references';
+COMMENT ON COLUMN reference_chunks.end_seconds IS 'End of the passage in the recording, for audio/video references';
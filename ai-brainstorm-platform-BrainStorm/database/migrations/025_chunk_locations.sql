@@ -0,0 +1,45 @@
+-- Migration 025: Chunk Locations
+-- Long references and generated documents are embedded as overlapping
+-- passages instead of a single vector of their first ~32k characters. Each
+-- passage records where it sits in the source: character offsets, the PDF
+-- page range, and the nearest section heading.
+
+CREATE EXTENSION IF NOT EXISTS vector;
+
+ALTER TABLE reference_chunks
+ADD COLUMN IF NOT EXISTS char_start INTEGER,
+ADD COLUMN IF NOT EXISTS char_end INTEGER,
+ADD COLUMN IF NOT EXISTS page_start INTEGER,
+ADD COLUMN IF NOT EXISTS page_end INTEGER,
+ADD COLUMN IF NOT EXISTS section TEXT;
+
+CREATE TABLE IF NOT EXISTS document_chunks (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  document_id UUID NOT NULL REFERENCES generated_documents(id) ON DELETE CASCADE,
+  chunk_index INTEGER NOT NULL,
+  content TEXT NOT NULL,
+  char_start INTEGER,
+  char_end INTEGER,
+  page_start INTEGER,
+  page_end INTEGER,
+  section TEXT,
+  embedding vector(1536),
+  embedding_model VARCHAR(100),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (document_id, chunk_index)
+);
+
+CREATE INDEX IF NOT EXISTS idx_document_chunks_document ON document_chunks(document_id, chunk_index);
+
+CREATE INDEX IF NOT EXISTS document_chunks_embedding_idx
+ON document_chunks
+USING ivfflat (embedding vector_cosine_ops)
+WITH (lists = 100);
+
+-- Comments
+COMMENT ON COLUMN reference_chunks.char_start IS 'Start offset of the passage in the reference''s extracted text';
+COMMENT ON COLUMN reference_chunks.char_end IS 'End offset (exclusive) of the passage in the reference''s extracted text';
+COMMENT ON COLUMN reference_chunks.page_start IS 'First PDF page the passage covers';
+COMMENT ON COLUMN reference_chunks.page_end IS 'Last PDF page the passage covers';
+COMMENT ON COLUMN reference_chunks.section IS 'Nearest heading above the passage (section, slide or sheet)';
+COMMENT ON TABLE document_chunks IS 'Embedded passages of a generated document, with their location in the document';
@@ -0,0 +1,47 @@
+-- Migration 026: Embedding Dimensions
+-- Embeddings can come from different providers (OpenAI, an OpenAI-compatible
+-- server, or a local CPU model) whose vectors differ in size. Vector columns
+-- become dimensionless, and every vector records the model and dimensions it
+-- was made with; search only compares vectors of the query's model.
+--
+-- The IVFFlat indexes need a fixed dimension, so they are dropped. Search
+-- ranks candidates of one project in the application (keyword + vector), which
+-- never used them.
+
+CREATE EXTENSION IF NOT EXISTS vector;
+
+DROP INDEX IF EXISTS messages_embedding_idx;
+DROP INDEX IF EXISTS reference_chunks_embedding_idx;
+DROP INDEX IF EXISTS document_chunks_embedding_idx;
+
+ALTER TABLE messages
+ALTER COLUMN embedding TYPE vector USING embedding::vector,
+ADD COLUMN IF NOT EXISTS embedding_dimensions INTEGER;
+
+ALTER TABLE reference_chunks
+ALTER COLUMN embedding TYPE vector USING embedding::vector,
+ADD COLUMN IF NOT EXISTS embedding_dimensions INTEGER;
+
+ALTER TABLE document_chunks
+ALTER COLUMN embedding TYPE vector USING embedding::vector,
+ADD COLUMN IF NOT EXISTS embedding_dimensions INTEGER;
+
+ALTER TABLE IF EXISTS reference_embeddings
+ALTER COLUMN embedding TYPE vector USING embedding::vector,
+ADD COLUMN IF NOT EXISTS embedding_model VARCHAR(100),
+ADD COLUMN IF NOT EXISTS embedding_dimensions INTEGER;
+
+ALTER TABLE IF EXISTS document_embeddings
+ALTER COLUMN embedding TYPE vector USING embedding::vector,
+ADD COLUMN IF NOT EXISTS embedding_model VARCHAR(100),
+ADD COLUMN IF NOT EXISTS embedding_dimensions INTEGER;
+
+-- Existing vectors all came from the OpenAI default
+UPDATE messages SET embedding_dimensions = 1536 WHERE embedding IS NOT NULL AND embedding_dimensions IS NULL;
+UPDATE reference_chunks SET embedding_dimensions = 1536 WHERE embedding IS NOT NULL AND embedding_dimensions IS NULL;
+UPDATE document_chunks SET embedding_dimensions = 1536 WHERE embedding IS NOT NULL AND embedding_dimensions IS NULL;
+
+-- Comments
+COMMENT ON COLUMN messages.embedding_dimensions IS 'Length of the embedding vector; vectors are only compared within one model';
+COMMENT ON COLUMN reference_chunks.embedding_dimensions IS 'Length of the embedding vector; vectors are only compared within one model';
+COMMENT ON COLUMN document_chunks.embedding_dimensions IS 'Length of the embedding vector; vectors are only compared within one model';
@@ -0,0 +1,52 @@
+-- Migration 027: Research Watches
+-- Saved research queries (plus pages to re-check) that run on a cron schedule;
+-- each run is compared with earlier runs and new or changed sources are posted to the project
+
+CREATE TABLE IF NOT EXISTS research_watches (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  query TEXT NOT NULL,
+  urls JSONB NOT NULL DEFAULT '[]',
+  schedule TEXT NOT NULL,
+  max_sources INTEGER NOT NULL DEFAULT 5,
+  reexamine_documents BOOLEAN NOT NULL DEFAULT false,
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  next_run_at TIMESTAMP WITH TIME ZONE,
+  last_run_at TIMESTAMP WITH TIME ZONE,
+  last_run_status TEXT CHECK (last_run_status IN ('completed', 'failed')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_research_watches_project ON research_watches(project_id);
+CREATE INDEX IF NOT EXISTS idx_research_watches_due ON research_watches(next_run_at) WHERE enabled;
+
+CREATE TABLE IF NOT EXISTS research_watch_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  watch_id UUID NOT NULL REFERENCES research_watches(id) ON DELETE CASCADE,
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  research_query_id UUID REFERENCES research_queries(id) ON DELETE SET NULL,
+  status TEXT NOT NULL CHECK (status IN ('completed', 'failed')),
+  sources JSONB NOT NULL DEFAULT '[]',
+  new_sources JSONB NOT NULL DEFAULT '[]',
+  changed_sources JSONB NOT NULL DEFAULT '[]',
+  baseline BOOLEAN NOT NULL DEFAULT false,
+  message_id UUID,
+  documents JSONB NOT NULL DEFAULT '[]',
+  error TEXT,
+  started_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  completed_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_research_watch_runs_watch ON research_watch_runs(watch_id, started_at DESC);
+
+-- Comments
+COMMENT ON TABLE research_watches IS 'Recurring research: a query and pages re-checked on a cron schedule';
+COMMENT ON COLUMN research_watches.urls IS 'Pages fetched on every run in addition to the search results';
+COMMENT ON COLUMN research_watches.schedule IS 'Five-field cron expression, evaluated in UTC';
+COMMENT ON COLUMN research_watches.reexamine_documents IS 'When true, runs with changes check generated documents built on this research';
+COMMENT ON TABLE research_watch_runs IS 'One run of a research watch and what it found compared with earlier runs';
+COMMENT ON COLUMN research_watch_runs.sources IS 'Every source the run saw (url, title, snippet, content), the baseline for later runs';
+COMMENT ON COLUMN research_watch_runs.baseline IS 'First run: sources are recorded without an alert';
+COMMENT ON COLUMN research_watch_runs.documents IS 'Generated documents checked for re-examination after this run';
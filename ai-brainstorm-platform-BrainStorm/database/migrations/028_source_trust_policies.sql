@@ -0,0 +1,8 @@
+-- Migration 028: Source Trust Policies
+-- Per-project rules for which web sources research may use; the organization-wide
+-- policy is a JSON file (SOURCE_TRUST_POLICY_PATH) applied on top of these
+
+ALTER TABLE projects
+  ADD COLUMN IF NOT EXISTS source_trust_policy JSONB NOT NULL DEFAULT '{}';
+
+COMMENT ON COLUMN projects.source_trust_policy IS 'Research source rules: { allowDomains, blockDomains, domainWeights, requiredSourceTypes }';
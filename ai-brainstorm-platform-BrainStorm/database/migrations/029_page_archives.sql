@@ -0,0 +1,31 @@
+-- Migration 029: Page Archives
+-- Copies of the web pages research cited, as they were fetched, so findings can be
+-- checked against the source even after the live page changes or disappears
+
+CREATE TABLE IF NOT EXISTS page_archives (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  research_query_id UUID REFERENCES research_queries(id) ON DELETE SET NULL,
+  url TEXT NOT NULL,
+  title TEXT,
+  html TEXT,
+  text_content TEXT NOT NULL,
+  content_hash TEXT NOT NULL,
+  screenshot_path TEXT,
+  fetched_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_page_archives_research_query ON page_archives(research_query_id);
+CREATE INDEX IF NOT EXISTS idx_page_archives_project_url ON page_archives(project_id, url);
+
+-- Screenshots (private; served through signed URLs)
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('page-archives', 'page-archives', false)
+ON CONFLICT (id) DO NOTHING;
+
+-- Comments
+COMMENT ON TABLE page_archives IS 'Web pages cited by research, archived at fetch time';
+COMMENT ON COLUMN page_archives.html IS 'Cleaned HTML with scripts, frames and event handlers removed; null for very large pages';
+COMMENT ON COLUMN page_archives.content_hash IS 'SHA-256 (hex) of text_content';
+COMMENT ON COLUMN page_archives.screenshot_path IS 'Object path in the page-archives storage bucket';
@@ -0,0 +1,35 @@
+-- Migration 030: Project Memory
+-- A rolling summary of each project's conversation and the durable facts pulled from it,
+-- given to agents alongside their pruned message history
+
+CREATE TABLE IF NOT EXISTS project_memory (
+  project_id UUID PRIMARY KEY REFERENCES projects(id) ON DELETE CASCADE,
+  summary TEXT NOT NULL DEFAULT '',
+  summarized_through TIMESTAMP WITH TIME ZONE,
+  summarized_message_count INTEGER NOT NULL DEFAULT 0,
+  summary_edited_by UUID,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS project_memory_facts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  category TEXT NOT NULL CHECK (category IN ('constraint', 'preference', 'stakeholder', 'rejected_idea', 'answer')),
+  content TEXT NOT NULL,
+  reason TEXT,
+  source TEXT NOT NULL DEFAULT 'extracted' CHECK (source IN ('extracted', 'user')),
+  source_message_id UUID,
+  created_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_project_memory_facts_project ON project_memory_facts(project_id, created_at);
+
+-- Comments
+COMMENT ON TABLE project_memory IS 'Rolling summary of a project conversation, updated in batches of messages';
+COMMENT ON COLUMN project_memory.summarized_through IS 'created_at of the last message folded into the summary';
+COMMENT ON COLUMN project_memory.summary_edited_by IS 'Member who last edited the summary by hand';
+COMMENT ON TABLE project_memory_facts IS 'Durable facts remembered for a project: constraints, preferences, stakeholders, rejected ideas, settled answers';
+COMMENT ON COLUMN project_memory_facts.reason IS 'Why an idea was rejected';
+COMMENT ON COLUMN project_memory_facts.source IS 'extracted: written by the memory agent, may be retired by it; user: written or edited by a member, kept';
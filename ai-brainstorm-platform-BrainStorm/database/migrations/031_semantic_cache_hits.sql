@@ -0,0 +1,24 @@
+-- Migration 031: Semantic Cache Hits
+-- Audit log of agent responses reused for a differently worded request
+-- (embedding similarity above the configured threshold, same project state)
+
+CREATE TABLE IF NOT EXISTS semantic_cache_hits (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id UUID REFERENCES projects(id) ON DELETE CASCADE,
+  agent_name TEXT NOT NULL,
+  request_text TEXT NOT NULL,
+  matched_request_text TEXT NOT NULL,
+  similarity NUMERIC(6, 5) NOT NULL,
+  threshold NUMERIC(6, 5) NOT NULL,
+  embedding_model TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_semantic_cache_hits_project ON semantic_cache_hits(project_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_semantic_cache_hits_agent ON semantic_cache_hits(agent_name, created_at DESC);
+
+-- Comments
+COMMENT ON TABLE semantic_cache_hits IS 'Agent responses served from the semantic response cache, for audit';
+COMMENT ON COLUMN semantic_cache_hits.request_text IS 'Normalized request that was answered from cache';
+COMMENT ON COLUMN semantic_cache_hits.matched_request_text IS 'Normalized earlier request whose response was reused';
+COMMENT ON COLUMN semantic_cache_hits.similarity IS 'Cosine similarity between the two request embeddings';
@@ -0,0 +1,49 @@
+-- Migration 032: Custom Analysis Templates
+-- User-built analysis templates kept per user, per project or for the whole organization,
+-- with every saved edit kept as a version
+
+CREATE TABLE IF NOT EXISTS analysis_templates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  scope TEXT NOT NULL CHECK (scope IN ('user', 'project', 'organization')),
+  project_id UUID REFERENCES projects(id) ON DELETE CASCADE,
+  owner_id UUID NOT NULL,
+  name TEXT NOT NULL,
+  description TEXT NOT NULL DEFAULT '',
+  icon TEXT NOT NULL DEFAULT 'edit',
+  output_format TEXT NOT NULL DEFAULT 'structured_json' CHECK (output_format IN ('markdown', 'structured_json', 'table')),
+  fields JSONB NOT NULL DEFAULT '[]'::jsonb,
+  system_prompt TEXT NOT NULL,
+  based_on TEXT,
+  version INTEGER NOT NULL DEFAULT 1,
+  updated_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CHECK ((scope = 'project') = (project_id IS NOT NULL))
+);
+
+CREATE INDEX IF NOT EXISTS idx_analysis_templates_owner ON analysis_templates(owner_id) WHERE scope = 'user';
+CREATE INDEX IF NOT EXISTS idx_analysis_templates_project ON analysis_templates(project_id) WHERE scope = 'project';
+CREATE INDEX IF NOT EXISTS idx_analysis_templates_organization ON analysis_templates(scope) WHERE scope = 'organization';
+
+CREATE TABLE IF NOT EXISTS analysis_template_versions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  template_id UUID NOT NULL REFERENCES analysis_templates(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL,
+  name TEXT NOT NULL,
+  description TEXT NOT NULL DEFAULT '',
+  icon TEXT NOT NULL DEFAULT 'edit',
+  output_format TEXT NOT NULL,
+  fields JSONB NOT NULL DEFAULT '[]'::jsonb,
+  system_prompt TEXT NOT NULL,
+  created_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (template_id, version)
+);
+
+-- Comments
+COMMENT ON TABLE analysis_templates IS 'Custom analysis templates; built-in templates live in code (config/analysis-templates.ts)';
+COMMENT ON COLUMN analysis_templates.scope IS 'user: only the owner sees it; project: members of project_id; organization: every user of this deployment';
+COMMENT ON COLUMN analysis_templates.owner_id IS 'User who created the template';
+COMMENT ON COLUMN analysis_templates.based_on IS 'Id of the built-in or custom template this one was cloned from';
+COMMENT ON COLUMN analysis_templates.version IS 'Current version; matches the newest row in analysis_template_versions';
+COMMENT ON TABLE analysis_template_versions IS 'Snapshot of a custom analysis template at each saved version';
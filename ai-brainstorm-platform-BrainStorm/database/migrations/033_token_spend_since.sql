@@ -0,0 +1,19 @@
+-- Migration 033: Token Spend Aggregate
+-- Sums token_usage cost in the database so budget checks don't read every
+-- usage row (PostgREST caps a select at 1000 rows)
+
+CREATE OR REPLACE FUNCTION token_spend_since(
+  since TIMESTAMP WITH TIME ZONE,
+  project_id_filter UUID DEFAULT NULL,
+  user_id_filter UUID DEFAULT NULL
+)
+RETURNS NUMERIC AS $$
+  SELECT COALESCE(SUM(cost_usd), 0)
+  FROM token_usage
+  WHERE created_at >= since
+    AND (project_id_filter IS NULL OR project_id = project_id_filter)
+    AND (user_id_filter IS NULL OR user_id = user_id_filter);
+$$ LANGUAGE sql STABLE;
+
+-- Comments
+COMMENT ON FUNCTION token_spend_since IS 'Total cost_usd since a point in time, optionally for one project and/or user (used by budget checks)';
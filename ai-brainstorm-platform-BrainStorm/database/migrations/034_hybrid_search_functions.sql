@@ -0,0 +1,239 @@
+-- Migration 034: Hybrid Search in SQL
+-- Search used to load every reference, generated document, chunk and the
+-- latest messages of the searched projects and rank them in the application,
+-- which read whole documents and vectors per query and stopped at PostgREST's
+-- 1000-row cap. Keyword (full-text) and vector ranking now run here and only
+-- the top matches of each kind are returned.
+--
+-- Vector columns are dimensionless since migration 026, so they are indexed
+-- per embedding size: a partial HNSW index on embedding::vector(n) for each
+-- size of the models in EMBEDDING_MODEL_DIMENSIONS (backend/src/config/aiModels.ts).
+-- Models above 2000 dimensions can't use HNSW and are compared exactly.
+
+CREATE EXTENSION IF NOT EXISTS vector;
+
+-- Full-text vectors. 'simple' keeps product codes and names as written (no stemming);
+-- whole-item text is capped like the application's MAX_ITEM_TEXT (20000 chars)
+ALTER TABLE "references"
+ADD COLUMN IF NOT EXISTS search_tsv tsvector GENERATED ALWAYS AS (
+  to_tsvector('simple',
+    coalesce(filename, '') || ' ' ||
+    coalesce(metadata->>'description', '') || ' ' ||
+    coalesce(metadata->>'analysis', '') || ' ' ||
+    -- Images hold base64 and unanalyzed media a file path
+    CASE
+      WHEN metadata->>'contentType' = 'image' THEN ''
+      WHEN metadata->>'contentType' IN ('video', 'audio') AND NOT (metadata ? 'media') THEN ''
+      ELSE left(coalesce(metadata->>'extractedContent', ''), 20000)
+    END)
+) STORED;
+
+ALTER TABLE generated_documents
+ADD COLUMN IF NOT EXISTS search_tsv tsvector GENERATED ALWAYS AS (
+  to_tsvector('simple', coalesce(title, '') || ' ' || left(coalesce(content, ''), 20000))
+) STORED;
+
+ALTER TABLE documents
+ADD COLUMN IF NOT EXISTS search_tsv tsvector GENERATED ALWAYS AS (
+  to_tsvector('simple',
+    coalesce(filename, '') || ' ' ||
+    coalesce(description, '') || ' ' ||
+    CASE WHEN metadata->>'contentType' = 'text' THEN left(coalesce(metadata->>'extractedContent', ''), 20000) ELSE '' END)
+) STORED;
+
+ALTER TABLE messages
+ADD COLUMN IF NOT EXISTS search_tsv tsvector GENERATED ALWAYS AS (to_tsvector('simple', coalesce(content, ''))) STORED;
+
+ALTER TABLE reference_chunks
+ADD COLUMN IF NOT EXISTS search_tsv tsvector GENERATED ALWAYS AS (to_tsvector('simple', content)) STORED;
+
+ALTER TABLE document_chunks
+ADD COLUMN IF NOT EXISTS search_tsv tsvector GENERATED ALWAYS AS (to_tsvector('simple', content)) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_references_search ON "references" USING gin(search_tsv);
+CREATE INDEX IF NOT EXISTS idx_generated_documents_search ON generated_documents USING gin(search_tsv);
+CREATE INDEX IF NOT EXISTS idx_documents_search ON documents USING gin(search_tsv);
+CREATE INDEX IF NOT EXISTS idx_messages_search ON messages USING gin(search_tsv);
+CREATE INDEX IF NOT EXISTS idx_reference_chunks_search ON reference_chunks USING gin(search_tsv);
+CREATE INDEX IF NOT EXISTS idx_document_chunks_search ON document_chunks USING gin(search_tsv);
+
+-- Vector indexes per embedding size (replacing the fixed-size IVFFlat indexes dropped in 026)
+DO $$
+DECLARE
+  source_table TEXT;
+  dims INT;
+BEGIN
+  FOREACH source_table IN ARRAY ARRAY['messages', 'reference_chunks', 'document_chunks'] LOOP
+    FOREACH dims IN ARRAY ARRAY[384, 768, 1536] LOOP
+      EXECUTE format(
+        'CREATE INDEX IF NOT EXISTS %1$s_embedding_%2$s_idx ON %1$I
+         USING hnsw ((embedding::vector(%2$s)) vector_cosine_ops)
+         WHERE embedding_dimensions = %2$s',
+        source_table, dims
+      );
+    END LOOP;
+  END LOOP;
+END $$;
+
+-- Top keyword and vector matches of a query across projects
+-- Returns up to match_count keyword matches and match_count vector matches per
+-- kind of text (whole items, chunks, messages). A row has keyword_rank or
+-- vector_similarity set; the application fuses the two into one score.
+-- Vectors are only compared with vectors of the query's size (its model).
+CREATE OR REPLACE FUNCTION hybrid_search_matches(
+  project_ids UUID[],
+  query_terms TEXT[],
+  query_embedding vector DEFAULT NULL,
+  source_types TEXT[] DEFAULT ARRAY['project', 'reference', 'document', 'generated_document', 'message'],
+  match_count INT DEFAULT 60
+)
+RETURNS TABLE (
+  source_type TEXT,
+  item_id UUID,
+  chunk_index INT,
+  keyword_rank REAL,
+  vector_similarity REAL
+) AS $$
+#variable_conflict use_column
+DECLARE
+  terms_query tsquery;
+  term TEXT;
+  dims INT;
+BEGIN
+  -- Any term may match; ts_rank_cd (normalized by length) orders them
+  FOREACH term IN ARRAY coalesce(query_terms, ARRAY[]::TEXT[]) LOOP
+    terms_query := CASE
+      WHEN terms_query IS NULL THEN plainto_tsquery('simple', term)
+      ELSE terms_query || plainto_tsquery('simple', term)
+    END;
+  END LOOP;
+
+  IF terms_query IS NOT NULL AND numnode(terms_query) > 0 THEN
+    IF 'project' = ANY(source_types) THEN
+      RETURN QUERY
+      SELECT 'project'::TEXT, p.id, NULL::INT, ts_rank_cd(v.tsv, terms_query, 1)::REAL, NULL::REAL
+      FROM projects p
+      CROSS JOIN LATERAL (SELECT to_tsvector('simple', coalesce(p.title, '') || ' ' || coalesce(p.description, '')) AS tsv) v
+      WHERE p.id = ANY(project_ids) AND v.tsv @@ terms_query;
+    END IF;
+
+    IF 'reference' = ANY(source_types) THEN
+      RETURN QUERY
+      SELECT 'reference'::TEXT, r.id, NULL::INT, ts_rank_cd(r.search_tsv, terms_query, 1)::REAL, NULL::REAL
+      FROM "references" r
+      WHERE r.project_id = ANY(project_ids) AND r.search_tsv @@ terms_query
+      ORDER BY 4 DESC
+      LIMIT match_count;
+
+      RETURN QUERY
+      SELECT 'reference'::TEXT, c.reference_id, c.chunk_index, ts_rank_cd(c.search_tsv, terms_query, 1)::REAL, NULL::REAL
+      FROM reference_chunks c
+      JOIN "references" r ON r.id = c.reference_id
+      WHERE r.project_id = ANY(project_ids) AND c.search_tsv @@ terms_query
+      ORDER BY 4 DESC
+      LIMIT match_count;
+    END IF;
+
+    IF 'generated_document' = ANY(source_types) THEN
+      RETURN QUERY
+      SELECT 'generated_document'::TEXT, d.id, NULL::INT, ts_rank_cd(d.search_tsv, terms_query, 1)::REAL, NULL::REAL
+      FROM generated_documents d
+      WHERE d.project_id = ANY(project_ids) AND d.search_tsv @@ terms_query
+      ORDER BY 4 DESC
+      LIMIT match_count;
+
+      RETURN QUERY
+      SELECT 'generated_document'::TEXT, c.document_id, c.chunk_index, ts_rank_cd(c.search_tsv, terms_query, 1)::REAL, NULL::REAL
+      FROM document_chunks c
+      JOIN generated_documents d ON d.id = c.document_id
+      WHERE d.project_id = ANY(project_ids) AND c.search_tsv @@ terms_query
+      ORDER BY 4 DESC
+      LIMIT match_count;
+    END IF;
+
+    IF 'document' = ANY(source_types) THEN
+      RETURN QUERY
+      SELECT 'document'::TEXT, d.id, NULL::INT, ts_rank_cd(d.search_tsv, terms_query, 1)::REAL, NULL::REAL
+      FROM documents d
+      WHERE d.project_id = ANY(project_ids) AND d.search_tsv @@ terms_query
+      ORDER BY 4 DESC
+      LIMIT match_count;
+    END IF;
+
+    IF 'message' = ANY(source_types) THEN
+      RETURN QUERY
+      SELECT 'message'::TEXT, m.id, NULL::INT, ts_rank_cd(m.search_tsv, terms_query, 1)::REAL, NULL::REAL
+      FROM messages m
+      WHERE m.project_id = ANY(project_ids) AND m.search_tsv @@ terms_query
+      ORDER BY 4 DESC
+      LIMIT match_count;
+    END IF;
+  END IF;
+
+  IF query_embedding IS NOT NULL THEN
+    dims := vector_dims(query_embedding);
+
+    -- Whole-item vectors (one per item) are compared exactly; chunks and
+    -- messages go through the HNSW index for their size
+    IF 'reference' = ANY(source_types) THEN
+      RETURN QUERY
+      SELECT 'reference'::TEXT, e.reference_id, NULL::INT, NULL::REAL, (1 - (e.embedding <=> query_embedding))::REAL
+      FROM reference_embeddings e
+      JOIN "references" r ON r.id = e.reference_id
+      WHERE r.project_id = ANY(project_ids) AND vector_dims(e.embedding) = dims
+      ORDER BY e.embedding <=> query_embedding
+      LIMIT match_count;
+
+      RETURN QUERY EXECUTE format(
+        'SELECT %2$L::TEXT, c.reference_id, c.chunk_index, NULL::REAL, (1 - (c.embedding::vector(%1$s) <=> $1::vector(%1$s)))::REAL
+         FROM reference_chunks c
+         JOIN "references" r ON r.id = c.reference_id
+         WHERE c.embedding_dimensions = %1$s AND r.project_id = ANY($2)
+         ORDER BY c.embedding::vector(%1$s) <=> $1::vector(%1$s)
+         LIMIT $3',
+        dims, 'reference'
+      ) USING query_embedding, project_ids, match_count;
+    END IF;
+
+    IF 'generated_document' = ANY(source_types) THEN
+      RETURN QUERY
+      SELECT 'generated_document'::TEXT, e.document_id, NULL::INT, NULL::REAL, (1 - (e.embedding <=> query_embedding))::REAL
+      FROM document_embeddings e
+      JOIN generated_documents d ON d.id = e.document_id
+      WHERE d.project_id = ANY(project_ids) AND vector_dims(e.embedding) = dims
+      ORDER BY e.embedding <=> query_embedding
+      LIMIT match_count;
+
+      RETURN QUERY EXECUTE format(
+        'SELECT %2$L::TEXT, c.document_id, c.chunk_index, NULL::REAL, (1 - (c.embedding::vector(%1$s) <=> $1::vector(%1$s)))::REAL
+         FROM document_chunks c
+         JOIN generated_documents d ON d.id = c.document_id
+         WHERE c.embedding_dimensions = %1$s AND d.project_id = ANY($2)
+         ORDER BY c.embedding::vector(%1$s) <=> $1::vector(%1$s)
+         LIMIT $3',
+        dims, 'generated_document'
+      ) USING query_embedding, project_ids, match_count;
+    END IF;
+
+    IF 'message' = ANY(source_types) THEN
+      RETURN QUERY EXECUTE format(
+        'SELECT %2$L::TEXT, m.id, NULL::INT, NULL::REAL, (1 - (m.embedding::vector(%1$s) <=> $1::vector(%1$s)))::REAL
+         FROM messages m
+         WHERE m.embedding_dimensions = %1$s AND m.project_id = ANY($2)
+         ORDER BY m.embedding::vector(%1$s) <=> $1::vector(%1$s)
+         LIMIT $3',
+        dims, 'message'
+      ) USING query_embedding, project_ids, match_count;
+    END IF;
+  END IF;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Comments
+COMMENT ON COLUMN "references".search_tsv IS 'Full-text vector of the filename, description, analysis and extracted text';
+COMMENT ON COLUMN generated_documents.search_tsv IS 'Full-text vector of the title and content';
+COMMENT ON COLUMN documents.search_tsv IS 'Full-text vector of the filename, description and extracted text';
+COMMENT ON COLUMN messages.search_tsv IS 'Full-text vector of the message content';
+COMMENT ON COLUMN reference_chunks.search_tsv IS 'Full-text vector of the passage';
+COMMENT ON COLUMN document_chunks.search_tsv IS 'Full-text vector of the passage';
+COMMENT ON FUNCTION hybrid_search_matches IS 'Top keyword (full-text) and vector matches of a query in the given projects; fused by HybridSearchService';
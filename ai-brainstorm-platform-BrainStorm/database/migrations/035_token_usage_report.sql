@@ -0,0 +1,46 @@
+-- Migration 035: Token Usage Report Aggregate
+-- Groups and sums a project's token_usage in the database, so cost reports
+-- return a handful of rows instead of the project's whole usage history
+
+CREATE OR REPLACE FUNCTION token_usage_report(
+  project_id_filter UUID,
+  since TIMESTAMP WITH TIME ZONE DEFAULT NULL
+)
+RETURNS TABLE (
+  dimension TEXT,
+  key TEXT,
+  calls BIGINT,
+  input_tokens BIGINT,
+  output_tokens BIGINT,
+  cache_creation_input_tokens BIGINT,
+  cache_read_input_tokens BIGINT,
+  cost_usd NUMERIC
+) AS $$
+  SELECT
+    CASE
+      WHEN GROUPING(u.agent_name) = 0 THEN 'agent'
+      WHEN GROUPING(u.operation) = 0 THEN 'operation'
+      WHEN GROUPING(u.model) = 0 THEN 'model'
+      WHEN GROUPING(u.user_id) = 0 THEN 'user'
+      ELSE 'total'
+    END,
+    CASE
+      WHEN GROUPING(u.agent_name) = 0 THEN u.agent_name
+      WHEN GROUPING(u.operation) = 0 THEN u.operation
+      WHEN GROUPING(u.model) = 0 THEN u.model
+      WHEN GROUPING(u.user_id) = 0 THEN u.user_id::TEXT
+    END,
+    COUNT(*),
+    COALESCE(SUM(u.input_tokens), 0),
+    COALESCE(SUM(u.output_tokens), 0),
+    COALESCE(SUM(u.cache_creation_input_tokens), 0),
+    COALESCE(SUM(u.cache_read_input_tokens), 0),
+    COALESCE(SUM(u.cost_usd), 0)
+  FROM token_usage u
+  WHERE u.project_id = project_id_filter
+    AND (since IS NULL OR u.created_at >= since)
+  GROUP BY GROUPING SETS ((u.agent_name), (u.operation), (u.model), (u.user_id), ());
+$$ LANGUAGE sql STABLE;
+
+-- Comments
+COMMENT ON FUNCTION token_usage_report IS 'Token and cost totals for a project since a point in time, overall (dimension total) and per agent, operation, model and user (used by cost reports)';
@@ -1,5 +1,5 @@
 import { useEffect } from 'react';
-import { BrowserRouter as Router, Routes, Route, Navigate } from 'react-router-dom';
+import { BrowserRouter as Router, Routes, Route, Navigate, useLocation } from 'react-router-dom';
 import { Layout } from './components/Layout';
 import { Homepage } from './pages/Homepage';
 import { Dashboard } from './pages/Dashboard';
@@ -10,6 +10,7 @@ import { SettingsPage } from './pages/SettingsPage';
 import { ProjectIntelligenceHub } from './pages/ProjectIntelligenceHub';
 import ResearchHubPage from './pages/ResearchHubPage';
 import { LoginPage } from './pages/LoginPage';
+import { InvitePage } from './pages/InvitePage';
 import { CreateProjectModal } from './components/modals/CreateProjectModal';
 import { SessionSummary } from './components/SessionManager';
 import { UniversalSearch } from './components/UniversalSearch';
@@ -17,17 +18,27 @@ import { ToastContainer } from './hooks/useToast';
 import { useThemeStore } from './store/themeStore';
 import { useUserStore } from './store/userStore';
 
-// Protected Route wrapper
+// Protected Route wrapper (remembers where to return after sign-in)
 function ProtectedRoute({ children }: { children: React.ReactNode }) {
   const { isAuthenticated } = useUserStore();
+  const location = useLocation();
 
   if (!isAuthenticated) {
-    return <Navigate to="/login" replace />;
+    return <Navigate to="/login" replace state={{ from: location.pathname }} />;
   }
 
   return <>{children}</>;
 }
 
+// Login route: send signed-in users back to the page they were trying to open
+function LoginRoute() {
+  const { isAuthenticated } = useUserStore();
+  const location = useLocation();
+  const from = (location.state as { from?: string } | null)?.from || '/';
+
+  return isAuthenticated ? <Navigate to={from} replace /> : <LoginPage />;
+}
+
 function App() {
   const { isDarkMode } = useThemeStore();
   const { initializeAuth, isLoading, isAuthenticated } = useUserStore();
@@ -62,7 +73,7 @@ function App() {
     <Router>
       <Routes>
         {/* Public Routes */}
-        <Route path="/login" element={isAuthenticated ? <Navigate to="/" replace /> : <LoginPage />} />
+        <Route path="/login" element={<LoginRoute />} />
 
         {/* Protected Routes */}
         <Route
@@ -145,6 +156,14 @@ function App() {
             </ProtectedRoute>
           }
         />
+        <Route
+          path="/invite/:token"
+          element={
+            <ProtectedRoute>
+              <InvitePage />
+            </ProtectedRoute>
+          }
+        />
 
         {/* Catch all */}
         <Route path="*" element={<Navigate to="/" replace />} />
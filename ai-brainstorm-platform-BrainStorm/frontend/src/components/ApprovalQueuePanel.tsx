@@ -0,0 +1,231 @@
+import React, { useState } from 'react';
+import { X, Loader2, Bot, Check, Plus, ArrowRight, Trash2, ShieldCheck } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import type { StateChangeProposal } from '../types';
+
+interface ApprovalQueuePanelProps {
+  isDarkMode: boolean;
+  proposals: StateChangeProposal[];
+  requireApproval: boolean;
+  isLoading: boolean;
+  // Owners can switch approval on and off; editors and owners can decide
+  canConfigure: boolean;
+  canDecide: boolean;
+  onToggleApproval: (requireApproval: boolean) => void;
+  onApprove: (ids: string[]) => Promise<void>;
+  onReject: (ids: string[]) => Promise<void>;
+  onClose?: () => void;
+}
+
+const CHANGE_ICONS: Record<StateChangeProposal['change']['type'], React.ReactNode> = {
+  add: <Plus size={14} />,
+  move: <ArrowRight size={14} />,
+  delete: <Trash2 size={14} />,
+};
+
+const describeChange = ({ change }: StateChangeProposal): string => {
+  switch (change.type) {
+    case 'add':
+      return `Add to ${change.to}`;
+    case 'move':
+      return `Move ${change.from ? `${change.from} → ` : 'to '}${change.to}`;
+    case 'delete':
+      return `Remove${change.from ? ` from ${change.from}` : ''}`;
+  }
+};
+
+/**
+ * ApprovalQueuePanel - Agent-proposed item changes waiting for a member
+ * Shows why each change was proposed (agent and intent reasoning, confidence)
+ * and lets members approve or reject them one at a time or in bulk.
+ */
+export const ApprovalQueuePanel: React.FC<ApprovalQueuePanelProps> = ({
+  isDarkMode,
+  proposals,
+  requireApproval,
+  isLoading,
+  canConfigure,
+  canDecide,
+  onToggleApproval,
+  onApprove,
+  onReject,
+  onClose,
+}) => {
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [busyIds, setBusyIds] = useState<string[] | null>(null);
+
+  const textColor = isDarkMode ? 'text-white' : 'text-gray-800';
+  const mutedColor = isDarkMode ? 'text-gray-400' : 'text-gray-600';
+  const cardClass = isDarkMode ? 'bg-white/5 border-white/10' : 'bg-white/70 border-gray-200';
+  const subtleButton = isDarkMode ? 'bg-white/10 hover:bg-white/20 text-white' : 'bg-gray-200 hover:bg-gray-300 text-gray-800';
+
+  // Drop selections that were decided elsewhere
+  const selectedIds = proposals.filter(p => selected.has(p.id)).map(p => p.id);
+  const allSelected = proposals.length > 0 && selectedIds.length === proposals.length;
+
+  const toggle = (id: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const decide = async (action: (ids: string[]) => Promise<void>, ids: string[]) => {
+    setBusyIds(ids);
+    try {
+      await action(ids);
+      setSelected(prev => new Set([...prev].filter(id => !ids.includes(id))));
+    } finally {
+      setBusyIds(null);
+    }
+  };
+
+  return (
+    <div className="h-full flex flex-col p-5">
+      {/* Header */}
+      <div className="flex items-center justify-between mb-3">
+        <h3 className={`text-lg font-semibold flex items-center gap-2 ${textColor}`}>
+          <ShieldCheck size={18} className="text-cyan-primary" />
+          Approvals
+          {proposals.length > 0 && (
+            <span className="px-2 py-0.5 rounded-full text-xs bg-cyan-primary/20 text-cyan-primary">
+              {proposals.length}
+            </span>
+          )}
+        </h3>
+        {onClose && (
+          <button
+            onClick={onClose}
+            className={`p-1.5 rounded-lg hover:bg-white/10 transition-colors ${mutedColor}`}
+            aria-label="Close approvals"
+          >
+            <X size={18} />
+          </button>
+        )}
+      </div>
+
+      <label className={`flex items-center gap-2 text-sm mb-4 ${canConfigure ? 'cursor-pointer' : 'opacity-60'} ${mutedColor}`}>
+        <input
+          type="checkbox"
+          checked={requireApproval}
+          disabled={!canConfigure}
+          onChange={(e) => onToggleApproval(e.target.checked)}
+          className="accent-cyan-500"
+        />
+        <span>Agents need approval to change the board</span>
+      </label>
+
+      {/* Bulk actions */}
+      {canDecide && proposals.length > 0 && (
+        <div className="flex items-center justify-between gap-2 mb-3">
+          <label className={`flex items-center gap-2 text-xs cursor-pointer ${mutedColor}`}>
+            <input
+              type="checkbox"
+              checked={allSelected}
+              onChange={() => setSelected(allSelected ? new Set() : new Set(proposals.map(p => p.id)))}
+              className="accent-cyan-500"
+            />
+            <span>{selectedIds.length > 0 ? `${selectedIds.length} selected` : 'Select all'}</span>
+          </label>
+          <div className="flex gap-2">
+            <button
+              onClick={() => decide(onApprove, selectedIds)}
+              disabled={selectedIds.length === 0 || busyIds !== null}
+              className="px-3 py-1 rounded-lg text-xs font-medium bg-green-500/80 hover:bg-green-500 text-white transition-colors disabled:opacity-50"
+            >
+              Approve
+            </button>
+            <button
+              onClick={() => decide(onReject, selectedIds)}
+              disabled={selectedIds.length === 0 || busyIds !== null}
+              className={`px-3 py-1 rounded-lg text-xs font-medium transition-colors disabled:opacity-50 ${subtleButton}`}
+            >
+              Reject
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Queue */}
+      <div className="flex-1 overflow-y-auto space-y-2">
+        {isLoading && proposals.length === 0 ? (
+          <div className="flex justify-center py-6">
+            <Loader2 size={20} className="animate-spin text-cyan-primary" />
+          </div>
+        ) : proposals.length === 0 ? (
+          <p className={`text-sm text-center py-6 ${mutedColor}`}>
+            {requireApproval ? 'No changes waiting for approval' : 'Agents apply their changes directly'}
+          </p>
+        ) : (
+          proposals.map(proposal => {
+            const isBusy = busyIds?.includes(proposal.id);
+            return (
+              <div key={proposal.id} className={`rounded-xl border p-3 ${cardClass}`}>
+                <div className="flex items-start gap-2">
+                  {canDecide && (
+                    <input
+                      type="checkbox"
+                      checked={selected.has(proposal.id)}
+                      onChange={() => toggle(proposal.id)}
+                      className="mt-1 accent-cyan-500"
+                      aria-label={`Select "${proposal.change.item}"`}
+                    />
+                  )}
+                  <div className="min-w-0 flex-1">
+                    <div className={`text-sm ${textColor}`}>{proposal.change.item}</div>
+                    <div className={`text-xs flex items-center gap-1 mt-0.5 ${mutedColor}`}>
+                      {CHANGE_ICONS[proposal.change.type]}
+                      <span>{describeChange(proposal)}</span>
+                      <span>· {formatDistanceToNow(new Date(proposal.createdAt), { addSuffix: true })}</span>
+                    </div>
+
+                    {/* Why the agents proposed it */}
+                    <div className={`text-xs mt-2 space-y-1 ${mutedColor}`}>
+                      <div className="flex items-start gap-1">
+                        <Bot size={12} className="mt-0.5 flex-shrink-0" />
+                        <span>
+                          <span className={textColor}>{proposal.agent.name.replace(/Agent$/, '')}</span>
+                          {proposal.agent.confidence != null && ` · ${Math.round(proposal.agent.confidence)}% confident`}
+                          {proposal.agent.reasoning && ` — ${proposal.agent.reasoning}`}
+                        </span>
+                      </div>
+                      {proposal.intent && (
+                        <div className="pl-4">
+                          Intent: {proposal.intent.type} ({Math.round(proposal.intent.confidence)}%)
+                          {proposal.intent.reasoning && proposal.intent.reasoning !== proposal.agent.reasoning && ` — ${proposal.intent.reasoning}`}
+                        </div>
+                      )}
+                    </div>
+                  </div>
+                </div>
+
+                {canDecide && (
+                  <div className="flex justify-end gap-2 mt-2">
+                    <button
+                      onClick={() => decide(onApprove, [proposal.id])}
+                      disabled={busyIds !== null}
+                      className="px-3 py-1 rounded-lg text-xs font-medium bg-green-500/80 hover:bg-green-500 text-white transition-colors disabled:opacity-50 flex items-center gap-1"
+                    >
+                      {isBusy ? <Loader2 size={12} className="animate-spin" /> : <Check size={12} />}
+                      <span>Approve</span>
+                    </button>
+                    <button
+                      onClick={() => decide(onReject, [proposal.id])}
+                      disabled={busyIds !== null}
+                      className={`px-3 py-1 rounded-lg text-xs font-medium transition-colors disabled:opacity-50 flex items-center gap-1 ${subtleButton}`}
+                    >
+                      <X size={12} />
+                      <span>Reject</span>
+                    </button>
+                  </div>
+                )}
+              </div>
+            );
+          })
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,302 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { X, Loader2, Bot, User as UserIcon, Undo2, Plus, ArrowRight, Pencil, Trash2 } from 'lucide-react';
+import { format, formatDistanceToNow } from 'date-fns';
+import { useThemeStore } from '../store/themeStore';
+import { useProjectStore } from '../store/projectStore';
+import { useUserStore } from '../store/userStore';
+import { itemHistoryApi, getApiErrorMessage, getApiErrorStatus } from '../services/api';
+import { showToast } from '../utils/toast';
+import type { ItemEvent, ItemEventType, ProjectItem } from '../types';
+
+interface ItemTimelineModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  projectId: string;
+}
+
+// Events loaded into the scrubber (newest first from the API)
+const HISTORY_LIMIT = 200;
+const SCRUB_DEBOUNCE_MS = 250;
+
+const BOARD_COLUMNS: { state: ProjectItem['state']; label: string; color: string }[] = [
+  { state: 'decided', label: 'Decided', color: 'text-green-400' },
+  { state: 'exploring', label: 'Exploring', color: 'text-cyan-400' },
+  { state: 'parked', label: 'Parked', color: 'text-amber-400' },
+];
+
+const EVENT_ICONS: Record<ItemEventType, React.ReactNode> = {
+  created: <Plus size={14} />,
+  moved: <ArrowRight size={14} />,
+  edited: <Pencil size={14} />,
+  deleted: <Trash2 size={14} />,
+};
+
+const describeEvent = (event: ItemEvent): string => {
+  switch (event.type) {
+    case 'created':
+      return `Added to ${event.toState}`;
+    case 'moved':
+      return `Moved ${event.fromState} → ${event.toState}`;
+    case 'edited':
+      return 'Edited';
+    case 'deleted':
+      return `Removed from ${event.fromState}`;
+  }
+};
+
+/**
+ * ItemTimelineModal - Audit history of the decided/exploring/parked board
+ * Scrub to any recorded change to see the board as it stood then, and undo
+ * individual changes (an undone undo is a redo).
+ */
+export const ItemTimelineModal: React.FC<ItemTimelineModalProps> = ({ isOpen, onClose, projectId }) => {
+  const { isDarkMode } = useThemeStore();
+  const { currentProject, updateProject } = useProjectStore();
+  const { user } = useUserStore();
+  const [events, setEvents] = useState<ItemEvent[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  // Position on the scrubber: 0 = before the oldest loaded event, events.length = now
+  const [position, setPosition] = useState(0);
+  const [boardItems, setBoardItems] = useState<ProjectItem[] | null>(null);
+  const [isBoardLoading, setIsBoardLoading] = useState(false);
+  const [undoingId, setUndoingId] = useState<string | null>(null);
+
+  // Oldest first, matching the scrubber
+  const chronological = useMemo(() => [...events].reverse(), [events]);
+  const isNow = position >= chronological.length;
+
+  const loadEvents = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const response = await itemHistoryApi.list(projectId, { limit: HISTORY_LIMIT });
+      setEvents(response.events);
+      setPosition(response.events.length);
+    } catch (error) {
+      showToast(getApiErrorMessage(error, 'Failed to load item history'), 'error');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    if (isOpen) {
+      loadEvents();
+    }
+  }, [isOpen, loadEvents]);
+
+  // Rebuild the board for past positions; "now" is the live project
+  useEffect(() => {
+    if (!isOpen || isNow) {
+      setBoardItems(null);
+      return;
+    }
+
+    const at = position === 0
+      ? new Date(new Date(chronological[0].createdAt).getTime() - 1).toISOString()
+      : chronological[position - 1].createdAt;
+
+    const timer = setTimeout(async () => {
+      setIsBoardLoading(true);
+      try {
+        const response = await itemHistoryApi.getBoard(projectId, at);
+        setBoardItems(response.board.items);
+      } catch (error) {
+        showToast(getApiErrorMessage(error, 'Failed to load the board at that time'), 'error');
+      } finally {
+        setIsBoardLoading(false);
+      }
+    }, SCRUB_DEBOUNCE_MS);
+
+    return () => clearTimeout(timer);
+  }, [isOpen, isNow, position, chronological, projectId]);
+
+  const handleUndo = async (event: ItemEvent) => {
+    setUndoingId(event.id);
+    try {
+      let response;
+      try {
+        response = await itemHistoryApi.undo(projectId, event.id);
+      } catch (error) {
+        // The item changed after this event - let the user decide whether to overwrite
+        if (
+          getApiErrorStatus(error) !== 409 ||
+          event.type === 'deleted' ||
+          !window.confirm(`${getApiErrorMessage(error, 'The item has changed since.')}\n\nUndo anyway?`)
+        ) {
+          throw error;
+        }
+        response = await itemHistoryApi.undo(projectId, event.id, true);
+      }
+
+      updateProject(projectId, { items: response.items });
+      showToast(event.undoOf ? 'Change redone' : 'Change undone', 'success');
+      await loadEvents();
+    } catch (error) {
+      showToast(getApiErrorMessage(error, 'Failed to undo the change'), 'error');
+    } finally {
+      setUndoingId(null);
+    }
+  };
+
+  const items = (isNow ? currentProject?.items : boardItems) || [];
+  const visibleItems = items.filter(item => !item.isArchived);
+
+  const textColor = isDarkMode ? 'text-white' : 'text-gray-800';
+  const mutedColor = isDarkMode ? 'text-gray-400' : 'text-gray-600';
+  const cardClass = isDarkMode ? 'bg-white/5 border-white/10' : 'bg-white/70 border-gray-200';
+
+  const actorLabel = (event: ItemEvent) => {
+    if (event.actorType === 'agent') return event.actorId.replace(/Agent$/, '');
+    return event.actorId === user?.id ? 'You' : 'A member';
+  };
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <>
+          {/* Backdrop */}
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            onClick={onClose}
+            className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50"
+          />
+
+          {/* Modal */}
+          <motion.div
+            initial={{ opacity: 0, scale: 0.95 }}
+            animate={{ opacity: 1, scale: 1 }}
+            exit={{ opacity: 0, scale: 0.95 }}
+            className="fixed inset-0 flex items-center justify-center z-50 p-4"
+          >
+            <div
+              className={`${
+                isDarkMode ? 'glass-dark' : 'glass'
+              } rounded-3xl p-8 max-w-5xl w-full shadow-glass max-h-[85vh] overflow-y-auto`}
+              onClick={(e) => e.stopPropagation()}
+            >
+              {/* Header */}
+              <div className="flex items-center justify-between mb-6">
+                <h2 className={`text-2xl font-bold ${textColor}`}>Board timeline</h2>
+                <button
+                  onClick={onClose}
+                  className={`p-2 rounded-lg hover:bg-white/10 transition-colors ${mutedColor}`}
+                  aria-label="Close board timeline"
+                >
+                  <X size={20} />
+                </button>
+              </div>
+
+              {isLoading ? (
+                <div className="flex justify-center py-6">
+                  <Loader2 size={24} className="animate-spin text-cyan-primary" />
+                </div>
+              ) : (
+                <>
+                  {/* Scrubber */}
+                  <div className="mb-6">
+                    <input
+                      type="range"
+                      min={0}
+                      max={chronological.length}
+                      value={position}
+                      onChange={(e) => setPosition(Number(e.target.value))}
+                      disabled={chronological.length === 0}
+                      className="w-full accent-cyan-500"
+                      aria-label="Point in time"
+                    />
+                    <div className={`flex justify-between text-xs mt-1 ${mutedColor}`}>
+                      <span>
+                        {chronological.length > 0
+                          ? format(new Date(chronological[0].createdAt), 'MMM d, h:mm a')
+                          : 'No recorded changes yet'}
+                      </span>
+                      <span className={`flex items-center gap-1 ${textColor}`}>
+                        {isBoardLoading && <Loader2 size={12} className="animate-spin" />}
+                        {isNow
+                          ? 'Now'
+                          : position === 0
+                          ? 'Before these changes'
+                          : `After change ${position} of ${chronological.length} · ${format(new Date(chronological[position - 1].createdAt), 'MMM d, h:mm:ss a')}`}
+                      </span>
+                    </div>
+                  </div>
+
+                  {/* Board */}
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+                    {BOARD_COLUMNS.map(column => {
+                      const columnItems = visibleItems.filter(item => item.state === column.state);
+                      return (
+                        <div key={column.state} className={`rounded-xl border p-3 ${cardClass}`}>
+                          <h3 className={`text-sm font-semibold uppercase tracking-wide mb-2 ${column.color}`}>
+                            {column.label} ({columnItems.length})
+                          </h3>
+                          <ul className="space-y-1 max-h-56 overflow-y-auto">
+                            {columnItems.map(item => (
+                              <li key={item.id} className={`text-sm ${textColor}`}>{item.text}</li>
+                            ))}
+                          </ul>
+                        </div>
+                      );
+                    })}
+                  </div>
+
+                  {/* Changes */}
+                  <h3 className={`text-sm font-semibold uppercase tracking-wide mb-3 ${mutedColor}`}>Changes</h3>
+                  <ul className="space-y-2">
+                    {events.map((event, index) => {
+                      const item = event.after || event.before;
+                      const eventPosition = events.length - index;
+                      return (
+                        <li
+                          key={event.id}
+                          className={`rounded-xl border p-3 flex items-start justify-between gap-3 ${cardClass} ${
+                            eventPosition === position ? 'ring-2 ring-cyan-primary/50' : ''
+                          }`}
+                        >
+                          <button
+                            onClick={() => setPosition(eventPosition)}
+                            className="flex items-start gap-2 min-w-0 text-left"
+                            title="Show the board right after this change"
+                          >
+                            <span className={`mt-0.5 ${mutedColor}`}>{EVENT_ICONS[event.type]}</span>
+                            <div className="min-w-0">
+                              <div className={`text-sm truncate ${textColor}`}>{item?.text}</div>
+                              <div className={`text-xs flex items-center gap-1 ${mutedColor}`}>
+                                {event.actorType === 'agent' ? <Bot size={12} /> : <UserIcon size={12} />}
+                                <span>{actorLabel(event)}</span>
+                                <span>· {describeEvent(event)}</span>
+                                {event.undoOf && <span>· undo</span>}
+                                <span>· {formatDistanceToNow(new Date(event.createdAt), { addSuffix: true })}</span>
+                              </div>
+                            </div>
+                          </button>
+                          {event.undoneBy ? (
+                            <span className={`text-xs whitespace-nowrap ${mutedColor}`}>Undone</span>
+                          ) : (
+                            <button
+                              onClick={() => handleUndo(event)}
+                              disabled={undoingId !== null}
+                              className={`px-3 py-1 rounded-lg text-xs font-medium transition-colors disabled:opacity-50 flex items-center gap-1 whitespace-nowrap ${
+                                isDarkMode ? 'bg-white/10 hover:bg-white/20 text-white' : 'bg-gray-200 hover:bg-gray-300 text-gray-800'
+                              }`}
+                            >
+                              {undoingId === event.id ? <Loader2 size={12} className="animate-spin" /> : <Undo2 size={12} />}
+                              <span>{event.undoOf ? 'Redo' : 'Undo'}</span>
+                            </button>
+                          )}
+                        </li>
+                      );
+                    })}
+                  </ul>
+                </>
+              )}
+            </div>
+          </motion.div>
+        </>
+      )}
+    </AnimatePresence>
+  );
+};
@@ -4,7 +4,7 @@ import { motion, AnimatePresence } from 'framer-motion';
 import { useThemeStore } from '../store/themeStore';
 import { useUserStore } from '../store/userStore';
 import { useProjectStore } from '../store/projectStore';
-import { Upload, File, Image, Video, X, CheckCircle, Loader2 } from 'lucide-react';
+import { Upload, File, Image, Video, Mic, X, CheckCircle, Loader2 } from 'lucide-react';
 import { referencesApi } from '../services/api';
 
 export const ReferenceUpload: React.FC = () => {
@@ -60,6 +60,7 @@ export const ReferenceUpload: React.FC = () => {
     accept: {
       'image/*': ['.jpg', '.jpeg', '.png', '.gif', '.webp'],
       'video/*': ['.mp4', '.mov', '.avi', '.webm'],
+      'audio/*': ['.mp3', '.m4a', '.wav', '.ogg', '.weba'],
       'application/pdf': ['.pdf'],
     },
     maxSize: 50 * 1024 * 1024, // 50MB
@@ -68,6 +69,7 @@ export const ReferenceUpload: React.FC = () => {
   const getFileIcon = (type: string) => {
     if (type.startsWith('image/')) return <Image size={20} />;
     if (type.startsWith('video/')) return <Video size={20} />;
+    if (type.startsWith('audio/')) return <Mic size={20} />;
     return <File size={20} />;
   };
 
@@ -108,7 +110,7 @@ export const ReferenceUpload: React.FC = () => {
                 or click to browse
               </p>
               <p className={`text-xs mt-4 ${isDarkMode ? 'text-gray-500' : 'text-gray-500'}`}>
-                Supported: Images, Videos, PDFs (max 50MB)
+                Supported: Images, Videos, Audio, PDFs (max 50MB)
               </p>
             </>
           )}
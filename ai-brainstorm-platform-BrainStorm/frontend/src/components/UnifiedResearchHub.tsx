@@ -5,11 +5,20 @@ import { useUserStore } from '../store/userStore';
 import { generatedDocumentsApi } from '../services/api';
 import ResearchChatPanel from './research/ResearchChatPanel';
 import WorkAreaPanel from './research/WorkAreaPanel';
-import type { Reference } from '../types';
+import type { Reference, GeneratedDocument, ArchivedSourceLink } from '../types';
 
 // Work area view modes
 export type WorkAreaView = 'empty' | 'research' | 'preview' | 'analysis' | 'document' | 'raw';
 
+// Where a web source ranks under the project's source trust policy
+export interface SourceTrust {
+  score: number;
+  sourceType: 'peer_reviewed' | 'academic' | 'government' | 'news' | 'documentation' | 'code' | 'blog' | 'other';
+  allowListed: boolean;
+  policyViolation: boolean;
+  downrankReasons: string[];
+}
+
 // Research results structure
 export interface ResearchResults {
   query: string;
@@ -21,6 +30,15 @@ export interface ResearchResults {
     content?: string;
     analysis?: string;
     source: 'web';
+    trust?: SourceTrust;
+    // Copy of the page as fetched for this research
+    archive?: ArchivedSourceLink;
+  }>;
+  // Web results the project's trust policy dropped
+  excludedSources?: Array<{
+    url: string;
+    title: string;
+    reason: string;
   }>;
   documentSources?: Array<{
     id: string;
@@ -72,6 +90,7 @@ const UnifiedResearchHub: React.FC = () => {
   const [researchResults, setResearchResults] = useState<ResearchResults | null>(null);
   const [documentPreview, setDocumentPreview] = useState<DocumentPreview | null>(null);
   const [selectedReference, setSelectedReference] = useState<Reference | null>(null);
+  const [selectedDocument, setSelectedDocument] = useState<GeneratedDocument | null>(null);
 
   // Chat state
   const [isProcessing, setIsProcessing] = useState(false);
@@ -92,12 +111,14 @@ const UnifiedResearchHub: React.FC = () => {
   // Handle file upload/analysis from chat
   const handleFileAnalyzed = (reference: Reference) => {
     setSelectedReference(reference);
+    setSelectedDocument(null);
     setActiveView('analysis');
   };
 
   // Handle reference selection from library
   const handleReferenceSelected = (reference: Reference) => {
     setSelectedReference(reference);
+    setSelectedDocument(null);
     setActiveView('analysis');
   };
 
@@ -126,9 +147,10 @@ const UnifiedResearchHub: React.FC = () => {
 
       console.log('Document saved successfully:', result.document);
 
-      // Reset preview after successful save
+      // Show the saved document, where its claims get checked
       setDocumentPreview(null);
-      setActiveView('empty');
+      setSelectedDocument(result.document);
+      setActiveView('document');
     } catch (error) {
       console.error('Save document error:', error);
       // Keep preview open so user can try again
@@ -186,6 +208,7 @@ const UnifiedResearchHub: React.FC = () => {
           researchResults={researchResults}
           documentPreview={documentPreview}
           selectedReference={selectedReference}
+          selectedDocument={selectedDocument}
           onAcceptDocument={handleAcceptDocument}
           onRejectDocument={handleRejectDocument}
           onRegenerateDocument={handleRegenerateDocument}
@@ -1,8 +1,8 @@
 import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { useThemeStore } from '../store/themeStore';
-import { universalSearch, formatSearchDate, type SearchResult } from '../services/searchService';
-import { Search, FileText, MessageSquare, Image, Clock, X, FolderOpen } from 'lucide-react';
+import { universalSearch, formatSearchDate, describePassage, type SearchResult } from '../services/searchService';
+import { Search, FileText, FileCode, MessageSquare, Image, Clock, X, FolderOpen, BookOpen } from 'lucide-react';
 
 interface UniversalSearchProps {
   onNavigate?: (result: SearchResult) => void;
@@ -160,6 +160,8 @@ export const UniversalSearch: React.FC<UniversalSearchProps> = ({ onNavigate, pr
         return <MessageSquare size={18} className="text-blue-400" />;
       case 'document':
         return <FileText size={18} className="text-purple-400" />;
+      case 'generated_document':
+        return <FileCode size={18} className="text-pink-400" />;
       case 'reference':
         return <Image size={18} className="text-orange-400" />;
       default:
@@ -262,7 +264,7 @@ export const UniversalSearch: React.FC<UniversalSearchProps> = ({ onNavigate, pr
                                     : 'bg-gray-200 text-gray-600'
                                 }`}
                               >
-                                {result.type}
+                                {result.type === 'generated_document' ? 'generated doc' : result.type}
                               </span>
                             </div>
                             <p
@@ -281,9 +283,24 @@ export const UniversalSearch: React.FC<UniversalSearchProps> = ({ onNavigate, pr
                                 <Clock size={12} />
                                 <span>{result.date}</span>
                               </span>
+                              {describePassage(result.passage) && (
+                                <span
+                                  className={`flex items-center space-x-1 ${
+                                    isDarkMode ? 'text-gray-400' : 'text-gray-600'
+                                  }`}
+                                >
+                                  <BookOpen size={12} />
+                                  <span>{describePassage(result.passage)}</span>
+                                </span>
+                              )}
                               <span className="text-cyan-400">
                                 {result.relevance}% match
                               </span>
+                              {result.matchedBy && (
+                                <span className={isDarkMode ? 'text-gray-500' : 'text-gray-500'}>
+                                  {result.matchedBy === 'both' ? 'keyword + semantic' : result.matchedBy}
+                                </span>
+                              )}
                             </div>
                           </div>
                         </div>
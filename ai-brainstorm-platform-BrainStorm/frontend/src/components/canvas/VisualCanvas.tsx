@@ -7,6 +7,7 @@ import { ClusterContainer } from './ClusterContainer';
 import { CanvasErrorBoundary } from './CanvasErrorBoundary';
 import { useProjectStore } from '../../store/projectStore';
 import { calculateAutoPosition } from '../../hooks/useCanvasSync';
+import { canvasApi } from '../../services/api';
 
 interface VisualCanvasProps {
   items: ProjectItem[];
@@ -51,6 +52,14 @@ export const VisualCanvas: React.FC<VisualCanvasProps> = ({
     requestAnimationFrame(() => {
       updateItemPosition(itemId, position);
     });
+
+    // Persist just this card so collaborators' moves aren't overwritten
+    const canEdit = !currentProject?.role || currentProject.role === 'owner' || currentProject.role === 'editor';
+    if (currentProject && canEdit) {
+      canvasApi
+        .updatePositions(currentProject.id, [{ itemId, ...position }])
+        .catch(error => console.error('Failed to save card position:', error));
+    }
   };
 
   const handleStateChange = (itemId: string, newState: ProjectItem['state']) => {
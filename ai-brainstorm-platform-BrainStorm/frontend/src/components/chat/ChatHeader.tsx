@@ -4,19 +4,23 @@ interface ChatHeaderProps {
   title: string;
   description?: string;
   isDarkMode: boolean;
+  actions?: React.ReactNode;
 }
 
-export const ChatHeader: React.FC<ChatHeaderProps> = ({ title, description, isDarkMode }) => {
+export const ChatHeader: React.FC<ChatHeaderProps> = ({ title, description, isDarkMode, actions }) => {
   return (
-    <div className="p-6 border-b border-cyan-primary/20">
-      <h2 className={`text-2xl font-bold ${isDarkMode ? 'text-white' : 'text-gray-800'}`}>
-        {title}
-      </h2>
-      {description && (
-        <p className={`text-sm mt-1 ${isDarkMode ? 'text-gray-400' : 'text-gray-600'}`}>
-          {description}
-        </p>
-      )}
+    <div className="p-6 border-b border-cyan-primary/20 flex items-start justify-between gap-4">
+      <div>
+        <h2 className={`text-2xl font-bold ${isDarkMode ? 'text-white' : 'text-gray-800'}`}>
+          {title}
+        </h2>
+        {description && (
+          <p className={`text-sm mt-1 ${isDarkMode ? 'text-gray-400' : 'text-gray-600'}`}>
+            {description}
+          </p>
+        )}
+      </div>
+      {actions}
     </div>
   );
 };
@@ -1,5 +1,5 @@
 import React, { useRef, useEffect } from 'react';
-import { Upload, Send, Loader2 } from 'lucide-react';
+import { Upload, Send, Square } from 'lucide-react';
 
 interface ChatInputProps {
   value: string;
@@ -7,10 +7,13 @@ interface ChatInputProps {
   onSend: () => void;
   onUpload: () => void;
   onKeyDown: (e: React.KeyboardEvent) => void;
+  // Stops the reply being generated; shown in place of send while sending
+  onCancel?: () => void;
   disabled: boolean;
   isSending: boolean;
   isSessionActive: boolean;
   isDarkMode: boolean;
+  readOnly?: boolean;
 }
 
 export const ChatInput: React.FC<ChatInputProps> = ({
@@ -19,10 +22,12 @@ export const ChatInput: React.FC<ChatInputProps> = ({
   onSend,
   onUpload,
   onKeyDown,
+  onCancel,
   disabled,
   isSending,
   isSessionActive,
   isDarkMode,
+  readOnly = false,
 }) => {
   const textareaRef = useRef<HTMLTextAreaElement>(null);
 
@@ -43,9 +48,10 @@ export const ChatInput: React.FC<ChatInputProps> = ({
       <div className="flex items-end space-x-3">
         <button
           onClick={onUpload}
+          disabled={readOnly}
           className={`p-3 rounded-xl ${
             isDarkMode ? 'glass-dark-subtle hover:bg-white/20' : 'glass-subtle hover:bg-gray-300'
-          } transition-all hover-lift`}
+          } transition-all hover-lift ${readOnly ? 'opacity-50 cursor-not-allowed' : ''}`}
           title="Upload reference files"
           aria-label="Upload reference files"
         >
@@ -58,9 +64,13 @@ export const ChatInput: React.FC<ChatInputProps> = ({
             value={value}
             onChange={(e) => onChange(e.target.value)}
             onKeyDown={onKeyDown}
-            placeholder={isSessionActive ? "Share your ideas..." : "Start a session to begin chatting..."}
+            placeholder={
+              readOnly
+                ? "You have view-only access to this project"
+                : isSessionActive ? "Share your ideas..." : "Start a session to begin chatting..."
+            }
             rows={1}
-            disabled={disabled || !isSessionActive}
+            disabled={disabled || readOnly || !isSessionActive}
             className={`w-full px-4 py-3 rounded-xl resize-none ${
               isDarkMode
                 ? 'bg-white/10 text-white placeholder-gray-400'
@@ -68,13 +78,13 @@ export const ChatInput: React.FC<ChatInputProps> = ({
             } border ${
               isDarkMode ? 'border-white/20' : 'border-gray-300'
             } focus:outline-none focus:ring-2 focus:ring-cyan-primary/50 ${
-              !isSessionActive ? 'opacity-50 cursor-not-allowed' : ''
+              !isSessionActive || readOnly ? 'opacity-50 cursor-not-allowed' : ''
             }`}
             style={{ maxHeight: '120px', overflow: 'auto' }}
             aria-label="Message input"
           />
           {/* Enter key hint */}
-          {isSessionActive && (
+          {isSessionActive && !readOnly && (
             <div className={`absolute bottom-1 right-2 text-xs ${
               isDarkMode ? 'text-gray-500' : 'text-gray-400'
             } pointer-events-none`}>
@@ -83,22 +93,32 @@ export const ChatInput: React.FC<ChatInputProps> = ({
           )}
         </div>
 
-        <button
-          onClick={onSend}
-          disabled={!value.trim() || isSending || !isSessionActive}
-          className={`p-3 rounded-xl ${
-            !value.trim() || isSending || !isSessionActive
-              ? 'bg-gray-400 cursor-not-allowed'
-              : 'bg-cyan-primary hover:bg-cyan-primary-dark'
-          } text-white transition-all`}
-          aria-label="Send message"
-        >
-          {isSending ? (
-            <Loader2 size={20} className="animate-spin" />
-          ) : (
+        {isSending ? (
+          <button
+            onClick={onCancel}
+            disabled={!onCancel}
+            className={`p-3 rounded-xl ${
+              onCancel ? 'bg-red-500 hover:bg-red-600' : 'bg-gray-400 cursor-not-allowed'
+            } text-white transition-all`}
+            title="Stop generating"
+            aria-label="Stop generating"
+          >
+            <Square size={20} />
+          </button>
+        ) : (
+          <button
+            onClick={onSend}
+            disabled={!value.trim() || !isSessionActive}
+            className={`p-3 rounded-xl ${
+              !value.trim() || !isSessionActive
+                ? 'bg-gray-400 cursor-not-allowed'
+                : 'bg-cyan-primary hover:bg-cyan-primary-dark'
+            } text-white transition-all`}
+            aria-label="Send message"
+          >
             <Send size={20} />
-          )}
-        </button>
+          </button>
+        )}
       </div>
     </div>
   );
@@ -8,6 +8,8 @@ import type { Message } from '../../types';
 interface ChatMessagesProps {
   messages: Message[];
   isTyping: boolean;
+  // Partial text of the reply being streamed
+  streamingReply?: string | null;
   isDarkMode: boolean;
   onLoadMore?: () => void;
   hasMore?: boolean;
@@ -17,6 +19,7 @@ interface ChatMessagesProps {
 export const ChatMessages: React.FC<ChatMessagesProps> = ({ 
   messages, 
   isTyping, 
+  streamingReply = null,
   isDarkMode,
   onLoadMore,
   hasMore = false,
@@ -53,7 +56,7 @@ export const ChatMessages: React.FC<ChatMessagesProps> = ({
     }
 
     prevMessageCountRef.current = messages.length;
-  }, [messages.length, isTyping]);
+  }, [messages.length, isTyping, streamingReply]);
 
   // Infinite scroll observer
   useEffect(() => {
@@ -132,8 +135,24 @@ export const ChatMessages: React.FC<ChatMessagesProps> = ({
         </div>
       </AnimatePresence>
 
-      {/* Typing Indicator */}
-      {isTyping && <TypingIndicator isDarkMode={isDarkMode} />}
+      {/* Streaming reply, or the typing indicator until its first token arrives */}
+      {streamingReply ? (
+        <div className="mt-4">
+          <MessageBubble
+            message={{
+              id: 'streaming-reply',
+              project_id: '',
+              role: 'assistant',
+              content: streamingReply,
+              created_at: new Date().toISOString(),
+            }}
+            isDarkMode={isDarkMode}
+            animate={false}
+          />
+        </div>
+      ) : (
+        isTyping && <TypingIndicator isDarkMode={isDarkMode} />
+      )}
 
       <div ref={messagesEndRef} />
     </div>
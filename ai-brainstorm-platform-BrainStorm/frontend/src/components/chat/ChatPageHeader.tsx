@@ -1,8 +1,10 @@
 import React from 'react';
-import { History } from 'lucide-react';
+import { History, GitCommitHorizontal, ShieldCheck } from 'lucide-react';
 
 interface ChatPageHeaderProps {
   onHistoryClick: () => void;
+  onTimelineClick?: () => void;
+  onApprovalsClick?: () => void;
   onSessionStart: () => void;
   onSessionEnd: () => void;
   isDarkMode: boolean;
@@ -10,22 +12,46 @@ interface ChatPageHeaderProps {
 
 export const ChatPageHeader: React.FC<ChatPageHeaderProps> = ({
   onHistoryClick,
+  onTimelineClick,
+  onApprovalsClick,
   isDarkMode,
 }) => {
+  const buttonClass = `px-4 py-2 rounded-xl font-medium transition-all flex items-center space-x-2 ${
+    isDarkMode
+      ? 'glass-dark-subtle hover:bg-white/20 text-white'
+      : 'glass-subtle hover:bg-gray-300 text-gray-800'
+  }`;
+
   return (
-    <div className="mb-6 flex justify-start items-center">
+    <div className="mb-6 flex justify-start items-center gap-3">
       <button
         onClick={onHistoryClick}
-        className={`px-4 py-2 rounded-xl font-medium transition-all flex items-center space-x-2 ${
-          isDarkMode
-            ? 'glass-dark-subtle hover:bg-white/20 text-white'
-            : 'glass-subtle hover:bg-gray-300 text-gray-800'
-        }`}
+        className={buttonClass}
         aria-label="View session history"
       >
         <History size={18} />
         <span>Session History</span>
       </button>
+      {onTimelineClick && (
+        <button
+          onClick={onTimelineClick}
+          className={buttonClass}
+          aria-label="View board timeline"
+        >
+          <GitCommitHorizontal size={18} />
+          <span>Board Timeline</span>
+        </button>
+      )}
+      {onApprovalsClick && (
+        <button
+          onClick={onApprovalsClick}
+          className={buttonClass}
+          aria-label="Open the approval queue"
+        >
+          <ShieldCheck size={18} />
+          <span>Approvals</span>
+        </button>
+      )}
     </div>
   );
 };
@@ -0,0 +1,101 @@
+import React from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { X, BookOpen, FileCode, MessageSquare } from 'lucide-react';
+import ReferenceLibraryDrawer from '../research/ReferenceLibraryDrawer';
+import { describePassage } from '../../services/searchService';
+import type { MessageCitation } from '../../types';
+
+const SOURCE_STYLES: Record<MessageCitation['sourceType'], { label: string; icon: React.ReactNode }> = {
+  reference: { label: 'Reference', icon: <BookOpen size={16} /> },
+  generated_document: { label: 'Project document', icon: <FileCode size={16} /> },
+  message: { label: 'Earlier message', icon: <MessageSquare size={16} /> },
+};
+
+interface CitationPanelProps {
+  citation: MessageCitation | null;
+  onClose: () => void;
+  isDarkMode: boolean;
+}
+
+/**
+ * CitationPanel - Source behind a [n] footnote in an agent reply
+ * Shows the cited passage and where it sits, above the reference library
+ * with the cited reference highlighted.
+ */
+export const CitationPanel: React.FC<CitationPanelProps> = ({ citation, onClose, isDarkMode }) => {
+  const textColor = isDarkMode ? 'text-white' : 'text-gray-800';
+  const mutedColor = isDarkMode ? 'text-gray-400' : 'text-gray-600';
+  const cardClass = isDarkMode ? 'bg-white/5 border-white/10' : 'bg-white/70 border-gray-200';
+
+  return (
+    <AnimatePresence>
+      {citation && (
+        <>
+          {/* Backdrop */}
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            onClick={onClose}
+            className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50"
+          />
+
+          {/* Panel */}
+          <motion.div
+            initial={{ opacity: 0, scale: 0.95 }}
+            animate={{ opacity: 1, scale: 1 }}
+            exit={{ opacity: 0, scale: 0.95 }}
+            className="fixed inset-0 flex items-center justify-center z-50 p-4"
+            onClick={onClose}
+          >
+            <div
+              className={`${
+                isDarkMode ? 'glass-dark' : 'glass'
+              } rounded-3xl p-8 max-w-2xl w-full shadow-glass max-h-[80vh] overflow-y-auto`}
+              onClick={(e) => e.stopPropagation()}
+            >
+              {/* Header */}
+              <div className="flex items-center justify-between mb-6">
+                <h2 className={`text-2xl font-bold ${textColor}`}>Source [{citation.marker}]</h2>
+                <button
+                  onClick={onClose}
+                  className={`p-2 rounded-lg hover:bg-white/10 transition-colors ${mutedColor}`}
+                  aria-label="Close source"
+                >
+                  <X size={20} />
+                </button>
+              </div>
+
+              {/* Cited passage */}
+              <div className={`rounded-xl border p-4 mb-6 text-sm ${cardClass}`}>
+                <div className={`flex items-center gap-2 mb-2 ${textColor}`}>
+                  {SOURCE_STYLES[citation.sourceType].icon}
+                  <span className="font-medium truncate">{citation.title}</span>
+                </div>
+                <div className={`flex flex-wrap gap-x-4 gap-y-1 text-xs mb-3 ${mutedColor}`}>
+                  <span>{SOURCE_STYLES[citation.sourceType].label}</span>
+                  {describePassage(citation) && <span>{describePassage(citation)}</span>}
+                  {citation.charStart !== null && citation.charEnd !== null && (
+                    <span>chars {citation.charStart.toLocaleString()}–{citation.charEnd.toLocaleString()}</span>
+                  )}
+                </div>
+                <blockquote className={`border-l-2 border-cyan-primary pl-3 italic whitespace-pre-wrap ${textColor}`}>
+                  {citation.quote}
+                </blockquote>
+              </div>
+
+              {/* Library, with the cited reference marked */}
+              <h3 className={`text-sm font-semibold uppercase tracking-wide mb-2 ${mutedColor}`}>Reference library</h3>
+              <div className="rounded-xl overflow-hidden">
+                <ReferenceLibraryDrawer
+                  highlightedReferenceId={citation.sourceType === 'reference' ? citation.sourceId : undefined}
+                  onReferenceSelected={(reference) => window.open(reference.url, '_blank', 'noopener,noreferrer')}
+                />
+              </div>
+            </div>
+          </motion.div>
+        </>
+      )}
+    </AnimatePresence>
+  );
+};
@@ -1,9 +1,12 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { motion } from 'framer-motion';
-import { Bot, User as UserIcon } from 'lucide-react';
+import { Activity, Bot, User as UserIcon } from 'lucide-react';
 import { format, isToday, isYesterday } from 'date-fns';
-import ReactMarkdown from 'react-markdown';
-import type { Message } from '../../types';
+import ReactMarkdown, { type Components } from 'react-markdown';
+import type { Message, MessageCitation } from '../../types';
+import { WorkflowTimelinePanel } from './WorkflowTimelinePanel';
+import { CitationPanel } from './CitationPanel';
+import { describePassage } from '../../services/searchService';
 
 interface MessageBubbleProps {
   message: Message;
@@ -23,8 +26,43 @@ const formatTimestamp = (timestamp: string): string => {
   }
 };
 
+const CITATION_HREF = '#cite-';
+
+// Turn cited [n] markers into links the markdown renderer shows as footnotes
+const linkCitations = (content: string, citations: MessageCitation[]): string => {
+  const markers = new Set(citations.map(citation => citation.marker));
+  return content.replace(/\[(\d+)\](?!\()/g, (match, n: string) =>
+    markers.has(Number(n)) ? `[${n}](${CITATION_HREF}${n})` : match
+  );
+};
+
 export const MessageBubble: React.FC<MessageBubbleProps> = ({ message, isDarkMode, animate = true }) => {
   const isUser = message.role === 'user';
+  const [showTimeline, setShowTimeline] = useState(false);
+  const [openCitation, setOpenCitation] = useState<MessageCitation | null>(null);
+
+  const citations = !isUser ? message.metadata?.citations ?? [] : [];
+  const openMarker = (marker: number) =>
+    setOpenCitation(citations.find(citation => citation.marker === marker) ?? null);
+
+  const markdownComponents: Components = {
+    a: ({ href, title, children }) =>
+      href?.startsWith(CITATION_HREF) ? (
+        <button
+          onClick={() => openMarker(Number(href.slice(CITATION_HREF.length)))}
+          className="align-super text-[0.7em] font-semibold text-cyan-primary hover:underline mx-0.5"
+          aria-label={`Show source ${children}`}
+        >
+          [{children}]
+        </button>
+      ) : (
+        <a href={href} title={title}>{children}</a>
+      ),
+  };
+
+  // User messages start a workflow run; agent messages carry the run that produced them
+  const traceId = !isUser ? message.metadata?.traceId : undefined;
+  const hasTimeline = isUser || !!traceId;
 
   // Message content (shared between animated and non-animated versions)
   const content = (
@@ -70,17 +108,65 @@ export const MessageBubble: React.FC<MessageBubbleProps> = ({ message, isDarkMod
               <p className="whitespace-pre-wrap">{message.content}</p>
             ) : (
               <div className="prose prose-sm max-w-none dark:prose-invert prose-headings:mt-2 prose-headings:mb-1 prose-p:my-1 prose-ul:my-1 prose-ol:my-1 prose-li:my-0">
-                <ReactMarkdown>{message.content}</ReactMarkdown>
+                <ReactMarkdown components={citations.length > 0 ? markdownComponents : undefined}>
+                  {citations.length > 0 ? linkCitations(message.content, citations) : message.content}
+                </ReactMarkdown>
               </div>
             )}
+
+            {/* Footnotes */}
+            {citations.length > 0 && (
+              <ol className={`mt-2 pt-2 border-t text-xs space-y-0.5 ${isDarkMode ? 'border-white/10 text-gray-400' : 'border-gray-200 text-gray-500'}`}>
+                {citations.map(citation => (
+                  <li key={citation.marker}>
+                    <button
+                      onClick={() => setOpenCitation(citation)}
+                      className="text-left hover:text-cyan-primary transition-colors"
+                    >
+                      [{citation.marker}] {citation.title}
+                      {describePassage(citation) && ` · ${describePassage(citation)}`}
+                    </button>
+                  </li>
+                ))}
+              </ol>
+            )}
           </div>
 
           {/* Timestamp */}
-          <div className={`text-xs mt-1 ${isDarkMode ? 'text-gray-500' : 'text-gray-400'}`}>
-            {formatTimestamp(message.created_at)}
+          <div className={`flex items-center gap-2 text-xs mt-1 ${isUser ? 'justify-end' : ''} ${isDarkMode ? 'text-gray-500' : 'text-gray-400'}`}>
+            <span>{formatTimestamp(message.created_at)}</span>
+            {hasTimeline && (
+              <button
+                onClick={() => setShowTimeline(true)}
+                className="hover:text-cyan-primary transition-colors"
+                title="Show agent workflow timeline"
+                aria-label="Show agent workflow timeline"
+              >
+                <Activity size={12} />
+              </button>
+            )}
           </div>
         </div>
       </div>
+
+      {hasTimeline && (
+        <WorkflowTimelinePanel
+          isOpen={showTimeline}
+          onClose={() => setShowTimeline(false)}
+          projectId={message.project_id}
+          messageId={traceId ? undefined : message.id}
+          traceId={traceId}
+          isDarkMode={isDarkMode}
+        />
+      )}
+
+      {citations.length > 0 && (
+        <CitationPanel
+          citation={openCitation}
+          onClose={() => setOpenCitation(null)}
+          isDarkMode={isDarkMode}
+        />
+      )}
     </div>
   );
 
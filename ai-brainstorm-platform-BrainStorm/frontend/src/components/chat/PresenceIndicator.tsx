@@ -0,0 +1,71 @@
+import React from 'react';
+import { useRealtimeStore } from '../../store/realtimeStore';
+import { useUserStore } from '../../store/userStore';
+import type { PresenceView } from '../../types';
+
+const VIEW_LABELS: Record<PresenceView, string> = {
+  chat: 'the Chat',
+  canvas: 'the Canvas',
+  documents: 'Documents',
+  intelligence: 'the Intelligence Hub',
+  research: 'Research',
+  sandbox: 'the Sandbox',
+  other: 'the project',
+};
+
+const AVATAR_COLORS = ['bg-purple-500', 'bg-pink-500', 'bg-amber-500', 'bg-emerald-500', 'bg-blue-500'];
+
+interface PresenceIndicatorProps {
+  isDarkMode: boolean;
+}
+
+const displayName = (email: string | undefined, userId: string) =>
+  email ? email.split('@')[0] : userId.slice(0, 8);
+
+/**
+ * PresenceIndicator - Avatars of the other people who have this project open
+ */
+export const PresenceIndicator: React.FC<PresenceIndicatorProps> = ({ isDarkMode }) => {
+  const { user } = useUserStore();
+  const presence = useRealtimeStore((state) => state.presence);
+
+  const others = presence.filter(entry => entry.userId !== user?.id);
+  if (others.length === 0) {
+    return null;
+  }
+
+  const summary = others
+    .map(entry => `${displayName(entry.email, entry.userId)} is viewing ${VIEW_LABELS[entry.view]}`)
+    .join('\n');
+
+  const caption = others.length === 1
+    ? `${displayName(others[0].email, others[0].userId)} is viewing ${VIEW_LABELS[others[0].view]}`
+    : `${others.length} others here`;
+
+  return (
+    <div className="flex items-center gap-3" title={summary} aria-label={summary}>
+      <span className={`text-xs hidden md:inline ${isDarkMode ? 'text-gray-400' : 'text-gray-600'}`}>
+        {caption}
+      </span>
+      <div className="flex items-center -space-x-2">
+        {others.slice(0, 4).map((entry, index) => (
+          <span
+            key={entry.userId}
+            className={`w-8 h-8 rounded-full flex items-center justify-center text-xs font-semibold text-white uppercase ring-2 ${
+              isDarkMode ? 'ring-gray-900' : 'ring-white'
+            } ${AVATAR_COLORS[index % AVATAR_COLORS.length]}`}
+          >
+            {displayName(entry.email, entry.userId).slice(0, 2)}
+          </span>
+        ))}
+        {others.length > 4 && (
+          <span className={`w-8 h-8 rounded-full flex items-center justify-center text-xs font-semibold ring-2 ${
+            isDarkMode ? 'bg-white/20 text-white ring-gray-900' : 'bg-gray-200 text-gray-700 ring-white'
+          }`}>
+            +{others.length - 4}
+          </span>
+        )}
+      </div>
+    </div>
+  );
+};
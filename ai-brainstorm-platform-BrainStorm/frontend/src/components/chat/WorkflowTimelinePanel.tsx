@@ -0,0 +1,231 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { X, Loader2, CheckCircle2, XCircle, MinusCircle, Zap, Circle } from 'lucide-react';
+import { tracesApi, getApiErrorMessage } from '../../services/api';
+import type { WorkflowTrace, WorkflowTraceStep, WorkflowTraceStepStatus } from '../../types';
+
+// How often a running workflow is refreshed
+const RUNNING_POLL_MS = 3000;
+
+const STATUS_STYLES: Record<WorkflowTraceStepStatus, { label: string; className: string; icon: React.ReactNode }> = {
+  completed: { label: 'Completed', className: 'text-green-400', icon: <CheckCircle2 size={16} /> },
+  no_result: { label: 'No result', className: 'text-gray-400', icon: <Circle size={16} /> },
+  cached: { label: 'Cache hit', className: 'text-cyan-400', icon: <Zap size={16} /> },
+  failed: { label: 'Failed', className: 'text-red-400', icon: <XCircle size={16} /> },
+  skipped: { label: 'Skipped', className: 'text-amber-400', icon: <MinusCircle size={16} /> },
+};
+
+const formatDuration = (ms: number | null): string => {
+  if (ms === null) return '—';
+  return ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(1)} s`;
+};
+
+const formatCost = (usd: number): string => `$${usd.toFixed(4)}`;
+
+interface WorkflowTimelinePanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  projectId: string;
+  // A user message opens the run it started; an agent message opens the run that produced it
+  messageId?: string;
+  traceId?: string;
+  isDarkMode: boolean;
+}
+
+/**
+ * WorkflowTimelinePanel - Timeline of the agent workflow behind a chat message
+ * Shows the classified intent, then every step with its inputs, duration, models,
+ * tokens, cache hits and output, including steps that were skipped and why.
+ */
+export const WorkflowTimelinePanel: React.FC<WorkflowTimelinePanelProps> = ({
+  isOpen,
+  onClose,
+  projectId,
+  messageId,
+  traceId,
+  isDarkMode,
+}) => {
+  const [trace, setTrace] = useState<WorkflowTrace | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [expandedStep, setExpandedStep] = useState<number | null>(null);
+
+  const loadTrace = useCallback(async () => {
+    try {
+      const response = traceId
+        ? await tracesApi.get(projectId, traceId)
+        : await tracesApi.getForMessage(projectId, messageId as string);
+      setTrace(response.trace);
+      setError(null);
+    } catch (loadError) {
+      setError(getApiErrorMessage(loadError, 'Failed to load the workflow timeline'));
+    }
+  }, [projectId, messageId, traceId]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setIsLoading(true);
+    loadTrace().finally(() => setIsLoading(false));
+  }, [isOpen, loadTrace]);
+
+  // Keep following the run while agents are still working
+  useEffect(() => {
+    if (!isOpen || trace?.status !== 'running') return;
+    const timer = setTimeout(loadTrace, RUNNING_POLL_MS);
+    return () => clearTimeout(timer);
+  }, [isOpen, trace, loadTrace]);
+
+  const textColor = isDarkMode ? 'text-white' : 'text-gray-800';
+  const mutedColor = isDarkMode ? 'text-gray-400' : 'text-gray-600';
+  const cardClass = isDarkMode ? 'bg-white/5 border-white/10' : 'bg-white/70 border-gray-200';
+
+  const renderStep = (step: WorkflowTraceStep, index: number) => {
+    const style = STATUS_STYLES[step.status];
+    const tokens = step.modelCalls.reduce((sum, call) => sum + call.inputTokens + call.outputTokens, 0);
+    const models = Array.from(new Set(step.modelCalls.map(call => call.model)));
+    const isExpanded = expandedStep === index;
+    const hasDetails = !!(step.inputs || step.output || step.error);
+
+    return (
+      <li key={index} className={`rounded-xl border p-3 ${cardClass}`}>
+        <button
+          onClick={() => setExpandedStep(isExpanded ? null : index)}
+          disabled={!hasDetails}
+          className="w-full text-left flex items-start justify-between gap-3"
+        >
+          <div className="flex items-start gap-2 min-w-0">
+            <span className={`mt-0.5 ${style.className}`} title={style.label}>{style.icon}</span>
+            <div className="min-w-0">
+              <div className={`font-medium truncate ${textColor}`}>
+                {step.agentName}.{step.action}
+                {step.parallel && <span className={`ml-2 text-xs ${mutedColor}`}>parallel</span>}
+              </div>
+              <div className={`text-xs ${mutedColor}`}>
+                {step.batch === null ? 'Outside workflow' : `Batch ${step.batch + 1}`}
+                {step.condition && ` · ${step.condition}`}
+                {models.length > 0 && ` · ${models.join(', ')}`}
+              </div>
+              {step.skipReason && <div className="text-xs text-amber-400 mt-1">{step.skipReason}</div>}
+            </div>
+          </div>
+          <div className={`text-xs text-right whitespace-nowrap ${mutedColor}`}>
+            <div>{formatDuration(step.durationMs)}</div>
+            {tokens > 0 && <div>{tokens.toLocaleString()} tokens</div>}
+          </div>
+        </button>
+
+        {isExpanded && (
+          <div className={`mt-3 space-y-2 text-xs ${mutedColor}`}>
+            {step.error && <div className="text-red-400">{step.error}</div>}
+            {step.inputs && (
+              <div>
+                <div className="font-semibold uppercase tracking-wide mb-1">Inputs</div>
+                <pre className="whitespace-pre-wrap break-words">{JSON.stringify(step.inputs, null, 2)}</pre>
+              </div>
+            )}
+            {step.output && (
+              <div>
+                <div className="font-semibold uppercase tracking-wide mb-1">
+                  Output ({step.output.agent}{step.output.showToUser ? ', shown in chat' : ''})
+                </div>
+                {step.output.message && <p className="whitespace-pre-wrap mb-1">{step.output.message}</p>}
+                {step.output.metadata != null && (
+                  <pre className="whitespace-pre-wrap break-words max-h-48 overflow-y-auto">
+                    {JSON.stringify(step.output.metadata, null, 2)}
+                  </pre>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+      </li>
+    );
+  };
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <>
+          {/* Backdrop */}
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            onClick={onClose}
+            className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50"
+          />
+
+          {/* Panel */}
+          <motion.div
+            initial={{ opacity: 0, scale: 0.95 }}
+            animate={{ opacity: 1, scale: 1 }}
+            exit={{ opacity: 0, scale: 0.95 }}
+            className="fixed inset-0 flex items-center justify-center z-50 p-4"
+          >
+            <div
+              className={`${
+                isDarkMode ? 'glass-dark' : 'glass'
+              } rounded-3xl p-8 max-w-2xl w-full shadow-glass max-h-[80vh] overflow-y-auto`}
+              onClick={(e) => e.stopPropagation()}
+            >
+              {/* Header */}
+              <div className="flex items-center justify-between mb-6">
+                <h2 className={`text-2xl font-bold ${textColor}`}>Workflow timeline</h2>
+                <button
+                  onClick={onClose}
+                  className={`p-2 rounded-lg hover:bg-white/10 transition-colors ${mutedColor}`}
+                  aria-label="Close workflow timeline"
+                >
+                  <X size={20} />
+                </button>
+              </div>
+
+              {isLoading && !trace ? (
+                <div className="flex justify-center py-6">
+                  <Loader2 size={24} className="animate-spin text-cyan-primary" />
+                </div>
+              ) : error && !trace ? (
+                <p className={mutedColor}>{error}</p>
+              ) : trace && (
+                <>
+                  {/* Summary */}
+                  <div className={`rounded-xl border p-4 mb-4 text-sm ${cardClass}`}>
+                    <p className={`mb-2 ${textColor}`}>“{trace.userMessage}”</p>
+                    <div className={`flex flex-wrap gap-x-4 gap-y-1 ${mutedColor}`}>
+                      <span className="flex items-center gap-1">
+                        {trace.status === 'running' && <Loader2 size={12} className="animate-spin" />}
+                        <span className="capitalize">{trace.status}</span>
+                      </span>
+                      {trace.intent && (
+                        <span>Intent: {trace.intent.type} ({trace.intent.confidence}%)</span>
+                      )}
+                      {trace.workflow?.definition && (
+                        <span>
+                          Workflow: {trace.workflow.definition.intent}
+                          {trace.workflow.definition.type === 'project' &&
+                            ` (project v${trace.workflow.definition.overrideVersion})`}
+                        </span>
+                      )}
+                      <span>{formatDuration(trace.totals.durationMs)}</span>
+                      <span>
+                        {(trace.totals.inputTokens + trace.totals.outputTokens).toLocaleString()} tokens
+                      </span>
+                      <span>{formatCost(trace.totals.costUSD)}</span>
+                    </div>
+                    {trace.intent?.reasoning && (
+                      <p className={`mt-2 text-xs ${mutedColor}`}>{trace.intent.reasoning}</p>
+                    )}
+                    {trace.error && <p className="mt-2 text-xs text-red-400">{trace.error}</p>}
+                  </div>
+
+                  {/* Steps */}
+                  <ol className="space-y-2">{trace.steps.map(renderStep)}</ol>
+                </>
+              )}
+            </div>
+          </motion.div>
+        </>
+      )}
+    </AnimatePresence>
+  );
+};
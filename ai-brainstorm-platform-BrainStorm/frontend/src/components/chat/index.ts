@@ -6,3 +6,5 @@ export { TypingIndicator } from './TypingIndicator';
 export { UploadModal } from './UploadModal';
 export { ChatPageHeader } from './ChatPageHeader';
 export { ChatContainer, ChatPanel, CanvasPanel, TrackingPanel } from './ChatContainer';
+export { PresenceIndicator } from './PresenceIndicator';
+export { WorkflowTimelinePanel } from './WorkflowTimelinePanel';
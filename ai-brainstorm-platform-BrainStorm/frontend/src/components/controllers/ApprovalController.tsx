@@ -0,0 +1,121 @@
+import React, { useCallback, useEffect, useState } from "react";
+import { useProjectStore } from "../../store/projectStore";
+import { useRealtimeStore } from "../../store/realtimeStore";
+import { approvalsApi, getApiErrorMessage } from "../../services/api";
+import { showToast } from "../../utils/toast";
+import { TrackingPanel } from "../chat";
+import { ApprovalQueuePanel } from "../ApprovalQueuePanel";
+import type { StateChangeProposal } from "../../types";
+
+interface ApprovalControllerProps {
+  isDarkMode: boolean;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+/**
+ * ApprovalController - Handles the approval queue next to the chat
+ *
+ * Responsibilities:
+ * - Load the project's approval setting and pending agent proposals
+ * - Reload when agents queue changes or collaborators decide them
+ * - Apply approved changes to the board
+ * - Show the panel while changes are waiting (or when opened from the header)
+ */
+export const ApprovalController: React.FC<ApprovalControllerProps> = ({
+  isDarkMode,
+  isOpen,
+  onClose,
+}) => {
+  const { currentProject, updateProject } = useProjectStore();
+  const lastApprovalChange = useRealtimeStore((state) => state.lastApprovalChange);
+
+  const [proposals, setProposals] = useState<StateChangeProposal[]>([]);
+  const [requireApproval, setRequireApproval] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const projectId = currentProject?.id;
+  const role = currentProject?.role;
+
+  const loadQueue = useCallback(async () => {
+    if (!projectId) return;
+    setIsLoading(true);
+    try {
+      const [settings, pending] = await Promise.all([
+        approvalsApi.getSettings(projectId),
+        approvalsApi.list(projectId),
+      ]);
+      setRequireApproval(settings.settings.requireApproval);
+      setProposals(pending.proposals);
+    } catch (error) {
+      console.error("[ApprovalController] Failed to load approvals:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    loadQueue();
+  }, [loadQueue, lastApprovalChange]);
+
+  const handleToggleApproval = async (value: boolean) => {
+    if (!projectId) return;
+    try {
+      const response = await approvalsApi.updateSettings(projectId, value);
+      setRequireApproval(response.settings.requireApproval);
+      showToast(value ? "Agent changes now need approval" : "Agents now apply changes directly", "success");
+    } catch (error) {
+      showToast(getApiErrorMessage(error, "Failed to update the approval setting"), "error");
+    }
+  };
+
+  const handleApprove = async (ids: string[]) => {
+    if (!projectId) return;
+    try {
+      const response = await approvalsApi.approve(projectId, ids);
+      updateProject(projectId, { items: response.items });
+      if (response.failed.length > 0) {
+        showToast(`${response.failed.length} change(s) no longer applied and were rejected`, "info");
+      } else {
+        showToast(ids.length === 1 ? "Change approved" : `${ids.length} changes approved`, "success");
+      }
+    } catch (error) {
+      showToast(getApiErrorMessage(error, "Failed to approve changes"), "error");
+    } finally {
+      await loadQueue();
+    }
+  };
+
+  const handleReject = async (ids: string[]) => {
+    if (!projectId) return;
+    try {
+      await approvalsApi.reject(projectId, ids);
+      showToast(ids.length === 1 ? "Change rejected" : `${ids.length} changes rejected`, "info");
+    } catch (error) {
+      showToast(getApiErrorMessage(error, "Failed to reject changes"), "error");
+    } finally {
+      await loadQueue();
+    }
+  };
+
+  if (!currentProject || (!isOpen && proposals.length === 0)) {
+    return null;
+  }
+
+  return (
+    <TrackingPanel isDarkMode={isDarkMode}>
+      <ApprovalQueuePanel
+        isDarkMode={isDarkMode}
+        proposals={proposals}
+        requireApproval={requireApproval}
+        isLoading={isLoading}
+        canConfigure={role === undefined || role === "owner"}
+        canDecide={role === undefined || role === "owner" || role === "editor"}
+        onToggleApproval={handleToggleApproval}
+        onApprove={handleApprove}
+        onReject={handleReject}
+        onClose={proposals.length === 0 ? onClose : undefined}
+      />
+    </TrackingPanel>
+  );
+};
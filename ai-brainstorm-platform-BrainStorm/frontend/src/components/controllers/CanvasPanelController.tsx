@@ -2,6 +2,7 @@ import React, { useState, useMemo, useEffect, useRef } from "react";
 import { CheckSquare, Archive, Trash2 } from "lucide-react";
 import { useProjectStore } from "../../store/projectStore";
 import { useUserStore } from "../../store/userStore";
+import { useRealtimeStore } from "../../store/realtimeStore";
 import { useCardCapacity } from "../../hooks/useCardCapacity";
 import { useArchive } from "../../hooks/useArchive";
 import { showToast } from "../../utils/toast";
@@ -27,11 +28,13 @@ interface CanvasPanelControllerProps {
  * - Archive sidebar and restore functionality
  * - Capacity tracking and warnings
  * - Auto-clustering when threshold reached
+ * - Reporting "viewing the Canvas" presence while the pointer is over it
  */
 export const CanvasPanelController: React.FC<CanvasPanelControllerProps> = ({
   isDarkMode,
 }) => {
   const { user } = useUserStore();
+  const setPresenceView = useRealtimeStore((state) => state.setView);
   const {
     currentProject,
     toggleItemArchive,
@@ -192,7 +195,11 @@ export const CanvasPanelController: React.FC<CanvasPanelControllerProps> = ({
   return (
     <>
       <CanvasPanel isDarkMode={isDarkMode}>
-        <div className="p-4">
+        <div
+          className="p-4"
+          onMouseEnter={() => setPresenceView("canvas")}
+          onMouseLeave={() => setPresenceView("chat")}
+        >
           <CardCounter
             capacityState={capacity.capacityState}
             isDarkMode={isDarkMode}
@@ -1,4 +1,5 @@
 import React, { useState } from "react";
+import { Users, Brain } from "lucide-react";
 import { useChatStore } from "../../store/chatStore";
 import { useProjectStore } from "../../store/projectStore";
 import { useUserStore } from "../../store/userStore";
@@ -11,7 +12,10 @@ import {
   ChatMessages,
   ChatInput,
   UploadModal,
+  PresenceIndicator,
 } from "../chat";
+import { ShareProjectModal } from "../modals/ShareProjectModal";
+import { ProjectMemoryModal } from "../modals/ProjectMemoryModal";
 
 interface ChatPanelControllerProps {
   isDarkMode: boolean;
@@ -23,8 +27,9 @@ interface ChatPanelControllerProps {
  * Responsibilities:
  * - Message display and infinite scroll loading
  * - User input and message sending
- * - Typing indicator state
+ * - Typing indicator and streamed reply state, stopping a reply
  * - File upload modal
+ * - Project sharing modal (viewers get a read-only input)
  * - Inactivity timer reset on user activity
  */
 export const ChatPanelController: React.FC<ChatPanelControllerProps> = ({
@@ -32,7 +37,7 @@ export const ChatPanelController: React.FC<ChatPanelControllerProps> = ({
 }) => {
   const { currentProject } = useProjectStore();
   const { user } = useUserStore();
-  const { messages, isTyping } = useChatStore();
+  const { messages, isTyping, streamingReply } = useChatStore();
   const resetInactivityTimer = useSessionStore(
     (state) => state.resetInactivityTimer
   );
@@ -40,9 +45,11 @@ export const ChatPanelController: React.FC<ChatPanelControllerProps> = ({
   // Local state
   const [inputMessage, setInputMessage] = useState("");
   const [showUploadModal, setShowUploadModal] = useState(false);
+  const [showShareModal, setShowShareModal] = useState(false);
+  const [showMemoryModal, setShowMemoryModal] = useState(false);
 
   // Custom hooks
-  const { sendMessage, isSending } = useChat(currentProject?.id);
+  const { sendMessage, cancel, isSending } = useChat(currentProject?.id);
   const { loadMoreMessages, isLoading, hasMore } = useMessageLoader(
     currentProject?.id
   );
@@ -62,6 +69,7 @@ export const ChatPanelController: React.FC<ChatPanelControllerProps> = ({
 
     const result = await sendMessage(messageText);
 
+    // A cancelled reply keeps the sent message; nothing to restore
     if (!result.success && result.error) {
       showToast(result.error, "error");
       setInputMessage(messageText); // Re-add message on error
@@ -88,6 +96,9 @@ export const ChatPanelController: React.FC<ChatPanelControllerProps> = ({
     return null;
   }
 
+  const isReadOnly = currentProject.role === "viewer";
+  const canEditMemory = !currentProject.role || currentProject.role === "owner" || currentProject.role === "editor";
+
   return (
     <>
       <ChatPanel isDarkMode={isDarkMode}>
@@ -95,11 +106,41 @@ export const ChatPanelController: React.FC<ChatPanelControllerProps> = ({
           title={currentProject.title}
           description={currentProject.description}
           isDarkMode={isDarkMode}
+          actions={
+            <div className="flex items-center gap-3">
+              <PresenceIndicator isDarkMode={isDarkMode} />
+              <button
+                onClick={() => setShowMemoryModal(true)}
+                className={`flex items-center gap-2 px-3 py-2 rounded-xl text-sm font-medium transition-colors ${
+                  isDarkMode
+                    ? "bg-white/10 hover:bg-white/20 text-white"
+                    : "bg-gray-200 hover:bg-gray-300 text-gray-800"
+                }`}
+                title="What the agents remember about this project"
+              >
+                <Brain size={16} />
+                <span>Memory</span>
+              </button>
+              <button
+                onClick={() => setShowShareModal(true)}
+                className={`flex items-center gap-2 px-3 py-2 rounded-xl text-sm font-medium transition-colors ${
+                  isDarkMode
+                    ? "bg-white/10 hover:bg-white/20 text-white"
+                    : "bg-gray-200 hover:bg-gray-300 text-gray-800"
+                }`}
+                title="Share project"
+              >
+                <Users size={16} />
+                <span>Share</span>
+              </button>
+            </div>
+          }
         />
 
         <ChatMessages
           messages={messages}
           isTyping={isTyping}
+          streamingReply={streamingReply}
           isDarkMode={isDarkMode}
           onLoadMore={loadMoreMessages}
           hasMore={hasMore}
@@ -112,10 +153,12 @@ export const ChatPanelController: React.FC<ChatPanelControllerProps> = ({
           onSend={handleSendMessage}
           onUpload={() => setShowUploadModal(true)}
           onKeyDown={handleKeyDown}
+          onCancel={cancel}
           disabled={isSending}
           isSending={isSending}
           isSessionActive={true}
           isDarkMode={isDarkMode}
+          readOnly={isReadOnly}
         />
       </ChatPanel>
 
@@ -124,6 +167,22 @@ export const ChatPanelController: React.FC<ChatPanelControllerProps> = ({
         onClose={() => setShowUploadModal(false)}
         isDarkMode={isDarkMode}
       />
+
+      <ShareProjectModal
+        isOpen={showShareModal}
+        onClose={() => setShowShareModal(false)}
+        projectId={currentProject.id}
+        projectTitle={currentProject.title}
+        isDarkMode={isDarkMode}
+      />
+
+      <ProjectMemoryModal
+        isOpen={showMemoryModal}
+        onClose={() => setShowMemoryModal(false)}
+        projectId={currentProject.id}
+        canEdit={canEditMemory}
+        isDarkMode={isDarkMode}
+      />
     </>
   );
 };
@@ -3,3 +3,4 @@ export { CanvasPanelController } from './CanvasPanelController';
 export { AgentController } from './AgentController';
 export { SessionController, useSessionController } from './SessionController';
 export { SuggestionsController } from './SuggestionsController';
+export { ApprovalController } from './ApprovalController';
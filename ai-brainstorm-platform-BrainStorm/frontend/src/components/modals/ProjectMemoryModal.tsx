@@ -0,0 +1,386 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { X, Loader2, RefreshCw, Pencil, Trash2, Plus, Check } from 'lucide-react';
+import { projectMemoryApi, getApiErrorMessage } from '../../services/api';
+import { showToast } from '../../utils/toast';
+import type { MemoryFact, MemoryFactCategory, ProjectMemory } from '../../types';
+
+const CATEGORY_OPTIONS: { value: MemoryFactCategory; label: string }[] = [
+  { value: 'constraint', label: 'Constraints' },
+  { value: 'preference', label: 'Preferences' },
+  { value: 'stakeholder', label: 'Stakeholders' },
+  { value: 'rejected_idea', label: 'Rejected ideas' },
+  { value: 'answer', label: 'Already answered' },
+];
+
+interface FactDraft {
+  category: MemoryFactCategory;
+  content: string;
+  reason: string;
+}
+
+const EMPTY_DRAFT: FactDraft = { category: 'constraint', content: '', reason: '' };
+
+interface ProjectMemoryModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  projectId: string;
+  canEdit: boolean;
+  isDarkMode: boolean;
+}
+
+/**
+ * ProjectMemoryModal - What the agents remember about this project
+ * Shows the rolling conversation summary and extracted facts; editors can
+ * correct the summary, add, edit or delete facts, and fold recent messages in now.
+ */
+export const ProjectMemoryModal: React.FC<ProjectMemoryModalProps> = ({
+  isOpen,
+  onClose,
+  projectId,
+  canEdit,
+  isDarkMode,
+}) => {
+  const [memory, setMemory] = useState<ProjectMemory | null>(null);
+  const [summaryDraft, setSummaryDraft] = useState('');
+  const [newFact, setNewFact] = useState<FactDraft>(EMPTY_DRAFT);
+  const [editingFactId, setEditingFactId] = useState<string | null>(null);
+  const [editDraft, setEditDraft] = useState<FactDraft>(EMPTY_DRAFT);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+
+  const applyMemory = (next: ProjectMemory) => {
+    setMemory(next);
+    setSummaryDraft(next.summary);
+  };
+
+  const loadMemory = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const response = await projectMemoryApi.get(projectId);
+      setMemory(response.memory);
+      setSummaryDraft(response.memory.summary);
+    } catch (error) {
+      console.error('Failed to load project memory:', error);
+      showToast('Failed to load project memory', 'error');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    if (isOpen) {
+      setEditingFactId(null);
+      setNewFact(EMPTY_DRAFT);
+      loadMemory();
+    }
+  }, [isOpen, loadMemory]);
+
+  const handleSaveSummary = async () => {
+    setIsSaving(true);
+    try {
+      const response = await projectMemoryApi.updateSummary(projectId, summaryDraft.trim());
+      applyMemory(response.memory);
+      showToast('Summary saved', 'success');
+    } catch (error) {
+      showToast(getApiErrorMessage(error, 'Failed to save summary'), 'error');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRefresh = async () => {
+    setIsRefreshing(true);
+    try {
+      const response = await projectMemoryApi.refresh(projectId);
+      applyMemory(response.memory);
+      showToast(response.updated ? 'Memory updated from recent messages' : 'Memory is already up to date', 'info');
+    } catch (error) {
+      showToast(getApiErrorMessage(error, 'Failed to refresh memory'), 'error');
+    } finally {
+      setIsRefreshing(false);
+    }
+  };
+
+  const toInput = (draft: FactDraft) => ({
+    category: draft.category,
+    content: draft.content.trim(),
+    reason: draft.reason.trim() || null,
+  });
+
+  const replaceFacts = (update: (facts: MemoryFact[]) => MemoryFact[]) => {
+    setMemory(prev => (prev ? { ...prev, facts: update(prev.facts) } : prev));
+  };
+
+  const handleAddFact = async () => {
+    if (!newFact.content.trim()) {
+      showToast('Describe the fact to remember', 'error');
+      return;
+    }
+    try {
+      const response = await projectMemoryApi.addFact(projectId, toInput(newFact));
+      replaceFacts(facts => [...facts, response.fact]);
+      setNewFact(prev => ({ ...EMPTY_DRAFT, category: prev.category }));
+    } catch (error) {
+      showToast(getApiErrorMessage(error, 'Failed to add fact'), 'error');
+    }
+  };
+
+  const startEditing = (fact: MemoryFact) => {
+    setEditingFactId(fact.id);
+    setEditDraft({ category: fact.category, content: fact.content, reason: fact.reason || '' });
+  };
+
+  const handleUpdateFact = async (factId: string) => {
+    if (!editDraft.content.trim()) {
+      showToast('A fact cannot be empty', 'error');
+      return;
+    }
+    try {
+      const response = await projectMemoryApi.updateFact(projectId, factId, toInput(editDraft));
+      replaceFacts(facts => facts.map(f => (f.id === factId ? response.fact : f)));
+      setEditingFactId(null);
+    } catch (error) {
+      showToast(getApiErrorMessage(error, 'Failed to update fact'), 'error');
+    }
+  };
+
+  const handleDeleteFact = async (factId: string) => {
+    try {
+      await projectMemoryApi.deleteFact(projectId, factId);
+      replaceFacts(facts => facts.filter(f => f.id !== factId));
+    } catch (error) {
+      showToast(getApiErrorMessage(error, 'Failed to delete fact'), 'error');
+    }
+  };
+
+  const textColor = isDarkMode ? 'text-white' : 'text-gray-800';
+  const mutedColor = isDarkMode ? 'text-gray-400' : 'text-gray-600';
+  const inputClass = `px-3 py-2 rounded-xl border focus:outline-none focus:ring-2 focus:ring-cyan-primary/50 ${
+    isDarkMode
+      ? 'bg-white/10 text-white placeholder-gray-400 border-white/20'
+      : 'bg-white text-gray-800 placeholder-gray-500 border-gray-300'
+  }`;
+  const secondaryButton = `px-3 py-2 rounded-xl text-sm font-medium transition-colors disabled:opacity-50 flex items-center gap-2 ${
+    isDarkMode ? 'bg-white/10 hover:bg-white/20 text-white' : 'bg-gray-200 hover:bg-gray-300 text-gray-800'
+  }`;
+
+  const renderDraftFields = (draft: FactDraft, onChange: (draft: FactDraft) => void) => (
+    <>
+      <div className="flex gap-2">
+        <select
+          value={draft.category}
+          onChange={(e) => onChange({ ...draft, category: e.target.value as MemoryFactCategory })}
+          className={`text-sm ${inputClass}`}
+          aria-label="Fact category"
+        >
+          {CATEGORY_OPTIONS.map(option => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+        <input
+          value={draft.content}
+          onChange={(e) => onChange({ ...draft, content: e.target.value })}
+          placeholder="e.g. Must launch before the March trade show"
+          className={`flex-1 text-sm ${inputClass}`}
+        />
+      </div>
+      {draft.category === 'rejected_idea' && (
+        <input
+          value={draft.reason}
+          onChange={(e) => onChange({ ...draft, reason: e.target.value })}
+          placeholder="Why was it rejected?"
+          className={`w-full text-sm ${inputClass}`}
+        />
+      )}
+    </>
+  );
+
+  const facts = memory?.facts || [];
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <>
+          {/* Backdrop */}
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            onClick={onClose}
+            className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50"
+          />
+
+          {/* Modal */}
+          <motion.div
+            initial={{ opacity: 0, scale: 0.95 }}
+            animate={{ opacity: 1, scale: 1 }}
+            exit={{ opacity: 0, scale: 0.95 }}
+            className="fixed inset-0 flex items-center justify-center z-50 p-4"
+          >
+            <div
+              className={`${
+                isDarkMode ? 'glass-dark' : 'glass'
+              } rounded-3xl p-8 max-w-2xl w-full shadow-glass max-h-[85vh] overflow-y-auto`}
+              onClick={(e) => e.stopPropagation()}
+            >
+              {/* Header */}
+              <div className="flex items-center justify-between mb-2">
+                <h2 className={`text-2xl font-bold ${textColor}`}>Project memory</h2>
+                <div className="flex items-center gap-2">
+                  {canEdit && (
+                    <button
+                      onClick={handleRefresh}
+                      disabled={isRefreshing || isLoading}
+                      className={secondaryButton}
+                      title="Fold recent messages into memory now"
+                    >
+                      <RefreshCw size={14} className={isRefreshing ? 'animate-spin' : ''} />
+                      <span>Update now</span>
+                    </button>
+                  )}
+                  <button
+                    onClick={onClose}
+                    className={`p-2 rounded-lg hover:bg-white/10 transition-colors ${mutedColor}`}
+                    aria-label="Close project memory"
+                  >
+                    <X size={20} />
+                  </button>
+                </div>
+              </div>
+              <p className={`text-sm mb-6 ${mutedColor}`}>
+                Agents read this alongside recent messages, so older decisions are not lost or asked again.
+              </p>
+
+              {isLoading || !memory ? (
+                <div className="flex justify-center py-6">
+                  <Loader2 size={24} className="animate-spin text-cyan-primary" />
+                </div>
+              ) : (
+                <>
+                  {/* Summary */}
+                  <div className="flex items-center justify-between mb-2">
+                    <h3 className={`text-sm font-semibold uppercase tracking-wide ${mutedColor}`}>Conversation summary</h3>
+                    <span className={`text-xs ${mutedColor}`}>
+                      {memory.summarizedMessageCount} messages summarized
+                      {memory.summaryEditedBy && ' · edited by a member'}
+                    </span>
+                  </div>
+                  {canEdit ? (
+                    <div className="space-y-2 mb-6">
+                      <textarea
+                        value={summaryDraft}
+                        onChange={(e) => setSummaryDraft(e.target.value)}
+                        rows={5}
+                        placeholder="No summary yet - it is written once the conversation gets going."
+                        className={`w-full text-sm ${inputClass}`}
+                      />
+                      {summaryDraft.trim() !== memory.summary && (
+                        <div className="flex justify-end">
+                          <button
+                            onClick={handleSaveSummary}
+                            disabled={isSaving}
+                            className="px-4 py-2 rounded-xl bg-cyan-primary hover:bg-cyan-primary-dark text-white text-sm font-medium transition-colors disabled:opacity-50 flex items-center gap-2"
+                          >
+                            {isSaving ? <Loader2 size={14} className="animate-spin" /> : <Check size={14} />}
+                            <span>Save summary</span>
+                          </button>
+                        </div>
+                      )}
+                    </div>
+                  ) : (
+                    <p className={`text-sm whitespace-pre-wrap mb-6 ${memory.summary ? textColor : mutedColor}`}>
+                      {memory.summary || 'No summary yet.'}
+                    </p>
+                  )}
+
+                  {/* Facts */}
+                  {CATEGORY_OPTIONS.map(option => {
+                    const categoryFacts = facts.filter(fact => fact.category === option.value);
+                    if (categoryFacts.length === 0) return null;
+
+                    return (
+                      <div key={option.value} className="mb-4">
+                        <h3 className={`text-sm font-semibold uppercase tracking-wide mb-2 ${mutedColor}`}>{option.label}</h3>
+                        <ul className="space-y-2">
+                          {categoryFacts.map(fact => (
+                            <li key={fact.id}>
+                              {editingFactId === fact.id ? (
+                                <div className="space-y-2">
+                                  {renderDraftFields(editDraft, setEditDraft)}
+                                  <div className="flex justify-end gap-2">
+                                    <button onClick={() => setEditingFactId(null)} className={secondaryButton}>
+                                      Cancel
+                                    </button>
+                                    <button
+                                      onClick={() => handleUpdateFact(fact.id)}
+                                      className="px-3 py-2 rounded-xl bg-cyan-primary hover:bg-cyan-primary-dark text-white text-sm font-medium transition-colors"
+                                    >
+                                      Save
+                                    </button>
+                                  </div>
+                                </div>
+                              ) : (
+                                <div className="flex items-start justify-between gap-3">
+                                  <div className={`text-sm ${textColor}`}>
+                                    {fact.content}
+                                    {fact.reason && <span className={mutedColor}> - {fact.reason}</span>}
+                                    {fact.source === 'user' && (
+                                      <span className={`ml-2 text-xs ${mutedColor}`} title="Added or edited by a member; never retired automatically">
+                                        (pinned)
+                                      </span>
+                                    )}
+                                  </div>
+                                  {canEdit && (
+                                    <div className="flex items-center gap-1 shrink-0">
+                                      <button
+                                        onClick={() => startEditing(fact)}
+                                        className={`p-1.5 rounded-lg hover:bg-white/10 transition-colors ${mutedColor}`}
+                                        title="Edit fact"
+                                      >
+                                        <Pencil size={14} />
+                                      </button>
+                                      <button
+                                        onClick={() => handleDeleteFact(fact.id)}
+                                        className="p-1.5 rounded-lg hover:bg-red-500/20 text-red-400 transition-colors"
+                                        title="Forget fact"
+                                      >
+                                        <Trash2 size={14} />
+                                      </button>
+                                    </div>
+                                  )}
+                                </div>
+                              )}
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    );
+                  })}
+                  {facts.length === 0 && (
+                    <p className={`text-sm mb-4 ${mutedColor}`}>No facts remembered yet.</p>
+                  )}
+
+                  {/* Add fact */}
+                  {canEdit && (
+                    <div className="space-y-2 pt-4 border-t border-white/10">
+                      <h3 className={`text-sm font-semibold uppercase tracking-wide ${mutedColor}`}>Remember something</h3>
+                      {renderDraftFields(newFact, setNewFact)}
+                      <div className="flex justify-end">
+                        <button onClick={handleAddFact} className={secondaryButton}>
+                          <Plus size={14} />
+                          <span>Add fact</span>
+                        </button>
+                      </div>
+                    </div>
+                  )}
+                </>
+              )}
+            </div>
+          </motion.div>
+        </>
+      )}
+    </AnimatePresence>
+  );
+};
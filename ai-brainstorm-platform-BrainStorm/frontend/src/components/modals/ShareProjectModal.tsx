@@ -0,0 +1,307 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { X, Loader2, Link2, Mail, Trash2, Copy } from 'lucide-react';
+import { membersApi, getApiErrorMessage } from '../../services/api';
+import { useUserStore } from '../../store/userStore';
+import { showToast } from '../../utils/toast';
+import type { ProjectInvitation, ProjectMember, ProjectRole } from '../../types';
+
+type InvitableRole = Exclude<ProjectRole, 'owner'>;
+
+const ROLE_OPTIONS: { value: InvitableRole; label: string; description: string }[] = [
+  { value: 'editor', label: 'Editor', description: 'Can chat, edit items, upload files and run research' },
+  { value: 'commenter', label: 'Commenter', description: 'Can read everything and take part in the chat' },
+  { value: 'viewer', label: 'Viewer', description: 'Read-only access' },
+];
+
+interface ShareProjectModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  projectId: string;
+  projectTitle: string;
+  isDarkMode: boolean;
+}
+
+/**
+ * ShareProjectModal - Manage project members and invitations
+ * Everyone can see who has access; only the owner can invite, change roles or remove others.
+ */
+export const ShareProjectModal: React.FC<ShareProjectModalProps> = ({
+  isOpen,
+  onClose,
+  projectId,
+  projectTitle,
+  isDarkMode,
+}) => {
+  const { user } = useUserStore();
+  const [members, setMembers] = useState<ProjectMember[]>([]);
+  const [invitations, setInvitations] = useState<ProjectInvitation[]>([]);
+  const [myRole, setMyRole] = useState<ProjectRole | null>(null);
+  const [email, setEmail] = useState('');
+  const [inviteRole, setInviteRole] = useState<InvitableRole>('editor');
+  const [isLoading, setIsLoading] = useState(false);
+  const [isInviting, setIsInviting] = useState(false);
+
+  const isOwner = myRole === 'owner';
+
+  const loadMembers = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const response = await membersApi.list(projectId);
+      setMembers(response.members);
+      setMyRole(response.role);
+
+      if (response.role === 'owner') {
+        const invitationResponse = await membersApi.listInvitations(projectId);
+        setInvitations(invitationResponse.invitations);
+      }
+    } catch (error) {
+      console.error('Failed to load members:', error);
+      showToast('Failed to load project members', 'error');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    if (isOpen) {
+      loadMembers();
+    }
+  }, [isOpen, loadMembers]);
+
+  const copyLink = async (url: string) => {
+    try {
+      await navigator.clipboard.writeText(url);
+      showToast('Invite link copied', 'success');
+    } catch {
+      showToast(url, 'info');
+    }
+  };
+
+  const handleInvite = async (withEmail: boolean) => {
+    if (withEmail && !email.trim()) {
+      showToast('Enter an email address to invite', 'error');
+      return;
+    }
+
+    setIsInviting(true);
+    try {
+      const response = await membersApi.invite(projectId, inviteRole, withEmail ? email.trim() : undefined);
+      setInvitations(prev => [response.invitation, ...prev]);
+      setEmail('');
+      await copyLink(response.invitation.url);
+    } catch (error) {
+      showToast(getApiErrorMessage(error, 'Failed to create invitation'), 'error');
+    } finally {
+      setIsInviting(false);
+    }
+  };
+
+  const handleRoleChange = async (memberId: string, role: InvitableRole) => {
+    try {
+      await membersApi.updateRole(projectId, memberId, role);
+      setMembers(prev => prev.map(m => (m.user_id === memberId ? { ...m, role } : m)));
+    } catch (error) {
+      showToast(getApiErrorMessage(error, 'Failed to change role'), 'error');
+    }
+  };
+
+  const handleRemove = async (memberId: string) => {
+    try {
+      await membersApi.remove(projectId, memberId);
+      if (memberId === user?.id) {
+        onClose();
+        return;
+      }
+      setMembers(prev => prev.filter(m => m.user_id !== memberId));
+    } catch (error) {
+      showToast(getApiErrorMessage(error, 'Failed to remove member'), 'error');
+    }
+  };
+
+  const handleRevoke = async (invitationId: string) => {
+    try {
+      await membersApi.revokeInvitation(projectId, invitationId);
+      setInvitations(prev => prev.filter(i => i.id !== invitationId));
+    } catch (error) {
+      showToast(getApiErrorMessage(error, 'Failed to revoke invitation'), 'error');
+    }
+  };
+
+  const textColor = isDarkMode ? 'text-white' : 'text-gray-800';
+  const mutedColor = isDarkMode ? 'text-gray-400' : 'text-gray-600';
+  const inputClass = `px-3 py-2 rounded-xl border focus:outline-none focus:ring-2 focus:ring-cyan-primary/50 ${
+    isDarkMode
+      ? 'bg-white/10 text-white placeholder-gray-400 border-white/20'
+      : 'bg-white text-gray-800 placeholder-gray-500 border-gray-300'
+  }`;
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <>
+          {/* Backdrop */}
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            onClick={onClose}
+            className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50"
+          />
+
+          {/* Modal */}
+          <motion.div
+            initial={{ opacity: 0, scale: 0.95 }}
+            animate={{ opacity: 1, scale: 1 }}
+            exit={{ opacity: 0, scale: 0.95 }}
+            className="fixed inset-0 flex items-center justify-center z-50 p-4"
+          >
+            <div
+              className={`${
+                isDarkMode ? 'glass-dark' : 'glass'
+              } rounded-3xl p-8 max-w-xl w-full shadow-glass max-h-[80vh] overflow-y-auto`}
+              onClick={(e) => e.stopPropagation()}
+            >
+              {/* Header */}
+              <div className="flex items-center justify-between mb-6">
+                <h2 className={`text-2xl font-bold ${textColor}`}>Share “{projectTitle}”</h2>
+                <button
+                  onClick={onClose}
+                  className={`p-2 rounded-lg hover:bg-white/10 transition-colors ${mutedColor}`}
+                  aria-label="Close share dialog"
+                >
+                  <X size={20} />
+                </button>
+              </div>
+
+              {/* Invite */}
+              {isOwner && (
+                <div className="space-y-3 mb-6">
+                  <div className="flex gap-2">
+                    <input
+                      type="email"
+                      value={email}
+                      onChange={(e) => setEmail(e.target.value)}
+                      placeholder="teammate@company.com"
+                      className={`flex-1 ${inputClass}`}
+                    />
+                    <select
+                      value={inviteRole}
+                      onChange={(e) => setInviteRole(e.target.value as InvitableRole)}
+                      className={inputClass}
+                      aria-label="Role for invitation"
+                    >
+                      {ROLE_OPTIONS.map(option => (
+                        <option key={option.value} value={option.value}>{option.label}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <p className={`text-xs ${mutedColor}`}>
+                    {ROLE_OPTIONS.find(option => option.value === inviteRole)?.description}
+                  </p>
+                  <div className="flex gap-2">
+                    <button
+                      onClick={() => handleInvite(true)}
+                      disabled={isInviting}
+                      className="flex-1 px-4 py-2 rounded-xl bg-cyan-primary hover:bg-cyan-primary-dark text-white font-medium transition-colors disabled:opacity-50 flex items-center justify-center gap-2"
+                    >
+                      {isInviting ? <Loader2 size={16} className="animate-spin" /> : <Mail size={16} />}
+                      <span>Invite by email</span>
+                    </button>
+                    <button
+                      onClick={() => handleInvite(false)}
+                      disabled={isInviting}
+                      className={`flex-1 px-4 py-2 rounded-xl font-medium transition-colors disabled:opacity-50 flex items-center justify-center gap-2 ${
+                        isDarkMode ? 'bg-white/10 hover:bg-white/20 text-white' : 'bg-gray-200 hover:bg-gray-300 text-gray-800'
+                      }`}
+                    >
+                      <Link2 size={16} />
+                      <span>Create share link</span>
+                    </button>
+                  </div>
+                </div>
+              )}
+
+              {/* Members */}
+              <h3 className={`text-sm font-semibold uppercase tracking-wide mb-3 ${mutedColor}`}>People with access</h3>
+              {isLoading ? (
+                <div className="flex justify-center py-6">
+                  <Loader2 size={24} className="animate-spin text-cyan-primary" />
+                </div>
+              ) : (
+                <ul className="space-y-2 mb-6">
+                  {members.map(member => (
+                    <li key={member.user_id} className="flex items-center justify-between gap-3">
+                      <span className={`truncate ${textColor}`}>
+                        {member.email || member.user_id}
+                        {member.user_id === user?.id && <span className={`ml-1 ${mutedColor}`}>(you)</span>}
+                      </span>
+                      <div className="flex items-center gap-2">
+                        {isOwner && member.role !== 'owner' ? (
+                          <select
+                            value={member.role}
+                            onChange={(e) => handleRoleChange(member.user_id, e.target.value as InvitableRole)}
+                            className={`text-sm ${inputClass}`}
+                            aria-label={`Role for ${member.email || member.user_id}`}
+                          >
+                            {ROLE_OPTIONS.map(option => (
+                              <option key={option.value} value={option.value}>{option.label}</option>
+                            ))}
+                          </select>
+                        ) : (
+                          <span className={`text-sm capitalize ${mutedColor}`}>{member.role}</span>
+                        )}
+                        {member.role !== 'owner' && (isOwner || member.user_id === user?.id) && (
+                          <button
+                            onClick={() => handleRemove(member.user_id)}
+                            className="p-2 rounded-lg hover:bg-red-500/20 text-red-400 transition-colors"
+                            title={member.user_id === user?.id ? 'Leave project' : 'Remove member'}
+                          >
+                            <Trash2 size={16} />
+                          </button>
+                        )}
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              {/* Pending invitations */}
+              {isOwner && invitations.length > 0 && (
+                <>
+                  <h3 className={`text-sm font-semibold uppercase tracking-wide mb-3 ${mutedColor}`}>Pending invitations</h3>
+                  <ul className="space-y-2">
+                    {invitations.map(invitation => (
+                      <li key={invitation.id} className="flex items-center justify-between gap-3">
+                        <span className={`truncate ${textColor}`}>
+                          {invitation.email || 'Share link'}
+                          <span className={`ml-2 text-sm capitalize ${mutedColor}`}>{invitation.role}</span>
+                        </span>
+                        <div className="flex items-center gap-1">
+                          <button
+                            onClick={() => copyLink(invitation.url)}
+                            className={`p-2 rounded-lg hover:bg-white/10 transition-colors ${mutedColor}`}
+                            title="Copy invite link"
+                          >
+                            <Copy size={16} />
+                          </button>
+                          <button
+                            onClick={() => handleRevoke(invitation.id)}
+                            className="p-2 rounded-lg hover:bg-red-500/20 text-red-400 transition-colors"
+                            title="Revoke invitation"
+                          >
+                            <Trash2 size={16} />
+                          </button>
+                        </div>
+                      </li>
+                    ))}
+                  </ul>
+                </>
+              )}
+            </div>
+          </motion.div>
+        </>
+      )}
+    </AnimatePresence>
+  );
+};
@@ -0,0 +1,162 @@
+import React, { useEffect, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { X, Archive, ExternalLink, Loader2 } from 'lucide-react';
+import { useThemeStore } from '../../store/themeStore';
+import { pageArchivesApi } from '../../services/api';
+import type { PageArchive } from '../../types';
+
+interface ArchivedPageModalProps {
+  archiveId: string | null;
+  onClose: () => void;
+}
+
+// Archived markup is rendered in a frame with scripts, forms and navigation disabled
+const frameDocument = (archive: PageArchive) => `<!doctype html>
+<html><head><meta charset="utf-8"><style>
+  body { font-family: system-ui, sans-serif; line-height: 1.6; color: #1f2937; margin: 16px; }
+  img { max-width: 100%; height: auto; }
+  pre { white-space: pre-wrap; }
+</style></head><body>${archive.html}</body></html>`;
+
+/**
+ * ArchivedPageModal - A cited web page as research fetched it
+ * Shows the archived HTML (or text), its fetch time and content hash, and the
+ * screenshot when one was captured, so findings can be checked against the
+ * page as it was rather than as it is now.
+ */
+export const ArchivedPageModal: React.FC<ArchivedPageModalProps> = ({ archiveId, onClose }) => {
+  const { isDarkMode } = useThemeStore();
+  const [archive, setArchive] = useState<PageArchive | null>(null);
+  const [screenshotUrl, setScreenshotUrl] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const textColor = isDarkMode ? 'text-white' : 'text-gray-800';
+  const mutedColor = isDarkMode ? 'text-gray-400' : 'text-gray-600';
+
+  useEffect(() => {
+    if (!archiveId) return;
+    let cancelled = false;
+    setArchive(null);
+    setScreenshotUrl(null);
+    setError(null);
+
+    pageArchivesApi.get(archiveId)
+      .then(result => {
+        if (cancelled) return;
+        setArchive(result.archive);
+        setScreenshotUrl(result.screenshotUrl);
+      })
+      .catch(err => {
+        console.error('Get page archive error:', err);
+        if (!cancelled) setError('The archived copy could not be loaded');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [archiveId]);
+
+  return (
+    <AnimatePresence>
+      {archiveId && (
+        <>
+          {/* Backdrop */}
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            onClick={onClose}
+            className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50"
+          />
+
+          {/* Panel */}
+          <motion.div
+            initial={{ opacity: 0, scale: 0.95 }}
+            animate={{ opacity: 1, scale: 1 }}
+            exit={{ opacity: 0, scale: 0.95 }}
+            className="fixed inset-0 flex items-center justify-center z-50 p-4"
+            onClick={onClose}
+          >
+            <div
+              className={`${
+                isDarkMode ? 'glass-dark' : 'glass'
+              } rounded-3xl p-8 max-w-4xl w-full shadow-glass max-h-[90vh] flex flex-col`}
+              onClick={(e) => e.stopPropagation()}
+            >
+              {/* Header */}
+              <div className="flex items-start justify-between gap-4 mb-4">
+                <div className="min-w-0">
+                  <h2 className={`flex items-center gap-2 text-2xl font-bold ${textColor}`}>
+                    <Archive size={22} /> Archived copy
+                  </h2>
+                  {archive && (
+                    <>
+                      <p className={`mt-1 font-medium truncate ${textColor}`}>{archive.title || archive.url}</p>
+                      <a
+                        href={archive.url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-sm text-blue-500 hover:text-blue-600 flex items-center gap-1"
+                        title="The live page may have changed since it was archived"
+                      >
+                        <span className="truncate">{archive.url}</span>
+                        <ExternalLink size={12} />
+                      </a>
+                    </>
+                  )}
+                </div>
+                <button
+                  onClick={onClose}
+                  className={`p-2 rounded-lg hover:bg-white/10 transition-colors ${mutedColor}`}
+                  aria-label="Close archived copy"
+                >
+                  <X size={20} />
+                </button>
+              </div>
+
+              {error && <p className="text-sm text-red-500">{error}</p>}
+              {!archive && !error && (
+                <div className={`flex items-center gap-2 text-sm ${mutedColor}`}>
+                  <Loader2 size={16} className="animate-spin" /> Loading archived copy…
+                </div>
+              )}
+
+              {archive && (
+                <>
+                  <div className={`flex flex-wrap gap-x-6 gap-y-1 text-xs mb-4 ${mutedColor}`}>
+                    <span>Fetched {new Date(archive.fetchedAt).toLocaleString()}</span>
+                    <span className="font-mono break-all" title="SHA-256 of the archived text">
+                      SHA-256 {archive.contentHash}
+                    </span>
+                  </div>
+
+                  <div className="flex-1 min-h-0 overflow-y-auto space-y-4">
+                    {screenshotUrl && (
+                      <img
+                        src={screenshotUrl}
+                        alt={`Screenshot of ${archive.url} when it was archived`}
+                        className="w-full rounded-xl border border-gray-700"
+                      />
+                    )}
+                    {archive.html ? (
+                      <iframe
+                        title="Archived page"
+                        sandbox=""
+                        srcDoc={frameDocument(archive)}
+                        className="w-full h-[60vh] rounded-xl bg-white"
+                      />
+                    ) : (
+                      <pre className={`whitespace-pre-wrap text-sm ${textColor}`}>{archive.textContent}</pre>
+                    )}
+                  </div>
+                </>
+              )}
+            </div>
+          </motion.div>
+        </>
+      )}
+    </AnimatePresence>
+  );
+};
+
+export default ArchivedPageModal;
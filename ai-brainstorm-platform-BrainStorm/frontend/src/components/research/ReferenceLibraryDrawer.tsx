@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { useThemeStore } from '../../store/themeStore';
 import { useProjectStore } from '../../store/projectStore';
 import { referencesApi } from '../../services/api';
@@ -17,15 +17,18 @@ import type { Reference } from '../../types';
 
 interface ReferenceLibraryDrawerProps {
   onReferenceSelected: (reference: Reference) => void;
+  // Reference to mark and scroll to, e.g. the source of a chat citation
+  highlightedReferenceId?: string;
 }
 
-const ReferenceLibraryDrawer: React.FC<ReferenceLibraryDrawerProps> = ({ onReferenceSelected }) => {
+const ReferenceLibraryDrawer: React.FC<ReferenceLibraryDrawerProps> = ({ onReferenceSelected, highlightedReferenceId }) => {
   const { isDarkMode } = useThemeStore();
   const { currentProject } = useProjectStore();
 
   const [references, setReferences] = useState<Reference[]>([]);
   const [loading, setLoading] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
+  const highlightedRef = useRef<HTMLButtonElement>(null);
 
   useEffect(() => {
     if (currentProject) {
@@ -59,6 +62,10 @@ const ReferenceLibraryDrawer: React.FC<ReferenceLibraryDrawerProps> = ({ onRefer
     ref.filename.toLowerCase().includes(searchQuery.toLowerCase())
   );
 
+  useEffect(() => {
+    highlightedRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [references, highlightedReferenceId]);
+
   return (
     <div className={`border-b border-gray-700 ${isDarkMode ? 'bg-white/5' : 'bg-gray-50'} max-h-80 overflow-hidden flex flex-col`}>
       {/* Search */}
@@ -93,12 +100,13 @@ const ReferenceLibraryDrawer: React.FC<ReferenceLibraryDrawerProps> = ({ onRefer
           filteredReferences.map((ref) => (
             <button
               key={ref.id}
+              ref={ref.id === highlightedReferenceId ? highlightedRef : undefined}
               onClick={() => onReferenceSelected(ref)}
               className={`w-full flex items-center gap-3 p-3 rounded-lg transition-colors text-left ${
                 isDarkMode
                   ? 'hover:bg-white/10 text-gray-300'
                   : 'hover:bg-white text-gray-700'
-              }`}
+              } ${ref.id === highlightedReferenceId ? 'ring-2 ring-cyan-primary' : ''}`}
             >
               {/* Icon */}
               <div className="flex-shrink-0">
@@ -199,15 +199,17 @@ const ResearchChatPanel: React.FC<ResearchChatPanelProps> = ({
           addMessage('assistant', '✓ Research complete! View results in the work area →');
 
           // Trigger research results view
+          const metadata = data.query.metadata;
           onResearchComplete({
             query: userMessage,
-            synthesis: data.query.metadata?.synthesis,
-            webSources: data.query.metadata?.webSources,
-            documentSources: data.query.metadata?.documentSources,
-            suggestedDocuments: data.query.metadata?.suggestedDocuments,
-            identifiedGaps: data.query.metadata?.identifiedGaps,
-            searchStrategy: data.query.metadata?.searchStrategy,
-            duration: data.query.metadata?.duration,
+            synthesis: metadata?.synthesis,
+            webSources: metadata?.webSources,
+            excludedSources: metadata?.excludedSources,
+            documentSources: metadata?.documentSources,
+            suggestedDocuments: metadata?.suggestedDocuments,
+            identifiedGaps: metadata?.identifiedGaps,
+            searchStrategy: metadata?.searchStrategy,
+            duration: metadata?.duration,
           });
         }
       } else {
@@ -438,7 +440,7 @@ const ResearchChatPanel: React.FC<ResearchChatPanelProps> = ({
           multiple
           className="hidden"
           onChange={(e) => handleFileUpload(e.target.files)}
-          accept=".pdf,.doc,.docx,.txt,.md,image/*,video/*"
+          accept=".pdf,.doc,.docx,.txt,.md,image/*,video/*,audio/*"
         />
       </div>
     </div>
@@ -13,7 +13,7 @@ import {
   Code,
 } from 'lucide-react';
 import type { WorkAreaView, ResearchResults, DocumentPreview } from '../UnifiedResearchHub';
-import type { Reference } from '../../types';
+import type { Reference, GeneratedDocument } from '../../types';
 
 interface WorkAreaPanelProps {
   activeView: WorkAreaView;
@@ -21,6 +21,7 @@ interface WorkAreaPanelProps {
   researchResults: ResearchResults | null;
   documentPreview: DocumentPreview | null;
   selectedReference: Reference | null;
+  selectedDocument: GeneratedDocument | null;
   onAcceptDocument: (document: DocumentPreview) => void;
   onRejectDocument: () => void;
   onRegenerateDocument: () => void;
@@ -33,6 +34,7 @@ const WorkAreaPanel: React.FC<WorkAreaPanelProps> = ({
   researchResults,
   documentPreview,
   selectedReference,
+  selectedDocument,
   onAcceptDocument,
   onRejectDocument,
   onRegenerateDocument,
@@ -54,7 +56,7 @@ const WorkAreaPanel: React.FC<WorkAreaPanelProps> = ({
     if (view.value === 'research') return researchResults !== null;
     if (view.value === 'preview') return documentPreview !== null;
     if (view.value === 'analysis') return selectedReference !== null;
-    if (view.value === 'document') return selectedReference !== null;
+    if (view.value === 'document') return selectedReference !== null || selectedDocument !== null;
     if (view.value === 'raw') return selectedReference !== null;
     return false;
   });
@@ -106,6 +108,8 @@ const WorkAreaPanel: React.FC<WorkAreaPanelProps> = ({
             reference={selectedReference}
             onReferenceUpdate={onReferenceUpdate}
           />
+        ) : activeView === 'document' && selectedDocument ? (
+          <DocumentRendererView generatedDocument={selectedDocument} />
         ) : activeView === 'document' && selectedReference ? (
           <DocumentRendererView reference={selectedReference} />
         ) : activeView === 'raw' && selectedReference ? (
@@ -1,7 +1,8 @@
-import React, { useState } from 'react';
+import React, { useCallback, useEffect, useState } from 'react';
+import { isAxiosError } from 'axios';
 import { useThemeStore } from '../../../store/themeStore';
 import { useProjectStore } from '../../../store/projectStore';
-import { referencesApi } from '../../../services/api';
+import { referencesApi, analysisTemplatesApi } from '../../../services/api';
 import {
   AlertCircle,
   CheckCircle,
@@ -14,15 +15,46 @@ import {
   Copy,
   Download,
   Loader2,
+  LayoutTemplate,
+  CopyPlus,
 } from 'lucide-react';
 import ReactMarkdown from 'react-markdown';
-import type { Reference } from '../../../types';
+import type { Reference, AnalysisTemplate } from '../../../types';
 
 interface AnalysisViewProps {
   reference: Reference;
   onReferenceUpdate: (reference: Reference) => void;
 }
 
+type TemplateAnalysis = Awaited<ReturnType<typeof referencesApi.analyzeWithTemplate>>['templateAnalysis'];
+
+// Picker groups, in display order; built-in templates have no scope
+const TEMPLATE_GROUPS: Array<{ label: string; matches: (template: AnalysisTemplate) => boolean }> = [
+  { label: 'Built-in', matches: (template) => !template.scope },
+  { label: 'My templates', matches: (template) => template.scope === 'user' },
+  { label: 'Project templates', matches: (template) => template.scope === 'project' },
+  { label: 'Organization templates', matches: (template) => template.scope === 'organization' },
+];
+
+const renderFieldValue = (value: unknown) => {
+  if (value === null || value === undefined || value === '') {
+    return <span className="text-gray-500">Not found in content</span>;
+  }
+  if (Array.isArray(value)) {
+    return (
+      <ul className="list-disc pl-5 space-y-1">
+        {value.map((entry, idx) => (
+          <li key={idx}>{typeof entry === 'object' ? JSON.stringify(entry) : String(entry)}</li>
+        ))}
+      </ul>
+    );
+  }
+  if (typeof value === 'object') {
+    return <pre className="text-xs whitespace-pre-wrap">{JSON.stringify(value, null, 2)}</pre>;
+  }
+  return <span>{String(value)}</span>;
+};
+
 const AnalysisView: React.FC<AnalysisViewProps> = ({ reference, onReferenceUpdate }) => {
   const { isDarkMode } = useThemeStore();
   const { currentProject } = useProjectStore();
@@ -31,6 +63,34 @@ const AnalysisView: React.FC<AnalysisViewProps> = ({ reference, onReferenceUpdat
   const [reanalyzing, setReanalyzing] = useState(false);
   const [resolvingConflict, setResolvingConflict] = useState(false);
   const [copied, setCopied] = useState(false);
+  const [templates, setTemplates] = useState<AnalysisTemplate[]>([]);
+  const [selectedTemplateId, setSelectedTemplateId] = useState('');
+  const [runningTemplate, setRunningTemplate] = useState(false);
+  const [cloningTemplate, setCloningTemplate] = useState(false);
+  const [templateAnalysis, setTemplateAnalysis] = useState<TemplateAnalysis | null>(null);
+  const [templateError, setTemplateError] = useState<string | null>(null);
+
+  const projectId = currentProject?.id;
+
+  const loadTemplates = useCallback(async () => {
+    try {
+      const data = await analysisTemplatesApi.list(projectId);
+      setTemplates(data.templates);
+    } catch (error) {
+      console.error('Load templates error:', error);
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    loadTemplates();
+  }, [loadTemplates]);
+
+  useEffect(() => {
+    setTemplateAnalysis(null);
+    setTemplateError(null);
+  }, [reference.id]);
+
+  const selectedTemplate = templates.find((template) => template.id === selectedTemplateId);
 
   const handleToggleFavorite = async () => {
     try {
@@ -95,6 +155,40 @@ const AnalysisView: React.FC<AnalysisViewProps> = ({ reference, onReferenceUpdat
     }
   };
 
+  const handleAnalyzeWithTemplate = async () => {
+    if (!selectedTemplateId) return;
+    setRunningTemplate(true);
+    setTemplateError(null);
+    try {
+      const data = await referencesApi.analyzeWithTemplate(reference.id, selectedTemplateId);
+      setTemplateAnalysis(data.templateAnalysis);
+    } catch (error) {
+      console.error('Template analysis error:', error);
+      setTemplateError((isAxiosError(error) && error.response?.data?.error) || 'Template analysis failed');
+    } finally {
+      setRunningTemplate(false);
+    }
+  };
+
+  const handleCloneTemplate = async () => {
+    if (!selectedTemplate) return;
+    const name = prompt('Name your copy of this template:', `${selectedTemplate.name} (copy)`);
+    if (!name) return;
+
+    setCloningTemplate(true);
+    setTemplateError(null);
+    try {
+      const data = await analysisTemplatesApi.clone(selectedTemplate.id, { name });
+      await loadTemplates();
+      setSelectedTemplateId(data.template.id);
+    } catch (error) {
+      console.error('Clone template error:', error);
+      setTemplateError((isAxiosError(error) && error.response?.data?.error) || 'Failed to copy template');
+    } finally {
+      setCloningTemplate(false);
+    }
+  };
+
   const copyAnalysis = () => {
     if (!reference.metadata?.analysis) return;
     navigator.clipboard.writeText(reference.metadata.analysis);
@@ -189,6 +283,89 @@ const AnalysisView: React.FC<AnalysisViewProps> = ({ reference, onReferenceUpdat
         </div>
       </div>
 
+      {/* Template Analysis */}
+      <div>
+        <div className="flex items-center gap-2 mb-2">
+          <LayoutTemplate size={16} className="text-gray-500" />
+          <span className={`text-sm font-medium ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+            Analyze with a template
+          </span>
+        </div>
+        <div className="flex gap-2">
+          <select
+            value={selectedTemplateId}
+            onChange={(e) => setSelectedTemplateId(e.target.value)}
+            className={`flex-1 px-3 py-2 rounded-lg border text-sm ${
+              isDarkMode ? 'bg-white/5 border-gray-600 text-white' : 'bg-white border-gray-300 text-gray-800'
+            }`}
+          >
+            <option value="">Choose a template...</option>
+            {TEMPLATE_GROUPS.map((group) => {
+              const groupTemplates = templates.filter(group.matches);
+              if (groupTemplates.length === 0) return null;
+              return (
+                <optgroup key={group.label} label={group.label}>
+                  {groupTemplates.map((template) => (
+                    <option key={template.id} value={template.id}>
+                      {template.name}
+                      {template.version && template.version > 1 ? ` (v${template.version})` : ''}
+                    </option>
+                  ))}
+                </optgroup>
+              );
+            })}
+          </select>
+          <button
+            onClick={handleCloneTemplate}
+            disabled={!selectedTemplate || cloningTemplate}
+            className={`p-2 rounded-lg transition-colors ${isDarkMode ? 'hover:bg-white/10' : 'hover:bg-gray-100'} disabled:opacity-50`}
+            title="Save a copy to My templates"
+          >
+            {cloningTemplate ? <Loader2 size={20} className="animate-spin" /> : <CopyPlus size={20} />}
+          </button>
+          <button
+            onClick={handleAnalyzeWithTemplate}
+            disabled={!selectedTemplateId || runningTemplate}
+            className="px-4 py-2 rounded-lg bg-cyan-primary text-white disabled:opacity-50 disabled:cursor-not-allowed hover:bg-cyan-primary/90 transition-colors"
+          >
+            {runningTemplate ? <Loader2 size={16} className="animate-spin" /> : 'Analyze'}
+          </button>
+        </div>
+        {selectedTemplate && (
+          <p className="text-xs text-gray-500 mt-2">{selectedTemplate.description}</p>
+        )}
+        {templateError && <p className="text-sm text-red-500 mt-2">{templateError}</p>}
+
+        {templateAnalysis && (
+          <div className={`mt-4 p-4 rounded-lg border ${isDarkMode ? 'border-gray-600 bg-white/5' : 'border-gray-200 bg-gray-50'}`}>
+            <h3 className={`font-bold mb-3 ${isDarkMode ? 'text-white' : 'text-gray-800'}`}>
+              {templateAnalysis.templateInfo.name}
+            </h3>
+            {templateAnalysis.structuredData ? (
+              <dl className={`space-y-3 text-sm ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+                {Object.entries(templateAnalysis.structuredData).map(([fieldId, value]) => {
+                  const field = templates
+                    .find((template) => template.id === templateAnalysis.templateInfo.id)
+                    ?.fields.find((f) => f.id === fieldId);
+                  return (
+                    <div key={fieldId}>
+                      <dt className={`font-medium mb-1 ${isDarkMode ? 'text-white' : 'text-gray-800'}`}>
+                        {field?.label || fieldId}
+                      </dt>
+                      <dd>{renderFieldValue(value)}</dd>
+                    </div>
+                  );
+                })}
+              </dl>
+            ) : (
+              <div className={`prose prose-sm max-w-none ${isDarkMode ? 'prose-invert' : ''}`}>
+                <ReactMarkdown>{templateAnalysis.result}</ReactMarkdown>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+
       {/* Analysis Content */}
       {reference.analysis_status === 'completed' ? (
         <div className="space-y-6">
@@ -1,15 +1,37 @@
-import React from 'react';
+import React, { useCallback, useEffect, useState } from 'react';
 import { useThemeStore } from '../../../store/themeStore';
-import { FileText, Image as ImageIcon, Video, File } from 'lucide-react';
-import ReactMarkdown from 'react-markdown';
-import type { Reference } from '../../../types';
+import {
+  FileText,
+  Image as ImageIcon,
+  Video,
+  File,
+  ShieldCheck,
+  CheckCircle,
+  HelpCircle,
+  XCircle,
+  X,
+  Loader2,
+  Archive,
+} from 'lucide-react';
+import ReactMarkdown, { type Components } from 'react-markdown';
+import { generatedDocumentsApi } from '../../../services/api';
+import ArchivedPageModal from '../ArchivedPageModal';
+import type { Reference, GeneratedDocument, DocumentVerification, VerifiedClaim, ClaimStatus } from '../../../types';
 
 interface DocumentRendererViewProps {
-  reference: Reference;
+  reference?: Reference;
+  generatedDocument?: GeneratedDocument;
 }
 
-const DocumentRendererView: React.FC<DocumentRendererViewProps> = ({ reference }) => {
+const DocumentRendererView: React.FC<DocumentRendererViewProps> = ({ reference, generatedDocument }) => {
+  if (generatedDocument) return <GeneratedDocumentView document={generatedDocument} />;
+  if (reference) return <ReferenceView reference={reference} />;
+  return null;
+};
+
+const ReferenceView: React.FC<{ reference: Reference }> = ({ reference }) => {
   const { isDarkMode } = useThemeStore();
+  const [archiveId, setArchiveId] = useState<string | null>(null);
 
   const renderDocument = () => {
     const type = reference.metadata?.type || '';
@@ -121,10 +143,297 @@ const DocumentRendererView: React.FC<DocumentRendererViewProps> = ({ reference }
           {reference.metadata?.type || 'Unknown type'}
           {reference.metadata?.fileSize && ` • ${(reference.metadata.fileSize / 1024).toFixed(1)} KB`}
         </p>
+        {reference.metadata?.archive && (
+          <button
+            onClick={() => setArchiveId(reference.metadata?.archive?.archiveId ?? null)}
+            className="mt-2 flex items-center gap-1 text-xs text-gray-500 hover:text-cyan-500 transition-colors"
+            title="Open the page as it was when research fetched it"
+          >
+            <Archive size={12} />
+            Archived copy · fetched {new Date(reference.metadata.archive.fetchedAt).toLocaleString()}
+          </button>
+        )}
       </div>
 
       {/* Document Content */}
       {renderDocument()}
+
+      <ArchivedPageModal archiveId={archiveId} onClose={() => setArchiveId(null)} />
+    </div>
+  );
+};
+
+const CLAIM_HREF = '#claim-';
+
+const CLAIM_STYLES: Record<ClaimStatus, { label: string; icon: React.ReactNode; text: string; mark: string }> = {
+  supported: {
+    label: 'Supported',
+    icon: <CheckCircle size={14} />,
+    text: 'text-green-500',
+    mark: 'bg-green-500/10 decoration-green-500',
+  },
+  unsupported: {
+    label: 'Unsupported',
+    icon: <HelpCircle size={14} />,
+    text: 'text-amber-500',
+    mark: 'bg-amber-500/15 decoration-amber-500',
+  },
+  contradicted: {
+    label: 'Contradicted',
+    icon: <XCircle size={14} />,
+    text: 'text-red-500',
+    mark: 'bg-red-500/15 decoration-red-500',
+  },
+};
+
+// Wrap each claim's range in a link the markdown renderer shows as an annotation.
+// Table rows and claims holding links or brackets can't be wrapped without
+// breaking the markdown; they are listed below the document instead.
+const annotateClaims = (content: string, claims: VerifiedClaim[]): string => {
+  let annotated = content;
+  [...claims]
+    .sort((a, b) => b.charStart - a.charStart)
+    .forEach(claim => {
+      const text = annotated.slice(claim.charStart, claim.charEnd);
+      if (!text.trim() || text.startsWith('|') || /[[\]]/.test(text)) return;
+      annotated = `${annotated.slice(0, claim.charStart)}[${text}](${CLAIM_HREF}${claim.index})${annotated.slice(claim.charEnd)}`;
+    });
+  return annotated;
+};
+
+/**
+ * GeneratedDocumentView - A generated PRD, spec or roadmap with its claims
+ * labelled supported, unsupported or contradicted by the project's decided
+ * items, messages and references.
+ */
+const GeneratedDocumentView: React.FC<{ document: GeneratedDocument }> = ({ document }) => {
+  const { isDarkMode } = useThemeStore();
+  const [verification, setVerification] = useState<DocumentVerification | null>(null);
+  const [stale, setStale] = useState(false);
+  const [isVerifying, setIsVerifying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [activeClaim, setActiveClaim] = useState<VerifiedClaim | null>(null);
+  const [archiveId, setArchiveId] = useState<string | null>(null);
+
+  const textColor = isDarkMode ? 'text-white' : 'text-gray-800';
+  const mutedColor = isDarkMode ? 'text-gray-400' : 'text-gray-600';
+  const cardClass = isDarkMode ? 'bg-white/5 border-white/10' : 'bg-white/70 border-gray-200';
+
+  const runVerification = useCallback(async () => {
+    setIsVerifying(true);
+    setError(null);
+    try {
+      const result = await generatedDocumentsApi.verify(document.id);
+      setVerification(result.verification);
+      setStale(false);
+      setActiveClaim(null);
+    } catch (err) {
+      console.error('Verify document error:', err);
+      setError('Claims could not be verified');
+    } finally {
+      setIsVerifying(false);
+    }
+  }, [document.id]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setActiveClaim(null);
+
+    generatedDocumentsApi.getVerification(document.id)
+      .then(result => {
+        if (cancelled) return;
+        setVerification(result.verification);
+        setStale(result.stale);
+        // Documents saved before verification existed are checked on first view
+        if (!result.verification) runVerification();
+      })
+      .catch(err => console.error('Get verification error:', err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [document.id, runVerification]);
+
+  const archivedSources = document.metadata?.archived_sources || [];
+
+  // Labels only line up with the text they were made for
+  const claims = verification && !stale ? verification.claims : [];
+  const flagged = claims.filter(claim => claim.status !== 'supported');
+
+  const markdownComponents: Components = {
+    a: ({ href, title, children }) => {
+      if (href?.startsWith(CLAIM_HREF)) {
+        const claim = claims.find(c => c.index === Number(href.slice(CLAIM_HREF.length)));
+        if (claim) {
+          return (
+            <span
+              role="button"
+              tabIndex={0}
+              onClick={() => setActiveClaim(claim)}
+              onKeyDown={(e) => e.key === 'Enter' && setActiveClaim(claim)}
+              title={`${CLAIM_STYLES[claim.status].label}: ${claim.explanation}`}
+              className={`cursor-pointer rounded px-0.5 underline decoration-2 underline-offset-4 ${CLAIM_STYLES[claim.status].mark} ${
+                activeClaim?.index === claim.index ? 'ring-2 ring-cyan-primary' : ''
+              }`}
+            >
+              {children}
+            </span>
+          );
+        }
+      }
+      const archived = archivedSources.find(source => source.url === href);
+      return (
+        <>
+          <a href={href} title={title} target="_blank" rel="noopener noreferrer">
+            {children}
+          </a>
+          {archived && (
+            <button
+              onClick={() => setArchiveId(archived.archiveId)}
+              className="ml-1 inline-flex align-middle text-gray-500 hover:text-cyan-500"
+              title={`Archived copy (fetched ${new Date(archived.fetchedAt).toLocaleString()})`}
+              aria-label="Open archived copy"
+            >
+              <Archive size={12} />
+            </button>
+          )}
+        </>
+      );
+    },
+  };
+
+  return (
+    <div className="h-full overflow-y-auto">
+      {/* Header */}
+      <div className="p-6 border-b border-gray-700">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <div className="flex items-center gap-2 mb-2">
+              <FileText size={20} />
+              <h2 className={`text-xl font-bold ${textColor}`}>{document.title}</h2>
+            </div>
+            <p className="text-sm text-gray-500">
+              {document.document_type} • v{document.version}
+              {verification && ` • claims checked ${new Date(verification.verifiedAt).toLocaleString()}`}
+            </p>
+          </div>
+          <button
+            onClick={runVerification}
+            disabled={isVerifying}
+            className="flex items-center gap-2 px-4 py-2 rounded-lg bg-cyan-primary text-white hover:bg-cyan-primary/90 transition-colors disabled:opacity-50 text-sm"
+            title="Check each claim against decided items, messages and references"
+          >
+            {isVerifying ? <Loader2 size={16} className="animate-spin" /> : <ShieldCheck size={16} />}
+            {isVerifying ? 'Verifying…' : verification ? 'Re-verify claims' : 'Verify claims'}
+          </button>
+        </div>
+
+        {/* Claim counts */}
+        {verification && !stale && (
+          <div className="flex flex-wrap gap-4 mt-4 text-sm">
+            {(Object.keys(CLAIM_STYLES) as ClaimStatus[]).map(status => (
+              <span key={status} className={`flex items-center gap-1 ${CLAIM_STYLES[status].text}`}>
+                {CLAIM_STYLES[status].icon}
+                {verification.counts[status]} {CLAIM_STYLES[status].label.toLowerCase()}
+              </span>
+            ))}
+            {verification.truncated && (
+              <span className={mutedColor}>Only the first {verification.claims.length} claims were checked</span>
+            )}
+          </div>
+        )}
+        {stale && (
+          <p className="mt-4 text-sm text-amber-500">
+            The document changed since its claims were checked. Re-verify to see current labels.
+          </p>
+        )}
+        {error && <p className="mt-4 text-sm text-red-500">{error}</p>}
+      </div>
+
+      {/* Selected claim */}
+      {activeClaim && (
+        <div className={`mx-6 mt-6 rounded-xl border p-4 text-sm ${cardClass}`}>
+          <div className="flex items-start justify-between gap-4 mb-2">
+            <span className={`flex items-center gap-1 font-medium ${CLAIM_STYLES[activeClaim.status].text}`}>
+              {CLAIM_STYLES[activeClaim.status].icon}
+              {CLAIM_STYLES[activeClaim.status].label}
+              {activeClaim.section && <span className={`font-normal ${mutedColor}`}>· {activeClaim.section}</span>}
+            </span>
+            <button
+              onClick={() => setActiveClaim(null)}
+              className={`p-1 rounded-lg hover:bg-white/10 transition-colors ${mutedColor}`}
+              aria-label="Close claim"
+            >
+              <X size={16} />
+            </button>
+          </div>
+          <p className={`mb-2 ${textColor}`}>{activeClaim.text}</p>
+          <p className={`mb-3 ${mutedColor}`}>{activeClaim.explanation}</p>
+          {activeClaim.evidence.map(evidence => (
+            <div key={`${evidence.sourceType}:${evidence.sourceId}:${evidence.location}`} className="mb-2 last:mb-0">
+              <div className={`text-xs mb-1 ${mutedColor}`}>
+                {evidence.title}
+                {evidence.location && ` · ${evidence.location}`}
+              </div>
+              <blockquote className={`border-l-2 border-cyan-primary pl-3 italic ${textColor}`}>
+                {evidence.quote}
+              </blockquote>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Document with claim annotations */}
+      <div className={`p-6 prose prose-sm max-w-none ${isDarkMode ? 'prose-invert' : ''}`}>
+        <ReactMarkdown components={markdownComponents}>
+          {claims.length > 0 ? annotateClaims(document.content, claims) : document.content}
+        </ReactMarkdown>
+      </div>
+
+      {/* Claims to review */}
+      {flagged.length > 0 && (
+        <div className="px-6 pb-6">
+          <h3 className={`text-sm font-semibold uppercase tracking-wide mb-2 ${mutedColor}`}>Claims to review</h3>
+          <ul className="space-y-1 text-sm">
+            {flagged.map(claim => (
+              <li key={claim.index}>
+                <button
+                  onClick={() => setActiveClaim(claim)}
+                  className={`flex items-start gap-2 text-left hover:text-cyan-primary transition-colors ${textColor}`}
+                >
+                  <span className={`mt-0.5 ${CLAIM_STYLES[claim.status].text}`}>{CLAIM_STYLES[claim.status].icon}</span>
+                  <span>{claim.text}</span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Archived copies of the research sources */}
+      {archivedSources.length > 0 && (
+        <div className="px-6 pb-6">
+          <h3 className={`text-sm font-semibold uppercase tracking-wide mb-2 ${mutedColor}`}>Archived sources</h3>
+          <ul className="space-y-1 text-sm">
+            {archivedSources.map(source => (
+              <li key={source.archiveId}>
+                <button
+                  onClick={() => setArchiveId(source.archiveId)}
+                  className={`flex items-center gap-2 text-left hover:text-cyan-primary transition-colors ${textColor}`}
+                >
+                  <Archive size={14} className="flex-shrink-0" />
+                  <span className="truncate">{source.url}</span>
+                  <span className={`flex-shrink-0 text-xs ${mutedColor}`}>
+                    fetched {new Date(source.fetchedAt).toLocaleDateString()}
+                  </span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <ArchivedPageModal archiveId={archiveId} onClose={() => setArchiveId(null)} />
     </div>
   );
 };
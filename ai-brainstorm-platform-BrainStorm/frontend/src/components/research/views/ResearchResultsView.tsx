@@ -12,18 +12,35 @@ import {
   ChevronDown,
   ChevronUp,
   CheckCircle,
+  ShieldCheck,
+  ShieldAlert,
+  Ban,
+  Archive,
 } from 'lucide-react';
 import ReactMarkdown from 'react-markdown';
-import type { ResearchResults } from '../../UnifiedResearchHub';
+import ArchivedPageModal from '../ArchivedPageModal';
+import type { ResearchResults, SourceTrust } from '../../UnifiedResearchHub';
 
 interface ResearchResultsViewProps {
   results: ResearchResults;
 }
 
+const SOURCE_TYPE_LABELS: Record<SourceTrust['sourceType'], string> = {
+  peer_reviewed: 'Peer-reviewed',
+  academic: 'Academic',
+  government: 'Government',
+  news: 'News',
+  documentation: 'Documentation',
+  code: 'Code',
+  blog: 'Blog',
+  other: 'Other',
+};
+
 const ResearchResultsView: React.FC<ResearchResultsViewProps> = ({ results }) => {
   const { isDarkMode } = useThemeStore();
   const [expandedSources, setExpandedSources] = useState<Set<number>>(new Set());
   const [copied, setCopied] = useState(false);
+  const [archiveId, setArchiveId] = useState<string | null>(null);
 
   const toggleSource = (index: number) => {
     setExpandedSources((prev) => {
@@ -37,6 +54,12 @@ const ResearchResultsView: React.FC<ResearchResultsViewProps> = ({ results }) =>
     });
   };
 
+  // The source card toggles on click; the archive link opens without toggling it
+  const openArchive = (e: React.SyntheticEvent, id?: string) => {
+    e.stopPropagation();
+    setArchiveId(id ?? null);
+  };
+
   const copySynthesis = () => {
     if (results.synthesis) {
       navigator.clipboard.writeText(results.synthesis);
@@ -178,6 +201,46 @@ const ResearchResultsView: React.FC<ResearchResultsViewProps> = ({ results }) =>
                       <span className="truncate">{source.url}</span>
                       <ExternalLink size={12} />
                     </a>
+                    {source.archive && (
+                      <span
+                        role="button"
+                        tabIndex={0}
+                        onClick={(e) => openArchive(e, source.archive?.archiveId)}
+                        onKeyDown={(e) => e.key === 'Enter' && openArchive(e, source.archive?.archiveId)}
+                        className={`mt-1 inline-flex items-center gap-1 text-xs hover:text-cyan-500 ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}
+                        title="Open the page as it was when this research fetched it"
+                      >
+                        <Archive size={12} />
+                        Archived copy · fetched {new Date(source.archive.fetchedAt).toLocaleString()}
+                      </span>
+                    )}
+                    {source.trust && (
+                      <div className="mt-2 space-y-1">
+                        <div className="flex flex-wrap items-center gap-2 text-xs">
+                          <span className={`px-2 py-0.5 rounded ${isDarkMode ? 'bg-white/10 text-gray-300' : 'bg-gray-100 text-gray-700'}`}>
+                            {SOURCE_TYPE_LABELS[source.trust.sourceType]}
+                          </span>
+                          <span className={isDarkMode ? 'text-gray-400' : 'text-gray-500'}>
+                            Quality {source.trust.score}/100
+                          </span>
+                          {source.trust.allowListed && (
+                            <span className="flex items-center gap-1 text-green-500">
+                              <ShieldCheck size={12} /> Allow-listed
+                            </span>
+                          )}
+                          {source.trust.policyViolation && (
+                            <span className="flex items-center gap-1 text-red-500">
+                              <ShieldAlert size={12} /> Policy violation
+                            </span>
+                          )}
+                        </div>
+                        {source.trust.downrankReasons.length > 0 && (
+                          <p className={`text-xs ${isDarkMode ? 'text-yellow-400' : 'text-yellow-700'}`}>
+                            Ranked lower: {source.trust.downrankReasons.join(' · ')}
+                          </p>
+                        )}
+                      </div>
+                    )}
                   </div>
                   {expandedSources.has(idx) ? (
                     <ChevronUp className="text-gray-400 flex-shrink-0" size={20} />
@@ -198,6 +261,34 @@ const ResearchResultsView: React.FC<ResearchResultsViewProps> = ({ results }) =>
         </div>
       )}
 
+      {/* Sources excluded by the trust policy */}
+      {results.excludedSources && results.excludedSources.length > 0 && (
+        <div>
+          <div className="flex items-center gap-2 mb-3">
+            <Ban className="text-red-500" size={20} />
+            <h3 className={`font-bold ${isDarkMode ? 'text-white' : 'text-gray-800'}`}>
+              Excluded by Trust Policy ({results.excludedSources.length})
+            </h3>
+          </div>
+          <div className="space-y-2">
+            {results.excludedSources.map((source, idx) => (
+              <div
+                key={idx}
+                className={`p-3 rounded-lg border text-sm ${
+                  isDarkMode ? 'bg-red-500/5 border-red-500/30' : 'bg-red-50 border-red-200'
+                }`}
+              >
+                <p className={`font-medium truncate ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+                  {source.title || source.url}
+                </p>
+                <p className="text-xs text-gray-500 truncate">{source.url}</p>
+                <p className={`text-xs mt-1 ${isDarkMode ? 'text-red-400' : 'text-red-600'}`}>{source.reason}</p>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Document Sources */}
       {results.documentSources && results.documentSources.length > 0 && (
         <div>
@@ -314,6 +405,8 @@ const ResearchResultsView: React.FC<ResearchResultsViewProps> = ({ results }) =>
           Research completed in {(results.duration / 1000).toFixed(1)}s
         </div>
       )}
+
+      <ArchivedPageModal archiveId={archiveId} onClose={() => setArchiveId(null)} />
     </div>
   );
 };
@@ -5,11 +5,12 @@ import { useChatStore } from '../store/chatStore';
 import { useUserStore } from '../store/userStore';
 import { useSessionStore } from '../store/sessionStore';
 import { useAgentStore } from '../store/agentStore';
+import type { Message } from '../types';
 
 // Mock all dependencies
 vi.mock('../services/api', () => ({
   conversationsApi: {
-    sendMessage: vi.fn(),
+    sendMessageStream: vi.fn(),
   },
   projectsApi: {
     getByUserId: vi.fn(),
@@ -25,6 +26,14 @@ vi.mock('../services/api', () => ({
   },
 }));
 
+// The real client throws at import without VITE_SUPABASE_* env vars
+vi.mock('../services/supabase', () => ({
+  supabase: { auth: { getSession: vi.fn(), getUser: vi.fn(), signOut: vi.fn() } },
+  getCurrentSession: vi.fn(),
+  getCurrentUser: vi.fn(),
+  signOut: vi.fn(),
+}));
+
 vi.mock('./useProjectRefresh', () => ({
   useProjectRefresh: vi.fn(() => vi.fn()),
 }));
@@ -64,6 +73,7 @@ describe('useChat', () => {
     useChatStore.setState({
       messages: [],
       isTyping: false,
+      streamingReply: null,
       activeAgents: [],
     });
     useUserStore.setState({ user: mockUser });
@@ -77,7 +87,7 @@ describe('useChat', () => {
 
   it('should send message successfully', async () => {
     const { conversationsApi } = await import('../services/api');
-    vi.mocked(conversationsApi.sendMessage).mockResolvedValue({
+    vi.mocked(conversationsApi.sendMessageStream).mockResolvedValue({
       success: true,
       userMessage: mockUserMessage,
       agentMessages: [mockAgentMessage],
@@ -91,10 +101,12 @@ describe('useChat', () => {
     });
 
     expect(response).toEqual({ success: true });
-    expect(conversationsApi.sendMessage).toHaveBeenCalledWith(
+    expect(conversationsApi.sendMessageStream).toHaveBeenCalledWith(
       mockProjectId,
       'Test message',
-      mockUserId
+      mockUserId,
+      expect.objectContaining({ onToken: expect.any(Function) }),
+      expect.any(AbortSignal)
     );
 
     const state = useChatStore.getState();
@@ -108,7 +120,7 @@ describe('useChat', () => {
     const promise = new Promise((resolve) => {
       resolvePromise = resolve;
     });
-    vi.mocked(conversationsApi.sendMessage).mockReturnValue(promise as any);
+    vi.mocked(conversationsApi.sendMessageStream).mockReturnValue(promise as any);
 
     const { result } = renderHook(() => useChat(mockProjectId));
 
@@ -140,6 +152,83 @@ describe('useChat', () => {
     });
   });
 
+  it('should stream the reply into the chat store until it completes', async () => {
+    const { conversationsApi } = await import('../services/api');
+    let finish: () => void;
+    vi.mocked(conversationsApi.sendMessageStream).mockImplementation(
+      async (_projectId, _message, _userId, handlers) => {
+        handlers.onUserMessage?.(mockUserMessage);
+        handlers.onToken?.('Agent ');
+        handlers.onToken?.('resp');
+        await new Promise<void>((resolve) => {
+          finish = resolve;
+        });
+        return {
+          success: true,
+          userMessage: mockUserMessage,
+          agentMessages: [mockAgentMessage as unknown as Message],
+          updates: {},
+          workflow: {},
+        };
+      }
+    );
+
+    const { result } = renderHook(() => useChat(mockProjectId));
+
+    let sending: Promise<unknown>;
+    act(() => {
+      sending = result.current.sendMessage('Test message');
+    });
+
+    await waitFor(() => {
+      expect(useChatStore.getState().streamingReply).toBe('Agent resp');
+    });
+    expect(useChatStore.getState().messages).toEqual([mockUserMessage]);
+
+    await act(async () => {
+      finish!();
+      await sending;
+    });
+
+    const state = useChatStore.getState();
+    expect(state.streamingReply).toBeNull();
+    expect(state.messages).toEqual([mockUserMessage, mockAgentMessage]);
+  });
+
+  it('should cancel a streaming reply', async () => {
+    const { conversationsApi } = await import('../services/api');
+    vi.mocked(conversationsApi.sendMessageStream).mockImplementation(
+      (_projectId, _message, _userId, handlers, signal) =>
+        new Promise((_resolve, reject) => {
+          handlers.onToken?.('Partial');
+          signal?.addEventListener('abort', () =>
+            reject(new DOMException('The user aborted a request.', 'AbortError'))
+          );
+        })
+    );
+
+    const { result } = renderHook(() => useChat(mockProjectId));
+
+    let sending: Promise<unknown>;
+    act(() => {
+      sending = result.current.sendMessage('Test message');
+    });
+
+    await waitFor(() => {
+      expect(useChatStore.getState().streamingReply).toBe('Partial');
+    });
+
+    let response;
+    await act(async () => {
+      result.current.cancel();
+      response = await sending;
+    });
+
+    expect(response).toEqual({ success: false, cancelled: true });
+    expect(result.current.isSending).toBe(false);
+    expect(useChatStore.getState().streamingReply).toBeNull();
+  });
+
   it('should handle agent questions', async () => {
     const questionMessage = {
       ...mockAgentMessage,
@@ -151,7 +240,7 @@ describe('useChat', () => {
     };
 
     const { conversationsApi } = await import('../services/api');
-    vi.mocked(conversationsApi.sendMessage).mockResolvedValue({
+    vi.mocked(conversationsApi.sendMessageStream).mockResolvedValue({
       success: true,
       userMessage: mockUserMessage,
       agentMessages: [questionMessage],
@@ -180,7 +269,7 @@ describe('useChat', () => {
     });
 
     expect(response).toEqual({ success: false, error: 'Invalid input' });
-    expect(conversationsApi.sendMessage).not.toHaveBeenCalled();
+    expect(conversationsApi.sendMessageStream).not.toHaveBeenCalled();
   });
 
   it('should not send without projectId', async () => {
@@ -194,13 +283,13 @@ describe('useChat', () => {
     });
 
     expect(response).toEqual({ success: false, error: 'Invalid input' });
-    expect(conversationsApi.sendMessage).not.toHaveBeenCalled();
+    expect(conversationsApi.sendMessageStream).not.toHaveBeenCalled();
   });
 
   it('should handle API errors', async () => {
     const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
     const { conversationsApi } = await import('../services/api');
-    vi.mocked(conversationsApi.sendMessage).mockRejectedValue(
+    vi.mocked(conversationsApi.sendMessageStream).mockRejectedValue(
       new Error('Network error')
     );
 
@@ -225,7 +314,7 @@ describe('useChat', () => {
     });
 
     const { conversationsApi } = await import('../services/api');
-    vi.mocked(conversationsApi.sendMessage).mockResolvedValue({
+    vi.mocked(conversationsApi.sendMessageStream).mockResolvedValue({
       success: true,
       userMessage: mockUserMessage,
       agentMessages: [mockAgentMessage],
@@ -242,16 +331,21 @@ describe('useChat', () => {
     });
   });
 
-  it('should refresh project after successful send', async () => {
+  it('should apply returned item updates without a full project refresh', async () => {
     const { useProjectRefresh } = await import('./useProjectRefresh');
     const mockRefresh = vi.fn();
     vi.mocked(useProjectRefresh).mockReturnValue(mockRefresh);
+    const { useProjectStore } = await import('../store/projectStore');
+    const addItems = vi.fn();
+    useProjectStore.setState({ addItems });
 
+    const newItem = { id: 'item-1', text: 'Use Postgres', state: 'decided' };
     const { conversationsApi } = await import('../services/api');
-    vi.mocked(conversationsApi.sendMessage).mockResolvedValue({
+    vi.mocked(conversationsApi.sendMessageStream).mockResolvedValue({
       success: true,
       userMessage: mockUserMessage,
       agentMessages: [mockAgentMessage],
+      updates: { itemsAdded: [newItem], itemsModified: [] },
     });
 
     const { result } = renderHook(() => useChat(mockProjectId));
@@ -260,8 +354,8 @@ describe('useChat', () => {
       await result.current.sendMessage('Test message');
     });
 
-    await waitFor(() => {
-      expect(mockRefresh).toHaveBeenCalledWith(mockProjectId, mockUserId);
-    });
+    // Returned updates are merged in place; background changes arrive over the realtime channel
+    expect(addItems).toHaveBeenCalledWith([newItem]);
+    expect(mockRefresh).not.toHaveBeenCalled();
   });
 });
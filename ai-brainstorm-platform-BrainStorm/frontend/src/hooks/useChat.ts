@@ -1,4 +1,4 @@
-import { useState, useCallback } from "react";
+import { useState, useCallback, useRef } from "react";
 import { useChatStore } from "../store/chatStore";
 import { useUserStore } from "../store/userStore";
 import { useSessionStore } from "../store/sessionStore";
@@ -9,11 +9,19 @@ import { useProjectRefresh } from "./useProjectRefresh";
 /**
  * Custom hook to handle chat message sending and agent interactions
  * Consolidates message sending logic and eliminates duplication
+ * The reply streams into the chat store as it is generated; cancel() stops it.
  */
 export const useChat = (projectId?: string) => {
   const [isSending, setIsSending] = useState(false);
+  const abortControllerRef = useRef<AbortController | null>(null);
   const { user } = useUserStore();
-  const { addMessage, addMessages, setIsTyping } = useChatStore();
+  const {
+    addMessage,
+    addMessages,
+    setIsTyping,
+    setStreamingReply,
+    appendStreamingReply,
+  } = useChatStore();
   const { trackActivity } = useSessionStore();
   const { addAgentQuestion } = useAgentStore();
   const refreshProject = useProjectRefresh();
@@ -43,7 +51,9 @@ export const useChat = (projectId?: string) => {
    * Send a message and handle the response
    */
   const sendMessage = useCallback(
-    async (messageText: string) => {
+    async (
+      messageText: string
+    ): Promise<{ success: boolean; error?: string; cancelled?: boolean }> => {
       if (!projectId || !messageText.trim()) {
         console.log(
           "❌ Cannot send message: missing projectId or empty message"
@@ -53,6 +63,9 @@ export const useChat = (projectId?: string) => {
 
       setIsSending(true);
       setIsTyping(true);
+      const abortController = new AbortController();
+      abortControllerRef.current = abortController;
+      let userMessageShown = false;
 
       try {
         // Debug logging to identify user ID issue
@@ -70,17 +83,28 @@ export const useChat = (projectId?: string) => {
         console.log("=================================");
         console.log("🚀 Sending message to project:", projectId);
 
-        const response = await conversationsApi.sendMessage(
+        const response = await conversationsApi.sendMessageStream(
           projectId,
           messageText,
-          userId
+          userId,
+          {
+            onUserMessage: (message) => {
+              userMessageShown = true;
+              addMessage(message);
+            },
+            onToken: appendStreamingReply,
+          },
+          abortController.signal
         );
 
         console.log("✅ API Response received:", response);
 
         if (response.success) {
-          // Add messages to chat
-          addMessage(response.userMessage);
+          // Add messages to chat (the streamed text is replaced by the saved reply)
+          if (!userMessageShown) {
+            addMessage(response.userMessage);
+          }
+          setStreamingReply(null);
           addMessages(response.agentMessages);
 
           // Handle agent questions
@@ -127,6 +151,10 @@ export const useChat = (projectId?: string) => {
 
         return { success: false, error: "API request failed" };
       } catch (error: any) {
+        if (error.name === "AbortError") {
+          console.log("[useChat] Reply cancelled");
+          return { success: false, cancelled: true };
+        }
         console.error("Failed to send message:", error);
         const errorMsg =
           error.response?.data?.error ||
@@ -134,6 +162,8 @@ export const useChat = (projectId?: string) => {
           "Failed to send message. The AI agents may be taking longer than expected.";
         return { success: false, error: errorMsg };
       } finally {
+        abortControllerRef.current = null;
+        setStreamingReply(null);
         setIsSending(false);
         setIsTyping(false);
       }
@@ -144,14 +174,24 @@ export const useChat = (projectId?: string) => {
       addMessage,
       addMessages,
       setIsTyping,
+      setStreamingReply,
+      appendStreamingReply,
       trackActivity,
       refreshProject,
       handleAgentQuestions,
     ]
   );
 
+  /**
+   * Stop the reply being generated (the server aborts the model request)
+   */
+  const cancel = useCallback(() => {
+    abortControllerRef.current?.abort();
+  }, []);
+
   return {
     sendMessage,
+    cancel,
     isSending,
   };
 };
@@ -0,0 +1,145 @@
+import { useEffect } from "react";
+import { useChatStore } from "../store/chatStore";
+import { useProjectStore } from "../store/projectStore";
+import { useRealtimeStore, type ApprovalChange, type DocumentChange } from "../store/realtimeStore";
+import { realtimeApi, setRealtimeConnectionId } from "../services/api";
+import type { ClusterMetadata, Message, PresenceEntry, ProjectItem } from "../types";
+
+const RECONNECT_DELAY_MS = 3000;
+
+interface ItemsEvent {
+  itemsAdded?: ProjectItem[];
+  itemsModified?: ProjectItem[];
+  itemsMoved?: ProjectItem[];
+  removedIds?: string[];
+}
+
+/**
+ * Merge item changes from collaborators (or background agents) into the
+ * current project. Items we already have are updated in place, so replays
+ * after a reconnect don't create duplicates.
+ */
+export const applyItemsEvent = (event: ItemsEvent) => {
+  const { currentProject, addItems, updateItems, removeItems } = useProjectStore.getState();
+  if (!currentProject) return;
+
+  const existingIds = new Set(currentProject.items.map((item) => item.id));
+  const incoming = [
+    ...(event.itemsAdded || []),
+    ...(event.itemsModified || []),
+    ...(event.itemsMoved || []),
+  ];
+
+  addItems(incoming.filter((item) => !existingIds.has(item.id)));
+  updateItems(incoming.filter((item) => existingIds.has(item.id)));
+  removeItems(event.removedIds || []);
+};
+
+/**
+ * Subscribe to the project's realtime channel
+ *
+ * Keeps one SSE connection per open project and applies what other people
+ * (and background agents) do: new messages, item changes, card moves,
+ * clusters, generated-document updates and queued agent changes. Also reports which view this tab
+ * is on so collaborators can see "Alex is viewing the Canvas".
+ */
+export const useRealtimeUpdates = (projectId?: string, userId?: string) => {
+  const connectionId = useRealtimeStore((state) => state.connectionId);
+  const view = useRealtimeStore((state) => state.view);
+
+  useEffect(() => {
+    if (!projectId || !userId) return;
+
+    let eventSource: EventSource | null = null;
+    let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+    let closed = false;
+
+    const realtime = useRealtimeStore.getState();
+
+    const handle = <T,>(type: string, handler: (data: T) => void) => {
+      eventSource?.addEventListener(type, (event) => {
+        try {
+          handler(JSON.parse((event as MessageEvent).data) as T);
+        } catch (error) {
+          console.error(`[Realtime] Failed to handle ${type} event:`, error);
+        }
+      });
+    };
+
+    const connect = async (): Promise<void> => {
+      // A fresh URL each time so reconnects pick up a refreshed access token
+      const url = await realtimeApi.getStreamUrl(projectId, useRealtimeStore.getState().view);
+      if (closed) return;
+
+      eventSource = new EventSource(url);
+
+      handle<{ connectionId: string; presence: PresenceEntry[] }>("connected", (data) => {
+        setRealtimeConnectionId(data.connectionId);
+        realtime.setConnection(data.connectionId);
+        realtime.setPresence(data.presence);
+      });
+
+      handle<{ presence: PresenceEntry[] }>("presence", (data) => {
+        realtime.setPresence(data.presence);
+      });
+
+      handle<{ message: Message }>("message", ({ message }) => {
+        const { messages, addMessage } = useChatStore.getState();
+        if (!messages.some((m) => m.id === message.id)) {
+          addMessage(message);
+        }
+      });
+
+      handle<ItemsEvent>("items", applyItemsEvent);
+
+      handle<{ positions: { itemId: string; x: number; y: number }[] }>("positions", ({ positions }) => {
+        const { updateItemPosition } = useProjectStore.getState();
+        positions.forEach(({ itemId, x, y }) => updateItemPosition(itemId, { x, y }));
+      });
+
+      handle<{ clusters: ClusterMetadata[]; items: ProjectItem[] }>("clusters", ({ clusters, items }) => {
+        useProjectStore.getState().updateProject(projectId, { clusters, items });
+      });
+
+      handle<Omit<DocumentChange, "receivedAt">>("document", (data) => {
+        realtime.setLastDocumentChange({ ...data, receivedAt: Date.now() });
+      });
+
+      handle<Omit<ApprovalChange, "receivedAt">>("approvals", ({ change }) => {
+        realtime.setLastApprovalChange({ change, receivedAt: Date.now() });
+      });
+
+      eventSource.onerror = () => {
+        // EventSource retries on its own unless the server refused the stream
+        if (eventSource?.readyState === EventSource.CLOSED && !closed) {
+          setRealtimeConnectionId(null);
+          realtime.setConnection(null);
+          reconnectTimer = setTimeout(reconnect, RECONNECT_DELAY_MS);
+        }
+      };
+    };
+
+    const reconnect = () => {
+      connect().catch((error) => console.error("[Realtime] Failed to connect:", error));
+    };
+
+    reconnect();
+
+    return () => {
+      closed = true;
+      if (reconnectTimer) clearTimeout(reconnectTimer);
+      eventSource?.close();
+      setRealtimeConnectionId(null);
+      realtime.reset();
+    };
+  }, [projectId, userId]);
+
+  // Tell collaborators when this tab switches view
+  useEffect(() => {
+    if (!projectId || !connectionId) return;
+
+    realtimeApi
+      .updatePresence(projectId, connectionId, view)
+      .catch((error) => console.error("[Realtime] Failed to update presence:", error));
+  }, [projectId, connectionId, view]);
+};
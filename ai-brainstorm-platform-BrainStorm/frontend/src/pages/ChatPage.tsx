@@ -6,12 +6,14 @@ import { useRealtimeUpdates } from "../hooks";
 import "../styles/homepage.css";
 import { ChatPageHeader, ChatContainer } from "../components/chat";
 import { SessionHistoryModal } from "../components/SessionHistoryModal";
+import { ItemTimelineModal } from "../components/ItemTimelineModal";
 import {
   ChatPanelController,
   CanvasPanelController,
   AgentController,
   SessionController,
   SuggestionsController,
+  ApprovalController,
 } from "../components/controllers";
 
 /**
@@ -23,6 +25,7 @@ import {
  * - AgentController: Agent windows and questions
  * - SessionController: Session tracking and history
  * - SuggestionsController: AI suggestions panel
+ * - ApprovalController: Agent changes awaiting approval
  *
  * Each controller is self-contained and manages its own state,
  * reducing this page from ~785 lines to ~100 lines.
@@ -34,6 +37,8 @@ export const ChatPage: React.FC = () => {
 
   // Session history modal state (needs to be at page level for header access)
   const [showHistoryModal, setShowHistoryModal] = useState(false);
+  const [showTimelineModal, setShowTimelineModal] = useState(false);
+  const [showApprovals, setShowApprovals] = useState(false);
 
   // Initialize real-time updates via SharedWorker
   useRealtimeUpdates(currentProject?.id, user?.id);
@@ -86,6 +91,8 @@ export const ChatPage: React.FC = () => {
       {/* Header with session controls */}
       <ChatPageHeader
         onHistoryClick={() => setShowHistoryModal(true)}
+        onTimelineClick={() => setShowTimelineModal(true)}
+        onApprovalsClick={() => setShowApprovals((open) => !open)}
         onSessionStart={() => {}}
         onSessionEnd={() => {}}
         isDarkMode={isDarkMode}
@@ -98,9 +105,16 @@ export const ChatPage: React.FC = () => {
         projectId={currentProject.id}
       />
 
+      {/* Board timeline: item history, undo and time travel */}
+      <ItemTimelineModal
+        isOpen={showTimelineModal}
+        onClose={() => setShowTimelineModal(false)}
+        projectId={currentProject.id}
+      />
+
       {/* Main chat container */}
       <ChatContainer>
-        {/* Top Row: Chat + Session Tracking */}
+        {/* Top Row: Chat + Session Tracking + Approvals */}
         <div className="flex flex-col lg:flex-row gap-6">
           {/* Chat panel with messages and input */}
           <ChatPanelController isDarkMode={isDarkMode} />
@@ -110,6 +124,13 @@ export const ChatPage: React.FC = () => {
             isDarkMode={isDarkMode}
             onHistoryClick={() => setShowHistoryModal(true)}
           />
+
+          {/* Agent changes awaiting approval (shown while any are pending) */}
+          <ApprovalController
+            isDarkMode={isDarkMode}
+            isOpen={showApprovals}
+            onClose={() => setShowApprovals(false)}
+          />
         </div>
 
         {/* Bottom Row: Canvas (full-width) */}
@@ -4,8 +4,10 @@ import { useThemeStore } from '../store/themeStore';
 import { useProjectStore } from '../store/projectStore';
 import { useUserStore } from '../store/userStore';
 import { useUIStore } from '../store/uiStore';
-import { Plus, Sparkles, Folder, Clock, Trash2 } from 'lucide-react';
-import { projectsApi } from '../services/api';
+import { Plus, Sparkles, Folder, Clock, Trash2, Users, Mail } from 'lucide-react';
+import { projectsApi, membersApi, getApiErrorMessage } from '../services/api';
+import { showToast } from '../utils/toast';
+import type { ProjectInvitation } from '../types';
 import { useNavigate } from 'react-router-dom';
 import { format } from 'date-fns';
 import '../styles/homepage.css';
@@ -20,6 +22,8 @@ export const Dashboard: React.FC = () => {
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
   const [projectToDelete, setProjectToDelete] = useState<string | null>(null);
   const [loadError, setLoadError] = useState<string | null>(null);
+  const [pendingInvitations, setPendingInvitations] = useState<ProjectInvitation[]>([]);
+  const [acceptingToken, setAcceptingToken] = useState<string | null>(null);
 
   // Apply homepage background
   useEffect(() => {
@@ -33,9 +37,32 @@ export const Dashboard: React.FC = () => {
   useEffect(() => {
     if (!authLoading && user) {
       loadProjects();
+      loadPendingInvitations();
     }
   }, [user, authLoading]);
 
+  const loadPendingInvitations = async () => {
+    try {
+      const response = await membersApi.getPendingInvitations();
+      setPendingInvitations(response.invitations);
+    } catch (error) {
+      console.error('Failed to load invitations:', error);
+    }
+  };
+
+  const handleAcceptInvitation = async (token: string) => {
+    setAcceptingToken(token);
+    try {
+      await membersApi.acceptInvitation(token);
+      setPendingInvitations(prev => prev.filter(i => i.token !== token));
+      await loadProjects();
+    } catch (error) {
+      showToast(getApiErrorMessage(error, 'Failed to accept invitation'), 'error');
+    } finally {
+      setAcceptingToken(null);
+    }
+  };
+
   const loadProjects = async () => {
     if (!user?.id) {
       console.warn('Cannot load projects: No authenticated user');
@@ -117,6 +144,29 @@ export const Dashboard: React.FC = () => {
         </p>
       </motion.div>
 
+      {/* Pending Invitations */}
+      {pendingInvitations.length > 0 && (
+        <div className={`${isDarkMode ? 'glass-dark' : 'glass'} p-6 mb-8 rounded-2xl shadow-glass space-y-3`}>
+          {pendingInvitations.map(invitation => (
+            <div key={invitation.id} className="flex items-center justify-between gap-4">
+              <div className="flex items-center gap-3">
+                <Mail className="text-cyan-primary" size={20} />
+                <span className={isDarkMode ? 'text-gray-200' : 'text-gray-700'}>
+                  You've been invited to <strong>{invitation.project_title || 'a project'}</strong> as {invitation.role}
+                </span>
+              </div>
+              <button
+                onClick={() => handleAcceptInvitation(invitation.token)}
+                disabled={acceptingToken === invitation.token}
+                className="px-4 py-2 rounded-lg bg-cyan-primary text-white hover:bg-cyan-600 transition-colors disabled:opacity-50"
+              >
+                {acceptingToken === invitation.token ? 'Joining...' : 'Accept'}
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
       {/* Quick Actions Grid */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 mb-8">
         {/* New Project Card */}
@@ -226,16 +276,18 @@ export const Dashboard: React.FC = () => {
                 className={`${isDarkMode ? 'glass-dark-subtle' : 'glass-subtle'} p-5 rounded-xl shadow-glass text-left relative group cursor-pointer`}
                 onClick={() => handleProjectClick(project.id)}
               >
-                {/* Delete button - appears on hover */}
-                <button
-                  onClick={(e) => confirmDelete(project.id, e)}
-                  className={`absolute top-3 right-3 p-2 rounded-lg transition-all opacity-0 group-hover:opacity-100 ${
-                    isDarkMode ? 'hover:bg-red-500/20 text-gray-400 hover:text-red-500' : 'hover:bg-red-500/20 text-gray-600 hover:text-red-500'
-                  }`}
-                  title="Delete project"
-                >
-                  <Trash2 size={18} />
-                </button>
+                {/* Delete button - owner only, appears on hover */}
+                {(!project.role || project.role === 'owner') && (
+                  <button
+                    onClick={(e) => confirmDelete(project.id, e)}
+                    className={`absolute top-3 right-3 p-2 rounded-lg transition-all opacity-0 group-hover:opacity-100 ${
+                      isDarkMode ? 'hover:bg-red-500/20 text-gray-400 hover:text-red-500' : 'hover:bg-red-500/20 text-gray-600 hover:text-red-500'
+                    }`}
+                    title="Delete project"
+                  >
+                    <Trash2 size={18} />
+                  </button>
+                )}
 
                 <h3 className={`text-lg font-semibold mb-2 pr-10 ${isDarkMode ? 'text-white' : 'text-gray-900'}`}>
                   {project.title}
@@ -261,6 +313,15 @@ export const Dashboard: React.FC = () => {
                   >
                     {project.status}
                   </span>
+                  {project.role && project.role !== 'owner' && (
+                    <span
+                      className="flex items-center space-x-1 px-2 py-1 rounded bg-purple-500/20 text-purple-400"
+                      title="Shared with you"
+                    >
+                      <Users size={12} />
+                      <span>{project.role}</span>
+                    </span>
+                  )}
                 </div>
               </motion.div>
             ))}
@@ -5,11 +5,9 @@ import { useProjectStore } from '../store/projectStore';
 import { useAuthStore } from '../store/authStore';
 import { FileText, CheckCircle, Clock, Archive, ChevronRight, Zap, ShieldCheck, Download, AlertCircle, Copy, Check, RefreshCw } from 'lucide-react';
 import { format } from 'date-fns';
-import axios from 'axios';
+import { generatedDocumentsApi } from '../services/api';
 import '../styles/homepage.css';
 
-const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001';
-
 export const DocumentsPage: React.FC = () => {
   const { isDarkMode } = useThemeStore();
   const { currentProject } = useProjectStore();
@@ -67,29 +65,25 @@ export const DocumentsPage: React.FC = () => {
     setGenerationMode(mode);
 
     try {
-      const endpoint = mode === 'quick'
-        ? `${API_URL}/api/generated-documents/quick-generate`
-        : `${API_URL}/api/generated-documents/verify-and-generate`;
-
-      const response = await axios.post(endpoint, {
-        projectId: currentProject.id,
-        documentType: selectedDocType,
-        userId: user.id,
-      });
-
-      if (response.data.success) {
-        setGeneratedDocument(response.data);
+      const generate = mode === 'quick'
+        ? generatedDocumentsApi.quickGenerate
+        : generatedDocumentsApi.verifyAndGenerate;
+
+      const data = await generate(currentProject.id, selectedDocType, user.id);
+
+      if (data.success) {
+        setGeneratedDocument(data);
         setShowDocumentModal(true);
         // Add to generation history
         setGenerationHistory(prev => [{
-          ...response.data,
+          ...data,
           type: selectedDocType,
           mode,
           timestamp: new Date().toISOString()
         }, ...prev.slice(0, 9)]); // Keep last 10
       } else {
-        console.error('Document generation failed:', response.data.message);
-        alert('Failed to generate document: ' + response.data.message);
+        console.error('Document generation failed:', data.message);
+        alert('Failed to generate document: ' + data.message);
       }
     } catch (error: any) {
       console.error('Error generating document:', error);
@@ -0,0 +1,104 @@
+import React, { useEffect, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { Users, AlertCircle, Loader2 } from 'lucide-react';
+import { useThemeStore } from '../store/themeStore';
+import { membersApi, getApiErrorMessage } from '../services/api';
+import type { ProjectRole } from '../types';
+import '../styles/homepage.css';
+
+interface InvitationPreview {
+  projectId: string;
+  projectTitle?: string;
+  projectDescription?: string;
+  role: ProjectRole;
+  email: string | null;
+}
+
+/**
+ * InvitePage - Landing page for /invite/:token links
+ * Shows which project the invitation is for and lets the signed-in user join it.
+ */
+export const InvitePage: React.FC = () => {
+  const { token } = useParams<{ token: string }>();
+  const navigate = useNavigate();
+  const { isDarkMode } = useThemeStore();
+  const [invitation, setInvitation] = useState<InvitationPreview | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [accepting, setAccepting] = useState(false);
+
+  // Apply homepage background
+  useEffect(() => {
+    document.body.classList.add('homepage-background');
+    return () => {
+      document.body.classList.remove('homepage-background');
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!token) return;
+
+    membersApi
+      .getInvitation(token)
+      .then(response => setInvitation(response.invitation))
+      .catch(err => setError(getApiErrorMessage(err, 'This invitation is no longer valid')));
+  }, [token]);
+
+  const handleAccept = async () => {
+    if (!token) return;
+
+    setAccepting(true);
+    try {
+      await membersApi.acceptInvitation(token);
+      navigate('/', { replace: true });
+    } catch (err) {
+      setError(getApiErrorMessage(err, 'Failed to accept invitation'));
+    } finally {
+      setAccepting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center px-4">
+      <div className={`${isDarkMode ? 'glass-dark' : 'glass'} max-w-md w-full p-8 rounded-3xl shadow-glass text-center`}>
+        <div className="inline-flex items-center justify-center w-16 h-16 rounded-2xl bg-cyan-primary/20 mb-4">
+          {error ? <AlertCircle className="text-red-500" size={32} /> : <Users className="text-cyan-primary" size={32} />}
+        </div>
+
+        {error ? (
+          <>
+            <p className={`text-lg mb-6 ${isDarkMode ? 'text-red-400' : 'text-red-600'}`}>{error}</p>
+            <button
+              onClick={() => navigate('/', { replace: true })}
+              className="px-4 py-2 rounded-lg bg-cyan-primary text-white hover:bg-cyan-600 transition-colors"
+            >
+              Go to dashboard
+            </button>
+          </>
+        ) : !invitation ? (
+          <Loader2 size={24} className="mx-auto animate-spin text-cyan-primary" />
+        ) : (
+          <>
+            <h1 className={`text-2xl font-bold mb-2 ${isDarkMode ? 'text-white' : 'text-gray-900'}`}>
+              Join “{invitation.projectTitle || 'Untitled project'}”
+            </h1>
+            {invitation.projectDescription && (
+              <p className={`text-sm mb-4 ${isDarkMode ? 'text-gray-300' : 'text-gray-600'}`}>
+                {invitation.projectDescription}
+              </p>
+            )}
+            <p className={`mb-6 ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+              You've been invited as <strong>{invitation.role}</strong>.
+            </p>
+            <button
+              onClick={handleAccept}
+              disabled={accepting}
+              className="w-full px-4 py-3 rounded-xl bg-cyan-primary text-white font-medium hover:bg-cyan-600 transition-colors disabled:opacity-50"
+            >
+              {accepting ? 'Joining...' : 'Accept invitation'}
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -1,11 +1,12 @@
 import { useState, useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useNavigate, useLocation } from 'react-router-dom';
 import { useUserStore } from '../store/userStore';
 import { Brain, Mail, Lock, AlertCircle } from 'lucide-react';
 import '../styles/homepage.css';
 
 export function LoginPage() {
   const navigate = useNavigate();
+  const location = useLocation();
   const { signInWithEmail, signUpWithEmail } = useUserStore();
 
   // Apply homepage background
@@ -53,8 +54,8 @@ export function LoginPage() {
       if (result.error) {
         setError(result.error.message || 'Authentication failed');
       } else {
-        // Successfully authenticated
-        navigate('/');
+        // Successfully authenticated - return to the page that required sign-in
+        navigate((location.state as { from?: string } | null)?.from || '/', { replace: true });
       }
     } catch (err) {
       setError('An unexpected error occurred');
@@ -2103,7 +2103,7 @@ const UserDocsTab: React.FC<UserDocsTabProps> = ({ sharedDocuments, onDocumentsU
                 type="file"
                 onChange={handleFileSelect}
                 className="hidden"
-                accept=".pdf,.doc,.docx,.xls,.xlsx,.ppt,.pptx,.txt,.md,.csv,.zip,.rar,.jpg,.jpeg,.png,.gif,.webp"
+                accept=".pdf,.doc,.docx,.xlsx,.pptx,.txt,.md,.csv,.zip,.rar,.jpg,.jpeg,.png,.gif,.webp"
               />
               <button
                 onClick={() => fileInputRef.current?.click()}
@@ -1,5 +1,5 @@
 import axios from 'axios';
-import type { Project, Message, Reference, Agent, Document, DocumentFolder, UserSession, SessionAnalytics, SessionSummary, SuggestedStep, Blocker } from '../types';
+import type { Project, Message, Reference, Agent, Document, DocumentFolder, UserSession, SessionAnalytics, SessionSummary, SuggestedStep, Blocker, ProjectMember, ProjectInvitation, ProjectRole, PresenceEntry, PresenceView, WorkflowTrace, ItemEvent, ItemBoardSnapshot, ProjectItem, StateChangeProposal, ProposalStatus, GeneratedDocument, DocumentVerification, PageArchive, ProjectMemory, MemoryFact, MemoryFactCategory, AnalysisTemplate, AnalysisTemplateField, AnalysisTemplateScope, AnalysisTemplateVersion } from '../types';
 import { supabase } from './supabase';
 
 const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
@@ -12,6 +12,13 @@ const api = axios.create({
   timeout: 90000, // 90 seconds for slow AI agent responses
 });
 
+// Realtime connection of this tab, so the server doesn't echo our own changes back
+let realtimeConnectionId: string | null = null;
+
+export const setRealtimeConnectionId = (connectionId: string | null) => {
+  realtimeConnectionId = connectionId;
+};
+
 // Add authentication token to all requests
 api.interceptors.request.use(
   async (config) => {
@@ -23,6 +30,9 @@ api.interceptors.request.use(
     } catch (error) {
       console.error('Error getting session for API request:', error);
     }
+    if (realtimeConnectionId) {
+      config.headers['X-Realtime-Connection'] = realtimeConnectionId;
+    }
     return config;
   },
   (error) => {
@@ -149,6 +159,187 @@ export const projectsApi = {
   },
 };
 
+// Members & Invitations API
+// Pull the backend's `{ success: false, error }` message out of a failed request
+export const getApiErrorMessage = (error: unknown, fallback: string): string => {
+  if (axios.isAxiosError<{ error?: string }>(error)) {
+    return error.response?.data?.error || fallback;
+  }
+  return fallback;
+};
+
+// HTTP status of a failed request (e.g. 409 to offer an override)
+export const getApiErrorStatus = (error: unknown): number | undefined =>
+  axios.isAxiosError(error) ? error.response?.status : undefined;
+
+export const membersApi = {
+  list: async (projectId: string) => {
+    const response = await api.get<{ success: boolean; members: ProjectMember[]; role: ProjectRole }>(
+      `/projects/${projectId}/members`
+    );
+    return response.data;
+  },
+
+  updateRole: async (projectId: string, memberId: string, role: Exclude<ProjectRole, 'owner'>) => {
+    const response = await api.patch<{ success: boolean; member: ProjectMember }>(
+      `/projects/${projectId}/members/${memberId}`,
+      { role }
+    );
+    return response.data;
+  },
+
+  remove: async (projectId: string, memberId: string) => {
+    const response = await api.delete<{ success: boolean }>(`/projects/${projectId}/members/${memberId}`);
+    return response.data;
+  },
+
+  listInvitations: async (projectId: string) => {
+    const response = await api.get<{ success: boolean; invitations: ProjectInvitation[] }>(
+      `/projects/${projectId}/invitations`
+    );
+    return response.data;
+  },
+
+  // Omit email to create a shareable link
+  invite: async (projectId: string, role: Exclude<ProjectRole, 'owner'>, email?: string) => {
+    const response = await api.post<{ success: boolean; invitation: ProjectInvitation }>(
+      `/projects/${projectId}/invitations`,
+      { role, email }
+    );
+    return response.data;
+  },
+
+  revokeInvitation: async (projectId: string, invitationId: string) => {
+    const response = await api.delete<{ success: boolean }>(`/projects/${projectId}/invitations/${invitationId}`);
+    return response.data;
+  },
+
+  getPendingInvitations: async () => {
+    const response = await api.get<{ success: boolean; invitations: ProjectInvitation[] }>('/invitations/pending');
+    return response.data;
+  },
+
+  getInvitation: async (token: string) => {
+    const response = await api.get<{
+      success: boolean;
+      invitation: {
+        projectId: string;
+        projectTitle?: string;
+        projectDescription?: string;
+        role: ProjectRole;
+        email: string | null;
+        expiresAt: string | null;
+      };
+    }>(`/invitations/${token}`);
+    return response.data;
+  },
+
+  acceptInvitation: async (token: string) => {
+    const response = await api.post<{ success: boolean; member: ProjectMember; projectId: string }>(
+      `/invitations/${token}/accept`
+    );
+    return response.data;
+  },
+};
+
+// Item History API (audit log, undo and board timeline)
+export const itemHistoryApi = {
+  list: async (projectId: string, options: { itemId?: string; before?: string; limit?: number } = {}) => {
+    const response = await api.get<{ success: boolean; events: ItemEvent[] }>(
+      `/projects/${projectId}/items/history`,
+      { params: options }
+    );
+    return response.data;
+  },
+
+  getBoard: async (projectId: string, at: string) => {
+    const response = await api.get<{ success: boolean; board: ItemBoardSnapshot }>(
+      `/projects/${projectId}/items/board`,
+      { params: { at } }
+    );
+    return response.data;
+  },
+
+  // force overwrites changes made to the item after this event
+  undo: async (projectId: string, eventId: string, force: boolean = false) => {
+    const response = await api.post<{ success: boolean; items: ProjectItem[]; events: ItemEvent[] }>(
+      `/projects/${projectId}/items/history/${eventId}/undo`,
+      { force }
+    );
+    return response.data;
+  },
+};
+
+// Approval queue for agent-proposed item changes
+export const approvalsApi = {
+  getSettings: async (projectId: string) => {
+    const response = await api.get<{ success: boolean; settings: { requireApproval: boolean } }>(
+      `/projects/${projectId}/approvals/settings`
+    );
+    return response.data;
+  },
+
+  // Owner only
+  updateSettings: async (projectId: string, requireApproval: boolean) => {
+    const response = await api.put<{ success: boolean; settings: { requireApproval: boolean } }>(
+      `/projects/${projectId}/approvals/settings`,
+      { requireApproval }
+    );
+    return response.data;
+  },
+
+  list: async (projectId: string, status: ProposalStatus = 'pending') => {
+    const response = await api.get<{ success: boolean; proposals: StateChangeProposal[] }>(
+      `/projects/${projectId}/approvals`,
+      { params: { status } }
+    );
+    return response.data;
+  },
+
+  approve: async (projectId: string, ids: string[]) => {
+    const response = await api.post<{
+      success: boolean;
+      approved: StateChangeProposal[];
+      failed: { id: string; error: string }[];
+      items: ProjectItem[];
+    }>(`/projects/${projectId}/approvals/approve`, { ids });
+    return response.data;
+  },
+
+  reject: async (projectId: string, ids: string[], note?: string) => {
+    const response = await api.post<{ success: boolean; rejected: StateChangeProposal[] }>(
+      `/projects/${projectId}/approvals/reject`,
+      { ids, note }
+    );
+    return response.data;
+  },
+};
+
+export interface SendMessageResult {
+  success: boolean;
+  userMessage: Message;
+  agentMessages: Message[];
+  updates: any;
+  workflow: any;
+}
+
+export interface MessageStreamHandlers {
+  onUserMessage?: (message: Message) => void;
+  // Text delta of the conversation reply as it is generated
+  onToken?: (text: string) => void;
+}
+
+// Parse one SSE event block ("event: x\ndata: {...}")
+const parseSSEEvent = (block: string): { event: string; data: Record<string, unknown> } | null => {
+  let event = 'message';
+  const data: string[] = [];
+  for (const line of block.split('\n')) {
+    if (line.startsWith('event:')) event = line.slice(6).trim();
+    else if (line.startsWith('data:')) data.push(line.slice(5).trim());
+  }
+  return data.length > 0 ? { event, data: JSON.parse(data.join('\n')) } : null;
+};
+
 // Conversations API
 export const conversationsApi = {
   sendMessage: async (projectId: string, message: string, userId: string) => {
@@ -157,13 +348,10 @@ export const conversationsApi = {
     console.log('  - Payload:', { message, userId });
 
     try {
-      const response = await api.post<{
-        success: boolean;
-        userMessage: Message;
-        agentMessages: Message[];
-        updates: any;
-        workflow: any;
-      }>(`/conversations/${projectId}/message`, { message, userId });
+      const response = await api.post<SendMessageResult>(
+        `/conversations/${projectId}/message`,
+        { message, userId }
+      );
 
       console.log('📡 conversationsApi.sendMessage success:', response.status);
       return response.data;
@@ -176,6 +364,69 @@ export const conversationsApi = {
     }
   },
 
+  // Streams the reply over SSE (fetch, since EventSource can't POST); aborting the signal cancels it
+  sendMessageStream: async (
+    projectId: string,
+    message: string,
+    userId: string,
+    handlers: MessageStreamHandlers,
+    signal?: AbortSignal
+  ): Promise<SendMessageResult> => {
+    const { data: { session } } = await supabase.auth.getSession();
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (session?.access_token) {
+      headers.Authorization = `Bearer ${session.access_token}`;
+    }
+    if (realtimeConnectionId) {
+      headers['X-Realtime-Connection'] = realtimeConnectionId;
+    }
+
+    const response = await fetch(`${API_BASE_URL}/conversations/${projectId}/message-stream`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ message, userId }),
+      signal,
+    });
+
+    if (!response.ok || !response.body) {
+      const body = await response.json().catch(() => null);
+      throw new Error(body?.error || `Request failed with status ${response.status}`);
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      let boundary = buffer.indexOf('\n\n');
+      while (boundary !== -1) {
+        const parsed = parseSSEEvent(buffer.slice(0, boundary));
+        buffer = buffer.slice(boundary + 2);
+        boundary = buffer.indexOf('\n\n');
+        if (!parsed) continue;
+
+        switch (parsed.event) {
+          case 'user-message-saved':
+            handlers.onUserMessage?.(parsed.data.message as Message);
+            break;
+          case 'token':
+            handlers.onToken?.(parsed.data.text as string);
+            break;
+          case 'complete':
+            return parsed.data as unknown as SendMessageResult;
+          case 'error':
+            throw new Error((parsed.data.message as string) || 'Processing failed');
+        }
+      }
+    }
+
+    throw new Error('The reply stream ended unexpectedly');
+  },
+
   getMessages: async (projectId: string, limit = 50, offset = 0) => {
     const response = await api.get<{ 
       success: boolean; 
@@ -748,6 +999,24 @@ export const generatedDocumentsApi = {
     return response.data;
   },
 
+  // Generate a document straight from the project's current state
+  quickGenerate: async (projectId: string, documentType: string, userId: string) => {
+    const response = await api.post<{ success: boolean; message?: string } & Record<string, unknown>>(
+      '/generated-documents/quick-generate',
+      { projectId, documentType, userId }
+    );
+    return response.data;
+  },
+
+  // Verify project items against references, then generate the document
+  verifyAndGenerate: async (projectId: string, documentType: string, userId: string) => {
+    const response = await api.post<{ success: boolean; message?: string } & Record<string, unknown>>(
+      '/generated-documents/verify-and-generate',
+      { projectId, documentType, userId }
+    );
+    return response.data;
+  },
+
   // Delete a generated document
   delete: async (documentId: string) => {
     const response = await api.delete<{ success: boolean; message: string }>(
@@ -818,6 +1087,26 @@ export const generatedDocumentsApi = {
     return response.data;
   },
 
+  // Get the claim-level verification of a document (stale once the content changed)
+  getVerification: async (documentId: string) => {
+    const response = await api.get<{
+      success: boolean;
+      verification: DocumentVerification | null;
+      stale: boolean;
+    }>(`/generated-documents/${documentId}/verification`);
+    return response.data;
+  },
+
+  // Check each claim of a document against decisions, messages and references
+  verify: async (documentId: string) => {
+    const response = await api.post<{
+      success: boolean;
+      verification: DocumentVerification;
+      stale: boolean;
+    }>(`/generated-documents/${documentId}/verify`);
+    return response.data;
+  },
+
   // Save a document preview to the project
   savePreview: async (data: {
     projectId: string;
@@ -828,7 +1117,7 @@ export const generatedDocumentsApi = {
   }) => {
     const response = await api.post<{
       success: boolean;
-      document: any;
+      document: GeneratedDocument;
       message: string;
     }>('/generated-documents/save-preview', data);
     return response.data;
@@ -887,6 +1176,66 @@ export const canvasApi = {
     );
     return response.data;
   },
+
+  // Persist card moves (only the listed cards are touched)
+  updatePositions: async (projectId: string, positions: { itemId: string; x: number; y: number }[]) => {
+    const response = await api.patch<{ success: boolean; updated: number }>(
+      `/canvas/${projectId}/positions`,
+      { positions }
+    );
+    return response.data;
+  },
+};
+
+// Realtime API (project event stream and presence)
+export const realtimeApi = {
+  // EventSource can't send headers, so the token goes in the query string
+  getStreamUrl: async (projectId: string, view: PresenceView) => {
+    const { data: { session } } = await supabase.auth.getSession();
+    const params = new URLSearchParams({ view });
+    if (session?.access_token) {
+      params.set('access_token', session.access_token);
+    }
+    return `${API_BASE_URL}/realtime/${projectId}/stream?${params.toString()}`;
+  },
+
+  getPresence: async (projectId: string) => {
+    const response = await api.get<{ success: boolean; presence: PresenceEntry[] }>(
+      `/realtime/${projectId}/presence`
+    );
+    return response.data;
+  },
+
+  updatePresence: async (projectId: string, connectionId: string, view: PresenceView) => {
+    const response = await api.put<{ success: boolean }>(
+      `/realtime/${projectId}/presence`,
+      { connectionId, view }
+    );
+    return response.data;
+  },
+};
+
+// Workflow Traces API (per-message agent timelines)
+export const tracesApi = {
+  list: async (projectId: string, limit: number = 50) => {
+    const response = await api.get<{ success: boolean; traces: Omit<WorkflowTrace, 'steps'>[] }>(
+      `/traces/${projectId}`,
+      { params: { limit } }
+    );
+    return response.data;
+  },
+
+  get: async (projectId: string, traceId: string) => {
+    const response = await api.get<{ success: boolean; trace: WorkflowTrace }>(`/traces/${projectId}/${traceId}`);
+    return response.data;
+  },
+
+  getForMessage: async (projectId: string, messageId: string) => {
+    const response = await api.get<{ success: boolean; trace: WorkflowTrace }>(
+      `/traces/${projectId}/messages/${messageId}`
+    );
+    return response.data;
+  },
 };
 
 // Research API
@@ -932,6 +1281,132 @@ export const researchApi = {
   },
 };
 
+/**
+ * Archived copies of pages cited by research
+ */
+export const pageArchivesApi = {
+  get: async (archiveId: string) => {
+    const response = await api.get<{
+      success: boolean;
+      archive: PageArchive;
+      screenshotUrl: string | null;
+    }>(`/page-archives/${archiveId}`);
+    return response.data;
+  },
+};
+
+/**
+ * Project memory API - rolling conversation summary and remembered facts
+ */
+type MemoryFactInput = { category: MemoryFactCategory; content: string; reason?: string | null };
+
+export const projectMemoryApi = {
+  get: async (projectId: string) => {
+    const response = await api.get<{ success: boolean; memory: ProjectMemory }>(`/projects/${projectId}/memory`);
+    return response.data;
+  },
+
+  updateSummary: async (projectId: string, summary: string) => {
+    const response = await api.put<{ success: boolean; memory: ProjectMemory }>(
+      `/projects/${projectId}/memory/summary`,
+      { summary }
+    );
+    return response.data;
+  },
+
+  /** Fold messages not yet in memory now instead of waiting for a full batch */
+  refresh: async (projectId: string) => {
+    const response = await api.post<{ success: boolean; memory: ProjectMemory; updated: boolean }>(
+      `/projects/${projectId}/memory/refresh`
+    );
+    return response.data;
+  },
+
+  addFact: async (projectId: string, fact: MemoryFactInput) => {
+    const response = await api.post<{ success: boolean; fact: MemoryFact }>(`/projects/${projectId}/memory/facts`, fact);
+    return response.data;
+  },
+
+  updateFact: async (projectId: string, factId: string, fact: MemoryFactInput) => {
+    const response = await api.put<{ success: boolean; fact: MemoryFact }>(
+      `/projects/${projectId}/memory/facts/${factId}`,
+      fact
+    );
+    return response.data;
+  },
+
+  deleteFact: async (projectId: string, factId: string) => {
+    const response = await api.delete<{ success: boolean }>(`/projects/${projectId}/memory/facts/${factId}`);
+    return response.data;
+  },
+};
+
+/**
+ * Analysis templates API - built-in templates plus custom ones stored per user, project or organization
+ */
+type AnalysisTemplateInput = Partial<Pick<AnalysisTemplate, 'name' | 'description' | 'icon' | 'outputFormat' | 'systemPrompt'>> & {
+  fields?: AnalysisTemplateField[];
+  scope?: AnalysisTemplateScope;
+  projectId?: string;
+};
+
+export const analysisTemplatesApi = {
+  /** Built-ins and visible custom templates; project templates are included when projectId is given */
+  list: async (projectId?: string) => {
+    const response = await api.get<{ success: boolean; templates: AnalysisTemplate[]; count: number }>(
+      '/analysis-templates',
+      { params: projectId ? { projectId } : undefined }
+    );
+    return response.data;
+  },
+
+  get: async (templateId: string) => {
+    const response = await api.get<{ success: boolean; template: AnalysisTemplate }>(`/analysis-templates/${templateId}`);
+    return response.data;
+  },
+
+  create: async (template: AnalysisTemplateInput) => {
+    const response = await api.post<{ success: boolean; template: AnalysisTemplate }>('/analysis-templates/custom', template);
+    return response.data;
+  },
+
+  /** Copy a built-in or custom template into a new custom template */
+  clone: async (templateId: string, options: Pick<AnalysisTemplateInput, 'name' | 'description' | 'scope' | 'projectId'> = {}) => {
+    const response = await api.post<{ success: boolean; template: AnalysisTemplate }>(
+      `/analysis-templates/${templateId}/clone`,
+      options
+    );
+    return response.data;
+  },
+
+  update: async (templateId: string, changes: AnalysisTemplateInput) => {
+    const response = await api.put<{ success: boolean; template: AnalysisTemplate }>(
+      `/analysis-templates/${templateId}`,
+      changes
+    );
+    return response.data;
+  },
+
+  delete: async (templateId: string) => {
+    const response = await api.delete<{ success: boolean }>(`/analysis-templates/${templateId}`);
+    return response.data;
+  },
+
+  listVersions: async (templateId: string) => {
+    const response = await api.get<{ success: boolean; versions: AnalysisTemplateVersion[] }>(
+      `/analysis-templates/${templateId}/versions`
+    );
+    return response.data;
+  },
+
+  restoreVersion: async (templateId: string, version: number) => {
+    const response = await api.post<{ success: boolean; template: AnalysisTemplate }>(
+      `/analysis-templates/${templateId}/versions/${version}/restore`
+    );
+    return response.data;
+  },
+};
+
 /**
  * Unified Research API (Phase 3.3)
  */
@@ -1,23 +1,62 @@
-import { supabase } from './supabase';
+import api from './api';
+
+export type SearchResultType = 'project' | 'message' | 'document' | 'generated_document' | 'reference';
+
+export interface SearchPassage {
+  chunkIndex: number;
+  content: string;
+  location: string | null;
+  pageStart: number | null;
+  pageEnd: number | null;
+  section: string | null;
+  charStart: number | null;
+  charEnd: number | null;
+  startSeconds: number | null;
+  endSeconds: number | null;
+}
 
 export interface SearchResult {
   id: string;
-  type: 'project' | 'message' | 'document' | 'reference';
+  type: SearchResultType;
   title: string;
   content: string;
   date: string;
   relevance: number;
   projectId?: string;
+  /** Passage that matched, with its page/section or time range */
+  passage?: SearchPassage | null;
+  /** How the result matched: exact terms, meaning, or both */
+  matchedBy?: 'keyword' | 'semantic' | 'both';
 }
 
 export interface SearchOptions {
   limit?: number;
-  types?: Array<'project' | 'message' | 'document' | 'reference'>;
+  types?: SearchResultType[];
   projectId?: string;
 }
 
+interface SearchResponse {
+  success: boolean;
+  results: Array<{
+    id: string;
+    type: SearchResultType;
+    projectId: string;
+    title: string;
+    snippet: string;
+    date: string;
+    score: number;
+    keywordScore: number;
+    vectorScore: number | null;
+    passage: SearchPassage | null;
+  }>;
+}
+
+// Similarity above which a result counts as a semantic match
+const SEMANTIC_MATCH_THRESHOLD = 0.3;
+
 /**
  * Performs a comprehensive search across all project data
+ * Ranked on the server by fused keyword (BM25) and vector similarity.
  */
 export async function universalSearch(
   query: string,
@@ -29,146 +68,31 @@ export async function universalSearch(
     return [];
   }
 
-  const searchPattern = `%${query.toLowerCase()}%`;
-  const allResults: SearchResult[] = [];
-  const shouldSearch = (type: string) => !types || types.includes(type as any);
-
   try {
-    // Search projects
-    if (shouldSearch('project')) {
-      const projectQuery = supabase
-        .from('projects')
-        .select('id, title, description, status, updated_at')
-        .or(`title.ilike.${searchPattern},description.ilike.${searchPattern}`)
-        .order('updated_at', { ascending: false })
-        .limit(10);
-
-      if (projectId) {
-        projectQuery.eq('id', projectId);
-      }
-
-      const { data: projects, error: projectsError } = await projectQuery;
-
-      if (projectsError) {
-        console.error('Error searching projects:', projectsError);
-      } else if (projects) {
-        allResults.push(
-          ...projects.map((p) => ({
-            id: p.id,
-            type: 'project' as const,
-            title: p.title,
-            content: p.description || `Status: ${p.status}`,
-            date: p.updated_at,
-            relevance: calculateRelevance(query, p.title, p.description),
-            projectId: p.id,
-          }))
-        );
-      }
-    }
-
-    // Search messages
-    if (shouldSearch('message')) {
-      const messageQuery = supabase
-        .from('messages')
-        .select('id, project_id, content, role, agent_type, created_at')
-        .ilike('content', searchPattern)
-        .order('created_at', { ascending: false })
-        .limit(15);
-
-      if (projectId) {
-        messageQuery.eq('project_id', projectId);
-      }
-
-      const { data: messages, error: messagesError } = await messageQuery;
-
-      if (messagesError) {
-        console.error('Error searching messages:', messagesError);
-      } else if (messages) {
-        allResults.push(
-          ...messages.map((m) => ({
-            id: m.id,
-            type: 'message' as const,
-            title: `${m.role === 'user' ? 'You' : 'Assistant'}${
-              m.agent_type ? ` (${m.agent_type})` : ''
-            }`,
-            content: m.content.substring(0, 150),
-            date: m.created_at,
-            relevance: calculateRelevance(query, m.content),
-            projectId: m.project_id,
-          }))
-        );
-      }
-    }
-
-    // Search documents
-    if (shouldSearch('document')) {
-      const documentQuery = supabase
-        .from('documents')
-        .select('id, project_id, filename, description, created_at')
-        .or(`filename.ilike.${searchPattern},description.ilike.${searchPattern}`)
-        .order('created_at', { ascending: false })
-        .limit(10);
-
-      if (projectId) {
-        documentQuery.eq('project_id', projectId);
-      }
-
-      const { data: documents, error: documentsError } = await documentQuery;
-
-      if (documentsError) {
-        console.error('Error searching documents:', documentsError);
-      } else if (documents) {
-        allResults.push(
-          ...documents.map((d) => ({
-            id: d.id,
-            type: 'document' as const,
-            title: d.filename,
-            content: d.description || 'Document file',
-            date: d.created_at,
-            relevance: calculateRelevance(query, d.filename, d.description),
-            projectId: d.project_id,
-          }))
-        );
-      }
-    }
-
-    // Search references
-    if (shouldSearch('reference')) {
-      const referenceQuery = supabase
-        .from('references')
-        .select('id, project_id, filename, type, analysis, created_at')
-        .or(`filename.ilike.${searchPattern},analysis.ilike.${searchPattern}`)
-        .order('created_at', { ascending: false })
-        .limit(10);
-
-      if (projectId) {
-        referenceQuery.eq('project_id', projectId);
-      }
-
-      const { data: references, error: referencesError } = await referenceQuery;
-
-      if (referencesError) {
-        console.error('Error searching references:', referencesError);
-      } else if (references) {
-        allResults.push(
-          ...references.map((r) => ({
-            id: r.id,
-            type: 'reference' as const,
-            title: r.filename || `${r.type} reference`,
-            content: r.analysis || `${r.type} file`,
-            date: r.created_at,
-            relevance: calculateRelevance(query, r.filename, r.analysis),
-            projectId: r.project_id,
-          }))
-        );
-      }
-    }
-
-    // Sort by relevance
-    allResults.sort((a, b) => b.relevance - a.relevance);
-
-    // Limit total results
-    return allResults.slice(0, limit);
+    const response = await api.get<SearchResponse>('/search', {
+      params: {
+        q: query,
+        limit,
+        projectId,
+        types: types?.join(','),
+      },
+    });
+
+    return response.data.results.map((result) => {
+      const keyword = result.keywordScore > 0;
+      const semantic = (result.vectorScore ?? 0) >= SEMANTIC_MATCH_THRESHOLD;
+      return {
+        id: result.id,
+        type: result.type,
+        title: result.title,
+        content: result.snippet,
+        date: result.date,
+        relevance: Math.round(result.score * 100),
+        projectId: result.projectId,
+        passage: result.passage,
+        matchedBy: keyword && semantic ? 'both' : keyword ? 'keyword' : 'semantic',
+      };
+    });
   } catch (error) {
     console.error('Universal search error:', error);
     return [];
@@ -176,56 +100,16 @@ export async function universalSearch(
 }
 
 /**
- * Calculate relevance score for search results (0-100)
+ * Where in an item a passage sits: "p. 4 · Pricing", or "at 12:05" for recordings
  */
-function calculateRelevance(query: string, ...texts: (string | null | undefined)[]): number {
-  const queryLower = query.toLowerCase();
-  let maxRelevance = 0;
-
-  for (const text of texts) {
-    if (!text) continue;
-    const textLower = text.toLowerCase();
-
-    // Exact match
-    if (textLower === queryLower) {
-      maxRelevance = Math.max(maxRelevance, 100);
-      continue;
-    }
-
-    // Starts with query
-    if (textLower.startsWith(queryLower)) {
-      maxRelevance = Math.max(maxRelevance, 95);
-      continue;
-    }
-
-    // Contains query as whole word
-    const words = textLower.split(/\s+/);
-    if (words.some((word) => word === queryLower)) {
-      maxRelevance = Math.max(maxRelevance, 90);
-      continue;
-    }
-
-    // Contains query
-    if (textLower.includes(queryLower)) {
-      const position = textLower.indexOf(queryLower);
-      const relativePosition = position / textLower.length;
-      maxRelevance = Math.max(maxRelevance, Math.floor(85 - relativePosition * 10));
-      continue;
-    }
-
-    // Fuzzy match (check if all query characters appear in order)
-    let queryIndex = 0;
-    for (let i = 0; i < textLower.length && queryIndex < queryLower.length; i++) {
-      if (textLower[i] === queryLower[queryIndex]) {
-        queryIndex++;
-      }
-    }
-    if (queryIndex === queryLower.length) {
-      maxRelevance = Math.max(maxRelevance, 70);
-    }
+export function describePassage(passage: Pick<SearchPassage, 'location' | 'startSeconds'> | null | undefined): string | null {
+  if (!passage) return null;
+  if (passage.location) return passage.location;
+  if (passage.startSeconds !== null) {
+    const total = Math.floor(passage.startSeconds);
+    return `at ${Math.floor(total / 60)}:${String(total % 60).padStart(2, '0')}`;
   }
-
-  return maxRelevance;
+  return null;
 }
 
 /**
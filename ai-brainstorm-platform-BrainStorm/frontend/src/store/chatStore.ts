@@ -4,12 +4,16 @@ import type { Message } from '../types';
 interface ChatState {
   messages: Message[];
   isTyping: boolean;
+  // Text of the reply being streamed, null when no reply is streaming
+  streamingReply: string | null;
   activeAgents: string[];
   addMessage: (message: Message) => void;
   addMessages: (messages: Message[]) => void;
   setMessages: (messages: Message[]) => void;
   clearMessages: () => void;
   setIsTyping: (isTyping: boolean) => void;
+  setStreamingReply: (text: string | null) => void;
+  appendStreamingReply: (delta: string) => void;
   setActiveAgents: (agents: string[]) => void;
 }
 
@@ -18,6 +22,7 @@ interface ChatState {
 export const useChatStore = create<ChatState>((set) => ({
   messages: [],
   isTyping: false,
+  streamingReply: null,
   activeAgents: [],
   addMessage: (message) => set((state) => ({
     messages: [...state.messages, message]
@@ -26,7 +31,11 @@ export const useChatStore = create<ChatState>((set) => ({
     messages: [...state.messages, ...messages]
   })),
   setMessages: (messages) => set({ messages }),
-  clearMessages: () => set({ messages: [], isTyping: false, activeAgents: [] }),
+  clearMessages: () => set({ messages: [], isTyping: false, streamingReply: null, activeAgents: [] }),
   setIsTyping: (isTyping) => set({ isTyping }),
+  setStreamingReply: (streamingReply) => set({ streamingReply }),
+  appendStreamingReply: (delta) => set((state) => ({
+    streamingReply: (state.streamingReply ?? '') + delta
+  })),
   setActiveAgents: (agents) => set({ activeAgents: agents }),
 }));
@@ -24,6 +24,7 @@ interface ProjectState {
   // Incremental update actions
   addItems: (items: import('../types').ProjectItem[]) => void;
   updateItems: (items: import('../types').ProjectItem[]) => void;
+  removeItems: (itemIds: string[]) => void;
   // Selection actions
   toggleCardSelection: (itemId: string) => void;
   selectAllCards: () => void;
@@ -280,6 +281,23 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
     };
   }),
 
+  removeItems: (itemIds) => set((state) => {
+    if (!state.currentProject || itemIds.length === 0) return state;
+
+    const removed = new Set(itemIds);
+    const updatedProject = {
+      ...state.currentProject,
+      items: state.currentProject.items.filter(item => !removed.has(item.id)),
+    };
+
+    return {
+      currentProject: updatedProject,
+      projects: state.projects.map(p =>
+        p.id === updatedProject.id ? updatedProject : p
+      ),
+    };
+  }),
+
   // Selection actions
   toggleCardSelection: (itemId) => set((state) => {
     const newSelection = new Set(state.selectedCardIds);
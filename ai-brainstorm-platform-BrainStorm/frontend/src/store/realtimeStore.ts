@@ -0,0 +1,52 @@
+import { create } from 'zustand';
+import type { PresenceEntry, PresenceView } from '../types';
+
+export interface DocumentChange {
+  change: 'generated' | 'updated' | 'deleted';
+  document: {
+    id: string;
+    document_type: string;
+    title: string;
+    version: number;
+    updated_at: string;
+  };
+  receivedAt: number;
+}
+
+export interface ApprovalChange {
+  change: 'queued' | 'decided' | 'settings';
+  receivedAt: number;
+}
+
+interface RealtimeState {
+  connectionId: string | null;
+  isConnected: boolean;
+  presence: PresenceEntry[];
+  // What this tab is looking at (reported to collaborators)
+  view: PresenceView;
+  // Latest generated-document change, for document views to react to
+  lastDocumentChange: DocumentChange | null;
+  // Latest approval-queue change, for the approvals panel to reload
+  lastApprovalChange: ApprovalChange | null;
+  setConnection: (connectionId: string | null) => void;
+  setPresence: (presence: PresenceEntry[]) => void;
+  setView: (view: PresenceView) => void;
+  setLastDocumentChange: (change: DocumentChange) => void;
+  setLastApprovalChange: (change: ApprovalChange) => void;
+  reset: () => void;
+}
+
+export const useRealtimeStore = create<RealtimeState>((set) => ({
+  connectionId: null,
+  isConnected: false,
+  presence: [],
+  view: 'chat',
+  lastDocumentChange: null,
+  lastApprovalChange: null,
+  setConnection: (connectionId) => set({ connectionId, isConnected: !!connectionId }),
+  setPresence: (presence) => set({ presence }),
+  setView: (view) => set({ view }),
+  setLastDocumentChange: (change) => set({ lastDocumentChange: change }),
+  setLastApprovalChange: (change) => set({ lastApprovalChange: change }),
+  reset: () => set({ connectionId: null, isConnected: false, presence: [], lastDocumentChange: null, lastApprovalChange: null }),
+}));
@@ -78,16 +78,53 @@ export function assertUUID(value: unknown, message?: string): asserts value is U
 // Project types
 export interface Project {
   id: UUID;
-  user_id: UUID;
+  user_id: UUID; // Owner
   title: string;
   description: string;
   status: 'decided' | 'exploring' | 'parked' | 'rejected';
   items: ProjectItem[];
   clusters?: ClusterMetadata[]; // Canvas cluster metadata
+  role?: ProjectRole; // Current user's role, included in project lists
   created_at: ISODateString;
   updated_at: ISODateString;
 }
 
+// Collaboration types
+export type ProjectRole = 'owner' | 'editor' | 'commenter' | 'viewer';
+
+export interface ProjectMember {
+  id?: string;
+  project_id: UUID;
+  user_id: UUID;
+  email?: string | null;
+  role: ProjectRole;
+  invited_by?: UUID | null;
+  created_at?: ISODateString;
+}
+
+export interface ProjectInvitation {
+  id: string;
+  project_id: UUID;
+  email: string | null; // null for shareable links
+  role: Exclude<ProjectRole, 'owner'>;
+  token: string;
+  url: string;
+  status: 'pending' | 'accepted' | 'revoked';
+  expires_at: ISODateString | null;
+  created_at: ISODateString;
+  project_title?: string;
+}
+
+// Realtime presence: who has the project open and where
+export type PresenceView = 'chat' | 'canvas' | 'documents' | 'intelligence' | 'research' | 'sandbox' | 'other';
+
+export interface PresenceEntry {
+  userId: string;
+  email?: string;
+  view: PresenceView;
+  since: ISODateString;
+}
+
 export interface ClusterMetadata {
   id: string;
   name: string;
@@ -136,6 +173,67 @@ export interface ProjectItem {
   clusterId?: string;                    // For grouping
   isArchived?: boolean;                  // Archive flag
   archivedAt?: string;                   // Archive timestamp (ISO string)
+  // Collaboration attribution (set by the backend)
+  created_by?: UUID;                     // Member whose message or edit created the item
+  updated_by?: UUID;                     // Member who last changed the item
+  updated_at?: string;
+}
+
+// Item history types (append-only log of item changes)
+export type ItemEventType = 'created' | 'moved' | 'edited' | 'deleted';
+
+export interface ItemEvent {
+  id: string;
+  projectId: UUID;
+  itemId: string;
+  type: ItemEventType;
+  fromState: ProjectItem['state'] | null;
+  toState: ProjectItem['state'] | null;
+  before: ProjectItem | null;
+  after: ProjectItem | null;
+  actorType: 'user' | 'agent';
+  actorId: string;                       // User id, or agent name for agent changes
+  userId: UUID | null;                   // Member whose edit or message caused the change
+  sourceMessageId: string | null;
+  traceId: string | null;
+  undoOf: string | null;                 // Event this one reverses
+  undoneBy?: string | null;              // Event that reversed this one
+  createdAt: ISODateString;
+}
+
+export interface ItemBoardSnapshot {
+  at: ISODateString;
+  items: ProjectItem[];
+  counts: Record<ProjectItem['state'], number>;
+  eventsReverted: number;
+}
+
+// Approval queue types (agent-proposed item changes awaiting a member)
+export type ProposalStatus = 'pending' | 'approved' | 'rejected';
+
+export interface StateChange {
+  type: 'add' | 'move' | 'delete';
+  from?: ProjectItem['state'];
+  to?: ProjectItem['state'];
+  item: string;
+}
+
+export interface StateChangeProposal {
+  id: string;
+  projectId: UUID;
+  change: StateChange;
+  itemId: string | null;                 // Target item for move/delete
+  item: ProjectItem | null;              // Item to create for add
+  agent: { name: string; reasoning: string | null; confidence: number | null };
+  intent: { type: string; confidence: number; reasoning: string } | null;  // Intent classification behind it
+  userId: UUID | null;                   // Member whose message led to the proposal
+  sourceMessageId: string | null;
+  traceId: string | null;
+  status: ProposalStatus;
+  decidedBy: UUID | null;
+  decidedAt: ISODateString | null;
+  decisionNote: string | null;
+  createdAt: ISODateString;
 }
 
 /**
@@ -233,6 +331,21 @@ export function isAgentQuestionArray(value: unknown): value is AgentQuestion[] {
 /**
  * Strict metadata interface for Message - no index signature
  */
+// A source an agent reply cites as [marker]; location fields are null when unknown
+export interface MessageCitation {
+  marker: number;
+  sourceType: 'reference' | 'generated_document' | 'message';
+  sourceId: string;
+  title: string;
+  location: string | null; // e.g. "p. 3 · Pricing"
+  pageStart: number | null;
+  pageEnd: number | null;
+  charStart: number | null; // Offsets into the source's extracted text
+  charEnd: number | null;
+  startSeconds: number | null; // Audio/video references
+  quote: string;
+}
+
 export interface MessageMetadata {
   agent?: string;
   fallback?: boolean;
@@ -247,6 +360,8 @@ export interface MessageMetadata {
     specificsDetected: number;
     mentionedTech?: string[];
   };
+  traceId?: string; // Workflow run that produced this message
+  citations?: MessageCitation[]; // Sources cited as [n] in the content
 }
 
 /**
@@ -277,6 +392,69 @@ export interface Message {
   created_at: string;
 }
 
+// Workflow trace types (timeline of the agents run for a message)
+export type WorkflowTraceStepStatus = 'completed' | 'no_result' | 'cached' | 'failed' | 'skipped';
+
+export interface WorkflowTraceModelCall {
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadInputTokens: number;
+  costUSD: number;
+}
+
+export interface WorkflowTraceStep {
+  agentName: string;
+  action: string;
+  batch: number | null;
+  parallel: boolean;
+  condition?: string;
+  inputs?: Record<string, unknown>;
+  status: WorkflowTraceStepStatus;
+  startedAt: ISODateString | null;
+  durationMs: number | null;
+  modelCalls: WorkflowTraceModelCall[];
+  cacheHit: boolean;
+  output: {
+    agent: string;
+    message: string;
+    showToUser: boolean;
+    metadata: unknown;
+  } | null;
+  skipReason?: string;
+  error?: string;
+}
+
+export interface WorkflowTrace {
+  id: string;
+  projectId: UUID;
+  userId: UUID | null;
+  messageId: string | null;
+  userMessage: string;
+  status: 'running' | 'completed' | 'failed';
+  intent: { type: string; confidence: number; reasoning: string } | null;
+  workflow: {
+    intent: string;
+    confidence: number;
+    definition?: {
+      intent: string;
+      type: 'default' | 'project';
+      defaultsVersion: number;
+      overrideVersion: number | null;
+    };
+  } | null;
+  steps: WorkflowTraceStep[];
+  totals: {
+    durationMs: number | null;
+    inputTokens: number;
+    outputTokens: number;
+    costUSD: number;
+  };
+  error?: string;
+  startedAt: ISODateString;
+  completedAt: ISODateString | null;
+}
+
 /**
  * Type guard for Message
  */
@@ -314,13 +492,22 @@ export interface Reference {
   tags?: string[]; // Tags for organizing references (e.g., 'competitor', 'requirement', 'design')
   is_favorite?: boolean; // Whether this reference is pinned/favorited
   metadata?: {
-    type?: 'image' | 'video' | 'document' | 'product';
+    type?: 'image' | 'video' | 'audio' | 'document' | 'product';
     analysis?: string; // AI-generated analysis
     description?: string;
     mimeType?: string;
     storagePath?: string;
     fileSize?: number;
     contextualAnalysis?: any;
+    // Audio/video references: transcription and keyframe sampling results
+    media?: {
+      durationSeconds: number;
+      keyframeTimestamps: number[];
+      transcriptProvider: string | null;
+      language: string | null;
+      transcriptChunks: number;
+      transcriptionError: string | null;
+    };
     [key: string]: any;
   };
   created_at: string;
@@ -377,6 +564,148 @@ export interface Document {
   folder?: DocumentFolder; // Joined data when requested
 }
 
+// Generated documents (PRDs, specs, roadmaps written from the project)
+export type ClaimStatus = 'supported' | 'unsupported' | 'contradicted';
+
+export interface ClaimEvidence {
+  sourceType: 'item' | 'message' | 'reference';
+  sourceId: string;
+  title: string;
+  quote: string;
+  location: string | null;
+}
+
+// One statement of a generated document, labelled against the project's evidence
+export interface VerifiedClaim {
+  index: number;
+  text: string;
+  charStart: number; // Range of the claim in the document's markdown
+  charEnd: number;
+  section: string | null;
+  status: ClaimStatus;
+  explanation: string;
+  evidence: ClaimEvidence[];
+}
+
+export interface DocumentVerification {
+  verifiedAt: string;
+  contentHash: string;
+  counts: Record<ClaimStatus, number>;
+  claims: VerifiedClaim[];
+  truncated: boolean; // Only the first claims of a long document are checked
+}
+
+// Copy of a web page cited by research, as it was fetched
+export interface ArchivedSourceLink {
+  archiveId: string;
+  url: string;
+  contentHash: string;
+  fetchedAt: string;
+  hasScreenshot: boolean;
+}
+
+export interface PageArchive {
+  id: string;
+  projectId: string;
+  researchQueryId: string | null;
+  url: string;
+  title: string;
+  html: string | null;
+  textContent: string;
+  contentHash: string;
+  screenshotPath: string | null;
+  fetchedAt: string;
+  createdAt: string;
+}
+
+export type MemoryFactCategory = 'constraint' | 'preference' | 'stakeholder' | 'rejected_idea' | 'answer';
+
+export interface MemoryFact {
+  id: string;
+  projectId: string;
+  category: MemoryFactCategory;
+  content: string;
+  reason: string | null;
+  source: 'extracted' | 'user';
+  sourceMessageId: string | null;
+  createdBy: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ProjectMemory {
+  projectId: string;
+  summary: string;
+  summarizedThrough: string | null;
+  summarizedMessageCount: number;
+  summaryEditedBy: string | null;
+  updatedAt: string | null;
+  facts: MemoryFact[];
+}
+
+export type AnalysisTemplateFieldType = 'text' | 'list' | 'table' | 'comparison' | 'rating' | 'pros_cons';
+
+export interface AnalysisTemplateField {
+  id: string;
+  label: string;
+  description: string;
+  type: AnalysisTemplateFieldType;
+  required: boolean;
+  extractionHint?: string;
+}
+
+export type AnalysisTemplateScope = 'user' | 'project' | 'organization';
+
+export interface AnalysisTemplate {
+  id: string;
+  name: string;
+  description: string;
+  type: 'competitor' | 'technical' | 'user_research' | 'market' | 'custom';
+  icon: string;
+  fields: AnalysisTemplateField[];
+  outputFormat: 'markdown' | 'structured_json' | 'table';
+  systemPrompt: string;
+  // Set on custom (stored) templates only
+  scope?: AnalysisTemplateScope;
+  projectId?: string | null;
+  ownerId?: string;
+  basedOn?: string | null;
+  version?: number;
+  updatedBy?: string | null;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export interface AnalysisTemplateVersion {
+  templateId: string;
+  version: number;
+  name: string;
+  description: string;
+  icon: string;
+  outputFormat: AnalysisTemplate['outputFormat'];
+  fields: AnalysisTemplateField[];
+  systemPrompt: string;
+  createdBy: string | null;
+  createdAt: string;
+}
+
+export interface GeneratedDocument {
+  id: string; // UUID format
+  project_id: string; // UUID format
+  document_type: string;
+  title: string;
+  content: string;
+  version: number;
+  metadata?: {
+    verification?: DocumentVerification;
+    // Archived copies of the pages the research behind this document cited
+    archived_sources?: ArchivedSourceLink[];
+    [key: string]: unknown;
+  };
+  created_at: string;
+  updated_at: string;
+}
+
 // Session types
 export interface UserSession {
   id: string; // UUID format